@@ -1,20 +1,94 @@
 import { useQuery } from "@tanstack/react-query";
 import type { SuggestedLead } from "@shared/schema";
 import { LeadCard } from "@/components/LeadCard";
+import { ScoreBadge } from "@/components/ScoreBadge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
-import { RefreshCw } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RefreshCw, SquareKanban } from "lucide-react";
 import { EmptyState } from "@/components/EmptyState";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PipelineStage {
+  id: string;
+  label: string;
+  isTerminal?: boolean;
+  order: number;
+}
+
+interface PipelineBoard {
+  verticalId: string;
+  columns: { stage: PipelineStage; leads: SuggestedLead[] }[];
+  unstaged: SuggestedLead[];
+}
+
+interface KanbanCardProps {
+  lead: SuggestedLead;
+  stages: PipelineStage[];
+  onMove: (leadId: string, toStage: string) => void;
+}
+
+function KanbanCard({ lead, stages, onMove }: KanbanCardProps) {
+  const leadData = lead.lead as any;
+
+  return (
+    <Card className="p-3 space-y-2" data-testid={`card-kanban-lead-${lead.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <h4 className="text-sm font-medium truncate">{leadData.name}</h4>
+        <ScoreBadge score={lead.score} size="sm" />
+      </div>
+      <Select value={lead.pipelineStage ?? undefined} onValueChange={(toStage) => onMove(lead.id, toStage)}>
+        <SelectTrigger className="h-8 text-xs" data-testid={`select-stage-${lead.id}`}>
+          <SelectValue placeholder="Move to..." />
+        </SelectTrigger>
+        <SelectContent>
+          {stages.map((stage) => (
+            <SelectItem key={stage.id} value={stage.id}>
+              {stage.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </Card>
+  );
+}
 
 export default function Leads() {
+  const { toast } = useToast();
   const { data: leads = [], isLoading, refetch } = useQuery<SuggestedLead[]>({
     queryKey: ["/api/leads"],
   });
+  const { data: board, isLoading: boardLoading, refetch: refetchBoard } = useQuery<PipelineBoard>({
+    queryKey: ["/api/leads/board"],
+  });
 
   const handleRefresh = () => {
     refetch();
+    refetchBoard();
+  };
+
+  const handleMove = async (leadId: string, toStage: string) => {
+    try {
+      await apiRequest("POST", `/api/leads/${leadId}/stage`, { toStage, actor: "user" });
+      await queryClient.invalidateQueries({ queryKey: ["/api/leads"] });
+      await queryClient.invalidateQueries({ queryKey: ["/api/leads/board"] });
+    } catch (err: any) {
+      toast({ title: "Could not move lead", description: err.message, variant: "destructive" });
+    }
   };
 
+  const stages = board?.columns.map((column) => column.stage) ?? [];
+
   return (
     <div className="flex flex-col h-full overflow-hidden">
       <header className="border-b p-6">
@@ -37,32 +111,79 @@ export default function Leads() {
         </div>
       </header>
 
-      <ScrollArea className="flex-1">
-        <div className="p-6">
-          {isLoading ? (
+      <Tabs defaultValue="list" className="flex flex-col flex-1 overflow-hidden">
+        <div className="px-6 pt-4">
+          <TabsList data-testid="tabs-leads-view">
+            <TabsTrigger value="list" data-testid="tab-leads-list">List</TabsTrigger>
+            <TabsTrigger value="pipeline" data-testid="tab-leads-pipeline">Pipeline</TabsTrigger>
+          </TabsList>
+        </div>
+
+        <TabsContent value="list" className="flex-1 overflow-hidden mt-0">
+          <ScrollArea className="h-full">
+            <div className="p-6">
+              {isLoading ? (
+                <div className="flex items-center justify-center h-64">
+                  <p className="text-muted-foreground">Loading leads...</p>
+                </div>
+              ) : leads.length === 0 ? (
+                <EmptyState
+                  title="No leads yet"
+                  description="The supervisor will automatically generate leads based on your signals"
+                  icon="inbox"
+                />
+              ) : (
+                <div className="space-y-4" data-testid="leads-list">
+                  {leads.map((lead) => (
+                    <LeadCard
+                      key={lead.id}
+                      lead={lead}
+                      onAddToList={() => console.log('Add to list:', lead.id)}
+                      onDraftEmail={() => console.log('Draft email:', lead.id)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="pipeline" className="flex-1 overflow-hidden mt-0">
+          {boardLoading ? (
             <div className="flex items-center justify-center h-64">
-              <p className="text-muted-foreground">Loading leads...</p>
+              <p className="text-muted-foreground">Loading pipeline...</p>
             </div>
-          ) : leads.length === 0 ? (
+          ) : !board || board.columns.length === 0 ? (
             <EmptyState
-              title="No leads yet"
-              description="The supervisor will automatically generate leads based on your signals"
-              icon="inbox"
+              title="No pipeline"
+              description="This vertical has no lead pipeline stages"
+              icon={SquareKanban}
             />
           ) : (
-            <div className="space-y-4" data-testid="leads-list">
-              {leads.map((lead) => (
-                <LeadCard
-                  key={lead.id}
-                  lead={lead}
-                  onAddToList={() => console.log('Add to list:', lead.id)}
-                  onDraftEmail={() => console.log('Draft email:', lead.id)}
-                />
+            <div className="flex gap-4 p-6 h-full overflow-x-auto" data-testid="leads-kanban">
+              {board.columns.map(({ stage, leads: stageLeads }) => (
+                <div
+                  key={stage.id}
+                  className="flex flex-col w-64 flex-shrink-0 rounded-md bg-muted/40"
+                  data-testid={`kanban-column-${stage.id}`}
+                >
+                  <div className="flex items-center justify-between p-3 border-b">
+                    <span className="text-sm font-medium">{stage.label}</span>
+                    <Badge variant={stage.isTerminal ? "secondary" : "outline"}>{stageLeads.length}</Badge>
+                  </div>
+                  <ScrollArea className="flex-1">
+                    <div className="space-y-2 p-2">
+                      {stageLeads.map((lead) => (
+                        <KanbanCard key={lead.id} lead={lead} stages={stages} onMove={handleMove} />
+                      ))}
+                    </div>
+                  </ScrollArea>
+                </div>
               ))}
             </div>
           )}
-        </div>
-      </ScrollArea>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -0,0 +1,39 @@
+-- 008_supervisor_event_bus.sql
+-- Durable event bus: persisted events, durable subscribers, per-subscriber deliveries
+
+CREATE TABLE IF NOT EXISTS supervisor_events (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  event JSONB NOT NULL,
+  delivery_mode TEXT NOT NULL DEFAULT 'at_least_once',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supervisor_events_type ON supervisor_events(type);
+CREATE INDEX IF NOT EXISTS idx_supervisor_events_created_at ON supervisor_events(created_at);
+
+CREATE TABLE IF NOT EXISTS supervisor_event_subscribers (
+  subscriber_id TEXT PRIMARY KEY,
+  pattern TEXT NOT NULL,
+  registered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS supervisor_event_deliveries (
+  id TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL,
+  subscriber_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  lease_until TIMESTAMPTZ,
+  last_error TEXT,
+  acknowledged_at TIMESTAMPTZ,
+  dead_lettered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supervisor_event_deliveries_event_subscriber
+  ON supervisor_event_deliveries(event_id, subscriber_id);
+CREATE INDEX IF NOT EXISTS idx_supervisor_event_deliveries_due
+  ON supervisor_event_deliveries(status, next_attempt_at);
@@ -0,0 +1,40 @@
+-- 009_supervisor_jobs.sql
+-- Persistent job queue: leased jobs with retries/priority, and lease-based named locks
+
+CREATE TABLE IF NOT EXISTS supervisor_jobs (
+  job_id TEXT PRIMARY KEY,
+  job_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued',
+  payload JSONB,
+  requested_by TEXT NOT NULL,
+  source_run_id TEXT,
+  user_id TEXT,
+  client_request_id TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+  lease_owner TEXT,
+  lease_until TIMESTAMPTZ,
+  progress INTEGER NOT NULL DEFAULT 0,
+  message TEXT,
+  result_summary JSONB,
+  last_error TEXT,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supervisor_jobs_client_request
+  ON supervisor_jobs(job_type, client_request_id)
+  WHERE client_request_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_supervisor_jobs_due
+  ON supervisor_jobs(status, priority, run_after);
+CREATE INDEX IF NOT EXISTS idx_supervisor_jobs_user ON supervisor_jobs(user_id);
+
+CREATE TABLE IF NOT EXISTS supervisor_job_locks (
+  name TEXT PRIMARY KEY,
+  owner TEXT NOT NULL,
+  lease_until TIMESTAMPTZ NOT NULL,
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
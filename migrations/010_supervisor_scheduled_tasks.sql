@@ -0,0 +1,25 @@
+-- 010_supervisor_scheduled_tasks.sql
+-- Durable scheduler: delayed / recurring tasks that survive restarts
+
+CREATE TABLE IF NOT EXISTS supervisor_scheduled_tasks (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  payload JSONB,
+  priority TEXT,
+  priority_rank INTEGER NOT NULL DEFAULT 1,
+  metadata JSONB,
+  status TEXT NOT NULL DEFAULT 'pending',
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ,
+  interval_ms BIGINT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  lease_owner TEXT,
+  lease_until TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_supervisor_scheduled_tasks_due
+  ON supervisor_scheduled_tasks(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_supervisor_scheduled_tasks_type
+  ON supervisor_scheduled_tasks(type);
@@ -0,0 +1,28 @@
+-- 011_saved_leads.sql
+-- Saved leads (previously an in-memory array): one row per saved place per owner,
+-- with pipeline stage, notes and tags
+
+CREATE TABLE IF NOT EXISTS saved_leads (
+  id TEXT PRIMARY KEY,
+  owner_user_id TEXT NOT NULL,
+  business_name TEXT NOT NULL,
+  address TEXT NOT NULL,
+  place_id TEXT,
+  website TEXT,
+  phone TEXT,
+  lat REAL,
+  lng REAL,
+  source TEXT NOT NULL,
+  pipeline_stage TEXT,
+  pipeline_stage_changed_at TIMESTAMPTZ,
+  notes TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_leads_owner_place
+  ON saved_leads(owner_user_id, place_id)
+  WHERE place_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_saved_leads_owner_stage
+  ON saved_leads(owner_user_id, pipeline_stage);
@@ -0,0 +1,18 @@
+-- 012_lead_stage_history.sql
+-- Pipeline stage transitions for suggested_leads, with the actor and reason per change
+
+CREATE TABLE IF NOT EXISTS lead_stage_history (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id VARCHAR NOT NULL,
+  account_id VARCHAR,
+  user_id VARCHAR,
+  vertical_id TEXT NOT NULL,
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_stage_history_lead
+  ON lead_stage_history(lead_id, created_at);
@@ -0,0 +1,22 @@
+-- 013_crm_sync_state.sql
+-- CRM push state per lead per provider (crm-sync job), so re-runs skip leads
+-- already pushed and keep the external record ID
+
+CREATE TABLE IF NOT EXISTS crm_sync_state (
+  id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  lead_id TEXT NOT NULL,
+  user_id TEXT,
+  status TEXT NOT NULL,
+  external_id TEXT,
+  dedupe_key TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  synced_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_crm_sync_state_provider_lead
+  ON crm_sync_state(provider, lead_id);
+CREATE INDEX IF NOT EXISTS idx_crm_sync_state_user
+  ON crm_sync_state(user_id, provider);
@@ -0,0 +1,19 @@
+-- 014_fetch_cache.sql
+-- Shared cache for Google Places, geocode, Brave and web-visit fetches
+-- (supervisor/fetch-cache), so restarts don't re-spend API quota
+
+CREATE TABLE IF NOT EXISTS fetch_cache (
+  id TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  cache_key TEXT NOT NULL,
+  value JSONB,
+  stored_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  stale_until TIMESTAMPTZ NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fetch_cache_source_key
+  ON fetch_cache(source, cache_key);
+CREATE INDEX IF NOT EXISTS idx_fetch_cache_source_stored
+  ON fetch_cache(source, stored_at);
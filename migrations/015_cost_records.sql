@@ -0,0 +1,29 @@
+-- 015_cost_records.sql
+-- One row per LLM or paid-API call (supervisor/cost-ledger): tokens or units,
+-- price-table cost estimate and run/user/account/label attribution for /api/costs
+
+CREATE TABLE IF NOT EXISTS cost_records (
+  id TEXT PRIMARY KEY,
+  run_id TEXT,
+  user_id TEXT,
+  account_id TEXT,
+  label TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  units INTEGER NOT NULL DEFAULT 0,
+  unit TEXT,
+  cost_usd NUMERIC(14, 6) NOT NULL DEFAULT 0,
+  estimated BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_records_run
+  ON cost_records(run_id);
+CREATE INDEX IF NOT EXISTS idx_cost_records_user_created
+  ON cost_records(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cost_records_account_created
+  ON cost_records(account_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_cost_records_created
+  ON cost_records(created_at);
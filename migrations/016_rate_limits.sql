@@ -0,0 +1,20 @@
+-- 016_rate_limits.sql
+-- Shared state for supervisor/rate-limits: token buckets per provider/user/route
+-- key and circuit breakers, so limits survive restarts and hold across instances
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens REAL NOT NULL,
+  granted BOOLEAN NOT NULL DEFAULT true,
+  updated_at_ms BIGINT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS circuit_breakers (
+  key TEXT PRIMARY KEY,
+  state TEXT NOT NULL DEFAULT 'closed',
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  open_until TIMESTAMPTZ,
+  probe_started_at TIMESTAMPTZ,
+  last_error TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
@@ -0,0 +1,37 @@
+-- 017_sleep_wake_leases.sql
+-- Multi-instance sleep-wake (supervisor/sleep-wake): row-level leases on
+-- scheduled_monitors, durable daily wake quotas and an audit of every wake attempt
+
+ALTER TABLE scheduled_monitors
+  ADD COLUMN IF NOT EXISTS claimed_by TEXT,
+  ADD COLUMN IF NOT EXISTS lease_until TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS wake_attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS sleep_wake_daily_quota (
+  quota_key TEXT NOT NULL,
+  day DATE NOT NULL,
+  wakes INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (quota_key, day)
+);
+
+CREATE TABLE IF NOT EXISTS sleep_wake_attempts (
+  id TEXT PRIMARY KEY,
+  monitor_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  owner TEXT NOT NULL,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'running',
+  run_id TEXT,
+  lease_until TIMESTAMPTZ,
+  entities_found INTEGER,
+  new_entities INTEGER,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ended_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_sleep_wake_attempts_monitor
+  ON sleep_wake_attempts(monitor_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_sleep_wake_attempts_running
+  ON sleep_wake_attempts(lease_until) WHERE status = 'running';
@@ -0,0 +1,19 @@
+-- 018_entity_index.sql
+-- First-seen index for supervisor/entity-index: every place_id and website domain
+-- the executors surface, with first/last seen timestamps and sources. Backs the
+-- 'new_listing' time-predicate proxy.
+
+CREATE TABLE IF NOT EXISTS entity_index (
+  id TEXT PRIMARY KEY,
+  kind TEXT NOT NULL,
+  entity_key TEXT NOT NULL,
+  name TEXT,
+  first_seen_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ NOT NULL,
+  first_source TEXT NOT NULL,
+  last_source TEXT NOT NULL,
+  sightings INTEGER NOT NULL DEFAULT 1
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entity_index_kind_key ON entity_index(kind, entity_key);
+CREATE INDEX IF NOT EXISTS idx_entity_index_first_seen ON entity_index(first_seen_at);
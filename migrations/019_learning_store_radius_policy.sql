@@ -0,0 +1,6 @@
+-- 019_learning_store_radius_policy.sql
+-- Learned RadiusPolicyV1 numbers per query shape (default_steps_km, max_cap_km,
+-- min_new_eligible_to_continue) for the gp_radius executor. NULL means the
+-- global defaults apply.
+
+ALTER TABLE learning_store ADD COLUMN IF NOT EXISTS radius_policy JSONB;
@@ -0,0 +1,11 @@
+-- 020_entity_index_coverage.sql
+-- When each area (normalised search location) was first searched. A lead first
+-- seen inside a time window only counts as a new listing when its area was
+-- already being searched before the window opened.
+
+CREATE TABLE IF NOT EXISTS entity_index_coverage (
+  area TEXT PRIMARY KEY,
+  first_searched_at TIMESTAMPTZ NOT NULL,
+  last_searched_at TIMESTAMPTZ NOT NULL,
+  searches INTEGER NOT NULL DEFAULT 1
+);
@@ -9,6 +9,7 @@
  */
 
 import type { VerticalId } from '../verticals/types';
+import { isRegisteredVerticalId } from '../verticals/VerticalPackRegistry';
 
 // ============================================
 // ACCOUNT DOMAIN TYPES
@@ -70,8 +71,8 @@ export interface AccountContext {
 // ============================================
 
 /**
- * Default vertical ID for accounts that don't have one set.
- * After SUP-17, all accounts should have verticalId = 'brewery'.
+ * Default vertical ID for accounts that don't have one set,
+ * or whose vertical is not registered.
  */
 export const DEFAULT_VERTICAL_ID: VerticalId = 'brewery';
 
@@ -81,7 +82,7 @@ export const DEFAULT_VERTICAL_ID: VerticalId = 'brewery';
 
 /**
  * Create an Account domain object from raw account data.
- * Ensures verticalId is always set (defaults to 'brewery').
+ * Ensures verticalId is always a registered vertical (defaults to 'brewery').
  * 
  * @param raw - Raw account data (e.g., from Supabase)
  * @returns Account with guaranteed verticalId
@@ -97,7 +98,7 @@ export const DEFAULT_VERTICAL_ID: VerticalId = 'brewery';
 export function createAccountFromRaw(raw: RawAccountData): Account {
   return {
     id: raw.id,
-    verticalId: (raw.vertical_id as VerticalId) || DEFAULT_VERTICAL_ID,
+    verticalId: getAccountVerticalId(raw.vertical_id),
     name: raw.name,
     metadata: Object.fromEntries(
       Object.entries(raw).filter(([key]) => 
@@ -109,7 +110,7 @@ export function createAccountFromRaw(raw: RawAccountData): Account {
 
 /**
  * Ensure an account has a verticalId set.
- * If verticalId is missing or undefined, defaults to 'brewery'.
+ * If verticalId is missing or not registered, defaults to 'brewery'.
  * 
  * @param account - Account that might have missing verticalId
  * @returns Account with guaranteed verticalId
@@ -118,26 +119,35 @@ export function ensureAccountVertical(account: Partial<Account> & { id: string }
   return {
     ...account,
     id: account.id,
-    verticalId: account.verticalId || DEFAULT_VERTICAL_ID,
+    verticalId: getAccountVerticalId(account.verticalId),
   };
 }
 
 /**
  * Get the vertical ID for an account, with fallback to default.
- * Safe to call with undefined/null values.
+ * Safe to call with undefined/null values. IDs that are not registered
+ * in the VerticalPackRegistry are logged and fall back to the default.
  * 
  * @param verticalId - Optional vertical ID (may be undefined/null)
- * @returns A valid VerticalId (defaults to 'brewery')
+ * @returns A registered VerticalId (defaults to 'brewery')
  * 
  * @example
  * ```ts
  * getAccountVerticalId(undefined); // 'brewery'
  * getAccountVerticalId('brewery'); // 'brewery'
- * getAccountVerticalId(null as any); // 'brewery'
+ * getAccountVerticalId('dental'); // 'dental' (once the dental pack is loaded)
+ * getAccountVerticalId('unknown'); // 'brewery'
  * ```
  */
 export function getAccountVerticalId(verticalId: VerticalId | undefined | null): VerticalId {
-  return verticalId || DEFAULT_VERTICAL_ID;
+  if (!verticalId) {
+    return DEFAULT_VERTICAL_ID;
+  }
+  if (!isRegisteredVerticalId(verticalId)) {
+    console.warn(`[Accounts] Unknown vertical "${verticalId}", falling back to "${DEFAULT_VERTICAL_ID}"`);
+    return DEFAULT_VERTICAL_ID;
+  }
+  return verticalId;
 }
 
 /**
@@ -0,0 +1,186 @@
+/**
+ * Supervisor EventBus - Durable Test
+ *
+ * Tests for DurableEventBus delivery, retry and dead-letter behaviour
+ * against the InMemoryEventStore.
+ * Run with: npx tsx server/core/event-bus/durable-event-bus.test.ts
+ */
+
+import { createDurableEventBus, computeRetryDelayMs } from './durable-event-bus';
+import { createInMemoryEventStore } from './in-memory-event-store';
+import type { BaseSupervisorEvent } from '../types';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+/**
+ * Create a test event
+ */
+function createTestEvent(type: string, id?: string): BaseSupervisorEvent {
+  return {
+    id: id || `evt_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    type,
+    timestamp: new Date().toISOString(),
+    source: 'test'
+  };
+}
+
+/**
+ * Run DurableEventBus tests
+ */
+async function runTests(): Promise<void> {
+  console.log('\n=== DurableEventBus Tests ===\n');
+
+  // 1. Publish persists the event and acknowledges a local durable subscriber
+  const store = createInMemoryEventStore();
+  const bus = createDurableEventBus(store, { retryBaseDelayMs: 0, maxAttempts: 3 });
+
+  const received: BaseSupervisorEvent[] = [];
+  bus.subscribe('lead.saved', async (event) => {
+    received.push(event);
+  }, { subscriberId: 'crm-sync' });
+
+  const event1 = createTestEvent('lead.saved', 'evt_1');
+  const result1 = await bus.publish(event1);
+
+  assert(result1.handlerCount === 1, 'One durable handler received the event');
+  assert(result1.errorCount === 0, 'No handler errors');
+  assert(received.length === 1, 'Handler invoked once');
+  assert(store.getEventCount() === 1, 'Event was persisted');
+  const deliveries1 = store.getDeliveriesForEvent('evt_1');
+  assert(deliveries1.length === 1, 'One delivery row created');
+  assert(deliveries1[0].status === 'acknowledged', 'Delivery acknowledged');
+  console.log('\n1. Persist + acknowledge verification passed');
+
+  // 2. Duplicate event IDs are ignored
+  const duplicate = await bus.publish(event1);
+  assert(duplicate.handlerCount === 0, 'Duplicate publish reaches no handlers');
+  assert(received.length === 1, 'Handler not invoked again for duplicate');
+  assert(store.getEventCount() === 1, 'Duplicate event not persisted twice');
+  console.log('\n2. Publish idempotency verification passed');
+
+  // 3. Failed handler is retried by the poller and then acknowledged
+  let flakyCalls = 0;
+  bus.subscribe('feature.completed', async () => {
+    flakyCalls++;
+    if (flakyCalls === 1) {
+      throw new Error('transient failure');
+    }
+  }, { subscriberId: 'flaky' });
+
+  const event2 = createTestEvent('feature.completed', 'evt_2');
+  const result2 = await bus.publish(event2);
+  assert(result2.errorCount === 1, 'First attempt reported as error');
+  let delivery2 = store.getDeliveriesForEvent('evt_2')[0];
+  assert(delivery2.status === 'pending', 'Failed delivery is pending retry');
+  assert(delivery2.attempts === 1, 'Attempt count recorded');
+  assert(delivery2.lastError === 'transient failure', 'Last error recorded');
+
+  const pass1 = await bus.processDueDeliveries();
+  assert(pass1.claimed === 1 && pass1.acknowledged === 1, 'Redelivery acknowledged the retry');
+  delivery2 = store.getDeliveriesForEvent('evt_2')[0];
+  assert(delivery2.status === 'acknowledged', 'Delivery acknowledged after retry');
+  assert(flakyCalls === 2, 'Handler invoked twice in total');
+  console.log('\n3. Retry verification passed');
+
+  // 4. Handler that keeps failing is dead-lettered after maxAttempts
+  bus.subscribe('agent.failed', async () => {
+    throw new Error('permanent failure');
+  }, { subscriberId: 'broken' });
+
+  await bus.publish(createTestEvent('agent.failed', 'evt_3'));
+  await bus.processDueDeliveries();
+  const pass3 = await bus.processDueDeliveries();
+  assert(pass3.deadLettered === 1, 'Third attempt dead-lettered');
+
+  const delivery3 = store.getDeliveriesForEvent('evt_3')[0];
+  assert(delivery3.status === 'failed', 'Delivery marked failed');
+  assert(delivery3.attempts === 3, 'Delivery attempted maxAttempts times');
+  assert(!!delivery3.deadLetteredAt, 'Dead-letter timestamp set');
+
+  const pass4 = await bus.processDueDeliveries();
+  assert(pass4.claimed === 0, 'Dead-lettered delivery is not retried');
+
+  const deadLetters = await bus.listDeadLetters();
+  assert(deadLetters.length === 1, 'One dead letter listed');
+  assert(deadLetters[0].event.id === 'evt_3', 'Dead letter carries its event');
+  console.log('\n4. Dead-letter verification passed');
+
+  // 5. Redrive moves a dead letter back to pending
+  const redriven = await bus.redriveDeadLetter(delivery3.id);
+  assert(redriven, 'Dead letter redriven');
+  const afterRedrive = store.getDelivery(delivery3.id)!;
+  assert(afterRedrive.status === 'pending' && afterRedrive.attempts === 0, 'Redriven delivery reset to pending');
+  assert(!(await bus.redriveDeadLetter(delivery1Id(store))), 'Acknowledged delivery cannot be redriven');
+  console.log('\n5. Redrive verification passed');
+
+  // 6. Events published while a durable subscriber is offline survive a "restart"
+  const restartStore = createInMemoryEventStore();
+  const busBefore = createDurableEventBus(restartStore, { retryBaseDelayMs: 0 });
+  busBefore.subscribe('feature.*', async () => {}, { subscriberId: 'analytics' });
+  await busBefore.publish(createTestEvent('feature.started', 'evt_warmup'));
+  busBefore.clear();
+
+  const queued = await busBefore.publish(createTestEvent('feature.completed', 'evt_offline'));
+  assert(queued.handlerCount === 1, 'Delivery created for offline durable subscriber');
+  assert(
+    restartStore.getDeliveriesForEvent('evt_offline')[0].status === 'pending',
+    'Delivery waits for the subscriber'
+  );
+
+  const busAfter = createDurableEventBus(restartStore, { retryBaseDelayMs: 0 });
+  const afterRestart: BaseSupervisorEvent[] = [];
+  busAfter.subscribe('feature.*', async (event) => {
+    afterRestart.push(event);
+  }, { subscriberId: 'analytics' });
+  const restartPass = await busAfter.processDueDeliveries();
+  assert(restartPass.acknowledged === 1, 'Missed event delivered after restart');
+  assert(afterRestart[0]?.id === 'evt_offline', 'Subscriber received the missed event');
+  console.log('\n6. Restart recovery verification passed');
+
+  // 7. Fire-and-forget and ephemeral subscriptions are not persisted
+  const ffStore = createInMemoryEventStore();
+  const ffBus = createDurableEventBus(ffStore);
+  const ephemeralReceived: BaseSupervisorEvent[] = [];
+  ffBus.subscribe('task.*', async (event) => {
+    ephemeralReceived.push(event);
+  });
+
+  const ffResult = await ffBus.publish(createTestEvent('task.completed'), { deliveryMode: 'fire_and_forget' });
+  assert(ffResult.handlerCount === 1, 'Ephemeral subscriber received fire-and-forget event');
+  assert(ffStore.getEventCount() === 0, 'Fire-and-forget event not persisted');
+
+  await ffBus.publish(createTestEvent('task.completed', 'evt_durable'));
+  assert(ephemeralReceived.length === 2, 'Ephemeral subscriber also receives durable events');
+  assert(ffStore.getDeliveriesForEvent('evt_durable').length === 0, 'No delivery rows for ephemeral subscribers');
+  assert(ffBus.subscriberCount('task.completed') === 1, 'Subscriber count includes ephemeral subscriber');
+  console.log('\n7. Fire-and-forget verification passed');
+
+  // 8. Backoff grows exponentially and is capped
+  assert(computeRetryDelayMs(1, { retryBaseDelayMs: 1000 }) === 1000, 'First retry uses base delay');
+  assert(computeRetryDelayMs(3, { retryBaseDelayMs: 1000 }) === 4000, 'Third retry doubles twice');
+  assert(computeRetryDelayMs(20, { retryBaseDelayMs: 1000, retryMaxDelayMs: 60000 }) === 60000, 'Delay capped at max');
+  console.log('\n8. Backoff verification passed');
+
+  console.log('\n=== All DurableEventBus Tests Passed! ===\n');
+}
+
+/**
+ * ID of the acknowledged delivery from test 1
+ */
+function delivery1Id(store: ReturnType<typeof createInMemoryEventStore>): string {
+  return store.getDeliveriesForEvent('evt_1')[0].id;
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
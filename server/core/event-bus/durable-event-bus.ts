@@ -0,0 +1,525 @@
+/**
+ * Durable Event Bus Implementation
+ *
+ * A SupervisorEventBus that persists events to an EventStore so they
+ * survive restarts and deploys.
+ *
+ * Delivery semantics:
+ * - fire_and_forget: behaves like InMemoryEventBus, nothing is persisted
+ * - at_least_once:   event is persisted, each durable subscriber gets its own
+ *                    delivery row which is retried with exponential backoff
+ *                    until the handler succeeds (acknowledged) or maxAttempts
+ *                    is reached (dead-lettered)
+ * - exactly_once:    at_least_once plus publish idempotency on event ID; an
+ *                    acknowledged delivery is never invoked again, so handlers
+ *                    only see a repeat if the process dies mid-handler
+ *
+ * Durable subscribers are subscriptions with a stable `subscriberId`.
+ * Subscriptions without one (or with `once`) are ephemeral and only receive
+ * events published while they are registered in this process.
+ */
+
+import type { BaseSupervisorEvent, EventHandler, Subscription, DeliveryMode } from '../types';
+import type {
+  SupervisorEventBus,
+  SubscribeOptions,
+  PublishOptions,
+  PublishResult,
+  EventStore,
+  EventDeliveryRecord,
+  ClaimedDelivery,
+  DurableEventBusConfig,
+  RedeliveryResult,
+} from './types';
+import { InMemoryEventBus, matchesPattern } from './in-memory-event-bus';
+
+/**
+ * Durable handler registration (keyed by subscriberId)
+ */
+interface DurableRegistration {
+  subscriberId: string;
+  pattern: string;
+  handler: EventHandler<BaseSupervisorEvent>;
+  options: SubscribeOptions;
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+type DeliveryOutcome = 'acknowledged' | 'retried' | 'dead_lettered';
+
+/**
+ * Default configuration values
+ */
+const DEFAULT_CONFIG: Required<DurableEventBusConfig> = {
+  defaultDeliveryMode: 'at_least_once',
+  maxAttempts: 5,
+  retryBaseDelayMs: 1000,          // 1 second
+  retryMaxDelayMs: 5 * 60 * 1000,  // 5 minutes
+  leaseMs: 60 * 1000,              // 1 minute
+  pollIntervalMs: 5000,            // 5 seconds
+  batchSize: 50,
+};
+
+/**
+ * Generate a unique delivery ID
+ */
+function generateDeliveryId(): string {
+  return `dlv_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Compute the retry delay after a failed attempt (exponential, capped).
+ *
+ * @param attempts - Number of attempts made so far (1-based)
+ * @param config - Bus configuration
+ */
+export function computeRetryDelayMs(
+  attempts: number,
+  config: Pick<DurableEventBusConfig, 'retryBaseDelayMs' | 'retryMaxDelayMs'> = {}
+): number {
+  const base = config.retryBaseDelayMs ?? DEFAULT_CONFIG.retryBaseDelayMs;
+  const max = config.retryMaxDelayMs ?? DEFAULT_CONFIG.retryMaxDelayMs;
+  return Math.min(base * Math.pow(2, Math.max(0, attempts - 1)), max);
+}
+
+/**
+ * Run a handler with an optional timeout
+ */
+async function invokeHandler(
+  handler: EventHandler<BaseSupervisorEvent>,
+  event: BaseSupervisorEvent,
+  timeoutMs?: number
+): Promise<void> {
+  const handlerPromise = Promise.resolve(handler(event));
+  if (!timeoutMs) {
+    await handlerPromise;
+    return;
+  }
+
+  let timeoutHandle: NodeJS.Timeout;
+  const timeoutPromise = new Promise<void>((_, reject) => {
+    timeoutHandle = setTimeout(() => reject(new Error('Handler timeout')), timeoutMs);
+  });
+  try {
+    await Promise.race([handlerPromise, timeoutPromise]);
+  } finally {
+    clearTimeout(timeoutHandle!);
+  }
+}
+
+/**
+ * EventStore-backed implementation of SupervisorEventBus.
+ *
+ * Features:
+ * - Persisted events with publish idempotency on event ID
+ * - Per-subscriber delivery rows and acknowledgements
+ * - Retries with exponential backoff
+ * - Dead-lettering after maxAttempts, with redrive
+ * - Lease-based claiming so multiple processes can share one store
+ */
+export class DurableEventBus implements SupervisorEventBus {
+  private config: Required<DurableEventBusConfig>;
+
+  /**
+   * Ephemeral subscriptions and fire-and-forget events
+   */
+  private ephemeral = new InMemoryEventBus();
+
+  /**
+   * Durable subscriptions registered in this process, keyed by subscriberId
+   */
+  private durable: Map<string, DurableRegistration> = new Map();
+
+  /**
+   * Outstanding subscriber registrations (publish waits for these)
+   */
+  private pendingRegistrations: Set<Promise<void>> = new Set();
+
+  private pollTimer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(private store: EventStore, config: DurableEventBusConfig = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Subscribe to events matching a type pattern.
+   *
+   * Subscriptions with a `subscriberId` (and without `once`) are durable:
+   * the registration is persisted and missed events are delivered once the
+   * subscriber is registered again after a restart.
+   */
+  subscribe<T extends BaseSupervisorEvent = BaseSupervisorEvent>(
+    eventType: string,
+    handler: EventHandler<T>,
+    options: SubscribeOptions = {}
+  ): Subscription {
+    if (!options.subscriberId || options.once) {
+      return this.ephemeral.subscribe(eventType, handler, options);
+    }
+
+    const subscriberId = options.subscriberId;
+    this.durable.set(subscriberId, {
+      subscriberId,
+      pattern: eventType,
+      handler: handler as EventHandler<BaseSupervisorEvent>,
+      options,
+    });
+
+    const registration = this.store.registerSubscriber(subscriberId, eventType)
+      .catch((error) => {
+        console.error(
+          `[DurableEventBus] Failed to register subscriber "${subscriberId}":`,
+          error instanceof Error ? error.message : String(error)
+        );
+      })
+      .finally(() => {
+        this.pendingRegistrations.delete(registration);
+      });
+    this.pendingRegistrations.add(registration);
+
+    return {
+      id: subscriberId,
+      unsubscribe: () => this.unsubscribe(subscriberId)
+    };
+  }
+
+  /**
+   * Publish an event.
+   *
+   * Durable modes persist the event and a delivery row per matching durable
+   * subscriber before any handler runs. Subscribers registered in this
+   * process are attempted immediately; the rest are picked up by whichever
+   * process polls for them.
+   */
+  async publish<T extends BaseSupervisorEvent = BaseSupervisorEvent>(
+    event: T,
+    options: PublishOptions = {}
+  ): Promise<PublishResult> {
+    const deliveryMode: DeliveryMode = options.deliveryMode ?? this.config.defaultDeliveryMode;
+
+    if (deliveryMode === 'fire_and_forget') {
+      return this.publishFireAndForget(event, options);
+    }
+
+    if (this.pendingRegistrations.size > 0) {
+      await Promise.all(Array.from(this.pendingRegistrations));
+    }
+
+    const now = new Date();
+    const nowIso = now.toISOString();
+
+    const inserted = await this.store.saveEvent({
+      id: event.id,
+      type: event.type,
+      event,
+      deliveryMode,
+      createdAt: nowIso,
+    });
+
+    if (!inserted) {
+      console.log(`[DurableEventBus] Duplicate event "${event.id}" ignored (${event.type})`);
+      return { eventId: event.id, handlerCount: 0, errorCount: 0 };
+    }
+
+    const subscribers = (await this.store.listSubscribers())
+      .filter(s => matchesPattern(event.type, s.pattern));
+
+    const leaseUntil = new Date(now.getTime() + this.config.leaseMs).toISOString();
+    const deliveries: EventDeliveryRecord[] = subscribers.map(s => {
+      const isLocal = this.durable.has(s.subscriberId);
+      return {
+        id: generateDeliveryId(),
+        eventId: event.id,
+        subscriberId: s.subscriberId,
+        status: isLocal ? 'delivered' : 'pending',
+        attempts: 0,
+        nextAttemptAt: nowIso,
+        leaseUntil: isLocal ? leaseUntil : undefined,
+      };
+    });
+
+    if (deliveries.length > 0) {
+      await this.store.createDeliveries(deliveries);
+    }
+
+    const errors: string[] = [];
+    let errorCount = 0;
+
+    const localAttempts = deliveries
+      .filter(d => d.status === 'delivered')
+      .map(async (delivery) => {
+        const outcome = await this.runDelivery({ delivery, event }, options.timeoutMs);
+        if (outcome.outcome !== 'acknowledged') {
+          errorCount++;
+          if (outcome.error) errors.push(outcome.error);
+        }
+      });
+
+    const ephemeralResult = this.ephemeral.publish(event, options);
+
+    if (options.awaitHandlers !== false) {
+      await Promise.all(localAttempts);
+    }
+    const ephemeralOutcome = await ephemeralResult;
+
+    errorCount += ephemeralOutcome.errorCount;
+    if (ephemeralOutcome.errors) errors.push(...ephemeralOutcome.errors);
+
+    return {
+      eventId: event.id,
+      handlerCount: deliveries.length + ephemeralOutcome.handlerCount,
+      errorCount,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  /**
+   * Claim and run due deliveries for the durable subscribers registered
+   * in this process. Called by the poller; can be called directly in tests.
+   */
+  async processDueDeliveries(): Promise<RedeliveryResult> {
+    const result: RedeliveryResult = { claimed: 0, acknowledged: 0, retried: 0, deadLettered: 0 };
+    const subscriberIds = Array.from(this.durable.keys());
+    if (subscriberIds.length === 0) {
+      return result;
+    }
+
+    const now = Date.now();
+    const claims = await this.store.claimDueDeliveries({
+      subscriberIds,
+      now: new Date(now).toISOString(),
+      leaseUntil: new Date(now + this.config.leaseMs).toISOString(),
+      limit: this.config.batchSize,
+    });
+    result.claimed = claims.length;
+
+    for (const claim of claims) {
+      const { outcome } = await this.runDelivery(claim);
+      if (outcome === 'acknowledged') result.acknowledged++;
+      else if (outcome === 'retried') result.retried++;
+      else result.deadLettered++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Start polling for due deliveries.
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(() => {
+      if (this.polling) return;
+      this.polling = true;
+      this.processDueDeliveries()
+        .then((result) => {
+          if (result.claimed > 0) {
+            console.log(
+              `[DurableEventBus] Redelivery pass: claimed=${result.claimed} acked=${result.acknowledged} ` +
+              `retried=${result.retried} dead_lettered=${result.deadLettered}`
+            );
+          }
+        })
+        .catch((error) => {
+          console.error(
+            '[DurableEventBus] Redelivery pass failed:',
+            error instanceof Error ? error.message : String(error)
+          );
+        })
+        .finally(() => {
+          this.polling = false;
+        });
+    }, this.config.pollIntervalMs);
+    this.pollTimer.unref?.();
+  }
+
+  /**
+   * Stop polling for due deliveries.
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Whether the redelivery poller is running
+   */
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * List dead-lettered deliveries, newest first.
+   */
+  async listDeadLetters(limit: number = 50): Promise<ClaimedDelivery[]> {
+    return this.store.listDeadLetters(limit);
+  }
+
+  /**
+   * Move a dead-lettered delivery back to pending so it is retried.
+   *
+   * @returns True if the delivery was dead-lettered and has been requeued
+   */
+  async redriveDeadLetter(deliveryId: string): Promise<boolean> {
+    return this.store.requeueDelivery(deliveryId, new Date().toISOString());
+  }
+
+  /**
+   * Unsubscribe a handler in this process.
+   *
+   * For durable subscribers the persisted registration is kept, so events
+   * continue to queue for them; use removeSubscriber to drop it entirely.
+   */
+  unsubscribe(subscriptionId: string): void {
+    if (this.durable.delete(subscriptionId)) {
+      return;
+    }
+    this.ephemeral.unsubscribe(subscriptionId);
+  }
+
+  /**
+   * Unsubscribe and delete a durable subscriber's registration and
+   * outstanding deliveries.
+   */
+  async removeSubscriber(subscriberId: string): Promise<void> {
+    this.unsubscribe(subscriberId);
+    await this.store.removeSubscriber(subscriberId);
+  }
+
+  /**
+   * Check if there are any subscribers in this process for an event type.
+   */
+  hasSubscribers(eventType: string): boolean {
+    return this.subscriberCount(eventType) > 0;
+  }
+
+  /**
+   * Count subscribers in this process that would receive an event of this type.
+   */
+  subscriberCount(eventType: string): number {
+    let count = this.ephemeral.subscriberCount(eventType);
+    this.durable.forEach((registration) => {
+      if (matchesPattern(eventType, registration.pattern)) {
+        count++;
+      }
+    });
+    return count;
+  }
+
+  /**
+   * Clear all subscriptions in this process. Persisted registrations are kept.
+   */
+  clear(): void {
+    this.durable.clear();
+    this.ephemeral.clear();
+  }
+
+  /**
+   * Fire-and-forget publish: ephemeral and durable handlers in this process
+   * are invoked once, nothing is persisted.
+   */
+  private async publishFireAndForget<T extends BaseSupervisorEvent>(
+    event: T,
+    options: PublishOptions
+  ): Promise<PublishResult> {
+    const local = Array.from(this.durable.values())
+      .filter(r => matchesPattern(event.type, r.pattern))
+      .filter(r => !r.options.filter || r.options.filter(event));
+
+    const errors: string[] = [];
+    const localRuns = local.map(async (registration) => {
+      try {
+        await invokeHandler(registration.handler, event, options.timeoutMs);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[DurableEventBus] Handler error for event "${event.type}":`, errorMessage);
+        errors.push(errorMessage);
+      }
+    });
+
+    const ephemeralResult = this.ephemeral.publish(event, options);
+    if (options.awaitHandlers !== false) {
+      await Promise.all(localRuns);
+    }
+    const ephemeralOutcome = await ephemeralResult;
+    if (ephemeralOutcome.errors) errors.push(...ephemeralOutcome.errors);
+
+    return {
+      eventId: event.id,
+      handlerCount: local.length + ephemeralOutcome.handlerCount,
+      errorCount: errors.length,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  /**
+   * Invoke the local handler for a claimed delivery and record the outcome.
+   */
+  private async runDelivery(
+    claim: ClaimedDelivery,
+    timeoutMs?: number
+  ): Promise<{ outcome: DeliveryOutcome; error?: string }> {
+    const { delivery, event } = claim;
+    const registration = this.durable.get(delivery.subscriberId);
+
+    // Filters are not persisted; a filtered-out event counts as handled.
+    if (registration?.options.filter && !registration.options.filter(event)) {
+      await this.store.acknowledge(delivery.id, new Date().toISOString());
+      return { outcome: 'acknowledged' };
+    }
+
+    let errorMessage: string;
+    try {
+      if (!registration) {
+        throw new Error(`Subscriber "${delivery.subscriberId}" is not registered in this process`);
+      }
+      await invokeHandler(registration.handler, event, timeoutMs);
+      await this.store.acknowledge(delivery.id, new Date().toISOString());
+      return { outcome: 'acknowledged' };
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const deadLetter = attempts >= this.config.maxAttempts;
+    const nextAttemptAt = new Date(Date.now() + computeRetryDelayMs(attempts, this.config)).toISOString();
+
+    await this.store.recordFailure(delivery.id, {
+      attempts,
+      error: errorMessage,
+      nextAttemptAt,
+      deadLetter,
+    });
+
+    if (deadLetter) {
+      console.error(
+        `[DurableEventBus] Dead-lettered event "${event.type}" (${event.id}) for ` +
+        `subscriber "${delivery.subscriberId}" after ${attempts} attempts: ${errorMessage}`
+      );
+      return { outcome: 'dead_lettered', error: errorMessage };
+    }
+
+    console.warn(
+      `[DurableEventBus] Handler error for event "${event.type}" (subscriber "${delivery.subscriberId}", ` +
+      `attempt ${attempts}/${this.config.maxAttempts}), retrying at ${nextAttemptAt}: ${errorMessage}`
+    );
+    return { outcome: 'retried', error: errorMessage };
+  }
+}
+
+/**
+ * Create a new DurableEventBus instance.
+ * Factory function for convenient instantiation.
+ */
+export function createDurableEventBus(
+  store: EventStore,
+  config?: DurableEventBusConfig
+): DurableEventBus {
+  return new DurableEventBus(store, config);
+}
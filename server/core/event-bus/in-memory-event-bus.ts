@@ -39,7 +39,7 @@ function generateSubscriptionId(): string {
  * matchesPattern('agent.started', '*') // true
  * matchesPattern('agent.started', 'task.*') // false
  */
-function matchesPattern(eventType: string, pattern: string): boolean {
+export function matchesPattern(eventType: string, pattern: string): boolean {
   if (pattern === '*') {
     return true;
   }
@@ -0,0 +1,172 @@
+/**
+ * In-Memory Event Store
+ *
+ * Process-local EventStore for DurableEventBus.
+ * Used in tests and in development when no database is configured.
+ * Provides the same claim/ack/dead-letter semantics as the Postgres store,
+ * but nothing survives a restart.
+ */
+
+import type {
+  EventStore,
+  StoredEventRecord,
+  StoredSubscriber,
+  EventDeliveryRecord,
+  ClaimedDelivery,
+} from './types';
+
+/**
+ * In-memory implementation of EventStore.
+ */
+export class InMemoryEventStore implements EventStore {
+  private events: Map<string, StoredEventRecord> = new Map();
+  private subscribers: Map<string, StoredSubscriber> = new Map();
+  private deliveries: Map<string, EventDeliveryRecord> = new Map();
+
+  async saveEvent(record: StoredEventRecord): Promise<boolean> {
+    if (this.events.has(record.id)) {
+      return false;
+    }
+    this.events.set(record.id, { ...record });
+    return true;
+  }
+
+  async registerSubscriber(subscriberId: string, pattern: string): Promise<void> {
+    const existing = this.subscribers.get(subscriberId);
+    this.subscribers.set(subscriberId, {
+      subscriberId,
+      pattern,
+      registeredAt: existing?.registeredAt ?? new Date().toISOString(),
+    });
+  }
+
+  async removeSubscriber(subscriberId: string): Promise<void> {
+    this.subscribers.delete(subscriberId);
+    const toDelete: string[] = [];
+    this.deliveries.forEach((delivery, id) => {
+      if (delivery.subscriberId === subscriberId && delivery.status !== 'acknowledged') {
+        toDelete.push(id);
+      }
+    });
+    toDelete.forEach(id => this.deliveries.delete(id));
+  }
+
+  async listSubscribers(): Promise<StoredSubscriber[]> {
+    return Array.from(this.subscribers.values()).map(s => ({ ...s }));
+  }
+
+  async createDeliveries(deliveries: EventDeliveryRecord[]): Promise<void> {
+    for (const delivery of deliveries) {
+      this.deliveries.set(delivery.id, { ...delivery });
+    }
+  }
+
+  async claimDueDeliveries(params: {
+    subscriberIds: string[];
+    now: string;
+    leaseUntil: string;
+    limit: number;
+  }): Promise<ClaimedDelivery[]> {
+    const { subscriberIds, now, leaseUntil, limit } = params;
+    const nowMs = Date.parse(now);
+
+    const due = Array.from(this.deliveries.values())
+      .filter(d => subscriberIds.includes(d.subscriberId))
+      .filter(d =>
+        (d.status === 'pending' && Date.parse(d.nextAttemptAt) <= nowMs) ||
+        (d.status === 'delivered' && !!d.leaseUntil && Date.parse(d.leaseUntil) <= nowMs)
+      )
+      .sort((a, b) => Date.parse(a.nextAttemptAt) - Date.parse(b.nextAttemptAt))
+      .slice(0, limit);
+
+    const claimed: ClaimedDelivery[] = [];
+    for (const delivery of due) {
+      const record = this.events.get(delivery.eventId);
+      if (!record) continue;
+      delivery.status = 'delivered';
+      delivery.leaseUntil = leaseUntil;
+      claimed.push({ delivery: { ...delivery }, event: record.event });
+    }
+    return claimed;
+  }
+
+  async acknowledge(deliveryId: string, acknowledgedAt: string): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery) return;
+    delivery.status = 'acknowledged';
+    delivery.acknowledgedAt = acknowledgedAt;
+    delivery.leaseUntil = undefined;
+  }
+
+  async recordFailure(deliveryId: string, failure: {
+    attempts: number;
+    error: string;
+    nextAttemptAt: string;
+    deadLetter: boolean;
+  }): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery) return;
+    delivery.attempts = failure.attempts;
+    delivery.lastError = failure.error;
+    delivery.nextAttemptAt = failure.nextAttemptAt;
+    delivery.leaseUntil = undefined;
+    if (failure.deadLetter) {
+      delivery.status = 'failed';
+      delivery.deadLetteredAt = new Date().toISOString();
+    } else {
+      delivery.status = 'pending';
+    }
+  }
+
+  async listDeadLetters(limit: number): Promise<ClaimedDelivery[]> {
+    return Array.from(this.deliveries.values())
+      .filter(d => d.status === 'failed')
+      .sort((a, b) => Date.parse(b.deadLetteredAt ?? '') - Date.parse(a.deadLetteredAt ?? ''))
+      .slice(0, limit)
+      .filter(d => this.events.has(d.eventId))
+      .map(d => ({ delivery: { ...d }, event: this.events.get(d.eventId)!.event }));
+  }
+
+  async requeueDelivery(deliveryId: string, nextAttemptAt: string): Promise<boolean> {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status !== 'failed') {
+      return false;
+    }
+    delivery.status = 'pending';
+    delivery.attempts = 0;
+    delivery.nextAttemptAt = nextAttemptAt;
+    delivery.deadLetteredAt = undefined;
+    return true;
+  }
+
+  /**
+   * Get a delivery by ID (useful for testing)
+   */
+  getDelivery(deliveryId: string): EventDeliveryRecord | undefined {
+    const delivery = this.deliveries.get(deliveryId);
+    return delivery ? { ...delivery } : undefined;
+  }
+
+  /**
+   * List all deliveries for an event (useful for testing)
+   */
+  getDeliveriesForEvent(eventId: string): EventDeliveryRecord[] {
+    return Array.from(this.deliveries.values())
+      .filter(d => d.eventId === eventId)
+      .map(d => ({ ...d }));
+  }
+
+  /**
+   * Count persisted events (useful for testing)
+   */
+  getEventCount(): number {
+    return this.events.size;
+  }
+}
+
+/**
+ * Create a new InMemoryEventStore instance.
+ */
+export function createInMemoryEventStore(): InMemoryEventStore {
+  return new InMemoryEventStore();
+}
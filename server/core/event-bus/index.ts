@@ -10,8 +10,20 @@ export type {
   SubscribeOptions,
   PublishOptions,
   PublishResult,
+  StoredEventRecord,
+  StoredSubscriber,
+  EventDeliveryRecord,
+  ClaimedDelivery,
+  EventStore,
+  DurableEventBusConfig,
+  RedeliveryResult,
 } from './types';
 
 // Implementation
 export { InMemoryEventBus, createEventBus } from './in-memory-event-bus';
 
+// Durable implementation (PostgresEventStore is imported directly from
+// './postgres-event-store' because it opens the database connection)
+export { DurableEventBus, createDurableEventBus, computeRetryDelayMs } from './durable-event-bus';
+export { InMemoryEventStore, createInMemoryEventStore } from './in-memory-event-store';
+
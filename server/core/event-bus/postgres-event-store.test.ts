@@ -0,0 +1,167 @@
+/**
+ * Supervisor EventBus - Postgres Integration Test
+ *
+ * Runs DurableEventBus against the real PostgresEventStore through the same
+ * startup path as the server (startDurableEventBus), with a durable
+ * subscriber on the lead.saved events published by saveLead: the delivery
+ * row is acknowledged, a failed attempt is retried by the poller, a handler
+ * that keeps failing is dead-lettered, and an event published while the
+ * subscriber is offline is delivered after a restart.
+ *
+ * Needs SUPABASE_DATABASE_URL with migrations/008_supervisor_event_bus.sql
+ * applied; skips otherwise. Test rows are removed afterwards.
+ * Run with: npx tsx server/core/event-bus/postgres-event-store.test.ts
+ */
+
+import type { BaseSupervisorEvent } from '../types';
+
+const SUBSCRIBER_ID = `pg-integration-${Date.now()}`;
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+/**
+ * Wait for the fire-and-forget publish inside saveLead to settle
+ */
+function settle(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 250));
+}
+
+/**
+ * Run Postgres integration tests
+ */
+async function runTests(): Promise<void> {
+  if (!process.env.SUPABASE_DATABASE_URL) {
+    console.log('SUPABASE_DATABASE_URL not set — skipping Postgres event store tests');
+    return;
+  }
+
+  const { db } = await import('../../db');
+  const { eq, inArray } = await import('drizzle-orm');
+  const { supervisorEvents, supervisorEventDeliveries } = await import('../../schema');
+
+  try {
+    await db.select({ id: supervisorEvents.id }).from(supervisorEvents).limit(1);
+  } catch (err: any) {
+    console.log(`Postgres event tables unavailable (${err.message}) — skipping Postgres event store tests`);
+    return;
+  }
+
+  console.log('\n=== PostgresEventStore Integration Tests ===\n');
+
+  process.env.DURABLE_EVENT_BUS_ENABLED = 'true';
+  process.env.DURABLE_EVENT_BUS_MAX_ATTEMPTS = '2';
+  const { startDurableEventBus, stopDurableEventBus } = await import('../../services/durable-events');
+  const { createDurableEventBus } = await import('./durable-event-bus');
+  const { createPostgresEventStore } = await import('./postgres-event-store');
+  const { saveLead } = await import('../../features/saveLead');
+
+  const bus = await startDurableEventBus();
+  assert(bus !== null, 'Durable bus started from env');
+  stopDurableEventBus();
+
+  const deliveriesFor = async (leadId: string) => {
+    const rows = await db
+      .select({ delivery: supervisorEventDeliveries, event: supervisorEvents.event })
+      .from(supervisorEventDeliveries)
+      .innerJoin(supervisorEvents, eq(supervisorEvents.id, supervisorEventDeliveries.eventId))
+      .where(eq(supervisorEventDeliveries.subscriberId, SUBSCRIBER_ID));
+    return rows
+      .filter(r => (r.event as { payload?: { leadId?: string } }).payload?.leadId === leadId)
+      .map(r => r.delivery);
+  };
+  const eventIds: string[] = [];
+
+  try {
+    // 1. A lead.saved event reaches the durable subscriber and is acknowledged
+    let failuresLeft = 0;
+    let alwaysFail = false;
+    const received: BaseSupervisorEvent[] = [];
+    bus!.subscribe('lead.saved', async (event) => {
+      if (alwaysFail) throw new Error('permanent failure');
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new Error('transient failure');
+      }
+      received.push(event);
+    }, { subscriberId: SUBSCRIBER_ID });
+
+    const ownerUserId = `pg-integration-user-${Date.now()}`;
+    const saved = await saveLead({ ownerUserId, lead: { businessName: 'Durable Arms', address: 'Lewes BN7 2BE', source: 'manual' } });
+    await settle();
+    const [acked] = await deliveriesFor(saved.id);
+    eventIds.push(acked.eventId);
+    assert(acked.status === 'acknowledged' && acked.attempts === 1, 'Delivery row acknowledged on first attempt');
+    assert(received.length === 1, 'Subscriber received lead.saved');
+    console.log('\n1. Persist + acknowledge verification passed');
+
+    // 2. A failed attempt stays pending and the poller acknowledges the retry
+    failuresLeft = 1;
+    const flaky = await saveLead({ ownerUserId, lead: { businessName: 'Retry Tavern', address: 'Lewes BN7 1AA', source: 'manual' } });
+    await settle();
+    let [pending] = await deliveriesFor(flaky.id);
+    eventIds.push(pending.eventId);
+    assert(pending.status === 'pending' && pending.lastError === 'transient failure', 'Failed delivery pending with last error');
+    await db.update(supervisorEventDeliveries).set({ nextAttemptAt: new Date() }).where(eq(supervisorEventDeliveries.id, pending.id));
+    await bus!.processDueDeliveries();
+    [pending] = await deliveriesFor(flaky.id);
+    assert(pending.status === 'acknowledged' && pending.attempts === 2, 'Retry acknowledged by the poller');
+    console.log('\n2. Retry verification passed');
+
+    // 3. A handler that keeps failing is dead-lettered after maxAttempts
+    alwaysFail = true;
+    const broken = await saveLead({ ownerUserId, lead: { businessName: 'Broken Barrel', address: 'Hove BN3 5QD', source: 'manual' } });
+    await settle();
+    let [dead] = await deliveriesFor(broken.id);
+    eventIds.push(dead.eventId);
+    await db.update(supervisorEventDeliveries).set({ nextAttemptAt: new Date() }).where(eq(supervisorEventDeliveries.id, dead.id));
+    await bus!.processDueDeliveries();
+    [dead] = await deliveriesFor(broken.id);
+    assert(dead.status === 'failed' && !!dead.deadLetteredAt, 'Delivery dead-lettered after maxAttempts');
+    const deadLetters = await bus!.listDeadLetters();
+    assert(deadLetters.some(d => d.id === dead.id), 'Dead letter listed');
+    console.log('\n3. Dead-letter verification passed');
+
+    // 4. An event published while the subscriber is offline is delivered after a restart
+    bus!.clear();
+    const offline = await saveLead({ ownerUserId, lead: { businessName: 'Offline Inn', address: 'Brighton BN1 1AA', source: 'manual' } });
+    await settle();
+    const [waiting] = await deliveriesFor(offline.id);
+    eventIds.push(waiting.eventId);
+    assert(waiting.status === 'pending' && waiting.attempts === 0, 'Delivery waits for the offline subscriber');
+
+    const restarted = createDurableEventBus(createPostgresEventStore(), { retryBaseDelayMs: 0 });
+    const afterRestart: BaseSupervisorEvent[] = [];
+    restarted.subscribe('lead.saved', async (event) => {
+      afterRestart.push(event);
+    }, { subscriberId: SUBSCRIBER_ID });
+    await restarted.processDueDeliveries();
+    const [redelivered] = await deliveriesFor(offline.id);
+    assert(redelivered.status === 'acknowledged', 'Missed event acknowledged after restart');
+    assert(afterRestart.some(e => e.id === waiting.eventId), 'Restarted subscriber received the missed event');
+    console.log('\n4. Restart recovery verification passed');
+
+    console.log('\n=== All PostgresEventStore Integration Tests Passed! ===\n');
+  } finally {
+    await createPostgresEventStore().removeSubscriber(SUBSCRIBER_ID);
+    if (eventIds.length > 0) {
+      await db.delete(supervisorEventDeliveries).where(inArray(supervisorEventDeliveries.eventId, eventIds));
+      await db.delete(supervisorEvents).where(inArray(supervisorEvents.id, eventIds));
+    }
+  }
+}
+
+// Run tests
+runTests()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Test failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,223 @@
+/**
+ * Postgres Event Store
+ *
+ * EventStore for DurableEventBus backed by the supervisor_events,
+ * supervisor_event_subscribers and supervisor_event_deliveries tables
+ * (migrations/008_supervisor_event_bus.sql).
+ *
+ * Not re-exported from the event-bus barrel: importing it opens the
+ * database connection, and the rest of /core/ must stay dependency-free.
+ */
+
+import { and, desc, eq, ne, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import {
+  supervisorEvents,
+  supervisorEventSubscribers,
+  supervisorEventDeliveries,
+  type SupervisorEventDeliveryRow,
+} from '../../schema';
+import type { BaseSupervisorEvent, EnvelopeStatus } from '../types';
+import type {
+  EventStore,
+  StoredEventRecord,
+  StoredSubscriber,
+  EventDeliveryRecord,
+  ClaimedDelivery,
+} from './types';
+
+function toIso(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toDeliveryRecord(row: SupervisorEventDeliveryRow): EventDeliveryRecord {
+  return {
+    id: row.id,
+    eventId: row.eventId,
+    subscriberId: row.subscriberId,
+    status: row.status as EnvelopeStatus,
+    attempts: row.attempts,
+    nextAttemptAt: toIso(row.nextAttemptAt)!,
+    leaseUntil: toIso(row.leaseUntil),
+    lastError: row.lastError ?? undefined,
+    acknowledgedAt: toIso(row.acknowledgedAt),
+    deadLetteredAt: toIso(row.deadLetteredAt),
+  };
+}
+
+/**
+ * Postgres implementation of EventStore.
+ */
+export class PostgresEventStore implements EventStore {
+  async saveEvent(record: StoredEventRecord): Promise<boolean> {
+    const inserted = await db
+      .insert(supervisorEvents)
+      .values({
+        id: record.id,
+        type: record.type,
+        event: record.event,
+        deliveryMode: record.deliveryMode,
+        createdAt: new Date(record.createdAt),
+      })
+      .onConflictDoNothing({ target: supervisorEvents.id })
+      .returning({ id: supervisorEvents.id });
+    return inserted.length > 0;
+  }
+
+  async registerSubscriber(subscriberId: string, pattern: string): Promise<void> {
+    await db
+      .insert(supervisorEventSubscribers)
+      .values({ subscriberId, pattern })
+      .onConflictDoUpdate({
+        target: supervisorEventSubscribers.subscriberId,
+        set: { pattern, updatedAt: new Date() },
+      });
+  }
+
+  async removeSubscriber(subscriberId: string): Promise<void> {
+    await db
+      .delete(supervisorEventDeliveries)
+      .where(and(
+        eq(supervisorEventDeliveries.subscriberId, subscriberId),
+        ne(supervisorEventDeliveries.status, 'acknowledged'),
+      ));
+    await db
+      .delete(supervisorEventSubscribers)
+      .where(eq(supervisorEventSubscribers.subscriberId, subscriberId));
+  }
+
+  async listSubscribers(): Promise<StoredSubscriber[]> {
+    const rows = await db.select().from(supervisorEventSubscribers);
+    return rows.map(row => ({
+      subscriberId: row.subscriberId,
+      pattern: row.pattern,
+      registeredAt: toIso(row.registeredAt)!,
+    }));
+  }
+
+  async createDeliveries(deliveries: EventDeliveryRecord[]): Promise<void> {
+    if (deliveries.length === 0) return;
+    await db
+      .insert(supervisorEventDeliveries)
+      .values(deliveries.map(d => ({
+        id: d.id,
+        eventId: d.eventId,
+        subscriberId: d.subscriberId,
+        status: d.status,
+        attempts: d.attempts,
+        nextAttemptAt: new Date(d.nextAttemptAt),
+        leaseUntil: d.leaseUntil ? new Date(d.leaseUntil) : null,
+      })))
+      .onConflictDoNothing();
+  }
+
+  async claimDueDeliveries(params: {
+    subscriberIds: string[];
+    now: string;
+    leaseUntil: string;
+    limit: number;
+  }): Promise<ClaimedDelivery[]> {
+    const { subscriberIds, now, leaseUntil, limit } = params;
+    if (subscriberIds.length === 0) return [];
+
+    // SKIP LOCKED keeps concurrent pollers from claiming the same rows.
+    const claimed = await db.execute(sql`
+      UPDATE supervisor_event_deliveries AS d
+      SET status = 'delivered', lease_until = ${leaseUntil}::timestamptz
+      FROM supervisor_events AS e
+      WHERE e.id = d.event_id
+        AND d.id IN (
+          SELECT id FROM supervisor_event_deliveries
+          WHERE subscriber_id IN (${sql.join(subscriberIds.map(id => sql`${id}`), sql`, `)})
+            AND (
+              (status = 'pending' AND next_attempt_at <= ${now}::timestamptz)
+              OR (status = 'delivered' AND lease_until <= ${now}::timestamptz)
+            )
+          ORDER BY next_attempt_at
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+      RETURNING d.id, d.event_id, d.subscriber_id, d.status, d.attempts,
+                d.next_attempt_at, d.lease_until, d.last_error, e.event
+    `);
+
+    return (claimed.rows as Array<Record<string, any>>).map(row => ({
+      delivery: {
+        id: row.id,
+        eventId: row.event_id,
+        subscriberId: row.subscriber_id,
+        status: row.status as EnvelopeStatus,
+        attempts: Number(row.attempts),
+        nextAttemptAt: toIso(row.next_attempt_at)!,
+        leaseUntil: toIso(row.lease_until),
+        lastError: row.last_error ?? undefined,
+      },
+      event: row.event as BaseSupervisorEvent,
+    }));
+  }
+
+  async acknowledge(deliveryId: string, acknowledgedAt: string): Promise<void> {
+    await db
+      .update(supervisorEventDeliveries)
+      .set({ status: 'acknowledged', acknowledgedAt: new Date(acknowledgedAt), leaseUntil: null })
+      .where(eq(supervisorEventDeliveries.id, deliveryId));
+  }
+
+  async recordFailure(deliveryId: string, failure: {
+    attempts: number;
+    error: string;
+    nextAttemptAt: string;
+    deadLetter: boolean;
+  }): Promise<void> {
+    await db
+      .update(supervisorEventDeliveries)
+      .set({
+        status: failure.deadLetter ? 'failed' : 'pending',
+        attempts: failure.attempts,
+        lastError: failure.error.slice(0, 2000),
+        nextAttemptAt: new Date(failure.nextAttemptAt),
+        leaseUntil: null,
+        deadLetteredAt: failure.deadLetter ? new Date() : null,
+      })
+      .where(eq(supervisorEventDeliveries.id, deliveryId));
+  }
+
+  async listDeadLetters(limit: number): Promise<ClaimedDelivery[]> {
+    const rows = await db
+      .select({ delivery: supervisorEventDeliveries, event: supervisorEvents.event })
+      .from(supervisorEventDeliveries)
+      .innerJoin(supervisorEvents, eq(supervisorEvents.id, supervisorEventDeliveries.eventId))
+      .where(eq(supervisorEventDeliveries.status, 'failed'))
+      .orderBy(desc(supervisorEventDeliveries.deadLetteredAt))
+      .limit(limit);
+    return rows.map(row => ({
+      delivery: toDeliveryRecord(row.delivery),
+      event: row.event as BaseSupervisorEvent,
+    }));
+  }
+
+  async requeueDelivery(deliveryId: string, nextAttemptAt: string): Promise<boolean> {
+    const updated = await db
+      .update(supervisorEventDeliveries)
+      .set({
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: new Date(nextAttemptAt),
+        deadLetteredAt: null,
+      })
+      .where(and(
+        eq(supervisorEventDeliveries.id, deliveryId),
+        eq(supervisorEventDeliveries.status, 'failed'),
+      ))
+      .returning({ id: supervisorEventDeliveries.id });
+    return updated.length > 0;
+  }
+}
+
+/**
+ * Create a new PostgresEventStore instance.
+ */
+export function createPostgresEventStore(): PostgresEventStore {
+  return new PostgresEventStore();
+}
@@ -4,7 +4,13 @@
  * Type definitions for the Supervisor event bus system.
  */
 
-import type { BaseSupervisorEvent, EventHandler, Subscription } from '../types';
+import type {
+  BaseSupervisorEvent,
+  EventHandler,
+  Subscription,
+  DeliveryMode,
+  EnvelopeStatus,
+} from '../types';
 
 /**
  * Event bus subscription options
@@ -39,6 +45,12 @@ export interface PublishOptions {
    * Timeout for handler execution in milliseconds
    */
   timeoutMs?: number;
+
+  /**
+   * Delivery guarantee for this event.
+   * Only honoured by durable buses; the in-memory bus is always fire-and-forget.
+   */
+  deliveryMode?: DeliveryMode;
 }
 
 /**
@@ -128,3 +140,258 @@ export interface SupervisorEventBus {
   clear(): void;
 }
 
+
+// ============================================
+// DURABLE EVENT BUS
+// ============================================
+
+/**
+ * An event as persisted by an EventStore
+ */
+export interface StoredEventRecord {
+  /**
+   * Event ID (primary key, used for publish idempotency)
+   */
+  id: string;
+
+  /**
+   * Event type identifier
+   */
+  type: string;
+
+  /**
+   * Full serialized event
+   */
+  event: BaseSupervisorEvent;
+
+  /**
+   * Delivery guarantee requested at publish time
+   */
+  deliveryMode: DeliveryMode;
+
+  /**
+   * ISO timestamp when the event was persisted
+   */
+  createdAt: string;
+}
+
+/**
+ * A durable subscriber registration.
+ * Survives restarts so events published while the subscriber is offline
+ * are still queued for it.
+ */
+export interface StoredSubscriber {
+  /**
+   * Stable subscriber ID (must be the same across restarts)
+   */
+  subscriberId: string;
+
+  /**
+   * Event type pattern the subscriber listens to
+   */
+  pattern: string;
+
+  /**
+   * ISO timestamp when the subscriber was first registered
+   */
+  registeredAt: string;
+}
+
+/**
+ * Per-subscriber delivery state for one event
+ */
+export interface EventDeliveryRecord {
+  /**
+   * Unique delivery identifier
+   */
+  id: string;
+
+  /**
+   * Event being delivered
+   */
+  eventId: string;
+
+  /**
+   * Subscriber the event is delivered to
+   */
+  subscriberId: string;
+
+  /**
+   * Delivery status.
+   * 'delivered' means claimed and in flight; 'failed' means dead-lettered.
+   */
+  status: EnvelopeStatus;
+
+  /**
+   * Number of handler invocations so far
+   */
+  attempts: number;
+
+  /**
+   * ISO timestamp when the delivery is next eligible to run
+   */
+  nextAttemptAt: string;
+
+  /**
+   * ISO timestamp until which an in-flight claim is held
+   */
+  leaseUntil?: string;
+
+  /**
+   * Last handler error message
+   */
+  lastError?: string;
+
+  /**
+   * ISO timestamp of acknowledgement
+   */
+  acknowledgedAt?: string;
+
+  /**
+   * ISO timestamp when the delivery was dead-lettered
+   */
+  deadLetteredAt?: string;
+}
+
+/**
+ * A claimed delivery together with its event, ready for handler invocation
+ */
+export interface ClaimedDelivery {
+  delivery: EventDeliveryRecord;
+  event: BaseSupervisorEvent;
+}
+
+/**
+ * Persistence port for DurableEventBus.
+ *
+ * Implementations must make claimDueDeliveries atomic so that two
+ * processes polling the same store never run the same delivery at once.
+ */
+export interface EventStore {
+  /**
+   * Persist an event. Returns false if an event with the same ID already exists.
+   */
+  saveEvent(record: StoredEventRecord): Promise<boolean>;
+
+  /**
+   * Register (or refresh) a durable subscriber
+   */
+  registerSubscriber(subscriberId: string, pattern: string): Promise<void>;
+
+  /**
+   * Remove a durable subscriber registration and its pending deliveries
+   */
+  removeSubscriber(subscriberId: string): Promise<void>;
+
+  /**
+   * List all durable subscribers
+   */
+  listSubscribers(): Promise<StoredSubscriber[]>;
+
+  /**
+   * Create delivery rows for an event
+   */
+  createDeliveries(deliveries: EventDeliveryRecord[]): Promise<void>;
+
+  /**
+   * Atomically claim deliveries that are due (pending and past nextAttemptAt,
+   * or in flight with an expired lease) for the given subscribers.
+   */
+  claimDueDeliveries(params: {
+    subscriberIds: string[];
+    now: string;
+    leaseUntil: string;
+    limit: number;
+  }): Promise<ClaimedDelivery[]>;
+
+  /**
+   * Mark a delivery as acknowledged by its subscriber
+   */
+  acknowledge(deliveryId: string, acknowledgedAt: string): Promise<void>;
+
+  /**
+   * Record a failed attempt. When deadLetter is true the delivery is moved
+   * to 'failed' and will not be retried.
+   */
+  recordFailure(deliveryId: string, failure: {
+    attempts: number;
+    error: string;
+    nextAttemptAt: string;
+    deadLetter: boolean;
+  }): Promise<void>;
+
+  /**
+   * List dead-lettered deliveries, newest first
+   */
+  listDeadLetters(limit: number): Promise<ClaimedDelivery[]>;
+
+  /**
+   * Move a dead-lettered delivery back to pending with a fresh attempt count
+   */
+  requeueDelivery(deliveryId: string, nextAttemptAt: string): Promise<boolean>;
+}
+
+/**
+ * Configuration for DurableEventBus
+ */
+export interface DurableEventBusConfig {
+  /**
+   * Delivery mode used when PublishOptions.deliveryMode is not set (default 'at_least_once')
+   */
+  defaultDeliveryMode?: DeliveryMode;
+
+  /**
+   * Handler attempts before a delivery is dead-lettered (default 5)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Base delay for retry backoff in milliseconds (default 1000)
+   */
+  retryBaseDelayMs?: number;
+
+  /**
+   * Maximum retry delay in milliseconds (default 5 minutes)
+   */
+  retryMaxDelayMs?: number;
+
+  /**
+   * How long a claimed delivery is held before another poller may take it (default 60s)
+   */
+  leaseMs?: number;
+
+  /**
+   * Redelivery poll interval in milliseconds (default 5s)
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Maximum deliveries claimed per poll (default 50)
+   */
+  batchSize?: number;
+}
+
+/**
+ * Result of one redelivery pass
+ */
+export interface RedeliveryResult {
+  /**
+   * Deliveries claimed in this pass
+   */
+  claimed: number;
+
+  /**
+   * Deliveries acknowledged in this pass
+   */
+  acknowledged: number;
+
+  /**
+   * Deliveries that failed and were rescheduled
+   */
+  retried: number;
+
+  /**
+   * Deliveries moved to the dead-letter state
+   */
+  deadLettered: number;
+}
@@ -0,0 +1,138 @@
+/**
+ * Supervisor Scheduler - Durable Test
+ *
+ * Tests for DurableScheduler ordering, delays, TTLs, restart recovery and
+ * exactly-once claiming against the InMemoryTaskStore.
+ * Run with: npx tsx server/core/scheduler/durable-scheduler.test.ts
+ */
+
+import { createDurableScheduler } from './durable-scheduler';
+import { createInMemoryTaskStore } from './in-memory-task-store';
+
+interface TestPayload {
+  name: string;
+}
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+/**
+ * Run DurableScheduler tests
+ */
+async function runTests(): Promise<void> {
+  console.log('\n=== DurableScheduler Tests ===\n');
+
+  // 1. Priority ordering, delays and write-through
+  const store = createInMemoryTaskStore<TestPayload>();
+  const scheduler = createDurableScheduler<TestPayload>(store);
+
+  scheduler.enqueue('task.a', { name: 'normal' });
+  scheduler.enqueue('task.b', { name: 'critical' }, { priority: 'critical' });
+  scheduler.enqueue('task.c', { name: 'delayed' }, { priority: 'critical', delayMs: 60_000 });
+  await scheduler.flush();
+
+  assert(store.getTaskCount() === 3, 'Enqueued tasks persisted to the store');
+  assert(scheduler.size() === 3, 'Size includes delayed task');
+  assert(scheduler.peek()?.payload.name === 'critical', 'Peek returns highest priority due task');
+  assert(scheduler.dequeue()?.payload.name === 'critical', 'Critical task dequeued first');
+  assert(scheduler.dequeue()?.payload.name === 'normal', 'Normal task dequeued next');
+  assert(scheduler.dequeue() === undefined, 'Delayed task not dequeued before runAt');
+  await scheduler.flush();
+  assert(store.getTaskCount() === 1, 'Dequeued tasks removed from the store');
+  console.log('\n1. Ordering and delay verification passed');
+
+  // 2. TTL: expired tasks are dropped, not dequeued
+  scheduler.clear();
+  scheduler.enqueue('task.ttl', { name: 'expired' }, { expiresAt: new Date(Date.now() - 1000).toISOString() });
+  scheduler.enqueue('task.ttl', { name: 'fresh' }, { ttlMs: 60_000 });
+  assert(scheduler.dequeue()?.payload.name === 'fresh', 'Expired task skipped');
+  assert(scheduler.getStats().totalExpired === 1, 'Expired task counted in stats');
+  console.log('\n2. TTL verification passed');
+
+  // 3. Restart: a new scheduler on the same store restores pending tasks
+  const restartStore = createInMemoryTaskStore<TestPayload>();
+  const before = createDurableScheduler<TestPayload>(restartStore);
+  before.enqueue('task.later', { name: 'survives' }, { id: 'task_survives', delayMs: 60_000 });
+  before.enqueue('task.gone', { name: 'ttl' }, { id: 'task_ttl', expiresAt: new Date(Date.now() + 5).toISOString() });
+  await before.flush();
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  const after = createDurableScheduler<TestPayload>(restartStore);
+  const restored = await after.restore();
+  assert(restored === 1, 'One pending task restored after restart');
+  assert(after.size() === 1, 'Restored task visible to the new scheduler');
+  assert(restartStore.getTask('task_ttl') === undefined, 'Expired task deleted on restore');
+
+  const registered = after.enqueue('task.later', { name: 'duplicate' }, { id: 'task_survives' });
+  assert(registered.payload.name === 'survives', 'Re-enqueueing an existing ID keeps the original task');
+  console.log('\n3. Restart recovery verification passed');
+
+  // 4. Exactly-once claiming across pollers sharing a store
+  const sharedStore = createInMemoryTaskStore<TestPayload>();
+  const pollerA = createDurableScheduler<TestPayload>(sharedStore, { ownerId: 'a' });
+  const pollerB = createDurableScheduler<TestPayload>(sharedStore, { ownerId: 'b' });
+  pollerA.enqueue('task.once', { name: 'only-once' });
+  await pollerA.flush();
+
+  const [claimA, claimB] = await Promise.all([pollerA.claimNext(), pollerB.claimNext()]);
+  assert([claimA, claimB].filter(Boolean).length === 1, 'Task claimed by exactly one poller');
+  const claimed = (claimA || claimB)!;
+  await (claimA ? pollerA : pollerB).complete(claimed);
+  assert(sharedStore.getTaskCount() === 0, 'Completed one-off task removed');
+  console.log('\n4. Exactly-once verification passed');
+
+  // 5. Expired claims are handed to another poller
+  const leaseStore = createInMemoryTaskStore<TestPayload>();
+  const crashed = createDurableScheduler<TestPayload>(leaseStore, { ownerId: 'crashed', leaseMs: -1 });
+  const survivor = createDurableScheduler<TestPayload>(leaseStore, { ownerId: 'survivor' });
+  crashed.enqueue('task.lease', { name: 'orphaned' });
+  await crashed.flush();
+  await crashed.claimNext();
+  const reclaimed = await survivor.claimNext();
+  assert(reclaimed?.leaseOwner === 'survivor', 'Task reclaimed after lease expiry');
+  console.log('\n5. Lease recovery verification passed');
+
+  // 6. Recurring tasks and retries via runDueTasks
+  const tickStore = createInMemoryTaskStore<TestPayload>();
+  const ticker = createDurableScheduler<TestPayload>(tickStore, { retryBaseDelayMs: 0, maxAttempts: 2 });
+  ticker.enqueue('tick', { name: 'recurring' }, { id: 'tick', intervalMs: 60_000 });
+  ticker.enqueue('flaky', { name: 'one-off' }, { id: 'flaky' });
+  await ticker.flush();
+
+  let ticks = 0;
+  let flakyRuns = 0;
+  const handlers = {
+    tick: async () => { ticks++; },
+    flaky: async () => {
+      flakyRuns++;
+      throw new Error('boom');
+    }
+  };
+
+  const pass1 = await ticker.runDueTasks(handlers);
+  assert(pass1.claimed === 2 && pass1.succeeded === 1 && pass1.failed === 1, 'First pass ran both tasks');
+  const tick = tickStore.getTask('tick')!;
+  assert(tick.status === 'pending' && Date.parse(tick.runAt) > Date.now(), 'Recurring task rescheduled');
+  assert(tickStore.getTask('flaky')?.attempts === 1, 'Failed one-off task kept for retry');
+
+  const pass2 = await ticker.runDueTasks(handlers);
+  assert(ticks === 1, 'Recurring task not run again before its interval');
+  assert(pass2.failed === 1 && flakyRuns === 2, 'Failed task retried');
+  assert(tickStore.getTask('flaky') === undefined, 'Task dropped after maxAttempts');
+  console.log('\n6. Recurring and retry verification passed');
+
+  console.log('\n=== All DurableScheduler Tests Passed! ===\n');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
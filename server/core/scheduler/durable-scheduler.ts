@@ -0,0 +1,406 @@
+/**
+ * Durable Scheduler Implementation
+ *
+ * SupervisorScheduler backed by a TaskStore so delayed and recurring tasks
+ * survive restarts.
+ *
+ * The synchronous SupervisorScheduler methods operate on a local mirror of
+ * the store and write through in the background (await flush() to wait for
+ * the writes). Several pollers sharing one store must use claimNext() /
+ * runDueTasks() / start(), which claim through the store and guarantee
+ * that a task is dequeued by exactly one poller.
+ *
+ * Ordering: priority (critical > high > normal > low), then runAt, then FIFO.
+ */
+
+import { randomUUID } from 'crypto';
+import type { TaskPriority } from '../types';
+import type {
+  SupervisorScheduler,
+  ScheduledTask,
+  EnqueueOptions,
+  SchedulerStats,
+  StoredTaskRecord,
+  TaskStore,
+  DurableSchedulerConfig,
+  ScheduledTaskHandler,
+  RunDueTasksResult
+} from './types';
+import { buildScheduledTask, isTaskDue, isTaskExpired } from './supervisor-scheduler';
+
+const DEFAULT_CONFIG: Required<Omit<DurableSchedulerConfig, 'ownerId'>> = {
+  leaseMs: 5 * 60 * 1000,
+  maxAttempts: 3,
+  retryBaseDelayMs: 5000,
+  retryMaxDelayMs: 10 * 60 * 1000,
+  pollIntervalMs: 5000,
+  batchSize: 10
+};
+
+/**
+ * Numeric rank for a priority (higher runs first)
+ */
+export const PRIORITY_RANK: Record<TaskPriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  critical: 3
+};
+
+/**
+ * Sort comparator: priority desc, runAt asc, createdAt asc
+ */
+export function compareScheduledTasks(a: ScheduledTask<unknown>, b: ScheduledTask<unknown>): number {
+  const rank = PRIORITY_RANK[b.priority || 'normal'] - PRIORITY_RANK[a.priority || 'normal'];
+  if (rank !== 0) return rank;
+  const runAt = Date.parse(a.runAt || a.createdAt) - Date.parse(b.runAt || b.createdAt);
+  if (runAt !== 0) return runAt;
+  return Date.parse(a.createdAt) - Date.parse(b.createdAt);
+}
+
+/**
+ * Strip store bookkeeping from a record
+ */
+function toScheduledTask<T>(record: StoredTaskRecord<T>): ScheduledTask<T> {
+  const { status, attempts, leaseOwner, leaseUntil, lastError, ...task } = record;
+  return task;
+}
+
+/**
+ * Storage-backed implementation of SupervisorScheduler.
+ */
+export class DurableScheduler<T = unknown> implements SupervisorScheduler<T> {
+  readonly ownerId: string;
+  private config: Required<Omit<DurableSchedulerConfig, 'ownerId'>>;
+
+  /**
+   * Local mirror of pending tasks, keyed by ID
+   */
+  private tasks: Map<string, ScheduledTask<T>> = new Map();
+
+  /**
+   * Background store writes not yet settled
+   */
+  private pendingWrites: Set<Promise<void>> = new Set();
+
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  private stats: {
+    totalEnqueued: number;
+    totalDequeued: number;
+    totalExpired: number;
+    lastEnqueuedAt?: string;
+    lastDequeuedAt?: string;
+  } = {
+    totalEnqueued: 0,
+    totalDequeued: 0,
+    totalExpired: 0
+  };
+
+  constructor(private store: TaskStore<T>, config: DurableSchedulerConfig = {}) {
+    this.ownerId = config.ownerId || `scheduler_${randomUUID().substring(0, 8)}`;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  // ============================================
+  // SupervisorScheduler (local mirror + write-through)
+  // ============================================
+
+  /**
+   * Add a task. Enqueueing an ID that is already queued returns the
+   * existing task, so recurring tasks can be registered on every boot.
+   */
+  enqueue(type: string, payload: T, options: EnqueueOptions = {}): ScheduledTask<T> {
+    if (options.id && this.tasks.has(options.id)) {
+      return this.tasks.get(options.id)!;
+    }
+
+    const task = buildScheduledTask(type, payload, options, Date.now());
+    this.tasks.set(task.id, task);
+
+    this.stats.totalEnqueued++;
+    this.stats.lastEnqueuedAt = task.createdAt;
+
+    this.track(this.store.saveTask({
+      ...task,
+      status: 'pending',
+      runAt: task.runAt || task.createdAt,
+      attempts: 0
+    }).then(() => undefined));
+
+    return task;
+  }
+
+  /**
+   * Remove and return the next due task from this instance's view.
+   * Recurring tasks are rescheduled rather than removed.
+   */
+  dequeue(): ScheduledTask<T> | undefined {
+    const task = this.nextDueLocal();
+    if (!task) {
+      return undefined;
+    }
+
+    this.stats.totalDequeued++;
+    this.stats.lastDequeuedAt = new Date().toISOString();
+
+    if (task.intervalMs) {
+      const runAt = new Date(Date.now() + task.intervalMs).toISOString();
+      this.tasks.set(task.id, { ...task, runAt });
+      this.track(this.store.rescheduleTask(task.id, { runAt, attempts: 0 }));
+    } else {
+      this.tasks.delete(task.id);
+      this.track(this.store.deleteTask(task.id));
+    }
+
+    return task;
+  }
+
+  /**
+   * View the next due task without removing it.
+   */
+  peek(): ScheduledTask<T> | undefined {
+    return this.nextDueLocal();
+  }
+
+  /**
+   * Number of tasks waiting (including delayed ones).
+   */
+  size(): number {
+    this.dropExpiredLocal();
+    return this.tasks.size;
+  }
+
+  isEmpty(): boolean {
+    return this.size() === 0;
+  }
+
+  /**
+   * Clear all tasks here and in the store.
+   */
+  clear(): void {
+    this.tasks.clear();
+    this.track(this.store.clear());
+  }
+
+  getStats(): SchedulerStats {
+    return {
+      queueSize: this.size(),
+      totalEnqueued: this.stats.totalEnqueued,
+      totalDequeued: this.stats.totalDequeued,
+      totalExpired: this.stats.totalExpired,
+      lastEnqueuedAt: this.stats.lastEnqueuedAt,
+      lastDequeuedAt: this.stats.lastDequeuedAt
+    };
+  }
+
+  // ============================================
+  // Durable operations
+  // ============================================
+
+  /**
+   * Rebuild the local mirror from the store (call on boot, before
+   * registering recurring tasks). Expired tasks are deleted.
+   *
+   * @returns Number of tasks restored
+   */
+  async restore(): Promise<number> {
+    await this.flush();
+
+    const expired = await this.store.deleteExpired(new Date().toISOString());
+    this.stats.totalExpired += expired;
+
+    const records = await this.store.loadTasks();
+    this.tasks.clear();
+    for (const record of records) {
+      this.tasks.set(record.id, toScheduledTask(record));
+    }
+    return records.length;
+  }
+
+  /**
+   * Claim the next due task through the store. Exactly-once across
+   * pollers: a claimed task is not handed out again until its lease
+   * expires. Pass the task to complete() or fail() when done.
+   */
+  async claimNext(types?: string[]): Promise<StoredTaskRecord<T> | undefined> {
+    const [claimed] = await this.claim(1, types);
+    return claimed;
+  }
+
+  /**
+   * Finish a claimed task: recurring tasks are rescheduled, others removed.
+   */
+  async complete(task: StoredTaskRecord<T>): Promise<void> {
+    if (task.intervalMs) {
+      const runAt = new Date(Date.now() + task.intervalMs).toISOString();
+      await this.store.rescheduleTask(task.id, { runAt, attempts: 0 });
+      this.tasks.set(task.id, { ...toScheduledTask(task), runAt });
+    } else {
+      await this.store.deleteTask(task.id);
+      this.tasks.delete(task.id);
+    }
+  }
+
+  /**
+   * Record a failed run. One-off tasks are retried with backoff until
+   * maxAttempts and then dropped; recurring tasks wait for their next interval.
+   *
+   * @returns true if the task will run again
+   */
+  async fail(task: StoredTaskRecord<T>, error: string): Promise<boolean> {
+    const attempts = task.attempts + 1;
+
+    if (task.intervalMs) {
+      const runAt = new Date(Date.now() + task.intervalMs).toISOString();
+      await this.store.rescheduleTask(task.id, { runAt, attempts, lastError: error });
+      this.tasks.set(task.id, { ...toScheduledTask(task), runAt });
+      return true;
+    }
+
+    if (attempts >= this.config.maxAttempts) {
+      await this.store.deleteTask(task.id);
+      this.tasks.delete(task.id);
+      return false;
+    }
+
+    const delayMs = Math.min(
+      this.config.retryBaseDelayMs * Math.pow(2, attempts - 1),
+      this.config.retryMaxDelayMs
+    );
+    const runAt = new Date(Date.now() + delayMs).toISOString();
+    await this.store.rescheduleTask(task.id, { runAt, attempts, lastError: error });
+    this.tasks.set(task.id, { ...toScheduledTask(task), runAt });
+    return true;
+  }
+
+  /**
+   * Claim and run due tasks that have a handler.
+   */
+  async runDueTasks(handlers: Record<string, ScheduledTaskHandler<T>>): Promise<RunDueTasksResult> {
+    const result: RunDueTasksResult = { claimed: 0, succeeded: 0, failed: 0 };
+    const types = Object.keys(handlers);
+    if (types.length === 0) {
+      return result;
+    }
+
+    const claimed = await this.claim(this.config.batchSize, types);
+    result.claimed = claimed.length;
+
+    for (const task of claimed) {
+      try {
+        await handlers[task.type](toScheduledTask(task));
+        await this.complete(task);
+        result.succeeded++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[DurableScheduler] Task ${task.id} (${task.type}) failed: ${message}`);
+        await this.fail(task, message);
+        result.failed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Poll the store and run due tasks until stop() is called.
+   */
+  start(handlers: Record<string, ScheduledTaskHandler<T>>): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    const poll = () => {
+      if (this.polling) return;
+      this.polling = true;
+      this.runDueTasks(handlers)
+        .catch(error => console.error('[DurableScheduler] Poll failed:', error))
+        .finally(() => { this.polling = false; });
+    };
+
+    this.pollTimer = setInterval(poll, this.config.pollIntervalMs);
+    poll();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.pollTimer !== null;
+  }
+
+  /**
+   * Wait for background writes from the synchronous methods to settle.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.pendingWrites));
+  }
+
+  // ============================================
+  // Internals
+  // ============================================
+
+  private async claim(limit: number, types?: string[]): Promise<StoredTaskRecord<T>[]> {
+    await this.flush();
+
+    const nowMs = Date.now();
+    const claimed = await this.store.claimDueTasks({
+      owner: this.ownerId,
+      now: new Date(nowMs).toISOString(),
+      leaseUntil: new Date(nowMs + this.config.leaseMs).toISOString(),
+      limit,
+      types
+    });
+
+    if (claimed.length > 0) {
+      this.stats.totalDequeued += claimed.length;
+      this.stats.lastDequeuedAt = new Date(nowMs).toISOString();
+    }
+    for (const task of claimed) {
+      this.tasks.delete(task.id);
+    }
+    return claimed;
+  }
+
+  private nextDueLocal(): ScheduledTask<T> | undefined {
+    this.dropExpiredLocal();
+    const nowMs = Date.now();
+    return Array.from(this.tasks.values())
+      .filter(task => isTaskDue(task, nowMs))
+      .sort(compareScheduledTasks)[0];
+  }
+
+  private dropExpiredLocal(): void {
+    const nowMs = Date.now();
+    this.tasks.forEach((task, id) => {
+      if (isTaskExpired(task, nowMs)) {
+        this.tasks.delete(id);
+        this.stats.totalExpired++;
+        this.track(this.store.deleteTask(id));
+      }
+    });
+  }
+
+  private track(write: Promise<void>): void {
+    const tracked = write
+      .catch(error => console.error('[DurableScheduler] Store write failed:', error))
+      .finally(() => { this.pendingWrites.delete(tracked); });
+    this.pendingWrites.add(tracked);
+  }
+}
+
+/**
+ * Create a new DurableScheduler instance.
+ */
+export function createDurableScheduler<T = unknown>(
+  store: TaskStore<T>,
+  config: DurableSchedulerConfig = {}
+): DurableScheduler<T> {
+  return new DurableScheduler<T>(store, config);
+}
@@ -0,0 +1,114 @@
+/**
+ * In-Memory Task Store
+ *
+ * TaskStore for DurableScheduler that keeps tasks in process memory.
+ * Used in tests and as a reference for the storage contract; it does not
+ * survive restarts on its own (share one instance between schedulers to
+ * simulate a restart or several pollers).
+ */
+
+import type { StoredTaskRecord, TaskStore } from './types';
+import { compareScheduledTasks } from './durable-scheduler';
+
+/**
+ * In-memory implementation of TaskStore.
+ */
+export class InMemoryTaskStore<T = unknown> implements TaskStore<T> {
+  private tasks: Map<string, StoredTaskRecord<T>> = new Map();
+
+  async saveTask(record: StoredTaskRecord<T>): Promise<boolean> {
+    if (this.tasks.has(record.id)) {
+      return false;
+    }
+    this.tasks.set(record.id, { ...record });
+    return true;
+  }
+
+  async loadTasks(): Promise<StoredTaskRecord<T>[]> {
+    return Array.from(this.tasks.values()).map(task => ({ ...task }));
+  }
+
+  async claimDueTasks(params: {
+    owner: string;
+    now: string;
+    leaseUntil: string;
+    limit: number;
+    types?: string[];
+  }): Promise<StoredTaskRecord<T>[]> {
+    const nowMs = Date.parse(params.now);
+
+    const due = Array.from(this.tasks.values())
+      .filter(task => !params.types || params.types.includes(task.type))
+      .filter(task => !task.expiresAt || Date.parse(task.expiresAt) > nowMs)
+      .filter(task =>
+        (task.status === 'pending' && Date.parse(task.runAt) <= nowMs) ||
+        (task.status === 'claimed' && !!task.leaseUntil && Date.parse(task.leaseUntil) <= nowMs)
+      )
+      .sort(compareScheduledTasks)
+      .slice(0, params.limit);
+
+    for (const task of due) {
+      task.status = 'claimed';
+      task.leaseOwner = params.owner;
+      task.leaseUntil = params.leaseUntil;
+    }
+    return due.map(task => ({ ...task }));
+  }
+
+  async rescheduleTask(taskId: string, update: {
+    runAt: string;
+    attempts: number;
+    lastError?: string;
+  }): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (!task) return;
+    task.status = 'pending';
+    task.runAt = update.runAt;
+    task.attempts = update.attempts;
+    task.lastError = update.lastError;
+    task.leaseOwner = undefined;
+    task.leaseUntil = undefined;
+  }
+
+  async deleteTask(taskId: string): Promise<void> {
+    this.tasks.delete(taskId);
+  }
+
+  async deleteExpired(now: string): Promise<number> {
+    const nowMs = Date.parse(now);
+    let removed = 0;
+    this.tasks.forEach((task, id) => {
+      if (task.expiresAt && Date.parse(task.expiresAt) <= nowMs) {
+        this.tasks.delete(id);
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    this.tasks.clear();
+  }
+
+  /**
+   * Get a stored task by ID (test helper)
+   */
+  getTask(taskId: string): StoredTaskRecord<T> | undefined {
+    const task = this.tasks.get(taskId);
+    return task ? { ...task } : undefined;
+  }
+
+  /**
+   * Number of stored tasks (test helper)
+   */
+  getTaskCount(): number {
+    return this.tasks.size;
+  }
+}
+
+/**
+ * Create a new InMemoryTaskStore instance.
+ */
+export function createInMemoryTaskStore<T = unknown>(): InMemoryTaskStore<T> {
+  return new InMemoryTaskStore<T>();
+}
@@ -11,7 +11,17 @@ export type {
   DequeueResult,
   SchedulerStats,
   SupervisorScheduler,
+  StoredTaskRecord,
+  TaskStore,
+  DurableSchedulerConfig,
+  ScheduledTaskHandler,
+  RunDueTasksResult,
 } from './types';
 
 // Implementation
 export { InMemoryScheduler, createScheduler } from './supervisor-scheduler';
+
+// Durable implementation (PostgresTaskStore is imported directly from
+// './postgres-task-store' because it opens the database connection)
+export { DurableScheduler, createDurableScheduler } from './durable-scheduler';
+export { InMemoryTaskStore, createInMemoryTaskStore } from './in-memory-task-store';
@@ -0,0 +1,170 @@
+/**
+ * Postgres Task Store
+ *
+ * TaskStore for DurableScheduler backed by the supervisor_scheduled_tasks
+ * table (migrations/010_supervisor_scheduled_tasks.sql).
+ *
+ * Not re-exported from the scheduler barrel: importing it opens the
+ * database connection, and the rest of /core/ must stay dependency-free.
+ */
+
+import { eq, lte, and, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { supervisorScheduledTasks, type SupervisorScheduledTaskRow } from '../../schema';
+import type { TaskPriority } from '../types';
+import type { StoredTaskRecord, TaskStore } from './types';
+import { PRIORITY_RANK } from './durable-scheduler';
+
+function toIso(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toRecord<T>(row: SupervisorScheduledTaskRow): StoredTaskRecord<T> {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload as T,
+    createdAt: toIso(row.createdAt)!,
+    priority: (row.priority as TaskPriority | null) ?? undefined,
+    metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+    runAt: toIso(row.runAt)!,
+    expiresAt: toIso(row.expiresAt),
+    intervalMs: row.intervalMs ?? undefined,
+    status: row.status as StoredTaskRecord<T>['status'],
+    attempts: row.attempts,
+    leaseOwner: row.leaseOwner ?? undefined,
+    leaseUntil: toIso(row.leaseUntil),
+    lastError: row.lastError ?? undefined,
+  };
+}
+
+/**
+ * Postgres implementation of TaskStore.
+ */
+export class PostgresTaskStore<T = unknown> implements TaskStore<T> {
+  async saveTask(record: StoredTaskRecord<T>): Promise<boolean> {
+    const inserted = await db
+      .insert(supervisorScheduledTasks)
+      .values({
+        id: record.id,
+        type: record.type,
+        payload: record.payload ?? null,
+        priority: record.priority ?? null,
+        priorityRank: PRIORITY_RANK[record.priority || 'normal'],
+        metadata: record.metadata ?? null,
+        status: record.status,
+        runAt: new Date(record.runAt),
+        expiresAt: record.expiresAt ? new Date(record.expiresAt) : null,
+        intervalMs: record.intervalMs ?? null,
+        attempts: record.attempts,
+        createdAt: new Date(record.createdAt),
+      })
+      .onConflictDoNothing({ target: supervisorScheduledTasks.id })
+      .returning({ id: supervisorScheduledTasks.id });
+    return inserted.length > 0;
+  }
+
+  async loadTasks(): Promise<StoredTaskRecord<T>[]> {
+    const rows = await db.select().from(supervisorScheduledTasks);
+    return rows.map(row => toRecord<T>(row));
+  }
+
+  async claimDueTasks(params: {
+    owner: string;
+    now: string;
+    leaseUntil: string;
+    limit: number;
+    types?: string[];
+  }): Promise<StoredTaskRecord<T>[]> {
+    const { owner, now, leaseUntil, limit, types } = params;
+    const typeFilter = types && types.length > 0
+      ? sql`AND type IN (${sql.join(types.map(t => sql`${t}`), sql`, `)})`
+      : sql``;
+
+    // SKIP LOCKED keeps concurrent pollers from claiming the same task.
+    const claimed = await db.execute(sql`
+      UPDATE supervisor_scheduled_tasks
+      SET status = 'claimed',
+          lease_owner = ${owner},
+          lease_until = ${leaseUntil}::timestamptz
+      WHERE id IN (
+        SELECT id FROM supervisor_scheduled_tasks
+        WHERE (expires_at IS NULL OR expires_at > ${now}::timestamptz)
+          AND (
+            (status = 'pending' AND run_at <= ${now}::timestamptz)
+            OR (status = 'claimed' AND lease_until <= ${now}::timestamptz)
+          )
+          ${typeFilter}
+        ORDER BY priority_rank DESC, run_at, created_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `);
+
+    return (claimed.rows as Array<Record<string, any>>).map(row => toRecord<T>({
+      id: row.id,
+      type: row.type,
+      payload: row.payload,
+      priority: row.priority,
+      priorityRank: Number(row.priority_rank),
+      metadata: row.metadata,
+      status: row.status,
+      runAt: row.run_at,
+      expiresAt: row.expires_at,
+      intervalMs: row.interval_ms === null ? null : Number(row.interval_ms),
+      attempts: Number(row.attempts),
+      leaseOwner: row.lease_owner,
+      leaseUntil: row.lease_until,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+    }));
+  }
+
+  async rescheduleTask(taskId: string, update: {
+    runAt: string;
+    attempts: number;
+    lastError?: string;
+  }): Promise<void> {
+    await db
+      .update(supervisorScheduledTasks)
+      .set({
+        status: 'pending',
+        runAt: new Date(update.runAt),
+        attempts: update.attempts,
+        lastError: update.lastError?.slice(0, 2000) ?? null,
+        leaseOwner: null,
+        leaseUntil: null,
+      })
+      .where(eq(supervisorScheduledTasks.id, taskId));
+  }
+
+  async deleteTask(taskId: string): Promise<void> {
+    await db
+      .delete(supervisorScheduledTasks)
+      .where(eq(supervisorScheduledTasks.id, taskId));
+  }
+
+  async deleteExpired(now: string): Promise<number> {
+    const deleted = await db
+      .delete(supervisorScheduledTasks)
+      .where(and(
+        isNotNull(supervisorScheduledTasks.expiresAt),
+        lte(supervisorScheduledTasks.expiresAt, new Date(now)),
+      ))
+      .returning({ id: supervisorScheduledTasks.id });
+    return deleted.length;
+  }
+
+  async clear(): Promise<void> {
+    await db.delete(supervisorScheduledTasks);
+  }
+}
+
+/**
+ * Create a new PostgresTaskStore instance.
+ */
+export function createPostgresTaskStore<T = unknown>(): PostgresTaskStore<T> {
+  return new PostgresTaskStore<T>();
+}
@@ -3,6 +3,7 @@
  * 
  * A lightweight, synchronous FIFO task queue for Supervisor.
  * All operations are in-memory with no external dependencies.
+ * For a queue that survives restarts see DurableScheduler.
  */
 
 import type { 
@@ -15,16 +16,59 @@ import type {
 /**
  * Generate a unique task ID
  */
-function generateTaskId(): string {
+export function generateTaskId(): string {
   return `task_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+/**
+ * Build a ScheduledTask from enqueue options, resolving delays and TTLs
+ * into absolute runAt / expiresAt timestamps.
+ */
+export function buildScheduledTask<T>(
+  type: string,
+  payload: T,
+  options: EnqueueOptions,
+  nowMs: number
+): ScheduledTask<T> {
+  const runAt = options.runAt
+    ?? (options.delayMs ? new Date(nowMs + options.delayMs).toISOString() : undefined);
+  const expiresAt = options.expiresAt
+    ?? (options.ttlMs ? new Date(nowMs + options.ttlMs).toISOString() : undefined);
+
+  return {
+    id: options.id || generateTaskId(),
+    type,
+    payload,
+    createdAt: new Date(nowMs).toISOString(),
+    priority: options.priority,
+    metadata: options.metadata,
+    ...(runAt ? { runAt } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+    ...(options.intervalMs ? { intervalMs: options.intervalMs } : {})
+  };
+}
+
+/**
+ * Whether a task's runAt has been reached
+ */
+export function isTaskDue(task: ScheduledTask<unknown>, nowMs: number): boolean {
+  return !task.runAt || Date.parse(task.runAt) <= nowMs;
+}
+
+/**
+ * Whether a task's expiresAt has passed
+ */
+export function isTaskExpired(task: ScheduledTask<unknown>, nowMs: number): boolean {
+  return !!task.expiresAt && Date.parse(task.expiresAt) <= nowMs;
+}
+
 /**
  * In-memory FIFO implementation of SupervisorScheduler.
  * 
  * Features:
  * - Synchronous operations
- * - FIFO ordering
+ * - FIFO ordering (delayed tasks are skipped until due)
+ * - Expired tasks are dropped
  * - Statistics tracking
  * - Zero external dependencies
  */
@@ -40,56 +84,64 @@ export class InMemoryScheduler<T = unknown> implements SupervisorScheduler<T> {
   private stats: {
     totalEnqueued: number;
     totalDequeued: number;
+    totalExpired: number;
     lastEnqueuedAt?: string;
     lastDequeuedAt?: string;
   } = {
     totalEnqueued: 0,
-    totalDequeued: 0
+    totalDequeued: 0,
+    totalExpired: 0
   };
 
   /**
    * Add a task to the end of the queue.
    */
   enqueue(type: string, payload: T, options: EnqueueOptions = {}): ScheduledTask<T> {
-    const now = new Date().toISOString();
-    
-    const task: ScheduledTask<T> = {
-      id: options.id || generateTaskId(),
-      type,
-      payload,
-      createdAt: now,
-      priority: options.priority,
-      metadata: options.metadata
-    };
+    const task = buildScheduledTask(type, payload, options, Date.now());
 
     this.queue.push(task);
     
     // Update stats
     this.stats.totalEnqueued++;
-    this.stats.lastEnqueuedAt = now;
+    this.stats.lastEnqueuedAt = task.createdAt;
 
     return task;
   }
 
   /**
-   * Remove and return the first task from the queue.
+   * Remove and return the first due task from the queue.
    */
   dequeue(): ScheduledTask<T> | undefined {
-    const task = this.queue.shift();
-    
-    if (task) {
-      this.stats.totalDequeued++;
-      this.stats.lastDequeuedAt = new Date().toISOString();
+    const index = this.findNextDueIndex();
+    if (index === -1) {
+      return undefined;
     }
 
+    const [task] = this.queue.splice(index, 1);
+    this.stats.totalDequeued++;
+    this.stats.lastDequeuedAt = new Date().toISOString();
+
     return task;
   }
 
   /**
-   * View the first task without removing it.
+   * View the first due task without removing it.
    */
   peek(): ScheduledTask<T> | undefined {
-    return this.queue[0];
+    const index = this.findNextDueIndex();
+    return index === -1 ? undefined : this.queue[index];
+  }
+
+  /**
+   * Drop expired tasks, then find the first task that is due.
+   */
+  private findNextDueIndex(): number {
+    const nowMs = Date.now();
+    const before = this.queue.length;
+    this.queue = this.queue.filter(task => !isTaskExpired(task, nowMs));
+    this.stats.totalExpired += before - this.queue.length;
+
+    return this.queue.findIndex(task => isTaskDue(task, nowMs));
   }
 
   /**
@@ -121,6 +173,7 @@ export class InMemoryScheduler<T = unknown> implements SupervisorScheduler<T> {
       queueSize: this.queue.length,
       totalEnqueued: this.stats.totalEnqueued,
       totalDequeued: this.stats.totalDequeued,
+      totalExpired: this.stats.totalExpired,
       lastEnqueuedAt: this.stats.lastEnqueuedAt,
       lastDequeuedAt: this.stats.lastDequeuedAt
     };
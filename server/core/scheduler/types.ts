@@ -39,6 +39,22 @@ export interface ScheduledTask<T = unknown> {
    * Optional metadata
    */
   metadata?: Metadata;
+
+  /**
+   * ISO timestamp before which the task is not dequeued (delayed tasks)
+   */
+  runAt?: string;
+
+  /**
+   * ISO timestamp after which the task is dropped instead of dequeued
+   */
+  expiresAt?: string;
+
+  /**
+   * Recurrence interval in ms. Recurring tasks are rescheduled
+   * intervalMs after each run instead of being removed.
+   */
+  intervalMs?: number;
 }
 
 /**
@@ -59,6 +75,31 @@ export interface EnqueueOptions {
    * Additional metadata
    */
   metadata?: Metadata;
+
+  /**
+   * Delay before the task can be dequeued, in ms
+   */
+  delayMs?: number;
+
+  /**
+   * Absolute ISO time before which the task is not dequeued (overrides delayMs)
+   */
+  runAt?: string;
+
+  /**
+   * Time-to-live from enqueue, in ms; the task is dropped once it expires
+   */
+  ttlMs?: number;
+
+  /**
+   * Absolute ISO expiry time (overrides ttlMs)
+   */
+  expiresAt?: string;
+
+  /**
+   * Make the task recurring with this interval, in ms
+   */
+  intervalMs?: number;
 }
 
 /**
@@ -104,6 +145,11 @@ export interface SchedulerStats {
    * Timestamp of last dequeue operation
    */
   lastDequeuedAt?: string;
+
+  /**
+   * Total tasks dropped because they expired before being dequeued
+   */
+  totalExpired?: number;
 }
 
 /**
@@ -162,3 +208,161 @@ export interface SupervisorScheduler<T = unknown> {
    */
   getStats(): SchedulerStats;
 }
+
+// ============================================
+// DURABLE SCHEDULER
+// ============================================
+
+/**
+ * A task as persisted by a TaskStore
+ */
+export interface StoredTaskRecord<T = unknown> extends ScheduledTask<T> {
+  /**
+   * 'pending' (waiting to run) or 'claimed' (leased by a poller)
+   */
+  status: 'pending' | 'claimed';
+
+  /**
+   * ISO timestamp when the task becomes due
+   */
+  runAt: string;
+
+  /**
+   * Failed runs so far (reset when a recurring task is rescheduled)
+   */
+  attempts: number;
+
+  /**
+   * Poller currently holding the task
+   */
+  leaseOwner?: string;
+
+  /**
+   * ISO timestamp when the claim expires and the task is due again
+   */
+  leaseUntil?: string;
+
+  /**
+   * Last handler error
+   */
+  lastError?: string;
+}
+
+/**
+ * Persistence port for DurableScheduler.
+ *
+ * Implementations must make claimDueTasks atomic so that two pollers
+ * sharing the same store never dequeue the same task.
+ */
+export interface TaskStore<T = unknown> {
+  /**
+   * Persist a task. Returns false if a task with the same ID already exists.
+   */
+  saveTask(record: StoredTaskRecord<T>): Promise<boolean>;
+
+  /**
+   * Load all tasks that have not completed (used to rebuild state on boot)
+   */
+  loadTasks(): Promise<StoredTaskRecord<T>[]>;
+
+  /**
+   * Atomically claim due tasks: pending and past runAt, or claimed with an
+   * expired lease. Expired tasks (past expiresAt) are never claimed.
+   */
+  claimDueTasks(params: {
+    owner: string;
+    now: string;
+    leaseUntil: string;
+    limit: number;
+    types?: string[];
+  }): Promise<StoredTaskRecord<T>[]>;
+
+  /**
+   * Return a claimed task to pending at a new runAt (recurrence or retry)
+   */
+  rescheduleTask(taskId: string, update: {
+    runAt: string;
+    attempts: number;
+    lastError?: string;
+  }): Promise<void>;
+
+  /**
+   * Remove a task (completed, dropped or dequeued)
+   */
+  deleteTask(taskId: string): Promise<void>;
+
+  /**
+   * Delete tasks whose expiresAt has passed; returns how many were removed
+   */
+  deleteExpired(now: string): Promise<number>;
+
+  /**
+   * Remove all tasks
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Configuration for DurableScheduler
+ */
+export interface DurableSchedulerConfig {
+  /**
+   * Identifies this poller as claim owner (default: random)
+   */
+  ownerId?: string;
+
+  /**
+   * How long a claim is held before another poller may take the task (default: 5 min)
+   */
+  leaseMs?: number;
+
+  /**
+   * Runs of a one-off task before it is dropped (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Base retry delay for a failed one-off task, doubled per attempt (default: 5s)
+   */
+  retryBaseDelayMs?: number;
+
+  /**
+   * Retry delay cap (default: 10 min)
+   */
+  retryMaxDelayMs?: number;
+
+  /**
+   * Poll interval for start() (default: 5s)
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Max tasks claimed per poll (default: 10)
+   */
+  batchSize?: number;
+}
+
+/**
+ * Handler for a claimed task, keyed by task type in runDueTasks/start
+ */
+export type ScheduledTaskHandler<T = unknown> = (task: ScheduledTask<T>) => Promise<void>;
+
+/**
+ * Result of one runDueTasks pass
+ */
+export interface RunDueTasksResult {
+  /**
+   * Tasks claimed by this pass
+   */
+  claimed: number;
+
+  /**
+   * Tasks whose handler succeeded
+   */
+  succeeded: number;
+
+  /**
+   * Tasks whose handler threw (rescheduled or dropped)
+   */
+  failed: number;
+}
@@ -0,0 +1,129 @@
+/**
+ * Vertical Pack Registry Tests
+ *
+ * Tests for data-declared vertical packs: schema validation, loading the
+ * bundled JSON/YAML packs, and registry-driven account vertical resolution.
+ * Run with: npx tsx server/core/verticals/VerticalPackRegistry.test.ts
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_VERTICAL_PACKS_DIR,
+  loadVerticalPacks,
+  registerVerticalPack,
+  getVerticalPack,
+  listVerticalIds,
+  isRegisteredVerticalId,
+  _resetVerticalPackRegistry,
+} from './VerticalPackRegistry';
+import { parseVerticalPack } from './schema';
+import { VerticalPackValidationError } from './types';
+import type { VerticalPack } from './types';
+import { getAccountVerticalId, createAccountFromRaw } from '../accounts/types';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+const minimalPack: VerticalPack = {
+  verticalId: 'test_vertical',
+  name: 'Test Vertical',
+  leadPipeline: [{ id: 'new', label: 'New', order: 10 }],
+  leadFinderRecipes: [],
+  scriptTemplates: [],
+};
+
+/**
+ * Run VerticalPackRegistry tests
+ */
+async function runTests(): Promise<void> {
+  console.log('\n=== VerticalPackRegistry Tests ===\n');
+
+  // 1. Schema validation
+  assert(parseVerticalPack(minimalPack, 'inline').verticalId === 'test_vertical', 'Minimal pack validates');
+
+  let validationError: unknown;
+  try {
+    parseVerticalPack({
+      ...minimalPack,
+      verticalId: 'Not A Slug',
+      leadPipeline: [{ id: 'new', label: 'New', order: 10 }, { id: 'new', label: 'Again', order: 20 }],
+    }, 'inline');
+  } catch (error) {
+    validationError = error;
+  }
+  assert(validationError instanceof VerticalPackValidationError, 'Invalid pack throws VerticalPackValidationError');
+  const issues = (validationError as VerticalPackValidationError).issues;
+  assert(issues.some(issue => issue.startsWith('verticalId')), 'Bad verticalId reported');
+  assert(issues.some(issue => issue.includes('duplicate id "new"')), 'Duplicate stage ID reported');
+  console.log('\n1. Schema verification passed');
+
+  // 2. Bundled packs load at startup
+  _resetVerticalPackRegistry();
+  assert(!isRegisteredVerticalId('dental'), 'Data packs not registered before loading');
+
+  const loaded = loadVerticalPacks(DEFAULT_VERTICAL_PACKS_DIR);
+  assert(loaded.errors.length === 0, 'Bundled packs load without errors');
+  ['hospitality', 'dental', 'professional_services'].forEach(id => {
+    assert(loaded.registered.includes(id), `"${id}" pack registered`);
+    const pack = getVerticalPack(id)!;
+    assert(pack.leadPipeline.length > 0 && pack.leadFinderRecipes.length > 0 && pack.scriptTemplates.length > 0,
+      `"${id}" pack has pipeline, recipes and scripts`);
+  });
+  assert(listVerticalIds().includes('brewery'), 'Built-in brewery pack still registered');
+  console.log('\n2. Bundled pack verification passed');
+
+  // 3. Invalid files are skipped and may not redefine built-ins
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vertical-packs-'));
+  try {
+    fs.writeFileSync(path.join(tmpDir, 'valid.json'), JSON.stringify(minimalPack));
+    fs.writeFileSync(path.join(tmpDir, 'broken.yaml'), 'verticalId: broken\nleadPipeline: []\n');
+    fs.writeFileSync(path.join(tmpDir, 'brewery.json'), JSON.stringify({ ...minimalPack, verticalId: 'brewery' }));
+    fs.writeFileSync(path.join(tmpDir, 'notes.txt'), 'ignored');
+
+    _resetVerticalPackRegistry();
+    const result = loadVerticalPacks(tmpDir);
+    assert(result.registered.length === 1 && result.registered[0] === 'test_vertical', 'Valid file registered');
+    assert(result.errors.length === 2, 'Invalid and built-in-clashing files reported');
+    assert(result.errors.some(e => e.file.endsWith('broken.yaml')), 'Error names the invalid file');
+    assert(getVerticalPack('brewery')?.name === 'Brewery', 'Built-in pack not overwritten');
+    assert(loadVerticalPacks(path.join(tmpDir, 'missing')).registered.length === 0, 'Missing directory yields no packs');
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+
+  let duplicateError: unknown;
+  try {
+    registerVerticalPack(minimalPack);
+  } catch (error) {
+    duplicateError = error;
+  }
+  assert(duplicateError instanceof Error, 'Registering an existing ID without replace throws');
+  console.log('\n3. Invalid pack verification passed');
+
+  // 4. Account verticals are validated against the registry
+  _resetVerticalPackRegistry();
+  loadVerticalPacks(DEFAULT_VERTICAL_PACKS_DIR);
+  assert(getAccountVerticalId('dental') === 'dental', 'Registered vertical kept for account');
+  assert(getAccountVerticalId('not_a_vertical') === 'brewery', 'Unregistered vertical falls back to default');
+  assert(createAccountFromRaw({ id: 'acc_1', vertical_id: 'hospitality' }).verticalId === 'hospitality',
+    'Raw account keeps registered vertical');
+  console.log('\n4. Account vertical verification passed');
+
+  _resetVerticalPackRegistry();
+  console.log('\n=== All VerticalPackRegistry Tests Passed! ===\n');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('Test failed:', error);
+  process.exit(1);
+});
@@ -4,27 +4,135 @@
  * Registry for storing and retrieving vertical packs.
  * SUP-14: BreweryVerticalPack (pipeline, scripts, queries)
  * 
+ * The brewery pack is built in. Further verticals are declared as data
+ * files (JSON/YAML) and registered by loadVerticalPacks() at startup;
+ * which vertical IDs are valid is decided by what is registered here.
+ * 
  * Usage:
  *   import { getVerticalPack, listVerticalPacks } from './core/verticals';
- *   
+ * 
  *   const breweryPack = getVerticalPack('brewery');
  *   const allPacks = listVerticalPacks();
  */
 
+import path from 'path';
 import type { VerticalId, VerticalPack } from './types';
+import { parseVerticalPack } from './schema';
+import { loadVerticalPacksFromDirectory, type VerticalPackLoadError } from './loader';
 import { BreweryVerticalPack } from '../../verticals/brewery/BreweryVerticalPack';
 
 // ============================================
 // REGISTRY STORAGE
 // ============================================
 
+/**
+ * Vertical packs that ship with the code.
+ */
+const BUILT_IN_VERTICAL_PACKS: VerticalPack[] = [
+  BreweryVerticalPack,
+];
+
+/**
+ * Default directory for data-declared vertical packs.
+ * Override with VERTICAL_PACKS_DIR.
+ */
+export const DEFAULT_VERTICAL_PACKS_DIR = path.join('server', 'verticals', 'packs');
+
 /**
  * Registry of vertical packs indexed by vertical ID.
- * Add new verticals here as they are implemented.
  */
-const verticalPacksById: Record<VerticalId, VerticalPack> = {
-  brewery: BreweryVerticalPack,
-};
+const verticalPacksById = new Map<VerticalId, VerticalPack>(
+  BUILT_IN_VERTICAL_PACKS.map(pack => [pack.verticalId, pack])
+);
+
+// ============================================
+// REGISTRATION
+// ============================================
+
+/**
+ * Options for registering a vertical pack.
+ */
+export interface RegisterVerticalPackOptions {
+  /** Replace an existing pack with the same ID instead of throwing */
+  replace?: boolean;
+}
+
+/**
+ * Validate and register a vertical pack.
+ * 
+ * @param pack - The pack to register (validated against the pack schema)
+ * @param options - Registration options
+ * @returns The registered (validated) pack
+ * @throws VerticalPackValidationError if the pack is invalid
+ * @throws Error if a pack with the same ID is already registered and replace is not set
+ */
+export function registerVerticalPack(
+  pack: VerticalPack,
+  options: RegisterVerticalPackOptions = {}
+): VerticalPack {
+  const validated = parseVerticalPack(pack, pack?.verticalId ?? 'unknown');
+
+  if (verticalPacksById.has(validated.verticalId) && !options.replace) {
+    throw new Error(`Vertical pack already registered: ${validated.verticalId}`);
+  }
+
+  verticalPacksById.set(validated.verticalId, validated);
+  return validated;
+}
+
+/**
+ * Result of loading data-declared vertical packs.
+ */
+export interface LoadVerticalPacksResult {
+  /** Directory that was scanned */
+  dir: string;
+  /** IDs of the packs registered from files */
+  registered: VerticalId[];
+  /** Files that failed to parse, validate or register */
+  errors: VerticalPackLoadError[];
+}
+
+/**
+ * Load vertical packs from a directory of JSON/YAML files and register them.
+ * Invalid files are reported and skipped; a file may not redefine a built-in pack.
+ * Safe to call more than once (previously loaded packs are replaced).
+ * 
+ * @param dir - Directory to scan (defaults to VERTICAL_PACKS_DIR or server/verticals/packs)
+ * @returns The registered IDs and per-file errors
+ */
+export function loadVerticalPacks(
+  dir: string = process.env.VERTICAL_PACKS_DIR || DEFAULT_VERTICAL_PACKS_DIR
+): LoadVerticalPacksResult {
+  const { packs, errors } = loadVerticalPacksFromDirectory(dir);
+  const builtInIds = new Set(BUILT_IN_VERTICAL_PACKS.map(pack => pack.verticalId));
+  const registered: VerticalId[] = [];
+
+  for (const { file, pack } of packs) {
+    if (builtInIds.has(pack.verticalId)) {
+      errors.push({
+        file,
+        error: `Vertical pack "${pack.verticalId}" is built in and cannot be redefined`,
+      });
+      continue;
+    }
+    if (registered.includes(pack.verticalId)) {
+      errors.push({
+        file,
+        error: `Vertical pack "${pack.verticalId}" is declared more than once`,
+      });
+      continue;
+    }
+    registerVerticalPack(pack, { replace: true });
+    registered.push(pack.verticalId);
+  }
+
+  for (const { file, error } of errors) {
+    console.warn(`[VerticalPackRegistry] Skipped ${file}: ${error}`);
+  }
+  console.log(`[VerticalPackRegistry] Verticals: ${listVerticalIds().join(', ')} (${registered.length} loaded from ${dir})`);
+
+  return { dir, registered, errors };
+}
 
 // ============================================
 // REGISTRY API
@@ -45,7 +153,7 @@ const verticalPacksById: Record<VerticalId, VerticalPack> = {
  * ```
  */
 export function getVerticalPack(id: VerticalId): VerticalPack | undefined {
-  return verticalPacksById[id];
+  return verticalPacksById.get(id);
 }
 
 /**
@@ -60,7 +168,7 @@ export function getVerticalPack(id: VerticalId): VerticalPack | undefined {
  * ```
  */
 export function listVerticalPacks(): VerticalPack[] {
-  return Object.values(verticalPacksById);
+  return Array.from(verticalPacksById.values());
 }
 
 /**
@@ -69,7 +177,7 @@ export function listVerticalPacks(): VerticalPack[] {
  * @returns Array of all registered vertical IDs
  */
 export function listVerticalIds(): VerticalId[] {
-  return Object.keys(verticalPacksById) as VerticalId[];
+  return Array.from(verticalPacksById.keys());
 }
 
 /**
@@ -79,5 +187,28 @@ export function listVerticalIds(): VerticalId[] {
  * @returns true if registered, false otherwise
  */
 export function hasVerticalPack(id: VerticalId): boolean {
-  return id in verticalPacksById;
+  return verticalPacksById.has(id);
+}
+
+/**
+ * Type guard for untrusted input (e.g. an account's vertical_id column).
+ * 
+ * @param id - Value to check
+ * @returns true if id is the ID of a registered vertical
+ */
+export function isRegisteredVerticalId(id: unknown): id is VerticalId {
+  return typeof id === 'string' && verticalPacksById.has(id);
+}
+
+// ============================================
+// TESTING UTILITIES
+// ============================================
+
+/**
+ * Reset the registry to the built-in packs (for testing).
+ * @internal
+ */
+export function _resetVerticalPackRegistry(): void {
+  verticalPacksById.clear();
+  BUILT_IN_VERTICAL_PACKS.forEach(pack => verticalPacksById.set(pack.verticalId, pack));
 }
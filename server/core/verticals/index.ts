@@ -1,7 +1,7 @@
 /**
  * Core Verticals - Barrel Export
  * 
- * Re-exports all vertical pack types and registry functions.
+ * Re-exports all vertical pack types, the pack schema/loader and registry functions.
  * SUP-14: BreweryVerticalPack (pipeline, scripts, queries)
  */
 
@@ -14,12 +14,37 @@ export type {
   VerticalPack,
 } from './types';
 
-export { VerticalPackNotFoundError } from './types';
+export { VerticalPackNotFoundError, VerticalPackValidationError } from './types';
+
+// Schema
+export { verticalPackSchema, parseVerticalPack } from './schema';
+
+// Loader
+export type {
+  LoadedVerticalPack,
+  VerticalPackLoadError,
+  VerticalPackLoadResult,
+} from './loader';
+
+export {
+  VERTICAL_PACK_FILE_EXTENSIONS,
+  loadVerticalPackFile,
+  loadVerticalPacksFromDirectory,
+} from './loader';
 
 // Registry
+export type {
+  RegisterVerticalPackOptions,
+  LoadVerticalPacksResult,
+} from './VerticalPackRegistry';
+
 export {
+  DEFAULT_VERTICAL_PACKS_DIR,
+  registerVerticalPack,
+  loadVerticalPacks,
   getVerticalPack,
   listVerticalPacks,
   listVerticalIds,
   hasVerticalPack,
+  isRegisteredVerticalId,
 } from './VerticalPackRegistry';
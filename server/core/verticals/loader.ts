@@ -0,0 +1,99 @@
+/**
+ * Vertical Pack Loader
+ *
+ * Reads vertical packs declared as data files (.json, .yaml, .yml) and
+ * validates them against the vertical pack schema.
+ *
+ * Usage:
+ *   import { loadVerticalPacksFromDirectory } from './core/verticals/loader';
+ *
+ *   const { packs, errors } = loadVerticalPacksFromDirectory('server/verticals/packs');
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { VerticalPack } from './types';
+import { parseVerticalPack } from './schema';
+
+/** File extensions recognised as vertical pack definitions */
+export const VERTICAL_PACK_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * A pack file that could not be loaded.
+ */
+export interface VerticalPackLoadError {
+  /** Path of the file that failed */
+  file: string;
+  /** Parse or validation error message */
+  error: string;
+}
+
+/**
+ * A pack file that parsed and validated.
+ */
+export interface LoadedVerticalPack {
+  /** Path of the file the pack came from */
+  file: string;
+  /** The validated pack */
+  pack: VerticalPack;
+}
+
+/**
+ * Result of loading a directory of pack files.
+ */
+export interface VerticalPackLoadResult {
+  /** Packs that parsed and validated */
+  packs: LoadedVerticalPack[];
+  /** Files that failed (invalid files never stop the others from loading) */
+  errors: VerticalPackLoadError[];
+}
+
+/**
+ * Load and validate a single vertical pack file.
+ *
+ * @param filePath - Path to a .json, .yaml or .yml file
+ * @returns The validated pack
+ * @throws Error if the file cannot be parsed, VerticalPackValidationError if invalid
+ */
+export function loadVerticalPackFile(filePath: string): VerticalPack {
+  const raw = fs.readFileSync(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+
+  const data = ext === '.json' ? JSON.parse(raw) : parseYaml(raw);
+
+  return parseVerticalPack(data, path.basename(filePath));
+}
+
+/**
+ * Load every vertical pack file in a directory (non-recursive).
+ * A missing directory yields no packs and no errors.
+ *
+ * @param dir - Directory containing pack files
+ * @returns Loaded packs and per-file errors
+ */
+export function loadVerticalPacksFromDirectory(dir: string): VerticalPackLoadResult {
+  const result: VerticalPackLoadResult = { packs: [], errors: [] };
+
+  if (!fs.existsSync(dir)) {
+    return result;
+  }
+
+  const files = fs.readdirSync(dir)
+    .filter(name => VERTICAL_PACK_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort();
+
+  for (const name of files) {
+    const filePath = path.join(dir, name);
+    try {
+      result.packs.push({ file: filePath, pack: loadVerticalPackFile(filePath) });
+    } catch (error) {
+      result.errors.push({
+        file: filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
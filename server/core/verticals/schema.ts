@@ -0,0 +1,99 @@
+/**
+ * Vertical Pack Schema
+ *
+ * Zod schema for vertical packs declared as data (JSON/YAML files).
+ * Mirrors the VerticalPack interface in ./types and additionally checks
+ * that IDs are unique within each section.
+ */
+
+import { z } from 'zod';
+import type { VerticalPack } from './types';
+import { VerticalPackValidationError } from './types';
+
+// ============================================
+// SECTION SCHEMAS
+// ============================================
+
+/** Lower-case slug used for vertical, stage, recipe and template IDs */
+const slugSchema = z.string().regex(/^[a-z][a-z0-9_-]*$/, 'must be a lower-case slug (a-z, 0-9, _ or -)');
+
+export const verticalLeadPipelineStageSchema = z.object({
+  id: slugSchema,
+  label: z.string().min(1),
+  description: z.string().optional(),
+  isTerminal: z.boolean().optional(),
+  order: z.number().int(),
+});
+
+export const verticalLeadFinderQueryRecipeSchema = z.object({
+  id: slugSchema,
+  label: z.string().min(1),
+  description: z.string().optional(),
+  searchTemplate: z.string().min(1),
+  tags: z.array(z.string()).optional(),
+  defaultCountryCode: z.string().length(2).optional(),
+});
+
+export const verticalScriptTemplateSchema = z.object({
+  id: slugSchema,
+  label: z.string().min(1),
+  description: z.string().optional(),
+  bodyTemplate: z.string().min(1),
+  tags: z.array(z.string()).optional(),
+  channel: z.enum(['email', 'call', 'note']).optional(),
+});
+
+/**
+ * Add an issue for every ID that appears more than once in a section.
+ */
+function checkUniqueIds(items: { id: string }[], section: string, ctx: z.RefinementCtx): void {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    if (seen.has(item.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [section, index, 'id'],
+        message: `duplicate id "${item.id}"`,
+      });
+    }
+    seen.add(item.id);
+  });
+}
+
+// ============================================
+// PACK SCHEMA
+// ============================================
+
+export const verticalPackSchema = z.object({
+  verticalId: slugSchema,
+  name: z.string().min(1),
+  description: z.string().optional(),
+  leadPipeline: z.array(verticalLeadPipelineStageSchema).min(1),
+  leadFinderRecipes: z.array(verticalLeadFinderQueryRecipeSchema),
+  scriptTemplates: z.array(verticalScriptTemplateSchema),
+}).strict().superRefine((pack, ctx) => {
+  checkUniqueIds(pack.leadPipeline, 'leadPipeline', ctx);
+  checkUniqueIds(pack.leadFinderRecipes, 'leadFinderRecipes', ctx);
+  checkUniqueIds(pack.scriptTemplates, 'scriptTemplates', ctx);
+});
+
+/**
+ * Validate unknown data as a VerticalPack.
+ *
+ * @param data - Parsed JSON/YAML (or an in-code pack)
+ * @param source - Where the data came from, for error messages
+ * @returns The validated pack
+ * @throws VerticalPackValidationError if the data is not a valid pack
+ */
+export function parseVerticalPack(data: unknown, source: string): VerticalPack {
+  const result = verticalPackSchema.safeParse(data);
+
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    throw new VerticalPackValidationError(source, issues);
+  }
+
+  return result.data;
+}
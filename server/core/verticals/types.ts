@@ -8,6 +8,9 @@
  * - Lead pipeline stages
  * - Lead Finder query recipes (search templates)
  * - Script templates (email / call scripts)
+ * 
+ * Packs are either built in (brewery) or declared as JSON/YAML data files
+ * and loaded into the VerticalPackRegistry at startup.
  */
 
 // ============================================
@@ -15,10 +18,11 @@
 // ============================================
 
 /**
- * Known vertical identifiers.
- * Add new verticals here as the system grows.
+ * Vertical identifier (e.g. 'brewery', 'dental').
+ * Valid IDs are whatever is registered in the VerticalPackRegistry;
+ * use isRegisteredVerticalId() to validate untrusted input.
  */
-export type VerticalId = 'brewery';
+export type VerticalId = string;
 
 // ============================================
 // LEAD PIPELINE TYPES
@@ -135,3 +139,13 @@ export class VerticalPackNotFoundError extends Error {
     this.name = 'VerticalPackNotFoundError';
   }
 }
+
+/**
+ * Error thrown when a vertical pack definition fails validation.
+ */
+export class VerticalPackValidationError extends Error {
+  constructor(source: string, public readonly issues: string[]) {
+    super(`Invalid vertical pack (${source}): ${issues.join('; ')}`);
+    this.name = 'VerticalPackValidationError';
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { BENCHMARK_QUERIES } from '../../config/benchmarkQueries';
+import { startLocalTower, type LocalTowerHandle } from '../supervisor/tower-local-judge';
+import { getBenchmarkCassetteName, runBenchmarkQuery } from './benchmarkReplay';
+import { FailureClassification } from './failureClassification';
+
+// Offline regression runs of BENCHMARK_QUERIES against recorded cassettes.
+// A query without a cassette fails rather than passing vacuously. To
+// (re)record with live API keys:
+//   CASSETTE_MODE=record npx vitest run server/evaluator/benchmarkReplay.test.ts
+// then review and commit server/evaluator/cassettes/ and the updated snapshot.
+
+vi.mock('../storage', () => {
+  let nextId = 1;
+  const storage = new Proxy({}, {
+    get: (_target, method) => async (row?: Record<string, unknown>) => ({ id: `${String(method)}-${nextId++}`, ...(row ?? {}) }),
+  });
+  return { storage };
+});
+
+const CASSETTE_DIR = fileURLToPath(new URL('./cassettes', import.meta.url));
+const MODE = process.env.CASSETTE_MODE === 'record' ? 'record' : 'replay';
+
+function hasCassette(query: string): boolean {
+  return existsSync(path.join(CASSETTE_DIR, `${getBenchmarkCassetteName(query)}.json`));
+}
+
+describe('benchmark queries (offline replay)', () => {
+  let tower: LocalTowerHandle;
+  const savedEnv = { TOWER_BASE_URL: process.env.TOWER_BASE_URL, TOWER_URL: process.env.TOWER_URL };
+
+  beforeAll(async () => {
+    // Tower verdicts come from the deterministic local judge, not the cassette
+    tower = await startLocalTower(0);
+    process.env.TOWER_BASE_URL = tower.url;
+    process.env.TOWER_URL = tower.url;
+  });
+
+  afterAll(async () => {
+    Object.entries(savedEnv).forEach(([key, value]) => {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    });
+    await tower.close();
+  });
+
+  it('names cassettes by benchmark ID', () => {
+    expect(getBenchmarkCassetteName('find dentists in brighton ')).toBe('benchmark-B01');
+    expect(() => getBenchmarkCassetteName('find llamas')).toThrow('Not a benchmark query');
+  });
+
+  BENCHMARK_QUERIES.forEach(query => {
+    it(query, async () => {
+      expect(
+        MODE === 'record' || hasCassette(query),
+        `No cassette ${getBenchmarkCassetteName(query)}.json for "${query}" — record it with CASSETTE_MODE=record`,
+      ).toBe(true);
+      const record = await runBenchmarkQuery(query, { mode: MODE, dir: CASSETTE_DIR, runId: 'benchmark-run' });
+
+      expect(record.query).toBe(query);
+      expect(record.verified_count).toBeLessThanOrEqual(record.delivered_count);
+      expect(Object.values(FailureClassification)).toContain(record.failure_classification);
+
+      const { run_id: _runId, timestamp: _timestamp, ...stable } = record;
+      expect(stable).toMatchSnapshot();
+    }, 300_000);
+  });
+});
@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import { getBenchmarkQueryId } from '../../config/benchmarkQueries';
+import { extractStructuredMission } from '../supervisor/mission-extractor';
+import { buildMissionPlan, type MissionPlan } from '../supervisor/mission-planner';
+import { executeMissionWithReloop, type MissionExecutionResult } from '../supervisor/mission-executor';
+import { useCassette, ejectCassette, type CassetteMode } from '../supervisor/cassette';
+import { withCostAttribution } from '../supervisor/cost-ledger';
+import { recordBenchmarkRun, type BenchmarkRunInput } from './benchmarkLogger';
+import type { RunContext, PlanHistoryEntry } from './classifyRunFailure';
+import type { BenchmarkRunRecord } from '../types/BenchmarkRunRecord';
+
+// Runs a benchmark query through mission extraction → planning → execution with
+// LLM and external API calls served from a cassette (supervisor/cassette.ts), so
+// BENCHMARK_QUERIES can run as offline regression tests. Record a cassette once with
+// live keys (mode 'record'), then replay it without network access.
+
+export interface BenchmarkReplayOptions {
+  mode?: CassetteMode;
+  /** Cassette directory (defaults to CASSETTE_DIR / ./cassettes) */
+  dir?: string;
+  runId?: string;
+  userId?: string;
+}
+
+export function getBenchmarkCassetteName(query: string): string {
+  const id = getBenchmarkQueryId(query);
+  if (!id) {
+    throw new Error(`Not a benchmark query: "${query}"`);
+  }
+  return `benchmark-${id}`;
+}
+
+function buildRunInput(
+  runId: string,
+  query: string,
+  missionParsed: boolean,
+  constraintsValid: boolean,
+  plan: MissionPlan | null,
+  result: MissionExecutionResult | null,
+  failureReason: string | null,
+): BenchmarkRunInput {
+  const ds = result?.deliverySummary ?? null;
+  const requestedCount = ds?.requested_count ?? 10;
+  const runContext: RunContext = {
+    missionParsed,
+    constraintsValid,
+    planGenerated: !!plan,
+    planEmpty: !!plan && (plan.tool_sequence?.length ?? 0) === 0,
+    candidatePoolSize: ds?.delivered_total_count ?? result?.leadIds.length ?? 0,
+    requestedCount,
+    crawlerFailed: false,
+    crawlerReturnedEmpty: false,
+    pagesFetched: (ds?.delivered_total_count ?? 0) > 0,
+    evidenceItemCount: ds?.cvl_verified_exact_count ?? ds?.delivered_exact_count ?? 0,
+    evidenceHasQuotes: (ds?.cvl_verified_exact_count ?? 0) > 0,
+    towerRejectedStrongEvidence: ds?.status === 'STOP' && (ds?.cvl_verified_exact_count ?? 0) > 0,
+  };
+  const planHistory: PlanHistoryEntry[] = (ds?.plan_versions ?? []).map(pv => ({
+    version: pv.version,
+    strategyId: plan?.strategy ?? undefined,
+  }));
+  return {
+    runId,
+    query,
+    requestedCount,
+    deliveredCount: ds?.delivered_total_count ?? result?.leadIds.length ?? 0,
+    verifiedCount: ds?.cvl_verified_exact_count ?? ds?.delivered_exact_count ?? 0,
+    towerVerdict: result?.towerVerdict ?? ds?.tower_verdict ?? null,
+    replansTriggered: Math.max(0, (ds?.plan_versions?.length ?? 1) - 1),
+    runContext,
+    planHistory,
+    uiVerdict: ds?.status ?? null,
+    notes: failureReason ? `Run failed: ${failureReason.substring(0, 200)}` : undefined,
+  };
+}
+
+/**
+ * Run one benchmark query against its cassette and return the benchmark record.
+ */
+export async function runBenchmarkQuery(query: string, options: BenchmarkReplayOptions = {}): Promise<BenchmarkRunRecord> {
+  const runId = options.runId ?? `benchmark-${randomUUID()}`;
+  const userId = options.userId ?? 'benchmark';
+  useCassette(getBenchmarkCassetteName(query), { mode: options.mode ?? 'replay', dir: options.dir });
+
+  try {
+    const missionResult = await withCostAttribution({ runId, userId }, () => extractStructuredMission(query, ''));
+    const mission = missionResult.ok ? missionResult.mission : null;
+    if (!mission) {
+      return recordBenchmarkRun(buildRunInput(runId, query, false, false, null, null, 'mission extraction failed'));
+    }
+
+    const constraintsValid = Array.isArray(mission.constraints);
+    let plan: MissionPlan | null = null;
+    let result: MissionExecutionResult | null = null;
+    let failureReason: string | null = null;
+    try {
+      plan = buildMissionPlan(mission);
+      result = await withCostAttribution({ runId, userId }, () => executeMissionWithReloop({
+        mission,
+        plan: plan!,
+        runId,
+        userId,
+        rawUserInput: query,
+        missionTrace: missionResult.trace,
+        intentNarrative: missionResult.intentNarrative ?? null,
+        executionPath: 'gp_cascade',
+      }));
+    } catch (err: any) {
+      failureReason = err?.message || String(err);
+    }
+
+    return recordBenchmarkRun(buildRunInput(runId, query, true, constraintsValid, plan, result, failureReason));
+  } finally {
+    ejectCassette();
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * CRM Push Connectors
+ *
+ * HubSpot (companies) and Pipedrive (organizations) push adapters. Both
+ * search for an existing record by domain, then phone, before creating one.
+ * Base URLs are configurable so the adapters can run against local stubs.
+ */
+
+import { getDedupeKey, mapLeadFields, normalizePhone } from './normalize';
+import {
+  CrmApiError,
+  type CrmConnector,
+  type CrmConnectorOptions,
+  type CrmFieldMapping,
+  type CrmLead,
+  type CrmProvider,
+} from './types';
+
+export const HUBSPOT_DEFAULT_BASE_URL = 'https://api.hubapi.com';
+export const PIPEDRIVE_DEFAULT_BASE_URL = 'https://api.pipedrive.com/v1';
+
+/**
+ * HubSpot company properties for each lead field
+ */
+export const HUBSPOT_DEFAULT_MAPPING: CrmFieldMapping = {
+  name: 'name',
+  domain: 'domain',
+  website: 'website',
+  phone: 'phone',
+  address: 'address',
+  notes: 'description',
+};
+
+/**
+ * Pipedrive organization fields for each lead field.
+ * Domain/phone/website are custom fields in Pipedrive; an integration whose
+ * custom fields have hashed keys replaces these through its field mapping.
+ */
+export const PIPEDRIVE_DEFAULT_MAPPING: CrmFieldMapping = {
+  name: 'name',
+  domain: 'domain',
+  website: 'website',
+  phone: 'phone',
+  address: 'address',
+};
+
+async function requestJson<T>(
+  provider: CrmProvider,
+  options: CrmConnectorOptions,
+  baseUrl: string,
+  method: 'GET' | 'POST',
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const response = await fetchImpl(`${baseUrl.replace(/\/$/, '')}${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${options.accessToken}`,
+      'Accept': 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new CrmApiError(provider, response.status, text || response.statusText);
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Search values for a lead, most specific first: [field, value]
+ */
+function searchTerms(lead: CrmLead): Array<['domain' | 'phone', string]> {
+  const terms: Array<['domain' | 'phone', string]> = [];
+  const key = getDedupeKey(lead);
+  if (key?.startsWith('domain:')) terms.push(['domain', key.slice('domain:'.length)]);
+  const phone = normalizePhone(lead.phone);
+  if (phone && lead.phone) terms.push(['phone', lead.phone.trim()]);
+  return terms;
+}
+
+// ============================================
+// HUBSPOT
+// ============================================
+
+interface HubSpotSearchResponse {
+  total: number;
+  results: Array<{ id: string }>;
+}
+
+/**
+ * HubSpot companies connector (CRM v3 objects API).
+ */
+export function createHubSpotConnector(options: CrmConnectorOptions): CrmConnector {
+  const baseUrl = options.baseUrl ?? HUBSPOT_DEFAULT_BASE_URL;
+  const fieldMapping = options.fieldMapping ?? HUBSPOT_DEFAULT_MAPPING;
+
+  return {
+    provider: 'hubspot',
+    fieldMapping,
+
+    async findExisting(lead) {
+      for (const [field, value] of searchTerms(lead)) {
+        const property = fieldMapping[field];
+        if (!property) continue;
+        const result = await requestJson<HubSpotSearchResponse>('hubspot', options, baseUrl, 'POST',
+          '/crm/v3/objects/companies/search', {
+            filterGroups: [{ filters: [{ propertyName: property, operator: 'EQ', value }] }],
+            properties: [property],
+            limit: 1,
+          });
+        if (result.results?.length > 0) {
+          return String(result.results[0].id);
+        }
+      }
+      return null;
+    },
+
+    async create(lead) {
+      const created = await requestJson<{ id: string }>('hubspot', options, baseUrl, 'POST',
+        '/crm/v3/objects/companies', { properties: mapLeadFields(lead, fieldMapping) });
+      return String(created.id);
+    },
+  };
+}
+
+// ============================================
+// PIPEDRIVE
+// ============================================
+
+interface PipedriveSearchResponse {
+  success: boolean;
+  data: { items: Array<{ item: { id: number } }> } | null;
+}
+
+interface PipedriveCreateResponse {
+  success: boolean;
+  data: { id: number };
+}
+
+/**
+ * Pipedrive organizations connector (API v1).
+ */
+export function createPipedriveConnector(options: CrmConnectorOptions): CrmConnector {
+  const baseUrl = options.baseUrl ?? PIPEDRIVE_DEFAULT_BASE_URL;
+  const fieldMapping = options.fieldMapping ?? PIPEDRIVE_DEFAULT_MAPPING;
+
+  return {
+    provider: 'pipedrive',
+    fieldMapping,
+
+    async findExisting(lead) {
+      for (const [field, value] of searchTerms(lead)) {
+        if (!fieldMapping[field]) continue;
+        const query = new URLSearchParams({ term: value, exact_match: 'true', limit: '1' });
+        const result = await requestJson<PipedriveSearchResponse>('pipedrive', options, baseUrl, 'GET',
+          `/organizations/search?${query.toString()}`);
+        const items = result.data?.items ?? [];
+        if (items.length > 0) {
+          return String(items[0].item.id);
+        }
+      }
+      return null;
+    },
+
+    async create(lead) {
+      const created = await requestJson<PipedriveCreateResponse>('pipedrive', options, baseUrl, 'POST',
+        '/organizations', mapLeadFields(lead, fieldMapping));
+      return String(created.data.id);
+    },
+  };
+}
+
+/**
+ * Create the connector for a provider.
+ */
+export function createCrmConnector(provider: CrmProvider, options: CrmConnectorOptions): CrmConnector {
+  switch (provider) {
+    case 'hubspot':
+      return createHubSpotConnector(options);
+    case 'pipedrive':
+      return createPipedriveConnector(options);
+  }
+}
@@ -0,0 +1,293 @@
+/**
+ * CRM Sync Tests
+ *
+ * Tests for lead normalisation, CSV/XLSX export and the HubSpot/Pipedrive
+ * connectors (field mapping, dedupe by domain/phone, sync state) against
+ * local HTTP stubs.
+ * Run with: npx tsx server/features/crmSync/crmSync.test.ts
+ */
+
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { inflateRawSync } from 'zlib';
+import {
+  normalizeDomain,
+  normalizePhone,
+  getDedupeKey,
+  fromSuggestedLead,
+  fromDeliverySummary,
+  leadsToCsv,
+  exportLeads,
+  createHubSpotConnector,
+  createPipedriveConnector,
+  syncLeadsToCrm,
+  setCrmSyncStateStore,
+  getCrmSyncStateStore,
+  InMemoryCrmSyncStateStore,
+  type CrmLead,
+} from './index';
+import type { DeliverySummaryPayload } from '../../supervisor/delivery-summary';
+import type { SuggestedLead } from '@shared/schema';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+interface StubRequest {
+  method: string;
+  url: string;
+  auth?: string;
+  body: any;
+}
+
+type StubHandler = (req: StubRequest) => { status?: number; body: unknown };
+
+/**
+ * Local HTTP stub that records requests
+ */
+async function startStub(handler: StubHandler): Promise<{ server: Server; baseUrl: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = [];
+  const readBody = (req: IncomingMessage) => new Promise<string>(resolve => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+  });
+
+  const server = createServer(async (req, res) => {
+    const raw = await readBody(req);
+    const recorded: StubRequest = {
+      method: req.method || 'GET',
+      url: req.url || '/',
+      auth: req.headers.authorization,
+      body: raw ? JSON.parse(raw) : undefined,
+    };
+    requests.push(recorded);
+    const { status = 200, body } = handler(recorded);
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}`, requests };
+}
+
+/**
+ * Read an entry from a zip buffer via its local header
+ */
+function readZipEntry(zip: Buffer, name: string): string | undefined {
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const entryName = zip.toString('utf8', offset + 30, offset + 30 + nameLength);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    if (entryName === name) {
+      return inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString('utf8');
+    }
+    offset = dataStart + compressedSize;
+  }
+  return undefined;
+}
+
+function createSuggestedLead(id: string, lead: Record<string, unknown>): SuggestedLead {
+  const now = new Date();
+  return {
+    id,
+    userId: 'user-1',
+    accountId: null,
+    rationale: 'Matches freehouse signal',
+    source: 'test',
+    score: 0.9,
+    lead,
+    createdAt: now,
+    lastContactedAt: null,
+    pipelineStage: 'qualified',
+    pipelineStageChangedAt: null,
+    updatedAt: now,
+  };
+}
+
+const LEADS: CrmLead[] = [
+  fromSuggestedLead(createSuggestedLead('s1', { name: 'The Hop Inn', address: '12 Trafalgar St', website: 'https://www.hopinn.co.uk/menu', phone: '+44 1273 123456' })),
+  fromSuggestedLead(createSuggestedLead('s2', { name: 'Hop Inn (duplicate)', website: 'hopinn.co.uk' })),
+  fromSuggestedLead(createSuggestedLead('s3', { name: 'Cask & Barrel', phone: '01273 999 888' })),
+  fromSuggestedLead(createSuggestedLead('s4', { name: 'New Brew Bar', website: 'newbrew.example' })),
+];
+
+/**
+ * Run CRM sync tests
+ */
+async function runTests(): Promise<void> {
+  console.log('\n=== CRM Sync Tests ===\n');
+
+  // Test 1: Normalisation
+  console.log('1. Testing normalisation...');
+
+  assert(normalizeDomain('https://www.HopInn.co.uk/menu') === 'hopinn.co.uk', 'Domain lowercased without www and path');
+  assert(normalizeDomain('hopinn.co.uk') === 'hopinn.co.uk', 'Bare domains accepted');
+  assert(normalizeDomain('not a url') === undefined, 'Invalid website has no domain');
+  assert(normalizePhone('+44 (0)1273 123 456') === '+4401273123456', 'Phone reduced to digits');
+  assert(normalizePhone('123') === undefined, 'Short phone numbers ignored');
+  assert(getDedupeKey(LEADS[0]) === 'domain:hopinn.co.uk', 'Domain preferred for dedupe');
+  assert(getDedupeKey(LEADS[2]) === 'phone:01273999888', 'Phone used without a domain');
+  assert(LEADS[0].notes === 'Matches freehouse signal' && LEADS[0].pipelineStage === 'qualified', 'Suggested lead fields carried over');
+
+  const summary = {
+    delivered_exact: [{ entity_id: 'e1', name: 'Exact Arms', address: '1 Road', match_level: 'exact', soft_violations: [] }],
+    delivered_closest: [{ entity_id: 'e2', name: 'Close Tavern', address: '2 Road', match_level: 'closest', soft_violations: [] }],
+  } as unknown as DeliverySummaryPayload;
+  const delivered = fromDeliverySummary(summary);
+  assert(delivered.length === 2 && delivered[0].id === 'e1' && delivered[1].origin === 'delivery', 'Delivered entities converted, exact first');
+  console.log('   Normalisation test passed\n');
+
+  // Test 2: File export
+  console.log('2. Testing CSV/XLSX export...');
+
+  const csv = leadsToCsv([LEADS[0], { id: 'x', origin: 'delivery', name: '=HYPERLINK("evil")', address: 'a, b' }]);
+  const lines = csv.replace(/^\uFEFF/, '').split('\r\n');
+  assert(lines[0].startsWith('Company name,Address,Website'), 'CSV header row from mapping');
+  assert(lines[1].startsWith('The Hop Inn,12 Trafalgar St,https://www.hopinn.co.uk/menu,hopinn.co.uk'), 'CSV values in column order');
+  assert(lines[2].startsWith(`"'=HYPERLINK(""evil"")","a, b"`), 'Formulas neutralised and cells quoted');
+
+  const xlsx = exportLeads(LEADS, 'xlsx');
+  assert(xlsx.filename.endsWith('.xlsx') && xlsx.body.readUInt32LE(0) === 0x04034b50, 'XLSX is a zip archive');
+  const sheet = readZipEntry(xlsx.body, 'xl/worksheets/sheet1.xml') || '';
+  assert(sheet.includes('Cask &amp; Barrel') && sheet.includes('r="A5"'), 'Worksheet has escaped values and a row per lead');
+  assert(readZipEntry(xlsx.body, '[Content_Types].xml')?.includes('spreadsheetml') === true, 'Content types declared');
+  console.log('   Export test passed\n');
+
+  // Test 3: HubSpot connector against a stub
+  console.log('3. Testing HubSpot connector...');
+
+  setCrmSyncStateStore(new InMemoryCrmSyncStateStore());
+  let nextId = 100;
+  const hubspot = await startStub(req => {
+    if (req.url === '/crm/v3/objects/companies/search') {
+      const filter = req.body.filterGroups[0].filters[0];
+      const exists = filter.propertyName === 'phone' && filter.value === '01273 999 888';
+      return { body: { total: exists ? 1 : 0, results: exists ? [{ id: '555' }] : [] } };
+    }
+    if (req.url === '/crm/v3/objects/companies' && req.method === 'POST') {
+      if (req.body.properties.name === 'New Brew Bar') return { status: 500, body: { message: 'boom' } };
+      return { status: 201, body: { id: String(nextId++) } };
+    }
+    return { status: 404, body: {} };
+  });
+
+  try {
+    const connector = createHubSpotConnector({ accessToken: 'hs-token', baseUrl: hubspot.baseUrl });
+    const result = await syncLeadsToCrm(connector, LEADS, { userId: 'user-1' });
+
+    assert(result.created === 1 && result.matched === 1, 'One company created, one matched by phone');
+    assert(result.duplicatesInBatch === 1 && result.outcomes[1].status === 'duplicate_in_batch', 'Same domain in batch pushed once');
+    assert(result.failed === 1 && result.outcomes[3].error?.includes('500') === true, 'API failure recorded per lead');
+
+    const create = hubspot.requests.find(r => r.url === '/crm/v3/objects/companies');
+    assert(create?.auth === 'Bearer hs-token', 'Bearer token sent');
+    assert(create?.body.properties.domain === 'hopinn.co.uk' && create?.body.properties.description === 'Matches freehouse signal', 'Field mapping applied');
+    assert(create?.body.properties.score === undefined, 'Unmapped fields not sent');
+
+    const store = getCrmSyncStateStore();
+    const state = await store.get('hubspot', 's1');
+    assert(state?.status === 'created' && state.externalId === '100' && state.attempts === 1, 'Sync state written per lead');
+    assert((await store.get('hubspot', 's3'))?.externalId === '555', 'Matched record ID stored');
+    assert((await store.get('hubspot', 's4'))?.status === 'failed', 'Failed state stored');
+
+    const requestsBefore = hubspot.requests.length;
+    const rerun = await syncLeadsToCrm(connector, [LEADS[0], LEADS[3]], { userId: 'user-1' });
+    assert(rerun.alreadySynced === 1 && rerun.outcomes[0].status === 'already_synced', 'Synced leads skipped on re-run');
+    assert(rerun.failed === 1 && (await store.get('hubspot', 's4'))?.attempts === 2, 'Failed leads retried');
+    assert(hubspot.requests.length - requestsBefore === 2, 'Only the failed lead hit the API');
+    assert((await store.listByUser('user-1', 'hubspot')).length === 3, 'State listed by user');
+  } finally {
+    hubspot.server.close();
+  }
+  console.log('   HubSpot connector test passed\n');
+
+  // Test 4: Pipedrive connector against a stub
+  console.log('4. Testing Pipedrive connector...');
+
+  const pipedrive = await startStub(req => {
+    if (req.url.startsWith('/organizations/search')) {
+      const term = new URL(req.url, 'http://stub').searchParams.get('term');
+      return { body: { success: true, data: { items: term === 'hopinn.co.uk' ? [{ item: { id: 42 } }] : [] } } };
+    }
+    if (req.url === '/organizations' && req.method === 'POST') {
+      return { status: 201, body: { success: true, data: { id: 77 } } };
+    }
+    return { status: 404, body: {} };
+  });
+
+  try {
+    const connector = createPipedriveConnector({
+      accessToken: 'pd-token',
+      baseUrl: pipedrive.baseUrl,
+      fieldMapping: { name: 'name', address: 'address', domain: 'abc123_domain' },
+    });
+    const result = await syncLeadsToCrm(connector, [LEADS[0], LEADS[3]], { userId: 'user-1' });
+    assert(result.matched === 1 && result.outcomes[0].externalId === '42', 'Existing organization matched by domain');
+    assert(result.created === 1 && result.outcomes[1].externalId === '77', 'New organization created');
+
+    const create = pipedrive.requests.find(r => r.url === '/organizations');
+    assert(create?.body.name === 'New Brew Bar' && create?.body.abc123_domain === 'newbrew.example', 'Custom field mapping applied');
+    assert((await getCrmSyncStateStore().get('pipedrive', 's1'))?.status === 'matched', 'State kept per provider');
+  } finally {
+    pipedrive.server.close();
+  }
+  console.log('   Pipedrive connector test passed\n');
+
+  // Test 5: Pipedrive default mapping dedupes on domain and phone
+  console.log('5. Testing Pipedrive dedupe with the default mapping...');
+
+  setCrmSyncStateStore(new InMemoryCrmSyncStateStore());
+  const orgs: Array<{ id: number; body: Record<string, unknown> }> = [];
+  const pipedriveOrgs = await startStub(req => {
+    if (req.url.startsWith('/organizations/search')) {
+      const term = new URL(req.url, 'http://stub').searchParams.get('term');
+      const found = orgs.find(o => o.body.domain === term || o.body.phone === term);
+      return { body: { success: true, data: { items: found ? [{ item: { id: found.id } }] : [] } } };
+    }
+    if (req.url === '/organizations' && req.method === 'POST') {
+      orgs.push({ id: 200 + orgs.length, body: req.body });
+      return { status: 201, body: { success: true, data: { id: 200 + orgs.length - 1 } } };
+    }
+    return { status: 404, body: {} };
+  });
+
+  try {
+    const connector = createPipedriveConnector({ accessToken: 'pd-token', baseUrl: pipedriveOrgs.baseUrl });
+    const first = await syncLeadsToCrm(connector, [LEADS[0], LEADS[2]], { userId: 'user-1' });
+    assert(first.created === 2, 'Organizations created on first sync');
+    assert(orgs[0].body.domain === 'hopinn.co.uk' && orgs[0].body.phone === '+44 1273 123456', 'Domain and phone mapped by default');
+
+    setCrmSyncStateStore(new InMemoryCrmSyncStateStore());
+    const hopInnElsewhere = fromSuggestedLead(createSuggestedLead('s5', { name: 'Hop Inn Brighton', website: 'http://hopinn.co.uk' }));
+    const caskAgain = fromSuggestedLead(createSuggestedLead('s6', { name: 'Cask and Barrel', phone: '01273 999 888' }));
+    const second = await syncLeadsToCrm(connector, [hopInnElsewhere, caskAgain], { userId: 'user-2' });
+    assert(second.matched === 2 && second.created === 0, 'Later syncs match existing organizations instead of duplicating');
+    assert(second.outcomes[0].externalId === '200' && second.outcomes[1].externalId === '201', 'Matched by domain, then by phone');
+    assert(orgs.length === 2, 'No duplicate organizations created');
+  } finally {
+    pipedriveOrgs.server.close();
+  }
+  console.log('   Pipedrive dedupe test passed\n');
+
+  // Cleanup
+  await getCrmSyncStateStore().clear();
+
+  console.log('=== All CRM Sync Tests Passed! ===\n');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('\n❌ Test failed:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,237 @@
+/**
+ * CRM File Export
+ *
+ * CSV and XLSX exports of CrmLeads for CRMs without a push adapter.
+ * XLSX is written directly (one worksheet, inline strings, deflated zip
+ * entries) so no spreadsheet dependency is needed.
+ */
+
+import { deflateRawSync } from 'zlib';
+import { mapLeadFields } from './normalize';
+import type { CrmExportFile, CrmExportFormat, CrmFieldMapping, CrmLead } from './types';
+
+/**
+ * Default column headings for file exports, in column order
+ */
+export const DEFAULT_EXPORT_MAPPING: CrmFieldMapping = {
+  name: 'Company name',
+  address: 'Address',
+  website: 'Website',
+  domain: 'Domain',
+  phone: 'Phone',
+  email: 'Email',
+  pipelineStage: 'Pipeline stage',
+  score: 'Score',
+  placeId: 'Google Place ID',
+  notes: 'Notes',
+  id: 'Wyshbone lead ID',
+};
+
+/**
+ * Header row and value rows for a mapping (columns in mapping order).
+ */
+function toRows(leads: CrmLead[], mapping: CrmFieldMapping): string[][] {
+  const headers = Object.values(mapping).filter((h): h is string => !!h);
+  const rows = leads.map(lead => {
+    const mapped = mapLeadFields(lead, mapping);
+    return headers.map(header => mapped[header] ?? '');
+  });
+  return [headers, ...rows];
+}
+
+// ============================================
+// CSV
+// ============================================
+
+function csvCell(value: string): string {
+  // Neutralise spreadsheet formulas in untrusted values
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * RFC 4180 CSV (CRLF line endings, UTF-8 with BOM so Excel detects the encoding).
+ */
+export function leadsToCsv(leads: CrmLead[], mapping: CrmFieldMapping = DEFAULT_EXPORT_MAPPING): string {
+  return '\uFEFF' + toRows(leads, mapping).map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Minimal zip archive (deflated entries, no directory records or timestamps).
+ */
+function buildZip(entries: { name: string; data: string }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = Buffer.from(entry.name, 'utf8');
+    const raw = Buffer.from(entry.data, 'utf8');
+    const compressed = deflateRawSync(raw);
+    const crc = crc32(raw);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(0, 10); // time/date
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  });
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, ...centrals, end]);
+}
+
+function xmlEscape(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function sheetXml(rows: string[][]): string {
+  const body = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(value)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `<sheetData>${body}</sheetData></worksheet>`;
+}
+
+/**
+ * Single-sheet XLSX workbook ("Leads") with a header row.
+ */
+export function leadsToXlsx(leads: CrmLead[], mapping: CrmFieldMapping = DEFAULT_EXPORT_MAPPING): Buffer {
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  return buildZip([
+    {
+      name: '[Content_Types].xml',
+      data: xmlHeader
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: xmlHeader
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: xmlHeader
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + '<sheets><sheet name="Leads" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xmlHeader
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: sheetXml(toRows(leads, mapping)),
+    },
+  ]);
+}
+
+/**
+ * Export leads as a file.
+ *
+ * @param leads - Leads to export
+ * @param format - 'csv' or 'xlsx'
+ * @param mapping - Column headings (defaults to DEFAULT_EXPORT_MAPPING)
+ */
+export function exportLeads(
+  leads: CrmLead[],
+  format: CrmExportFormat,
+  mapping: CrmFieldMapping = DEFAULT_EXPORT_MAPPING
+): CrmExportFile {
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === 'xlsx') {
+    return {
+      filename: `leads-${date}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      body: leadsToXlsx(leads, mapping),
+    };
+  }
+  return {
+    filename: `leads-${date}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    body: Buffer.from(leadsToCsv(leads, mapping), 'utf8'),
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * CRM Sync Feature Module
+ *
+ * CSV/XLSX export and HubSpot/Pipedrive push of delivered and suggested
+ * leads, with field mapping, dedupe by domain or phone and per-lead sync state.
+ * The crm-sync job (supervisor/jobs/handlers/crm-sync.ts) drives the push.
+ */
+
+export * from './types';
+export * from './normalize';
+export * from './export';
+export * from './connectors';
+export * from './sync';
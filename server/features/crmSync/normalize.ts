@@ -0,0 +1,119 @@
+/**
+ * CRM Lead Normalisation
+ *
+ * Turns suggested_leads rows and delivered entities into CrmLeads, and
+ * derives the domain/phone keys used to dedupe against the CRM.
+ */
+
+import type { SuggestedLead } from '@shared/schema';
+import type { DeliverySummaryPayload } from '../../supervisor/delivery-summary';
+import type { CrmFieldMapping, CrmLead, CrmLeadField } from './types';
+
+/**
+ * Lowercased host without "www.", or undefined if the URL has no host.
+ *
+ * @example normalizeDomain('https://www.HopInn.co.uk/menu') // 'hopinn.co.uk'
+ */
+export function normalizeDomain(website: string | undefined | null): string | undefined {
+  if (!website) return undefined;
+  const trimmed = website.trim();
+  if (!trimmed) return undefined;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    return host.includes('.') ? host : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Phone number reduced to digits (leading + kept), or undefined if too short to match on.
+ *
+ * @example normalizePhone('+44 (0)1273 123 456') // '+4401273123456'
+ */
+export function normalizePhone(phone: string | undefined | null): string | undefined {
+  if (!phone) return undefined;
+  const digits = phone.replace(/[^\d]/g, '');
+  if (digits.length < 7) return undefined;
+  return phone.trim().startsWith('+') ? `+${digits}` : digits;
+}
+
+/**
+ * Dedupe key for a lead: domain first, then phone.
+ * Undefined when the lead has neither, i.e. it cannot be matched in the CRM.
+ */
+export function getDedupeKey(lead: CrmLead): string | undefined {
+  const domain = lead.domain ?? normalizeDomain(lead.website);
+  if (domain) return `domain:${domain}`;
+  const phone = normalizePhone(lead.phone);
+  if (phone) return `phone:${phone}`;
+  return undefined;
+}
+
+/**
+ * Key for deduping within one batch: the dedupe key, else name + address.
+ */
+export function getBatchKey(lead: CrmLead): string {
+  const key = getDedupeKey(lead);
+  if (key) return key;
+  const normalise = (value: string | undefined) => (value ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return `name:${normalise(lead.name)}|${normalise(lead.address)}`;
+}
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Convert a suggested_leads row.
+ */
+export function fromSuggestedLead(row: SuggestedLead): CrmLead {
+  const data = (row.lead ?? {}) as Record<string, unknown>;
+  const emails = Array.isArray(data.emailCandidates) ? data.emailCandidates : [];
+  const website = str(data.website) ?? str(data.domain);
+  return {
+    id: row.id,
+    origin: 'suggested_lead',
+    name: str(data.name) ?? str(data.businessName) ?? `Lead ${row.id}`,
+    address: str(data.address),
+    website,
+    phone: str(data.phone),
+    email: str(emails[0]),
+    domain: normalizeDomain(website),
+    placeId: str(data.place_id) ?? str(data.placeId),
+    score: row.score,
+    pipelineStage: row.pipelineStage ?? undefined,
+    notes: row.rationale,
+  };
+}
+
+/**
+ * Convert the delivered entities of a delivery summary (exact matches first).
+ * Delivered entities carry no website/phone, so the CRM is not searched for
+ * them; they are only deduped within the batch by name and address.
+ */
+export function fromDeliverySummary(summary: DeliverySummaryPayload): CrmLead[] {
+  return [...summary.delivered_exact, ...summary.delivered_closest].map(entity => ({
+    id: entity.entity_id,
+    origin: 'delivery' as const,
+    name: entity.name,
+    address: entity.address || undefined,
+    notes: entity.match_summary,
+  }));
+}
+
+/**
+ * Apply a field mapping: { [targetField]: value } for each mapped, non-empty field.
+ */
+export function mapLeadFields(lead: CrmLead, mapping: CrmFieldMapping): Record<string, string> {
+  const mapped: Record<string, string> = {};
+  (Object.keys(mapping) as CrmLeadField[]).forEach(field => {
+    const target = mapping[field];
+    const value = lead[field];
+    if (target && value !== undefined && value !== null && value !== '') {
+      mapped[target] = String(value);
+    }
+  });
+  return mapped;
+}
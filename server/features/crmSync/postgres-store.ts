@@ -0,0 +1,81 @@
+/**
+ * Postgres CRM Sync State Store
+ *
+ * CrmSyncStateStore backed by the crm_sync_state table
+ * (migrations/013_crm_sync_state.sql), one row per (provider, lead_id).
+ *
+ * Loaded lazily by usePostgresCrmSyncStateStore(): importing it opens the database connection.
+ */
+
+import { and, asc, eq } from 'drizzle-orm';
+import { db } from '../../db';
+import { crmSyncState, type CrmSyncStateRow } from '../../schema';
+import type { CrmProvider, CrmSyncState, CrmSyncStateStore, CrmSyncStatus } from './types';
+
+function toIso(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function rowToState(row: CrmSyncStateRow): CrmSyncState {
+  return {
+    provider: row.provider as CrmProvider,
+    leadId: row.leadId,
+    userId: row.userId ?? undefined,
+    status: row.status as CrmSyncStatus,
+    externalId: row.externalId ?? undefined,
+    dedupeKey: row.dedupeKey ?? undefined,
+    attempts: row.attempts,
+    lastError: row.lastError ?? undefined,
+    syncedAt: toIso(row.syncedAt),
+    updatedAt: toIso(row.updatedAt)!,
+  };
+}
+
+/**
+ * Postgres implementation of CrmSyncStateStore.
+ */
+export class PostgresCrmSyncStateStore implements CrmSyncStateStore {
+  async get(provider: CrmProvider, leadId: string): Promise<CrmSyncState | undefined> {
+    const [row] = await db
+      .select()
+      .from(crmSyncState)
+      .where(and(eq(crmSyncState.provider, provider), eq(crmSyncState.leadId, leadId)))
+      .limit(1);
+    return row ? rowToState(row) : undefined;
+  }
+
+  async upsert(state: CrmSyncState): Promise<CrmSyncState> {
+    const values = {
+      userId: state.userId ?? null,
+      status: state.status,
+      externalId: state.externalId ?? null,
+      dedupeKey: state.dedupeKey ?? null,
+      attempts: state.attempts,
+      lastError: state.lastError ?? null,
+      syncedAt: state.syncedAt ? new Date(state.syncedAt) : null,
+      updatedAt: new Date(state.updatedAt),
+    };
+    const [row] = await db
+      .insert(crmSyncState)
+      .values({ id: `${state.provider}:${state.leadId}`, provider: state.provider, leadId: state.leadId, ...values })
+      .onConflictDoUpdate({ target: [crmSyncState.provider, crmSyncState.leadId], set: values })
+      .returning();
+    return rowToState(row);
+  }
+
+  async listByUser(userId: string, provider?: CrmProvider): Promise<CrmSyncState[]> {
+    const conditions = [eq(crmSyncState.userId, userId)];
+    if (provider) conditions.push(eq(crmSyncState.provider, provider));
+    const rows = await db
+      .select()
+      .from(crmSyncState)
+      .where(and(...conditions))
+      .orderBy(asc(crmSyncState.updatedAt));
+    return rows.map(rowToState);
+  }
+
+  async clear(): Promise<void> {
+    await db.delete(crmSyncState);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * CRM Sync
+ *
+ * Pushes leads through a CrmConnector, deduping within the batch and
+ * against the CRM (domain, then phone), and records per-lead sync state.
+ *
+ * The server installs the Postgres-backed state store at startup
+ * (usePostgresCrmSyncStateStore); tests use the in-memory store that is
+ * active by default.
+ */
+
+import { getBatchKey, getDedupeKey } from './normalize';
+import type {
+  CrmConnector,
+  CrmLead,
+  CrmLeadSyncOutcome,
+  CrmProvider,
+  CrmPushResult,
+  CrmSyncState,
+  CrmSyncStateStore,
+  CrmSyncSummary,
+} from './types';
+
+// ============================================
+// STATE STORE
+// ============================================
+
+/**
+ * In-memory sync state store (default; used by tests and tooling).
+ */
+export class InMemoryCrmSyncStateStore implements CrmSyncStateStore {
+  private states = new Map<string, CrmSyncState>();
+
+  private key(provider: CrmProvider, leadId: string): string {
+    return `${provider}:${leadId}`;
+  }
+
+  async get(provider: CrmProvider, leadId: string): Promise<CrmSyncState | undefined> {
+    const state = this.states.get(this.key(provider, leadId));
+    return state ? { ...state } : undefined;
+  }
+
+  async upsert(state: CrmSyncState): Promise<CrmSyncState> {
+    this.states.set(this.key(state.provider, state.leadId), { ...state });
+    return { ...state };
+  }
+
+  async listByUser(userId: string, provider?: CrmProvider): Promise<CrmSyncState[]> {
+    return Array.from(this.states.values())
+      .filter(state => state.userId === userId && (!provider || state.provider === provider))
+      .map(state => ({ ...state }));
+  }
+
+  async clear(): Promise<void> {
+    this.states.clear();
+  }
+}
+
+let stateStore: CrmSyncStateStore = new InMemoryCrmSyncStateStore();
+
+/**
+ * Get the active sync state store
+ */
+export function getCrmSyncStateStore(): CrmSyncStateStore {
+  return stateStore;
+}
+
+/**
+ * Set the sync state store (useful for testing)
+ */
+export function setCrmSyncStateStore(newStore: CrmSyncStateStore): void {
+  stateStore = newStore;
+}
+
+/**
+ * Install the Postgres-backed store (requires migrations/013_crm_sync_state.sql).
+ * Loaded lazily because importing it opens the database connection.
+ */
+export async function usePostgresCrmSyncStateStore(): Promise<void> {
+  const { PostgresCrmSyncStateStore } = await import('./postgres-store');
+  stateStore = new PostgresCrmSyncStateStore();
+  console.log('[CRM_SYNC] Sync state persisted to Postgres (crm_sync_state)');
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+export interface SyncLeadsOptions {
+  /** Owner recorded on the sync state */
+  userId?: string;
+  /** Push leads again even if they were already synced */
+  force?: boolean;
+  /** Called after each lead (for job progress) */
+  onLeadSynced?: (outcome: CrmLeadSyncOutcome, index: number, total: number) => Promise<void> | void;
+}
+
+/**
+ * Push one lead: reuse a matching CRM record, otherwise create one.
+ */
+export async function pushLead(connector: CrmConnector, lead: CrmLead): Promise<CrmPushResult> {
+  const existingId = await connector.findExisting(lead);
+  if (existingId) {
+    return { action: 'matched', externalId: existingId };
+  }
+  return { action: 'created', externalId: await connector.create(lead) };
+}
+
+/**
+ * Sync leads to a CRM and record per-lead state.
+ * A failing lead is recorded as failed and does not stop the batch.
+ *
+ * @param connector - Target CRM
+ * @param leads - Leads to push
+ * @param options - Owner, force and progress callback
+ */
+export async function syncLeadsToCrm(
+  connector: CrmConnector,
+  leads: CrmLead[],
+  options: SyncLeadsOptions = {}
+): Promise<CrmSyncSummary> {
+  const summary: CrmSyncSummary = {
+    provider: connector.provider,
+    total: leads.length,
+    created: 0,
+    matched: 0,
+    alreadySynced: 0,
+    duplicatesInBatch: 0,
+    failed: 0,
+    outcomes: [],
+  };
+  const seen = new Set<string>();
+
+  for (let i = 0; i < leads.length; i++) {
+    const lead = leads[i];
+    const dedupeKey = getDedupeKey(lead);
+    const batchKey = getBatchKey(lead);
+    let outcome: CrmLeadSyncOutcome;
+
+    const previous = await stateStore.get(connector.provider, lead.id);
+    if (seen.has(batchKey)) {
+      outcome = { leadId: lead.id, status: 'duplicate_in_batch', dedupeKey };
+      summary.duplicatesInBatch++;
+    } else if (previous && previous.status !== 'failed' && !options.force) {
+      outcome = { leadId: lead.id, status: 'already_synced', externalId: previous.externalId, dedupeKey };
+      summary.alreadySynced++;
+    } else {
+      const now = new Date().toISOString();
+      const attempts = (previous?.attempts ?? 0) + 1;
+      try {
+        const result = await pushLead(connector, lead);
+        await stateStore.upsert({
+          provider: connector.provider,
+          leadId: lead.id,
+          userId: options.userId,
+          status: result.action,
+          externalId: result.externalId,
+          dedupeKey,
+          attempts,
+          syncedAt: now,
+          updatedAt: now,
+        });
+        outcome = { leadId: lead.id, status: result.action, externalId: result.externalId, dedupeKey };
+        if (result.action === 'created') summary.created++;
+        else summary.matched++;
+      } catch (error: any) {
+        const message = error?.message || String(error);
+        console.warn(`[CRM_SYNC] ${connector.provider} push failed for lead ${lead.id}: ${message}`);
+        await stateStore.upsert({
+          provider: connector.provider,
+          leadId: lead.id,
+          userId: options.userId,
+          status: 'failed',
+          externalId: previous?.externalId,
+          dedupeKey,
+          attempts,
+          lastError: message,
+          syncedAt: previous?.syncedAt,
+          updatedAt: now,
+        });
+        outcome = { leadId: lead.id, status: 'failed', dedupeKey, error: message };
+        summary.failed++;
+      }
+    }
+
+    seen.add(batchKey);
+    summary.outcomes.push(outcome);
+    await options.onLeadSynced?.(outcome, i, leads.length);
+  }
+
+  return summary;
+}
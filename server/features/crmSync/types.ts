@@ -0,0 +1,192 @@
+/**
+ * CRM Sync Types
+ *
+ * Type definitions for exporting delivered and suggested leads to files
+ * (CSV/XLSX) and pushing them to CRMs (HubSpot, Pipedrive).
+ */
+
+// ============================================
+// LEADS
+// ============================================
+
+/**
+ * Where a CRM lead came from
+ * - suggested_lead: a suggested_leads row
+ * - delivery: a DeliverySummaryPayload entity (delivered_exact / delivered_closest)
+ */
+export type CrmLeadOrigin = 'suggested_lead' | 'delivery';
+
+/**
+ * A lead normalised for export/push, independent of its origin
+ */
+export interface CrmLead {
+  /** suggested_leads.id or the delivered entity_id */
+  id: string;
+  origin: CrmLeadOrigin;
+  name: string;
+  address?: string;
+  website?: string;
+  phone?: string;
+  email?: string;
+  /** Lowercased host without www., derived from website */
+  domain?: string;
+  placeId?: string;
+  score?: number;
+  pipelineStage?: string;
+  /** Why the lead was suggested / matched */
+  notes?: string;
+}
+
+// ============================================
+// FIELD MAPPING
+// ============================================
+
+/**
+ * Lead fields that can be mapped onto CRM or file columns
+ */
+export type CrmLeadField = Exclude<keyof CrmLead, 'origin'>;
+
+/**
+ * Target field name for each lead field; omitted lead fields are not sent
+ */
+export type CrmFieldMapping = Partial<Record<CrmLeadField, string>>;
+
+// ============================================
+// EXPORT
+// ============================================
+
+export type CrmExportFormat = 'csv' | 'xlsx';
+
+/**
+ * An exported file
+ */
+export interface CrmExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+// ============================================
+// CONNECTORS
+// ============================================
+
+export type CrmProvider = 'hubspot' | 'pipedrive';
+
+/**
+ * Outcome of pushing one lead
+ * - created: a new CRM record was created
+ * - matched: an existing CRM record had the same domain/phone; nothing was created
+ */
+export interface CrmPushResult {
+  action: 'created' | 'matched';
+  externalId: string;
+}
+
+/**
+ * A push adapter for one CRM
+ */
+export interface CrmConnector {
+  provider: CrmProvider;
+  /** Field mapping applied when pushing */
+  fieldMapping: CrmFieldMapping;
+  /**
+   * Find an existing record by domain or phone.
+   * @returns The CRM record ID, or null if none matched
+   */
+  findExisting(lead: CrmLead): Promise<string | null>;
+  /** Create a record for the lead; returns the CRM record ID */
+  create(lead: CrmLead): Promise<string>;
+}
+
+/**
+ * Options shared by the HTTP connectors
+ */
+export interface CrmConnectorOptions {
+  /** OAuth access token (sent as a Bearer token) */
+  accessToken: string;
+  /** API base URL (point at a local stub in tests) */
+  baseUrl?: string;
+  /** Overrides the connector's default field mapping */
+  fieldMapping?: CrmFieldMapping;
+  /** fetch implementation (defaults to global fetch) */
+  fetchImpl?: typeof fetch;
+}
+
+/**
+ * Error thrown when a CRM API call fails.
+ */
+export class CrmApiError extends Error {
+  constructor(
+    public readonly provider: CrmProvider,
+    public readonly status: number,
+    message: string
+  ) {
+    super(`${provider} API error ${status}: ${message}`);
+    this.name = 'CrmApiError';
+  }
+}
+
+// ============================================
+// SYNC STATE
+// ============================================
+
+/**
+ * Sync status of a lead for one provider
+ * - created / matched: the lead is in the CRM (see CrmPushResult)
+ * - failed: the last push failed; it is retried on the next sync
+ */
+export type CrmSyncStatus = 'created' | 'matched' | 'failed';
+
+/**
+ * Per-lead, per-provider sync state
+ */
+export interface CrmSyncState {
+  provider: CrmProvider;
+  leadId: string;
+  userId?: string;
+  status: CrmSyncStatus;
+  externalId?: string;
+  /** 'domain:<domain>' or 'phone:<digits>' used to dedupe */
+  dedupeKey?: string;
+  attempts: number;
+  lastError?: string;
+  /** ISO timestamp of the last successful push */
+  syncedAt?: string;
+  updatedAt: string;
+}
+
+/**
+ * Persistence for sync state (in-memory for tests, Postgres in the server).
+ */
+export interface CrmSyncStateStore {
+  get(provider: CrmProvider, leadId: string): Promise<CrmSyncState | undefined>;
+  /** Insert or replace the state for (provider, leadId) */
+  upsert(state: CrmSyncState): Promise<CrmSyncState>;
+  listByUser(userId: string, provider?: CrmProvider): Promise<CrmSyncState[]>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Per-lead outcome of a sync run
+ */
+export interface CrmLeadSyncOutcome {
+  leadId: string;
+  status: CrmSyncStatus | 'already_synced' | 'duplicate_in_batch';
+  externalId?: string;
+  dedupeKey?: string;
+  error?: string;
+}
+
+/**
+ * Summary of a sync run
+ */
+export interface CrmSyncSummary {
+  provider: CrmProvider;
+  total: number;
+  created: number;
+  matched: number;
+  alreadySynced: number;
+  duplicatesInBatch: number;
+  failed: number;
+  outcomes: CrmLeadSyncOutcome[];
+}
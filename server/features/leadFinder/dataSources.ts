@@ -0,0 +1,211 @@
+/**
+ * Lead Finder Data Sources
+ *
+ * Pluggable sources that turn a search query into raw lead candidates.
+ * runLeadFinder() dedupes, scores and paginates whatever a source returns.
+ *
+ * - Google Places: real searches via supervisor/google-places (needs GOOGLE_MAPS_API_KEY)
+ * - Mock: hardcoded leads, used only when no API key is configured
+ * - Recorded fixture: replays recorded Places responses (for tests)
+ */
+
+import type { PlaceResult } from '../../supervisor/google-places';
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * Names of the built-in data sources
+ */
+export type LeadFinderDataSourceName = 'google_places' | 'mock' | 'fixture';
+
+/**
+ * A search request passed to a data source
+ */
+export interface LeadSearchRequest {
+  /** Final search query (recipe template or legacy query, location included) */
+  query: string;
+  /** Location the user asked for (may be empty) */
+  location: string;
+  /** ISO 3166-1 alpha-2 country code (e.g. 'GB') */
+  countryCode: string;
+  /** Maximum number of candidates to return */
+  maxResults: number;
+}
+
+/**
+ * A raw, unscored lead returned by a data source
+ */
+export interface LeadCandidate {
+  /** Provider place ID (used for deduplication when present) */
+  placeId?: string;
+  businessName: string;
+  address: string;
+  website?: string;
+  phone?: string;
+  lat?: number;
+  lng?: number;
+  /** Provider place types (e.g. 'bar', 'restaurant') */
+  types?: string[];
+}
+
+/**
+ * A source of lead candidates
+ */
+export interface LeadFinderDataSource {
+  /** Source name, reported on results */
+  readonly name: LeadFinderDataSourceName;
+  /**
+   * Search for candidates.
+   * @throws Error if the underlying provider fails
+   */
+  search(request: LeadSearchRequest): Promise<LeadCandidate[]>;
+}
+
+// ============================================
+// GOOGLE PLACES
+// ============================================
+
+/**
+ * Convert a Google Places result into a lead candidate.
+ */
+export function placeToLeadCandidate(place: PlaceResult): LeadCandidate {
+  return {
+    placeId: place.place_id,
+    businessName: place.name,
+    address: place.formatted_address,
+    website: place.website,
+    phone: place.phone,
+    lat: place.lat,
+    lng: place.lng,
+    types: place.types,
+  };
+}
+
+/**
+ * Data source backed by the Google Places Text Search.
+ * The location is already part of the query, so searches run in TEXT_ONLY mode.
+ */
+export function createGooglePlacesDataSource(): LeadFinderDataSource {
+  return {
+    name: 'google_places',
+    async search(request: LeadSearchRequest): Promise<LeadCandidate[]> {
+      // Imported lazily: the module starts a cache-stats interval on load
+      const { searchPlaces } = await import('../../supervisor/google-places');
+      const result = await searchPlaces(request.query, '', request.countryCode, request.maxResults, 'TEXT_ONLY');
+
+      if (!result.success) {
+        throw new Error(`Lead Finder: Google Places search failed: ${result.error ?? 'unknown error'}`);
+      }
+
+      return result.places.map(placeToLeadCandidate);
+    },
+  };
+}
+
+// ============================================
+// MOCK
+// ============================================
+
+/**
+ * Hardcoded mock leads for development without an API key
+ */
+const MOCK_LEADS: LeadCandidate[] = [
+  {
+    businessName: "Bristol Dental Practice",
+    address: "45 Queen Square, Bristol BS1 4LH",
+  },
+  {
+    businessName: "Manchester Smiles Clinic",
+    address: "12 Piccadilly Gardens, Manchester M1 1RG",
+  },
+  {
+    businessName: "London Dental Hub",
+    address: "78 Harley Street, London W1G 7HJ",
+  },
+  {
+    businessName: "Birmingham Family Dentistry",
+    address: "23 Colmore Row, Birmingham B3 2BJ",
+  },
+  {
+    businessName: "Leeds Dental Centre",
+    address: "56 The Headrow, Leeds LS1 8EQ",
+  }
+];
+
+/**
+ * Data source returning the hardcoded mock leads.
+ * Leads matching the location are returned; if none match, all are returned (for demo purposes).
+ */
+export function createMockDataSource(): LeadFinderDataSource {
+  return {
+    name: 'mock',
+    async search(request: LeadSearchRequest): Promise<LeadCandidate[]> {
+      const location = request.location.trim().toLowerCase();
+      const filtered = location
+        ? MOCK_LEADS.filter(lead => lead.address.toLowerCase().includes(location))
+        : MOCK_LEADS;
+
+      return (filtered.length > 0 ? filtered : MOCK_LEADS).slice(0, request.maxResults);
+    },
+  };
+}
+
+// ============================================
+// RECORDED FIXTURES
+// ============================================
+
+/**
+ * Recorded Google Places responses keyed by search query.
+ */
+export interface RecordedPlacesFixture {
+  [query: string]: PlaceResult[];
+}
+
+/**
+ * Data source that replays recorded Google Places responses.
+ * Queries without a recording return no candidates.
+ *
+ * @param fixture - Recorded places by query
+ * @returns Data source plus the list of queries it received
+ */
+export function createRecordedFixtureDataSource(
+  fixture: RecordedPlacesFixture
+): LeadFinderDataSource & { requests: LeadSearchRequest[] } {
+  const requests: LeadSearchRequest[] = [];
+
+  return {
+    name: 'fixture',
+    requests,
+    async search(request: LeadSearchRequest): Promise<LeadCandidate[]> {
+      requests.push(request);
+      const places = fixture[request.query] ?? [];
+      return places.slice(0, request.maxResults).map(placeToLeadCandidate);
+    },
+  };
+}
+
+// ============================================
+// DEFAULT SOURCE
+// ============================================
+
+let dataSourceOverride: LeadFinderDataSource | null = null;
+
+/**
+ * Get the data source runLeadFinder uses by default:
+ * Google Places when GOOGLE_MAPS_API_KEY is set, otherwise the mock source.
+ */
+export function getLeadFinderDataSource(): LeadFinderDataSource {
+  if (dataSourceOverride) {
+    return dataSourceOverride;
+  }
+  return process.env.GOOGLE_MAPS_API_KEY ? createGooglePlacesDataSource() : createMockDataSource();
+}
+
+/**
+ * Override the default data source (pass null to restore env-based selection).
+ */
+export function setLeadFinderDataSource(source: LeadFinderDataSource | null): void {
+  dataSourceOverride = source;
+}
@@ -0,0 +1,111 @@
+/**
+ * Lead Finder Google Places Tests
+ *
+ * Tests runLeadFinder against a recorded Google Places fixture:
+ * recipe expansion, dedupe by place_id, scoring, pagination and
+ * data source selection.
+ * Run with: npx tsx server/features/leadFinder/leadFinder.google-places.test.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { runLeadFinder, scoreLeadCandidate } from './leadFinder';
+import {
+  createRecordedFixtureDataSource,
+  getLeadFinderDataSource,
+  type RecordedPlacesFixture,
+} from './dataSources';
+
+const fixturePath = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'google-places.recorded.json');
+const fixture: RecordedPlacesFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+/**
+ * Run Lead Finder Google Places tests
+ */
+async function runTests(): Promise<void> {
+  console.log('\n=== Lead Finder Google Places Tests ===\n');
+
+  // 1. Recipe expansion reaches the data source
+  const source = createRecordedFixtureDataSource(fixture);
+  const result = await runLeadFinder(
+    { query: '', location: 'Brighton', verticalId: 'brewery', recipeId: 'micropubs_uk' },
+    { dataSource: source }
+  );
+
+  assert(source.requests.length === 1, 'Data source searched once');
+  assert(source.requests[0].query === 'micropub Brighton', 'Recipe searchTemplate expanded with location');
+  assert(source.requests[0].countryCode === 'GB', 'Recipe defaultCountryCode passed to data source');
+  assert(result.source === 'fixture' && result.searchQuery === 'micropub Brighton', 'Result reports source and query');
+  console.log('\n1. Recipe expansion verification passed');
+
+  // 2. Dedupe and scoring
+  assert(result.totalCount === 4, 'Duplicate place_id removed (5 recorded, 4 unique)');
+  assert(new Set(result.leads.map(lead => lead.placeId)).size === result.leads.length, 'Leads have unique place IDs');
+  assert(result.leads[0].businessName === 'Seven Dials Micropub', 'Best-matching lead with website and phone ranked first');
+  assert(result.leads.every((lead, i) => i === 0 || result.leads[i - 1].score >= lead.score), 'Leads sorted by score');
+  assert(result.leads.every(lead => lead.score >= 0 && lead.score <= 100), 'Scores between 0 and 100');
+  assert(result.leads[0].website !== undefined && result.leads[0].lat !== undefined, 'Lead keeps website and coordinates');
+
+  const hove = result.leads.find(lead => lead.placeId === 'ChIJ-recorded-hove-004')!;
+  const hopInn = result.leads.find(lead => lead.placeId === 'ChIJ-recorded-brighton-001')!;
+  assert(hopInn.score > hove.score, 'In-location lead with website outscores out-of-location lead');
+  assert(
+    scoreLeadCandidate({ businessName: 'Micropub', address: 'Brighton' }, 'micropub Brighton', 'Brighton') === 70,
+    'Name and location matches scored without website/phone'
+  );
+  console.log('\n2. Dedupe and scoring verification passed');
+
+  // 3. Pagination
+  const page1 = await runLeadFinder(
+    { query: '', location: 'Brighton', recipeId: 'micropubs_uk', pageSize: 3 },
+    { dataSource: createRecordedFixtureDataSource(fixture) }
+  );
+  const page2 = await runLeadFinder(
+    { query: '', location: 'Brighton', recipeId: 'micropubs_uk', pageSize: 3, page: 2 },
+    { dataSource: createRecordedFixtureDataSource(fixture) }
+  );
+  assert(page1.count === 3 && page1.hasMore, 'First page full with more available');
+  assert(page2.count === 1 && !page2.hasMore && page2.page === 2, 'Second page holds the remainder');
+  assert(!page1.leads.some(lead => lead.placeId === page2.leads[0].placeId), 'Pages do not overlap');
+  console.log('\n3. Pagination verification passed');
+
+  // 4. Unrecorded query yields no leads
+  const empty = await runLeadFinder(
+    { query: 'nothing recorded', location: 'Nowhere' },
+    { dataSource: createRecordedFixtureDataSource(fixture) }
+  );
+  assert(empty.count === 0 && empty.totalCount === 0 && !empty.hasMore, 'No leads for an unrecorded query');
+  console.log('\n4. Empty result verification passed');
+
+  // 5. Data source selection
+  const savedKey = process.env.GOOGLE_MAPS_API_KEY;
+  delete process.env.GOOGLE_MAPS_API_KEY;
+  assert(getLeadFinderDataSource().name === 'mock', 'Mock source used without an API key');
+  process.env.GOOGLE_MAPS_API_KEY = 'test-key';
+  assert(getLeadFinderDataSource().name === 'google_places', 'Google Places source used with an API key');
+  if (savedKey === undefined) {
+    delete process.env.GOOGLE_MAPS_API_KEY;
+  } else {
+    process.env.GOOGLE_MAPS_API_KEY = savedKey;
+  }
+  console.log('\n5. Data source selection verification passed');
+
+  console.log('\n=== All Lead Finder Google Places Tests Passed! ===\n');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('\n❌ Test failed:', error.message);
+  process.exit(1);
+});
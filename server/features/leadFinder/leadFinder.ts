@@ -1,7 +1,8 @@
 /**
  * Lead Finder Feature Module
  * 
- * Provides lead search functionality with mock data for now.
+ * Provides lead search backed by a pluggable data source (Google Places,
+ * or mock data when no API key is configured).
  * SUP-6: Lead Finder Feature Pack
  * SUP-15: Lead Finder uses brewery search recipes
  */
@@ -12,16 +13,34 @@ import {
   type VerticalId,
   type VerticalLeadFinderQueryRecipe,
 } from '../../core/verticals';
+import {
+  getLeadFinderDataSource,
+  type LeadCandidate,
+  type LeadFinderDataSource,
+  type LeadFinderDataSourceName,
+} from './dataSources';
 
 /**
- * A mock lead returned by the lead finder
+ * A scored lead returned by the lead finder
  */
-export interface MockLead {
+export interface Lead {
   businessName: string;
   address: string;
+  /** Relevance/quality score (0-100) */
   score: number;
+  /** Provider place ID (Google place_id) when known */
+  placeId?: string;
+  website?: string;
+  phone?: string;
+  lat?: number;
+  lng?: number;
 }
 
+/**
+ * @deprecated Use Lead. Kept for callers written against the mock-only lead finder.
+ */
+export type MockLead = Lead;
+
 /**
  * Parameters for running the lead finder
  * 
@@ -37,46 +56,50 @@ export interface LeadFinderParams {
   recipeId?: string;
   /** Optional: Vertical ID to look up recipes from (defaults to 'brewery') */
   verticalId?: VerticalId;
+  /** Optional: Country code (defaults to the recipe's defaultCountryCode, then 'GB') */
+  countryCode?: string;
+  /** Optional: 1-based page number (defaults to 1) */
+  page?: number;
+  /** Optional: Leads per page (defaults to 20, max LEAD_FINDER_MAX_RESULTS) */
+  pageSize?: number;
+}
+
+/**
+ * Options for running the lead finder
+ */
+export interface LeadFinderOptions {
+  /** Data source to search (defaults to getLeadFinderDataSource()) */
+  dataSource?: LeadFinderDataSource;
 }
 
 /**
  * Result from the lead finder
  */
 export interface LeadFinderResult {
-  leads: MockLead[];
+  /** Leads on the requested page, highest score first */
+  leads: Lead[];
+  /** Number of leads on this page */
   count: number;
+  /** Number of unique leads across all pages */
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  /** Whether a further page is available */
+  hasMore: boolean;
+  /** Final search query sent to the data source */
+  searchQuery: string;
+  /** Data source that produced the leads */
+  source: LeadFinderDataSourceName;
 }
 
-/**
- * Hardcoded mock leads for development/testing
- */
-const MOCK_LEADS: MockLead[] = [
-  {
-    businessName: "Bristol Dental Practice",
-    address: "45 Queen Square, Bristol BS1 4LH",
-    score: 92
-  },
-  {
-    businessName: "Manchester Smiles Clinic",
-    address: "12 Piccadilly Gardens, Manchester M1 1RG",
-    score: 87
-  },
-  {
-    businessName: "London Dental Hub",
-    address: "78 Harley Street, London W1G 7HJ",
-    score: 95
-  },
-  {
-    businessName: "Birmingham Family Dentistry",
-    address: "23 Colmore Row, Birmingham B3 2BJ",
-    score: 78
-  },
-  {
-    businessName: "Leeds Dental Centre",
-    address: "56 The Headrow, Leeds LS1 8EQ",
-    score: 84
-  }
-];
+/** Default leads per page */
+export const LEAD_FINDER_DEFAULT_PAGE_SIZE = 20;
+
+/** Maximum candidates requested from a data source per search */
+export const LEAD_FINDER_MAX_RESULTS = 60;
+
+/** Country used when neither the params nor the recipe specify one */
+const DEFAULT_COUNTRY_CODE = 'GB';
 
 // ============================================
 // SEARCH QUERY BUILDERS (SUP-15)
@@ -137,6 +160,91 @@ export function buildLegacySearchQuery(params: LeadFinderParams): string {
   return parts.join(' ');
 }
 
+// ============================================
+// DEDUPLICATION AND SCORING
+// ============================================
+
+/**
+ * Key used to dedupe candidates: the place ID when present,
+ * otherwise the normalised name and address.
+ */
+function candidateKey(candidate: LeadCandidate): string {
+  if (candidate.placeId) {
+    return `place:${candidate.placeId}`;
+  }
+  return `name:${candidate.businessName.trim().toLowerCase()}|${candidate.address.trim().toLowerCase()}`;
+}
+
+/**
+ * Remove duplicate candidates, keeping the first occurrence.
+ * 
+ * @param candidates - Candidates in data source order
+ * @returns Unique candidates
+ */
+export function dedupeLeadCandidates(candidates: LeadCandidate[]): LeadCandidate[] {
+  const seen = new Set<string>();
+  return candidates.filter(candidate => {
+    const key = candidateKey(candidate);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Split text into lower-case search terms (ignoring short words and placeholders).
+ */
+function toTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 2);
+}
+
+/**
+ * Score a candidate from 0 to 100.
+ * 
+ * - 40 base
+ * - up to 20 for search terms found in the name or place types
+ * - 20 for a website, 10 for a phone number
+ * - 10 when the address mentions the requested location
+ * 
+ * @param candidate - The candidate to score
+ * @param searchQuery - The final search query
+ * @param location - The requested location
+ * @returns Integer score between 0 and 100
+ */
+export function scoreLeadCandidate(
+  candidate: LeadCandidate,
+  searchQuery: string,
+  location: string
+): number {
+  let score = 40;
+
+  const locationTerms = new Set(toTerms(location));
+  const queryTerms = toTerms(searchQuery).filter(term => !locationTerms.has(term));
+  if (queryTerms.length > 0) {
+    const haystack = `${candidate.businessName} ${(candidate.types ?? []).join(' ')}`.toLowerCase();
+    const matched = queryTerms.filter(term => haystack.includes(term)).length;
+    score += Math.round((matched / queryTerms.length) * 20);
+  }
+
+  if (candidate.website) score += 20;
+  if (candidate.phone) score += 10;
+
+  if (location.trim() && candidate.address.toLowerCase().includes(location.trim().toLowerCase())) {
+    score += 10;
+  }
+
+  return Math.max(0, Math.min(100, score));
+}
+
+// ============================================
+// RUN
+// ============================================
+
 /**
  * Run the lead finder with given parameters.
  * 
@@ -145,19 +253,26 @@ export function buildLegacySearchQuery(params: LeadFinderParams): string {
  * - If params.verticalId is omitted, defaults to 'brewery'.
  * - For backwards compatibility, requests without recipeId use legacy search.
  * 
- * Currently returns mock data. In the future, this will
- * integrate with real data sources.
+ * The query is sent to the data source (Google Places when GOOGLE_MAPS_API_KEY
+ * is set, mock data otherwise); results are deduped by place ID, scored,
+ * sorted by score and paginated.
  * 
- * @param params - Search parameters (query, location, optional recipeId/verticalId)
- * @returns Promise resolving to leads and count
+ * @param params - Search parameters (query, location, optional recipeId/verticalId, page/pageSize)
+ * @param options - Optional data source override
+ * @returns Promise resolving to a page of leads
+ * @throws Error if the recipe is unknown or the data source fails
  */
-export async function runLeadFinder(params: LeadFinderParams): Promise<LeadFinderResult> {
+export async function runLeadFinder(
+  params: LeadFinderParams,
+  options: LeadFinderOptions = {}
+): Promise<LeadFinderResult> {
   console.log(`[LeadFinder] Starting lead search...`);
   
   // SUP-15: Build search query from recipe or legacy params
   let searchQuery: string;
   let usedRecipeId: string | undefined;
   let usedVerticalId: VerticalId | undefined;
+  let recipeCountryCode: string | undefined;
   
   if (params.recipeId) {
     // Use vertical pack recipe
@@ -176,6 +291,7 @@ export async function runLeadFinder(params: LeadFinderParams): Promise<LeadFinde
     }
     
     searchQuery = buildSearchQueryFromRecipe(recipe, params);
+    recipeCountryCode = recipe.defaultCountryCode;
     console.log(`[LeadFinder] Using recipe "${params.recipeId}" from vertical "${verticalId}"`);
   } else {
     // Fallback to legacy behaviour
@@ -187,25 +303,45 @@ export async function runLeadFinder(params: LeadFinderParams): Promise<LeadFinde
   if (usedVerticalId) {
     console.log(`[LeadFinder] Vertical: ${usedVerticalId}, Recipe: ${usedRecipeId}`);
   }
+
+  const pageSize = Math.max(1, Math.min(params.pageSize ?? LEAD_FINDER_DEFAULT_PAGE_SIZE, LEAD_FINDER_MAX_RESULTS));
+  const page = Math.max(1, Math.floor(params.page ?? 1));
+  const dataSource = options.dataSource ?? getLeadFinderDataSource();
+  const location = params.location ?? '';
+
+  const candidates = await dataSource.search({
+    query: searchQuery,
+    location,
+    countryCode: params.countryCode ?? recipeCountryCode ?? DEFAULT_COUNTRY_CODE,
+    maxResults: LEAD_FINDER_MAX_RESULTS,
+  });
+
+  const ranked: Lead[] = dedupeLeadCandidates(candidates)
+    .map(candidate => ({
+      businessName: candidate.businessName,
+      address: candidate.address,
+      score: scoreLeadCandidate(candidate, searchQuery, location),
+      placeId: candidate.placeId,
+      website: candidate.website,
+      phone: candidate.phone,
+      lat: candidate.lat,
+      lng: candidate.lng,
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const offset = (page - 1) * pageSize;
+  const leads = ranked.slice(offset, offset + pageSize);
   
-  // Simulate async operation (pretend to fetch leads)
-  await new Promise(resolve => setTimeout(resolve, 100));
-  
-  // Filter leads based on location if provided (simple mock filtering)
-  const filteredLeads = params.location 
-    ? MOCK_LEADS.filter(lead => 
-        lead.address.toLowerCase().includes(params.location.toLowerCase())
-      )
-    : MOCK_LEADS;
-  
-  // If no leads match the location filter, return all leads (for demo purposes)
-  const leads = filteredLeads.length > 0 ? filteredLeads : MOCK_LEADS;
-  
-  console.log(`[LeadFinder] Found ${leads.length} leads`);
+  console.log(`[LeadFinder] Found ${ranked.length} unique leads via ${dataSource.name} (${candidates.length} raw), returning page ${page} (${leads.length})`);
   
   return {
     leads,
     count: leads.length,
+    totalCount: ranked.length,
+    page,
+    pageSize,
+    hasMore: offset + pageSize < ranked.length,
+    searchQuery,
+    source: dataSource.name,
   };
 }
-
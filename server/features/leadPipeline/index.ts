@@ -0,0 +1,16 @@
+/**
+ * Lead Pipeline Feature Module
+ *
+ * Stage transitions for suggested leads, validated against the
+ * vertical pack's leadPipeline, with stage history and events.
+ */
+
+export * from './types';
+export * from './transitions';
+export {
+  transitionLeadStage,
+  getLeadStageHistory,
+  getLeadPipelineBoard,
+  _setStorage,
+  type LeadPipelineStorage,
+} from './service';
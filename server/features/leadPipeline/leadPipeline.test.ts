@@ -0,0 +1,268 @@
+/**
+ * Lead Pipeline Tests
+ *
+ * Tests for stage transition rules (terminal states, ordering), stage
+ * history, the lead.stage_changed event, the board grouping and the
+ * stale_leads nudge resolution.
+ * Run with: npx tsx server/features/leadPipeline/leadPipeline.test.ts
+ */
+
+import {
+  validateStageTransition,
+  getAllowedNextStages,
+  groupLeadsByStage,
+  transitionLeadStage,
+  getLeadStageHistory,
+  getLeadPipelineBoard,
+  _setStorage,
+  InvalidStageTransitionError,
+  LeadNotFoundError,
+  ConcurrentStageChangeError,
+  type LeadPipelineStorage,
+  type LeadStageChangedEvent,
+} from './index';
+import { setLeadEventBus, getLeadEventBus } from '../saveLead';
+import { createEventBus } from '../../core/event-bus';
+import { getVerticalPack } from '../../core/verticals';
+import {
+  handleLeadStageChanged,
+  subscribeStaleLeadsToStageChanges,
+  _setStorage as _setStaleLeadsStorage,
+} from '../../subcon/packs/staleleads';
+import type { LeadStageHistory, SuggestedLead } from '@shared/schema';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+/**
+ * Wait for async event handling to complete
+ */
+function waitForEvents(ms: number = 50): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Expect a transition to be rejected with a given code
+ */
+function expectRejected(fn: () => unknown, code: string, message: string): void {
+  try {
+    fn();
+  } catch (error) {
+    assert(error instanceof InvalidStageTransitionError && error.code === code, message);
+    return;
+  }
+  throw new Error(`Assertion failed: ${message} (no error thrown)`);
+}
+
+function createLead(id: string, pipelineStage: string | null): SuggestedLead {
+  const now = new Date();
+  return {
+    id,
+    userId: 'user-1',
+    accountId: 'account-1',
+    rationale: 'Test lead',
+    source: 'test',
+    score: 0.8,
+    lead: { name: `Lead ${id}` },
+    createdAt: now,
+    lastContactedAt: null,
+    pipelineStage,
+    pipelineStageChangedAt: null,
+    updatedAt: now,
+  };
+}
+
+/**
+ * In-memory LeadPipelineStorage
+ */
+function createMemoryStorage(leads: SuggestedLead[]): LeadPipelineStorage & { history: LeadStageHistory[] } {
+  const byId = new Map(leads.map(lead => [lead.id, lead]));
+  const history: LeadStageHistory[] = [];
+  return {
+    history,
+    async getSuggestedLeads(userId) {
+      return Array.from(byId.values()).filter(lead => lead.userId === userId);
+    },
+    async getSuggestedLeadById(id) {
+      return byId.get(id);
+    },
+    async updateSuggestedLeadStage(id, fromStage, toStage, changedAt) {
+      const lead = byId.get(id);
+      if (!lead || (lead.pipelineStage ?? null) !== fromStage) return undefined;
+      const updated = { ...lead, pipelineStage: toStage, pipelineStageChangedAt: changedAt, updatedAt: changedAt };
+      byId.set(id, updated);
+      return updated;
+    },
+    async createLeadStageHistory(entry) {
+      const row: LeadStageHistory = {
+        id: `hist-${history.length + 1}`,
+        leadId: entry.leadId,
+        accountId: entry.accountId ?? null,
+        userId: entry.userId ?? null,
+        verticalId: entry.verticalId,
+        fromStage: entry.fromStage ?? null,
+        toStage: entry.toStage,
+        actor: entry.actor,
+        reason: entry.reason ?? null,
+        createdAt: new Date(),
+      };
+      history.push(row);
+      return row;
+    },
+    async getLeadStageHistory(leadId) {
+      return history.filter(row => row.leadId === leadId);
+    },
+  };
+}
+
+/**
+ * Run lead pipeline tests
+ */
+async function runTests(): Promise<void> {
+  console.log('\n=== Lead Pipeline Tests ===\n');
+
+  const pipeline = getVerticalPack('brewery').leadPipeline;
+
+  // Test 1: Transition rules
+  console.log('1. Testing transition rules...');
+
+  assert(validateStageTransition(pipeline, null, 'qualified').id === 'qualified', 'Lead without a stage can enter any stage');
+  assert(validateStageTransition(pipeline, 'new', 'engaged').id === 'engaged', 'Forward moves may skip stages');
+  assert(validateStageTransition(pipeline, 'trial', 'lost').id === 'lost', 'Terminal stage reachable from anywhere');
+  assert(validateStageTransition(pipeline, 'legacy_stage', 'new').id === 'new', 'Unknown current stage may move anywhere');
+  expectRejected(() => validateStageTransition(pipeline, 'new', 'nonsense'), 'UNKNOWN_STAGE', 'Unknown target rejected');
+  expectRejected(() => validateStageTransition(pipeline, 'qualified', 'qualified'), 'SAME_STAGE', 'Same stage rejected');
+  expectRejected(() => validateStageTransition(pipeline, 'engaged', 'new'), 'BACKWARD', 'Backward move rejected');
+  expectRejected(() => validateStageTransition(pipeline, 'customer', 'lost'), 'FROM_TERMINAL', 'Leaving a terminal stage rejected');
+  assert(validateStageTransition(pipeline, 'engaged', 'new', { allowBackward: true }).id === 'new', 'allowBackward permits backward moves');
+  assert(validateStageTransition(pipeline, 'lost', 'qualified', { allowBackward: true }).id === 'qualified', 'allowBackward reopens terminal leads');
+
+  const next = getAllowedNextStages(pipeline, 'engaged').map(stage => stage.id);
+  assert(next.join(',') === 'trial,repeat_buyer,customer,lost', 'Allowed next stages in pipeline order');
+  assert(getAllowedNextStages(pipeline, 'customer').length === 0, 'No moves out of a terminal stage by default');
+  console.log('   Transition rules test passed\n');
+
+  // Test 2: Board grouping
+  console.log('2. Testing board grouping...');
+
+  const board = groupLeadsByStage('brewery', pipeline,
+    [createLead('a', null), createLead('b', 'trial'), createLead('c', 'contacted'), createLead('d', 'trial')],
+    lead => lead.pipelineStage);
+  assert(board.columns.map(column => column.stage.id)[0] === 'new', 'Columns in pipeline order');
+  assert(board.columns[0].leads.map(lead => lead.id).join(',') === 'a', 'Unstaged leads start in the first column');
+  assert(board.columns.find(column => column.stage.id === 'trial')?.leads.length === 2, 'Leads grouped by stage');
+  assert(board.unstaged.length === 1 && board.unstaged[0].id === 'c', 'Stages outside the pipeline are reported separately');
+  console.log('   Board grouping test passed\n');
+
+  // Test 3: Service transitions, history and events
+  console.log('3. Testing transitionLeadStage...');
+
+  const storage = createMemoryStorage([createLead('lead-1', null), createLead('lead-2', 'customer')]);
+  _setStorage(storage);
+  const testBus = createEventBus();
+  const originalBus = getLeadEventBus();
+  setLeadEventBus(testBus);
+
+  const events: LeadStageChangedEvent[] = [];
+  const subscription = testBus.subscribe<LeadStageChangedEvent>('lead.stage_changed', async (event) => {
+    events.push(event);
+  });
+
+  const first = await transitionLeadStage({ leadId: 'lead-1', toStage: 'qualified', actor: 'user-1', reason: 'Replied to email' });
+  assert(first.lead.pipelineStage === 'qualified' && first.fromStage === null, 'Lead moved to qualified');
+  assert(first.lead.pipelineStageChangedAt instanceof Date, 'Stage change timestamp set');
+  assert(first.verticalId === 'brewery', 'Missing vertical falls back to brewery');
+
+  await transitionLeadStage({ leadId: 'lead-1', toStage: 'customer', actor: 'supervisor' });
+  const history = await getLeadStageHistory('lead-1');
+  assert(history.length === 2, 'One history row per change');
+  assert(history[0].actor === 'user-1' && history[0].reason === 'Replied to email', 'History records actor and reason');
+  assert(history[1].fromStage === 'qualified' && history[1].toStage === 'customer', 'History records from/to stages');
+
+  await waitForEvents();
+  assert(events.length === 2, 'lead.stage_changed emitted per change');
+  assert(events[1].payload.isTerminal && events[1].payload.historyId === history[1].id, 'Event reports terminal stage and history row');
+  assert(events[0].payload.accountId === 'account-1' && events[0].payload.actor === 'user-1', 'Event carries account and actor');
+
+  let rejected: unknown;
+  try {
+    await transitionLeadStage({ leadId: 'lead-2', toStage: 'trial', actor: 'user-1' });
+  } catch (error) {
+    rejected = error;
+  }
+  assert(rejected instanceof InvalidStageTransitionError, 'Service enforces terminal stages');
+  assert(storage.history.length === 2, 'Rejected transitions leave no history');
+
+  let missing: unknown;
+  try {
+    await transitionLeadStage({ leadId: 'nope', toStage: 'new', actor: 'user-1' });
+  } catch (error) {
+    missing = error;
+  }
+  assert(missing instanceof LeadNotFoundError, 'Unknown lead reported');
+
+  const racing = createMemoryStorage([createLead('lead-3', 'new')]);
+  racing.updateSuggestedLeadStage = async () => undefined;
+  _setStorage(racing);
+  let conflict: unknown;
+  try {
+    await transitionLeadStage({ leadId: 'lead-3', toStage: 'qualified', actor: 'user-1' });
+  } catch (error) {
+    conflict = error;
+  }
+  assert(conflict instanceof ConcurrentStageChangeError, 'Concurrent stage change detected');
+  _setStorage(storage);
+
+  const userBoard = await getLeadPipelineBoard('user-1');
+  assert(userBoard.columns.find(column => column.stage.id === 'customer')?.leads.length === 2, 'Board built from stored leads');
+  console.log('   transitionLeadStage test passed\n');
+
+  // Test 4: stale_leads resolves nudges when a lead moves
+  console.log('4. Testing stale_leads stage change handling...');
+
+  const resolved: string[] = [];
+  _setStaleLeadsStorage({
+    async getSuggestedLeadsByAccount() { return []; },
+    async getUnresolvedSubconNudges() {
+      return [
+        { id: 'n1', nudgeType: 'stale_lead', leadId: 'lead-1' },
+        { id: 'n2', nudgeType: 'stale_lead', leadId: 'lead-other' },
+        { id: 'n3', nudgeType: 'follow_up', leadId: 'lead-1' },
+      ];
+    },
+    async resolveSubconNudge(id) { resolved.push(id); },
+  });
+
+  const count = await handleLeadStageChanged(events[0]);
+  assert(count === 1 && resolved.join(',') === 'n1', 'Only stale_lead nudges for the lead are resolved');
+
+  resolved.length = 0;
+  const staleSubscription = subscribeStaleLeadsToStageChanges(testBus);
+  await transitionLeadStage({ leadId: 'lead-1', toStage: 'qualified', actor: 'user-1', allowBackward: true });
+  await waitForEvents();
+  assert(resolved.join(',') === 'n1', 'Subscription handles lead.stage_changed');
+  console.log('   stale_leads handling test passed\n');
+
+  // Cleanup
+  staleSubscription.unsubscribe();
+  subscription.unsubscribe();
+  testBus.clear();
+  setLeadEventBus(originalBus);
+  _setStorage(null);
+  _setStaleLeadsStorage(null);
+
+  console.log('=== All Lead Pipeline Tests Passed! ===\n');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('\n❌ Test failed:', error.message);
+  process.exit(1);
+});
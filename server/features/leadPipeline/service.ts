@@ -0,0 +1,177 @@
+/**
+ * Lead Pipeline Service
+ *
+ * Moves suggested leads between the stages of their vertical's leadPipeline,
+ * records a lead_stage_history row per change and publishes
+ * lead.stage_changed on the lead event bus.
+ */
+
+import type { LeadStageHistory, InsertLeadStageHistory, SuggestedLead } from '@shared/schema';
+import { getAccountVerticalId } from '../../core/accounts';
+import {
+  getVerticalPack,
+  VerticalPackNotFoundError,
+  type VerticalId,
+  type VerticalLeadPipelineStage,
+} from '../../core/verticals';
+import { getLeadEventBus } from '../saveLead';
+import { groupLeadsByStage, validateStageTransition } from './transitions';
+import {
+  ConcurrentStageChangeError,
+  LeadNotFoundError,
+  type LeadBoard,
+  type LeadStageChangedEvent,
+  type LeadStageTransitionInput,
+  type LeadStageTransitionResult,
+} from './types';
+
+// ============================================
+// STORAGE DEPENDENCY
+// ============================================
+
+/**
+ * Storage methods needed by the pipeline service.
+ * Allows for dependency injection and testing without a database.
+ */
+export interface LeadPipelineStorage {
+  getSuggestedLeads(userId: string): Promise<SuggestedLead[]>;
+  getSuggestedLeadById(id: string): Promise<SuggestedLead | undefined>;
+  updateSuggestedLeadStage(id: string, fromStage: string | null, toStage: string, changedAt: Date): Promise<SuggestedLead | undefined>;
+  createLeadStageHistory(entry: InsertLeadStageHistory): Promise<LeadStageHistory>;
+  getLeadStageHistory(leadId: string): Promise<LeadStageHistory[]>;
+}
+
+// Lazy-load the actual storage to avoid circular dependencies and allow testing
+let _storage: LeadPipelineStorage | null = null;
+
+async function getStorage(): Promise<LeadPipelineStorage> {
+  if (_storage) return _storage;
+  const { storage } = await import('../../storage');
+  return storage;
+}
+
+/**
+ * Set a custom storage implementation (for testing).
+ * @internal
+ */
+export function _setStorage(storage: LeadPipelineStorage | null): void {
+  _storage = storage;
+}
+
+/**
+ * Generate a unique ID for events
+ */
+function generateEventId(): string {
+  return `evt_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * The leadPipeline of a registered vertical
+ */
+function getLeadPipeline(verticalId: VerticalId): VerticalLeadPipelineStage[] {
+  const pack = getVerticalPack(verticalId);
+  if (!pack) {
+    throw new VerticalPackNotFoundError(verticalId);
+  }
+  return pack.leadPipeline;
+}
+
+// ============================================
+// OPERATIONS
+// ============================================
+
+/**
+ * Move a lead to another stage of its vertical's pipeline.
+ *
+ * @param input - Lead, target stage, actor and optional reason
+ * @returns The updated lead and its history row
+ * @throws LeadNotFoundError if the lead does not exist
+ * @throws InvalidStageTransitionError if the pipeline does not allow the move
+ * @throws ConcurrentStageChangeError if the lead's stage changed meanwhile
+ */
+export async function transitionLeadStage(input: LeadStageTransitionInput): Promise<LeadStageTransitionResult> {
+  const storage = await getStorage();
+  const lead = await storage.getSuggestedLeadById(input.leadId);
+  if (!lead) {
+    throw new LeadNotFoundError(input.leadId);
+  }
+
+  const verticalId = getAccountVerticalId(input.verticalId);
+  const pipeline = getLeadPipeline(verticalId);
+  const fromStage = lead.pipelineStage ?? null;
+  const target = validateStageTransition(pipeline, fromStage, input.toStage, {
+    allowBackward: input.allowBackward,
+  });
+
+  const changedAt = new Date();
+  const updated = await storage.updateSuggestedLeadStage(lead.id, fromStage, target.id, changedAt);
+  if (!updated) {
+    throw new ConcurrentStageChangeError(lead.id, fromStage);
+  }
+
+  const history = await storage.createLeadStageHistory({
+    leadId: lead.id,
+    accountId: lead.accountId ?? null,
+    userId: lead.userId,
+    verticalId,
+    fromStage,
+    toStage: target.id,
+    actor: input.actor,
+    reason: input.reason ?? null,
+  });
+
+  console.log(`[LeadPipeline] Lead ${lead.id}: ${fromStage ?? '(none)'} -> ${target.id} by ${input.actor}`);
+
+  const event: LeadStageChangedEvent = {
+    id: generateEventId(),
+    type: 'lead.stage_changed',
+    timestamp: changedAt.toISOString(),
+    source: 'lead-pipeline',
+    payload: {
+      leadId: lead.id,
+      accountId: lead.accountId ?? undefined,
+      userId: lead.userId,
+      verticalId,
+      fromStage,
+      toStage: target.id,
+      isTerminal: target.isTerminal === true,
+      actor: input.actor,
+      reason: input.reason,
+      historyId: history.id,
+      changedAt: changedAt.toISOString(),
+    },
+  };
+  getLeadEventBus().publish(event).catch((error) => {
+    console.error('[LeadPipeline] Failed to emit lead.stage_changed event:', error);
+  });
+
+  return { lead: updated, history, fromStage, toStage: target.id, verticalId };
+}
+
+/**
+ * Stage history of a lead, oldest first.
+ *
+ * @throws LeadNotFoundError if the lead does not exist
+ */
+export async function getLeadStageHistory(leadId: string): Promise<LeadStageHistory[]> {
+  const storage = await getStorage();
+  const lead = await storage.getSuggestedLeadById(leadId);
+  if (!lead) {
+    throw new LeadNotFoundError(leadId);
+  }
+  return storage.getLeadStageHistory(leadId);
+}
+
+/**
+ * A user's leads grouped by the stages of their vertical's pipeline.
+ *
+ * @param userId - Owner of the leads
+ * @param verticalId - Account vertical (defaults to the default vertical)
+ */
+export async function getLeadPipelineBoard(userId: string, verticalId?: VerticalId | null): Promise<LeadBoard> {
+  const storage = await getStorage();
+  const resolvedVerticalId = getAccountVerticalId(verticalId);
+  const pipeline = getLeadPipeline(resolvedVerticalId);
+  const leads = await storage.getSuggestedLeads(userId);
+  return groupLeadsByStage(resolvedVerticalId, pipeline, leads, lead => lead.pipelineStage);
+}
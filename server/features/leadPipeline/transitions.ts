@@ -0,0 +1,134 @@
+/**
+ * Lead Pipeline Transitions
+ *
+ * Pure rules for moving a lead between the stages of a vertical's
+ * leadPipeline, and for grouping leads into a board.
+ *
+ * Rules:
+ * - the target must be a stage of the pipeline
+ * - moving to the current stage is rejected
+ * - leads without a stage (or with a stage from another pipeline) may move anywhere
+ * - forward moves may skip stages; terminal stages can be reached from anywhere
+ * - moving backwards, or out of a terminal stage, requires allowBackward
+ */
+
+import type { VerticalId, VerticalLeadPipelineStage } from '../../core/verticals';
+import {
+  InvalidStageTransitionError,
+  type LeadBoard,
+  type StageTransitionOptions,
+} from './types';
+
+/**
+ * Stages sorted by their order field.
+ */
+export function getOrderedStages(pipeline: VerticalLeadPipelineStage[]): VerticalLeadPipelineStage[] {
+  return [...pipeline].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Find a stage by ID.
+ */
+export function findStage(
+  pipeline: VerticalLeadPipelineStage[],
+  stageId: string | null | undefined
+): VerticalLeadPipelineStage | undefined {
+  return stageId ? pipeline.find(stage => stage.id === stageId) : undefined;
+}
+
+/**
+ * Validate a transition.
+ *
+ * @param pipeline - The vertical's leadPipeline
+ * @param fromStage - Current stage ID (null if the lead has none)
+ * @param toStage - Target stage ID
+ * @param options - allowBackward to permit earlier stages / reopening
+ * @returns The target stage
+ * @throws InvalidStageTransitionError if the transition is not allowed
+ */
+export function validateStageTransition(
+  pipeline: VerticalLeadPipelineStage[],
+  fromStage: string | null,
+  toStage: string,
+  options: StageTransitionOptions = {}
+): VerticalLeadPipelineStage {
+  const target = findStage(pipeline, toStage);
+  if (!target) {
+    const valid = getOrderedStages(pipeline).map(stage => stage.id).join(', ');
+    throw new InvalidStageTransitionError('UNKNOWN_STAGE', fromStage, toStage,
+      `Unknown pipeline stage "${toStage}" (valid: ${valid})`);
+  }
+
+  if (fromStage === toStage) {
+    throw new InvalidStageTransitionError('SAME_STAGE', fromStage, toStage,
+      `Lead is already in stage "${toStage}"`);
+  }
+
+  const current = findStage(pipeline, fromStage);
+  if (!current) {
+    return target;
+  }
+
+  if (current.isTerminal && !options.allowBackward) {
+    throw new InvalidStageTransitionError('FROM_TERMINAL', fromStage, toStage,
+      `Lead is in terminal stage "${current.id}"; reopening requires allowBackward`);
+  }
+
+  if (target.order < current.order && !target.isTerminal && !options.allowBackward) {
+    throw new InvalidStageTransitionError('BACKWARD', fromStage, toStage,
+      `Cannot move back from "${current.id}" to "${target.id}" without allowBackward`);
+  }
+
+  return target;
+}
+
+/**
+ * Stages a lead may move to from its current stage.
+ */
+export function getAllowedNextStages(
+  pipeline: VerticalLeadPipelineStage[],
+  fromStage: string | null,
+  options: StageTransitionOptions = {}
+): VerticalLeadPipelineStage[] {
+  return getOrderedStages(pipeline).filter(stage => {
+    try {
+      validateStageTransition(pipeline, fromStage, stage.id, options);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Group leads into board columns in pipeline order.
+ * Leads without a stage go into the first stage; leads whose stage is not
+ * in the pipeline go into unstaged.
+ *
+ * @param verticalId - Vertical the pipeline belongs to
+ * @param pipeline - The vertical's leadPipeline
+ * @param leads - Leads to group
+ * @param getStage - Reads a lead's current stage
+ */
+export function groupLeadsByStage<T>(
+  verticalId: VerticalId,
+  pipeline: VerticalLeadPipelineStage[],
+  leads: T[],
+  getStage: (lead: T) => string | null | undefined
+): LeadBoard<T> {
+  const stages = getOrderedStages(pipeline);
+  const columns = stages.map(stage => ({ stage, leads: [] as T[] }));
+  const unstaged: T[] = [];
+
+  leads.forEach(lead => {
+    const stageId = getStage(lead);
+    const index = stageId ? stages.findIndex(stage => stage.id === stageId) : 0;
+    if (index === -1 || columns.length === 0) {
+      unstaged.push(lead);
+    } else {
+      columns[index].leads.push(lead);
+    }
+  });
+
+  return { verticalId, columns, unstaged };
+}
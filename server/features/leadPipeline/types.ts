@@ -0,0 +1,150 @@
+/**
+ * Lead Pipeline Types
+ *
+ * Type definitions for moving suggested leads between the pipeline stages
+ * declared by their vertical pack (VerticalLeadPipelineStage).
+ */
+
+import type { BaseSupervisorEvent } from '../../core/types';
+import type { VerticalId, VerticalLeadPipelineStage } from '../../core/verticals';
+import type { LeadStageHistory, SuggestedLead } from '@shared/schema';
+
+// ============================================
+// TRANSITIONS
+// ============================================
+
+/**
+ * Request to move a lead to another pipeline stage
+ */
+export interface LeadStageTransitionInput {
+  /** suggested_leads.id */
+  leadId: string;
+  /** Target stage ID from the vertical's leadPipeline */
+  toStage: string;
+  /** Who made the change (user ID, 'supervisor', a subcon pack ID, ...) */
+  actor: string;
+  /** Why the lead moved (free text, recorded in the history) */
+  reason?: string;
+  /** Account vertical (unregistered or missing IDs fall back to the default vertical) */
+  verticalId?: VerticalId | null;
+  /** Permit moving to an earlier stage, or out of a terminal stage */
+  allowBackward?: boolean;
+}
+
+/**
+ * Options for validating a transition
+ */
+export interface StageTransitionOptions {
+  /** Permit moving to an earlier stage, or out of a terminal stage */
+  allowBackward?: boolean;
+}
+
+/**
+ * Result of a successful transition
+ */
+export interface LeadStageTransitionResult {
+  lead: SuggestedLead;
+  history: LeadStageHistory;
+  fromStage: string | null;
+  toStage: string;
+  verticalId: VerticalId;
+}
+
+/**
+ * Why a transition was rejected
+ * - UNKNOWN_STAGE: target is not in the vertical's pipeline
+ * - SAME_STAGE: lead is already in the target stage
+ * - FROM_TERMINAL: lead is in a terminal stage (needs allowBackward to reopen)
+ * - BACKWARD: target is earlier in the pipeline (needs allowBackward)
+ */
+export type StageTransitionErrorCode = 'UNKNOWN_STAGE' | 'SAME_STAGE' | 'FROM_TERMINAL' | 'BACKWARD';
+
+/**
+ * Error thrown when a transition is not allowed by the vertical's pipeline.
+ */
+export class InvalidStageTransitionError extends Error {
+  constructor(
+    public readonly code: StageTransitionErrorCode,
+    public readonly fromStage: string | null,
+    public readonly toStage: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'InvalidStageTransitionError';
+  }
+}
+
+/**
+ * Error thrown when the lead does not exist.
+ */
+export class LeadNotFoundError extends Error {
+  constructor(leadId: string) {
+    super(`Lead not found: ${leadId}`);
+    this.name = 'LeadNotFoundError';
+  }
+}
+
+/**
+ * Error thrown when the lead's stage changed between reading and updating it.
+ */
+export class ConcurrentStageChangeError extends Error {
+  constructor(leadId: string, expectedStage: string | null) {
+    super(`Lead ${leadId} is no longer in stage ${expectedStage ?? '(none)'}; reload and retry`);
+    this.name = 'ConcurrentStageChangeError';
+  }
+}
+
+// ============================================
+// BOARD (KANBAN)
+// ============================================
+
+/**
+ * A column of the pipeline board
+ */
+export interface LeadBoardColumn<T = SuggestedLead> {
+  stage: VerticalLeadPipelineStage;
+  leads: T[];
+}
+
+/**
+ * Leads grouped by pipeline stage, in pipeline order
+ */
+export interface LeadBoard<T = SuggestedLead> {
+  verticalId: VerticalId;
+  columns: LeadBoardColumn<T>[];
+  /** Leads whose stage is not in this vertical's pipeline */
+  unstaged: T[];
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+/**
+ * LeadStageChanged event payload
+ */
+export interface LeadStageChangedPayload {
+  leadId: string;
+  accountId?: string;
+  userId: string;
+  verticalId: VerticalId;
+  fromStage: string | null;
+  toStage: string;
+  /** Whether toStage is a terminal stage (e.g. customer/lost) */
+  isTerminal: boolean;
+  actor: string;
+  reason?: string;
+  /** lead_stage_history.id */
+  historyId: string;
+  /** ISO timestamp of the change */
+  changedAt: string;
+}
+
+/**
+ * LeadStageChanged event type
+ * Published on the lead event bus after each recorded transition
+ */
+export interface LeadStageChangedEvent extends BaseSupervisorEvent {
+  type: 'lead.stage_changed';
+  payload: LeadStageChangedPayload;
+}
@@ -0,0 +1,166 @@
+/**
+ * Postgres Saved Lead Store
+ *
+ * SavedLeadStore backed by the saved_leads table (migrations/011_saved_leads.sql).
+ * The partial unique index on (owner_user_id, place_id) stops an owner saving
+ * the same place twice, even across instances.
+ *
+ * Loaded lazily by usePostgresSavedLeadStore(): importing it opens the database connection.
+ */
+
+import { and, asc, arrayContains, count, eq } from 'drizzle-orm';
+import { db } from '../../db';
+import { savedLeads, type SavedLeadRow } from '../../schema';
+import {
+  DuplicateSavedLeadError,
+  type LeadSource,
+  type ListSavedLeadsFilter,
+  type SavedLead,
+  type SavedLeadStore,
+  type SavedLeadsPage,
+} from './types';
+import { buildSavedLeadsPage, resolveSavedLeadsWindow } from './store';
+
+function toIso(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toDate(value: string | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function rowToSavedLead(row: SavedLeadRow): SavedLead {
+  return {
+    id: row.id,
+    ownerUserId: row.ownerUserId,
+    createdAt: toIso(row.createdAt)!,
+    businessName: row.businessName,
+    address: row.address,
+    placeId: row.placeId ?? undefined,
+    website: row.website ?? undefined,
+    phone: row.phone ?? undefined,
+    lat: row.lat ?? undefined,
+    lng: row.lng ?? undefined,
+    source: row.source as LeadSource,
+    pipelineStage: row.pipelineStage ?? undefined,
+    pipelineStageChangedAt: toIso(row.pipelineStageChangedAt),
+    notes: row.notes ?? undefined,
+    tags: row.tags ?? [],
+    updatedAt: toIso(row.updatedAt)!,
+  };
+}
+
+/**
+ * Map SavedLead updates to column values (undefined clears nullable columns).
+ */
+function toColumnUpdates(updates: Partial<SavedLead>): Partial<typeof savedLeads.$inferInsert> {
+  const columns: Partial<typeof savedLeads.$inferInsert> = {};
+  if ('pipelineStage' in updates) columns.pipelineStage = updates.pipelineStage ?? null;
+  if ('pipelineStageChangedAt' in updates) columns.pipelineStageChangedAt = toDate(updates.pipelineStageChangedAt);
+  if ('notes' in updates) columns.notes = updates.notes ?? null;
+  if ('tags' in updates) columns.tags = updates.tags ?? [];
+  if ('website' in updates) columns.website = updates.website ?? null;
+  if ('phone' in updates) columns.phone = updates.phone ?? null;
+  if (updates.updatedAt) columns.updatedAt = new Date(updates.updatedAt);
+  return columns;
+}
+
+/**
+ * Postgres implementation of SavedLeadStore.
+ */
+export class PostgresSavedLeadStore implements SavedLeadStore {
+  async insert(lead: SavedLead): Promise<SavedLead> {
+    const inserted = await db
+      .insert(savedLeads)
+      .values({
+        id: lead.id,
+        ownerUserId: lead.ownerUserId,
+        businessName: lead.businessName,
+        address: lead.address,
+        placeId: lead.placeId ?? null,
+        website: lead.website ?? null,
+        phone: lead.phone ?? null,
+        lat: lead.lat ?? null,
+        lng: lead.lng ?? null,
+        source: lead.source,
+        pipelineStage: lead.pipelineStage ?? null,
+        pipelineStageChangedAt: toDate(lead.pipelineStageChangedAt),
+        notes: lead.notes ?? null,
+        tags: lead.tags,
+        createdAt: new Date(lead.createdAt),
+        updatedAt: new Date(lead.updatedAt),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (inserted.length > 0) {
+      return rowToSavedLead(inserted[0]);
+    }
+
+    // Conflict on (owner_user_id, place_id)
+    if (lead.placeId) {
+      const [existing] = await db
+        .select({ id: savedLeads.id })
+        .from(savedLeads)
+        .where(and(eq(savedLeads.ownerUserId, lead.ownerUserId), eq(savedLeads.placeId, lead.placeId)))
+        .limit(1);
+      if (existing) {
+        throw new DuplicateSavedLeadError(lead.ownerUserId, lead.placeId, existing.id);
+      }
+    }
+
+    throw new Error(`Failed to insert saved lead ${lead.id}`);
+  }
+
+  async get(id: string): Promise<SavedLead | undefined> {
+    const [row] = await db.select().from(savedLeads).where(eq(savedLeads.id, id)).limit(1);
+    return row ? rowToSavedLead(row) : undefined;
+  }
+
+  async list(filter: ListSavedLeadsFilter): Promise<SavedLeadsPage> {
+    const conditions = [];
+    if (filter.ownerUserId) conditions.push(eq(savedLeads.ownerUserId, filter.ownerUserId));
+    if (filter.pipelineStage) conditions.push(eq(savedLeads.pipelineStage, filter.pipelineStage));
+    if (filter.tag) conditions.push(arrayContains(savedLeads.tags, [filter.tag]));
+    if (filter.source) conditions.push(eq(savedLeads.source, filter.source));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const { offset, limit } = resolveSavedLeadsWindow(filter);
+    const [rows, [{ total }]] = await Promise.all([
+      db
+        .select()
+        .from(savedLeads)
+        .where(where)
+        .orderBy(asc(savedLeads.createdAt), asc(savedLeads.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ total: count() }).from(savedLeads).where(where),
+    ]);
+
+    return buildSavedLeadsPage(rows.map(rowToSavedLead), Number(total), offset);
+  }
+
+  async update(id: string, updates: Partial<SavedLead>): Promise<SavedLead | undefined> {
+    const [row] = await db
+      .update(savedLeads)
+      .set(toColumnUpdates(updates))
+      .where(eq(savedLeads.id, id))
+      .returning();
+    return row ? rowToSavedLead(row) : undefined;
+  }
+
+  async delete(id: string): Promise<SavedLead | undefined> {
+    const [row] = await db.delete(savedLeads).where(eq(savedLeads.id, id)).returning();
+    return row ? rowToSavedLead(row) : undefined;
+  }
+
+  async count(): Promise<number> {
+    const [{ total }] = await db.select({ total: count() }).from(savedLeads);
+    return Number(total);
+  }
+
+  async clear(): Promise<void> {
+    await db.delete(savedLeads);
+  }
+}
@@ -49,7 +49,7 @@ async function runTests(): Promise<void> {
   setLeadEventBus(testBus);
 
   // Clear store before tests
-  clearSavedLeads();
+  await clearSavedLeads();
 
   // ============================================
   // Test 1: LeadSaved event is emitted when saveLead is called
@@ -76,7 +76,7 @@ async function runTests(): Promise<void> {
     ownerUserId: "user-123"
   };
 
-  const savedLead = saveLead(fullPayload);
+  const savedLead = await saveLead(fullPayload);
   
   // Wait for async event handling
   await waitForEvents();
@@ -127,7 +127,7 @@ async function runTests(): Promise<void> {
   // Clear events from previous tests
   receivedEvents.length = 0;
   
-  const lead2 = saveLead({
+  const lead2 = await saveLead({
     lead: {
       businessName: "Second Business",
       address: "456 Another Street",
@@ -136,7 +136,7 @@ async function runTests(): Promise<void> {
     ownerUserId: "user-456"
   });
   
-  const lead3 = saveLead({
+  const lead3 = await saveLead({
     lead: {
       businessName: "Third Business",
       address: "789 Third Avenue",
@@ -174,7 +174,7 @@ async function runTests(): Promise<void> {
     ownerUserId: "user-minimal"
   };
   
-  saveLead(minimalPayload);
+  await saveLead(minimalPayload);
   await waitForEvents();
   
   assert(receivedEvents.length === 1, 'Event emitted for minimal payload');
@@ -200,7 +200,7 @@ async function runTests(): Promise<void> {
     wildcardEvents.push(event);
   });
   
-  saveLead({
+  await saveLead({
     lead: {
       businessName: "Wildcard Test",
       address: "Wild Card Street",
@@ -228,7 +228,7 @@ async function runTests(): Promise<void> {
   subscription.unsubscribe();
   wildcardSub.unsubscribe();
   testBus.clear();
-  clearSavedLeads();
+  await clearSavedLeads();
   
   // Restore original event bus
   setLeadEventBus(originalBus);
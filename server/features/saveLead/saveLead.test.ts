@@ -34,8 +34,8 @@ async function runTests(): Promise<void> {
   console.log('\n=== Save Lead Tests ===\n');
 
   // Clear store before tests
-  clearSavedLeads();
-  assert(getSavedLeadsCount() === 0, 'Store is empty before tests');
+  await clearSavedLeads();
+  assert((await getSavedLeadsCount()) === 0, 'Store is empty before tests');
 
   // Test 1: Save a lead with all fields
   console.log('\n1. Testing saveLead with all fields...');
@@ -54,7 +54,7 @@ async function runTests(): Promise<void> {
     ownerUserId: "user-123"
   };
 
-  const saved1 = saveLead(fullPayload);
+  const saved1 = await saveLead(fullPayload);
   
   assert(typeof saved1.id === 'string', 'Saved lead has id as string');
   assert(saved1.id.startsWith('lead_'), 'Lead id has correct prefix');
@@ -82,7 +82,7 @@ async function runTests(): Promise<void> {
     ownerUserId: "user-456"
   };
 
-  const saved2 = saveLead(minimalPayload);
+  const saved2 = await saveLead(minimalPayload);
   
   assert(typeof saved2.id === 'string', 'Minimal lead has id');
   assert(saved2.ownerUserId === 'user-456', 'Minimal lead has correct ownerUserId');
@@ -94,13 +94,13 @@ async function runTests(): Promise<void> {
   // Test 3: Store count increases
   console.log('3. Testing store count...');
   
-  assert(getSavedLeadsCount() === 2, 'Store has 2 leads after saving 2');
+  assert((await getSavedLeadsCount()) === 2, 'Store has 2 leads after saving 2');
   console.log('   Store count test passed\n');
 
   // Test 4: listSavedLeads returns all leads
   console.log('4. Testing listSavedLeads (all)...');
   
-  const allLeads = listSavedLeads();
+  const allLeads = (await listSavedLeads()).items;
   assert(allLeads.length === 2, 'listSavedLeads returns all 2 leads');
   assert(allLeads[0].id === saved1.id, 'First lead matches');
   assert(allLeads[1].id === saved2.id, 'Second lead matches');
@@ -109,33 +109,33 @@ async function runTests(): Promise<void> {
   // Test 5: listSavedLeads filters by ownerUserId
   console.log('5. Testing listSavedLeads with filter...');
   
-  const user123Leads = listSavedLeads('user-123');
+  const user123Leads = (await listSavedLeads({ ownerUserId: 'user-123' })).items;
   assert(user123Leads.length === 1, 'Filter returns 1 lead for user-123');
   assert(user123Leads[0].ownerUserId === 'user-123', 'Filtered lead belongs to user-123');
   
-  const user456Leads = listSavedLeads('user-456');
+  const user456Leads = (await listSavedLeads({ ownerUserId: 'user-456' })).items;
   assert(user456Leads.length === 1, 'Filter returns 1 lead for user-456');
   assert(user456Leads[0].ownerUserId === 'user-456', 'Filtered lead belongs to user-456');
   
-  const noLeads = listSavedLeads('nonexistent-user');
+  const noLeads = (await listSavedLeads({ ownerUserId: 'nonexistent-user' })).items;
   assert(noLeads.length === 0, 'Filter returns 0 leads for nonexistent user');
   console.log('   Filter test passed\n');
 
   // Test 6: getSavedLeadById
   console.log('6. Testing getSavedLeadById...');
   
-  const foundLead = getSavedLeadById(saved1.id);
+  const foundLead = await getSavedLeadById(saved1.id);
   assert(foundLead !== undefined, 'Lead found by id');
   assert(foundLead?.businessName === 'Test Dental Clinic', 'Found lead has correct businessName');
   
-  const notFound = getSavedLeadById('nonexistent-id');
+  const notFound = await getSavedLeadById('nonexistent-id');
   assert(notFound === undefined, 'Returns undefined for nonexistent id');
   console.log('   Get by id test passed\n');
 
   // Test 7: Different source types
   console.log('7. Testing different source types...');
   
-  const databaseLead = saveLead({
+  const databaseLead = await saveLead({
     lead: {
       businessName: "Database Lead",
       address: "789 Database Ave",
@@ -145,7 +145,7 @@ async function runTests(): Promise<void> {
   });
   assert(databaseLead.source === 'database', 'database source is correct');
   
-  const manualLead = saveLead({
+  const manualLead = await saveLead({
     lead: {
       businessName: "Manual Lead",
       address: "101 Manual Road",
@@ -167,12 +167,12 @@ async function runTests(): Promise<void> {
   // Test 9: clearSavedLeads works
   console.log('9. Testing clearSavedLeads...');
   
-  const countBefore = getSavedLeadsCount();
+  const countBefore = await getSavedLeadsCount();
   assert(countBefore > 0, 'Store has leads before clear');
   
-  clearSavedLeads();
-  assert(getSavedLeadsCount() === 0, 'Store is empty after clear');
-  assert(listSavedLeads().length === 0, 'listSavedLeads returns empty after clear');
+  await clearSavedLeads();
+  assert((await getSavedLeadsCount()) === 0, 'Store is empty after clear');
+  assert((await listSavedLeads()).items.length === 0, 'listSavedLeads returns empty after clear');
   console.log('   Clear test passed\n');
 
   console.log('=== All Save Lead Tests Passed! ===\n');
@@ -0,0 +1,175 @@
+/**
+ * Save Lead Update/Delete Tests
+ *
+ * Tests for duplicate protection, updates (pipeline stage, notes, tags),
+ * deletes, filtering/pagination and the LeadUpdated/LeadDeleted events.
+ * Run with: npx tsx server/features/saveLead/saveLead.update.test.ts
+ */
+
+import {
+  saveLead,
+  updateSavedLead,
+  deleteSavedLead,
+  getSavedLeadById,
+  listSavedLeads,
+  clearSavedLeads,
+  setLeadEventBus,
+  getLeadEventBus,
+  DuplicateSavedLeadError,
+  type LeadUpdatedEvent,
+  type LeadDeletedEvent,
+} from './index';
+import { createEventBus } from '../../core/event-bus';
+import type { BaseSupervisorEvent } from '../../core/types';
+
+/**
+ * Simple assertion helper
+ */
+function assert(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${message}`);
+  }
+  console.log(`✓ ${message}`);
+}
+
+/**
+ * Wait for async event handling to complete
+ */
+function waitForEvents(ms: number = 50): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Run update/delete tests
+ */
+async function runTests(): Promise<void> {
+  console.log('\n=== Save Lead Update/Delete Tests ===\n');
+
+  const testBus = createEventBus();
+  const originalBus = getLeadEventBus();
+  setLeadEventBus(testBus);
+  await clearSavedLeads();
+
+  const events: BaseSupervisorEvent[] = [];
+  const subscription = testBus.subscribe('lead.*', async (event) => {
+    events.push(event);
+  });
+
+  // Test 1: The same place cannot be saved twice by one owner
+  console.log('1. Testing duplicate placeId protection...');
+
+  const original = await saveLead({
+    lead: { businessName: "The Hop Inn", address: "12 Trafalgar Street, Brighton", placeId: "ChIJhop", source: "google", tags: ["micropub", " micropub ", ""] },
+    ownerUserId: "user-a"
+  });
+  assert(original.tags.length === 1 && original.tags[0] === 'micropub', 'Tags trimmed and deduped on save');
+
+  let duplicateError: unknown;
+  try {
+    await saveLead({
+      lead: { businessName: "The Hop Inn", address: "12 Trafalgar Street, Brighton", placeId: "ChIJhop", source: "google" },
+      ownerUserId: "user-a"
+    });
+  } catch (error) {
+    duplicateError = error;
+  }
+  assert(duplicateError instanceof DuplicateSavedLeadError, 'Second save of the same placeId rejected');
+  assert((duplicateError as DuplicateSavedLeadError).existingLeadId === original.id, 'Error carries the existing lead ID');
+
+  const otherOwner = await saveLead({
+    lead: { businessName: "The Hop Inn", address: "12 Trafalgar Street, Brighton", placeId: "ChIJhop", source: "google" },
+    ownerUserId: "user-b"
+  });
+  assert(otherOwner.id !== original.id, 'Another owner can save the same place');
+  console.log('   Duplicate protection test passed\n');
+
+  // Test 2: Updating stage, notes and tags
+  console.log('2. Testing updateSavedLead...');
+
+  events.length = 0;
+  const updated = await updateSavedLead(original.id, {
+    pipelineStage: 'qualified',
+    notes: 'Owner keen on local cask',
+    tags: ['micropub', 'cask'],
+  });
+  assert(updated?.pipelineStage === 'qualified', 'Pipeline stage updated');
+  assert(updated?.notes === 'Owner keen on local cask', 'Notes updated');
+  assert(updated?.tags.join(',') === 'micropub,cask', 'Tags replaced');
+  assert(typeof updated?.pipelineStageChangedAt === 'string', 'Stage change timestamp recorded');
+  assert((await getSavedLeadById(original.id))?.pipelineStage === 'qualified', 'Update persisted to the store');
+
+  await waitForEvents();
+  assert(events.length === 1 && events[0].type === 'lead.updated', 'LeadUpdated event emitted');
+  const updatedEvent = events[0] as LeadUpdatedEvent;
+  assert(updatedEvent.payload.leadId === original.id, 'LeadUpdated payload has leadId');
+  assert(updatedEvent.payload.changes.pipelineStage === 'qualified', 'LeadUpdated payload lists the stage change');
+  assert(updatedEvent.payload.previousPipelineStage === undefined, 'Previous stage reported');
+
+  events.length = 0;
+  const unchanged = await updateSavedLead(original.id, { pipelineStage: 'qualified' });
+  await waitForEvents();
+  assert(unchanged?.pipelineStage === 'qualified' && events.length === 0, 'No-op update emits no event');
+
+  const cleared = await updateSavedLead(original.id, { notes: null });
+  assert(cleared?.notes === undefined, 'Null clears notes');
+  assert(await updateSavedLead('missing', { notes: 'x' }) === undefined, 'Updating a missing lead returns undefined');
+  console.log('   Update test passed\n');
+
+  // Test 3: Filtering and pagination
+  console.log('3. Testing filtering and pagination...');
+
+  for (let i = 0; i < 4; i++) {
+    await saveLead({
+      lead: { businessName: `Bar ${i}`, address: `${i} High Street`, source: "manual", tags: i % 2 === 0 ? ['even'] : [] },
+      ownerUserId: "user-a"
+    });
+  }
+
+  const byOwner = await listSavedLeads({ ownerUserId: 'user-a' });
+  assert(byOwner.total === 5 && byOwner.items.length === 5, 'Owner filter returns all owner leads');
+  assert((await listSavedLeads({ pipelineStage: 'qualified' })).items.length === 1, 'Pipeline stage filter');
+  assert((await listSavedLeads({ tag: 'even' })).total === 2, 'Tag filter');
+  assert((await listSavedLeads({ source: 'google' })).total === 2, 'Source filter');
+
+  const page1 = await listSavedLeads({ ownerUserId: 'user-a', limit: 2 });
+  assert(page1.items.length === 2 && page1.hasMore && page1.nextCursor === '2', 'First page has a next cursor');
+  const page2 = await listSavedLeads({ ownerUserId: 'user-a', limit: 2, cursor: page1.nextCursor });
+  assert(page2.items[0].id !== page1.items[0].id && page2.hasMore, 'Cursor fetches the next page');
+  const page3 = await listSavedLeads({ ownerUserId: 'user-a', limit: 2, offset: 4 });
+  assert(page3.items.length === 1 && !page3.hasMore && page3.nextCursor === undefined, 'Last page has no cursor');
+  console.log('   Filtering and pagination test passed\n');
+
+  // Test 4: Delete
+  console.log('4. Testing deleteSavedLead...');
+
+  events.length = 0;
+  const deleted = await deleteSavedLead(original.id);
+  assert(deleted?.id === original.id, 'Deleted lead returned');
+  assert(await getSavedLeadById(original.id) === undefined, 'Lead removed from the store');
+  assert(await deleteSavedLead(original.id) === undefined, 'Deleting again returns undefined');
+
+  await waitForEvents();
+  assert(events.length === 1 && events[0].type === 'lead.deleted', 'LeadDeleted event emitted once');
+  assert((events[0] as LeadDeletedEvent).payload.placeId === 'ChIJhop', 'LeadDeleted payload has placeId');
+
+  const resaved = await saveLead({
+    lead: { businessName: "The Hop Inn", address: "12 Trafalgar Street, Brighton", placeId: "ChIJhop", source: "google" },
+    ownerUserId: "user-a"
+  });
+  assert(resaved.id !== original.id, 'Place can be saved again after delete');
+  console.log('   Delete test passed\n');
+
+  // Cleanup
+  subscription.unsubscribe();
+  testBus.clear();
+  await clearSavedLeads();
+  setLeadEventBus(originalBus);
+
+  console.log('=== All Save Lead Update/Delete Tests Passed! ===\n');
+}
+
+// Run tests
+runTests().catch(error => {
+  console.error('\n❌ Test failed:', error.message);
+  process.exit(1);
+});
@@ -1,14 +1,27 @@
 /**
- * Save Lead In-Memory Store
- * 
- * Simple in-memory storage for saved leads.
- * Easy to swap to a real DB later.
+ * Save Lead Store
+ *
+ * Saved leads live behind a SavedLeadStore: the server installs the
+ * Postgres-backed store at startup (usePostgresSavedLeadStore), tests and
+ * tooling use the in-memory store that is active by default.
  * SUP-7: Save Lead Endpoint
  * SUP-8: Lead Saved Events
  */
 
-import type { IncomingLeadPayload, SavedLead, LeadSavedEvent } from './types';
+import type {
+  IncomingLeadPayload,
+  SavedLead,
+  SavedLeadStore,
+  SavedLeadsPage,
+  ListSavedLeadsFilter,
+  UpdateSavedLeadInput,
+  LeadSavedEvent,
+  LeadUpdatedEvent,
+  LeadDeletedEvent,
+} from './types';
+import { DuplicateSavedLeadError } from './types';
 import { createEventBus, type SupervisorEventBus } from '../../core/event-bus';
+import type { BaseSupervisorEvent } from '../../core/types';
 
 /**
  * Generate a unique ID for leads
@@ -24,10 +37,136 @@ function generateEventId(): string {
   return `evt_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
 }
 
+// ============================================
+// PAGINATION
+// ============================================
+
+/** Page size used when no limit is given */
+export const DEFAULT_SAVED_LEADS_LIMIT = 50;
+
+/** Largest page size accepted */
+export const MAX_SAVED_LEADS_LIMIT = 200;
+
+/**
+ * Resolve offset/limit from a filter. An explicit offset wins over the cursor
+ * (the cursor is the offset of the next page, as returned in nextCursor).
+ */
+export function resolveSavedLeadsWindow(filter: ListSavedLeadsFilter): { offset: number; limit: number } {
+  const limit = Math.max(1, Math.min(Math.floor(filter.limit ?? DEFAULT_SAVED_LEADS_LIMIT), MAX_SAVED_LEADS_LIMIT));
+  const rawOffset = filter.offset ?? (filter.cursor ? parseInt(filter.cursor, 10) : 0);
+  const offset = Number.isFinite(rawOffset) ? Math.max(0, Math.floor(rawOffset)) : 0;
+  return { offset, limit };
+}
+
+/**
+ * Build a page from the matching items of a window.
+ */
+export function buildSavedLeadsPage(items: SavedLead[], total: number, offset: number): SavedLeadsPage {
+  const hasMore = offset + items.length < total;
+  return {
+    items,
+    total,
+    hasMore,
+    nextCursor: hasMore ? String(offset + items.length) : undefined,
+  };
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+function copyLead(lead: SavedLead): SavedLead {
+  return { ...lead, tags: [...lead.tags] };
+}
+
+/**
+ * In-memory SavedLeadStore (default; used by tests).
+ */
+export class InMemorySavedLeadStore implements SavedLeadStore {
+  private leads: SavedLead[] = [];
+
+  async insert(lead: SavedLead): Promise<SavedLead> {
+    if (lead.placeId) {
+      const existing = this.leads.find(l => l.ownerUserId === lead.ownerUserId && l.placeId === lead.placeId);
+      if (existing) {
+        throw new DuplicateSavedLeadError(lead.ownerUserId, lead.placeId, existing.id);
+      }
+    }
+    this.leads.push(copyLead(lead));
+    return copyLead(lead);
+  }
+
+  async get(id: string): Promise<SavedLead | undefined> {
+    const lead = this.leads.find(l => l.id === id);
+    return lead ? copyLead(lead) : undefined;
+  }
+
+  async list(filter: ListSavedLeadsFilter): Promise<SavedLeadsPage> {
+    const matching = this.leads.filter(lead =>
+      (!filter.ownerUserId || lead.ownerUserId === filter.ownerUserId) &&
+      (!filter.pipelineStage || lead.pipelineStage === filter.pipelineStage) &&
+      (!filter.tag || lead.tags.includes(filter.tag)) &&
+      (!filter.source || lead.source === filter.source)
+    );
+    const { offset, limit } = resolveSavedLeadsWindow(filter);
+    return buildSavedLeadsPage(matching.slice(offset, offset + limit).map(copyLead), matching.length, offset);
+  }
+
+  async update(id: string, updates: Partial<SavedLead>): Promise<SavedLead | undefined> {
+    const index = this.leads.findIndex(l => l.id === id);
+    if (index === -1) return undefined;
+    this.leads[index] = { ...this.leads[index], ...updates, id };
+    return copyLead(this.leads[index]);
+  }
+
+  async delete(id: string): Promise<SavedLead | undefined> {
+    const index = this.leads.findIndex(l => l.id === id);
+    if (index === -1) return undefined;
+    const [deleted] = this.leads.splice(index, 1);
+    return deleted;
+  }
+
+  async count(): Promise<number> {
+    return this.leads.length;
+  }
+
+  async clear(): Promise<void> {
+    this.leads = [];
+  }
+}
+
+// ============================================
+// STORE AND EVENT BUS
+// ============================================
+
 /**
- * In-memory store for saved leads
+ * Active saved lead store
  */
-const savedLeads: SavedLead[] = [];
+let store: SavedLeadStore = new InMemorySavedLeadStore();
+
+/**
+ * Get the active saved lead store
+ */
+export function getSavedLeadStore(): SavedLeadStore {
+  return store;
+}
+
+/**
+ * Set the saved lead store (useful for testing)
+ */
+export function setSavedLeadStore(newStore: SavedLeadStore): void {
+  store = newStore;
+}
+
+/**
+ * Install the Postgres-backed store (requires migrations/011_saved_leads.sql).
+ * Loaded lazily because importing it opens the database connection.
+ */
+export async function usePostgresSavedLeadStore(): Promise<void> {
+  const { PostgresSavedLeadStore } = await import('./postgres-store');
+  store = new PostgresSavedLeadStore();
+  console.log('[SUP-7] Saved leads persisted to Postgres (saved_leads)');
+}
 
 /**
  * Shared event bus for lead events (SUP-8)
@@ -49,25 +188,45 @@ export function setLeadEventBus(bus: SupervisorEventBus): void {
   eventBus = bus;
 }
 
+// ============================================
+// OPERATIONS
+// ============================================
+
+/**
+ * Normalise tags: trimmed, non-empty, unique, in the given order.
+ */
+function normaliseTags(tags: string[] | undefined): string[] {
+  const result: string[] = [];
+  (tags ?? []).forEach(tag => {
+    const trimmed = tag.trim();
+    if (trimmed && !result.includes(trimmed)) {
+      result.push(trimmed);
+    }
+  });
+  return result;
+}
+
 /**
- * Save a lead to the in-memory store.
- * 
+ * Save a lead.
+ *
  * @param input - The incoming lead payload
  * @returns The saved lead with id, ownerUserId, and createdAt
+ * @throws DuplicateSavedLeadError if the owner already saved this placeId
  */
-export function saveLead(input: IncomingLeadPayload): SavedLead {
+export async function saveLead(input: IncomingLeadPayload): Promise<SavedLead> {
   const { lead, ownerUserId } = input;
-  
-  console.log("[SUP-7] saveLead called", { 
-    ownerUserId, 
-    source: lead.source, 
-    businessName: lead.businessName 
+
+  console.log("[SUP-7] saveLead called", {
+    ownerUserId,
+    source: lead.source,
+    businessName: lead.businessName
   });
-  
-  const savedLead: SavedLead = {
+
+  const now = new Date().toISOString();
+  const savedLead = await store.insert({
     id: generateId(),
     ownerUserId,
-    createdAt: new Date().toISOString(),
+    createdAt: now,
     businessName: lead.businessName,
     address: lead.address,
     placeId: lead.placeId,
@@ -75,23 +234,116 @@ export function saveLead(input: IncomingLeadPayload): SavedLead {
     phone: lead.phone,
     lat: lead.lat,
     lng: lead.lng,
-    source: lead.source
-  };
-  
-  savedLeads.push(savedLead);
-  
+    source: lead.source,
+    pipelineStage: lead.pipelineStage,
+    pipelineStageChangedAt: lead.pipelineStage ? now : undefined,
+    notes: lead.notes,
+    tags: normaliseTags(lead.tags),
+    updatedAt: now,
+  });
+
   console.log(`[SUP-7] Lead saved with id: ${savedLead.id}`);
-  
+
   // SUP-8: Emit LeadSaved event
   emitLeadSavedEvent(savedLead);
-  
+
   return savedLead;
 }
 
+/**
+ * Update a saved lead's pipeline stage, notes or tags.
+ *
+ * @param id - Saved lead ID
+ * @param input - Fields to change (null clears pipelineStage/notes)
+ * @returns The updated lead, or undefined if not found
+ */
+export async function updateSavedLead(id: string, input: UpdateSavedLeadInput): Promise<SavedLead | undefined> {
+  const existing = await store.get(id);
+  if (!existing) {
+    return undefined;
+  }
+
+  const now = new Date().toISOString();
+  const updates: Partial<SavedLead> = {};
+  const changes: UpdateSavedLeadInput = {};
+
+  if (input.pipelineStage !== undefined && (input.pipelineStage ?? undefined) !== existing.pipelineStage) {
+    updates.pipelineStage = input.pipelineStage ?? undefined;
+    updates.pipelineStageChangedAt = now;
+    changes.pipelineStage = input.pipelineStage;
+  }
+  if (input.notes !== undefined && (input.notes ?? undefined) !== existing.notes) {
+    updates.notes = input.notes ?? undefined;
+    changes.notes = input.notes;
+  }
+  if (input.tags !== undefined) {
+    const tags = normaliseTags(input.tags);
+    if (tags.join('\n') !== existing.tags.join('\n')) {
+      updates.tags = tags;
+      changes.tags = tags;
+    }
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return existing;
+  }
+
+  updates.updatedAt = now;
+  const updated = await store.update(id, updates);
+  if (!updated) {
+    return undefined;
+  }
+
+  emitLeadEvent<LeadUpdatedEvent>({
+    id: generateEventId(),
+    type: 'lead.updated',
+    timestamp: now,
+    source: 'lead-store',
+    payload: {
+      leadId: updated.id,
+      ownerUserId: updated.ownerUserId,
+      changes,
+      previousPipelineStage: 'pipelineStage' in changes ? existing.pipelineStage : undefined,
+      updatedAt: now,
+    },
+  });
+
+  return updated;
+}
+
+/**
+ * Delete a saved lead.
+ *
+ * @param id - Saved lead ID
+ * @returns The deleted lead, or undefined if not found
+ */
+export async function deleteSavedLead(id: string): Promise<SavedLead | undefined> {
+  const deleted = await store.delete(id);
+  if (!deleted) {
+    return undefined;
+  }
+
+  const now = new Date().toISOString();
+  emitLeadEvent<LeadDeletedEvent>({
+    id: generateEventId(),
+    type: 'lead.deleted',
+    timestamp: now,
+    source: 'lead-store',
+    payload: {
+      leadId: deleted.id,
+      ownerUserId: deleted.ownerUserId,
+      placeId: deleted.placeId,
+      deletedAt: now,
+    },
+  });
+
+  return deleted;
+}
+
 /**
  * Emit a LeadSaved event after a lead is successfully saved.
  * SUP-8: Lead Saved Events
- * 
+ *
  * @param savedLead - The lead that was saved
  */
 function emitLeadSavedEvent(savedLead: SavedLead): void {
@@ -111,7 +363,9 @@ function emitLeadSavedEvent(savedLead: SavedLead): void {
       lat: savedLead.lat,
       lng: savedLead.lng,
       source: savedLead.source,
-      createdAt: savedLead.createdAt
+      createdAt: savedLead.createdAt,
+      pipelineStage: savedLead.pipelineStage,
+      tags: savedLead.tags,
     }
   };
 
@@ -122,43 +376,46 @@ function emitLeadSavedEvent(savedLead: SavedLead): void {
     businessName: savedLead.businessName,
   });
 
-  // Fire-and-forget: don't await, don't block the save operation
+  emitLeadEvent(event);
+}
+
+/**
+ * Publish a lead event.
+ * Fire-and-forget: don't await, don't block the store operation.
+ */
+function emitLeadEvent<T extends BaseSupervisorEvent>(event: T): void {
   eventBus.publish(event).catch((error) => {
-    console.error("[SUP-8] Failed to emit LeadSaved event:", error);
+    console.error(`[SUP-8] Failed to emit ${event.type} event:`, error);
   });
 }
 
 /**
- * List saved leads, optionally filtered by owner.
- * 
- * @param ownerUserId - Optional user ID to filter by
- * @returns Array of saved leads
+ * List saved leads with optional filters and pagination.
+ *
+ * @param filter - Owner, stage, tag and source filters plus offset/limit/cursor
+ * @returns A page of saved leads, oldest first
  */
-export function listSavedLeads(ownerUserId?: string): SavedLead[] {
-  if (ownerUserId) {
-    return savedLeads.filter(lead => lead.ownerUserId === ownerUserId);
-  }
-  return [...savedLeads];
+export async function listSavedLeads(filter: ListSavedLeadsFilter = {}): Promise<SavedLeadsPage> {
+  return store.list(filter);
 }
 
 /**
  * Get the current count of saved leads (useful for testing)
  */
-export function getSavedLeadsCount(): number {
-  return savedLeads.length;
+export async function getSavedLeadsCount(): Promise<number> {
+  return store.count();
 }
 
 /**
  * Clear all saved leads (useful for testing)
  */
-export function clearSavedLeads(): void {
-  savedLeads.length = 0;
+export async function clearSavedLeads(): Promise<void> {
+  await store.clear();
 }
 
 /**
  * Get a saved lead by ID
  */
-export function getSavedLeadById(id: string): SavedLead | undefined {
-  return savedLeads.find(lead => lead.id === id);
+export async function getSavedLeadById(id: string): Promise<SavedLead | undefined> {
+  return store.get(id);
 }
-
@@ -4,9 +4,12 @@
  * Type definitions for the saveLead feature.
  * SUP-7: Save Lead Endpoint
  * SUP-8: Lead Saved Events
+ * 
+ * Saved leads are persisted in the saved_leads table
+ * (migrations/011_saved_leads.sql); a place can be saved once per owner.
  */
 
-import type { BaseSupervisorEvent } from '../../core/types';
+import type { BaseSupervisorEvent, PaginatedResponse, PaginationParams } from '../../core/types';
 
 /**
  * Source of the lead data
@@ -26,6 +29,9 @@ export interface IncomingLeadPayload {
     lat?: number;
     lng?: number;
     source: LeadSource;
+    pipelineStage?: string;
+    notes?: string;
+    tags?: string[];
   };
   ownerUserId: string;
 }
@@ -45,6 +51,57 @@ export interface SavedLead {
   lat?: number;
   lng?: number;
   source: LeadSource;
+  /** Pipeline stage ID from the account's vertical pack (e.g. 'qualified') */
+  pipelineStage?: string;
+  /** ISO timestamp of the last pipeline stage change */
+  pipelineStageChangedAt?: string;
+  /** Free-text notes */
+  notes?: string;
+  /** User-defined tags */
+  tags: string[];
+  /** ISO timestamp of the last update */
+  updatedAt: string;
+}
+
+/**
+ * Fields that can be changed on a saved lead.
+ * Pass null to clear pipelineStage or notes.
+ */
+export interface UpdateSavedLeadInput {
+  pipelineStage?: string | null;
+  notes?: string | null;
+  tags?: string[];
+}
+
+/**
+ * Filter and pagination for listing saved leads.
+ * cursor is the opaque nextCursor from a previous page.
+ */
+export interface ListSavedLeadsFilter extends PaginationParams {
+  ownerUserId?: string;
+  pipelineStage?: string;
+  /** Only leads carrying this tag */
+  tag?: string;
+  source?: LeadSource;
+}
+
+/**
+ * A page of saved leads
+ */
+export type SavedLeadsPage = PaginatedResponse<SavedLead>;
+
+/**
+ * Error thrown when an owner saves the same place twice.
+ */
+export class DuplicateSavedLeadError extends Error {
+  constructor(
+    public readonly ownerUserId: string,
+    public readonly placeId: string,
+    public readonly existingLeadId: string
+  ) {
+    super(`Lead with placeId ${placeId} already saved by ${ownerUserId} (${existingLeadId})`);
+    this.name = 'DuplicateSavedLeadError';
+  }
 }
 
 /**
@@ -62,6 +119,17 @@ export interface SaveLeadResponse {
 export interface ListLeadsResponse {
   status: "ok";
   leads: SavedLead[];
+  total?: number;
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
+/**
+ * Response from the get/update/delete saved lead endpoints
+ */
+export interface SavedLeadResponse {
+  status: "ok";
+  savedLead: SavedLead;
 }
 
 /**
@@ -91,14 +159,85 @@ export interface LeadSavedPayload {
   source: LeadSource;
   /** ISO timestamp when the lead was created */
   createdAt: string;
+  /** Initial pipeline stage (optional) */
+  pipelineStage?: string;
+  /** Initial tags */
+  tags?: string[];
 }
 
 /**
  * LeadSaved event type
- * SUP-8: Published when a lead is successfully saved to the in-memory store
+ * SUP-8: Published when a lead is successfully saved
  */
 export interface LeadSavedEvent extends BaseSupervisorEvent {
   type: 'lead.saved';
   payload: LeadSavedPayload;
 }
 
+/**
+ * LeadUpdated event payload
+ * Emitted when a saved lead's pipeline stage, notes or tags change
+ */
+export interface LeadUpdatedPayload {
+  /** Unique ID of the saved lead */
+  leadId: string;
+  /** User ID who owns this lead */
+  ownerUserId: string;
+  /** The fields that were changed, with their new values */
+  changes: UpdateSavedLeadInput;
+  /** Pipeline stage before the update (when the stage changed) */
+  previousPipelineStage?: string;
+  /** ISO timestamp of the update */
+  updatedAt: string;
+}
+
+/**
+ * LeadUpdated event type
+ */
+export interface LeadUpdatedEvent extends BaseSupervisorEvent {
+  type: 'lead.updated';
+  payload: LeadUpdatedPayload;
+}
+
+/**
+ * LeadDeleted event payload
+ */
+export interface LeadDeletedPayload {
+  /** Unique ID of the deleted lead */
+  leadId: string;
+  /** User ID who owned this lead */
+  ownerUserId: string;
+  /** Google Place ID (optional) */
+  placeId?: string;
+  /** ISO timestamp of the deletion */
+  deletedAt: string;
+}
+
+/**
+ * LeadDeleted event type
+ */
+export interface LeadDeletedEvent extends BaseSupervisorEvent {
+  type: 'lead.deleted';
+  payload: LeadDeletedPayload;
+}
+
+/**
+ * Persistence for saved leads (in-memory for tests, Postgres in the server).
+ */
+export interface SavedLeadStore {
+  /**
+   * Insert a new lead.
+   * @throws DuplicateSavedLeadError if the owner already saved lead.placeId
+   */
+  insert(lead: SavedLead): Promise<SavedLead>;
+  get(id: string): Promise<SavedLead | undefined>;
+  /** List leads matching the filter, oldest first */
+  list(filter: ListSavedLeadsFilter): Promise<SavedLeadsPage>;
+  /** Apply updates; returns the updated lead, or undefined if not found */
+  update(id: string, updates: Partial<SavedLead>): Promise<SavedLead | undefined>;
+  /** Delete a lead; returns the deleted lead, or undefined if not found */
+  delete(id: string): Promise<SavedLead | undefined>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+}
+
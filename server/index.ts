@@ -6,9 +6,19 @@ import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { supervisor } from "./supervisor";
-import { startSubconScheduler } from "./subcon";
+import { startSubconScheduler, subscribeStaleLeadsToStageChanges } from "./subcon";
 import { startDailyAgentCron } from "./cron/daily-agent";
 import { startDeepResearchScheduler } from "./supervisor/schedulers/deep-research-scheduler";
+import { startDurableEventBus } from "./services/durable-events";
+import { startJobWorker } from "./supervisor/jobs";
+import { startDurableScheduler } from "./services/durable-scheduler";
+import { loadVerticalPacks } from "./core/verticals";
+import { getLeadEventBus, usePostgresSavedLeadStore } from "./features/saveLead";
+import { usePostgresCrmSyncStateStore } from "./features/crmSync";
+import { usePostgresFetchCache } from "./supervisor/fetch-cache";
+import { usePostgresCostLedger } from "./supervisor/cost-ledger";
+import { usePostgresRateLimits } from "./supervisor/rate-limits";
+import { usePostgresEntityIndex } from "./supervisor/entity-index";
 import crypto from "crypto";
 import { assertTowerConfig } from "./supervisor/tower-artefact-judge";
 
@@ -158,6 +168,27 @@ app.use((req, res, next) => {
 
   assertTowerConfig();
 
+  // Register data-declared vertical packs before anything resolves account verticals
+  loadVerticalPacks();
+
+  // Persist saved leads in saved_leads (migrations/011_saved_leads.sql)
+  await usePostgresSavedLeadStore();
+
+  // Persist CRM push state in crm_sync_state (migrations/013_crm_sync_state.sql)
+  await usePostgresCrmSyncStateStore();
+
+  // Share the Places/Brave/web-visit cache across restarts in fetch_cache (migrations/014_fetch_cache.sql)
+  await usePostgresFetchCache();
+
+  // Record LLM and paid-API spend in cost_records (migrations/015_cost_records.sql)
+  await usePostgresCostLedger();
+
+  // Share rate limits and circuit breakers across instances in rate_limit_buckets / circuit_breakers (migrations/016_rate_limits.sql)
+  await usePostgresRateLimits();
+
+  // Record first/last sightings of every place_id and domain in entity_index (migrations/018_entity_index.sql)
+  await usePostgresEntityIndex();
+
   console.log(`[ENV_CHECK] OPENAI_API_KEY=${!!process.env.OPENAI_API_KEY} ANTHROPIC_API_KEY=${!!process.env.ANTHROPIC_API_KEY} PERPLEXITY_API_KEY=${!!process.env.PERPLEXITY_API_KEY}`);
 
   const server = await registerRoutes(app);
@@ -221,6 +252,18 @@ app.use((req, res, next) => {
       );
     }).catch(() => {});
 
+    // Persist feature.completed / lead.* events (disabled by default)
+    // Enable with DURABLE_EVENT_BUS_ENABLED=true
+    // stale_leads listens for lead.stage_changed on whichever lead bus ends up installed
+    startDurableEventBus()
+      .then(() => subscribeStaleLeadsToStageChanges(getLeadEventBus()))
+      .catch((err) =>
+        console.error(`[DURABLE_EVENTS] Failed to start durable event bus: ${err.message}`)
+      );
+
+    // Start the persistent job queue worker (supervisor_jobs)
+    startJobWorker();
+
     // Start the supervisor service
     supervisor.start().catch(error => {
       console.error('Failed to start supervisor:', error);
@@ -234,6 +277,12 @@ app.use((req, res, next) => {
     // Runs at 9am daily - disable with DAILY_AGENT_ENABLED=false
     startDailyAgentCron();
 
+    // Run subcon and sleep-wake ticks as persisted recurring tasks (disabled by default)
+    // Enable with DURABLE_SCHEDULER_ENABLED=true
+    startDurableScheduler().catch((err) =>
+      console.error(`[DURABLE_SCHEDULER] Failed to start durable scheduler: ${err.message}`)
+    );
+
     // Start the deep research poller scheduler (Session 2)
     // Disabled by default - enable with ENABLE_DEEP_RESEARCH_POLLER=true
     startDeepResearchScheduler();
@@ -241,6 +290,8 @@ app.use((req, res, next) => {
     console.log(`[SLEEP_WAKE] Wake scheduler: ${process.env.SLEEP_WAKE_ENABLED === 'true' ? 'ENABLED' : 'disabled'}`);
     if (process.env.SLEEP_WAKE_ENABLED === 'true') {
       console.log(`   Max daily wakes: ${process.env.SLEEP_WAKE_MAX_DAILY || '5'}`);
+      console.log(`   Max daily wakes per user: ${process.env.SLEEP_WAKE_MAX_DAILY_PER_USER || process.env.SLEEP_WAKE_MAX_DAILY || '5'}`);
+      console.log(`   Wake lease: ${process.env.SLEEP_WAKE_LEASE_MS || '900000'}ms, max attempts: ${process.env.SLEEP_WAKE_MAX_ATTEMPTS || '3'}`);
     }
 
     console.log(`[EVIDENCE_MODE] Evidence gathering: ${process.env.EVIDENCE_MODE || 'gpt4o_primary'}`);
@@ -28,10 +28,42 @@ import type { FeatureType } from "./features/types";
 import { 
   saveLead as saveLeadToStore, 
   listSavedLeads,
+  getSavedLeadById,
+  updateSavedLead,
+  deleteSavedLead,
+  DuplicateSavedLeadError,
   type IncomingLeadPayload,
   type SaveLeadResponse,
-  type ListLeadsResponse
+  type ListLeadsResponse,
+  type SavedLeadResponse,
+  type LeadSource,
+  type UpdateSavedLeadInput
 } from "./features/saveLead";
+import {
+  transitionLeadStage,
+  getLeadStageHistory,
+  getLeadPipelineBoard,
+  InvalidStageTransitionError,
+  LeadNotFoundError,
+  ConcurrentStageChangeError
+} from "./features/leadPipeline";
+import {
+  exportLeads,
+  fromSuggestedLead,
+  getCrmSyncStateStore,
+  type CrmExportFormat,
+  type CrmProvider
+} from "./features/crmSync";
+import {
+  getFetchCacheStats,
+  listFetchCacheEntries,
+  purgeFetchCache,
+  isFetchCacheSource
+} from "./supervisor/fetch-cache";
+import { getCostReport, isCostGroupBy, type CostProvider } from "./supervisor/cost-ledger";
+import { checkBudget } from "./supervisor/budgets";
+import { exportResearchReport, isResearchExportFormat, ResearchExportUnavailableError, RESEARCH_EXPORT_FORMATS } from "./supervisor/research-export";
+import { getRateLimitStatus } from "./supervisor/rate-limits";
 import { planExecutionRouter } from "./supervisor/plan-execution";
 import { jobsRouter } from "./supervisor/jobs-router";
 import { handleExplainRun } from "./supervisor/explain-run";
@@ -78,6 +110,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   console.log(`[ROUTES] Supervisor execution enabled: true (unconditional)`);
   console.log(`[ROUTES] Registered: POST /api/supervisor/execute-plan`);
   console.log(`[ROUTES] Registered: POST /api/supervisor/jobs/start`);
+  console.log(`[ROUTES] Registered: GET /api/supervisor/jobs`);
   console.log(`[ROUTES] Registered: GET /api/supervisor/jobs/:jobId`);
   console.log(`[ROUTES] Registered: POST /api/supervisor/jobs/:jobId/cancel`);
 
@@ -711,6 +744,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     });
     
+    // Debug endpoint - per-provider/model LLM health scoreboard used to order the failover chain
+    app.get("/api/debug/llm-health", async (_req, res) => {
+      const { getLLMHealthScoreboard } = await import('./supervisor/llm-health');
+      const { getLLMJsonStats } = await import('./supervisor/llm-json');
+      res.json({ scoreboard: getLLMHealthScoreboard(), json_repairs: getLLMJsonStats() });
+    });
+
+    // Debug endpoint - rule router decisions and agreement with the LLM router, per confidence band
+    app.get("/api/debug/rule-router", async (_req, res) => {
+      const { getRuleRouterStats } = await import('./supervisor/rule-router');
+      res.json(getRuleRouterStats());
+    });
+
+    // Debug endpoint - first-seen entity index size and coverage start
+    app.get("/api/debug/entity-index", async (_req, res) => {
+      try {
+        const { getEntityIndexStats } = await import('./supervisor/entity-index');
+        res.json(await getEntityIndexStats());
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Debug endpoint - loaded gazetteer features by level, and any data files that failed to load
+    app.get("/api/debug/gazetteer", async (_req, res) => {
+      try {
+        const { getGazetteerStats } = await import('./supervisor/gazetteer');
+        res.json(getGazetteerStats());
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Debug endpoint - resolve a business to its registered company (?name=...&address=...)
+    app.get("/api/debug/company-registry", async (req, res) => {
+      try {
+        const { getCompanyRegistryProvider, lookupLeadCompany } = await import('./supervisor/company-registry');
+        const name = typeof req.query.name === 'string' ? req.query.name : '';
+        if (!name) return res.status(400).json({ error: 'name query parameter is required' });
+        const address = typeof req.query.address === 'string' ? req.query.address : null;
+        const registry = getCompanyRegistryProvider();
+        res.json({ provider: registry?.name ?? null, match: await lookupLeadCompany({ name, address }, registry) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
+    // Debug endpoint - sleep-wake attempt audit (?monitor_id=...), newest first
+    app.get("/api/debug/sleep-wake-attempts", async (req, res) => {
+      try {
+        const { listWakeAttempts } = await import('./supervisor/sleep-wake/wake-leases');
+        const monitorId = typeof req.query.monitor_id === 'string' ? req.query.monitor_id : undefined;
+        res.json({ attempts: await listWakeAttempts(monitorId) });
+      } catch (error: any) {
+        res.status(500).json({ error: error.message });
+      }
+    });
+
     app.get("/api/debug/agent-activities", async (req, res) => {
       try {
         const { data, error } = await supabase
@@ -1664,11 +1755,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ========================================
+  // FETCH CACHE ADMIN (X-EXPORT-KEY required)
+  // ========================================
+
+  // GET /api/admin/fetch-cache - Per-source hit/miss stats; ?source= lists entries (optional prefix, limit)
+  app.get("/api/admin/fetch-cache", checkExportKey, async (req, res) => {
+    try {
+      const source = req.query.source;
+      if (source === undefined) {
+        return res.json({ status: "ok", stats: await getFetchCacheStats() });
+      }
+      if (!isFetchCacheSource(source)) {
+        return res.status(400).json({ status: "error", error: `Unknown cache source: ${source}` });
+      }
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 1000);
+      const entries = await listFetchCacheEntries(source, { keyPrefix: req.query.prefix as string | undefined, limit });
+      res.json({ status: "ok", source, entries });
+    } catch (error: any) {
+      console.error("[FETCH_CACHE API] Error reading cache:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to read fetch cache" });
+    }
+  });
+
+  // DELETE /api/admin/fetch-cache - Purge entries by ?source=, key=, prefix=, expired_only=true (no filter purges everything)
+  app.delete("/api/admin/fetch-cache", checkExportKey, async (req, res) => {
+    try {
+      const { source, key, prefix } = req.query as Record<string, string | undefined>;
+      if (source !== undefined && !isFetchCacheSource(source)) {
+        return res.status(400).json({ status: "error", error: `Unknown cache source: ${source}` });
+      }
+      if ((key !== undefined || prefix !== undefined) && source === undefined) {
+        return res.status(400).json({ status: "error", error: "key and prefix require source" });
+      }
+      const purged = await purgeFetchCache({
+        source,
+        key,
+        keyPrefix: prefix,
+        expiredOnly: req.query.expired_only === "true",
+      });
+      console.log(`[FETCH_CACHE API] Purged ${purged} entr${purged === 1 ? "y" : "ies"} (source=${source ?? "all"} key=${key ?? "-"} prefix=${prefix ?? "-"})`);
+      res.json({ status: "ok", purged });
+    } catch (error: any) {
+      console.error("[FETCH_CACHE API] Error purging cache:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to purge fetch cache" });
+    }
+  });
+
+  // ========================================
+  // COST REPORT (X-EXPORT-KEY required)
+  // ========================================
+
+  // GET /api/costs - LLM/API spend rolled up by ?group_by=run|day|user|account|label|provider|model (default day)
+  // Filters: run_id, user_id, account_id, provider, label, from, to (ISO timestamps, to exclusive)
+  app.get("/api/costs", checkExportKey, async (req, res) => {
+    try {
+      const groupBy = (req.query.group_by as string | undefined) ?? "day";
+      if (!isCostGroupBy(groupBy)) {
+        return res.status(400).json({ status: "error", error: `Unknown group_by: ${groupBy}` });
+      }
+      const { run_id, user_id, account_id, provider, label, from, to } = req.query as Record<string, string | undefined>;
+      const invalidDate = [from, to].find(d => d !== undefined && isNaN(Date.parse(d)));
+      if (invalidDate !== undefined) {
+        return res.status(400).json({ status: "error", error: `Invalid date: ${invalidDate}` });
+      }
+      const report = await getCostReport(groupBy, {
+        runId: run_id,
+        userId: user_id,
+        accountId: account_id,
+        provider: provider as CostProvider | undefined,
+        label,
+        from: from ? new Date(from).toISOString() : undefined,
+        to: to ? new Date(to).toISOString() : undefined,
+      });
+      res.json({ status: "ok", report });
+    } catch (error: any) {
+      console.error("[COSTS API] Error building cost report:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to build cost report" });
+    }
+  });
+
+  // GET /api/budget-status - Daily/monthly spend and call budgets for ?user_id= (and optional account_id)
+  app.get("/api/budget-status", async (req, res) => {
+    try {
+      const userId = req.query.user_id as string | undefined;
+      if (!userId) return res.status(400).json({ status: "error", error: "user_id query parameter is required" });
+      const accountId = req.query.account_id as string | undefined;
+      const budget = await checkBudget({ userId, accountId });
+      res.json({ status: "ok", budget });
+    } catch (error: any) {
+      console.error("[BUDGET API] Error checking budget:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to check budget" });
+    }
+  });
+
   // ========================================
   // SAVE LEAD API (SUP-7)
   // ========================================
 
-  // POST /api/leads/save - Save a lead to in-memory store
+  // POST /api/leads/save - Save a lead (409 if the owner already saved this placeId)
   app.post("/api/leads/save", async (req, res) => {
     try {
       const { lead, ownerUserId } = req.body;
@@ -1720,12 +1905,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           phone: lead.phone,
           lat: lead.lat,
           lng: lead.lng,
-          source: lead.source || "manual"
+          source: lead.source || "manual",
+          pipelineStage: typeof lead.pipelineStage === "string" ? lead.pipelineStage : undefined,
+          notes: typeof lead.notes === "string" ? lead.notes : undefined,
+          tags: Array.isArray(lead.tags) ? lead.tags.filter((t: unknown) => typeof t === "string") : undefined
         },
         ownerUserId
       };
 
-      const savedLead = saveLeadToStore(payload);
+      const savedLead = await saveLeadToStore(payload);
 
       const response: SaveLeadResponse = {
         status: "ok",
@@ -1735,6 +1923,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json(response);
     } catch (error: any) {
+      if (error instanceof DuplicateSavedLeadError) {
+        return res.status(409).json({
+          status: "error",
+          error: error.message,
+          leadId: error.existingLeadId
+        });
+      }
       console.error("[LEADS API] Error saving lead:", error);
       res.status(500).json({ 
         status: "error",
@@ -1743,16 +1938,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/leads/saved - List saved leads from in-memory store
+  // GET /api/leads/saved - List saved leads
+  // Query: ownerUserId, pipelineStage, tag, source, offset, limit, cursor
   app.get("/api/leads/saved", async (req, res) => {
     try {
-      const ownerUserId = req.query.ownerUserId as string | undefined;
-      
-      const leads = listSavedLeads(ownerUserId);
+      const offset = req.query.offset !== undefined ? parseInt(req.query.offset as string, 10) : undefined;
+      const limit = req.query.limit !== undefined ? parseInt(req.query.limit as string, 10) : undefined;
+
+      const page = await listSavedLeads({
+        ownerUserId: req.query.ownerUserId as string | undefined,
+        pipelineStage: req.query.pipelineStage as string | undefined,
+        tag: req.query.tag as string | undefined,
+        source: req.query.source as LeadSource | undefined,
+        offset: Number.isFinite(offset) ? offset : undefined,
+        limit: Number.isFinite(limit) ? limit : undefined,
+        cursor: req.query.cursor as string | undefined,
+      });
 
       const response: ListLeadsResponse = {
         status: "ok",
-        leads
+        leads: page.items,
+        total: page.total,
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor
       };
 
       res.json(response);
@@ -1765,6 +1973,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/leads/saved/:id - Get a saved lead
+  app.get("/api/leads/saved/:id", async (req, res) => {
+    try {
+      const savedLead = await getSavedLeadById(req.params.id);
+      if (!savedLead) {
+        return res.status(404).json({ status: "error", error: "Saved lead not found" });
+      }
+
+      const response: SavedLeadResponse = { status: "ok", savedLead };
+      res.json(response);
+    } catch (error: any) {
+      console.error("[LEADS API] Error getting saved lead:", error);
+      res.status(500).json({ 
+        status: "error",
+        error: error.message || "Failed to get saved lead" 
+      });
+    }
+  });
+
+  // PATCH /api/leads/saved/:id - Update pipelineStage, notes and/or tags
+  app.patch("/api/leads/saved/:id", async (req, res) => {
+    try {
+      const { pipelineStage, notes, tags } = req.body ?? {};
+
+      if (pipelineStage !== undefined && pipelineStage !== null && typeof pipelineStage !== "string") {
+        return res.status(400).json({ status: "error", error: "pipelineStage must be a string or null" });
+      }
+      if (notes !== undefined && notes !== null && typeof notes !== "string") {
+        return res.status(400).json({ status: "error", error: "notes must be a string or null" });
+      }
+      if (tags !== undefined && (!Array.isArray(tags) || tags.some((t: unknown) => typeof t !== "string"))) {
+        return res.status(400).json({ status: "error", error: "tags must be an array of strings" });
+      }
+
+      const input: UpdateSavedLeadInput = { pipelineStage, notes, tags };
+      const savedLead = await updateSavedLead(req.params.id, input);
+      if (!savedLead) {
+        return res.status(404).json({ status: "error", error: "Saved lead not found" });
+      }
+
+      const response: SavedLeadResponse = { status: "ok", savedLead };
+      res.json(response);
+    } catch (error: any) {
+      console.error("[LEADS API] Error updating saved lead:", error);
+      res.status(500).json({ 
+        status: "error",
+        error: error.message || "Failed to update saved lead" 
+      });
+    }
+  });
+
+  // DELETE /api/leads/saved/:id - Delete a saved lead
+  app.delete("/api/leads/saved/:id", async (req, res) => {
+    try {
+      const savedLead = await deleteSavedLead(req.params.id);
+      if (!savedLead) {
+        return res.status(404).json({ status: "error", error: "Saved lead not found" });
+      }
+
+      const response: SavedLeadResponse = { status: "ok", savedLead };
+      res.json(response);
+    } catch (error: any) {
+      console.error("[LEADS API] Error deleting saved lead:", error);
+      res.status(500).json({ 
+        status: "error",
+        error: error.message || "Failed to delete saved lead" 
+      });
+    }
+  });
+
+  // ========================================
+  // LEAD PIPELINE API
+  // ========================================
+
+  // GET /api/leads/board - Suggested leads grouped by pipeline stage (kanban)
+  app.get("/api/leads/board", async (req, res) => {
+    try {
+      const userId = req.query.user_id as string;
+      if (!userId) return res.status(400).json({ error: 'user_id query parameter is required' });
+      const board = await getLeadPipelineBoard(userId, req.query.verticalId as string | undefined);
+      res.json(board);
+    } catch (error: any) {
+      console.error("[LEADS API] Error building pipeline board:", error);
+      res.status(500).json({ error: error.message || "Failed to build pipeline board" });
+    }
+  });
+
+  // POST /api/leads/:id/stage - Move a lead to another pipeline stage
+  app.post("/api/leads/:id/stage", async (req, res) => {
+    try {
+      const { toStage, actor, reason, verticalId, allowBackward } = req.body ?? {};
+
+      if (!toStage || typeof toStage !== "string") {
+        return res.status(400).json({ status: "error", error: "toStage is required" });
+      }
+      if (!actor || typeof actor !== "string") {
+        return res.status(400).json({ status: "error", error: "actor is required" });
+      }
+      if (reason !== undefined && typeof reason !== "string") {
+        return res.status(400).json({ status: "error", error: "reason must be a string" });
+      }
+
+      const result = await transitionLeadStage({
+        leadId: req.params.id,
+        toStage,
+        actor,
+        reason,
+        verticalId,
+        allowBackward: allowBackward === true,
+      });
+      res.json({ status: "ok", ...result });
+    } catch (error: any) {
+      if (error instanceof InvalidStageTransitionError) {
+        return res.status(400).json({ status: "error", code: error.code, error: error.message });
+      }
+      if (error instanceof LeadNotFoundError) {
+        return res.status(404).json({ status: "error", error: error.message });
+      }
+      if (error instanceof ConcurrentStageChangeError) {
+        return res.status(409).json({ status: "error", error: error.message });
+      }
+      console.error("[LEADS API] Error changing lead stage:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to change lead stage" });
+    }
+  });
+
+  // GET /api/leads/:id/stage-history - Stage transitions of a lead, oldest first
+  app.get("/api/leads/:id/stage-history", async (req, res) => {
+    try {
+      const history = await getLeadStageHistory(req.params.id);
+      res.json({ status: "ok", history });
+    } catch (error: any) {
+      if (error instanceof LeadNotFoundError) {
+        return res.status(404).json({ status: "error", error: error.message });
+      }
+      console.error("[LEADS API] Error fetching stage history:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to fetch stage history" });
+    }
+  });
+
+  // ========================================
+  // CRM EXPORT / SYNC API
+  // ========================================
+
+  // GET /api/leads/export - Download suggested leads as CSV or XLSX
+  app.get("/api/leads/export", async (req, res) => {
+    try {
+      const userId = req.query.user_id as string;
+      if (!userId) return res.status(400).json({ error: 'user_id query parameter is required' });
+      const format = ((req.query.format as string) || 'csv') as CrmExportFormat;
+      if (format !== 'csv' && format !== 'xlsx') {
+        return res.status(400).json({ error: 'format must be csv or xlsx' });
+      }
+      const leadIds = req.query.leadIds ? String(req.query.leadIds).split(',') : undefined;
+
+      const rows = await storage.getSuggestedLeads(userId);
+      const leads = rows.filter(row => !leadIds || leadIds.includes(row.id)).map(fromSuggestedLead);
+      const file = exportLeads(leads, format);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error: any) {
+      console.error("[LEADS API] Error exporting leads:", error);
+      res.status(500).json({ error: error.message || "Failed to export leads" });
+    }
+  });
+
+  // GET /api/crm/sync-state - Per-lead CRM sync state for a user
+  app.get("/api/crm/sync-state", async (req, res) => {
+    try {
+      const userId = req.query.user_id as string;
+      if (!userId) return res.status(400).json({ error: 'user_id query parameter is required' });
+      const provider = req.query.provider as CrmProvider | undefined;
+      const states = await getCrmSyncStateStore().listByUser(userId, provider);
+      res.json({ status: "ok", states });
+    } catch (error: any) {
+      console.error("[CRM API] Error fetching sync state:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to fetch sync state" });
+    }
+  });
+
   // ========================================
   // SUBCONSCIOUS NUDGES API (SUP-13)
   // ========================================
@@ -2306,6 +2696,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/afr/artefacts/:artefactId/export?format=markdown|html|pdf - Download a deep research report
+  app.get("/api/afr/artefacts/:artefactId/export", async (req, res) => {
+    const format = (req.query.format as string | undefined) || "markdown";
+    if (!isResearchExportFormat(format)) {
+      return res.status(400).json({ status: "error", error: `format must be one of: ${RESEARCH_EXPORT_FORMATS.join(", ")}` });
+    }
+    try {
+      const artefact = await storage.getArtefact(req.params.artefactId);
+      if (!artefact) return res.status(404).json({ status: "error", error: "Artefact not found" });
+      const payload = (artefact.payloadJson || {}) as Record<string, any>;
+      if (typeof payload.report_markdown !== "string" || !payload.report_markdown) {
+        return res.status(400).json({ status: "error", error: `Artefact ${artefact.id} (${artefact.type}) has no research report` });
+      }
+
+      const exported = await exportResearchReport({
+        title: payload.title || artefact.title,
+        report_markdown: payload.report_markdown,
+        sources: Array.isArray(payload.sources) ? payload.sources : [],
+        provider: payload.provider,
+      }, format);
+      res.setHeader("Content-Type", exported.contentType);
+      res.setHeader("Content-Disposition", `attachment; filename="${exported.filename}"`);
+      res.send(exported.body);
+    } catch (error: any) {
+      if (error instanceof ResearchExportUnavailableError) {
+        return res.status(501).json({ status: "error", error: error.message });
+      }
+      console.error("[AFR ARTEFACTS] Error exporting artefact:", error);
+      res.status(500).json({ status: "error", error: error.message || "Failed to export artefact" });
+    }
+  });
+
   app.get("/api/afr/behaviour-judge", async (req, res) => {
     const runId = req.query.run_id as string;
     if (!runId) {
@@ -2861,6 +3283,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       search_budget_pages: z.number().int().positive().optional(),
       radius_escalation: z.enum(['off', 'allowed', 'aggressive']).optional(),
       stop_if_underfilled: z.boolean().optional(),
+      radius_policy: z.object({
+        default_steps_km: z.array(z.number().positive()).min(1),
+        max_cap_km: z.number().positive(),
+        min_new_eligible_to_continue: z.number().int().min(1),
+      }).optional(),
     }).refine(obj => Object.keys(obj).length > 0, { message: 'updates must contain at least one knob field' }),
   });
 
@@ -2904,9 +3331,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // ========================================
   // SYSTEM MODE
   // ========================================
-  app.get('/api/system/mode', (_req, res) => {
+  app.get('/api/system/mode', async (_req, res) => {
     const mode = process.env.WYSHBONE_ENV === 'dev' ? 'dev' : 'production';
-    res.json({ mode });
+    try {
+      res.json({ mode, rate_limits: await getRateLimitStatus() });
+    } catch (err: any) {
+      console.error(`[SYSTEM_MODE] Failed to read rate limit status: ${err.message}`);
+      res.json({ mode, rate_limits: null });
+    }
   });
 
   // ========================================
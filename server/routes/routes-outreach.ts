@@ -19,6 +19,8 @@ import {
   handleInboundReply,
   buildFromAddress,
 } from '../supervisor/outreach-transport';
+import { recordApiUsage, resolveCostAttribution, withCostAttribution } from '../supervisor/cost-ledger';
+import { checkBudget, formatBudgetStopReason } from '../supervisor/budgets';
 
 export const outreachRouter = Router();
 
@@ -231,11 +233,18 @@ outreachRouter.post('/trigger-single', async (req, res) => {
       return res.json({ ok: true, email_found: false, lead_name, message: 'No website domain available to search for emails.' });
     }
 
+    const costAttribution = await resolveCostAttribution({ runId: run_id, userId });
+    const budget = await checkBudget(costAttribution);
+    if (!budget.allowed) {
+      return res.status(402).json({ error: formatBudgetStopReason(budget) });
+    }
+
     console.log(`[OUTREACH_SINGLE] Hunter.io domain search for "${lead_name}" → ${domain}`);
 
     // Call Hunter.io domain-search API
     const hunterUrl = `https://api.hunter.io/v2/domain-search?domain=${encodeURIComponent(domain)}&api_key=${hunterKey}&limit=5`;
     const hunterResp = await fetch(hunterUrl);
+    recordApiUsage({ label: 'hunter_domain_search', provider: 'hunter', unit: 'domain_search', ...costAttribution });
 
     if (!hunterResp.ok) {
       const errText = await hunterResp.text();
@@ -267,7 +276,7 @@ outreachRouter.post('/trigger-single', async (req, res) => {
     const contactSource = `hunter.io (confidence: ${best.confidence}%, type: ${best.type})`;
 
     // Draft the email
-    const draft = await draftOutreachEmail({
+    const draft = await withCostAttribution(costAttribution, () => draftOutreachEmail({
       leadName: lead_name,
       leadAddress: '',
       leadWebsite: lead_website || null,
@@ -284,7 +293,7 @@ outreachRouter.post('/trigger-single', async (req, res) => {
       evidenceSnippets: [],
       toneGuidance: null,
       callToAction: null,
-    });
+    }));
 
     // Store draft in Supabase
     const outreachRunId = randomUUID();
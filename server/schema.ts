@@ -50,6 +50,24 @@ export const {
   insertPolicyApplicationSchema,
   learningStore,
   insertLearningStoreSchema,
+  supervisorEvents,
+  supervisorEventSubscribers,
+  supervisorEventDeliveries,
+  supervisorJobs,
+  supervisorJobLocks,
+  supervisorScheduledTasks,
+  savedLeads,
+  leadStageHistory,
+  insertLeadStageHistorySchema,
+  crmSyncState,
+  fetchCache,
+  costRecords,
+  rateLimitBuckets,
+  circuitBreakers,
+  sleepWakeDailyQuota,
+  sleepWakeAttempts,
+  entityIndex,
+  entityIndexCoverage,
 } = schema;
 
 export type {
@@ -85,4 +103,19 @@ export type {
   InsertPolicyApplication,
   LearningStore,
   InsertLearningStore,
+  SupervisorEventRow,
+  SupervisorEventSubscriberRow,
+  SupervisorEventDeliveryRow,
+  SupervisorJobRow,
+  SupervisorJobLockRow,
+  SupervisorScheduledTaskRow,
+  SavedLeadRow,
+  LeadStageHistory,
+  InsertLeadStageHistory,
+  CrmSyncStateRow,
+  FetchCacheRow,
+  CostRecordRow,
+  CircuitBreakerRow,
+  SleepWakeAttemptRow,
+  EntityIndexRow,
 } from '@shared/schema';
@@ -0,0 +1,43 @@
+/**
+ * Local Tower Judge Server
+ *
+ * Runs the deterministic local judge (supervisor/tower-local-judge.ts) as a
+ * separate HTTP process for offline and dev runs.
+ * Run with: npm run tower:local
+ *
+ * Then point the supervisor at it:
+ *   TOWER_BASE_URL=http://127.0.0.1:5055 TOWER_URL=http://127.0.0.1:5055
+ */
+
+import { config } from 'dotenv';
+config();
+
+import { startLocalTower } from '../supervisor/tower-local-judge';
+
+async function main() {
+  const port = parseInt(process.env.LOCAL_TOWER_PORT || '5055', 10);
+  const host = process.env.LOCAL_TOWER_HOST || '127.0.0.1';
+  const apiKey = process.env.LOCAL_TOWER_API_KEY || undefined;
+
+  const tower = await startLocalTower(port, host, { apiKey, verbose: true });
+
+  console.log('='.repeat(60));
+  console.log('[LOCAL_TOWER] Local Tower judge listening');
+  console.log('='.repeat(60));
+  console.log(`   URL:      ${tower.url}`);
+  console.log(`   API key:  ${apiKey ? 'required (LOCAL_TOWER_API_KEY)' : 'not checked'}`);
+  console.log('   Endpoints: /api/tower/judge-artefact, /api/tower/evaluate, /api/tower/semantic-verify');
+  console.log(`   Set TOWER_BASE_URL=${tower.url} and TOWER_URL=${tower.url}`);
+  console.log('='.repeat(60));
+
+  const shutdown = () => {
+    tower.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('[LOCAL_TOWER] Failed to start:', error.message);
+  process.exit(1);
+});
@@ -104,7 +104,7 @@ async function testRateLimits() {
   console.log('📊 Test 3: Check rate limit status');
   console.log('-'.repeat(70));
 
-  const status = claudeAPI.getRateLimitStatus();
+  const status = await claudeAPI.getRateLimitStatus();
   console.log('');
   console.log('Rate Limit Status:');
   console.log('  Remaining calls:', status.remaining);
@@ -8,7 +8,7 @@
 
 import type { FeatureType, FeatureRunResult } from '../features/types';
 import { runLeadFinder, type LeadFinderParams } from '../features/leadFinder/leadFinder';
-import { createEventBus } from '../core/event-bus';
+import { createEventBus, type SupervisorEventBus } from '../core/event-bus';
 import type { BaseSupervisorEvent } from '../core/types';
 import { isFeatureEnabled, type FeatureId, type FeatureContext } from '../config/features';
 
@@ -38,15 +38,22 @@ export interface FeatureCompletedEvent extends BaseSupervisorEvent {
 }
 
 // Shared event bus instance for feature events
-const eventBus = createEventBus();
+let eventBus: SupervisorEventBus = createEventBus();
 
 /**
  * Get the shared event bus for subscribing to feature events
  */
-export function getFeatureEventBus() {
+export function getFeatureEventBus(): SupervisorEventBus {
   return eventBus;
 }
 
+/**
+ * Set a custom event bus (durable bus at startup, or a test bus)
+ */
+export function setFeatureEventBus(bus: SupervisorEventBus): void {
+  eventBus = bus;
+}
+
 // ============================================
 // FEATURE TYPE TO TOGGLE ID MAPPING (SUP-9)
 // ============================================
@@ -103,6 +110,9 @@ export async function runFeature(
           location: (params.location as string) || "",
           recipeId: params.recipeId as string | undefined,
           verticalId: params.verticalId as LeadFinderParams['verticalId'],
+          countryCode: params.countryCode as string | undefined,
+          page: typeof params.page === 'number' ? params.page : undefined,
+          pageSize: typeof params.pageSize === 'number' ? params.pageSize : undefined,
         };
         data = await runLeadFinder(leadFinderParams);
         break;
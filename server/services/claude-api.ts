@@ -6,6 +6,8 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
+import { recordLLMUsage } from '../supervisor/cost-ledger';
+import { acquireRateLimit, getBucketStatus, RateLimitError } from '../supervisor/rate-limits';
 
 interface ClaudeMessage {
   role: 'user' | 'assistant';
@@ -21,23 +23,14 @@ interface ClaudeResponse {
   model: string;
 }
 
-interface RateLimitState {
-  lastCallTime: number;
-  callCount: number;
-}
-
 class ClaudeAPIService {
   private client: Anthropic | null = null;
   private readonly model = 'claude-3-5-sonnet-20241022';
   private readonly maxTokens = 2048;
 
-  // Rate limiting: max 5 calls per minute
-  private readonly maxCallsPerMinute = 5;
+  // Rate limiting: shared route:claude_api bucket (default 5 calls per minute)
+  private readonly rateLimitKey = 'route:claude_api';
   private readonly minuteMs = 60000;
-  private rateLimitState: RateLimitState = {
-    lastCallTime: 0,
-    callCount: 0
-  };
 
   constructor() {
     const apiKey = process.env.ANTHROPIC_API_KEY;
@@ -68,23 +61,16 @@ class ClaudeAPIService {
    * Check rate limit before making API call
    */
   private async checkRateLimit(): Promise<void> {
-    const now = Date.now();
-    const timeSinceLastCall = now - this.rateLimitState.lastCallTime;
+    let decision = await acquireRateLimit({ route: 'claude_api' });
 
-    // Reset counter if more than a minute has passed
-    if (timeSinceLastCall > this.minuteMs) {
-      this.rateLimitState.callCount = 0;
-      this.rateLimitState.lastCallTime = now;
-      return;
+    // Wait for the bucket to refill rather than failing, as long as it is within a minute
+    if (!decision.allowed && decision.reason === 'rate_limited' && decision.retryAfterMs <= this.minuteMs) {
+      console.log(`[CLAUDE_API] Rate limit reached, waiting ${decision.retryAfterMs}ms`);
+      await new Promise(resolve => setTimeout(resolve, decision.retryAfterMs));
+      decision = await acquireRateLimit({ route: 'claude_api' });
     }
-
-    // Check if we've exceeded rate limit
-    if (this.rateLimitState.callCount >= this.maxCallsPerMinute) {
-      const waitTime = this.minuteMs - timeSinceLastCall;
-      console.log(`[CLAUDE_API] Rate limit reached, waiting ${waitTime}ms`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      this.rateLimitState.callCount = 0;
-      this.rateLimitState.lastCallTime = Date.now();
+    if (!decision.allowed) {
+      throw new RateLimitError(decision);
     }
   }
 
@@ -125,10 +111,7 @@ class ClaudeAPIService {
           }
         ]
       });
-
-      // Update rate limit state
-      this.rateLimitState.callCount++;
-      this.rateLimitState.lastCallTime = Date.now();
+      recordLLMUsage({ label: 'claude_api', provider: 'anthropic', model: this.model, usage: message.usage });
 
       // Extract text content
       const textContent = message.content
@@ -198,10 +181,7 @@ class ClaudeAPIService {
           content: msg.content
         }))
       });
-
-      // Update rate limit state
-      this.rateLimitState.callCount++;
-      this.rateLimitState.lastCallTime = Date.now();
+      recordLLMUsage({ label: 'claude_api', provider: 'anthropic', model: this.model, usage: response.usage });
 
       // Extract text content
       const textContent = response.content
@@ -239,21 +219,8 @@ class ClaudeAPIService {
   /**
    * Get current rate limit status
    */
-  getRateLimitStatus(): { remaining: number; resetIn: number } {
-    const now = Date.now();
-    const timeSinceLastCall = now - this.rateLimitState.lastCallTime;
-
-    if (timeSinceLastCall > this.minuteMs) {
-      return {
-        remaining: this.maxCallsPerMinute,
-        resetIn: 0
-      };
-    }
-
-    return {
-      remaining: this.maxCallsPerMinute - this.rateLimitState.callCount,
-      resetIn: this.minuteMs - timeSinceLastCall
-    };
+  async getRateLimitStatus(): Promise<{ remaining: number; resetIn: number }> {
+    return (await getBucketStatus(this.rateLimitKey)) ?? { remaining: Infinity, resetIn: 0 };
   }
 }
 
@@ -0,0 +1,66 @@
+/**
+ * Durable Events Startup
+ *
+ * Swaps the in-memory event buses used by FeatureRunner (feature.completed)
+ * and saveLead (lead.saved, lead.updated, lead.deleted, lead.stage_changed) for a single
+ * Postgres-backed DurableEventBus so those events survive restarts and
+ * deploys, then starts the redelivery poller.
+ *
+ * Enable with DURABLE_EVENT_BUS_ENABLED=true (requires
+ * migrations/008_supervisor_event_bus.sql to have been applied).
+ */
+
+import { createDurableEventBus, type DurableEventBus } from '../core/event-bus';
+import { setFeatureEventBus } from './FeatureRunner';
+import { setLeadEventBus } from '../features/saveLead';
+
+let durableBus: DurableEventBus | null = null;
+
+/**
+ * Whether the durable event bus is enabled via env
+ */
+export function isDurableEventBusEnabled(): boolean {
+  return process.env.DURABLE_EVENT_BUS_ENABLED === 'true';
+}
+
+/**
+ * Create the durable bus, install it for feature and lead events, and start polling.
+ * Safe to call more than once; returns null when disabled.
+ */
+export async function startDurableEventBus(): Promise<DurableEventBus | null> {
+  if (!isDurableEventBusEnabled()) {
+    console.log('[DURABLE_EVENTS] Durable event bus disabled (set DURABLE_EVENT_BUS_ENABLED=true to enable)');
+    return null;
+  }
+  if (durableBus) {
+    return durableBus;
+  }
+
+  const { createPostgresEventStore } = await import('../core/event-bus/postgres-event-store');
+
+  durableBus = createDurableEventBus(createPostgresEventStore(), {
+    maxAttempts: parseInt(process.env.DURABLE_EVENT_BUS_MAX_ATTEMPTS || '5', 10),
+    pollIntervalMs: parseInt(process.env.DURABLE_EVENT_BUS_POLL_MS || '5000', 10),
+  });
+
+  setFeatureEventBus(durableBus);
+  setLeadEventBus(durableBus);
+  durableBus.start();
+
+  console.log('[DURABLE_EVENTS] Durable event bus started (feature.completed, lead.*)');
+  return durableBus;
+}
+
+/**
+ * Stop the redelivery poller (used on shutdown and in tests)
+ */
+export function stopDurableEventBus(): void {
+  durableBus?.stop();
+}
+
+/**
+ * Get the running durable bus, if any
+ */
+export function getDurableEventBus(): DurableEventBus | null {
+  return durableBus;
+}
@@ -0,0 +1,89 @@
+/**
+ * Durable Scheduler Startup
+ *
+ * Runs the subconscious scheduler tick and the sleep-wake check as recurring
+ * tasks on a Postgres-backed DurableScheduler instead of in-process timers,
+ * so their schedule survives restarts and each tick is claimed by exactly one
+ * process when several instances share the database.
+ *
+ * Enable with DURABLE_SCHEDULER_ENABLED=true (requires
+ * migrations/010_supervisor_scheduled_tasks.sql to have been applied).
+ */
+
+import { createDurableScheduler, type DurableScheduler } from '../core/scheduler';
+import { runSubconSchedulerTick, getSubconTickIntervalMs } from '../subcon/scheduler';
+
+/** Recurring task IDs (stable, so re-registering on boot is a no-op) */
+export const SUBCON_TICK_TASK_ID = 'subcon.tick';
+export const SLEEP_WAKE_TICK_TASK_ID = 'sleep_wake.tick';
+
+let durableScheduler: DurableScheduler | null = null;
+
+/**
+ * Whether the durable scheduler is enabled via env
+ */
+export function isDurableSchedulerEnabled(): boolean {
+  return process.env.DURABLE_SCHEDULER_ENABLED === 'true';
+}
+
+/**
+ * Create the durable scheduler, restore pending tasks, register the
+ * recurring ticks and start polling. Safe to call more than once;
+ * returns null when disabled.
+ */
+export async function startDurableScheduler(): Promise<DurableScheduler | null> {
+  if (!isDurableSchedulerEnabled()) {
+    console.log('[DURABLE_SCHEDULER] Durable scheduler disabled (set DURABLE_SCHEDULER_ENABLED=true to enable)');
+    return null;
+  }
+  if (durableScheduler) {
+    return durableScheduler;
+  }
+
+  const { createPostgresTaskStore } = await import('../core/scheduler/postgres-task-store');
+
+  const scheduler = createDurableScheduler(createPostgresTaskStore(), {
+    pollIntervalMs: parseInt(process.env.DURABLE_SCHEDULER_POLL_MS || '5000', 10),
+  });
+
+  const restored = await scheduler.restore();
+  console.log(`[DURABLE_SCHEDULER] Restored ${restored} pending task(s)`);
+
+  scheduler.enqueue('subcon.tick', {}, {
+    id: SUBCON_TICK_TASK_ID,
+    intervalMs: getSubconTickIntervalMs(),
+  });
+  scheduler.enqueue('sleep_wake.tick', {}, {
+    id: SLEEP_WAKE_TICK_TASK_ID,
+    intervalMs: parseInt(process.env.SLEEP_WAKE_TICK_MS || '60000', 10),
+  });
+  await scheduler.flush();
+
+  scheduler.start({
+    'subcon.tick': async () => {
+      await runSubconSchedulerTick();
+    },
+    'sleep_wake.tick': async () => {
+      const { checkAndWakeGoals } = await import('../supervisor/sleep-wake/index');
+      await checkAndWakeGoals();
+    },
+  });
+
+  durableScheduler = scheduler;
+  console.log('[DURABLE_SCHEDULER] Durable scheduler started (subcon.tick, sleep_wake.tick)');
+  return scheduler;
+}
+
+/**
+ * Stop polling (used on shutdown and in tests)
+ */
+export function stopDurableScheduler(): void {
+  durableScheduler?.stop();
+}
+
+/**
+ * Get the running durable scheduler, if any
+ */
+export function getDurableScheduler(): DurableScheduler | null {
+  return durableScheduler;
+}
@@ -11,6 +11,7 @@ import 'dotenv/config';
 import type { GeneratedTask } from '../autonomous-agent';
 import Anthropic from '@anthropic-ai/sdk';
 import { buildToolPromptSection, isToolEnabled, checkIntentGate } from '../supervisor/tool-registry';
+import { recordLLMUsage } from '../supervisor/cost-ledger';
 
 interface ToolCall {
   tool: string;
@@ -77,6 +78,7 @@ async function callClaudeAPI(prompt: string): Promise<string> {
       content: prompt
     }]
   });
+  recordLLMUsage({ label: 'task_interpreter', provider: 'anthropic', model: 'claude-3-5-sonnet-20241022', usage: message.usage });
 
   const content = message.content[0];
   if (content.type !== 'text') {
@@ -50,9 +50,12 @@ import {
   learningStore,
   type LearningStore,
   type InsertLearningStore,
+  leadStageHistory,
+  type LeadStageHistory,
+  type InsertLeadStageHistory,
 } from "./schema";
 import { db } from "./db";
-import { eq, desc, isNull, and } from "drizzle-orm";
+import { eq, desc, asc, isNull, and } from "drizzle-orm";
 import type { SubconNudge } from "./subcon/types";
 import { supabase } from "./supabase";
 
@@ -69,6 +72,11 @@ export interface IStorage {
   getSuggestedLeadsByAccount(accountId: string): Promise<SuggestedLead[]>; // SUP-12
   getRecentSignals(userId: string): Promise<UserSignal[]>;
   createSuggestedLead(lead: InsertSuggestedLead): Promise<SuggestedLead>;
+  // Lead pipeline stage transitions
+  getSuggestedLeadById(id: string): Promise<SuggestedLead | undefined>;
+  updateSuggestedLeadStage(id: string, fromStage: string | null, toStage: string, changedAt: Date): Promise<SuggestedLead | undefined>;
+  createLeadStageHistory(entry: InsertLeadStageHistory): Promise<LeadStageHistory>;
+  getLeadStageHistory(leadId: string): Promise<LeadStageHistory[]>;
   createSignal(signal: InsertUserSignal): Promise<UserSignal>;
   isSignalProcessed(signalId: string, source: string): Promise<boolean>;
   markSignalProcessed(signalId: string, source: string, signalCreatedAt: Date): Promise<void>;
@@ -174,6 +182,41 @@ export class DatabaseStorage implements IStorage {
     return leads;
   }
 
+  async getSuggestedLeadById(id: string): Promise<SuggestedLead | undefined> {
+    const [lead] = await db
+      .select()
+      .from(suggestedLeads)
+      .where(eq(suggestedLeads.id, id))
+      .limit(1);
+    return lead || undefined;
+  }
+
+  // Only updates when the stage is still fromStage, so concurrent moves of the same lead can't both win
+  async updateSuggestedLeadStage(id: string, fromStage: string | null, toStage: string, changedAt: Date): Promise<SuggestedLead | undefined> {
+    const [lead] = await db
+      .update(suggestedLeads)
+      .set({ pipelineStage: toStage, pipelineStageChangedAt: changedAt, updatedAt: changedAt })
+      .where(and(
+        eq(suggestedLeads.id, id),
+        fromStage === null ? isNull(suggestedLeads.pipelineStage) : eq(suggestedLeads.pipelineStage, fromStage),
+      ))
+      .returning();
+    return lead || undefined;
+  }
+
+  async createLeadStageHistory(entry: InsertLeadStageHistory): Promise<LeadStageHistory> {
+    const [row] = await db.insert(leadStageHistory).values(entry).returning();
+    return row;
+  }
+
+  async getLeadStageHistory(leadId: string): Promise<LeadStageHistory[]> {
+    return db
+      .select()
+      .from(leadStageHistory)
+      .where(eq(leadStageHistory.leadId, leadId))
+      .orderBy(asc(leadStageHistory.createdAt));
+  }
+
   async getRecentSignals(userId: string): Promise<UserSignal[]> {
     const signals = await db
       .select()
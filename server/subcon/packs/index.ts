@@ -5,5 +5,5 @@
  * SUP-10: SubconsciousPack type + registry
  */
 
-export { staleLeadsPack } from './staleleads';
+export { staleLeadsPack, subscribeStaleLeadsToStageChanges } from './staleleads';
 
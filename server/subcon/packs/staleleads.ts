@@ -22,6 +22,9 @@
 
 import type { SubconsciousPack, SubconContext, SubconOutput, SubconNudge } from '../types';
 import type { SuggestedLead } from '@shared/schema';
+import type { Subscription } from '../../core/types';
+import type { SupervisorEventBus } from '../../core/event-bus';
+import type { LeadStageChangedEvent } from '../../features/leadPipeline/types';
 
 // ============================================
 // STORAGE DEPENDENCY
@@ -34,6 +37,8 @@ import type { SuggestedLead } from '@shared/schema';
 export interface StaleLeadsStorage {
   getSuggestedLeadsByAccount(accountId: string): Promise<SuggestedLead[]>;
   saveSubconNudges?(accountId: string, nudges: SubconNudge[]): Promise<void>;
+  getUnresolvedSubconNudges?(accountId: string): Promise<Array<{ id: string; nudgeType: string; leadId: string | null }>>;
+  resolveSubconNudge?(id: string): Promise<void>;
 }
 
 // Lazy-load the actual storage to avoid circular dependencies and allow testing
@@ -361,3 +366,49 @@ export const staleLeadsPack: SubconsciousPack = {
   },
 };
 
+
+// ============================================
+// STAGE CHANGE HANDLING
+// ============================================
+
+/** Durable subscriber ID for lead.stage_changed */
+export const STALE_LEADS_SUBSCRIBER_ID = 'subcon.stale_leads';
+
+/**
+ * Resolve open stale_lead nudges for a lead that has just moved stage:
+ * the move is the follow-up the nudge asked for.
+ *
+ * @returns Number of nudges resolved
+ */
+export async function handleLeadStageChanged(event: LeadStageChangedEvent): Promise<number> {
+  const { leadId, accountId } = event.payload;
+  if (!accountId) {
+    return 0;
+  }
+
+  const storageInstance = await getStorage();
+  if (!storageInstance.getUnresolvedSubconNudges || !storageInstance.resolveSubconNudge) {
+    return 0;
+  }
+
+  const nudges = await storageInstance.getUnresolvedSubconNudges(accountId);
+  const stale = nudges.filter(n => n.nudgeType === 'stale_lead' && n.leadId === leadId);
+  for (const nudge of stale) {
+    await storageInstance.resolveSubconNudge(nudge.id);
+  }
+
+  if (stale.length > 0) {
+    console.log(`[StaleLeadsPack] Resolved ${stale.length} stale nudge${stale.length !== 1 ? 's' : ''} for lead ${leadId} (now '${event.payload.toStage}')`);
+  }
+  return stale.length;
+}
+
+/**
+ * Subscribe the pack to lead.stage_changed on the given bus.
+ * Uses a stable subscriber ID so a durable bus redelivers missed events.
+ */
+export function subscribeStaleLeadsToStageChanges(bus: SupervisorEventBus): Subscription {
+  return bus.subscribe<LeadStageChangedEvent>('lead.stage_changed', async (event) => {
+    await handleLeadStageChanged(event);
+  }, { subscriberId: STALE_LEADS_SUBSCRIBER_ID });
+}
@@ -102,6 +102,16 @@ function getTickIntervalMs(): number {
   return config.tickIntervalMs;
 }
 
+/**
+ * Check if ticks are driven by the durable scheduler (subcon.tick task)
+ * instead of the local timer.
+ * 
+ * Set DURABLE_SCHEDULER_ENABLED=true to enable.
+ */
+function isDurableTickEnabled(): boolean {
+  return process.env.DURABLE_SCHEDULER_ENABLED === 'true';
+}
+
 // ============================================
 // SCHEDULE LOGIC
 // ============================================
@@ -292,6 +302,12 @@ export function startSubconScheduler(customConfig?: Partial<SubconSchedulerConfi
   startedAt = new Date().toISOString();
   tickCount = 0;
   
+  // Ticks survive restarts when run as a recurring durable task
+  if (isDurableTickEnabled()) {
+    console.log('[SubconScheduler] Ticks run on the durable scheduler (subcon.tick)');
+    return;
+  }
+  
   // Start the tick timer
   tickTimer = setInterval(() => {
     tick().catch(error => {
@@ -331,6 +347,26 @@ export function stopSubconScheduler(): void {
   console.log('[SubconScheduler] Scheduler stopped');
 }
 
+/**
+ * Run one scheduler tick on demand.
+ * 
+ * Used by the durable scheduler's subcon.tick task. No-op unless the
+ * scheduler has been started (so SUBCON_SCHEDULER_ENABLED=false still applies).
+ */
+export async function runSubconSchedulerTick(): Promise<void> {
+  if (!isRunning) {
+    return;
+  }
+  await tick();
+}
+
+/**
+ * Get the subconscious tick interval (env override or config).
+ */
+export function getSubconTickIntervalMs(): number {
+  return getTickIntervalMs();
+}
+
 /**
  * Get the current scheduler status.
  */
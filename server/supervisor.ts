@@ -29,9 +29,13 @@ import { preExecutionConstraintGate, preExecutionConstraintGateFromIntent, resol
 import { detectTimePredicate, buildClarifyQuestion as buildTimePredicateClarifyQuestion, buildTimePredicateContract } from './supervisor/time-predicate';
 import { recordBenchmarkRun, type BenchmarkRunInput } from './evaluator/benchmarkLogger';
 import type { RunContext, PlanHistoryEntry } from './evaluator/classifyRunFailure';
+import type { RouterDecision } from './supervisor/conversation-router';
+import type { RuleRouterResult } from './supervisor/rule-router';
 import { BENCHMARK_QUERIES, getBenchmarkQueryId } from '../config/benchmarkQueries';
 import { executeRefine, type RefineLead } from './supervisor/refine-executor';
 import { attemptRescueLLM, logRescueEvent, updateRescueSuccess, type RescueResult } from './supervisor/rescue-llm';
+import { recordApiUsage, resolveCostAttribution, withCostAttribution } from './supervisor/cost-ledger';
+import { checkBudget } from './supervisor/budgets';
 
 const SUPERVISOR_NEUTRAL_MESSAGE = 'Run complete. Results are available.';
 
@@ -751,7 +755,9 @@ class SupervisorService {
         }, hardTimeoutMs);
 
         try {
-          await this.processChatTask(task as SupervisorTask);
+          const costRunId = task.run_id || task.request_data?.run_id || taskId;
+          const costAttribution = await resolveCostAttribution({ runId: costRunId, userId: task.user_id });
+          await withCostAttribution(costAttribution, () => this.processChatTask(task as SupervisorTask));
         } catch (error) {
           const errMsg = error instanceof Error ? error.message : String(error);
           console.error(`Failed to process task ${taskId}:`, error);
@@ -1464,6 +1470,8 @@ class SupervisorService {
       try {
         const { routeConversation } = await import('./supervisor/conversation-router');
         const { classifyTurn } = await import('./supervisor/conversation-turn-classifier');
+        const { routeByRules, getRuleRouterMode, recordShadowComparison, recordShortCircuit } = await import('./supervisor/rule-router');
+        const { getConversationState } = await import('./supervisor/conversation-state');
 
         // Load conversation history
         let routerHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [];
@@ -1517,26 +1525,68 @@ class SupervisorService {
           }
         }
 
-        // Stage 1: analyse the conversational turn (context only, no route awareness)
-        const turnAnalysis = await classifyTurn({
-          currentMessage: rawMsg,
-          conversationHistory: routerHistory,
-          previousResultsExist: routerPreviousResults.exists,
-        });
+        // Stage 0: deterministic rules — confident decisions skip both LLM stages in active mode
+        const ruleRouterMode = getRuleRouterMode();
+        let ruleResult: RuleRouterResult | null = null;
+        if (ruleRouterMode !== 'off') {
+          const convState = task.conversation_id ? getConversationState(task.conversation_id) : null;
+          ruleResult = routeByRules({
+            currentMessage: rawMsg,
+            conversationHistory: routerHistory,
+            phase: convState?.phase ?? 'idle',
+            previousResults: routerPreviousResults,
+            lastDelivery: convState?.lastDelivery ?? null,
+            accumulatedContext: convState?.accumulatedContext ?? {},
+          });
+          console.log(`[RULE_ROUTER] mode=${ruleRouterMode} route=${ruleResult.decision?.route ?? 'none'} confidence=${ruleResult.decision?.confidence ?? 0} confident=${ruleResult.confident} signals=[${ruleResult.signals.join(', ')}]`);
+        }
 
-        const routerInput = {
-          currentMessage: rawMsg,
-          conversationHistory: routerHistory,
-          previousResults: routerPreviousResults,
-          urlContent: (requestData as any).url_content || null,
-          userSearchHistory: null,
-          turnAnalysis,
-          conversationId: task.conversation_id,
-          userId: task.user_id,
-        };
+        let decision: RouterDecision;
+        if (ruleRouterMode === 'active' && ruleResult?.confident && ruleResult.decision) {
+          decision = ruleResult.decision;
+          recordShortCircuit();
+          console.log(`[RULE_ROUTER] Confident ${decision.route} — skipping turn classifier and LLM router`);
+        } else {
+          // Stage 1: analyse the conversational turn (context only, no route awareness)
+          const turnAnalysis = await classifyTurn({
+            currentMessage: rawMsg,
+            conversationHistory: routerHistory,
+            previousResultsExist: routerPreviousResults.exists,
+          });
 
-        // Stage 2: router uses turn analysis as authoritative context
-        const decision = await routeConversation(routerInput);
+          const routerInput = {
+            currentMessage: rawMsg,
+            conversationHistory: routerHistory,
+            previousResults: routerPreviousResults,
+            urlContent: (requestData as any).url_content || null,
+            userSearchHistory: null,
+            turnAnalysis,
+            conversationId: task.conversation_id,
+            userId: task.user_id,
+          };
+
+          // Stage 2: router uses turn analysis as authoritative context
+          decision = await routeConversation(routerInput);
+
+          if (ruleResult?.decision && !recordShadowComparison(ruleResult, decision, rawMsg)) {
+            createArtefact({
+              runId: jobId,
+              type: 'diagnostic',
+              title: `Rule router disagreed: ${ruleResult.decision.route} vs ${decision.route}`,
+              summary: `rule=${ruleResult.decision.route}(${ruleResult.decision.confidence}) llm=${decision.route}(${decision.confidence}) mode=${ruleRouterMode}`,
+              payload: {
+                diagnostic_type: 'rule_router_disagreement',
+                message: rawMsg.substring(0, 300),
+                rule_decision: ruleResult.decision,
+                rule_signals: ruleResult.signals,
+                rule_confident: ruleResult.confident,
+                llm_decision: decision,
+              },
+              userId: task.user_id,
+              conversationId: task.conversation_id,
+            }).catch(() => {});
+          }
+        }
 
         // Log the decision as an artefact (skipped for non-SEARCH routes when telemetry is stripped)
         if (decision.route === 'SEARCH' || !STRIP_CHAT_TELEMETRY) {
@@ -2240,7 +2290,7 @@ class SupervisorService {
           runId: jobId,
           userId: task.user_id,
           conversationId: task.conversation_id,
-        });
+        }, { deferIntentNarrative: true });
         const canonicalForComparison = shadowResult.extraction?.validation?.intent ?? null;
 
         logMissionShadow(
@@ -2407,7 +2457,8 @@ class SupervisorService {
                         userId: task.user_id,
                         conversationId: task.conversation_id,
                         watchdogFeedback,
-                      }
+                      },
+                      { deferIntentNarrative: true },
                     );
 
                     if (retryMissionResult?.trace?.pass2_structured_mission) {
@@ -3472,6 +3523,7 @@ class SupervisorService {
           rawUserInput: rawMsg.trim(),
           missionTrace: missionResult!.trace,
           intentNarrative: missionResult!.intentNarrative ?? null,
+          intentNarrativePending: missionResult!.intentNarrativePending,
           queryId: missionQueryId,
           executionPath: (requestData as any).execution_path === 'gpt4o_primary' ? 'gpt4o_primary' : 'gp_cascade',
           checkpoint: recoveryCheckpoint,
@@ -3550,6 +3602,7 @@ class SupervisorService {
             rawUserInput: rawMsg.trim(),
             missionTrace: missionResult.trace,
             intentNarrative: missionResult.intentNarrative ?? null,
+            intentNarrativePending: missionResult.intentNarrativePending,
             queryId: missionQueryId,
             executionPath: (requestData as any).execution_path === 'gpt4o_primary' ? 'gpt4o_primary' : 'gp_cascade',
           };
@@ -4159,6 +4212,9 @@ class SupervisorService {
   // ensureTowerJudgement: REMOVED — inline observation is mandatory. No safety nets.
 
   private async wakeGoals(): Promise<void> {
+    // Runs as the sleep_wake.tick durable task instead (services/durable-scheduler)
+    if (process.env.DURABLE_SCHEDULER_ENABLED === 'true') return;
+
     try {
       const { checkAndWakeGoals } = await import('./supervisor/sleep-wake/index');
       await checkAndWakeGoals();
@@ -4995,10 +5051,16 @@ class SupervisorService {
       return [];
     }
 
+    if (!(await checkBudget()).allowed) {
+      console.log(`⚠️  Budget exhausted, skipping Hunter.io email search for ${domain}`);
+      return [];
+    }
+
     try {
       const url = `https://api.hunter.io/v2/domain-search?domain=${encodeURIComponent(domain)}&api_key=${apiKey}&limit=3`;
       
       const response = await fetch(url);
+      recordApiUsage({ label: 'hunter_domain_search', provider: 'hunter', unit: 'domain_search' });
       if (!response.ok) {
         console.log(`⚠️  Hunter.io API error: ${response.status}`);
         return [];
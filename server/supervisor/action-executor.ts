@@ -1,7 +1,8 @@
 /**
  * Action Executor - Single execution spine for Supervisor
  * 
- * Supports SEARCH_PLACES, ENRICH_LEADS, SCORE_LEADS, EVALUATE_RESULTS, WEB_VISIT, CONTACT_EXTRACT, WEB_SEARCH, LEAD_ENRICH, ASK_LEAD_QUESTION.
+ * Supports SEARCH_PLACES, ENRICH_LEADS, SCORE_LEADS, EVALUATE_RESULTS, WEB_VISIT, CONTACT_EXTRACT, WEB_SEARCH, LEAD_ENRICH, ASK_LEAD_QUESTION,
+ * COMPANY_REGISTRY_LOOKUP.
  * Uses native Google Places API directly (no UI tool endpoint dependency).
  */
 
@@ -15,6 +16,7 @@ import { executeLeadEnrich } from './lead-enrich';
 import type { LeadEnrichInput } from './lead-enrich';
 import { executeAskLeadQuestion } from './ask-lead-question';
 import type { AskLeadQuestionInput } from './ask-lead-question';
+import { getCompanyRegistryProvider, lookupLeadCompany } from './company-registry';
 import { createArtefact } from './artefacts';
 import { isToolEnabled, checkRoutingRules, checkIntentGate } from './tool-registry';
 import { logToolCallStarted, logToolCallCompleted, logToolCallFailed } from './afr-logger';
@@ -193,6 +195,10 @@ export async function executeAction(input: ActionInput): Promise<ActionResult> {
         result = await executeAskLeadQuestionAction(toolArgs, userId, runId, conversationId);
         break;
 
+      case 'COMPANY_REGISTRY_LOOKUP':
+        result = await executeCompanyRegistryLookupAction(toolArgs, userId, runId, conversationId);
+        break;
+
       default:
         console.warn(`[ACTION_EXECUTOR] Unsupported tool: ${toolName}`);
         return {
@@ -657,3 +663,55 @@ async function executeAskLeadQuestionAction(
     data: { envelope },
   };
 }
+
+async function executeCompanyRegistryLookupAction(
+  args: Record<string, unknown>,
+  userId: string,
+  runId?: string,
+  conversationId?: string,
+): Promise<ActionResult> {
+  const leadRaw = args.lead && typeof args.lead === 'object' ? args.lead as Record<string, unknown> : null;
+  if (!leadRaw || typeof leadRaw.business_name !== 'string') {
+    return { success: false, summary: 'COMPANY_REGISTRY_LOOKUP requires a lead object with business_name', error: 'Missing lead.business_name' };
+  }
+
+  const registry = getCompanyRegistryProvider();
+  if (!registry) {
+    return { success: false, summary: 'No company registry provider is configured', error: 'Company registry unavailable' };
+  }
+
+  const businessName = leadRaw.business_name as string;
+  const address = typeof leadRaw.address === 'string' ? leadRaw.address : null;
+  const match = await lookupLeadCompany({ name: businessName, address }, registry);
+
+  if (runId && match) {
+    try {
+      await createArtefact({
+        runId,
+        type: 'company_registry_result',
+        title: `COMPANY_REGISTRY_LOOKUP: ${businessName} → ${match.record.name} (${match.record.companyNumber})`,
+        summary: `Status ${match.record.status}, incorporated ${match.record.incorporatedOn ?? 'unknown'}, ${match.record.officers.filter(o => !o.resignedOn).length} current officer(s), matched on ${match.basis.replace(/_/g, ' ')} via ${match.provider}`,
+        payload: match as unknown as Record<string, unknown>,
+        userId,
+        conversationId,
+      });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`[ACTION_EXECUTOR] Failed to write company_registry_result artefact: ${msg}`);
+    }
+  }
+
+  if (!match) {
+    return {
+      success: false,
+      summary: `No registered company found for ${businessName} (${registry.name})`,
+      error: 'No registry match',
+    };
+  }
+
+  return {
+    success: true,
+    summary: `${businessName} → ${match.record.name} (${match.record.companyNumber}), ${match.record.status}, incorporated ${match.record.incorporatedOn ?? 'unknown'}`,
+    data: { match },
+  };
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  assertWithinBudget,
+  checkBudget,
+  configureBudget,
+  formatBudgetStopReason,
+  getBudgetLimits,
+  peekBudget,
+  BudgetExceededError,
+  _resetBudgets,
+} from './index';
+import { recordApiUsage, setCostLedgerStore, withCostAttribution, InMemoryCostLedgerStore, _settleCostLedger } from '../cost-ledger';
+import { useCassette, ejectCassette } from '../cassette';
+import { callLLM } from '../llm-failover';
+import { rulesPlan } from '../reloop/planner';
+import { registerExecutor } from '../reloop/executor-registry';
+
+beforeEach(() => {
+  setCostLedgerStore(new InMemoryCostLedgerStore());
+  _resetBudgets();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+async function spend(userId: string, searches: number): Promise<void> {
+  recordApiUsage({ label: 'hunter_domain_search', provider: 'hunter', unit: 'domain_search', units: searches, userId });
+  await _settleCostLedger();
+}
+
+describe('getBudgetLimits', () => {
+  it('layers env defaults, BUDGETS_JSON and configureBudget', () => {
+    vi.stubEnv('BUDGET_USER_DAILY_USD', '5');
+    vi.stubEnv('BUDGET_USER_MONTHLY_CALLS', '1000');
+    vi.stubEnv('BUDGETS_JSON', JSON.stringify({ 'user:*': { monthlyUsd: 40 }, 'user:vip': { dailyUsd: 20 } }));
+    expect(getBudgetLimits('user', 'u1')).toEqual({ dailyUsd: 5, monthlyUsd: 40, monthlyCalls: 1000 });
+    expect(getBudgetLimits('user', 'vip')).toEqual({ dailyUsd: 20, monthlyUsd: 40, monthlyCalls: 1000 });
+
+    configureBudget('user', 'vip', { dailyUsd: 50, monthlyCalls: undefined });
+    expect(getBudgetLimits('user', 'vip')).toEqual({ dailyUsd: 50, monthlyUsd: 40 });
+    expect(getBudgetLimits('account', 'a1')).toEqual({});
+  });
+});
+
+describe('checkBudget', () => {
+  it('allows everything when no budget is configured', async () => {
+    await spend('u1', 100);
+    expect(await checkBudget({ userId: 'u1' })).toEqual({ allowed: true, windows: [], exceeded: [], reason: null });
+  });
+
+  it('stops a user once the daily spend limit is reached', async () => {
+    configureBudget('user', 'u1', { dailyUsd: 0.5, monthlyUsd: 10 });
+    await spend('u1', 4);
+
+    const within = await checkBudget({ userId: 'u1' });
+    expect(within.allowed).toBe(true);
+    expect(within.windows.find(w => w.period === 'day')).toMatchObject({ spentUsd: 0.4, remainingUsd: 0.1, calls: 1 });
+
+    await spend('u1', 1);
+    const over = await checkBudget({ userId: 'u1' });
+    expect(over.allowed).toBe(false);
+    expect(over.exceeded.map(w => w.period)).toEqual(['day']);
+    expect(formatBudgetStopReason(over)).toBe('budget_exceeded: user u1 daily spend $0.50 of $0.50');
+    expect((await checkBudget({ userId: 'u2' })).allowed).toBe(true);
+  });
+
+  it('enforces call limits per account', async () => {
+    configureBudget('account', 'acme', { dailyCalls: 2 });
+    withCostAttribution({ userId: 'u1', accountId: 'acme' }, () => {
+      recordApiUsage({ label: 'brave_search', provider: 'brave', unit: 'search' });
+    });
+    await _settleCostLedger();
+    expect((await checkBudget({ userId: 'u2', accountId: 'acme' })).allowed).toBe(true);
+
+    recordApiUsage({ label: 'brave_search', provider: 'brave', unit: 'search', userId: 'u2', accountId: 'acme' });
+    await _settleCostLedger();
+    const check = peekBudget({ userId: 'u2', accountId: 'acme' });
+    expect(check.allowed).toBe(false);
+    expect(check.reason).toBe('account acme daily calls 2 of 2');
+  });
+
+  it('keeps cached usage current from recorded costs', async () => {
+    configureBudget('user', 'u1', { dailyUsd: 0.25 });
+    expect(peekBudget({ userId: 'u1' }).windows).toEqual([]);
+    await checkBudget({ userId: 'u1' });
+
+    await spend('u1', 3);
+    expect(peekBudget({ userId: 'u1' }).allowed).toBe(false);
+  });
+
+  it('never blocks cassette replays', async () => {
+    configureBudget('user', 'u1', { dailyCalls: 0 });
+    const dir = mkdtempSync(path.join(tmpdir(), 'budgets-test-'));
+    try {
+      useCassette('budgets', { mode: 'replay', dir });
+      await expect(assertWithinBudget('router', { userId: 'u1' })).resolves.toBeUndefined();
+    } finally {
+      ejectCassette();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('enforcement', () => {
+  it('refuses LLM calls once the budget in scope is spent', async () => {
+    vi.stubEnv('GROQ_API_KEY', '');
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    configureBudget('user', 'u1', { dailyCalls: 1 });
+    await spend('u1', 1);
+
+    const call = withCostAttribution({ userId: 'u1' }, () => callLLM({ label: 'router', system: 'Classify', user: 'find pubs' }));
+    await expect(call).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('plans the cheapest executor when the budget is spent', async () => {
+    const noop = async () => ({ entities: [] }) as any;
+    const meta = { description: '', strengths: '', limitations: '', typicalUse: '' };
+    registerExecutor('test_expensive', noop, { ...meta, costTier: 'expensive' });
+    registerExecutor('test_cheap', noop, { ...meta, costTier: 'cheap' });
+
+    const decision = await rulesPlan({
+      loopNumber: 2,
+      loopHistory: [],
+      availableExecutors: ['test_expensive', 'test_cheap'],
+      circuitBreaker: true,
+      budgetExceeded: true,
+    });
+    expect(decision.executorType).toBe('test_cheap');
+  });
+});
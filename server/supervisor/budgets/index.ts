@@ -0,0 +1,341 @@
+/**
+ * Budgets
+ *
+ * Daily and monthly spend (USD) and call caps per user and per account,
+ * measured against the cost ledger. Limits come from env defaults
+ * (BUDGET_USER_DAILY_USD, BUDGET_ACCOUNT_MONTHLY_CALLS, ...), per-subject
+ * BUDGETS_JSON entries ({"user:<id>": {"dailyUsd": 5}}) and configureBudget();
+ * with nothing configured every call is allowed.
+ *
+ * Usage is loaded from the ledger once per window and kept current from
+ * onCostRecorded(), so peekBudget() can answer synchronously inside the
+ * mission executor's deadline checks. assertWithinBudget() guards LLM and
+ * paid-API calls and throws BudgetExceededError; the executor turns that into
+ * a `budget_exceeded` stop reason. Cassette replays are free and never blocked.
+ */
+
+import { isCassetteReplaying } from '../cassette';
+import {
+  getCostAttribution,
+  getCostLedgerStore,
+  onCostRecorded,
+  type CostAttribution,
+  type CostFilter,
+  type CostRecord,
+} from '../cost-ledger';
+import type { BudgetCheck, BudgetLimits, BudgetPeriod, BudgetScope, BudgetWindowStatus } from './types';
+import { BUDGET_PERIODS } from './types';
+
+export * from './types';
+
+/** Prefix of delivery-summary stop reasons for runs halted by a budget */
+export const BUDGET_EXCEEDED_STOP_REASON = 'budget_exceeded';
+
+/** Reload ledger totals this often; recorded costs are added in between */
+const USAGE_REFRESH_MS = 60_000;
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly check: BudgetCheck,
+  ) {
+    super(`${BUDGET_EXCEEDED_STOP_REASON}: ${check.reason} (blocked ${label})`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// ============================================
+// LIMITS
+// ============================================
+
+const LIMIT_ENV_SUFFIXES: Record<keyof BudgetLimits, string> = {
+  dailyUsd: 'DAILY_USD',
+  monthlyUsd: 'MONTHLY_USD',
+  dailyCalls: 'DAILY_CALLS',
+  monthlyCalls: 'MONTHLY_CALLS',
+};
+
+const configured = new Map<string, BudgetLimits>();
+
+let overridesRaw: string | undefined;
+let overrides: Record<string, BudgetLimits> = {};
+
+function getJsonOverrides(): Record<string, BudgetLimits> {
+  const raw = process.env.BUDGETS_JSON;
+  if (raw !== overridesRaw) {
+    overridesRaw = raw;
+    try {
+      overrides = raw ? JSON.parse(raw) : {};
+    } catch (err: any) {
+      console.warn(`[BUDGET] Ignoring invalid BUDGETS_JSON: ${err?.message || err}`);
+      overrides = {};
+    }
+  }
+  return overrides;
+}
+
+function validLimit(value: unknown): number | undefined {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+function envLimits(scope: BudgetScope): BudgetLimits {
+  const limits: BudgetLimits = {};
+  (Object.keys(LIMIT_ENV_SUFFIXES) as Array<keyof BudgetLimits>).forEach(key => {
+    const raw = process.env[`BUDGET_${scope.toUpperCase()}_${LIMIT_ENV_SUFFIXES[key]}`];
+    const value = raw === undefined || raw === '' ? undefined : validLimit(raw);
+    if (value !== undefined) limits[key] = value;
+  });
+  return limits;
+}
+
+function mergeLimits(base: BudgetLimits, extra: BudgetLimits | undefined): BudgetLimits {
+  if (!extra) return base;
+  const merged: BudgetLimits = { ...base };
+  (Object.keys(LIMIT_ENV_SUFFIXES) as Array<keyof BudgetLimits>).forEach(key => {
+    if (!(key in extra)) return;
+    const value = validLimit(extra[key]);
+    if (value === undefined) delete merged[key];
+    else merged[key] = value;
+  });
+  return merged;
+}
+
+/**
+ * Set limits for one subject, or for every subject of a scope with '*'.
+ * Fields set here win over BUDGETS_JSON and env defaults; null clears the override.
+ */
+export function configureBudget(scope: BudgetScope, subjectId: string, limits: BudgetLimits | null): void {
+  if (limits) configured.set(`${scope}:${subjectId}`, limits);
+  else configured.delete(`${scope}:${subjectId}`);
+}
+
+/**
+ * Effective limits: env defaults < BUDGETS_JSON "<scope>:*" < "<scope>:<id>"
+ * < configureBudget("*") < configureBudget(id).
+ */
+export function getBudgetLimits(scope: BudgetScope, subjectId: string): BudgetLimits {
+  const json = getJsonOverrides();
+  let limits = envLimits(scope);
+  limits = mergeLimits(limits, json[`${scope}:*`]);
+  limits = mergeLimits(limits, json[`${scope}:${subjectId}`]);
+  limits = mergeLimits(limits, configured.get(`${scope}:*`));
+  limits = mergeLimits(limits, configured.get(`${scope}:${subjectId}`));
+  return limits;
+}
+
+function periodLimits(limits: BudgetLimits, period: BudgetPeriod): { usd: number | null; calls: number | null } {
+  return period === 'day'
+    ? { usd: limits.dailyUsd ?? null, calls: limits.dailyCalls ?? null }
+    : { usd: limits.monthlyUsd ?? null, calls: limits.monthlyCalls ?? null };
+}
+
+// ============================================
+// USAGE
+// ============================================
+
+interface WindowUsage {
+  spentUsd: number;
+  calls: number;
+  loadedAt: number;
+}
+
+const usageCache = new Map<string, WindowUsage>();
+const pendingLoads = new Map<string, Promise<WindowUsage>>();
+
+function periodStart(period: BudgetPeriod, at: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()))
+    : new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+}
+
+function periodEnd(period: BudgetPeriod, start: Date): Date {
+  return period === 'day'
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1))
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+function usageKey(scope: BudgetScope, subjectId: string, start: Date): string {
+  return `${scope}:${subjectId}:${start.toISOString()}`;
+}
+
+function loadUsage(scope: BudgetScope, subjectId: string, start: Date): Promise<WindowUsage> {
+  const key = usageKey(scope, subjectId, start);
+  const pending = pendingLoads.get(key);
+  if (pending) return pending;
+
+  const filter: CostFilter = scope === 'user'
+    ? { userId: subjectId, from: start.toISOString() }
+    : { accountId: subjectId, from: start.toISOString() };
+  const load = getCostLedgerStore().summarize(scope, filter)
+    .then(rows => {
+      const usage: WindowUsage = {
+        spentUsd: rows.reduce((sum, row) => sum + row.costUsd, 0),
+        calls: rows.reduce((sum, row) => sum + row.calls, 0),
+        loadedAt: Date.now(),
+      };
+      usageCache.set(key, usage);
+      return usage;
+    })
+    .finally(() => pendingLoads.delete(key));
+  pendingLoads.set(key, load);
+  return load;
+}
+
+function isFresh(usage: WindowUsage | undefined): usage is WindowUsage {
+  return !!usage && Date.now() - usage.loadedAt < USAGE_REFRESH_MS;
+}
+
+function trackRecord(record: CostRecord): void {
+  const at = new Date(record.createdAt);
+  const subjects: Array<[BudgetScope, string | undefined]> = [['user', record.userId], ['account', record.accountId]];
+  subjects.forEach(([scope, subjectId]) => {
+    if (!subjectId) return;
+    BUDGET_PERIODS.forEach(period => {
+      const usage = usageCache.get(usageKey(scope, subjectId, periodStart(period, at)));
+      if (!usage) return;
+      usage.spentUsd += record.costUsd;
+      usage.calls++;
+    });
+  });
+}
+
+onCostRecorded(trackRecord);
+
+// ============================================
+// CHECKS
+// ============================================
+
+interface BudgetWindowSpec {
+  scope: BudgetScope;
+  subjectId: string;
+  period: BudgetPeriod;
+  start: Date;
+  limitUsd: number | null;
+  limitCalls: number | null;
+}
+
+function windowSpecs(attribution: CostAttribution, now: Date): BudgetWindowSpec[] {
+  const specs: BudgetWindowSpec[] = [];
+  const subjects: Array<[BudgetScope, string | undefined]> = [['user', attribution.userId], ['account', attribution.accountId]];
+  subjects.forEach(([scope, subjectId]) => {
+    if (!subjectId) return;
+    const limits = getBudgetLimits(scope, subjectId);
+    BUDGET_PERIODS.forEach(period => {
+      const { usd, calls } = periodLimits(limits, period);
+      if (usd === null && calls === null) return;
+      specs.push({ scope, subjectId, period, start: periodStart(period, now), limitUsd: usd, limitCalls: calls });
+    });
+  });
+  return specs;
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function toStatus(spec: BudgetWindowSpec, usage: WindowUsage): BudgetWindowStatus {
+  const spentUsd = round(usage.spentUsd, 6);
+  const exceeded = (spec.limitUsd !== null && spentUsd >= spec.limitUsd)
+    || (spec.limitCalls !== null && usage.calls >= spec.limitCalls);
+  return {
+    scope: spec.scope,
+    subjectId: spec.subjectId,
+    period: spec.period,
+    periodStart: spec.start.toISOString(),
+    resetsAt: periodEnd(spec.period, spec.start).toISOString(),
+    spentUsd,
+    calls: usage.calls,
+    limitUsd: spec.limitUsd,
+    limitCalls: spec.limitCalls,
+    remainingUsd: spec.limitUsd === null ? null : Math.max(0, round(spec.limitUsd - spentUsd, 6)),
+    remainingCalls: spec.limitCalls === null ? null : Math.max(0, spec.limitCalls - usage.calls),
+    exceeded,
+  };
+}
+
+function describeWindow(status: BudgetWindowStatus): string {
+  const period = status.period === 'day' ? 'daily' : 'monthly';
+  if (status.limitUsd !== null && status.spentUsd >= status.limitUsd) {
+    return `${status.scope} ${status.subjectId} ${period} spend $${status.spentUsd.toFixed(2)} of $${status.limitUsd.toFixed(2)}`;
+  }
+  return `${status.scope} ${status.subjectId} ${period} calls ${status.calls} of ${status.limitCalls}`;
+}
+
+function toCheck(windows: BudgetWindowStatus[]): BudgetCheck {
+  const exceeded = windows.filter(w => w.exceeded);
+  return {
+    allowed: exceeded.length === 0,
+    windows,
+    exceeded,
+    reason: exceeded.length > 0 ? exceeded.map(describeWindow).join('; ') : null,
+  };
+}
+
+/**
+ * Check the user/account budgets for the given attribution (default: the
+ * current cost scope). Fails open when the ledger cannot be read.
+ */
+export async function checkBudget(attribution: CostAttribution = getCostAttribution()): Promise<BudgetCheck> {
+  if (isCassetteReplaying()) return toCheck([]);
+  const windows = await Promise.all(windowSpecs(attribution, new Date()).map(async spec => {
+    const cached = usageCache.get(usageKey(spec.scope, spec.subjectId, spec.start));
+    try {
+      const usage = isFresh(cached) ? cached : await loadUsage(spec.scope, spec.subjectId, spec.start);
+      return toStatus(spec, usage);
+    } catch (err: any) {
+      console.warn(`[BUDGET] Could not load ${spec.scope} ${spec.subjectId} usage: ${err?.message || err}`);
+      return cached ? toStatus(spec, cached) : null;
+    }
+  }));
+  return toCheck(windows.filter((w): w is BudgetWindowStatus => w !== null));
+}
+
+/**
+ * Synchronous check from cached usage only; stale or missing windows are
+ * refreshed in the background and count as within budget until loaded.
+ */
+export function peekBudget(attribution: CostAttribution = getCostAttribution()): BudgetCheck {
+  if (isCassetteReplaying()) return toCheck([]);
+  const windows: BudgetWindowStatus[] = [];
+  windowSpecs(attribution, new Date()).forEach(spec => {
+    const cached = usageCache.get(usageKey(spec.scope, spec.subjectId, spec.start));
+    if (!isFresh(cached)) {
+      loadUsage(spec.scope, spec.subjectId, spec.start).catch(() => {});
+    }
+    if (cached) windows.push(toStatus(spec, cached));
+  });
+  return toCheck(windows);
+}
+
+/**
+ * Throw BudgetExceededError when a budget in scope is exhausted. Call before
+ * an LLM or paid-API call.
+ */
+export async function assertWithinBudget(label: string, attribution?: CostAttribution): Promise<void> {
+  const check = await checkBudget(attribution);
+  if (!check.allowed) {
+    console.warn(`[BUDGET] Blocked ${label}: ${check.reason}`);
+    throw new BudgetExceededError(label, check);
+  }
+}
+
+export function isBudgetExceededError(err: unknown): err is BudgetExceededError {
+  return err instanceof BudgetExceededError;
+}
+
+/** Delivery-summary stop reason for a failed check */
+export function formatBudgetStopReason(check: BudgetCheck): string {
+  return `${BUDGET_EXCEEDED_STOP_REASON}: ${check.reason ?? 'budget exhausted'}`;
+}
+
+/**
+ * Clear overrides and cached usage
+ * @internal Exported for testing only
+ */
+export function _resetBudgets(): void {
+  configured.clear();
+  usageCache.clear();
+  pendingLoads.clear();
+}
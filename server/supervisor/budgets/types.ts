@@ -0,0 +1,43 @@
+/**
+ * Budget Types
+ */
+
+export type BudgetScope = 'user' | 'account';
+
+export type BudgetPeriod = 'day' | 'month';
+
+export const BUDGET_PERIODS: BudgetPeriod[] = ['day', 'month'];
+
+/** Spend (USD) and call caps for one user or account; unset fields are unlimited */
+export interface BudgetLimits {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+  dailyCalls?: number;
+  monthlyCalls?: number;
+}
+
+/** One budget window (e.g. user u1, this month) with its usage so far */
+export interface BudgetWindowStatus {
+  scope: BudgetScope;
+  subjectId: string;
+  period: BudgetPeriod;
+  /** UTC start of the current day or month */
+  periodStart: string;
+  resetsAt: string;
+  spentUsd: number;
+  calls: number;
+  limitUsd: number | null;
+  limitCalls: number | null;
+  remainingUsd: number | null;
+  remainingCalls: number | null;
+  exceeded: boolean;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  /** Windows with at least one limit configured */
+  windows: BudgetWindowStatus[];
+  exceeded: BudgetWindowStatus[];
+  /** Human-readable cause when not allowed, e.g. "user u1 daily spend $5.02 of $5.00" */
+  reason: string | null;
+}
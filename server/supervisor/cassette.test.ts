@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  useCassette,
+  ejectCassette,
+  cassetteFetch,
+  withCassette,
+  normalizeRequest,
+  normalizeUrl,
+  hashRequest,
+  CassetteMissError,
+  type CassetteFile,
+} from './cassette';
+import { callLLM } from './llm-failover';
+
+describe('cassette normalisation', () => {
+  it('masks dates and collapses whitespace', () => {
+    const a = normalizeRequest({ system: "TODAY'S DATE: Monday 5 January 2026 (2026-01-05). Current year: 2026.\n\n  Be brief." });
+    const b = normalizeRequest({ system: "TODAY'S DATE: Sunday 18 October 2026 (2026-10-18). Current year: 2026. Be brief." });
+    expect(a).toEqual(b);
+    expect(hashRequest('llm', a)).toBe(hashRequest('llm', b));
+  });
+
+  it('sorts keys and drops undefined values', () => {
+    expect(JSON.stringify(normalizeRequest({ b: 1, a: { d: undefined, c: 2 } }))).toBe('{"a":{"c":2},"b":1}');
+  });
+
+  it('strips secret query params and sorts the rest', () => {
+    expect(normalizeUrl('https://maps.example/geocode?key=SECRET&address=Brighton&b=2'))
+      .toBe('https://maps.example/geocode?address=Brighton&b=2');
+  });
+
+  it('keys on kind as well as request', () => {
+    expect(hashRequest('brave', { q: 1 })).not.toBe(hashRequest('web_visit', { q: 1 }));
+  });
+});
+
+describe('cassette record/replay', () => {
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+  let hits = 0;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'cassette-test-'));
+    server = createServer((req, res) => {
+      hits++;
+      if (req.url?.startsWith('/missing')) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('not here');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ hit: hits }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => ejectCassette());
+
+  it('passes through when no cassette is loaded', async () => {
+    const res = await cassetteFetch('brave', `${baseUrl}/search?q=pubs`);
+    expect(res.status).toBe(200);
+  });
+
+  it('records responses and replays them in order without the network', async () => {
+    useCassette('http', { mode: 'record', dir });
+    const first = await (await cassetteFetch('brave', `${baseUrl}/search?q=pubs&key=abc`)).json();
+    const second = await (await cassetteFetch('brave', `${baseUrl}/search?q=pubs&key=abc`)).json();
+    const missing = await cassetteFetch('web_visit', `${baseUrl}/missing`);
+    expect(first.hit).not.toBe(second.hit);
+    expect(missing.status).toBe(404);
+
+    const file = JSON.parse(readFileSync(path.join(dir, 'http.json'), 'utf8')) as CassetteFile;
+    expect(JSON.stringify(file)).not.toContain('key=abc');
+
+    const hitsBefore = hits;
+    useCassette('http', { mode: 'replay', dir });
+    const replayed1 = await (await cassetteFetch('brave', `${baseUrl}/search?key=other&q=pubs`)).json();
+    const replayed2 = await (await cassetteFetch('brave', `${baseUrl}/search?q=pubs`)).json();
+    const replayed3 = await (await cassetteFetch('brave', `${baseUrl}/search?q=pubs`)).json();
+    const replayedMissing = await cassetteFetch('web_visit', `${baseUrl}/missing`);
+    expect([replayed1.hit, replayed2.hit, replayed3.hit]).toEqual([first.hit, second.hit, second.hit]);
+    expect(replayedMissing.status).toBe(404);
+    expect(await replayedMissing.text()).toBe('not here');
+    expect(hits).toBe(hitsBefore);
+  });
+
+  it('throws CassetteMissError for unrecorded requests in replay mode', async () => {
+    useCassette('http', { mode: 'replay', dir });
+    await expect(cassetteFetch('brave', `${baseUrl}/search?q=cafes`)).rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it('records thrown errors and rethrows them on replay', async () => {
+    useCassette('errors', { mode: 'record', dir });
+    await expect(withCassette('web_visit_playwright', { url: 'x' }, async () => { throw new Error('browser crashed'); }))
+      .rejects.toThrow('browser crashed');
+
+    useCassette('errors', { mode: 'replay', dir });
+    await expect(withCassette('web_visit_playwright', { url: 'x' }, async () => 'live')).rejects.toThrow('browser crashed');
+  });
+
+  it('auto mode replays recorded calls and records new ones', async () => {
+    useCassette('auto', { mode: 'auto', dir });
+    expect(await withCassette('llm', { user: 'a' }, async () => 'first')).toBe('first');
+
+    useCassette('auto', { mode: 'auto', dir });
+    expect(await withCassette('llm', { user: 'a' }, async () => 'live')).toBe('first');
+    expect(await withCassette('llm', { user: 'b' }, async () => 'second')).toBe('second');
+  });
+
+  it('replays callLLM without API keys', async () => {
+    const keys = ['GROQ_API_KEY', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY'];
+    const saved = keys.map(k => process.env[k]);
+    keys.forEach(k => delete process.env[k]);
+
+    const request = normalizeRequest({ label: 'router', system: 'Classify', user: 'find pubs', maxTokens: 500, temperature: 0 });
+    const file: CassetteFile = {
+      version: 1,
+      name: 'llm',
+      entries: {
+        [hashRequest('llm', request)]: {
+          kind: 'llm',
+          request,
+          responses: [{ value: { text: 'SEARCH', provider: 'anthropic', failedOver: false, primaryError: null, durationMs: 12 } }],
+        },
+      },
+    };
+    writeFileSync(path.join(dir, 'llm.json'), JSON.stringify(file));
+
+    try {
+      useCassette('llm', { mode: 'replay', dir });
+      const result = await callLLM({ label: 'router', system: 'Classify', user: 'find  pubs\n' });
+      expect(result.text).toBe('SEARCH');
+      expect(result.provider).toBe('anthropic');
+    } finally {
+      keys.forEach((k, i) => {
+        if (saved[i] !== undefined) process.env[k] = saved[i];
+      });
+    }
+  });
+});
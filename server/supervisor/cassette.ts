@@ -0,0 +1,338 @@
+/**
+ * Cassette Record/Replay
+ *
+ * Records LLM and external HTTP calls to a JSON cassette, keyed by a normalised
+ * request hash, and replays them deterministically. Sits under callLLM
+ * (llm-failover.ts, mission-extractor.ts) and the HTTP clients in web-search.ts,
+ * google-places.ts and web-visit.ts, so critical-path stages can run offline.
+ *
+ * Modes (CASSETTE_MODE, or useCassette(name, { mode })):
+ *   off     — pass through (default when no cassette is loaded)
+ *   record  — call live and (re)record every response
+ *   replay  — serve recorded responses; an unrecorded request throws CassetteMissError
+ *   auto    — replay when recorded, otherwise record
+ *
+ * Keys ignore headers and secret query params (API keys never reach the cassette),
+ * collapse whitespace and mask dates so prompts with a TODAY'S DATE preamble still match.
+ * Repeated identical requests replay their recorded responses in order.
+ *
+ * CASSETTE_NAME + CASSETTE_MODE load a cassette for the whole process;
+ * CASSETTE_DIR overrides the directory (default: ./cassettes).
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+export type CassetteMode = 'off' | 'record' | 'replay' | 'auto';
+
+export type CassetteKind = 'llm' | 'brave' | 'google_places' | 'google_geocode' | 'web_visit' | 'web_visit_playwright' | 'companies_house';
+
+/** A recorded outcome: the value returned, or the error thrown */
+export type CassetteOutcome = { value: unknown } | { error: string };
+
+export interface CassetteEntry {
+  kind: CassetteKind;
+  /** Normalised request, kept for readability and debugging */
+  request: unknown;
+  responses: CassetteOutcome[];
+}
+
+export interface CassetteFile {
+  version: 1;
+  name: string;
+  entries: Record<string, CassetteEntry>;
+}
+
+/** Serialised fetch Response */
+export interface RecordedHttpResponse {
+  status: number;
+  statusText: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  bodyEncoding: 'utf8' | 'base64';
+}
+
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly cassette: string,
+    public readonly kind: CassetteKind,
+    public readonly hash: string,
+  ) {
+    super(`Cassette "${cassette}" has no recording for ${kind} request ${hash.substring(0, 12)} (re-record with CASSETTE_MODE=record)`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+// ============================================
+// NORMALISATION
+// ============================================
+
+const SECRET_QUERY_PARAMS = new Set(['key', 'api_key', 'apikey', 'token', 'access_token', 'client_secret']);
+
+const DATE_PATTERNS: RegExp[] = [
+  /\b\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?\b/g,
+  /\b(Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday),? \d{1,2} (January|February|March|April|May|June|July|August|September|October|November|December) \d{4}\b/g,
+  /\bCurrent year: \d{4}\b/g,
+];
+
+function normalizeString(value: string): string {
+  let out = value.replace(/\s+/g, ' ').trim();
+  DATE_PATTERNS.forEach(pattern => {
+    out = out.replace(pattern, '<date>');
+  });
+  return out;
+}
+
+/**
+ * Normalise a URL: drop secret query params and sort the rest.
+ */
+export function normalizeUrl(raw: string): string {
+  try {
+    const url = new URL(raw);
+    const params = Array.from(url.searchParams.entries())
+      .filter(([k]) => !SECRET_QUERY_PARAMS.has(k.toLowerCase()))
+      .sort(([a], [b]) => a.localeCompare(b));
+    url.search = '';
+    params.forEach(([k, v]) => url.searchParams.append(k, v));
+    return url.toString();
+  } catch {
+    return raw.trim();
+  }
+}
+
+/**
+ * Normalise a request value: strings collapsed and date-masked, object keys
+ * sorted, undefined dropped.
+ */
+export function normalizeRequest(value: unknown): unknown {
+  if (typeof value === 'string') return normalizeString(value);
+  if (Array.isArray(value)) return value.map(normalizeRequest);
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    Object.keys(value as Record<string, unknown>).sort().forEach(key => {
+      const v = (value as Record<string, unknown>)[key];
+      if (v !== undefined) out[key] = normalizeRequest(v);
+    });
+    return out;
+  }
+  return value;
+}
+
+export function hashRequest(kind: CassetteKind, normalized: unknown): string {
+  return createHash('sha256').update(`${kind}\n${JSON.stringify(normalized)}`).digest('hex');
+}
+
+// ============================================
+// CASSETTE
+// ============================================
+
+export class Cassette {
+  readonly filePath: string;
+  private file: CassetteFile;
+  /** Calls seen this session, per hash (replay cursor / re-record reset) */
+  private seen = new Map<string, number>();
+
+  constructor(
+    readonly name: string,
+    readonly mode: Exclude<CassetteMode, 'off'>,
+    dir: string,
+  ) {
+    this.filePath = path.join(dir, `${name}.json`);
+    this.file = existsSync(this.filePath)
+      ? JSON.parse(readFileSync(this.filePath, 'utf8')) as CassetteFile
+      : { version: 1, name, entries: {} };
+  }
+
+  get size(): number {
+    return Object.keys(this.file.entries).length;
+  }
+
+  /**
+   * Next recorded outcome for a hash, or undefined when it should be recorded.
+   */
+  next(kind: CassetteKind, hash: string): CassetteOutcome | undefined {
+    const entry = this.file.entries[hash];
+    const index = this.seen.get(hash) ?? 0;
+    if (this.mode === 'record' || (this.mode === 'auto' && (!entry || index >= entry.responses.length))) {
+      return undefined;
+    }
+    if (!entry || entry.responses.length === 0) {
+      throw new CassetteMissError(this.name, kind, hash);
+    }
+    this.seen.set(hash, index + 1);
+    // Extra calls beyond the recording repeat the last response
+    return entry.responses[Math.min(index, entry.responses.length - 1)];
+  }
+
+  record(kind: CassetteKind, hash: string, request: unknown, outcome: CassetteOutcome): void {
+    const index = this.seen.get(hash) ?? 0;
+    const existing = this.file.entries[hash];
+    // The first call in a record session replaces what was recorded before
+    const responses = existing && index > 0 ? existing.responses : [];
+    responses.push(outcome);
+    this.file.entries[hash] = { kind, request, responses };
+    this.seen.set(hash, index + 1);
+    this.save();
+  }
+
+  save(): void {
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, JSON.stringify(this.file, null, 2) + '\n');
+  }
+}
+
+let activeCassette: Cassette | null = null;
+let envCassetteChecked = false;
+
+export function getCassetteDir(): string {
+  return process.env.CASSETTE_DIR || path.join(process.cwd(), 'cassettes');
+}
+
+function parseMode(raw: string | undefined): CassetteMode {
+  return raw === 'record' || raw === 'replay' || raw === 'auto' ? raw : 'off';
+}
+
+/**
+ * Load a cassette and route recordable calls through it.
+ */
+export function useCassette(name: string, options: { mode?: CassetteMode; dir?: string } = {}): Cassette | null {
+  const mode = options.mode ?? parseMode(process.env.CASSETTE_MODE);
+  envCassetteChecked = true;
+  activeCassette = mode === 'off' ? null : new Cassette(name, mode, options.dir ?? getCassetteDir());
+  if (activeCassette) {
+    console.log(`[CASSETTE] ${mode} "${name}" (${activeCassette.size} recorded request(s)) — ${activeCassette.filePath}`);
+  }
+  return activeCassette;
+}
+
+/**
+ * Stop using the active cassette.
+ */
+export function ejectCassette(): void {
+  activeCassette = null;
+  envCassetteChecked = true;
+}
+
+/**
+ * The active cassette; loads CASSETTE_NAME on first use when CASSETTE_MODE is set.
+ */
+export function getActiveCassette(): Cassette | null {
+  if (!envCassetteChecked) {
+    envCassetteChecked = true;
+    const name = process.env.CASSETTE_NAME;
+    if (name && parseMode(process.env.CASSETTE_MODE) !== 'off') {
+      useCassette(name);
+    }
+  }
+  return activeCassette;
+}
+
+/**
+ * True while replaying, when live API keys are not needed.
+ */
+export function isCassetteReplaying(): boolean {
+  return getActiveCassette()?.mode === 'replay';
+}
+
+/**
+ * API key to use for a cassette-backed call: the configured key, or a
+ * placeholder while replaying so "key not set" guards don't short-circuit.
+ */
+export function cassetteApiKey(key: string | undefined): string | undefined {
+  return key || (isCassetteReplaying() ? 'cassette-replay' : undefined);
+}
+
+// ============================================
+// RECORD / REPLAY
+// ============================================
+
+/**
+ * Run a JSON-serialisable call through the active cassette.
+ *
+ * @param kind - Call category (part of the key)
+ * @param request - Everything that determines the response; normalised before hashing
+ * @param call - The live call
+ */
+export async function withCassette<T>(kind: CassetteKind, request: unknown, call: () => Promise<T>): Promise<T> {
+  const cassette = getActiveCassette();
+  if (!cassette) return call();
+
+  const normalized = normalizeRequest(request);
+  const hash = hashRequest(kind, normalized);
+  const recorded = cassette.next(kind, hash);
+  if (recorded) {
+    if ('error' in recorded) throw new Error(recorded.error);
+    return recorded.value as T;
+  }
+
+  try {
+    const value = await call();
+    cassette.record(kind, hash, normalized, { value: value === undefined ? null : value });
+    return value;
+  } catch (err: any) {
+    cassette.record(kind, hash, normalized, { error: err?.message || String(err) });
+    throw err;
+  }
+}
+
+function bodyForKey(body: unknown): unknown {
+  if (body === undefined || body === null) return null;
+  const text = typeof body === 'string' ? body : String(body);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Headers not worth recording (volatile, hop-by-hop or secret) */
+const SKIPPED_RESPONSE_HEADERS = new Set(['set-cookie', 'date', 'connection', 'keep-alive', 'transfer-encoding', 'content-encoding', 'content-length']);
+
+const TEXT_CONTENT_TYPE = /^(text\/|application\/(json|xml|xhtml\+xml|javascript|ld\+json))/i;
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+async function serializeResponse(res: Response): Promise<RecordedHttpResponse> {
+  const headers: Record<string, string> = {};
+  res.headers.forEach((value, key) => {
+    if (!SKIPPED_RESPONSE_HEADERS.has(key)) headers[key] = value;
+  });
+  const buf = Buffer.from(await res.arrayBuffer());
+  const isText = TEXT_CONTENT_TYPE.test(headers['content-type'] || '');
+  return {
+    status: res.status,
+    statusText: res.statusText,
+    url: res.url ? normalizeUrl(res.url) : '',
+    headers,
+    body: isText ? buf.toString('utf8') : buf.toString('base64'),
+    bodyEncoding: isText ? 'utf8' : 'base64',
+  };
+}
+
+function toResponse(recorded: RecordedHttpResponse): Response {
+  const body = NULL_BODY_STATUSES.has(recorded.status)
+    ? null
+    : Buffer.from(recorded.body, recorded.bodyEncoding);
+  const response = new Response(body, { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers });
+  if (recorded.url) {
+    Object.defineProperty(response, 'url', { value: recorded.url });
+  }
+  return response;
+}
+
+/**
+ * fetch() through the active cassette. Keyed by method, normalised URL and body;
+ * headers (API keys) are not part of the key.
+ */
+export async function cassetteFetch(kind: CassetteKind, url: string, init: RequestInit = {}): Promise<Response> {
+  if (!getActiveCassette()) return fetch(url, init);
+
+  const request = {
+    method: (init.method || 'GET').toUpperCase(),
+    url: normalizeUrl(url),
+    body: bodyForKey(init.body),
+  };
+  const recorded = await withCassette<RecordedHttpResponse>(kind, request, async () => serializeResponse(await fetch(url, init)));
+  return toResponse(recorded);
+}
@@ -3,6 +3,7 @@ import { callLLMText } from './llm-failover';
 import { getRelevantReferenceKnowledge } from './reference-knowledge';
 import { getCurrentContextPreamble } from './current-context';
 import { getConversationSummary } from './conversation-summary';
+import { isRateLimitError, withRateLimit } from './rate-limits';
 
 // ─── Public types ─────────────────────────────────────────────────────────────
 
@@ -22,24 +23,6 @@ export interface ChatHandlerOutput {
   messageId: string;
 }
 
-// ─── Circuit breaker — max 10 chat calls per 5 minutes ───────────────────────
-
-const _chatCallTimestamps: number[] = [];
-const CIRCUIT_BREAKER_WINDOW_MS = 5 * 60 * 1000;
-const CIRCUIT_BREAKER_MAX_CALLS = 10;
-
-function isCircuitBroken(): boolean {
-  const cutoff = Date.now() - CIRCUIT_BREAKER_WINDOW_MS;
-  while (_chatCallTimestamps.length > 0 && _chatCallTimestamps[0] < cutoff) {
-    _chatCallTimestamps.shift();
-  }
-  return _chatCallTimestamps.length >= CIRCUIT_BREAKER_MAX_CALLS;
-}
-
-function recordChatCall(): void {
-  _chatCallTimestamps.push(Date.now());
-}
-
 // ─── System prompt ────────────────────────────────────────────────────────────
 
 const CHAT_SYSTEM_PROMPT = `${getCurrentContextPreamble()}
@@ -268,21 +251,20 @@ export async function handleChat(input: ChatHandlerInput): Promise<ChatHandlerOu
 
   const userPrompt = parts.join('\n');
 
-  // 2. Call LLM with circuit breaker
+  // 2. Call LLM under the shared chat limit (route:chat, default 10 per 5 minutes) and breaker
   let response: string;
 
-  if (isCircuitBroken()) {
-    console.warn('[CHAT_HANDLER] Circuit breaker OPEN — using fallback');
-    response = "I'm a bit busy right now. I can find businesses for you — just tell me a business type and location, like 'find cafes in Brighton'.";
-  } else {
-    try {
-      recordChatCall();
-      response = await callLLMText(CHAT_SYSTEM_PROMPT, userPrompt, 'chat', {
-        maxTokens: 2048,
-        temperature: 0.7,
-        timeoutMs: 30_000,
-      });
-    } catch (err: any) {
+  try {
+    response = await withRateLimit({ route: 'chat', userId: input.userId }, () => callLLMText(CHAT_SYSTEM_PROMPT, userPrompt, 'chat', {
+      maxTokens: 2048,
+      temperature: 0.7,
+      timeoutMs: 30_000,
+    }));
+  } catch (err: any) {
+    if (isRateLimitError(err)) {
+      console.warn(`[CHAT_HANDLER] ${err.message} — using fallback`);
+      response = "I'm a bit busy right now. I can find businesses for you — just tell me a business type and location, like 'find cafes in Brighton'.";
+    } else {
       console.error(`[CHAT_HANDLER] LLM call failed: ${err.message}`);
       response = "I can find businesses and leads for you. Just tell me what you're looking for and where — for example, 'find web designers in Manchester'.";
     }
@@ -0,0 +1,147 @@
+/**
+ * Companies House provider for the company registry.
+ *
+ * Uses the public Companies House REST API (free, key required, 600 requests
+ * per 5 minutes): one search call per lead, then profile, officers and
+ * persons-with-significant-control for the chosen company. Responses go
+ * through the cassette and the fetch cache ('company_registry' source), and
+ * each live request is recorded in the cost ledger so call budgets apply.
+ */
+
+import { cassetteFetch } from '../cassette';
+import { fetchCached } from '../fetch-cache';
+import { recordApiUsage } from '../cost-ledger';
+import { checkBudget, formatBudgetStopReason } from '../budgets';
+import type {
+  CompanyController,
+  CompanyOfficer,
+  CompanyRecord,
+  CompanyRegistryProvider,
+  CompanyStatus,
+  CompanySummary,
+} from './types';
+
+export const COMPANIES_HOUSE_API_URL = 'https://api.company-information.service.gov.uk';
+
+interface ChAddress {
+  postal_code?: string;
+  locality?: string;
+  address_line_1?: string;
+}
+
+interface ChSearchResponse {
+  items?: Array<{
+    company_number: string;
+    title: string;
+    company_status?: string;
+    date_of_creation?: string;
+    address?: ChAddress;
+    address_snippet?: string;
+  }>;
+}
+
+interface ChProfileResponse {
+  company_number: string;
+  company_name: string;
+  company_status?: string;
+  date_of_creation?: string;
+  date_of_cessation?: string;
+  sic_codes?: string[];
+  registered_office_address?: ChAddress;
+}
+
+interface ChOfficersResponse {
+  items?: Array<{ name: string; officer_role: string; appointed_on?: string; resigned_on?: string }>;
+}
+
+interface ChControllersResponse {
+  items?: Array<{ name?: string; kind: string; ceased_on?: string }>;
+}
+
+/** individual-person-with-significant-control → individual, and so on */
+function controllerKind(kind: string): string {
+  return kind.replace(/-(?:beneficial-owner|person-with-significant-control)$/, '').replace(/-person$/, '');
+}
+
+function addressSnippet(address: ChAddress | undefined): string | null {
+  if (!address) return null;
+  const parts = [address.address_line_1, address.locality, address.postal_code].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+export class CompaniesHouseProvider implements CompanyRegistryProvider {
+  readonly name = 'companies_house';
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(apiKey: string, baseUrl = COMPANIES_HOUSE_API_URL) {
+    this.apiKey = apiKey;
+    this.baseUrl = baseUrl;
+  }
+
+  /** GET a Companies House path; null on 404, throws on any other failure */
+  private async get<T>(path: string): Promise<T | null> {
+    const budget = await checkBudget();
+    if (!budget.allowed) throw new Error(formatBudgetStopReason(budget));
+
+    const resp = await cassetteFetch('companies_house', `${this.baseUrl}${path}`, {
+      headers: { Authorization: `Basic ${Buffer.from(`${this.apiKey}:`).toString('base64')}` },
+    });
+    recordApiUsage({ label: 'company_registry', provider: 'companies_house', unit: 'request' });
+    if (resp.status === 404) return null;
+    if (!resp.ok) {
+      const errText = await resp.text().catch(() => '');
+      throw new Error(`Companies House returned HTTP ${resp.status} for ${path}: ${errText.substring(0, 200)}`);
+    }
+    return await resp.json() as T;
+  }
+
+  async searchCompanies(query: string, limit: number): Promise<CompanySummary[]> {
+    const cacheKey = `search:${query.toLowerCase().trim()}:${limit}`;
+    return fetchCached('company_registry', cacheKey, async () => {
+      const params = new URLSearchParams({ q: query, items_per_page: String(limit) });
+      const data = await this.get<ChSearchResponse>(`/search/companies?${params.toString()}`);
+      return (data?.items ?? []).map(item => ({
+        companyNumber: item.company_number,
+        name: item.title,
+        status: (item.company_status || 'active') as CompanyStatus,
+        incorporatedOn: item.date_of_creation ?? null,
+        postcode: item.address?.postal_code ?? null,
+        addressSnippet: item.address_snippet ?? addressSnippet(item.address),
+      }));
+    });
+  }
+
+  async getCompany(companyNumber: string): Promise<CompanyRecord | null> {
+    return fetchCached('company_registry', `company:${companyNumber}`, async () => {
+      const number = encodeURIComponent(companyNumber);
+      const profile = await this.get<ChProfileResponse>(`/company/${number}`);
+      if (!profile) return null;
+
+      const [officers, controllers] = await Promise.all([
+        this.get<ChOfficersResponse>(`/company/${number}/officers?items_per_page=100`),
+        this.get<ChControllersResponse>(`/company/${number}/persons-with-significant-control`),
+      ]);
+
+      return {
+        companyNumber: profile.company_number,
+        name: profile.company_name,
+        status: (profile.company_status || 'active') as CompanyStatus,
+        incorporatedOn: profile.date_of_creation ?? null,
+        dissolvedOn: profile.date_of_cessation ?? null,
+        sicCodes: profile.sic_codes ?? [],
+        postcode: profile.registered_office_address?.postal_code ?? null,
+        addressSnippet: addressSnippet(profile.registered_office_address),
+        officers: (officers?.items ?? []).map((o): CompanyOfficer => ({
+          name: o.name,
+          role: o.officer_role,
+          appointedOn: o.appointed_on ?? null,
+          resignedOn: o.resigned_on ?? null,
+        })),
+        controllers: (controllers?.items ?? [])
+          .filter(c => c.name)
+          .map((c): CompanyController => ({ name: c.name!, kind: controllerKind(c.kind), ceasedOn: c.ceased_on ?? null })),
+      };
+    });
+  }
+}
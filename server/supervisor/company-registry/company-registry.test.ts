@@ -0,0 +1,183 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  _resetCompanyRegistryProvider,
+  buildRegistryEvidence,
+  extractPostcode,
+  FixtureCompanyRegistryProvider,
+  judgeRegistryConstraint,
+  lookupLeadCompany,
+  normaliseCompanyName,
+  SAMPLE_REGISTRY_FIXTURE,
+  type CompanyRegistryMatch,
+} from './index';
+import { verifyLeads, type VerifiableLead } from '../cvl';
+import { gatherRegistryEvidence } from '../mission-executor';
+import { preExecutionConstraintGate } from '../constraint-gate';
+import { setToolEnabled } from '../tool-registry';
+import type { StructuredConstraint } from '../goal-to-constraints';
+
+const registry = FixtureCompanyRegistryProvider.fromFile(SAMPLE_REGISTRY_FIXTURE);
+const NOW = new Date('2026-10-18T12:00:00Z');
+
+afterEach(() => {
+  setToolEnabled('COMPANY_REGISTRY_LOOKUP', false);
+  _resetCompanyRegistryProvider();
+});
+
+function constraint(type: string, field: string, operator: string, value: unknown): StructuredConstraint {
+  return { id: `c_${type.toLowerCase()}`, type, field, operator, value, hard: true, rationale: '' } as unknown as StructuredConstraint;
+}
+
+async function match(name: string, address: string | null): Promise<CompanyRegistryMatch> {
+  const found = await lookupLeadCompany({ name, address }, registry);
+  if (!found) throw new Error(`no registry match for ${name}`);
+  return found;
+}
+
+describe('normalisation', () => {
+  it('compares trading and registered names without suffixes', () => {
+    expect(normaliseCompanyName('The Lamb (Lewes) Limited')).toBe('lamb lewes');
+    expect(normaliseCompanyName('Black Cat Brewing Co. Ltd')).toBe('black cat brewing');
+    expect(extractPostcode('10 Fisher St, Lewes bn72be, UK')).toBe('BN7 2BE');
+    expect(extractPostcode('Lewes')).toBeNull();
+  });
+});
+
+describe('lookupLeadCompany', () => {
+  it('ties a trading name to its company through the postcode', async () => {
+    const lamb = await match('The Lamb', '10 Fisher Street, Lewes BN7 2BE');
+    expect(lamb).toMatchObject({ basis: 'name_contains_and_postcode', confidence: 'high', provider: 'fixture' });
+    expect(lamb.record.companyNumber).toBe('09876543');
+  });
+
+  it('accepts a unique exact name without a postcode at medium confidence', async () => {
+    expect(await match('Black Cat Brewing Co', 'Hove')).toMatchObject({ basis: 'name', confidence: 'medium' });
+  });
+
+  it('refuses partial names in another postcode and ambiguous names', async () => {
+    expect(await lookupLeadCompany({ name: 'The Lamb', address: 'Market St, Brighton BN1 1HH' }, registry)).toBeNull();
+    expect(await lookupLeadCompany({ name: 'The Lamb', address: null }, registry)).toBeNull();
+    expect(await lookupLeadCompany({ name: 'The Lamb', address: null }, null)).toBeNull();
+  });
+});
+
+describe('judgeRegistryConstraint', () => {
+  it('answers ownership from controllers and management from officers', async () => {
+    const lamb = await match('The Lamb', 'Lewes BN7 2BE');
+    const owned = judgeRegistryConstraint(constraint('RELATIONSHIP_CHECK', 'owner', 'owned_by', 'Southdown Taverns'), lamb);
+    expect(owned).toMatchObject({ verdict: 'yes', confidence: 'high' });
+    expect(owned.snippet).toContain('Southdown Taverns Limited');
+
+    expect(judgeRegistryConstraint(constraint('RELATIONSHIP_CHECK', 'owner', 'not_owned_by', 'Southdown Taverns'), lamb).verdict).toBe('no');
+    expect(judgeRegistryConstraint(constraint('RELATIONSHIP_CHECK', 'owner', 'owned_by', 'Greene King'), lamb))
+      .toMatchObject({ verdict: 'no', confidence: 'medium' });
+    expect(judgeRegistryConstraint(constraint('RELATIONSHIP_CHECK', 'manager', 'managed_by', 'Susan Hartley'), lamb).verdict).toBe('yes');
+    // Resigned directors no longer manage it
+    expect(judgeRegistryConstraint(constraint('RELATIONSHIP_CHECK', 'manager', 'managed_by', 'Daniel Okafor'), lamb).verdict).toBe('no');
+    expect(judgeRegistryConstraint(constraint('RELATIONSHIP_CHECK', 'supplier', 'serves', 'Harveys'), lamb).verdict).toBe('unknown');
+  });
+
+  it('answers closure from the company status', async () => {
+    const blackCat = await match('Black Cat Brewing', 'Hove BN3 5QD');
+    const closed = judgeRegistryConstraint(constraint('STATUS_CHECK', 'status', 'equals', 'closed'), blackCat);
+    expect(closed).toMatchObject({ verdict: 'yes', confidence: 'high' });
+    expect(closed.reason).toContain('dissolved on 2023-11-07');
+    expect(judgeRegistryConstraint(constraint('STATUS_CHECK', 'status', 'not_equals', 'closed'), blackCat).verdict).toBe('no');
+    expect(judgeRegistryConstraint(constraint('STATUS_CHECK', 'status', 'equals', 'family friendly'), blackCat).verdict).toBe('unknown');
+  });
+
+  it('answers opening dates from the incorporation date', async () => {
+    const harbour = await match('Harbour Lights Taproom', 'Shoreham-by-Sea BN43 5WA');
+    const lamb = await match('The Lamb', 'Lewes BN7 2BE');
+    const recent = constraint('TIME_CONSTRAINT', 'opening_date', 'within_last', '12 months');
+
+    expect(judgeRegistryConstraint(recent, harbour, NOW)).toMatchObject({ verdict: 'yes', confidence: 'high' });
+    expect(judgeRegistryConstraint(recent, lamb, NOW)).toMatchObject({ verdict: 'no', confidence: 'medium' });
+    expect(judgeRegistryConstraint(constraint('TIME_CONSTRAINT', 'established_date', 'before', '2017'), lamb, NOW))
+      .toMatchObject({ verdict: 'yes', confidence: 'high' });
+    expect(judgeRegistryConstraint(constraint('TIME_CONSTRAINT', 'event_date', 'within_next', '6 months'), lamb, NOW).verdict).toBe('unknown');
+  });
+});
+
+describe('CVL registry evidence', () => {
+  it('verifies ownership and status ahead of website evidence', async () => {
+    const lead = (name: string, address: string): VerifiableLead => ({
+      name, address, phone: null, website: null, placeId: `p_${name}`, source: 'google_places', lat: null, lng: null,
+    });
+    const leads = [lead('The Lamb', '10 Fisher Street, Lewes BN7 2BE'), lead('Black Cat Brewing', 'Hove BN3 5QD'), lead('The Swan', 'Lewes BN7 1AA')];
+    const evidence = await buildRegistryEvidence(leads, registry);
+    expect(Array.from(evidence.keys())).toEqual(['p_The Lamb', 'p_Black Cat Brewing']);
+
+    const constraints = [
+      constraint('RELATIONSHIP_CHECK', 'owner', 'owned_by', 'Southdown Taverns'),
+      constraint('STATUS_CHECK', 'status', 'not_equals', 'closed'),
+    ];
+    const result = verifyLeads(leads, constraints, null, 20, 3, undefined, true, undefined, evidence);
+
+    expect(result.leadVerifications.map(lv => lv.constraint_checks.map(cc => cc.status))).toEqual([
+      ['yes', 'yes'],
+      ['no', 'no'],
+      ['unknown', 'unknown'],
+    ]);
+    expect(result.evidenceItems.filter(e => e.lead_index === 0)).toEqual([
+      expect.objectContaining({ field: 'company_registry', source: 'fixture' }),
+      expect.objectContaining({ field: 'company_registry', source: 'fixture' }),
+    ]);
+  });
+});
+
+describe('mission registry evidence', () => {
+  it('answers ownership checks for matched leads and leaves the rest to web evidence', async () => {
+    const leads = [
+      { name: 'The Lamb', address: '10 Fisher Street, Lewes BN7 2BE', placeId: 'p_lamb' },
+      { name: 'The Swan', address: 'Lewes BN7 1AA', placeId: 'p_swan' },
+    ];
+    const owned = { type: 'relationship_check', field: 'owner', operator: 'owned_by', value: 'Southdown Taverns', hardness: 'hard' } as const;
+    const partners = { type: 'relationship_check', field: 'partner', operator: 'partners_with', value: 'Harvey\'s', hardness: 'soft' } as const;
+
+    const results = await gatherRegistryEvidence(leads, [owned, partners], registry);
+    expect(results).toEqual([
+      expect.objectContaining({
+        leadIndex: 0, leadPlaceId: 'p_lamb', constraintType: 'relationship_check', constraintValue: 'Southdown Taverns',
+        evidenceFound: true, evidenceStrength: 'strong', verdict: 'verified',
+      }),
+    ]);
+    expect(await gatherRegistryEvidence(leads, [owned], null)).toEqual([]);
+  });
+
+  it('answers status checks and recent opening dates, leaving old incorporations to web evidence', async () => {
+    const leads = [
+      { name: 'The Lamb', address: '10 Fisher Street, Lewes BN7 2BE', placeId: 'p_lamb' },
+      { name: 'Black Cat Brewing', address: 'Hove BN3 5QD', placeId: 'p_black_cat' },
+      { name: 'Harbour Lights Taproom', address: 'Shoreham-by-Sea BN43 5WA', placeId: 'p_harbour' },
+    ];
+    const trading = { type: 'status_check', field: 'status', operator: 'equals', value: 'active', hardness: 'hard' } as const;
+    const opened = { type: 'time_constraint', field: 'opening_date', operator: 'since', value: '2026', hardness: 'hard' } as const;
+
+    const results = await gatherRegistryEvidence(leads, [trading, opened], registry);
+    expect(results.map(r => [r.leadPlaceId, r.constraintType, r.evidenceFound, r.verdict])).toEqual([
+      ['p_lamb', 'status_check', true, 'verified'],
+      ['p_black_cat', 'status_check', false, 'no_evidence'],
+      ['p_harbour', 'status_check', true, 'verified'],
+      ['p_harbour', 'time_constraint', true, 'verified'],
+    ]);
+    expect(results[1].towerReasoning).toContain('dissolved');
+    expect(results[3].snippets).toEqual([expect.stringContaining('incorporated_on=2026-02-09')]);
+  });
+});
+
+describe('constraint gate', () => {
+  it('runs ownership predicates as official_only once the registry tool is enabled', async () => {
+    expect((await preExecutionConstraintGate('Find breweries in Sussex owned by AB InBev')).can_execute).toBe(false);
+
+    setToolEnabled('COMPANY_REGISTRY_LOOKUP', true);
+    const contract = await preExecutionConstraintGate('Find breweries in Sussex owned by AB InBev');
+    expect(contract.can_execute).toBe(true);
+    expect(contract.constraints.find(c => c.type === 'relationship_predicate')).toMatchObject({
+      can_execute: true,
+      chosen_relationship_strategy: 'official_only',
+    });
+    // Other relationships still ask
+    expect((await preExecutionConstraintGate('Find pubs in Bristol and the landlord name')).can_execute).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Fixture provider for the company registry: serves company records from a
+ * local JSON file ({ "companies": CompanyRecord[] }) so tests and offline
+ * development can resolve leads without a Companies House key.
+ * data/sample-companies.json is a small example.
+ */
+
+import { readFileSync } from 'fs';
+import type { CompanyRecord, CompanyRegistryProvider, CompanySummary } from './types';
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+function toSummary(record: CompanyRecord): CompanySummary {
+  const { companyNumber, name, status, incorporatedOn, postcode, addressSnippet } = record;
+  return { companyNumber, name, status, incorporatedOn, postcode, addressSnippet };
+}
+
+export class FixtureCompanyRegistryProvider implements CompanyRegistryProvider {
+  readonly name = 'fixture';
+  private records: CompanyRecord[];
+
+  constructor(records: CompanyRecord[]) {
+    this.records = records;
+  }
+
+  static fromFile(filePath: string): FixtureCompanyRegistryProvider {
+    const data = JSON.parse(readFileSync(filePath, 'utf-8')) as { companies?: CompanyRecord[] };
+    if (!Array.isArray(data.companies)) {
+      throw new Error(`Company registry fixture ${filePath} has no "companies" array`);
+    }
+    return new FixtureCompanyRegistryProvider(data.companies);
+  }
+
+  /** Companies whose name contains every word of the query, like a strict registry search */
+  async searchCompanies(query: string, limit: number): Promise<CompanySummary[]> {
+    const wanted = tokens(query);
+    if (wanted.length === 0) return [];
+    return this.records
+      .filter(r => {
+        const have = new Set(tokens(r.name));
+        return wanted.every(t => have.has(t));
+      })
+      .slice(0, limit)
+      .map(toSummary);
+  }
+
+  async getCompany(companyNumber: string): Promise<CompanyRecord | null> {
+    return this.records.find(r => r.companyNumber === companyNumber) ?? null;
+  }
+}
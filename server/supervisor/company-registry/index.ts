@@ -0,0 +1,426 @@
+/**
+ * Company Registry
+ *
+ * Resolves a lead to its registered company — number, status, incorporation
+ * date, SIC codes, officers and persons with significant control — and judges
+ * ownership, status and opening-date constraints against that record. Backs
+ * the COMPANY_REGISTRY_LOOKUP tool, the mission executor's COMPANY_REGISTRY
+ * phase and CVL's registry evidence, which answer owned_by / managed_by
+ * checks that website evidence rarely settles.
+ *
+ * Records come from a CompanyRegistryProvider chosen from the environment:
+ * Companies House when COMPANIES_HOUSE_API_KEY is set, or a local JSON
+ * fixture (COMPANY_REGISTRY_FIXTURE). COMPANY_REGISTRY_PROVIDER forces one
+ * ('companies_house' | 'fixture' | 'off'). With neither configured the
+ * registry is off and the tool stays disabled.
+ */
+
+import path from 'path';
+import { cassetteApiKey } from '../cassette';
+import type { StructuredConstraint } from '../goal-to-constraints';
+import { parseWindowDays } from '../time-predicate';
+import { CompaniesHouseProvider } from './companies-house';
+import { FixtureCompanyRegistryProvider } from './fixture-provider';
+import type { CompanyRecord, CompanyRegistryMatch, CompanyRegistryProvider, CompanySummary, RegistryVerdict } from './types';
+
+export * from './types';
+export { CompaniesHouseProvider } from './companies-house';
+export { FixtureCompanyRegistryProvider } from './fixture-provider';
+
+/** Small example fixture, usable as COMPANY_REGISTRY_FIXTURE */
+export const SAMPLE_REGISTRY_FIXTURE = path.join('server', 'supervisor', 'company-registry', 'data', 'sample-companies.json');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Search hits considered per lead */
+const SEARCH_LIMIT = 10;
+
+/** Words that differ between a trading name and a registered name */
+const NAME_NOISE = new Set(['the', 'ltd', 'limited', 'plc', 'llp', 'co', 'company', 'and', 'uk']);
+
+/** Honorifics on PSC names ("Mrs Susan Hartley") */
+const TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'sir', 'dame', 'lord', 'lady']);
+
+const UK_POSTCODE = /\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/i;
+
+/** Statuses meaning the company no longer trades */
+const CLOSED_STATUSES = new Set(['dissolved', 'liquidation', 'removed', 'converted-closed', 'closed', 'insolvency-proceedings']);
+
+/** STATUS_CHECK values the registry can answer, mapped to the statuses that satisfy them */
+const STATUS_VALUE_MATCHERS: Array<{ pattern: RegExp; matches: (status: string) => boolean }> = [
+  { pattern: /^(?:active|open|trading|operating|in business)$/, matches: s => s === 'active' || s === 'open' },
+  { pattern: /^(?:closed|dissolved|defunct|shut|ceased trading|permanently closed|no longer trading)$/, matches: s => CLOSED_STATUSES.has(s) },
+  { pattern: /administration/, matches: s => s === 'administration' },
+  { pattern: /liquidation|insolven/, matches: s => s === 'liquidation' || s === 'insolvency-proceedings' },
+  { pattern: /receivership/, matches: s => s === 'receivership' },
+];
+
+// ============================================
+// NORMALISATION
+// ============================================
+
+function nameTokens(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(t => t && !NAME_NOISE.has(t));
+}
+
+/**
+ * Compare form of a business name: lower case, no punctuation, without
+ * "the", "ltd", "limited" and similar. "The Lamb (Lewes) Limited" → "lamb lewes".
+ */
+export function normaliseCompanyName(name: string): string {
+  return nameTokens(name).join(' ');
+}
+
+/** Words of a person's name, reordering the register's "SURNAME, Forenames" form */
+function personTokens(name: string): string[] {
+  const [surname, forenames] = name.split(',', 2);
+  const ordered = forenames !== undefined ? `${forenames} ${surname}` : name;
+  return nameTokens(ordered).filter(t => !TITLES.has(t));
+}
+
+/** UK postcode in a free-text address, as "BN7 2BE"; null when there is none */
+export function extractPostcode(address: string | null | undefined): string | null {
+  const match = (address || '').match(UK_POSTCODE);
+  return match ? `${match[1]} ${match[2]}`.toUpperCase() : null;
+}
+
+/** Whether every word of `target` appears in `party` (so "Susan Hartley" matches "HARTLEY, Susan Margaret") */
+function partyMatches(target: string[], party: string[]): boolean {
+  if (target.length === 0) return false;
+  const have = new Set(party);
+  return target.every(t => have.has(t));
+}
+
+// ============================================
+// PROVIDER CONFIGURATION
+// ============================================
+
+type ProviderChoice = 'companies_house' | 'fixture' | null;
+
+function chooseProvider(): ProviderChoice {
+  const forced = (process.env.COMPANY_REGISTRY_PROVIDER || '').toLowerCase().trim();
+  if (forced === 'off') return null;
+  if (forced === 'companies_house' || forced === 'fixture') return forced;
+  if (cassetteApiKey(process.env.COMPANIES_HOUSE_API_KEY)) return 'companies_house';
+  if (process.env.COMPANY_REGISTRY_FIXTURE) return 'fixture';
+  return null;
+}
+
+/** Whether the environment configures a registry provider (read at tool-registry boot) */
+export function isCompanyRegistryConfigured(): boolean {
+  return chooseProvider() !== null;
+}
+
+export function createCompanyRegistryProvider(): CompanyRegistryProvider | null {
+  const choice = chooseProvider();
+  if (choice === 'companies_house') {
+    const apiKey = cassetteApiKey(process.env.COMPANIES_HOUSE_API_KEY);
+    if (!apiKey) {
+      console.warn('[COMPANY_REGISTRY] COMPANY_REGISTRY_PROVIDER=companies_house but COMPANIES_HOUSE_API_KEY is not set');
+      return null;
+    }
+    return new CompaniesHouseProvider(apiKey);
+  }
+  if (choice === 'fixture') {
+    const fixturePath = process.env.COMPANY_REGISTRY_FIXTURE;
+    if (!fixturePath) {
+      console.warn('[COMPANY_REGISTRY] COMPANY_REGISTRY_PROVIDER=fixture but COMPANY_REGISTRY_FIXTURE is not set');
+      return null;
+    }
+    try {
+      return FixtureCompanyRegistryProvider.fromFile(fixturePath);
+    } catch (err: any) {
+      console.warn(`[COMPANY_REGISTRY] Could not load fixture ${fixturePath}: ${err?.message || err}`);
+      return null;
+    }
+  }
+  return null;
+}
+
+let provider: CompanyRegistryProvider | null | undefined;
+
+/** The active provider, created from the environment on first use; null when the registry is off */
+export function getCompanyRegistryProvider(): CompanyRegistryProvider | null {
+  if (provider === undefined) {
+    provider = createCompanyRegistryProvider();
+    console.log(`[COMPANY_REGISTRY] provider=${provider?.name ?? 'none'}`);
+  }
+  return provider;
+}
+
+/**
+ * Replace the provider (a fixture in tests, or null to turn the registry off)
+ */
+export function setCompanyRegistryProvider(newProvider: CompanyRegistryProvider | null): void {
+  provider = newProvider;
+}
+
+/**
+ * @internal Exported for testing only
+ */
+export function _resetCompanyRegistryProvider(): void {
+  provider = undefined;
+}
+
+// ============================================
+// LEAD MATCHING
+// ============================================
+
+/**
+ * Pick the registered company behind a trading name from search hits.
+ *
+ * A hit whose name equals the lead's (after normalisation) matches on name
+ * alone when it is the only such hit, or with high confidence when the
+ * registered postcode agrees. A hit whose name merely contains the lead's
+ * ("The Lamb" → "The Lamb (Lewes) Limited") needs the postcode to agree.
+ * Anything else, including two equally good hits, is no match.
+ */
+export function pickCompanyMatch(
+  lead: { name: string; address?: string | null },
+  hits: CompanySummary[],
+): { summary: CompanySummary; basis: CompanyRegistryMatch['basis']; confidence: CompanyRegistryMatch['confidence'] } | null {
+  const leadName = normaliseCompanyName(lead.name);
+  if (!leadName) return null;
+  const leadPostcode = extractPostcode(lead.address);
+  const samePostcode = (hit: CompanySummary) => !!leadPostcode && extractPostcode(hit.postcode) === leadPostcode;
+
+  const exact = hits.filter(h => normaliseCompanyName(h.name) === leadName);
+  const exactLocal = exact.filter(samePostcode);
+  if (exactLocal.length === 1) return { summary: exactLocal[0], basis: 'name_and_postcode', confidence: 'high' };
+  if (exact.length === 1 && !leadPostcode) return { summary: exact[0], basis: 'name', confidence: 'medium' };
+
+  const containing = hits.filter(h => partyMatches(nameTokens(lead.name), nameTokens(h.name)) && samePostcode(h));
+  if (exact.length === 0 && containing.length === 1) {
+    return { summary: containing[0], basis: 'name_contains_and_postcode', confidence: 'high' };
+  }
+  return null;
+}
+
+/**
+ * The registered company behind a lead, or null when the registry is off,
+ * nothing matches, or the lookup fails. Never throws.
+ */
+export async function lookupLeadCompany(
+  lead: { name: string; address?: string | null },
+  registry: CompanyRegistryProvider | null = getCompanyRegistryProvider(),
+): Promise<CompanyRegistryMatch | null> {
+  if (!registry) return null;
+  const query = normaliseCompanyName(lead.name);
+  if (!query) return null;
+
+  try {
+    const hits = await registry.searchCompanies(query, SEARCH_LIMIT);
+    const picked = pickCompanyMatch(lead, hits);
+    if (!picked) return null;
+    const record = await registry.getCompany(picked.summary.companyNumber);
+    if (!record) return null;
+    return { record, basis: picked.basis, confidence: picked.confidence, provider: registry.name };
+  } catch (err: any) {
+    console.warn(`[COMPANY_REGISTRY] lookup failed for "${lead.name}": ${err?.message || err}`);
+    return null;
+  }
+}
+
+/**
+ * Registry matches for a set of leads, keyed by placeId, ready for CVL.
+ * Leads with no match get no entry.
+ */
+export async function buildRegistryEvidence(
+  leads: Array<{ placeId: string; name: string; address?: string | null }>,
+  registry: CompanyRegistryProvider | null = getCompanyRegistryProvider(),
+): Promise<Map<string, CompanyRegistryMatch>> {
+  const evidence = new Map<string, CompanyRegistryMatch>();
+  if (!registry) return evidence;
+  const matches = await Promise.all(leads.map(lead => lookupLeadCompany(lead, registry)));
+  leads.forEach((lead, i) => {
+    const match = matches[i];
+    if (match) evidence.set(lead.placeId, match);
+  });
+  return evidence;
+}
+
+// ============================================
+// CONSTRAINT JUDGEMENT
+// ============================================
+
+function describeCompany(record: CompanyRecord): string {
+  return `${record.name} (${record.companyNumber})`;
+}
+
+function flip(verdict: RegistryVerdict): RegistryVerdict {
+  if (verdict.verdict === 'unknown') return verdict;
+  return { ...verdict, verdict: verdict.verdict === 'yes' ? 'no' : 'yes' };
+}
+
+function unknown(reason: string): RegistryVerdict {
+  return { verdict: 'unknown', confidence: 'low', reason, snippet: '' };
+}
+
+function judgeRelationship(constraint: StructuredConstraint, record: CompanyRecord): RegistryVerdict {
+  const negated = constraint.operator.startsWith('not_');
+  const relation = negated ? constraint.operator.slice(4) : constraint.operator;
+  const target = typeof constraint.value === 'string' ? constraint.value : '';
+  const targetTokens = personTokens(target);
+  if (targetTokens.length === 0) return unknown('No relationship target to look up');
+
+  let parties: Array<{ name: string; role: string }>;
+  if (relation === 'owned_by') {
+    parties = record.controllers.filter(c => !c.ceasedOn).map(c => ({ name: c.name, role: 'person with significant control' }));
+  } else if (relation === 'managed_by') {
+    parties = record.officers.filter(o => !o.resignedOn).map(o => ({ name: o.name, role: o.role }));
+  } else {
+    return unknown(`The company register does not record "${constraint.operator}" relationships`);
+  }
+
+  const company = describeCompany(record);
+  const party = partyMatches(targetTokens, nameTokens(record.name))
+    ? { name: record.name, role: 'the registered company itself' }
+    : parties.find(p => partyMatches(targetTokens, personTokens(p.name)));
+
+  let verdict: RegistryVerdict;
+  if (party) {
+    verdict = {
+      verdict: 'yes',
+      confidence: 'high',
+      reason: `Company register lists ${party.name} as ${party.role} of ${company}`,
+      snippet: `${company}: ${party.name} (${party.role})`,
+    };
+  } else if (parties.length === 0) {
+    return unknown(`${company} has no current ${relation === 'owned_by' ? 'persons with significant control' : 'officers'} on the register`);
+  } else {
+    // Ownership can sit further up a group, so absence is weaker than presence
+    verdict = {
+      verdict: 'no',
+      confidence: 'medium',
+      reason: `"${target}" is not among the current ${relation === 'owned_by' ? 'persons with significant control' : 'officers'} of ${company}`,
+      snippet: `${company}: ${parties.map(p => p.name).join('; ')}`,
+    };
+  }
+  return negated ? flip(verdict) : verdict;
+}
+
+function judgeStatus(constraint: StructuredConstraint, record: CompanyRecord): RegistryVerdict {
+  const value = typeof constraint.value === 'string' ? constraint.value.toLowerCase().trim() : '';
+  const matcher = STATUS_VALUE_MATCHERS.find(m => m.pattern.test(value));
+  if (!matcher) return unknown(`The company register has no status corresponding to "${value}"`);
+
+  const company = describeCompany(record);
+  const holds = matcher.matches(record.status);
+  const dissolved = record.dissolvedOn ? ` on ${record.dissolvedOn}` : '';
+  const verdict: RegistryVerdict = {
+    verdict: holds ? 'yes' : 'no',
+    confidence: 'high',
+    reason: `Company register shows ${company} as ${record.status}${dissolved}`,
+    snippet: `${company}: status=${record.status}${record.dissolvedOn ? ` dissolved_on=${record.dissolvedOn}` : ''}`,
+  };
+  return constraint.operator === 'not_equals' ? flip(verdict) : verdict;
+}
+
+/** Start of a since/after/before bound: "2024" → 1 Jan 2024 */
+function parseDateBound(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim();
+  const parsed = Date.parse(/^\d{4}$/.test(text) ? `${text}-01-01` : text);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function judgeIncorporation(constraint: StructuredConstraint, record: CompanyRecord, now: Date): RegistryVerdict {
+  if (constraint.field !== 'opening_date' && constraint.field !== 'established_date') {
+    return unknown(`The company register does not date ${constraint.field}`);
+  }
+  if (!record.incorporatedOn) return unknown(`${describeCompany(record)} has no incorporation date on the register`);
+  const incorporated = Date.parse(record.incorporatedOn);
+
+  let holds: boolean;
+  let window: string;
+  const value = constraint.value;
+  switch (constraint.operator) {
+    case 'within_last': {
+      const days = typeof value === 'string' ? parseWindowDays(value) : null;
+      if (days === null) return unknown(`Could not read the window "${String(value)}"`);
+      holds = incorporated >= now.getTime() - days * DAY_MS && incorporated <= now.getTime();
+      window = `within the last ${value}`;
+      break;
+    }
+    case 'since':
+    case 'after':
+    case 'before': {
+      const bound = parseDateBound(value);
+      if (bound === null) return unknown(`Could not read the date "${String(value)}"`);
+      holds = constraint.operator === 'before' ? incorporated < bound : incorporated >= bound;
+      window = `${constraint.operator} ${String(value)}`;
+      break;
+    }
+    case 'between_dates': {
+      const range = (value ?? {}) as { start?: unknown; end?: unknown };
+      const start = parseDateBound(range.start);
+      const end = parseDateBound(range.end);
+      if (start === null || end === null) return unknown('Could not read the date range');
+      holds = incorporated >= start && incorporated <= end + DAY_MS - 1;
+      window = `between ${String(range.start)} and ${String(range.end)}`;
+      break;
+    }
+    default:
+      return unknown(`An incorporation date cannot answer "${constraint.operator}"`);
+  }
+
+  const company = describeCompany(record);
+  return {
+    verdict: holds ? 'yes' : 'no',
+    // An older company can still open a new venue; an established date is the company's own
+    confidence: holds || constraint.field === 'established_date' ? 'high' : 'medium',
+    reason: `${company} was incorporated on ${record.incorporatedOn}, ${holds ? '' : 'not '}${window}`,
+    snippet: `${company}: incorporated_on=${record.incorporatedOn}`,
+  };
+}
+
+/**
+ * Whether the registry can speak to a constraint at all: ownership and
+ * management checks, status checks, and opening/established dates.
+ */
+export function isRegistryCheckable(constraint: StructuredConstraint): boolean {
+  switch (constraint.type) {
+    case 'RELATIONSHIP_CHECK':
+      return /^(?:not_)?(?:owned_by|managed_by)$/.test(constraint.operator);
+    case 'STATUS_CHECK':
+      return true;
+    case 'TIME_CONSTRAINT':
+      return constraint.field === 'opening_date' || constraint.field === 'established_date';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Judge a constraint against a lead's registered company. A match found on
+ * name alone (no postcode agreement) caps the confidence at medium.
+ */
+export function judgeRegistryConstraint(
+  constraint: StructuredConstraint,
+  match: CompanyRegistryMatch,
+  now: Date = new Date(),
+): RegistryVerdict {
+  let verdict: RegistryVerdict;
+  switch (constraint.type) {
+    case 'RELATIONSHIP_CHECK':
+      verdict = judgeRelationship(constraint, match.record);
+      break;
+    case 'STATUS_CHECK':
+      verdict = judgeStatus(constraint, match.record);
+      break;
+    case 'TIME_CONSTRAINT':
+      verdict = judgeIncorporation(constraint, match.record, now);
+      break;
+    default:
+      return unknown(`The company register cannot check ${constraint.type}`);
+  }
+  if (verdict.confidence === 'high' && match.confidence === 'medium') {
+    return { ...verdict, confidence: 'medium', reason: `${verdict.reason} (matched on name only)` };
+  }
+  return verdict;
+}
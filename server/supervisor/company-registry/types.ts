@@ -0,0 +1,84 @@
+/**
+ * Company Registry Types
+ */
+
+/**
+ * Registry status as Companies House reports it. Anything other than
+ * 'active' means the company is no longer trading normally.
+ */
+export type CompanyStatus =
+  | 'active'
+  | 'dissolved'
+  | 'liquidation'
+  | 'administration'
+  | 'receivership'
+  | 'voluntary-arrangement'
+  | 'converted-closed'
+  | 'insolvency-proceedings'
+  | 'removed'
+  | 'closed'
+  | 'open';
+
+export interface CompanyOfficer {
+  name: string;
+  /** director, secretary, corporate-director, llp-member, ... */
+  role: string;
+  appointedOn: string | null;
+  resignedOn: string | null;
+}
+
+export interface CompanyController {
+  name: string;
+  /** individual, corporate-entity, legal-person or other */
+  kind: string;
+  ceasedOn: string | null;
+}
+
+/** A search hit: enough to pick the right company before fetching its profile */
+export interface CompanySummary {
+  companyNumber: string;
+  name: string;
+  status: CompanyStatus;
+  incorporatedOn: string | null;
+  postcode: string | null;
+  addressSnippet: string | null;
+}
+
+export interface CompanyRecord extends CompanySummary {
+  dissolvedOn: string | null;
+  sicCodes: string[];
+  officers: CompanyOfficer[];
+  /** Persons with significant control — owners of 25%+ or equivalent */
+  controllers: CompanyController[];
+}
+
+/**
+ * A company register. The Companies House provider calls the public API; the
+ * fixture provider serves a local JSON file so tests and offline development
+ * need no key.
+ */
+export interface CompanyRegistryProvider {
+  readonly name: string;
+  searchCompanies(query: string, limit: number): Promise<CompanySummary[]>;
+  /** Profile, officers and controllers; null when the number is unknown */
+  getCompany(companyNumber: string): Promise<CompanyRecord | null>;
+}
+
+/** How a lead was tied to its registered company */
+export type CompanyMatchBasis = 'name_and_postcode' | 'name' | 'name_contains_and_postcode';
+
+export interface CompanyRegistryMatch {
+  record: CompanyRecord;
+  basis: CompanyMatchBasis;
+  /** high when the registered postcode agrees with the lead's address */
+  confidence: 'high' | 'medium';
+  provider: string;
+}
+
+export interface RegistryVerdict {
+  verdict: 'yes' | 'no' | 'unknown';
+  confidence: 'high' | 'medium' | 'low';
+  reason: string;
+  /** The registry fact the verdict rests on, for the evidence trail */
+  snippet: string;
+}
@@ -186,6 +186,10 @@ describe('Constraint Gate — signal detection', () => {
   it('"use recent reviews proxy" → recent_reviews', () => {
     assert.strictEqual(detectProxySelection('use recent reviews proxy'), 'recent_reviews');
   });
+  it('"use new listings proxy" → new_listing', () => {
+    assert.strictEqual(detectProxySelection('use new listings proxy'), 'new_listing');
+    assert.strictEqual(detectProxySelection('D)'), 'new_listing');
+  });
   it('"best effort" does NOT select a proxy', () => {
     assert.strictEqual(detectProxySelection('best effort, unverified is ok'), null);
   });
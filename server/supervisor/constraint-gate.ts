@@ -15,14 +15,17 @@ import {
 import {
   detectRelationshipPredicate,
   detectRelationshipRole,
+  REGISTRY_RELATIONSHIP_PREDICATES,
 } from './relationship-predicate';
+import { isToolEnabled } from './tool-registry';
 
-import { callLLMText } from './llm-failover';
+import { z } from 'zod';
+import { callLLMJson } from './llm-json';
 
 import type { CanonicalIntent, CanonicalConstraint } from './canonical-intent';
 
 export type LiveMusicVerification = 'website_verify' | 'best_effort' | null;
-export type TimePredicateResolution = 'news_mention' | 'recent_reviews' | 'best_effort' | null;
+export type TimePredicateResolution = 'news_mention' | 'recent_reviews' | 'new_listing' | 'best_effort' | null;
 
 export type AttributeClassification = 'TOOL_CHECKABLE' | 'SUBJECTIVE_UNDEFINED' | 'MISSING_NUMERIC_THRESHOLD' | 'BLOCKING';
 
@@ -207,6 +210,15 @@ function extractNumericAmbiguity(msg: string): NumericAmbiguityConstraint | null
 
 const RELATIONSHIP_CLARIFY_QUESTION = `Relationship information (e.g. owner, landlord, manager) is not reliably available from public business listings. Which approach would you like?\n\nA) Official sources only — highest certainty, fewer results\nB) Best-effort public web — more results, lower certainty\nC) Require 2+ independent sources per relationship claim\nD) Skip relationship fields if uncertain — return venues only`;
 
+/**
+ * Ownership/management predicates are checked against the company register
+ * (official sources) by the mission executor's COMPANY_REGISTRY phase when
+ * COMPANY_REGISTRY_LOOKUP is enabled, so they need no strategy question.
+ */
+function isRegistryResolvable(predicate: string | null): boolean {
+  return !!predicate && REGISTRY_RELATIONSHIP_PREDICATES.includes(predicate) && isToolEnabled('COMPANY_REGISTRY_LOOKUP');
+}
+
 function extractRelationshipPredicate(msg: string): RelationshipPredicateConstraint | null {
   const predResult = detectRelationshipPredicate(msg);
   const roleResult = detectRelationshipRole(msg);
@@ -215,6 +227,22 @@ function extractRelationshipPredicate(msg: string): RelationshipPredicateConstra
 
   const label = predResult.detected_predicate || roleResult.role || 'relationship';
 
+  if (isRegistryResolvable(predResult.detected_predicate)) {
+    console.log(`[CONSTRAINT_GATE] Relationship "${label}" resolved via company register — official_only`);
+    return {
+      type: 'relationship_predicate',
+      label,
+      detected_role: roleResult.role,
+      detected_predicate: predResult.detected_predicate,
+      verifiability: 'proxy',
+      hardness: 'soft',
+      can_execute: true,
+      why_blocked: '',
+      clarify_question: RELATIONSHIP_CLARIFY_QUESTION,
+      chosen_relationship_strategy: 'official_only',
+    };
+  }
+
   return {
     type: 'relationship_predicate',
     label,
@@ -352,6 +380,10 @@ const PROXY_SELECTION_PATTERNS: { pattern: RegExp; proxyId: string }[] = [
   { pattern: /\b[Bb]\b\)?.*reviews?/i, proxyId: 'recent_reviews' },
   { pattern: /^[Aa]\s*\)\s*$/i, proxyId: 'news_mention' },
   { pattern: /^[Bb]\s*\)\s*$/i, proxyId: 'recent_reviews' },
+  { pattern: /\bnew\s*listings?\s*(?:date|proxy|option|method)?\b/i, proxyId: 'new_listing' },
+  { pattern: /\bfirst[- ]seen\b/i, proxyId: 'new_listing' },
+  { pattern: /\boption\s*[Dd]\b/i, proxyId: 'new_listing' },
+  { pattern: /^[Dd]\s*\)\s*$/i, proxyId: 'new_listing' },
 ];
 
 const BEST_EFFORT_PATTERNS = /\b(?:best[- ]?effort|unverified\s+(?:is\s+)?(?:ok|fine|acceptable|good)|don'?t\s+(?:need\s+to\s+)?verify|skip\s+verif|proceed\s+(?:unverified|without\s+verif)|that'?s?\s+(?:ok|fine)|option\s*(?:3|three|[Cc])\b|[Cc]\))/i;
@@ -472,19 +504,15 @@ async function fetchLLMSynonyms(attribute: string): Promise<string[]> {
     return _llmSynonymCache.get(cacheKey)!;
   }
   try {
-    const raw = await callLLMText(
+    const { data } = await callLLMJson(
+      z.array(z.string()),
       LLM_SYNONYM_SYSTEM_PROMPT,
       `Attribute: "${attribute}"`,
       'synonym_expansion',
       { maxTokens: 300, timeoutMs: 5000 },
     );
-    let cleaned = raw.trim();
-    if (cleaned.startsWith('```')) cleaned = cleaned.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
-    const parsed = JSON.parse(cleaned);
-    if (Array.isArray(parsed) && parsed.every(s => typeof s === 'string')) {
-      _llmSynonymCache.set(cacheKey, parsed);
-      return parsed;
-    }
+    _llmSynonymCache.set(cacheKey, data);
+    return data;
   } catch (err: any) {
     console.warn(`[CONSTRAINT_GATE] LLM synonym expansion failed for "${attribute}": ${err?.message || err}`);
   }
@@ -716,7 +744,7 @@ function detectWindowFromFollowUp(msg: string): { window: string; window_days: n
   return null;
 }
 
-const TIME_PREDICATE_QUESTION = `I can't guarantee opening dates from listings. Do you want me to use a proxy or treat this as best-effort unverified?\n\nA) Use news mentions proxy\nB) Use first reviews proxy\nC) Best-effort, unverified is OK`;
+const TIME_PREDICATE_QUESTION = `I can't guarantee opening dates from listings. Do you want me to use a proxy or treat this as best-effort unverified?\n\nA) Use news mentions proxy\nB) Use first reviews proxy\nC) Best-effort, unverified is OK\nD) Use new listings proxy (first seen in our listing index)`;
 
 const LIVE_MUSIC_QUESTION = `Live music isn't reliably verified from Places data. Do you want me to verify via website / listings (slower) or treat as best-effort unverified?\n\nA) Verify via website / listings\nB) Best-effort, unverified is OK`;
 
@@ -1114,6 +1142,23 @@ export async function preExecutionConstraintGateFromIntent(intent: CanonicalInte
       }
       case 'relationship': {
         const relRole = detectRelationshipRole(cc.raw);
+        const relPredicate = detectRelationshipPredicate(cc.raw).detected_predicate;
+        if (isRegistryResolvable(relPredicate)) {
+          constraints.push({
+            type: 'relationship_predicate',
+            label: cc.raw,
+            detected_role: relRole.role,
+            detected_predicate: relPredicate,
+            verifiability: 'proxy',
+            hardness: 'soft',
+            can_execute: true,
+            why_blocked: '',
+            clarify_question: RELATIONSHIP_CLARIFY_QUESTION,
+            chosen_relationship_strategy: 'official_only',
+          });
+          coveredTypes.add('relationship');
+          break;
+        }
         constraints.push({
           type: 'relationship_predicate',
           predicate: cc.raw,
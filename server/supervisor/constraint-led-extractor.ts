@@ -1,4 +1,6 @@
 import { getCurrentDatePreamble, getTemporalVerificationRules } from './current-context';
+import { z } from 'zod';
+import { callLLMJson } from './llm-json';
 
 export interface ConstraintContext {
   type: string;
@@ -185,6 +187,26 @@ export function getPageHintsForConstraint(constraint: ConstraintContext): string
 
 const _synonymCache = new Map<string, string[]>();
 
+const EntityMismatchFields = {
+  entity_type_mismatch: z.boolean().optional(),
+  actual_type: z.string().nullish(),
+};
+
+/** Layer 1 fallback: one verdict over the first pages of the site */
+const FallbackJudgeSchema = z.object({
+  match: z.boolean().default(false),
+  evidence_sentence: z.string().nullish(),
+  confidence: z.enum(['high', 'medium', 'low']).nullish(),
+  evidence_type: z.string().nullish(),
+  ...EntityMismatchFields,
+});
+
+/** Layer 2: the keyword windows the judge accepts as evidence */
+const EvidenceJudgeSchema = z.object({
+  evidence_sentences: z.array(z.string()).default([]),
+  ...EntityMismatchFields,
+});
+
 // FALLBACK keyword seeds — used when LLM synonym expansion is unavailable.
 // The LLM-expanded synonyms from constraint-gate.ts are the PRIMARY source.
 // Do NOT add entries here to fix search quality — improve the LLM synonym prompt instead.
@@ -903,24 +925,9 @@ export async function extractConstraintLedEvidence(
           const anthropicKey = process.env.ANTHROPIC_API_KEY;
 
           if (anthropicKey) {
-            const synResp = await fetch('https://api.anthropic.com/v1/messages', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': anthropicKey,
-                'anthropic-version': '2023-06-01',
-              },
-              body: JSON.stringify({
-                model: synonymModel,
-                max_tokens: 200,
-                temperature: 0,
-                system: `${getCurrentDatePreamble()} You generate search terms for finding evidence on business websites. Given a concept, return a JSON array of 8-15 terms including: (1) direct synonyms and alternative phrases, (2) well-known brand names or specific examples, (3) inferential signal phrases — words or phrases that would IMPLY the concept even if it's not stated directly. For example, "independent" might be signalled by "family-run", "owner-operated", "est. 2005", "boutique". Return JSON only, no markdown.`,
-                messages: [{
-                  role: 'user',
-                  content: (() => {
-                    const currentYear = new Date().getFullYear();
-                    const lastYear = currentYear - 1;
-                    return `Generate search phrases for: "${constraintValue}"${entityType ? ` (for a ${entityType})` : ''}
+            const currentYear = new Date().getFullYear();
+            const lastYear = currentYear - 1;
+            const synUser = `Generate search phrases for: "${constraintValue}"${entityType ? ` (for a ${entityType})` : ''}
 
 Example: "cask ale" → ["cask ale", "real ale", "traditional ale", "hand-pulled", "hand pump", "cask-conditioned", "cask beer", "real ales", "Harvey's", "Timothy Taylor", "London Pride", "cask marque"]
 
@@ -934,28 +941,27 @@ Also include a few terms that signal this is genuinely a ${entityType} (not a re
 ` : ''}
 Now do: "${constraintValue}"${entityType ? ` for a ${entityType}` : ''}
 Return JSON array only: ["term1", "term2", ...]`;
-                  })(),
-                }],
-              }),
-            });
-
-            if (!synResp.ok) {
-              const errBody = await synResp.text().catch(() => '');
-              const { detectBillingError } = await import('./api-error-detector');
-              detectBillingError('anthropic', synResp.status, errBody);
-            } else {
-              const synData = await synResp.json() as any;
-              const synText = synData.content?.[0]?.text || '';
-              const synCleaned = synText.replace(/```json\s*/gi, '').replace(/```\s*$/g, '').trim();
-              const synParsed = JSON.parse(synCleaned);
-              if (Array.isArray(synParsed) && synParsed.length > 0) {
-                l1Phrases = synParsed.map((s: string) => s.toLowerCase());
-                // Ensure the original value is always included
-                if (!l1Phrases.includes(constraintValue.toLowerCase())) {
-                  l1Phrases.unshift(constraintValue.toLowerCase());
-                }
-                console.log(`[EVIDENCE_SYNONYM] "${constraintValue}" expanded to ${l1Phrases.length} phrases: ${l1Phrases.slice(0, 6).join(', ')}...`);
+            try {
+              const { data: synParsed } = await callLLMJson(
+                z.array(z.string()).min(1),
+                `${getCurrentDatePreamble()} You generate search terms for finding evidence on business websites. Given a concept, return a JSON array of 8-15 terms including: (1) direct synonyms and alternative phrases, (2) well-known brand names or specific examples, (3) inferential signal phrases — words or phrases that would IMPLY the concept even if it's not stated directly. For example, "independent" might be signalled by "family-run", "owner-operated", "est. 2005", "boutique". Return JSON only, no markdown.`,
+                synUser,
+                'evidence_synonyms',
+                { providerChain: ['anthropic'], anthropicModel: synonymModel, maxTokens: 200, temperature: 0 },
+              );
+              l1Phrases = synParsed.map(s => s.toLowerCase());
+              // Ensure the original value is always included
+              if (!l1Phrases.includes(constraintValue.toLowerCase())) {
+                l1Phrases.unshift(constraintValue.toLowerCase());
+              }
+              console.log(`[EVIDENCE_SYNONYM] "${constraintValue}" expanded to ${l1Phrases.length} phrases: ${l1Phrases.slice(0, 6).join(', ')}...`);
+            } catch (synCallErr: any) {
+              const httpError = String(synCallErr?.message ?? '').match(/Anthropic (\d{3}): ([\s\S]*)/);
+              if (httpError) {
+                const { detectBillingError } = await import('./api-error-detector');
+                detectBillingError('anthropic', parseInt(httpError[1], 10), httpError[2]);
               }
+              throw synCallErr;
             }
           }
           _synonymCache.set(cacheKey, l1Phrases);
@@ -1043,22 +1049,12 @@ Return JSON array only: ["term1", "term2", ...]`;
         if (fallbackTexts.length > 0 && openaiKey && leadName && process.env.WYSHBONE_ENV !== 'dev') {
           const cutoffDate = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
           try {
-            const { default: OpenAI } = await import('openai');
-            const client = new OpenAI({ apiKey: openaiKey });
-
             const layer1JudgeModel = isTemporalConstraint
               ? (process.env.TEMPORAL_OPENAI_MODEL || 'gpt-4o')
               : (process.env.EVIDENCE_JUDGE_MODEL ?? 'gpt-4o-mini');
-            const fallbackResponse = await Promise.race([
-              client.chat.completions.create({
-                model: layer1JudgeModel,
-                temperature: 0.1,
-                max_tokens: 300,
-                response_format: { type: 'json_object' },
-                messages: [
-                  {
-                    role: 'system',
-                    content: `TODAY'S DATE IS: ${new Date().toISOString().split('T')[0]} (${new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}). ${getTemporalVerificationRules(cutoffDate)}
+            const { data: fbParsed } = await callLLMJson(
+              FallbackJudgeSchema,
+              `TODAY'S DATE IS: ${new Date().toISOString().split('T')[0]} (${new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}). ${getTemporalVerificationRules(cutoffDate)}
 
 You are judging whether a business "${constraintValue}". You will receive text from their website.
 ${entityType ? `
@@ -1089,23 +1085,14 @@ A business with 2+ medium signals or 1+ strong signal satisfies "opened recently
 Be reasonably inclusive — accept genuine signals but don't force a match from nothing. If you infer the characteristic, briefly state what signals you're reading.${isInferential ? '\n\nIMPORTANT: This constraint is classified as INFERENTIAL — prioritise reading signals and indirect evidence over requiring explicit statements.' : ''}
 
 Respond with JSON: {"match": true/false, "evidence_sentence": "one sentence summary of evidence found or null", "confidence": "high"/"medium"/"low", "evidence_type": "direct"/"inferential"}`,
-                  },
-                  {
-                    role: 'user',
-                    content: JSON.stringify({
-                      business_name: leadName,
-                      constraint: constraintValue,
-                      website_content: fallbackTexts,
-                    }),
-                  },
-                ],
+              JSON.stringify({
+                business_name: leadName,
+                constraint: constraintValue,
+                website_content: fallbackTexts,
               }),
-              new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Fallback LLM timeout')), 8000)),
-            ]);
-
-            const fbRaw = fallbackResponse.choices[0]?.message?.content?.trim() || '';
-            const fbCleaned = fbRaw.replace(/```json\n?|\n?```/g, '').trim();
-            const fbParsed = JSON.parse(fbCleaned);
+              'evidence_judge_l1',
+              { providerChain: ['openai'], openaiModel: layer1JudgeModel, temperature: 0.1, maxTokens: 300, timeoutMs: 8000 },
+            );
 
             if (fbParsed.entity_type_mismatch) {
               console.log(`[ENTITY_TYPE_MISMATCH] "${leadName}" — expected ${entityType || 'unknown'}, actual: ${fbParsed.actual_type || 'unknown'} (fallback LLM)`);
@@ -1174,8 +1161,6 @@ Respond with JSON: {"match": true/false, "evidence_sentence": "one sentence summ
       // LAYER 2 — gpt-4o judges the windows
       // Dev mode: prefer Anthropic Haiku 3.5 — saves OpenAI quota during dev/benchmarking
       if (process.env.WYSHBONE_ENV !== 'dev') {
-      const { default: OpenAI } = await import('openai');
-      const client = new OpenAI({ apiKey: openaiKey });
       const layer2CutoffDate = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
       const extracts = windows.map(w => w.text);
@@ -1185,15 +1170,9 @@ Respond with JSON: {"match": true/false, "evidence_sentence": "one sentence summ
       const layer2JudgeModel = isTemporalConstraint
         ? (process.env.TEMPORAL_OPENAI_MODEL || 'gpt-4o')
         : (process.env.EVIDENCE_JUDGE_MODEL ?? 'gpt-4o-mini');
-      const llmCallPromise = client.chat.completions.create({
-        model: layer2JudgeModel,
-        temperature: 0.1,
-        max_tokens: 200,
-        response_format: { type: 'json_object' },
-        messages: [
-          {
-            role: 'system',
-            content: `TODAY'S DATE IS: ${new Date().toISOString().split('T')[0]} (${new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}). ${getTemporalVerificationRules(layer2CutoffDate)}
+      const { data: parsed } = await callLLMJson(
+        EvidenceJudgeSchema,
+        `TODAY'S DATE IS: ${new Date().toISOString().split('T')[0]} (${new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}). ${getTemporalVerificationRules(layer2CutoffDate)}
 
 You are an evidence judge for a business lead finder. You will receive short extracts from a business website.
 ${entityType ? `
@@ -1236,24 +1215,11 @@ Rules:
 - Return sentences or signal descriptions that a reasonable person would accept as evidence${isInferential ? '\n\nIMPORTANT: This constraint is classified as INFERENTIAL — prioritise reading signals and indirect evidence over requiring explicit statements.' : ''}
 
 Respond with JSON only: {"evidence_sentences": ["..."]}. Return {"evidence_sentences": []} if nothing qualifies.`,
-          },
-          {
-            role: 'user',
-            content: JSON.stringify({ business_name: leadName, constraint: constraintValue, extracts }),
-          },
-        ],
-      });
-
-      const llmTimeoutPromise = new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('LLM judge timeout after 6s')), 6000),
+        JSON.stringify({ business_name: leadName, constraint: constraintValue, extracts }),
+        'evidence_judge_l2',
+        { providerChain: ['openai'], openaiModel: layer2JudgeModel, temperature: 0.1, maxTokens: 200, timeoutMs: 6000 },
       );
 
-      const response = await Promise.race([llmCallPromise, llmTimeoutPromise]);
-
-      const raw = response.choices[0]?.message?.content?.trim() || '';
-      const cleaned = raw.replace(/```json\n?|\n?```/g, '').trim();
-      const parsed = JSON.parse(cleaned);
-
       if (parsed.entity_type_mismatch) {
         console.log(`[ENTITY_TYPE_MISMATCH] "${leadName}" — expected ${entityType || 'unknown'}, actual: ${parsed.actual_type || 'unknown'}`);
         return {
@@ -1268,9 +1234,7 @@ Respond with JSON only: {"evidence_sentences": ["..."]}. Return {"evidence_sente
         };
       }
 
-      const sentences: string[] = Array.isArray(parsed.evidence_sentences)
-        ? parsed.evidence_sentences.filter((s: any) => typeof s === 'string' && s.length > 0).slice(0, maxItems)
-        : [];
+      const sentences = parsed.evidence_sentences.filter(s => s.length > 0).slice(0, maxItems);
 
       if (sentences.length > 0) {
         console.log(`[EVIDENCE_EXTRACT_L2] "${leadName}" + "${constraintValue}" → ${sentences.length} sentence(s) approved by judge`);
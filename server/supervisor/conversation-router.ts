@@ -8,7 +8,8 @@
  * Performance target: 2-5 seconds for the routing decision.
  */
 
-import { callLLMText } from './llm-failover';
+import { z } from 'zod';
+import { callLLMJson, isLLMJsonError } from './llm-json';
 import { getCurrentDatePreamble } from './current-context';
 import type { TurnAnalysis } from './conversation-turn-classifier';
 import { getConversationSummary } from './conversation-summary';
@@ -284,26 +285,14 @@ async function buildRouterUserMessage(input: RouterInput): Promise<string> {
 
 // ─── Response Parser ────────────────────────────────────────────────────────
 
-function parseRouterResponse(raw: string): RouterDecision {
-  let cleaned = raw.trim();
-  if (cleaned.startsWith('```json')) cleaned = cleaned.slice(7);
-  else if (cleaned.startsWith('```')) cleaned = cleaned.slice(3);
-  if (cleaned.endsWith('```')) cleaned = cleaned.slice(0, -3);
-  cleaned = cleaned.trim();
-
-  // Try to extract JSON from anywhere in the response (handles preamble/postamble)
-  const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-  if (jsonMatch) {
-    cleaned = jsonMatch[0];
-  }
-
-  const parsed = JSON.parse(cleaned);
+const VALID_ROUTES = ['SEARCH', 'CLARIFY', 'DISCUSS', 'ITERATE', 'CHAT'] as const satisfies readonly Route[];
 
-  const validRoutes: Route[] = ['SEARCH', 'CLARIFY', 'DISCUSS', 'ITERATE', 'CHAT'];
-  if (!validRoutes.includes(parsed.route)) {
-    throw new Error(`Invalid route: ${parsed.route}`);
-  }
+const RouterResponseSchema: z.ZodType<RouterDecision, z.ZodTypeDef, unknown> = z
+  .object({ route: z.enum(VALID_ROUTES) })
+  .passthrough()
+  .transform(parsed => normaliseRouterResponse(parsed));
 
+function normaliseRouterResponse(parsed: Record<string, any>): RouterDecision {
   // Safety: SEARCH without entity or location → downgrade to CLARIFY
   if (parsed.route === 'SEARCH') {
     if (!parsed.entity || !parsed.location) {
@@ -335,7 +324,7 @@ function parseRouterResponse(raw: string): RouterDecision {
   }
 
   return {
-    route: parsed.route,
+    route: parsed.route as Route,
     entity: parsed.entity || null,
     location: parsed.location || null,
     constraints: Array.isArray(parsed.constraints) ? parsed.constraints : [],
@@ -354,40 +343,28 @@ function parseRouterResponse(raw: string): RouterDecision {
 export async function routeConversation(input: RouterInput): Promise<RouterDecision> {
   const startTime = Date.now();
 
-  // ALL messages go through the LLM router — no fast paths, no regex
+  // Every message that reaches here goes through the LLM — deterministic
+  // routing lives in rule-router.ts, which runs before this
   // Build context and call LLM
   const userMessage = await buildRouterUserMessage(input);
 
-  let rawResponse: string;
+  let decision: RouterDecision;
   try {
-    rawResponse = await callLLMText(ROUTER_SYSTEM_PROMPT, userMessage, 'router', {
+    ({ data: decision } = await callLLMJson(RouterResponseSchema, ROUTER_SYSTEM_PROMPT, userMessage, 'router', {
       providerChain: ['anthropic', 'openai', 'groq'],
       anthropicModel: process.env.ROUTER_LLM_MODEL || 'claude-sonnet-4-5-20250929',
       openaiModel: 'gpt-4o',
       timeoutMs: parseInt(process.env.ROUTER_TIMEOUT_MS || '15000', 10),
-    });
+    }));
   } catch (err: any) {
-    console.error(`[ROUTER] LLM failed (${Date.now() - startTime}ms): ${err.message}`);
-    return {
-      route: 'CHAT', entity: null, location: null, constraints: [],
-      clarify_question: null,
-      chat_response: "I didn't quite catch that. Could you tell me what you're looking for? I can find businesses for you — just give me a type and location.",
-      iteration_change: null, referenced_result: null,
-      confidence: 0.1, reasoning: `Router LLM failed — fallback to CHAT`,
-    };
-  }
-
-  let decision: RouterDecision;
-  try {
-    decision = parseRouterResponse(rawResponse);
-  } catch (parseErr: any) {
-    console.error(`[ROUTER] Parse failed (${Date.now() - startTime}ms): ${parseErr.message}`);
+    const parseFailed = isLLMJsonError(err);
+    console.error(`[ROUTER] ${parseFailed ? 'Parse' : 'LLM'} failed (${Date.now() - startTime}ms): ${err.message}`);
     return {
       route: 'CHAT', entity: null, location: null, constraints: [],
       clarify_question: null,
       chat_response: "I didn't quite catch that. Could you tell me what you're looking for? I can find businesses for you — just give me a type and location.",
       iteration_change: null, referenced_result: null,
-      confidence: 0.1, reasoning: `Router parse failed — fallback to CHAT`,
+      confidence: 0.1, reasoning: `Router ${parseFailed ? 'parse' : 'LLM'} failed — fallback to CHAT`,
     };
   }
 
@@ -90,6 +90,16 @@ const RESULT_QUESTION_PATTERNS = [
 
 // ─── Public API ──────────────────────────────────────────────────────────────
 
+/** "now try Leeds", "same but vets" — the user wants to tweak the last search */
+export function looksLikeIteration(rawMessage: string): boolean {
+  return ITERATION_PATTERNS.some((re) => re.test(rawMessage));
+}
+
+/** "tell me about the second one", "#3", "their website" — a question about delivered results */
+export function looksLikeResultQuestion(rawMessage: string): boolean {
+  return RESULT_QUESTION_PATTERNS.some((re) => re.test(rawMessage));
+}
+
 export function getConversationState(conversationId: string): ConversationState {
   const existing = store.get(conversationId);
   if (existing) return existing;
@@ -183,11 +193,11 @@ export function suggestPhase(input: PhaseDetectionInput): ConversationPhase {
   }
 
   if (hasLastDelivery) {
-    if (ITERATION_PATTERNS.some((re) => re.test(rawMessage))) {
+    if (looksLikeIteration(rawMessage)) {
       return 'iterating';
     }
 
-    if (RESULT_QUESTION_PATTERNS.some((re) => re.test(rawMessage))) {
+    if (looksLikeResultQuestion(rawMessage)) {
       return 'reviewing';
     }
 
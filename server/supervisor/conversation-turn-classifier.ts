@@ -7,7 +7,8 @@
  * Runs in ~300-500ms on Haiku 4.5.
  */
 
-import { callLLMText } from './llm-failover';
+import { z } from 'zod';
+import { callLLMJson } from './llm-json';
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -111,40 +112,21 @@ function buildClassifierInput(input: TurnClassifierInput): string {
 
 // ─── Parser ─────────────────────────────────────────────────────────────────
 
-const VALID_TURN_TYPES: LastAssistantTurnType[] = [
+const VALID_TURN_TYPES = [
   'SEARCH_RESULTS', 'ASKED_QUESTION', 'CHAT_REPLY', 'CLARIFICATION_REQUEST', 'NONE',
-];
+] as const satisfies readonly LastAssistantTurnType[];
 
-const VALID_RELATIONS: UserMessageRelation[] = [
+const VALID_RELATIONS = [
   'ANSWERING_QUESTION', 'CONTINUING_CHAT', 'PROVIDING_CLARIFICATION',
   'DISCUSSING_RESULTS', 'REFINING_SEARCH', 'NEW_SEARCH_REQUEST', 'GREETING_OR_OFFTOPIC',
-];
+] as const satisfies readonly UserMessageRelation[];
 
-function parseClassifierResponse(raw: string): TurnAnalysis {
-  let cleaned = raw.trim();
-  if (cleaned.startsWith('```json')) cleaned = cleaned.slice(7);
-  else if (cleaned.startsWith('```')) cleaned = cleaned.slice(3);
-  if (cleaned.endsWith('```')) cleaned = cleaned.slice(0, -3);
-  cleaned = cleaned.trim();
-  const match = cleaned.match(/\{[\s\S]*\}/);
-  if (match) cleaned = match[0];
-
-  const parsed = JSON.parse(cleaned);
-
-  if (!VALID_TURN_TYPES.includes(parsed.last_assistant_turn_type)) {
-    throw new Error(`Invalid turn type: ${parsed.last_assistant_turn_type}`);
-  }
-  if (!VALID_RELATIONS.includes(parsed.user_message_relation)) {
-    throw new Error(`Invalid relation: ${parsed.user_message_relation}`);
-  }
-
-  return {
-    last_assistant_turn_type: parsed.last_assistant_turn_type,
-    last_assistant_summary: String(parsed.last_assistant_summary || '').substring(0, 300),
-    user_message_relation: parsed.user_message_relation,
-    reasoning: String(parsed.reasoning || '').substring(0, 300),
-  };
-}
+const TurnAnalysisSchema: z.ZodType<TurnAnalysis, z.ZodTypeDef, unknown> = z.object({
+  last_assistant_turn_type: z.enum(VALID_TURN_TYPES),
+  last_assistant_summary: z.unknown().transform(v => String(v || '').substring(0, 300)),
+  user_message_relation: z.enum(VALID_RELATIONS),
+  reasoning: z.unknown().transform(v => String(v || '').substring(0, 300)),
+});
 
 // ─── Main export ────────────────────────────────────────────────────────────
 
@@ -153,29 +135,21 @@ export async function classifyTurn(input: TurnClassifierInput): Promise<TurnAnal
 
   const userMessage = buildClassifierInput(input);
 
-  let raw: string;
   try {
-    raw = await callLLMText(CLASSIFIER_SYSTEM_PROMPT, userMessage, 'turn_classifier', {
+    const { data: analysis } = await callLLMJson(TurnAnalysisSchema, CLASSIFIER_SYSTEM_PROMPT, userMessage, 'turn_classifier', {
       anthropicModel: process.env.TURN_CLASSIFIER_MODEL || 'claude-haiku-4-5-20251001',
       openaiModel: 'gpt-4o-mini',
       timeoutMs: parseInt(process.env.TURN_CLASSIFIER_TIMEOUT_MS || '8000', 10),
       maxTokens: 300,
       temperature: 0,
     });
-  } catch (err: any) {
-    console.warn(`[TURN_CLASSIFIER] LLM failed (${Date.now() - start}ms): ${err.message} — falling back to neutral analysis`);
-    return fallbackAnalysis(input);
-  }
-
-  try {
-    const analysis = parseClassifierResponse(raw);
     console.log(
       `[TURN_CLASSIFIER] turn=${analysis.last_assistant_turn_type} ` +
       `relation=${analysis.user_message_relation} (${Date.now() - start}ms)`
     );
     return analysis;
   } catch (err: any) {
-    console.warn(`[TURN_CLASSIFIER] Parse failed (${Date.now() - start}ms): ${err.message} — falling back`);
+    console.warn(`[TURN_CLASSIFIER] Classification failed (${Date.now() - start}ms): ${err.message} — falling back to neutral analysis`);
     return fallbackAnalysis(input);
   }
 }
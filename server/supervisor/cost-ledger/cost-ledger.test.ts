@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  getCostAttribution,
+  getCostReport,
+  getTokenPrice,
+  readTokenUsage,
+  recordApiUsage,
+  recordLLMUsage,
+  setCostLedgerStore,
+  withCostAttribution,
+  InMemoryCostLedgerStore,
+  _settleCostLedger,
+} from './index';
+import { useCassette, ejectCassette } from '../cassette';
+import { callLLM } from '../llm-failover';
+
+beforeEach(() => {
+  setCostLedgerStore(new InMemoryCostLedgerStore());
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('withCostAttribution', () => {
+  it('scopes attribution to the callback and merges nested scopes', async () => {
+    expect(getCostAttribution()).toEqual({});
+    await withCostAttribution({ runId: 'run-1', userId: 'user-1' }, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      expect(getCostAttribution()).toEqual({ runId: 'run-1', userId: 'user-1' });
+      withCostAttribution({ runId: 'run-2' }, () => {
+        expect(getCostAttribution()).toEqual({ runId: 'run-2', userId: 'user-1' });
+      });
+    });
+    expect(getCostAttribution()).toEqual({});
+  });
+
+  it('attaches the current scope to records unless the caller overrides it', () => {
+    withCostAttribution({ runId: 'run-1', userId: 'user-1' }, () => {
+      expect(recordApiUsage({ label: 'brave_search', provider: 'brave', unit: 'search' })).toMatchObject({ runId: 'run-1', userId: 'user-1' });
+      expect(recordApiUsage({ label: 'brave_search', provider: 'brave', unit: 'search', runId: 'run-9' })).toMatchObject({ runId: 'run-9', userId: 'user-1' });
+    });
+  });
+});
+
+describe('recordLLMUsage', () => {
+  it('reads OpenAI and Anthropic usage shapes', () => {
+    expect(readTokenUsage({ prompt_tokens: 10, completion_tokens: 5 })).toEqual({ inputTokens: 10, outputTokens: 5 });
+    expect(readTokenUsage({ input_tokens: 7, output_tokens: 3 })).toEqual({ inputTokens: 7, outputTokens: 3 });
+    expect(readTokenUsage(undefined)).toBeNull();
+  });
+
+  it('prices reported tokens on the longest matching model prefix', () => {
+    expect(getTokenPrice('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ inputPerMTok: 0.15, outputPerMTok: 0.6 });
+    const record = recordLLMUsage({
+      label: 'mission_extractor',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      usage: { prompt_tokens: 1_000_000, completion_tokens: 500_000 },
+    });
+    expect(record).toMatchObject({ inputTokens: 1_000_000, outputTokens: 500_000, costUsd: 0.45, estimated: false });
+  });
+
+  it('estimates tokens from text when usage is missing and flags unknown models', () => {
+    const estimated = recordLLMUsage({ label: 'x', provider: 'anthropic', model: 'claude-haiku-4-5', promptText: 'a'.repeat(400), completionText: 'b'.repeat(40) });
+    expect(estimated).toMatchObject({ inputTokens: 100, outputTokens: 10, estimated: true });
+
+    const unknown = recordLLMUsage({ label: 'x', provider: 'openai', model: 'mystery-model', usage: { prompt_tokens: 10, completion_tokens: 10 } });
+    expect(unknown).toMatchObject({ costUsd: 0, estimated: true });
+  });
+
+  it('adds web-search tool calls and honours COST_PRICES_JSON', () => {
+    vi.stubEnv('COST_PRICES_JSON', JSON.stringify({ 'openai:gpt-4o': { inputPerMTok: 0, outputPerMTok: 0 }, 'openai:web_search_call': 0.01 }));
+    const record = recordLLMUsage({ label: 'gpt4o_search', provider: 'openai', model: 'gpt-4o', usage: { input_tokens: 100, output_tokens: 100 }, webSearchCalls: 3 });
+    expect(record).toMatchObject({ units: 3, unit: 'web_search_call', costUsd: 0.03 });
+  });
+
+  it('is not recorded while replaying a cassette', () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'cost-ledger-test-'));
+    try {
+      useCassette('costs', { mode: 'replay', dir });
+      expect(recordLLMUsage({ label: 'x', provider: 'openai', model: 'gpt-4o', usage: {} })).toBeNull();
+      expect(recordApiUsage({ label: 'brave_search', provider: 'brave', unit: 'search' })).toBeNull();
+    } finally {
+      ejectCassette();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('records live callLLM calls under their label and run', async () => {
+    vi.stubEnv('GROQ_API_KEY', '');
+    vi.stubEnv('OPENAI_API_KEY', '');
+    vi.stubEnv('ANTHROPIC_API_KEY', 'test-key');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+      content: [{ type: 'text', text: 'SEARCH' }],
+      usage: { input_tokens: 120, output_tokens: 4 },
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } })));
+
+    const result = await withCostAttribution({ runId: 'run-1' }, () => callLLM({ label: 'router', system: 'Classify', user: 'find pubs' }));
+    await _settleCostLedger();
+
+    expect(result).toMatchObject({ provider: 'anthropic', inputTokens: 120, outputTokens: 4 });
+    const report = await getCostReport('label', { runId: 'run-1' });
+    expect(report.rows).toEqual([expect.objectContaining({ key: 'router', calls: 1, inputTokens: 120, outputTokens: 4 })]);
+  });
+});
+
+describe('getCostReport', () => {
+  it('groups by run, day and label with filters and totals', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+    recordApiUsage({ label: 'brave_search', provider: 'brave', unit: 'search', units: 2, runId: 'run-1', userId: 'u1' });
+    recordApiUsage({ label: 'google_places_search', provider: 'google_places', unit: 'text_search', runId: 'run-1', userId: 'u1' });
+    vi.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    recordApiUsage({ label: 'hunter_domain_search', provider: 'hunter', unit: 'domain_search', runId: 'run-2', userId: 'u2' });
+    await _settleCostLedger();
+
+    const byRun = await getCostReport('run');
+    expect(byRun.rows.map(r => [r.key, r.costUsd])).toEqual([['run-2', 0.1], ['run-1', 0.045]]);
+    expect(byRun.totals).toMatchObject({ calls: 3, units: 4, costUsd: 0.145 });
+    expect(byRun.totalCostGbp).toBeCloseTo(0.1146, 4);
+
+    const byDay = await getCostReport('day', { userId: 'u1' });
+    expect(byDay.rows.map(r => r.key)).toEqual(['2026-03-01']);
+
+    const byLabel = await getCostReport('label', { from: '2026-03-02T00:00:00.000Z' });
+    expect(byLabel.rows.map(r => r.key)).toEqual(['hunter_domain_search']);
+  });
+});
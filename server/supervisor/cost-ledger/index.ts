@@ -0,0 +1,376 @@
+/**
+ * Cost Ledger
+ *
+ * One record per LLM or paid-API call: tokens or billable units, a price-table
+ * estimate (prices.ts) and run/user/account/label attribution. Records roll up
+ * into GET /api/costs (per run, day, user, label, ...).
+ *
+ * Attribution comes from withCostAttribution(), which the supervisor wraps
+ * around chat tasks, jobs and mission runs, so callsites only pass a label.
+ * Records live behind a CostLedgerStore: the server installs the Postgres
+ * store at startup (usePostgresCostLedger, migrations/015_cost_records.sql);
+ * tests and tooling use the in-memory store that is active by default.
+ *
+ * Cassette replays are free and are not recorded.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { isCassetteReplaying } from '../cassette';
+import { getTokenPrice, getUnitPrice, getUsdToGbpRate } from './prices';
+import type {
+  CostAttribution,
+  CostFilter,
+  CostGroupBy,
+  CostLedgerStore,
+  CostProvider,
+  CostRecord,
+  CostReport,
+  CostSummaryRow,
+} from './types';
+import { COST_GROUP_BYS } from './types';
+
+export * from './types';
+export { getTokenPrice, getUnitPrice, getUsdToGbpRate } from './prices';
+
+// ============================================
+// ATTRIBUTION
+// ============================================
+
+const attributionStorage = new AsyncLocalStorage<CostAttribution>();
+
+/**
+ * Run fn with calls charged to the given run/user/account. Nested scopes
+ * inherit fields they don't set.
+ */
+export function withCostAttribution<T>(attribution: CostAttribution, fn: () => T): T {
+  const parent = attributionStorage.getStore() ?? {};
+  const merged: CostAttribution = { ...parent };
+  (Object.keys(attribution) as Array<keyof CostAttribution>).forEach(key => {
+    if (attribution[key]) merged[key] = attribution[key];
+  });
+  return attributionStorage.run(merged, fn);
+}
+
+export function getCostAttribution(): CostAttribution {
+  return attributionStorage.getStore() ?? {};
+}
+
+/** users.account_id for a user, or null when there is none */
+export type AccountLookup = (userId: string) => Promise<string | null>;
+
+async function lookupAccountInSupabase(userId: string): Promise<string | null> {
+  const { supabase } = await import('../../supabase');
+  if (!supabase) return null;
+  const { data, error } = await supabase.from('users').select('account_id').eq('id', userId).maybeSingle();
+  if (error) throw new Error(error.message);
+  return (data?.account_id as string | undefined) ?? null;
+}
+
+let accountLookup: AccountLookup = lookupAccountInSupabase;
+const accountCache = new Map<string, string | null>();
+
+/**
+ * Replace how a user's account is found (tests). Pass null to restore the
+ * Supabase lookup. Clears the cache either way.
+ */
+export function setAccountLookup(lookup: AccountLookup | null): void {
+  accountLookup = lookup ?? lookupAccountInSupabase;
+  accountCache.clear();
+}
+
+/**
+ * Fill in accountId from the user's account so account-scope budgets and
+ * cost reports see the call. A failed lookup leaves the attribution as it is.
+ */
+export async function resolveCostAttribution(attribution: CostAttribution): Promise<CostAttribution> {
+  const { userId } = attribution;
+  if (attribution.accountId || !userId || userId === 'system') return attribution;
+
+  if (!accountCache.has(userId)) {
+    try {
+      accountCache.set(userId, await accountLookup(userId));
+    } catch (err: any) {
+      console.warn(`[COST_LEDGER] Account lookup failed for user ${userId}: ${err.message}`);
+      return attribution;
+    }
+  }
+  const accountId = accountCache.get(userId);
+  return accountId ? { ...attribution, accountId } : attribution;
+}
+
+// ============================================
+// STORE
+// ============================================
+
+const MAX_MEMORY_RECORDS = 50_000;
+
+function groupKey(record: CostRecord, groupBy: CostGroupBy): string | null {
+  switch (groupBy) {
+    case 'run': return record.runId ?? null;
+    case 'day': return record.createdAt.substring(0, 10);
+    case 'user': return record.userId ?? null;
+    case 'account': return record.accountId ?? null;
+    case 'label': return record.label;
+    case 'provider': return record.provider;
+    case 'model': return record.model ?? null;
+  }
+}
+
+export function matchesCostFilter(record: CostRecord, filter: CostFilter): boolean {
+  if (filter.runId && record.runId !== filter.runId) return false;
+  if (filter.userId && record.userId !== filter.userId) return false;
+  if (filter.accountId && record.accountId !== filter.accountId) return false;
+  if (filter.provider && record.provider !== filter.provider) return false;
+  if (filter.label && record.label !== filter.label) return false;
+  if (filter.from && record.createdAt < filter.from) return false;
+  if (filter.to && record.createdAt >= filter.to) return false;
+  return true;
+}
+
+/**
+ * In-memory store, capped at the most recent MAX_MEMORY_RECORDS records.
+ */
+export class InMemoryCostLedgerStore implements CostLedgerStore {
+  private records: CostRecord[] = [];
+
+  async insert(record: CostRecord): Promise<void> {
+    this.records.push(record);
+    if (this.records.length > MAX_MEMORY_RECORDS) {
+      this.records.splice(0, this.records.length - MAX_MEMORY_RECORDS);
+    }
+  }
+
+  async summarize(groupBy: CostGroupBy, filter: CostFilter = {}): Promise<CostSummaryRow[]> {
+    const groups = new Map<string | null, CostSummaryRow>();
+    this.records.filter(r => matchesCostFilter(r, filter)).forEach(r => {
+      const key = groupKey(r, groupBy);
+      const row = groups.get(key) ?? { key, calls: 0, inputTokens: 0, outputTokens: 0, units: 0, costUsd: 0 };
+      row.calls++;
+      row.inputTokens += r.inputTokens;
+      row.outputTokens += r.outputTokens;
+      row.units += r.units;
+      row.costUsd += r.costUsd;
+      groups.set(key, row);
+    });
+    return Array.from(groups.values()).sort((a, b) => b.costUsd - a.costUsd);
+  }
+
+  async clear(): Promise<void> {
+    this.records = [];
+  }
+}
+
+let store: CostLedgerStore = new InMemoryCostLedgerStore();
+
+export function getCostLedgerStore(): CostLedgerStore {
+  return store;
+}
+
+export function setCostLedgerStore(newStore: CostLedgerStore): void {
+  store = newStore;
+}
+
+/**
+ * Persist cost records in cost_records. Imported lazily so tests never open a database connection.
+ */
+export async function usePostgresCostLedger(): Promise<void> {
+  const { PostgresCostLedgerStore } = await import('./postgres-store');
+  store = new PostgresCostLedgerStore();
+  console.log('[COST_LEDGER] Cost records persisted to Postgres (cost_records)');
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Token counts from a provider's `usage` object: OpenAI chat
+ * (prompt_tokens/completion_tokens), OpenAI Responses and Anthropic
+ * (input_tokens/output_tokens), Groq and Perplexity (OpenAI-compatible).
+ */
+export function readTokenUsage(raw: unknown): TokenUsage | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const u = raw as Record<string, unknown>;
+  const input = u.input_tokens ?? u.prompt_tokens ?? u.inputTokens;
+  const output = u.output_tokens ?? u.completion_tokens ?? u.outputTokens;
+  if (typeof input !== 'number' && typeof output !== 'number') return null;
+  return {
+    inputTokens: typeof input === 'number' ? input : 0,
+    outputTokens: typeof output === 'number' ? output : 0,
+  };
+}
+
+/** Rough token count for text when the provider reports no usage (~4 chars per token) */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Web-search tool calls in an OpenAI Responses `output` array */
+export function countWebSearchCalls(output: unknown): number {
+  if (!Array.isArray(output)) return 0;
+  return output.filter(item => typeof item?.type === 'string' && item.type.startsWith('web_search')).length;
+}
+
+export interface LLMUsageInput extends CostAttribution {
+  label: string;
+  provider: CostProvider;
+  model: string;
+  /** The provider's raw `usage` object (see readTokenUsage) */
+  usage?: unknown;
+  /** Used to estimate tokens when `usage` is missing */
+  promptText?: string;
+  completionText?: string;
+  /** OpenAI Responses web-search tool calls, billed per call */
+  webSearchCalls?: number;
+}
+
+export interface ApiUsageInput extends CostAttribution {
+  label: string;
+  provider: CostProvider;
+  /** Billable unit in the price table, e.g. 'search', 'text_search', 'domain_search' */
+  unit: string;
+  units?: number;
+}
+
+const pendingWrites = new Set<Promise<void>>();
+const listeners = new Set<(record: CostRecord) => void>();
+
+/**
+ * Subscribe to every record as it is saved (budgets keep running totals this
+ * way). Returns an unsubscribe function.
+ */
+export function onCostRecorded(listener: (record: CostRecord) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+function save(record: Omit<CostRecord, 'id' | 'createdAt' | keyof CostAttribution>, attribution: CostAttribution): CostRecord | null {
+  if (isCassetteReplaying()) return null;
+
+  const context = getCostAttribution();
+  const full: CostRecord = {
+    id: randomUUID(),
+    runId: attribution.runId ?? context.runId,
+    userId: attribution.userId ?? context.userId,
+    accountId: attribution.accountId ?? context.accountId,
+    ...record,
+    costUsd: roundUsd(record.costUsd),
+    createdAt: new Date().toISOString(),
+  };
+
+  listeners.forEach(listener => {
+    try {
+      listener(full);
+    } catch (err: any) {
+      console.warn(`[COST_LEDGER] Cost listener failed: ${err?.message || err}`);
+    }
+  });
+
+  const write = store.insert(full).catch((err: any) => {
+    console.warn(`[COST_LEDGER] Failed to record ${full.provider}/${full.label}: ${err?.message || err}`);
+  });
+  pendingWrites.add(write);
+  write.finally(() => pendingWrites.delete(write));
+  return full;
+}
+
+function pickAttribution(input: CostAttribution): CostAttribution {
+  return { runId: input.runId, userId: input.userId, accountId: input.accountId };
+}
+
+/**
+ * Record an LLM call. Never throws; the write happens in the background.
+ * Returns the record, or null while replaying a cassette.
+ */
+export function recordLLMUsage(input: LLMUsageInput): CostRecord | null {
+  const reported = readTokenUsage(input.usage);
+  const tokens = reported ?? {
+    inputTokens: estimateTokens(input.promptText ?? ''),
+    outputTokens: estimateTokens(input.completionText ?? ''),
+  };
+  const price = getTokenPrice(input.provider, input.model);
+  const webSearchCalls = input.webSearchCalls ?? 0;
+  const webSearchPrice = webSearchCalls > 0 ? getUnitPrice(input.provider, 'web_search_call') : 0;
+
+  const costUsd = (price ? (tokens.inputTokens * price.inputPerMTok + tokens.outputTokens * price.outputPerMTok) / 1_000_000 : 0)
+    + webSearchCalls * (webSearchPrice ?? 0);
+
+  return save({
+    label: input.label,
+    provider: input.provider,
+    model: input.model,
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    units: webSearchCalls,
+    unit: webSearchCalls > 0 ? 'web_search_call' : undefined,
+    costUsd,
+    estimated: !reported || !price || webSearchPrice === null,
+  }, pickAttribution(input));
+}
+
+/**
+ * Record a paid non-LLM API call (Brave, Places, geocoding, Hunter).
+ * Never throws; the write happens in the background.
+ */
+export function recordApiUsage(input: ApiUsageInput): CostRecord | null {
+  const units = input.units ?? 1;
+  const price = getUnitPrice(input.provider, input.unit);
+  return save({
+    label: input.label,
+    provider: input.provider,
+    inputTokens: 0,
+    outputTokens: 0,
+    units,
+    unit: input.unit,
+    costUsd: units * (price ?? 0),
+    estimated: price === null,
+  }, pickAttribution(input));
+}
+
+// ============================================
+// REPORTING
+// ============================================
+
+export function isCostGroupBy(value: unknown): value is CostGroupBy {
+  return typeof value === 'string' && (COST_GROUP_BYS as string[]).includes(value);
+}
+
+/**
+ * Roll cost records up by run, day, user, account, label, provider or model.
+ */
+export async function getCostReport(groupBy: CostGroupBy, filter: CostFilter = {}): Promise<CostReport> {
+  const rows = (await store.summarize(groupBy, filter)).map(row => ({ ...row, costUsd: roundUsd(row.costUsd) }));
+  const totals = rows.reduce((acc, row) => ({
+    calls: acc.calls + row.calls,
+    inputTokens: acc.inputTokens + row.inputTokens,
+    outputTokens: acc.outputTokens + row.outputTokens,
+    units: acc.units + row.units,
+    costUsd: acc.costUsd + row.costUsd,
+  }), { calls: 0, inputTokens: 0, outputTokens: 0, units: 0, costUsd: 0 });
+  totals.costUsd = roundUsd(totals.costUsd);
+  return {
+    groupBy,
+    filter,
+    rows,
+    totals,
+    totalCostGbp: Math.round(totals.costUsd * getUsdToGbpRate() * 10_000) / 10_000,
+  };
+}
+
+/**
+ * Wait for background writes to finish
+ * @internal Exported for testing only
+ */
+export async function _settleCostLedger(): Promise<void> {
+  await Promise.allSettled(Array.from(pendingWrites));
+}
@@ -0,0 +1,92 @@
+/**
+ * Postgres Cost Ledger Store
+ *
+ * CostLedgerStore backed by the cost_records table
+ * (migrations/015_cost_records.sql), one row per call.
+ *
+ * Loaded lazily by usePostgresCostLedger(): importing it opens the database connection.
+ */
+
+import { and, count, desc, eq, gte, lt, sql, type SQL } from 'drizzle-orm';
+import { db } from '../../db';
+import { costRecords } from '../../schema';
+import type { CostFilter, CostGroupBy, CostLedgerStore, CostRecord, CostSummaryRow } from './types';
+
+function groupColumn(groupBy: CostGroupBy): SQL<string | null> {
+  switch (groupBy) {
+    case 'run': return sql<string | null>`${costRecords.runId}`;
+    case 'day': return sql<string>`to_char(${costRecords.createdAt} AT TIME ZONE 'UTC', 'YYYY-MM-DD')`;
+    case 'user': return sql<string | null>`${costRecords.userId}`;
+    case 'account': return sql<string | null>`${costRecords.accountId}`;
+    case 'label': return sql<string>`${costRecords.label}`;
+    case 'provider': return sql<string>`${costRecords.provider}`;
+    case 'model': return sql<string | null>`${costRecords.model}`;
+  }
+}
+
+function filterConditions(filter: CostFilter): SQL[] {
+  const conditions: SQL[] = [];
+  if (filter.runId) conditions.push(eq(costRecords.runId, filter.runId));
+  if (filter.userId) conditions.push(eq(costRecords.userId, filter.userId));
+  if (filter.accountId) conditions.push(eq(costRecords.accountId, filter.accountId));
+  if (filter.provider) conditions.push(eq(costRecords.provider, filter.provider));
+  if (filter.label) conditions.push(eq(costRecords.label, filter.label));
+  if (filter.from) conditions.push(gte(costRecords.createdAt, new Date(filter.from)));
+  if (filter.to) conditions.push(lt(costRecords.createdAt, new Date(filter.to)));
+  return conditions;
+}
+
+/**
+ * Postgres implementation of CostLedgerStore.
+ */
+export class PostgresCostLedgerStore implements CostLedgerStore {
+  async insert(record: CostRecord): Promise<void> {
+    await db.insert(costRecords).values({
+      id: record.id,
+      runId: record.runId ?? null,
+      userId: record.userId ?? null,
+      accountId: record.accountId ?? null,
+      label: record.label,
+      provider: record.provider,
+      model: record.model ?? null,
+      inputTokens: record.inputTokens,
+      outputTokens: record.outputTokens,
+      units: record.units,
+      unit: record.unit ?? null,
+      costUsd: record.costUsd.toFixed(6),
+      estimated: record.estimated,
+      createdAt: new Date(record.createdAt),
+    });
+  }
+
+  async summarize(groupBy: CostGroupBy, filter: CostFilter = {}): Promise<CostSummaryRow[]> {
+    const key = groupColumn(groupBy);
+    const costUsd = sql<string>`coalesce(sum(${costRecords.costUsd}), 0)`;
+    const conditions = filterConditions(filter);
+    const rows = await db
+      .select({
+        key,
+        calls: count(),
+        inputTokens: sql<string>`coalesce(sum(${costRecords.inputTokens}), 0)`,
+        outputTokens: sql<string>`coalesce(sum(${costRecords.outputTokens}), 0)`,
+        units: sql<string>`coalesce(sum(${costRecords.units}), 0)`,
+        costUsd,
+      })
+      .from(costRecords)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(key)
+      .orderBy(desc(costUsd));
+    return rows.map(row => ({
+      key: row.key,
+      calls: row.calls,
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+      units: Number(row.units),
+      costUsd: Number(row.costUsd),
+    }));
+  }
+
+  async clear(): Promise<void> {
+    await db.delete(costRecords);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Price Table
+ *
+ * List prices in USD, as the providers invoice them. Token prices are per
+ * million tokens and matched on the longest model prefix; unit prices are per
+ * billable unit (`provider:unit`). COST_PRICES_JSON overrides or extends either
+ * table, e.g. {"anthropic:claude-haiku-4-5": {"inputPerMTok": 1, "outputPerMTok": 5}, "brave:search": 0.005}.
+ */
+
+import type { CostProvider } from './types';
+
+export interface TokenPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+/** `${provider}:${model prefix}` → price */
+const TOKEN_PRICES: Record<string, TokenPrice> = {
+  'anthropic:claude-haiku-4-5': { inputPerMTok: 1, outputPerMTok: 5 },
+  'anthropic:claude-3-5-haiku': { inputPerMTok: 0.8, outputPerMTok: 4 },
+  'anthropic:claude-sonnet-4': { inputPerMTok: 3, outputPerMTok: 15 },
+  'anthropic:claude-3-5-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'anthropic:claude-3-7-sonnet': { inputPerMTok: 3, outputPerMTok: 15 },
+  'anthropic:claude-opus-4': { inputPerMTok: 15, outputPerMTok: 75 },
+  'anthropic:claude-opus-4-5': { inputPerMTok: 5, outputPerMTok: 25 },
+  'openai:gpt-4o': { inputPerMTok: 2.5, outputPerMTok: 10 },
+  'openai:gpt-4o-mini': { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  'openai:gpt-4.1': { inputPerMTok: 2, outputPerMTok: 8 },
+  'openai:gpt-4.1-mini': { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  'openai:gpt-4.1-nano': { inputPerMTok: 0.1, outputPerMTok: 0.4 },
+  'openai:o4-mini': { inputPerMTok: 1.1, outputPerMTok: 4.4 },
+  'groq:llama-3.3-70b': { inputPerMTok: 0.59, outputPerMTok: 0.79 },
+  'groq:llama-3.1-8b': { inputPerMTok: 0.05, outputPerMTok: 0.08 },
+  'perplexity:sonar': { inputPerMTok: 1, outputPerMTok: 1 },
+  'perplexity:sonar-pro': { inputPerMTok: 3, outputPerMTok: 15 },
+  'perplexity:sonar-deep-research': { inputPerMTok: 2, outputPerMTok: 8 },
+  'perplexity:llama-3.1-sonar-large': { inputPerMTok: 1, outputPerMTok: 1 },
+};
+
+/** `${provider}:${unit}` → USD per unit */
+const UNIT_PRICES: Record<string, number> = {
+  'brave:search': 0.005,
+  'companies_house:request': 0,
+  'google_places:text_search': 0.035,
+  'google_geocode:geocode': 0.005,
+  'hunter:domain_search': 0.1,
+  'openai:web_search_call': 0.025,
+  'perplexity:request': 0.005,
+};
+
+let overridesRaw: string | undefined;
+let overrides: Record<string, TokenPrice | number> = {};
+
+function getOverrides(): Record<string, TokenPrice | number> {
+  const raw = process.env.COST_PRICES_JSON;
+  if (raw !== overridesRaw) {
+    overridesRaw = raw;
+    try {
+      overrides = raw ? JSON.parse(raw) : {};
+    } catch (err: any) {
+      console.warn(`[COST_LEDGER] Ignoring invalid COST_PRICES_JSON: ${err?.message || err}`);
+      overrides = {};
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Token price for a model, or null when the model is not in the table.
+ */
+export function getTokenPrice(provider: CostProvider, model: string | undefined): TokenPrice | null {
+  if (!model) return null;
+  const wanted = `${provider}:${model.toLowerCase()}`;
+  const table: Record<string, TokenPrice | number> = { ...TOKEN_PRICES, ...getOverrides() };
+  const match = Object.keys(table)
+    .filter(key => wanted.startsWith(key) && typeof table[key] === 'object')
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] as TokenPrice : null;
+}
+
+/**
+ * Price per unit, or null when the unit is not in the table.
+ */
+export function getUnitPrice(provider: CostProvider, unit: string): number | null {
+  const key = `${provider}:${unit}`;
+  const override = getOverrides()[key];
+  if (typeof override === 'number') return override;
+  return UNIT_PRICES[key] ?? null;
+}
+
+/** GBP per USD for the reporting currency */
+export function getUsdToGbpRate(): number {
+  const rate = Number(process.env.COST_USD_TO_GBP);
+  return Number.isFinite(rate) && rate > 0 ? rate : 0.79;
+}
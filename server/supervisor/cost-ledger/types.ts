@@ -0,0 +1,78 @@
+/**
+ * Cost Ledger Types
+ */
+
+export type CostProvider =
+  | 'anthropic'
+  | 'openai'
+  | 'groq'
+  | 'perplexity'
+  | 'brave'
+  | 'google_places'
+  | 'google_geocode'
+  | 'hunter'
+  | 'companies_house';
+
+/** Who a call is charged to; carried through a run by withCostAttribution() */
+export interface CostAttribution {
+  runId?: string;
+  userId?: string;
+  accountId?: string;
+}
+
+export interface CostRecord extends CostAttribution {
+  id: string;
+  /** Callsite label, e.g. 'mission_extractor', 'gpt4o_search', 'brave_search' */
+  label: string;
+  provider: CostProvider;
+  model?: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Billable non-token units (searches, requests, web-search tool calls) */
+  units: number;
+  /** What `units` counts, e.g. 'search', 'request', 'web_search_call' */
+  unit?: string;
+  costUsd: number;
+  /** True when tokens were estimated from text length or the price was not in the table */
+  estimated: boolean;
+  createdAt: string;
+}
+
+export type CostGroupBy = 'run' | 'day' | 'user' | 'account' | 'label' | 'provider' | 'model';
+
+export const COST_GROUP_BYS: CostGroupBy[] = ['run', 'day', 'user', 'account', 'label', 'provider', 'model'];
+
+export interface CostFilter extends CostAttribution {
+  provider?: CostProvider;
+  label?: string;
+  /** Inclusive ISO timestamp */
+  from?: string;
+  /** Exclusive ISO timestamp */
+  to?: string;
+}
+
+export interface CostSummaryRow {
+  /** Group value; null for calls without that attribution (e.g. no run) */
+  key: string | null;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  units: number;
+  costUsd: number;
+}
+
+export interface CostReport {
+  groupBy: CostGroupBy;
+  filter: CostFilter;
+  rows: CostSummaryRow[];
+  totals: Omit<CostSummaryRow, 'key'>;
+  /** Reporting-currency view of costUsd (COST_USD_TO_GBP) */
+  totalCostGbp: number;
+}
+
+export interface CostLedgerStore {
+  insert(record: CostRecord): Promise<void>;
+  /** Rows ordered by costUsd descending */
+  summarize(groupBy: CostGroupBy, filter?: CostFilter): Promise<CostSummaryRow[]>;
+  clear(): Promise<void>;
+}
@@ -1,6 +1,15 @@
 import type { StructuredConstraint } from './goal-to-constraints';
 import { isAttributeLikeConstraint } from './goal-to-constraints';
-import { verifyLocationGeo, type GeoVerificationResult } from './geo-regions';
+import {
+  DEFAULT_NEAR_KM,
+  verifyLocationGeo,
+  verifyLocationNear,
+  type GeoVerificationMethod,
+  type GeoVerificationResult,
+} from './geo-regions';
+import { parseWindowDays } from './time-predicate';
+import type { FirstSeenVerdict } from './entity-index';
+import { isRegistryCheckable, judgeRegistryConstraint, type CompanyRegistryMatch } from './company-registry';
 
 const PLACES_SUPPORTED_CATEGORIES = new Set([
   'pub', 'pubs', 'bar', 'bars', 'restaurant', 'restaurants',
@@ -71,7 +80,7 @@ export interface ConstraintCheck {
   reason: string;
   evidence_id: string | null;
   geo_evidence?: {
-    method: 'geo_bbox' | 'search_bounded' | 'unknown';
+    method: GeoVerificationMethod;
     region_key: string | null;
     lat: number | null;
     lng: number | null;
@@ -292,6 +301,35 @@ export interface AttributeEvidenceEntry {
 
 export type AttributeEvidenceMap = Map<string, Map<string, AttributeEvidenceEntry>>;
 
+/** First-seen verdicts from the entity index, keyed by lead placeId */
+export type FirstSeenEvidenceMap = Map<string, FirstSeenVerdict>;
+
+/** Registered-company matches from the company registry, keyed by lead placeId */
+export type CompanyRegistryEvidenceMap = Map<string, CompanyRegistryMatch>;
+
+/**
+ * Window in days a TIME_CONSTRAINT asks about, when the first-seen index can
+ * answer it ("opened within the last 6 months"); null otherwise.
+ */
+export function firstSeenWindowDays(constraint: StructuredConstraint): number | null {
+  if (constraint.type !== 'TIME_CONSTRAINT' || constraint.operator !== 'within_last') return null;
+  if (constraint.field === 'event_date') return null;
+  return typeof constraint.value === 'string' ? parseWindowDays(constraint.value) : null;
+}
+
+/**
+ * Centre and radius of a LOCATION_NEAR value: `{ center, km }`, or a bare place name.
+ */
+function nearTarget(value: unknown): { center: string; km: number } {
+  if (typeof value === 'string') return { center: value, km: DEFAULT_NEAR_KM };
+  const near = (value ?? {}) as { center?: unknown; km?: unknown };
+  const km = Number(near.km);
+  return {
+    center: typeof near.center === 'string' ? near.center : '',
+    km: Number.isFinite(km) && km > 0 ? km : DEFAULT_NEAR_KM,
+  };
+}
+
 export function verifyLeads(
   leads: VerifiableLead[],
   constraints: StructuredConstraint[],
@@ -300,6 +338,8 @@ export function verifyLeads(
   leadsReturnedFromApi: number,
   attributeEvidence?: AttributeEvidenceMap,
   searchWasBounded: boolean = true,
+  firstSeenEvidence?: FirstSeenEvidenceMap,
+  registryEvidence?: CompanyRegistryEvidenceMap,
 ): CvlVerificationOutput {
   const leadVerifications: LeadVerificationResult[] = [];
   const evidenceItems: VerificationEvidence[] = [];
@@ -317,7 +357,7 @@ export function verifyLeads(
     let locationConf: LocationConfidence = 'not_applicable';
 
     for (const c of constraints) {
-      const check = verifyOneConstraint(lead, c, i, evidenceCounter, evidenceItems, attributeEvidence, searchWasBounded);
+      const check = verifyOneConstraint(lead, c, i, evidenceCounter, evidenceItems, attributeEvidence, searchWasBounded, firstSeenEvidence, registryEvidence);
       checks.push(check.result);
       evidenceCounter = check.nextEvidenceCounter;
 
@@ -455,6 +495,8 @@ function verifyOneConstraint(
   evidenceItems: VerificationEvidence[],
   attributeEvidence?: AttributeEvidenceMap,
   searchWasBounded: boolean = true,
+  firstSeenEvidence?: FirstSeenEvidenceMap,
+  registryEvidence?: CompanyRegistryEvidenceMap,
 ): { result: ConstraintCheck; nextEvidenceCounter: number } {
   let status: VerificationStatus = 'unknown';
   let confidence: VerificationConfidence = 'low';
@@ -486,8 +528,10 @@ function verifyOneConstraint(
       break;
     }
 
-    case 'LOCATION_EQUALS': {
-      const locationValue = typeof constraint.value === 'string' ? constraint.value.toLowerCase() : '';
+    case 'LOCATION_EQUALS':
+    case 'LOCATION_NEAR': {
+      const near = constraint.type === 'LOCATION_NEAR' ? nearTarget(constraint.value) : null;
+      const locationValue = near ? near.center.toLowerCase() : typeof constraint.value === 'string' ? constraint.value.toLowerCase() : '';
       if (!locationValue) {
         status = 'unknown';
         confidence = 'low';
@@ -495,13 +539,9 @@ function verifyOneConstraint(
         break;
       }
 
-      const geoResult: GeoVerificationResult = verifyLocationGeo(
-        lead.lat,
-        lead.lng,
-        locationValue,
-        constraint.hard,
-        lead.address,
-      );
+      const geoResult: GeoVerificationResult = near
+        ? verifyLocationNear(lead.lat, lead.lng, locationValue, near.km, constraint.hard, lead.address)
+        : verifyLocationGeo(lead.lat, lead.lng, locationValue, constraint.hard, lead.address);
 
       const geoEvidence = {
         method: geoResult.method,
@@ -522,7 +562,7 @@ function verifyOneConstraint(
             lead_index: leadIndex,
             lead_name: lead.name,
             field: 'location_geo',
-            source: 'geo_bbox',
+            source: geoResult.method,
             snippet: `${geoResult.regionName} (${geoResult.regionKey}) — lat=${geoResult.lat}, lng=${geoResult.lng}`,
           });
           break;
@@ -553,19 +593,6 @@ function verifyOneConstraint(
       break;
     }
 
-    case 'LOCATION_NEAR': {
-      if (lead.address) {
-        status = 'unknown';
-        confidence = 'low';
-        reason = 'Proximity check requires geocoding; address present but distance unverifiable with current tools';
-      } else {
-        status = 'unknown';
-        confidence = 'low';
-        reason = 'Lead has no address or geometry for proximity verification';
-      }
-      break;
-    }
-
     case 'NAME_STARTS_WITH': {
       const prefix = typeof constraint.value === 'string' ? constraint.value.toLowerCase() : '';
       if (!prefix) {
@@ -657,7 +684,25 @@ function verifyOneConstraint(
       const attrValue = typeof constraint.value === 'string' ? constraint.value.toLowerCase() : '';
       const leadEvMap = attributeEvidence?.get(lead.placeId);
       const attrEv = leadEvMap?.get(attrValue);
-      if (attrEv) {
+      // The company register is the official record for ownership, status and
+      // incorporation, so it answers ahead of website evidence when it can
+      const registryMatch = isRegistryCheckable(constraint) ? registryEvidence?.get(lead.placeId) : undefined;
+      const registry = registryMatch ? judgeRegistryConstraint(constraint, registryMatch) : null;
+      if (registryMatch && registry && registry.verdict !== 'unknown') {
+        status = registry.verdict;
+        confidence = registry.confidence;
+        reason = registry.reason;
+        evidenceId = `ev_${evidenceCounter++}`;
+        evidenceItems.push({
+          evidence_id: evidenceId,
+          constraint_id: constraint.id,
+          lead_index: leadIndex,
+          lead_name: lead.name,
+          field: 'company_registry',
+          source: registryMatch.provider,
+          snippet: registry.snippet,
+        });
+      } else if (attrEv) {
         status = attrEv.verdict;
         confidence = attrEv.confidence;
         reason = attrEv.reason;
@@ -678,6 +723,24 @@ function verifyOneConstraint(
         confidence = 'low';
         reason = `Attribute "${attrValue}" was not checked via website visit`;
       }
+
+      // Website evidence rarely dates an opening; fall back to the first-seen index
+      const firstSeen = firstSeenWindowDays(constraint) !== null ? firstSeenEvidence?.get(lead.placeId) : undefined;
+      if (status === 'unknown' && firstSeen && firstSeen.verdict !== 'unknown') {
+        status = firstSeen.verdict;
+        confidence = firstSeen.confidence;
+        reason = firstSeen.reason;
+        evidenceId = `ev_${evidenceCounter++}`;
+        evidenceItems.push({
+          evidence_id: evidenceId,
+          constraint_id: constraint.id,
+          lead_index: leadIndex,
+          lead_name: lead.name,
+          field: 'first_seen',
+          source: 'entity_index',
+          snippet: `first_seen=${firstSeen.firstSeenAt}`,
+        });
+      }
       break;
     }
 
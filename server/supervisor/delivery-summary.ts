@@ -45,6 +45,15 @@ export interface SupportingEvidenceItem {
   confidence: number;
 }
 
+/** A suggested or saved lead that entity resolution matched to a delivered entity */
+export interface PipelineMatchItem {
+  lead_kind: 'suggested_lead' | 'saved_lead';
+  lead_id: string;
+  pipeline_stage: string | null;
+  match_score: number;
+  matched_on: string[];
+}
+
 export interface DeliveredEntity {
   entity_id: string;
   name: string;
@@ -56,6 +65,9 @@ export interface DeliveredEntity {
   match_basis?: MatchBasisItem[];
   supporting_evidence?: SupportingEvidenceItem[];
   match_evidence?: MatchEvidenceItem[];
+  /** True when the entity matches a lead already in the user's pipeline */
+  already_in_pipeline?: boolean;
+  pipeline_matches?: PipelineMatchItem[];
 }
 
 // PHASE_3: Removed COMPLETED (meaningless — ignored Tower verdict). Removed TRUSTED.
@@ -114,6 +126,7 @@ export interface DeliverySummaryLeadInput {
   match_basis?: MatchBasisItem[];
   supporting_evidence?: SupportingEvidenceItem[];
   match_evidence?: MatchEvidenceItem[];
+  pipeline_matches?: PipelineMatchItem[];
 }
 
 export type CvlLocationStatus = 'verified_geo' | 'search_bounded' | 'out_of_area' | 'unknown' | 'not_applicable';
@@ -408,6 +421,7 @@ export function buildDeliverySummaryPayload(input: DeliverySummaryInput): Delive
       ...(lead.match_basis && lead.match_basis.length > 0 ? { match_basis: lead.match_basis } : {}),
       ...(lead.supporting_evidence && lead.supporting_evidence.length > 0 ? { supporting_evidence: lead.supporting_evidence } : {}),
       ...(lead.match_evidence && lead.match_evidence.length > 0 ? { match_evidence: lead.match_evidence } : {}),
+      ...(lead.pipeline_matches && lead.pipeline_matches.length > 0 ? { already_in_pipeline: true, pipeline_matches: lead.pipeline_matches } : {}),
     };
 
     if (effectiveMatchLevel === 'exact') {
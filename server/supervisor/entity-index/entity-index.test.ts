@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  buildFirstSeenEvidence,
+  getEntityIndexStats,
+  judgeFirstSeen,
+  lookupEntity,
+  normaliseArea,
+  normaliseDomain,
+  recordAreaSearch,
+  recordEntitySightings,
+  setEntityIndexStore,
+  sightingsFromEntities,
+  MemoryEntityIndexStore,
+} from './index';
+import { useCassette, ejectCassette } from '../cassette';
+import { verifyLeads, type VerifiableLead } from '../cvl';
+import type { StructuredConstraint } from '../goal-to-constraints';
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+const daysAgo = (n: number) => new Date(NOW.getTime() - n * 24 * 60 * 60 * 1000);
+
+beforeEach(() => {
+  setEntityIndexStore(new MemoryEntityIndexStore());
+});
+
+describe('recording sightings', () => {
+  afterEach(() => ejectCassette());
+
+  it('keys entities by real place_id and normalised domain, keeping the first sighting', async () => {
+    expect(normaliseDomain('https://www.TheCrown.co.uk/menu')).toBe('thecrown.co.uk');
+    expect(normaliseDomain('https://m.facebook.com/thecrown')).toBeNull();
+
+    const entities = [
+      { name: 'The Crown', placeId: 'ChIJcrown', website: 'https://www.thecrown.co.uk' },
+      { name: 'The Swan', placeId: 'gpt4o_1_the_swan', website: null },
+    ];
+    expect(sightingsFromEntities(entities, 'gpt4o_primary').map(s => `${s.kind}:${s.key}`)).toEqual([
+      'place_id:ChIJcrown',
+      'domain:thecrown.co.uk',
+    ]);
+
+    await recordEntitySightings(sightingsFromEntities(entities, 'gp_cascade'), daysAgo(90));
+    await recordEntitySightings([{ kind: 'domain', key: 'thecrown.co.uk', name: 'The Crown', source: 'brave' }], daysAgo(10));
+
+    expect(await lookupEntity({ placeId: 'ChIJcrown', website: null })).toMatchObject({
+      firstSeenAt: daysAgo(90).toISOString(),
+      firstSource: 'gp_cascade',
+      sightings: 1,
+    });
+    expect(await lookupEntity({ placeId: null, website: 'thecrown.co.uk' })).toMatchObject({
+      lastSeenAt: daysAgo(10).toISOString(),
+      lastSource: 'brave',
+      sightings: 2,
+    });
+    expect(await getEntityIndexStats()).toMatchObject({ store: 'memory', entities: 2, coverageStart: daysAgo(90).toISOString() });
+  });
+
+  it('records nothing while a cassette is loaded', async () => {
+    useCassette('entity-index', { mode: 'record', dir: '/nonexistent' });
+    await recordEntitySightings([{ kind: 'place_id', key: 'ChIJx', name: 'X', source: 'gp_cascade' }]);
+    ejectCassette();
+    expect((await getEntityIndexStats()).entities).toBe(0);
+  });
+});
+
+describe('judgeFirstSeen', () => {
+  const entity = (firstSeen: Date) => ({
+    kind: 'place_id' as const, key: 'ChIJa', name: 'A', firstSeenAt: firstSeen.toISOString(), lastSeenAt: NOW.toISOString(),
+    firstSource: 'gp_cascade', lastSource: 'gp_cascade', sightings: 2,
+  });
+  const coverage = daysAgo(365).toISOString();
+
+  it('treats a listing first seen inside the window as new only when the index predates the window', () => {
+    expect(judgeFirstSeen(entity(daysAgo(30)), 180, coverage, NOW)).toMatchObject({ verdict: 'yes', confidence: 'medium' });
+    expect(judgeFirstSeen(entity(daysAgo(30)), 180, daysAgo(60).toISOString(), NOW).verdict).toBe('unknown');
+    expect(judgeFirstSeen(entity(daysAgo(200)), 180, coverage, NOW)).toMatchObject({ verdict: 'no', confidence: 'medium' });
+  });
+
+  it('has no opinion on entities it has not seen or only just saw', () => {
+    expect(judgeFirstSeen(null, 180, coverage, NOW).verdict).toBe('unknown');
+    expect(judgeFirstSeen(entity(new Date(NOW.getTime() - 60_000)), 180, coverage, NOW).verdict).toBe('unknown');
+  });
+});
+
+describe('CVL TIME_CONSTRAINT via the first-seen index', () => {
+  function lead(placeId: string, name: string): VerifiableLead {
+    return { name, address: '1 High St, Leeds', phone: null, website: null, placeId, source: 'google_places', lat: null, lng: null };
+  }
+
+  it('falls back to first-seen verdicts when no website evidence dates the opening', async () => {
+    await recordAreaSearch('Leeds', daysAgo(400));
+    await recordEntitySightings([{ kind: 'place_id', key: 'ChIJold', name: 'Old Inn', source: 'gp_cascade' }], daysAgo(400));
+    await recordEntitySightings([{ kind: 'place_id', key: 'ChIJnew', name: 'New Tap', source: 'gp_cascade' }], daysAgo(40));
+
+    const leads = [lead('ChIJold', 'Old Inn'), lead('ChIJnew', 'New Tap')];
+    const constraint: StructuredConstraint = {
+      id: 'c_time', type: 'TIME_CONSTRAINT', field: 'opening_date', operator: 'within_last', value: '6 months', hard: true, rationale: '',
+    } as StructuredConstraint;
+    const firstSeen = await buildFirstSeenEvidence(leads, 180, 'Leeds', NOW);
+
+    const result = verifyLeads(leads, [constraint], null, 20, 2, undefined, true, firstSeen);
+    expect(result.leadVerifications.map(lv => lv.constraint_checks[0].status)).toEqual(['no', 'yes']);
+    expect(result.evidenceItems.map(e => e.source)).toEqual(['entity_index', 'entity_index']);
+  });
+
+  it('has no opinion on listings in an area searched for the first time', async () => {
+    // Leeds has been searched for a year; Otley only since last week
+    await recordAreaSearch('Leeds', daysAgo(400));
+    await recordEntitySightings([{ kind: 'place_id', key: 'ChIJleeds', name: 'Old Inn', source: 'gp_cascade' }], daysAgo(400));
+    await recordAreaSearch('Otley, West Yorkshire', daysAgo(7));
+    await recordEntitySightings([{ kind: 'place_id', key: 'ChIJotley', name: 'Otley Tap', source: 'gp_cascade' }], daysAgo(7));
+
+    expect(normaliseArea('Otley, West Yorkshire')).toBe('otley west yorkshire');
+    const otley = await buildFirstSeenEvidence([{ placeId: 'ChIJotley' }], 180, 'otley west yorkshire', NOW);
+    expect(otley.get('ChIJotley')).toMatchObject({ verdict: 'unknown', reason: expect.stringContaining('first searched on') });
+
+    const ilkley = await buildFirstSeenEvidence([{ placeId: 'ChIJotley' }], 180, 'Ilkley', NOW);
+    expect(ilkley.get('ChIJotley')).toMatchObject({ verdict: 'unknown', reason: expect.stringContaining('had not been searched before') });
+
+    const leeds = await buildFirstSeenEvidence([{ placeId: 'ChIJotley' }], 180, 'Leeds', NOW);
+    expect(leeds.get('ChIJotley')?.verdict).toBe('yes');
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Entity Index
+ *
+ * Persistent record of every place_id and website domain the executors have
+ * surfaced (GP cascade and GPT-4o loops, Brave searches), with first_seen /
+ * last_seen timestamps and the source of each, plus when each area was
+ * first searched. It backs the 'new_listing' time-predicate proxy: a venue
+ * first seen inside the requested window, in an area already searched before
+ * the window, is likely a new listing.
+ *
+ * Entities live behind an EntityIndexStore: the server installs the Postgres
+ * store at startup (usePostgresEntityIndex, migrations/018_entity_index.sql,
+ * 020_entity_index_coverage.sql);
+ * tests and tooling use the in-memory store that is active by default.
+ *
+ * Nothing is recorded while a cassette is loaded (replays are not sightings)
+ * or when ENTITY_INDEX_DISABLED=true.
+ */
+
+import { getActiveCassette } from '../cassette';
+import type { EntityIndexStore, EntityKeyKind, EntitySighting, FirstSeenVerdict, IndexedEntity } from './types';
+
+export * from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Placeholder ids minted by executors that had no real place_id */
+const SYNTHETIC_PLACE_ID = /^(?:gpt4o|cascade|stub_place)_/;
+
+/** Hosts shared by many businesses; a page there says nothing about one entity */
+const SHARED_HOSTS = new Set([
+  'facebook.com', 'instagram.com', 'twitter.com', 'x.com', 'linkedin.com', 'tiktok.com', 'youtube.com',
+  'google.com', 'goo.gl', 'tripadvisor.co.uk', 'tripadvisor.com', 'yelp.com', 'yell.com',
+  'linktr.ee', 'wixsite.com', 'squarespace.com', 'wordpress.com', 'untappd.com', 'opentable.co.uk',
+]);
+
+function entityId(kind: EntityKeyKind, key: string): string {
+  return `${kind}:${key}`;
+}
+
+/**
+ * Normalise a URL or bare host to the domain the index keys on (lower case,
+ * no www.). Returns null for unparseable input and shared hosts.
+ */
+export function normaliseDomain(urlOrHost: string | null | undefined): string | null {
+  const raw = (urlOrHost || '').trim();
+  if (!raw) return null;
+  let host: string;
+  try {
+    host = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `https://${raw}`).hostname;
+  } catch {
+    return null;
+  }
+  host = host.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+  if (!host.includes('.')) return null;
+  if (SHARED_HOSTS.has(host) || SHARED_HOSTS.has(host.split('.').slice(-2).join('.'))) return null;
+  return host;
+}
+
+/**
+ * Key for an area's search coverage: the search location, lower case,
+ * without punctuation.
+ *
+ * @example normaliseArea('Lewes, East Sussex') // 'lewes east sussex'
+ */
+export function normaliseArea(location: string | null | undefined): string | null {
+  const area = (location || '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return area || null;
+}
+
+export function isIndexablePlaceId(placeId: string | null | undefined): placeId is string {
+  return !!placeId && !SYNTHETIC_PLACE_ID.test(placeId);
+}
+
+/**
+ * Sightings for executor entities: the real place_id and the website domain of each.
+ */
+export function sightingsFromEntities(
+  entities: Array<{ name: string; placeId?: string | null; website?: string | null }>,
+  source: string,
+): EntitySighting[] {
+  const sightings: EntitySighting[] = [];
+  for (const entity of entities) {
+    if (isIndexablePlaceId(entity.placeId)) {
+      sightings.push({ kind: 'place_id', key: entity.placeId, name: entity.name, source });
+    }
+    const domain = normaliseDomain(entity.website);
+    if (domain) sightings.push({ kind: 'domain', key: domain, name: entity.name, source });
+  }
+  return sightings;
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+export class MemoryEntityIndexStore implements EntityIndexStore {
+  readonly name = 'memory';
+  private entities = new Map<string, IndexedEntity>();
+  private areas = new Map<string, string>();
+
+  async upsert(sightings: EntitySighting[], seenAt: string): Promise<void> {
+    for (const sighting of sightings) {
+      const id = entityId(sighting.kind, sighting.key);
+      const known = this.entities.get(id);
+      if (known) {
+        if (seenAt >= known.lastSeenAt) {
+          known.lastSeenAt = seenAt;
+          known.lastSource = sighting.source;
+        }
+        if (seenAt < known.firstSeenAt) {
+          known.firstSeenAt = seenAt;
+          known.firstSource = sighting.source;
+        }
+        known.name = known.name ?? sighting.name;
+        known.sightings++;
+      } else {
+        this.entities.set(id, {
+          kind: sighting.kind,
+          key: sighting.key,
+          name: sighting.name,
+          firstSeenAt: seenAt,
+          lastSeenAt: seenAt,
+          firstSource: sighting.source,
+          lastSource: sighting.source,
+          sightings: 1,
+        });
+      }
+    }
+  }
+
+  async get(kind: EntityKeyKind, keys: string[]): Promise<IndexedEntity[]> {
+    const found: IndexedEntity[] = [];
+    keys.forEach(key => {
+      const entity = this.entities.get(entityId(kind, key));
+      if (entity) found.push({ ...entity });
+    });
+    return found;
+  }
+
+  async recordAreaSearch(area: string, searchedAt: string): Promise<void> {
+    const first = this.areas.get(area);
+    if (!first || searchedAt < first) this.areas.set(area, searchedAt);
+  }
+
+  async areaCoverageStart(area: string): Promise<string | null> {
+    return this.areas.get(area) ?? null;
+  }
+
+  async coverageStart(): Promise<string | null> {
+    let earliest: string | null = null;
+    this.entities.forEach(entity => {
+      if (earliest === null || entity.firstSeenAt < earliest) earliest = entity.firstSeenAt;
+    });
+    return earliest;
+  }
+
+  async count(): Promise<number> {
+    return this.entities.size;
+  }
+}
+
+// ============================================
+// STORE CONFIGURATION
+// ============================================
+
+let store: EntityIndexStore = new MemoryEntityIndexStore();
+
+export function getEntityIndexStore(): EntityIndexStore {
+  return store;
+}
+
+/**
+ * Replace the store (Postgres at startup, or a fresh in-memory one in tests)
+ */
+export function setEntityIndexStore(newStore: EntityIndexStore): void {
+  store = newStore;
+}
+
+/**
+ * Persist the index in entity_index. Imported lazily so tests never open a database connection.
+ */
+export async function usePostgresEntityIndex(): Promise<void> {
+  const { PostgresEntityIndexStore } = await import('./postgres-store');
+  store = new PostgresEntityIndexStore();
+  console.log('[ENTITY_INDEX] Index persisted to Postgres (entity_index)');
+}
+
+export function isEntityIndexEnabled(): boolean {
+  return process.env.ENTITY_INDEX_DISABLED !== 'true' && !getActiveCassette();
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Record a batch of sightings. Never throws — the index must not fail a search.
+ */
+export async function recordEntitySightings(sightings: EntitySighting[], seenAt: Date = new Date()): Promise<void> {
+  if (!isEntityIndexEnabled() || sightings.length === 0) return;
+
+  const unique = new Map<string, EntitySighting>();
+  sightings.forEach(s => {
+    if (!unique.has(entityId(s.kind, s.key))) unique.set(entityId(s.kind, s.key), s);
+  });
+  try {
+    await store.upsert(Array.from(unique.values()), seenAt.toISOString());
+  } catch (err: any) {
+    console.warn(`[ENTITY_INDEX] failed to record ${unique.size} sighting(s): ${err?.message || err}`);
+  }
+}
+
+/**
+ * Record that an area was searched, whether or not anything turned up. Only
+ * areas searched before a window opened can show what is new inside it.
+ * Never throws.
+ */
+export async function recordAreaSearch(location: string | null | undefined, searchedAt: Date = new Date()): Promise<void> {
+  const area = normaliseArea(location);
+  if (!isEntityIndexEnabled() || !area) return;
+  try {
+    await store.recordAreaSearch(area, searchedAt.toISOString());
+  } catch (err: any) {
+    console.warn(`[ENTITY_INDEX] failed to record a search of "${area}": ${err?.message || err}`);
+  }
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * The index entry for a lead: its place_id entry, else its domain entry,
+ * taking whichever was seen first when both exist.
+ */
+export async function lookupEntity(lead: { placeId?: string | null; website?: string | null }): Promise<IndexedEntity | null> {
+  const [byPlace, byDomain] = await Promise.all([
+    isIndexablePlaceId(lead.placeId) ? store.get('place_id', [lead.placeId]) : Promise.resolve([]),
+    (() => {
+      const domain = normaliseDomain(lead.website);
+      return domain ? store.get('domain', [domain]) : Promise.resolve([]);
+    })(),
+  ]);
+  const candidates = [...byPlace, ...byDomain];
+  if (candidates.length === 0) return null;
+  return candidates.reduce((a, b) => (b.firstSeenAt < a.firstSeenAt ? b : a));
+}
+
+/**
+ * Judge whether an entity first appeared within the last `windowDays`.
+ *
+ * First-seen only means "new" when the lead's area was already being searched
+ * before the window opened (`areaCoverageStart`), and an entity first seen in
+ * the last day has nothing earlier to compare against, so both cases come back
+ * 'unknown'. Being seen before the window is good evidence the listing is not new.
+ */
+export function judgeFirstSeen(
+  entity: IndexedEntity | null,
+  windowDays: number,
+  areaCoverageStart: string | null,
+  now: Date = new Date(),
+): FirstSeenVerdict {
+  if (!entity) {
+    return { verdict: 'unknown', confidence: 'low', reason: 'Not in the first-seen index yet', firstSeenAt: null };
+  }
+
+  const windowStart = now.getTime() - windowDays * DAY_MS;
+  const firstSeen = Date.parse(entity.firstSeenAt);
+  const firstSeenDay = entity.firstSeenAt.slice(0, 10);
+
+  if (firstSeen < windowStart) {
+    return {
+      verdict: 'no',
+      confidence: 'medium',
+      reason: `Already listed on ${firstSeenDay} (first seen via ${entity.firstSource}), before the ${windowDays}-day window`,
+      firstSeenAt: entity.firstSeenAt,
+    };
+  }
+
+  if (!areaCoverageStart) {
+    return {
+      verdict: 'unknown',
+      confidence: 'low',
+      reason: `First seen ${firstSeenDay}, but this area had not been searched before — nothing earlier to compare against`,
+      firstSeenAt: entity.firstSeenAt,
+    };
+  }
+
+  if (Date.parse(areaCoverageStart) >= windowStart) {
+    return {
+      verdict: 'unknown',
+      confidence: 'low',
+      reason: `First seen ${firstSeenDay}, but this area was first searched on ${areaCoverageStart.slice(0, 10)}, inside the window`,
+      firstSeenAt: entity.firstSeenAt,
+    };
+  }
+
+  if (now.getTime() - firstSeen < DAY_MS) {
+    return {
+      verdict: 'unknown',
+      confidence: 'low',
+      reason: 'First seen in the last day — no earlier search of this area to compare against',
+      firstSeenAt: entity.firstSeenAt,
+    };
+  }
+
+  return {
+    verdict: 'yes',
+    confidence: 'medium',
+    reason: `New listing: first seen ${firstSeenDay} via ${entity.firstSource}, within the ${windowDays}-day window`,
+    firstSeenAt: entity.firstSeenAt,
+  };
+}
+
+/**
+ * First-seen verdicts for a set of leads found by searching `location`, keyed
+ * by placeId, ready for CVL's TIME_CONSTRAINT check. Lookup failures yield no
+ * entry rather than an error.
+ */
+export async function buildFirstSeenEvidence(
+  leads: Array<{ placeId: string; website?: string | null }>,
+  windowDays: number,
+  location: string | null | undefined,
+  now: Date = new Date(),
+): Promise<Map<string, FirstSeenVerdict>> {
+  const evidence = new Map<string, FirstSeenVerdict>();
+  try {
+    const area = normaliseArea(location);
+    const coverageStart = area ? await store.areaCoverageStart(area) : null;
+    const entities = await Promise.all(leads.map(lead => lookupEntity(lead)));
+    leads.forEach((lead, i) => {
+      evidence.set(lead.placeId, judgeFirstSeen(entities[i], windowDays, coverageStart, now));
+    });
+  } catch (err: any) {
+    console.warn(`[ENTITY_INDEX] first-seen lookup failed: ${err?.message || err}`);
+  }
+  return evidence;
+}
+
+export async function getEntityIndexStats(): Promise<{ store: string; enabled: boolean; entities: number; coverageStart: string | null }> {
+  const [entities, coverageStart] = await Promise.all([store.count(), store.coverageStart()]);
+  return { store: store.name, enabled: isEntityIndexEnabled(), entities, coverageStart };
+}
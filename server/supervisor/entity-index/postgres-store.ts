@@ -0,0 +1,106 @@
+/**
+ * Postgres Entity Index Store
+ *
+ * EntityIndexStore backed by the entity_index table
+ * (migrations/018_entity_index.sql), one row per (kind, entity_key), and
+ * entity_index_coverage (020_entity_index_coverage.sql), one row per area. A
+ * batch is one upsert, so concurrent runs never lose a first-seen timestamp.
+ *
+ * Loaded lazily by usePostgresEntityIndex(): importing it opens the database connection.
+ */
+
+import { and, count, eq, inArray, min, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { entityIndex, entityIndexCoverage, type EntityIndexRow } from '../../schema';
+import type { EntityIndexStore, EntityKeyKind, EntitySighting, IndexedEntity } from './types';
+
+function rowToEntity(row: EntityIndexRow): IndexedEntity {
+  return {
+    kind: row.kind as EntityKeyKind,
+    key: row.entityKey,
+    name: row.name,
+    firstSeenAt: row.firstSeenAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+    firstSource: row.firstSource,
+    lastSource: row.lastSource,
+    sightings: row.sightings,
+  };
+}
+
+/**
+ * Postgres implementation of EntityIndexStore.
+ */
+export class PostgresEntityIndexStore implements EntityIndexStore {
+  readonly name = 'postgres';
+
+  async upsert(sightings: EntitySighting[], seenAt: string): Promise<void> {
+    if (sightings.length === 0) return;
+    const at = new Date(seenAt);
+    await db
+      .insert(entityIndex)
+      .values(sightings.map(s => ({
+        id: `${s.kind}:${s.key}`,
+        kind: s.kind,
+        entityKey: s.key,
+        name: s.name,
+        firstSeenAt: at,
+        lastSeenAt: at,
+        firstSource: s.source,
+        lastSource: s.source,
+        sightings: 1,
+      })))
+      .onConflictDoUpdate({
+        target: [entityIndex.kind, entityIndex.entityKey],
+        set: {
+          name: sql`COALESCE(${entityIndex.name}, excluded.name)`,
+          firstSource: sql`CASE WHEN excluded.first_seen_at < ${entityIndex.firstSeenAt} THEN excluded.first_source ELSE ${entityIndex.firstSource} END`,
+          firstSeenAt: sql`LEAST(${entityIndex.firstSeenAt}, excluded.first_seen_at)`,
+          lastSource: sql`CASE WHEN excluded.last_seen_at >= ${entityIndex.lastSeenAt} THEN excluded.last_source ELSE ${entityIndex.lastSource} END`,
+          lastSeenAt: sql`GREATEST(${entityIndex.lastSeenAt}, excluded.last_seen_at)`,
+          sightings: sql`${entityIndex.sightings} + 1`,
+        },
+      });
+  }
+
+  async get(kind: EntityKeyKind, keys: string[]): Promise<IndexedEntity[]> {
+    if (keys.length === 0) return [];
+    const rows = await db
+      .select()
+      .from(entityIndex)
+      .where(and(eq(entityIndex.kind, kind), inArray(entityIndex.entityKey, keys)));
+    return rows.map(rowToEntity);
+  }
+
+  async recordAreaSearch(area: string, searchedAt: string): Promise<void> {
+    const at = new Date(searchedAt);
+    await db
+      .insert(entityIndexCoverage)
+      .values({ area, firstSearchedAt: at, lastSearchedAt: at, searches: 1 })
+      .onConflictDoUpdate({
+        target: entityIndexCoverage.area,
+        set: {
+          firstSearchedAt: sql`LEAST(${entityIndexCoverage.firstSearchedAt}, excluded.first_searched_at)`,
+          lastSearchedAt: sql`GREATEST(${entityIndexCoverage.lastSearchedAt}, excluded.last_searched_at)`,
+          searches: sql`${entityIndexCoverage.searches} + 1`,
+        },
+      });
+  }
+
+  async areaCoverageStart(area: string): Promise<string | null> {
+    const [row] = await db
+      .select({ firstSearchedAt: entityIndexCoverage.firstSearchedAt })
+      .from(entityIndexCoverage)
+      .where(eq(entityIndexCoverage.area, area));
+    return row ? row.firstSearchedAt.toISOString() : null;
+  }
+
+  async coverageStart(): Promise<string | null> {
+    const [{ earliest }] = await db.select({ earliest: min(entityIndex.firstSeenAt) }).from(entityIndex);
+    return earliest ? new Date(earliest).toISOString() : null;
+  }
+
+  async count(): Promise<number> {
+    const [{ total }] = await db.select({ total: count() }).from(entityIndex);
+    return total;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Entity Index Types
+ */
+
+/** What identifies an indexed entity: a Google place_id or a website domain */
+export type EntityKeyKind = 'place_id' | 'domain';
+
+export interface EntitySighting {
+  kind: EntityKeyKind;
+  /** place_id as returned by Places, or a normalised domain (no www.) */
+  key: string;
+  name: string | null;
+  /** Executor or tool that surfaced it, e.g. gp_cascade, gpt4o_primary, brave */
+  source: string;
+}
+
+export interface IndexedEntity {
+  kind: EntityKeyKind;
+  key: string;
+  name: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  firstSource: string;
+  lastSource: string;
+  /** Batches the entity appeared in (one per executor loop or search) */
+  sightings: number;
+}
+
+/**
+ * Storage backend. The in-memory store is the default; the server installs the
+ * Postgres store at startup.
+ */
+export interface EntityIndexStore {
+  readonly name: string;
+  /** Insert new entities and bump last_seen on known ones; keys are unique within a call */
+  upsert(sightings: EntitySighting[], seenAt: string): Promise<void>;
+  get(kind: EntityKeyKind, keys: string[]): Promise<IndexedEntity[]>;
+  /** Note a search of an area (a normalised location); keeps the first search time */
+  recordAreaSearch(area: string, searchedAt: string): Promise<void>;
+  /** When the area was first searched, or null if it never has been */
+  areaCoverageStart(area: string): Promise<string | null>;
+  /** Earliest first_seen in the index, or null while it is empty */
+  coverageStart(): Promise<string | null>;
+  count(): Promise<number>;
+}
+
+/** First-seen verdict for one lead against a time window, in CVL's terms */
+export interface FirstSeenVerdict {
+  verdict: 'yes' | 'no' | 'unknown';
+  confidence: 'high' | 'medium' | 'low';
+  reason: string;
+  firstSeenAt: string | null;
+}
@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const { getSuggestedLeads } = vi.hoisted(() => ({ getSuggestedLeads: vi.fn() }));
+vi.mock('../storage', () => ({ storage: { getSuggestedLeads } }));
+
+import {
+  clusterEntities,
+  entityKey,
+  findPipelineMatches,
+  loadPipelineEntities,
+  normaliseEntityName,
+  normaliseEntityPhone,
+  resolveExecutorEntities,
+  scoreEntityPair,
+} from './entity-resolution';
+import { buildDeliverySummaryPayload } from './delivery-summary';
+import { decide } from './reloop/gate';
+import { detectDelta } from './sleep-wake/delta-detector';
+import { InMemorySavedLeadStore, setSavedLeadStore } from '../features/saveLead';
+import type { ExecutorEntity, JudgeVerdict } from './reloop/types';
+
+function entity(overrides: Partial<ExecutorEntity> & { name: string }): ExecutorEntity {
+  return {
+    address: '',
+    phone: null,
+    website: null,
+    placeId: `gpt4o_${overrides.name}`,
+    source: 'gpt4o_web_search',
+    verified: false,
+    verificationStatus: 'unknown',
+    evidence: [],
+    ...overrides,
+  };
+}
+
+afterEach(() => {
+  getSuggestedLeads.mockReset();
+  setSavedLeadStore(new InMemorySavedLeadStore());
+});
+
+describe('normalisation', () => {
+  it('strips articles, punctuation and company suffixes from names', () => {
+    expect(normaliseEntityName('The Lamb Co. Ltd')).toBe('lamb');
+    expect(normaliseEntityName("Harvey's Brewery & Shop")).toBe('harvey s brewery and shop');
+  });
+
+  it('reduces UK numbers to national digits', () => {
+    expect(normaliseEntityPhone('+44 (0)1273 123456')).toBe('01273123456');
+    expect(normaliseEntityPhone('+44 1273 123456')).toBe('01273123456');
+    expect(normaliseEntityPhone('01273 123456')).toBe('01273123456');
+    expect(normaliseEntityPhone('123')).toBeNull();
+  });
+});
+
+describe('scoreEntityPair', () => {
+  it('matches the same pub described differently by two sources', () => {
+    const pair = scoreEntityPair(
+      { name: 'The Lamb', address: '10 Fisher Street, Lewes BN7 2BE', phone: '01273 470950', placeId: 'ChIJlamb' },
+      { name: 'Lamb Inn, Lewes', address: 'Fisher St, Lewes, East Sussex, BN7 2BE', phone: '+44 1273 470950', placeId: 'gpt4o_3' },
+    );
+    expect(pair.same).toBe(true);
+    expect(pair.matchedOn).toEqual(['similar_name', 'postcode', 'phone']);
+  });
+
+  it('keeps namesakes apart when the postcode or distance disagrees', () => {
+    expect(scoreEntityPair(
+      { name: 'The Crown', address: 'High St, Lewes BN7 2AA' },
+      { name: 'Crown', address: 'North St, Brighton BN1 1EB' },
+    ).same).toBe(false);
+    expect(scoreEntityPair(
+      { name: 'The Crown', lat: 50.873, lng: 0.008 },
+      { name: 'The Crown', lat: 50.822, lng: -0.137 },
+    ).same).toBe(false);
+  });
+
+  it('needs a key besides the name', () => {
+    expect(scoreEntityPair({ name: 'The Crown' }, { name: 'The Crown' })).toMatchObject({ same: false, matchedOn: ['name'] });
+    expect(scoreEntityPair({ name: 'The Crown', address: 'High St, Lewes' }, { name: 'Crown', address: 'High St, Uckfield' }).same).toBe(false);
+    expect(scoreEntityPair({ name: 'The Crown', lat: 50.873, lng: 0.008 }, { name: 'The Crown', lat: 50.8735, lng: 0.0085 }).same).toBe(true);
+  });
+
+  it('trusts a shared place id and distrusts two different ones', () => {
+    expect(scoreEntityPair({ name: 'A', placeId: 'ChIJ1' }, { name: 'B', placeId: 'ChIJ1' })).toMatchObject({ same: true, matchedOn: ['place_id'] });
+    expect(scoreEntityPair({ name: 'The Swan', placeId: 'ChIJ1' }, { name: 'The Swan', placeId: 'ChIJ2' }).same).toBe(false);
+  });
+
+  it('needs more than a shared domain', () => {
+    expect(scoreEntityPair(
+      { name: 'Harbour Lights', website: 'https://harbourlights.co.uk' },
+      { name: 'Shoreham Taproom', website: 'harbourlights.co.uk/taproom' },
+    ).same).toBe(false);
+  });
+});
+
+describe('chain branches and generic names', () => {
+  const greggs = (address: string, extra: Partial<ExecutorEntity> = {}) =>
+    entity({ name: 'Greggs', address, website: 'https://www.greggs.co.uk', ...extra });
+
+  it('keeps branches with different postcodes or far apart separate despite a shared domain', () => {
+    expect(scoreEntityPair(
+      { name: 'Greggs', address: 'North Street, Brighton BN1 1EB', website: 'greggs.co.uk' },
+      { name: 'Greggs', address: 'George Street, Hove BN3 1AE', website: 'greggs.co.uk' },
+    ).same).toBe(false);
+    expect(scoreEntityPair(
+      { name: 'Greggs', website: 'greggs.co.uk', phone: '01273 000001', lat: 50.873, lng: 0.008 },
+      { name: 'Greggs', website: 'greggs.co.uk', phone: '01273 000001', lat: 50.822, lng: -0.137 },
+    ).same).toBe(false);
+  });
+
+  it('does not chain branches together through a lead with no location', () => {
+    const brighton = greggs('North Street, Brighton BN1 1EB', { placeId: 'gpt4o_1' });
+    const hove = greggs('George Street, Hove BN3 1AE', { placeId: 'gpt4o_2' });
+    const unplaced = greggs('', { placeId: 'brave_1', source: 'brave' });
+    expect(resolveExecutorEntities([brighton, hove, unplaced])).toEqual([brighton, hove, unplaced]);
+
+    const sameBranch = greggs('North St, Brighton, BN1 1EB', { placeId: 'brave_2', source: 'brave' });
+    expect(resolveExecutorEntities([brighton, hove, sameBranch]).map(e => e.address)).toEqual([
+      'North Street, Brighton BN1 1EB',
+      'George Street, Hove BN3 1AE',
+    ]);
+  });
+
+  it('does not match generic names on a shared domain', () => {
+    expect(scoreEntityPair(
+      { name: 'The Cafe', website: 'https://www.visitlewes.co.uk' },
+      { name: 'Cafe', website: 'visitlewes.co.uk' },
+    )).toMatchObject({ same: false, matchedOn: ['name'] });
+  });
+});
+
+describe('resolveExecutorEntities', () => {
+  it('merges clusters transitively and keeps every source\'s evidence', () => {
+    const places = entity({ name: 'The Lamb', address: 'Lewes BN7 2BE', placeId: 'ChIJlamb', source: 'gp_cascade', evidence: [{ source: 'places' }] });
+    const gpt = entity({ name: 'The Lamb', address: 'Lewes BN7 2BE', phone: '01273 470950', verified: true, verificationStatus: 'verified', evidence: [{ source: 'web' }] });
+    const brave = entity({ name: 'Lamb Inn Lewes', phone: '+44 1273 470950', website: 'thelamblewes.co.uk', source: 'brave', evidence: [{ source: 'brave' }] });
+    const other = entity({ name: 'The Swan', address: 'Lewes BN7 1AA' });
+
+    const resolved = resolveExecutorEntities([places, gpt, other, brave]);
+    expect(resolved.map(e => e.name)).toEqual(['The Lamb', 'The Swan']);
+    expect(resolved[0]).toMatchObject({
+      placeId: 'ChIJlamb',
+      phone: '01273 470950',
+      website: 'thelamblewes.co.uk',
+      verified: true,
+      verificationStatus: 'verified',
+      mergedSources: ['gp_cascade', 'gpt4o_web_search', 'brave'],
+    });
+    expect(resolved[0].evidence).toHaveLength(3);
+    expect(resolved[1]).toBe(other);
+  });
+
+  it('clusters arbitrary lead shapes through a view', () => {
+    const leads = [
+      { n: 'Black Cat Brewing Co', w: 'blackcatbrewing.co.uk' },
+      { n: 'Black Cat Brewing Ltd', w: 'https://www.blackcatbrewing.co.uk' },
+      { n: 'Dark Star', w: null },
+    ];
+    expect(clusterEntities(leads, l => ({ name: l.n, website: l.w })).map(c => c.length)).toEqual([2, 1]);
+  });
+
+  it('keeps same-name entities in different towns apart', () => {
+    const lewes = entity({ name: 'The Crown', address: 'High Street, Lewes', placeId: 'gpt4o_0_the_crown' });
+    const uckfield = entity({ name: 'The Crown', address: 'High Street, Uckfield', placeId: 'gpt4o_0_the_crown', source: 'brave' });
+    expect(resolveExecutorEntities([lewes, uckfield])).toEqual([lewes, uckfield]);
+    expect(entityKey(lewes)).not.toBe(entityKey(uckfield));
+    expect(entityKey(entity({ name: 'The Crown', placeId: 'ChIJcrown' }))).toBe('ChIJcrown');
+  });
+
+  it('drives the re-loop gate accumulator', () => {
+    const verdict = { verdict: 'PASS', confidence: 0.9, variableState: {} } as unknown as JudgeVerdict;
+    const decision = decide({
+      loopNumber: 3,
+      judgeVerdict: verdict,
+      accumulatedEntities: [entity({ name: 'The Lamb', address: 'Lewes BN7 2BE' }), entity({ name: 'The Crown', address: 'Lewes' })],
+      currentLoopEntities: [
+        entity({ name: 'Lamb', address: 'Fisher St, Lewes BN7 2BE', phone: '01273 470950' }),
+        entity({ name: 'The Crown', address: 'Uckfield' }),
+      ],
+      loopHistory: [],
+      availableExecutors: ['gp_cascade'],
+      executorsTriedSoFar: ['gp_cascade'],
+    });
+    expect(decision.contextForward.accumulatedEntities.map(e => e.address)).toEqual(['Lewes BN7 2BE', 'Lewes', 'Uckfield']);
+    expect(decision.contextForward.accumulatedEntities[0].phone).toBe('01273 470950');
+  });
+});
+
+describe('pipeline matching', () => {
+  it('flags delivered entities already in suggested or saved leads', async () => {
+    getSuggestedLeads.mockResolvedValue([
+      { id: 'sl-1', lead: { businessName: 'The Lamb', address: '10 Fisher St, Lewes BN7 2BE', phone: '01273470950' }, pipelineStage: 'contacted', rationale: '', score: 0.8 },
+    ]);
+    const saved = new InMemorySavedLeadStore();
+    await saved.insert({
+      id: 'sv-1', ownerUserId: 'user-1', createdAt: '2026-09-01T00:00:00Z', updatedAt: '2026-09-01T00:00:00Z',
+      businessName: 'Black Cat Brewing', address: 'Hove BN3 5QD', website: 'https://www.blackcatbrewing.co.uk', source: 'manual', tags: [],
+    } as any);
+    setSavedLeadStore(saved);
+
+    const pipeline = await loadPipelineEntities('user-1');
+    expect(getSuggestedLeads).toHaveBeenCalledWith('user-1');
+    expect(pipeline.map(p => `${p.kind}:${p.id}`)).toEqual(['suggested_lead:sl-1', 'saved_lead:sv-1']);
+
+    const lamb = findPipelineMatches({ name: 'Lamb Inn', address: 'Lewes BN7 2BE', phone: '+44 1273 470950' }, pipeline);
+    expect(lamb).toEqual([{ lead_kind: 'suggested_lead', lead_id: 'sl-1', pipeline_stage: 'contacted', match_score: 0.95, matched_on: ['similar_name', 'postcode', 'phone'] }]);
+    expect(findPipelineMatches({ name: 'Black Cat Brewing Co', website: 'blackcatbrewing.co.uk' }, pipeline)).toHaveLength(1);
+    expect(findPipelineMatches({ name: 'The Swan', address: 'Lewes BN7 1AA' }, pipeline)).toEqual([]);
+
+    const payload = buildDeliverySummaryPayload({
+      runId: 'run-1', userId: 'user-1', originalUserGoal: 'pubs in Lewes', requestedCount: null,
+      hardConstraints: [], softConstraints: [], planVersions: [{ version: 1, changes_made: [] }], softRelaxations: [],
+      leads: [
+        { entity_id: 'p1', name: 'Lamb Inn', address: 'Lewes BN7 2BE', pipeline_matches: lamb },
+        { entity_id: 'p2', name: 'The Swan', address: 'Lewes BN7 1AA', pipeline_matches: [] },
+      ],
+      finalVerdict: 'pass',
+    });
+    const delivered = [...payload.delivered_exact, ...payload.delivered_closest];
+    expect(delivered.find(e => e.entity_id === 'p1')).toMatchObject({ already_in_pipeline: true, pipeline_matches: lamb });
+    expect(delivered.find(e => e.entity_id === 'p2')).not.toHaveProperty('already_in_pipeline');
+  });
+
+  it('still reads saved leads when suggested leads are unavailable', async () => {
+    getSuggestedLeads.mockRejectedValue(new Error('db down'));
+    expect(await loadPipelineEntities('user-1')).toEqual([]);
+  });
+});
+
+describe('detectDelta', () => {
+  it('treats suffix and punctuation variants as unchanged', () => {
+    const delta = detectDelta(['The Lamb Ltd', 'Crown'], ['Lamb', 'The Crown', 'Swan']);
+    expect(delta).toMatchObject({ newEntities: ['Swan'], removedEntities: [], unchangedCount: 2 });
+  });
+});
@@ -0,0 +1,388 @@
+/**
+ * Entity Resolution
+ *
+ * Decides whether two leads are the same business. gp_cascade, gpt4o_search
+ * and Brave describe one pub with different names ("The Lamb" / "Lamb Inn,
+ * Lewes"), address formats and sometimes synthetic place ids, so matching on
+ * the name alone both misses duplicates and merges unrelated namesakes.
+ *
+ * A candidate pair is scored on normalised name, postcode, phone, website
+ * domain and distance; pairs at or above ENTITY_MATCH_THRESHOLD that agree on
+ * at least one key besides the name are the same entity. A different postcode
+ * or a distance over FAR_APART_KM rules a match out, and a shared website only
+ * counts for names that belong to one place (not "The Cafe", not a chain whose
+ * branches share greggs.co.uk). Within a run, matching entities are clustered and merged into one
+ * (evidence concatenated); against the user's suggested_leads and saved
+ * leads, matches become the "already in your pipeline" flags on
+ * DeliveredEntity.
+ */
+
+import { normaliseDomain, isIndexablePlaceId } from './entity-index';
+import { haversineKm } from './gazetteer';
+import { extractPostcode } from './company-registry';
+import { fromSuggestedLead } from '../features/crmSync/normalize';
+import { getSavedLeadStore, MAX_SAVED_LEADS_LIMIT } from '../features/saveLead';
+import type { ExecutorEntity } from './reloop/types';
+import type { PipelineMatchItem } from './delivery-summary';
+
+/** Pair score at or above which two leads are treated as one entity */
+export const ENTITY_MATCH_THRESHOLD = 0.6;
+
+/** Keys that can corroborate a name match; a name alone never makes a match */
+const CORROBORATING_SIGNALS: EntityMatchSignal[] = ['place_id', 'postcode', 'phone', 'domain', 'geo'];
+
+/** Two leads further apart than this are never the same entity */
+const FAR_APART_KM = 5;
+
+/** Names made only of these words are too generic for a shared website to identify one place */
+const GENERIC_NAME_WORDS = new Set([
+  'and', 'bakery', 'bar', 'barbers', 'bistro', 'butchers', 'cafe', 'coffee', 'deli', 'garage', 'grill',
+  'hair', 'hotel', 'house', 'inn', 'kitchen', 'office', 'pharmacy', 'pizza', 'post', 'pub', 'restaurant',
+  'salon', 'shop', 'store', 'takeaway', 'tavern', 'tea', 'room', 'rooms',
+]);
+
+/** Saved leads read per user when checking the pipeline */
+export const PIPELINE_SAVED_LEADS_CAP = 1000;
+
+/** The fields entity resolution reads; ExecutorEntity, delivery leads and pipeline leads all map onto it */
+export interface ResolvableEntity {
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  placeId?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+}
+
+export type EntityMatchSignal = 'place_id' | 'name' | 'similar_name' | 'postcode' | 'phone' | 'domain' | 'geo';
+
+export interface EntityPairScore {
+  score: number;
+  same: boolean;
+  /** Signals that agreed; a conflicting postcode or distance makes `same` false whatever the score */
+  matchedOn: EntityMatchSignal[];
+}
+
+/** A lead already in the user's pipeline */
+export interface PipelineEntity extends ResolvableEntity {
+  kind: 'suggested_lead' | 'saved_lead';
+  id: string;
+  pipelineStage: string | null;
+}
+
+interface ResolutionKeys {
+  name: string;
+  genericName: boolean;
+  nameTokens: Set<string>;
+  postcode: string | null;
+  phone: string | null;
+  domain: string | null;
+  placeId: string | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+/**
+ * Name as compared across sources: lower case, no punctuation, no leading
+ * "the" and no company suffixes.
+ *
+ * @example normaliseEntityName('The Lamb Co. Ltd') // 'lamb'
+ */
+export function normaliseEntityName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/^\s*the\s+/, '')
+    .replace(/\b(ltd|limited|inc|plc|llc|llp|co|company|group|holdings)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * UK phone number as national digits, or null if too short to match on.
+ *
+ * @example normaliseEntityPhone('+44 (0)1273 123456') // '01273123456'
+ */
+export function normaliseEntityPhone(phone: string | null | undefined): string | null {
+  let digits = (phone || '').replace(/\D/g, '');
+  if (digits.startsWith('0044')) digits = digits.slice(4);
+  else if (digits.startsWith('44') && (phone || '').trim().startsWith('+')) digits = digits.slice(2);
+  if (digits.length > 0 && !digits.startsWith('0')) digits = `0${digits}`;
+  return digits.length >= 8 ? digits : null;
+}
+
+function keysFor(entity: ResolvableEntity): ResolutionKeys {
+  const name = normaliseEntityName(entity.name || '');
+  const hasCoords = typeof entity.lat === 'number' && typeof entity.lng === 'number';
+  const tokens = name.split(' ').filter(Boolean);
+  return {
+    name,
+    genericName: tokens.length > 0 && tokens.every(t => GENERIC_NAME_WORDS.has(t)),
+    nameTokens: new Set(tokens),
+    postcode: extractPostcode(entity.address),
+    phone: normaliseEntityPhone(entity.phone),
+    domain: normaliseDomain(entity.website),
+    placeId: isIndexablePlaceId(entity.placeId) ? entity.placeId : null,
+    lat: hasCoords ? entity.lat! : null,
+    lng: hasCoords ? entity.lng! : null,
+  };
+}
+
+/** One name's words all appear in the other, or the two share most of their words */
+function similarNames(a: Set<string>, b: Set<string>): boolean {
+  if (a.size === 0 || b.size === 0) return false;
+  const shared = Array.from(a).filter(t => b.has(t)).length;
+  if (shared === Math.min(a.size, b.size)) return true;
+  return shared / (a.size + b.size - shared) >= 0.5;
+}
+
+/** The two leads are in different places: postcodes differ or they are far apart */
+function locationsConflict(a: ResolutionKeys, b: ResolutionKeys): boolean {
+  if (a.postcode && b.postcode && a.postcode !== b.postcode) return true;
+  return a.lat !== null && b.lat !== null && haversineKm(a.lat, a.lng!, b.lat, b.lng!) > FAR_APART_KM;
+}
+
+/**
+ * Names and domains seen at more than one location in a batch: chain
+ * branches, whose shared website says nothing about which branch a lead is.
+ */
+function findChainKeys(keys: ResolutionKeys[]): Set<string> {
+  const chainKeys = new Set<string>();
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      if (!locationsConflict(keys[i], keys[j])) continue;
+      if (keys[i].name && keys[i].name === keys[j].name) chainKeys.add(`name:${keys[i].name}`);
+      if (keys[i].domain && keys[i].domain === keys[j].domain) chainKeys.add(`domain:${keys[i].domain}`);
+    }
+  }
+  return chainKeys;
+}
+
+function scoreKeys(a: ResolutionKeys, b: ResolutionKeys, chainKeys: Set<string> = new Set()): EntityPairScore {
+  if (a.placeId && b.placeId && a.placeId === b.placeId) {
+    return { score: 1, same: true, matchedOn: ['place_id'] };
+  }
+
+  let score = 0;
+  const matchedOn: EntityMatchSignal[] = [];
+
+  // Two real Places listings are usually two businesses
+  if (a.placeId && b.placeId) score -= 0.6;
+
+  if (a.name && a.name === b.name) {
+    score += 0.6;
+    matchedOn.push('name');
+  } else if (similarNames(a.nameTokens, b.nameTokens)) {
+    score += 0.3;
+    matchedOn.push('similar_name');
+  }
+
+  if (a.postcode && b.postcode) {
+    if (a.postcode === b.postcode) {
+      score += 0.25;
+      matchedOn.push('postcode');
+    } else {
+      score -= 0.3;
+    }
+  }
+
+  if (a.phone && b.phone && a.phone === b.phone) {
+    score += 0.4;
+    matchedOn.push('phone');
+  }
+
+  // A website shared by a generic name or a chain's branches doesn't single out a place
+  const domainIdentifies = !a.genericName && !b.genericName
+    && !chainKeys.has(`name:${a.name}`) && !chainKeys.has(`name:${b.name}`)
+    && !chainKeys.has(`domain:${a.domain}`);
+  if (a.domain && b.domain && a.domain === b.domain && domainIdentifies) {
+    score += 0.4;
+    matchedOn.push('domain');
+  }
+
+  if (a.lat !== null && b.lat !== null) {
+    const km = haversineKm(a.lat, a.lng!, b.lat, b.lng!);
+    if (km <= 0.1) {
+      score += 0.25;
+      matchedOn.push('geo');
+    } else if (km <= 0.5) {
+      score += 0.1;
+      matchedOn.push('geo');
+    } else if (km > FAR_APART_KM) {
+      score -= 0.4;
+    }
+  }
+
+  score = Math.round(score * 100) / 100;
+  const corroborated = matchedOn.some(signal => CORROBORATING_SIGNALS.includes(signal));
+  const same = score >= ENTITY_MATCH_THRESHOLD && corroborated && !locationsConflict(a, b);
+  return { score, same, matchedOn };
+}
+
+export function scoreEntityPair(a: ResolvableEntity, b: ResolvableEntity): EntityPairScore {
+  return scoreKeys(keysFor(a), keysFor(b));
+}
+
+/**
+ * Identity for an entity carried between loops: its real place id, or else
+ * its synthetic id, name and address together (synthetic ids are only unique
+ * within one executor call). Namesakes keep separate keys.
+ */
+export function entityKey(entity: ResolvableEntity): string {
+  if (isIndexablePlaceId(entity.placeId)) return entity.placeId;
+  return [entity.placeId || '', normaliseEntityName(entity.name || ''), (entity.address || '').toLowerCase().trim()].join('|');
+}
+
+/**
+ * Group items that describe the same entity. Matching is transitive, so a
+ * Brave result that matches on phone and a Places result that matches on
+ * place id end up in one cluster. Clusters and their members keep input order.
+ */
+export function clusterEntities<T>(items: T[], view: (item: T) => ResolvableEntity): T[][] {
+  const keys = items.map(item => keysFor(view(item)));
+  const chainKeys = findChainKeys(keys);
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (find(i) === find(j)) continue;
+      if (scoreKeys(keys[i], keys[j], chainKeys).same) {
+        const [lo, hi] = [find(i), find(j)].sort((x, y) => x - y);
+        parent[hi] = lo;
+      }
+    }
+  }
+
+  const clusters = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    const cluster = clusters.get(root);
+    if (cluster) cluster.push(item);
+    else clusters.set(root, [item]);
+  });
+  return Array.from(clusters.values());
+}
+
+/**
+ * Merge one cluster into its first entity: missing contact fields and a real
+ * place id are taken from the others, the entity is verified if any member
+ * was, and all evidence is kept.
+ */
+export function mergeExecutorEntities(cluster: ExecutorEntity[]): ExecutorEntity {
+  const [primary, ...others] = cluster;
+  if (others.length === 0) return primary;
+
+  const verifiedMember = cluster.find(e => e.verified);
+  const realPlaceId = isIndexablePlaceId(primary.placeId)
+    ? primary.placeId
+    : cluster.find(e => isIndexablePlaceId(e.placeId))?.placeId;
+  const withCoords = cluster.find(e => typeof e.lat === 'number' && typeof e.lng === 'number');
+  const sources = Array.from(new Set(cluster.flatMap(e => e.mergedSources ?? [e.source])));
+
+  return {
+    ...primary,
+    address: primary.address || others.find(e => e.address)?.address || '',
+    phone: primary.phone ?? others.find(e => e.phone)?.phone ?? null,
+    website: primary.website ?? others.find(e => e.website)?.website ?? null,
+    placeId: realPlaceId ?? primary.placeId,
+    ...(withCoords ? { lat: withCoords.lat, lng: withCoords.lng } : {}),
+    verified: !!verifiedMember,
+    verificationStatus: verifiedMember?.verificationStatus ?? primary.verificationStatus,
+    evidence: cluster.flatMap(e => e.evidence),
+    mergedSources: sources,
+  };
+}
+
+/** Cluster and merge a run's entities; earlier entities stay primary */
+export function resolveExecutorEntities(entities: ExecutorEntity[]): ExecutorEntity[] {
+  return clusterEntities(entities, e => e).map(mergeExecutorEntities);
+}
+
+/**
+ * Pipeline leads that are the same entity as the given lead, best first.
+ */
+export function findPipelineMatches(lead: ResolvableEntity, pipeline: PipelineEntity[]): PipelineMatchItem[] {
+  if (pipeline.length === 0) return [];
+  const keys = keysFor(lead);
+  const pipelineKeys = pipeline.map(keysFor);
+  const chainKeys = findChainKeys([keys, ...pipelineKeys]);
+  const matches: PipelineMatchItem[] = [];
+  pipeline.forEach((candidate, i) => {
+    const pair = scoreKeys(keys, pipelineKeys[i], chainKeys);
+    if (!pair.same) return;
+    matches.push({
+      lead_kind: candidate.kind,
+      lead_id: candidate.id,
+      pipeline_stage: candidate.pipelineStage,
+      match_score: pair.score,
+      matched_on: pair.matchedOn,
+    });
+  });
+  return matches.sort((a, b) => b.match_score - a.match_score);
+}
+
+/**
+ * The user's suggested_leads and saved leads, as pipeline entities. A source
+ * that cannot be read is logged and skipped.
+ */
+export async function loadPipelineEntities(userId: string): Promise<PipelineEntity[]> {
+  const pipeline: PipelineEntity[] = [];
+
+  try {
+    const { storage } = await import('../storage');
+    const rows = await storage.getSuggestedLeads(userId);
+    for (const row of rows) {
+      const lead = fromSuggestedLead(row);
+      const data = (row.lead ?? {}) as Record<string, unknown>;
+      pipeline.push({
+        kind: 'suggested_lead',
+        id: row.id,
+        pipelineStage: row.pipelineStage ?? null,
+        name: lead.name,
+        address: lead.address ?? null,
+        phone: lead.phone ?? null,
+        website: lead.website ?? null,
+        placeId: lead.placeId ?? null,
+        lat: typeof data.lat === 'number' ? data.lat : null,
+        lng: typeof data.lng === 'number' ? data.lng : null,
+      });
+    }
+  } catch (err: any) {
+    console.warn(`[ENTITY_RESOLUTION] Could not read suggested leads for user=${userId}: ${err?.message || err}`);
+  }
+
+  try {
+    const store = getSavedLeadStore();
+    for (let offset = 0; offset < PIPELINE_SAVED_LEADS_CAP; offset += MAX_SAVED_LEADS_LIMIT) {
+      const page = await store.list({ ownerUserId: userId, offset, limit: MAX_SAVED_LEADS_LIMIT });
+      for (const saved of page.items) {
+        pipeline.push({
+          kind: 'saved_lead',
+          id: saved.id,
+          pipelineStage: saved.pipelineStage ?? null,
+          name: saved.businessName,
+          address: saved.address,
+          phone: saved.phone ?? null,
+          website: saved.website ?? null,
+          placeId: saved.placeId ?? null,
+          lat: saved.lat ?? null,
+          lng: saved.lng ?? null,
+        });
+      }
+      if (!page.hasMore) break;
+    }
+  } catch (err: any) {
+    console.warn(`[ENTITY_RESOLUTION] Could not read saved leads for user=${userId}: ${err?.message || err}`);
+  }
+
+  return pipeline;
+}
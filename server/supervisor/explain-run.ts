@@ -2,6 +2,7 @@ import { supabase } from '../supabase';
 import { storage } from '../storage';
 import type { Artefact } from '../schema';
 import type { Request, Response } from 'express';
+import { recordLLMUsage } from './cost-ledger';
 
 const RATE_LIMIT_MS = 30_000;
 const recentCalls = new Map<string, number>();
@@ -155,6 +156,7 @@ async function callLLM(evidenceBundle: Record<string, unknown>): Promise<string>
         { role: 'user', content: userPrompt },
       ],
     });
+    recordLLMUsage({ label: 'explain_run', provider: 'openai', model: 'gpt-4o-mini', usage: response.usage });
     return response.choices[0]?.message?.content || 'No response from model.';
   }
 
@@ -175,6 +177,7 @@ async function callLLM(evidenceBundle: Record<string, unknown>): Promise<string>
       }),
     });
     const data = await response.json() as any;
+    recordLLMUsage({ label: 'explain_run', provider: 'anthropic', model: 'claude-3-5-haiku-20241022', usage: data.usage });
     return data.content?.[0]?.text || 'No response from model.';
   }
 
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  fetchCached,
+  configureFetchCache,
+  getFetchCachePolicy,
+  getFetchCacheStats,
+  listFetchCacheEntries,
+  purgeFetchCache,
+  resetFetchCacheStats,
+  setFetchCacheBackend,
+  MemoryFetchCacheBackend,
+  _settleFetchCache,
+  type FetchCacheBackend,
+} from './index';
+import { useCassette, ejectCassette } from '../cassette';
+import { executeWebVisit } from '../web-visit';
+import { executeWebSearch } from '../web-search';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+beforeEach(() => {
+  setFetchCacheBackend(new MemoryFetchCacheBackend());
+  resetFetchCacheStats();
+});
+
+describe('fetchCached', () => {
+  const braveDefaults = getFetchCachePolicy('brave');
+
+  afterEach(() => {
+    configureFetchCache('brave', braveDefaults);
+    vi.useRealTimers();
+  });
+
+  it('loads on a miss and serves hits without calling load again', async () => {
+    const load = vi.fn(async () => ({ results: ['a'] }));
+    expect(await fetchCached('brave', 'pubs', load)).toEqual({ results: ['a'] });
+    expect(await fetchCached('brave', 'pubs', load)).toEqual({ results: ['a'] });
+    expect(load).toHaveBeenCalledTimes(1);
+
+    const stats = await getFetchCacheStats();
+    expect(stats.sources.brave).toMatchObject({ hits: 1, misses: 1, writes: 1, entries: 1, hitRate: 0.5 });
+  });
+
+  it('skips storing values rejected by shouldCache', async () => {
+    const load = vi.fn(async () => ({ error: 'HTTP 500' }));
+    await fetchCached('brave', 'pubs', load, { shouldCache: v => !v.error });
+    await fetchCached('brave', 'pubs', load, { shouldCache: v => !v.error });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves stale values while revalidating in the background, then expires them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    configureFetchCache('brave', { ttlMs: HOUR_MS, staleMs: HOUR_MS });
+
+    await fetchCached('brave', 'pubs', async () => 'v1');
+
+    vi.setSystemTime(new Date('2026-01-01T01:30:00Z'));
+    expect(await fetchCached('brave', 'pubs', async () => 'v2')).toBe('v1');
+    await _settleFetchCache();
+    expect(await fetchCached('brave', 'pubs', async () => 'v3')).toBe('v2');
+
+    vi.setSystemTime(new Date('2026-01-01T04:00:00Z'));
+    expect(await fetchCached('brave', 'pubs', async () => 'v4')).toBe('v4');
+
+    const stats = await getFetchCacheStats();
+    expect(stats.sources.brave).toMatchObject({ staleHits: 1, revalidations: 1, misses: 2 });
+  });
+
+  it('shares one load between concurrent misses', async () => {
+    const load = vi.fn(async () => 'page');
+    await Promise.all([fetchCached('web_page', 'https://a.example', load), fetchCached('web_page', 'https://a.example', load)]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts the oldest entries beyond the size cap', async () => {
+    configureFetchCache('brave', { maxEntries: 2 });
+    await fetchCached('brave', 'a', async () => 1);
+    await fetchCached('brave', 'b', async () => 2);
+    await fetchCached('brave', 'c', async () => 3);
+    expect((await listFetchCacheEntries('brave')).map(e => e.key)).toEqual(['c', 'b']);
+  });
+
+  it('falls through to load when the backend fails', async () => {
+    const broken: FetchCacheBackend = {
+      name: 'broken',
+      get: async () => { throw new Error('connection refused'); },
+      set: async () => { throw new Error('connection refused'); },
+      list: async () => [],
+      count: async () => 0,
+      purge: async () => 0,
+    };
+    setFetchCacheBackend(broken);
+    expect(await fetchCached('geocode', 'brighton::uk', async () => ({ lat: 50.8, lng: -0.1 }))).toEqual({ lat: 50.8, lng: -0.1 });
+    expect((await getFetchCacheStats()).sources.geocode.errors).toBe(2);
+  });
+
+  it('is bypassed while a cassette is loaded', async () => {
+    useCassette('fetch-cache', { mode: 'record', dir: '/nonexistent' });
+    try {
+      const load = vi.fn(async () => 'live');
+      await fetchCached('brave', 'pubs', load);
+      await fetchCached('brave', 'pubs', load);
+      expect(load).toHaveBeenCalledTimes(2);
+    } finally {
+      ejectCassette();
+    }
+  });
+});
+
+describe('purgeFetchCache', () => {
+  it('purges by source, key prefix and expiry', async () => {
+    await fetchCached('web_page', 'https://a.example/', async () => 'a');
+    await fetchCached('web_page', 'https://a.example/menu', async () => 'menu');
+    await fetchCached('web_page', 'https://b.example/', async () => 'b');
+    await fetchCached('geocode', 'brighton::uk', async () => null);
+
+    expect(await purgeFetchCache({ source: 'web_page', expiredOnly: true })).toBe(0);
+    expect(await purgeFetchCache({ source: 'web_page', keyPrefix: 'https://a.example' })).toBe(2);
+    expect((await listFetchCacheEntries('web_page')).map(e => e.key)).toEqual(['https://b.example/']);
+    expect(await purgeFetchCache()).toBe(2);
+  });
+});
+
+describe('cached tools', () => {
+  let server: Server;
+  let baseUrl: string;
+  let hits = 0;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      hits++;
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end('<html lang="en"><head><title>The Hop Inn</title></head><body><p>Beer garden open daily.</p></body></html>');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('serves repeat web visits from cleaned cached pages', async () => {
+    const input = { url: baseUrl, max_pages: 1 };
+    const first = await executeWebVisit(input, 'run-1');
+    const hitsAfterFirst = hits;
+    const second = await executeWebVisit(input, 'run-2');
+
+    expect(hits).toBe(hitsAfterFirst);
+    expect((second.outputs as any).pages).toEqual((first.outputs as any).pages);
+    expect((second.outputs as any).pages[0].text_clean).toContain('Beer garden open daily.');
+    expect((await listFetchCacheEntries('web_page'))[0].key).toBe(`${baseUrl}/`);
+  });
+
+  it('serves repeat Brave searches from the cache', async () => {
+    vi.stubEnv('BRAVE_SEARCH_API_KEY', 'test-key');
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      web: { results: [{ title: 'The Hop Inn', url: 'https://hopinn.example', description: 'Pub in Brighton' }] },
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const input = { query: 'The Hop Inn', location_hint: 'Brighton', limit: 5 };
+    await executeWebSearch(input, 'run-1');
+    const second = await executeWebSearch(input, 'run-2');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((second.outputs as any).results[0].url).toBe('https://hopinn.example');
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Fetch Cache
+ *
+ * Shared cache for external fetches: Google Places searches and place details,
+ * geocodes, Brave result pages, cleaned web-visit pages, LLM page hints and
+ * company-registry lookups.
+ * Each source has its own TTL, stale-while-revalidate window and size cap, and
+ * hit/miss counters are kept per source (GET /api/admin/fetch-cache).
+ *
+ * Values live behind a FetchCacheBackend: the server installs the Postgres
+ * backend at startup (usePostgresFetchCache, migrations/014_fetch_cache.sql);
+ * tests and tooling use the in-memory backend that is active by default.
+ *
+ * The cache is bypassed while a cassette is loaded, so record/replay sees every
+ * call, and when FETCH_CACHE_DISABLED=true.
+ */
+
+import { getActiveCassette } from '../cassette';
+import type {
+  FetchCacheBackend,
+  FetchCacheEntry,
+  FetchCacheEntrySummary,
+  FetchCachePolicy,
+  FetchCachePurgeFilter,
+  FetchCacheSource,
+  FetchCacheSourceStats,
+  FetchCacheStats,
+} from './types';
+import { FETCH_CACHE_SOURCES } from './types';
+
+export * from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DEFAULT_POLICIES: Record<FetchCacheSource, FetchCachePolicy> = {
+  places_search: { ttlMs: DAY_MS, staleMs: 6 * DAY_MS, maxEntries: 5_000 },
+  places_details: { ttlMs: 30 * DAY_MS, staleMs: 30 * DAY_MS, maxEntries: 50_000 },
+  geocode: { ttlMs: 90 * DAY_MS, staleMs: 90 * DAY_MS, maxEntries: 10_000 },
+  brave: { ttlMs: DAY_MS, staleMs: 6 * DAY_MS, maxEntries: 10_000 },
+  web_page: { ttlMs: 7 * DAY_MS, staleMs: 7 * DAY_MS, maxEntries: 5_000 },
+  page_hints: { ttlMs: 30 * DAY_MS, staleMs: 30 * DAY_MS, maxEntries: 1_000 },
+  company_registry: { ttlMs: 7 * DAY_MS, staleMs: 23 * DAY_MS, maxEntries: 10_000 },
+};
+
+function entryId(source: FetchCacheSource, key: string): string {
+  return `${source}:${key}`;
+}
+
+function isPurgeMatch(entry: FetchCacheEntrySummary, filter: FetchCachePurgeFilter, now: number): boolean {
+  if (filter.source && entry.source !== filter.source) return false;
+  if (filter.key !== undefined && entry.key !== filter.key) return false;
+  if (filter.keyPrefix !== undefined && !entry.key.startsWith(filter.keyPrefix)) return false;
+  if (filter.expiredOnly && Date.parse(entry.staleUntil) > now) return false;
+  return true;
+}
+
+// ============================================
+// IN-MEMORY BACKEND
+// ============================================
+
+/**
+ * In-memory backend. Entries are kept in insertion order, so the oldest are
+ * evicted first; values are stored serialised, like the persistent backends.
+ */
+export class MemoryFetchCacheBackend implements FetchCacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, { entry: FetchCacheEntrySummary; json: string }>();
+
+  async get(source: FetchCacheSource, key: string): Promise<FetchCacheEntry | undefined> {
+    const stored = this.entries.get(entryId(source, key));
+    return stored ? { ...stored.entry, value: JSON.parse(stored.json) } : undefined;
+  }
+
+  async set(entry: FetchCacheEntry, maxEntries: number): Promise<void> {
+    const id = entryId(entry.source, entry.key);
+    const { value, ...rest } = entry;
+    this.entries.delete(id);
+    this.entries.set(id, { entry: rest, json: JSON.stringify(value) });
+
+    const ids = this.idsFor(entry.source);
+    ids.slice(0, Math.max(0, ids.length - maxEntries)).forEach(oldest => this.entries.delete(oldest));
+  }
+
+  async list(source: FetchCacheSource, options: { keyPrefix?: string; limit?: number } = {}): Promise<FetchCacheEntrySummary[]> {
+    const summaries: FetchCacheEntrySummary[] = [];
+    this.entries.forEach(({ entry }) => {
+      if (entry.source === source && (!options.keyPrefix || entry.key.startsWith(options.keyPrefix))) {
+        summaries.push({ ...entry });
+      }
+    });
+    return summaries.reverse().slice(0, options.limit ?? 100);
+  }
+
+  async count(source: FetchCacheSource): Promise<number> {
+    return this.idsFor(source).length;
+  }
+
+  async purge(filter: FetchCachePurgeFilter = {}): Promise<number> {
+    const now = Date.now();
+    const matched: string[] = [];
+    this.entries.forEach(({ entry }, id) => {
+      if (isPurgeMatch(entry, filter, now)) matched.push(id);
+    });
+    matched.forEach(id => this.entries.delete(id));
+    return matched.length;
+  }
+
+  private idsFor(source: FetchCacheSource): string[] {
+    const ids: string[] = [];
+    this.entries.forEach(({ entry }, id) => {
+      if (entry.source === source) ids.push(id);
+    });
+    return ids;
+  }
+}
+
+// ============================================
+// BACKEND + POLICY CONFIGURATION
+// ============================================
+
+let backend: FetchCacheBackend = new MemoryFetchCacheBackend();
+const policyOverrides: Partial<Record<FetchCacheSource, Partial<FetchCachePolicy>>> = {};
+
+export function getFetchCacheBackend(): FetchCacheBackend {
+  return backend;
+}
+
+/**
+ * Replace the backend (Postgres at startup, a Redis-compatible store, or a fresh in-memory one in tests)
+ */
+export function setFetchCacheBackend(newBackend: FetchCacheBackend): void {
+  backend = newBackend;
+}
+
+/**
+ * Persist the cache in fetch_cache. Imported lazily so tests never open a database connection.
+ */
+export async function usePostgresFetchCache(): Promise<void> {
+  const { PostgresFetchCacheBackend } = await import('./postgres-store');
+  backend = new PostgresFetchCacheBackend();
+  console.log('[FETCH_CACHE] Cache persisted to Postgres (fetch_cache)');
+}
+
+function envNumber(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * Effective policy for a source: defaults, then FETCH_CACHE_<SOURCE>_TTL_HOURS /
+ * _STALE_HOURS / _MAX_ENTRIES, then configureFetchCache() overrides.
+ */
+export function getFetchCachePolicy(source: FetchCacheSource): FetchCachePolicy {
+  const prefix = `FETCH_CACHE_${source.toUpperCase()}`;
+  const ttlHours = envNumber(`${prefix}_TTL_HOURS`);
+  const staleHours = envNumber(`${prefix}_STALE_HOURS`);
+  const maxEntries = envNumber(`${prefix}_MAX_ENTRIES`);
+  return {
+    ...DEFAULT_POLICIES[source],
+    ...(ttlHours !== undefined ? { ttlMs: ttlHours * HOUR_MS } : {}),
+    ...(staleHours !== undefined ? { staleMs: staleHours * HOUR_MS } : {}),
+    ...(maxEntries !== undefined ? { maxEntries: Math.floor(maxEntries) } : {}),
+    ...policyOverrides[source],
+  };
+}
+
+export function configureFetchCache(source: FetchCacheSource, policy: Partial<FetchCachePolicy>): void {
+  policyOverrides[source] = { ...policyOverrides[source], ...policy };
+}
+
+export function isFetchCacheEnabled(): boolean {
+  return process.env.FETCH_CACHE_DISABLED !== 'true' && !getActiveCassette();
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+type SourceCounters = Omit<FetchCacheSourceStats, 'hitRate' | 'entries' | 'policy'>;
+
+function emptyCounters(): SourceCounters {
+  return { hits: 0, staleHits: 0, misses: 0, writes: 0, revalidations: 0, errors: 0 };
+}
+
+let counters = new Map<FetchCacheSource, SourceCounters>();
+
+function countersFor(source: FetchCacheSource): SourceCounters {
+  let c = counters.get(source);
+  if (!c) {
+    c = emptyCounters();
+    counters.set(source, c);
+  }
+  return c;
+}
+
+export function resetFetchCacheStats(): void {
+  counters = new Map();
+}
+
+/**
+ * Per-source hit/miss counters (since start or last reset) and entry counts
+ */
+export async function getFetchCacheStats(): Promise<FetchCacheStats> {
+  const entries = await Promise.all(FETCH_CACHE_SOURCES.map(source =>
+    backend.count(source).catch((err: any) => {
+      console.warn(`[FETCH_CACHE] count failed for ${source}: ${err?.message || err}`);
+      return 0;
+    }),
+  ));
+  const sources = {} as Record<FetchCacheSource, FetchCacheSourceStats>;
+  FETCH_CACHE_SOURCES.forEach((source, i) => {
+    const c = countersFor(source);
+    const lookups = c.hits + c.staleHits + c.misses;
+    sources[source] = {
+      ...c,
+      hitRate: lookups > 0 ? Math.round(((c.hits + c.staleHits) / lookups) * 100) / 100 : 0,
+      entries: entries[i],
+      policy: getFetchCachePolicy(source),
+    };
+  });
+  return { backend: backend.name, enabled: isFetchCacheEnabled(), sources };
+}
+
+// ============================================
+// READ-THROUGH
+// ============================================
+
+export interface FetchCacheOptions<T> {
+  /** Whether a loaded value should be stored (e.g. skip errors); default: always */
+  shouldCache?: (value: T) => boolean;
+}
+
+/** Loads in flight per entry, shared by concurrent misses and background revalidation */
+const inflight = new Map<string, Promise<unknown>>();
+
+async function store<T>(source: FetchCacheSource, key: string, value: T): Promise<void> {
+  const policy = getFetchCachePolicy(source);
+  const now = Date.now();
+  const json = JSON.stringify(value === undefined ? null : value);
+  try {
+    await backend.set({
+      source,
+      key,
+      value: value === undefined ? null : value,
+      storedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + policy.ttlMs).toISOString(),
+      staleUntil: new Date(now + policy.ttlMs + policy.staleMs).toISOString(),
+      sizeBytes: Buffer.byteLength(json),
+    }, policy.maxEntries);
+    countersFor(source).writes++;
+  } catch (err: any) {
+    countersFor(source).errors++;
+    console.warn(`[FETCH_CACHE] write failed for ${source} "${key}": ${err?.message || err}`);
+  }
+}
+
+function loadAndStore<T>(source: FetchCacheSource, key: string, load: () => Promise<T>, options: FetchCacheOptions<T>): Promise<T> {
+  const id = entryId(source, key);
+  const pending = inflight.get(id);
+  if (pending) return pending as Promise<T>;
+
+  const promise = (async () => {
+    const value = await load();
+    if (options.shouldCache?.(value) ?? true) {
+      await store(source, key, value);
+    }
+    return value;
+  })().finally(() => inflight.delete(id));
+  inflight.set(id, promise);
+  return promise;
+}
+
+/**
+ * Read-through cache lookup. Fresh entries are returned as-is; entries inside
+ * the stale window are returned immediately and refreshed in the background;
+ * anything else is loaded, stored and returned. Backend failures fall through
+ * to load() — the cache never fails a fetch.
+ *
+ * @param source - Cache source (selects TTL and size cap)
+ * @param key - Source-specific key; callers normalise it
+ * @param load - The live fetch
+ */
+export async function fetchCached<T>(
+  source: FetchCacheSource,
+  key: string,
+  load: () => Promise<T>,
+  options: FetchCacheOptions<T> = {},
+): Promise<T> {
+  if (!isFetchCacheEnabled()) return load();
+
+  const c = countersFor(source);
+  let entry: FetchCacheEntry | undefined;
+  try {
+    entry = await backend.get(source, key);
+  } catch (err: any) {
+    c.errors++;
+    console.warn(`[FETCH_CACHE] read failed for ${source} "${key}": ${err?.message || err}`);
+  }
+
+  const now = Date.now();
+  if (entry && now < Date.parse(entry.expiresAt)) {
+    c.hits++;
+    return entry.value as T;
+  }
+  if (entry && now < Date.parse(entry.staleUntil)) {
+    c.staleHits++;
+    if (!inflight.has(entryId(source, key))) {
+      c.revalidations++;
+      loadAndStore(source, key, load, options).catch((err: any) => {
+        c.errors++;
+        console.warn(`[FETCH_CACHE] revalidation failed for ${source} "${key}": ${err?.message || err}`);
+      });
+    }
+    return entry.value as T;
+  }
+
+  c.misses++;
+  return loadAndStore(source, key, load, options);
+}
+
+// ============================================
+// ADMIN
+// ============================================
+
+export function listFetchCacheEntries(
+  source: FetchCacheSource,
+  options: { keyPrefix?: string; limit?: number } = {},
+): Promise<FetchCacheEntrySummary[]> {
+  return backend.list(source, options);
+}
+
+export function purgeFetchCache(filter: FetchCachePurgeFilter = {}): Promise<number> {
+  return backend.purge(filter);
+}
+
+export function isFetchCacheSource(value: unknown): value is FetchCacheSource {
+  return typeof value === 'string' && (FETCH_CACHE_SOURCES as string[]).includes(value);
+}
+
+/**
+ * Wait for background revalidations to settle
+ * @internal Exported for testing only
+ */
+export async function _settleFetchCache(): Promise<void> {
+  await Promise.allSettled(Array.from(inflight.values()));
+}
@@ -0,0 +1,113 @@
+/**
+ * Postgres Fetch Cache Backend
+ *
+ * FetchCacheBackend backed by the fetch_cache table
+ * (migrations/014_fetch_cache.sql), one row per (source, cache_key).
+ *
+ * Loaded lazily by usePostgresFetchCache(): importing it opens the database connection.
+ */
+
+import { and, count, desc, eq, inArray, like, lt, type SQL } from 'drizzle-orm';
+import { db } from '../../db';
+import { fetchCache, type FetchCacheRow } from '../../schema';
+import type {
+  FetchCacheBackend,
+  FetchCacheEntry,
+  FetchCacheEntrySummary,
+  FetchCachePurgeFilter,
+  FetchCacheSource,
+} from './types';
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, ch => `\\${ch}`);
+}
+
+function rowToSummary(row: Omit<FetchCacheRow, 'value' | 'id'>): FetchCacheEntrySummary {
+  return {
+    source: row.source as FetchCacheSource,
+    key: row.cacheKey,
+    storedAt: row.storedAt.toISOString(),
+    expiresAt: row.expiresAt.toISOString(),
+    staleUntil: row.staleUntil.toISOString(),
+    sizeBytes: row.sizeBytes,
+  };
+}
+
+const summaryColumns = {
+  source: fetchCache.source,
+  cacheKey: fetchCache.cacheKey,
+  storedAt: fetchCache.storedAt,
+  expiresAt: fetchCache.expiresAt,
+  staleUntil: fetchCache.staleUntil,
+  sizeBytes: fetchCache.sizeBytes,
+};
+
+/**
+ * Postgres implementation of FetchCacheBackend.
+ */
+export class PostgresFetchCacheBackend implements FetchCacheBackend {
+  readonly name = 'postgres';
+
+  async get(source: FetchCacheSource, key: string): Promise<FetchCacheEntry | undefined> {
+    const [row] = await db
+      .select()
+      .from(fetchCache)
+      .where(and(eq(fetchCache.source, source), eq(fetchCache.cacheKey, key)))
+      .limit(1);
+    return row ? { ...rowToSummary(row), value: row.value } : undefined;
+  }
+
+  async set(entry: FetchCacheEntry, maxEntries: number): Promise<void> {
+    const values = {
+      value: entry.value,
+      storedAt: new Date(entry.storedAt),
+      expiresAt: new Date(entry.expiresAt),
+      staleUntil: new Date(entry.staleUntil),
+      sizeBytes: entry.sizeBytes,
+    };
+    await db
+      .insert(fetchCache)
+      .values({ id: `${entry.source}:${entry.key}`, source: entry.source, cacheKey: entry.key, ...values })
+      .onConflictDoUpdate({ target: [fetchCache.source, fetchCache.cacheKey], set: values });
+
+    const overflow = await db
+      .select({ id: fetchCache.id })
+      .from(fetchCache)
+      .where(eq(fetchCache.source, entry.source))
+      .orderBy(desc(fetchCache.storedAt))
+      .offset(maxEntries);
+    if (overflow.length > 0) {
+      await db.delete(fetchCache).where(inArray(fetchCache.id, overflow.map(r => r.id)));
+    }
+  }
+
+  async list(source: FetchCacheSource, options: { keyPrefix?: string; limit?: number } = {}): Promise<FetchCacheEntrySummary[]> {
+    const conditions: SQL[] = [eq(fetchCache.source, source)];
+    if (options.keyPrefix) conditions.push(like(fetchCache.cacheKey, `${escapeLike(options.keyPrefix)}%`));
+    const rows = await db
+      .select(summaryColumns)
+      .from(fetchCache)
+      .where(and(...conditions))
+      .orderBy(desc(fetchCache.storedAt))
+      .limit(options.limit ?? 100);
+    return rows.map(rowToSummary);
+  }
+
+  async count(source: FetchCacheSource): Promise<number> {
+    const [{ total }] = await db.select({ total: count() }).from(fetchCache).where(eq(fetchCache.source, source));
+    return total;
+  }
+
+  async purge(filter: FetchCachePurgeFilter = {}): Promise<number> {
+    const conditions: SQL[] = [];
+    if (filter.source) conditions.push(eq(fetchCache.source, filter.source));
+    if (filter.key !== undefined) conditions.push(eq(fetchCache.cacheKey, filter.key));
+    if (filter.keyPrefix !== undefined) conditions.push(like(fetchCache.cacheKey, `${escapeLike(filter.keyPrefix)}%`));
+    if (filter.expiredOnly) conditions.push(lt(fetchCache.staleUntil, new Date()));
+    const deleted = await db
+      .delete(fetchCache)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .returning({ id: fetchCache.id });
+    return deleted.length;
+  }
+}
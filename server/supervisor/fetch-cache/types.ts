@@ -0,0 +1,88 @@
+/**
+ * Fetch Cache Types
+ */
+
+/** What a cached value came from; each source has its own TTL and size cap */
+export type FetchCacheSource =
+  | 'places_search'
+  | 'places_details'
+  | 'geocode'
+  | 'brave'
+  | 'web_page'
+  | 'page_hints'
+  | 'company_registry';
+
+export const FETCH_CACHE_SOURCES: FetchCacheSource[] = [
+  'places_search',
+  'places_details',
+  'geocode',
+  'brave',
+  'web_page',
+  'page_hints',
+  'company_registry',
+];
+
+export interface FetchCachePolicy {
+  /** How long a value is served as fresh */
+  ttlMs: number;
+  /** How long after expiry a value is still served while it is refreshed in the background */
+  staleMs: number;
+  /** Entries kept per source; the oldest are evicted beyond this */
+  maxEntries: number;
+}
+
+export interface FetchCacheEntry<T = unknown> {
+  source: FetchCacheSource;
+  key: string;
+  value: T;
+  storedAt: string;
+  expiresAt: string;
+  staleUntil: string;
+  sizeBytes: number;
+}
+
+/** Entry listing for the admin endpoint (value omitted) */
+export type FetchCacheEntrySummary = Omit<FetchCacheEntry, 'value'>;
+
+export interface FetchCachePurgeFilter {
+  source?: FetchCacheSource;
+  /** Exact key (requires source) */
+  key?: string;
+  /** Key prefix (requires source) */
+  keyPrefix?: string;
+  /** Only entries past their stale window */
+  expiredOnly?: boolean;
+}
+
+/**
+ * Storage backend. The in-memory backend is the default; Postgres persists
+ * across restarts. A Redis-compatible backend implements the same interface.
+ */
+export interface FetchCacheBackend {
+  readonly name: string;
+  get(source: FetchCacheSource, key: string): Promise<FetchCacheEntry | undefined>;
+  /** Store an entry, then evict the source's oldest entries beyond maxEntries */
+  set(entry: FetchCacheEntry, maxEntries: number): Promise<void>;
+  list(source: FetchCacheSource, options?: { keyPrefix?: string; limit?: number }): Promise<FetchCacheEntrySummary[]>;
+  count(source: FetchCacheSource): Promise<number>;
+  /** Returns the number of entries removed */
+  purge(filter?: FetchCachePurgeFilter): Promise<number>;
+}
+
+export interface FetchCacheSourceStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  writes: number;
+  revalidations: number;
+  errors: number;
+  hitRate: number;
+  entries: number;
+  policy: FetchCachePolicy;
+}
+
+export interface FetchCacheStats {
+  backend: string;
+  enabled: boolean;
+  sources: Record<FetchCacheSource, FetchCacheSourceStats>;
+}
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  _resetGazetteer,
+  distanceToFeatureKm,
+  findGazetteerFeatures,
+  getGazetteerFeature,
+  getGazetteerStats,
+  loadGazetteerFromDirectory,
+  matchGazetteerFeatures,
+  DEFAULT_GAZETTEER_DIR,
+} from './index';
+import { pointInGeometry } from './geometry';
+import { resolveRegionKeys, verifyLocationGeo, verifyLocationNear } from '../geo-regions';
+import { verifyLeads, type VerifiableLead } from '../cvl';
+import type { StructuredConstraint } from '../goal-to-constraints';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  _resetGazetteer();
+});
+
+describe('loading', () => {
+  it('loads the bundled data without errors', () => {
+    const { features, errors } = loadGazetteerFromDirectory(DEFAULT_GAZETTEER_DIR);
+    expect(errors).toEqual([]);
+    expect(features.length).toBeGreaterThan(0);
+    expect(getGazetteerStats().byLevel).toMatchObject({ country: 2, admin1: 4 });
+  });
+
+  it('skips invalid files and keeps the rest', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gazetteer-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'a.geojson'), JSON.stringify({
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', properties: { key: 'X-TOWN', name: 'Testtown', level: 'city' }, geometry: { type: 'Point', coordinates: [0, 51] } }],
+      }));
+      fs.writeFileSync(path.join(dir, 'b.geojson'), JSON.stringify({
+        type: 'FeatureCollection',
+        features: [{ type: 'Feature', properties: { key: 'X-VILLAGE', name: 'Testvillage', level: 'city', radius_km: 1 }, geometry: { type: 'Point', coordinates: [0, 51] } }],
+      }));
+      fs.writeFileSync(path.join(dir, 'notes.txt'), 'ignored');
+
+      const { features, errors } = loadGazetteerFromDirectory(dir);
+      expect(features.map(f => f.key)).toEqual(['X-VILLAGE']);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].error).toContain('radius_km');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('geometry', () => {
+  it('excludes points inside a polygon hole', () => {
+    const donut = {
+      type: 'Polygon' as const,
+      coordinates: [
+        [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]] as Array<[number, number]>,
+        [[4, 4], [6, 4], [6, 6], [4, 6], [4, 4]] as Array<[number, number]>,
+      ],
+    };
+    expect(pointInGeometry(2, 2, donut)).toBe(true);
+    expect(pointInGeometry(5, 5, donut)).toBe(false);
+    expect(pointInGeometry(11, 5, donut)).toBe(false);
+  });
+
+  it('measures distance to the edge of a polygon or a city radius', () => {
+    const kent = getGazetteerFeature('GB-KEN')!;
+    expect(distanceToFeatureKm(kent, 51.2721, 0.529)).toBe(0);
+    // Crawley lies about 15 km west of the Kent border
+    expect(distanceToFeatureKm(kent, 51.1092, -0.1872)).toBeGreaterThan(10);
+    expect(distanceToFeatureKm(kent, 51.1092, -0.1872)).toBeLessThan(20);
+
+    const brighton = getGazetteerFeature('GB-CITY-BRIGHTON')!;
+    expect(distanceToFeatureKm(brighton, 50.8225, -0.1372)).toBe(0);
+    expect(distanceToFeatureKm(brighton, 51.1092, -0.1872)).toBeCloseTo(32 - 6, 0);
+  });
+});
+
+describe('alias resolution', () => {
+  it('resolves exact names, aliases and ambiguous names', () => {
+    expect(findGazetteerFeatures('Newcastle').map(f => f.key)).toEqual(['GB-CITY-NEWCASTLE']);
+    expect(findGazetteerFeatures('uk').map(f => f.key)).toEqual(['GB']);
+    expect(findGazetteerFeatures('Newport').map(f => f.key).sort()).toEqual(['GB-CITY-NEWPORT-IOW', 'GB-CITY-NEWPORT-WLS']);
+  });
+
+  it('prefers the most specific place named in free text', () => {
+    expect(matchGazetteerFeatures('Brighton, East Sussex, UK').map(f => f.key)).toEqual(['GB-CITY-BRIGHTON']);
+    expect(matchGazetteerFeatures('somewhere in West Sussex').map(f => f.key)).toEqual(['GB-WSX']);
+    expect(matchGazetteerFeatures('Hovercraft museum')).toEqual([]);
+    expect(resolveRegionKeys('Leeds, UK')).toEqual(['GB-CITY-LEEDS']);
+  });
+});
+
+describe('location checks', () => {
+  it('verifies cities by radius and countries by polygon', () => {
+    expect(verifyLocationGeo(50.8279, -0.1688, 'Brighton', true)).toMatchObject({
+      status: 'VERIFIED_GEO', method: 'geo_radius', regionKey: 'GB-CITY-BRIGHTON',
+    });
+    expect(verifyLocationGeo(50.7684, 0.2905, 'Brighton', true)).toMatchObject({
+      status: 'OUT_OF_AREA', method: 'geo_radius', confidence: 'medium',
+    });
+    expect(verifyLocationGeo(55.9533, -3.1883, 'Scotland', true)).toMatchObject({ status: 'VERIFIED_GEO', method: 'geo_polygon' });
+    expect(verifyLocationGeo(54.5973, -5.9301, 'Ireland', true).status).toBe('OUT_OF_AREA');
+  });
+
+  it('treats "near" as within a distance of the place', () => {
+    const lewes = verifyLocationNear(50.8739, 0.0087, 'Brighton', 10, false);
+    expect(lewes).toMatchObject({ status: 'VERIFIED_GEO', method: 'geo_radius', regionKey: 'GB-CITY-BRIGHTON' });
+    expect(lewes.distanceKm).toBeGreaterThan(0);
+
+    expect(verifyLocationNear(51.1092, -0.1872, 'Brighton', 10, false).status).toBe('OUT_OF_AREA');
+    expect(verifyLocationNear(null, null, 'Brighton', 10, false).status).toBe('SEARCH_BOUNDED');
+    expect(verifyLocationNear(50.87, 0.01, 'Atlantis', 10, true).status).toBe('UNKNOWN');
+  });
+
+  it('backs CVL LOCATION_NEAR checks', () => {
+    const lead = (name: string, lat: number, lng: number): VerifiableLead => ({
+      name, address: null, phone: null, website: null, placeId: `p_${name}`, source: 'google_places', lat, lng,
+    });
+    const constraint = {
+      id: 'c_location', type: 'LOCATION_NEAR', field: 'location', operator: 'within_km',
+      value: { center: 'Brighton', km: 10 }, hard: false, rationale: '',
+    } as unknown as StructuredConstraint;
+
+    const result = verifyLeads([lead('Lewes Arms', 50.8739, 0.0087), lead('Crawley Inn', 51.1092, -0.1872)], [constraint], null, 20, 2);
+    expect(result.leadVerifications.map(lv => lv.constraint_checks[0].status)).toEqual(['yes', 'no']);
+    expect(result.leadVerifications.map(lv => lv.location_confidence)).toEqual(['verified_geo', 'out_of_area']);
+  });
+});
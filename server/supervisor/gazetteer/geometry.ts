@@ -0,0 +1,116 @@
+/**
+ * Gazetteer Geometry
+ *
+ * Point-in-polygon and distance helpers for GeoJSON geometries. Coordinates
+ * are GeoJSON order ([lng, lat]); polygons are lists of rings, the first ring
+ * the outline and any further rings holes.
+ */
+
+import type { BBox } from '../geo-regions';
+
+export type Position = [number, number];
+
+export type GazetteerGeometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in km.
+ */
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Ray-casting test against one ring. Points exactly on an edge may land either side.
+ */
+function pointInRing(lat: number, lng: number, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function pointInPolygon(lat: number, lng: number, rings: Position[][]): boolean {
+  if (rings.length === 0 || !pointInRing(lat, lng, rings[0])) return false;
+  return !rings.slice(1).some(hole => pointInRing(lat, lng, hole));
+}
+
+function polygonsOf(geometry: GazetteerGeometry): Position[][][] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+}
+
+/**
+ * Whether a point lies inside a Polygon or MultiPolygon. Always false for Points.
+ */
+export function pointInGeometry(lat: number, lng: number, geometry: GazetteerGeometry): boolean {
+  return polygonsOf(geometry).some(rings => pointInPolygon(lat, lng, rings));
+}
+
+/**
+ * Distance in km from a point to the nearest edge of a polygon geometry, or to
+ * a Point geometry. Edges are measured on a local equirectangular projection,
+ * which is accurate to well under 1% at the distances "near" cares about.
+ */
+export function distanceToGeometryKm(lat: number, lng: number, geometry: GazetteerGeometry): number {
+  if (geometry.type === 'Point') {
+    return haversineKm(lat, lng, geometry.coordinates[1], geometry.coordinates[0]);
+  }
+
+  const kmPerDegreeLng = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(toRadians(lat));
+  const project = ([x, y]: Position): [number, number] => [(x - lng) * kmPerDegreeLng, (y - lat) * KM_PER_DEGREE_LAT];
+
+  let nearest = Infinity;
+  polygonsOf(geometry).forEach(rings => rings.forEach(ring => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [ax, ay] = project(ring[i]);
+      const [bx, by] = project(ring[i + 1]);
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSq = dx * dx + dy * dy;
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+      nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+  }));
+  return nearest;
+}
+
+/**
+ * Bounding box of a geometry; a Point with a radius is boxed by that radius.
+ */
+export function geometryBBox(geometry: GazetteerGeometry, radiusKm = 0): BBox {
+  if (geometry.type === 'Point') {
+    const [lng, lat] = geometry.coordinates;
+    const dLat = radiusKm / KM_PER_DEGREE_LAT;
+    const dLng = radiusKm / (KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(toRadians(lat)));
+    return { north: lat + dLat, south: lat - dLat, east: lng + dLng, west: lng - dLng };
+  }
+
+  const bbox: BBox = { north: -90, south: 90, east: -180, west: 180 };
+  polygonsOf(geometry).forEach(rings => rings[0]?.forEach(([lng, lat]) => {
+    bbox.north = Math.max(bbox.north, lat);
+    bbox.south = Math.min(bbox.south, lat);
+    bbox.east = Math.max(bbox.east, lng);
+    bbox.west = Math.min(bbox.west, lng);
+  }));
+  return bbox;
+}
@@ -0,0 +1,259 @@
+/**
+ * Region Gazetteer
+ *
+ * Named places as GeoJSON: country, admin-1 and admin-2 polygons and city
+ * points with a radius, loaded from the FeatureCollection files in
+ * GAZETTEER_DIR (default server/supervisor/gazetteer/data). Each feature
+ * carries its properties as:
+ *
+ *   { key, name, level, parent?, aliases?, radius_km? }
+ *
+ * where `key` is stable across files (ISO 3166 codes where one exists, so
+ * polygons line up with the rectangles in geo-regions.ts) and `radius_km` is
+ * required for Point features. A file that fails to parse or validate is
+ * skipped and reported; the rest still load.
+ *
+ * The gazetteer is read from disk once, on first use.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { BBox } from '../geo-regions';
+import { distanceToGeometryKm, geometryBBox, pointInGeometry, type GazetteerGeometry } from './geometry';
+
+export { haversineKm, type GazetteerGeometry, type Position } from './geometry';
+
+export const DEFAULT_GAZETTEER_DIR = path.join('server', 'supervisor', 'gazetteer', 'data');
+
+/** File extensions recognised as gazetteer data */
+export const GAZETTEER_FILE_EXTENSIONS = ['.geojson', '.json'];
+
+export type GazetteerLevel = 'country' | 'admin1' | 'admin2' | 'city';
+
+/** Most specific first: a city match beats the county it sits in */
+const LEVEL_SPECIFICITY: Record<GazetteerLevel, number> = { city: 3, admin2: 2, admin1: 1, country: 0 };
+
+export interface GazetteerFeature {
+  key: string;
+  name: string;
+  level: GazetteerLevel;
+  parent: string | null;
+  /** Lower-case names this feature answers to, including its own name */
+  aliases: string[];
+  geometry: GazetteerGeometry;
+  /** Radius around a Point feature; null for polygons */
+  radiusKm: number | null;
+  bbox: BBox;
+}
+
+export interface GazetteerLoadError {
+  file: string;
+  error: string;
+}
+
+export interface GazetteerLoadResult {
+  features: GazetteerFeature[];
+  errors: GazetteerLoadError[];
+}
+
+// ============================================
+// SCHEMA
+// ============================================
+
+const positionSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+const ringSchema = z.array(positionSchema).min(4, 'a linear ring needs at least 4 positions');
+
+const geometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Point'), coordinates: positionSchema }),
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(ringSchema).min(1) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(ringSchema).min(1)).min(1) }),
+]);
+
+const featureSchema = z.object({
+  type: z.literal('Feature'),
+  geometry: geometrySchema,
+  properties: z.object({
+    key: z.string().min(1),
+    name: z.string().min(1),
+    level: z.enum(['country', 'admin1', 'admin2', 'city']),
+    parent: z.string().nullable().optional(),
+    aliases: z.array(z.string().min(1)).optional(),
+    radius_km: z.number().positive().optional(),
+  }),
+}).refine(f => f.geometry.type !== 'Point' || f.properties.radius_km !== undefined, {
+  message: 'Point features need a radius_km',
+});
+
+const featureCollectionSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(featureSchema),
+});
+
+// ============================================
+// LOADING
+// ============================================
+
+export function normalisePlaceName(name: string): string {
+  return name.toLowerCase().replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Parse one GeoJSON FeatureCollection into gazetteer features.
+ *
+ * @throws Error if the file is not valid JSON or fails validation
+ */
+export function parseGazetteerFile(raw: string): GazetteerFeature[] {
+  const parsed = featureCollectionSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; '));
+  }
+  return parsed.data.features.map(({ geometry, properties }) => {
+    const radiusKm = geometry.type === 'Point' ? properties.radius_km ?? null : null;
+    const aliases = Array.from(new Set([properties.name, ...(properties.aliases ?? [])].map(normalisePlaceName)));
+    return {
+      key: properties.key,
+      name: properties.name,
+      level: properties.level,
+      parent: properties.parent ?? null,
+      aliases,
+      geometry: geometry as GazetteerGeometry,
+      radiusKm,
+      bbox: geometryBBox(geometry as GazetteerGeometry, radiusKm ?? 0),
+    };
+  });
+}
+
+/**
+ * Load every gazetteer file in a directory (sorted by name, so a later file
+ * replaces an earlier feature with the same key). A missing directory yields
+ * no features.
+ */
+export function loadGazetteerFromDirectory(dir: string): GazetteerLoadResult {
+  const result: GazetteerLoadResult = { features: [], errors: [] };
+  if (!fs.existsSync(dir)) return result;
+
+  const files = fs.readdirSync(dir)
+    .filter(f => GAZETTEER_FILE_EXTENSIONS.includes(path.extname(f).toLowerCase()))
+    .sort();
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    try {
+      result.features.push(...parseGazetteerFile(fs.readFileSync(filePath, 'utf-8')));
+    } catch (err: any) {
+      result.errors.push({ file: filePath, error: err?.message || String(err) });
+    }
+  }
+  return result;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+interface Gazetteer {
+  dir: string;
+  features: Map<string, GazetteerFeature>;
+  aliasIndex: Map<string, GazetteerFeature[]>;
+  errors: GazetteerLoadError[];
+}
+
+let gazetteer: Gazetteer | null = null;
+
+function getGazetteer(): Gazetteer {
+  if (gazetteer) return gazetteer;
+
+  const dir = process.env.GAZETTEER_DIR || DEFAULT_GAZETTEER_DIR;
+  const { features, errors } = loadGazetteerFromDirectory(dir);
+  const byKey = new Map<string, GazetteerFeature>();
+  features.forEach(f => byKey.set(f.key, f));
+
+  const aliasIndex = new Map<string, GazetteerFeature[]>();
+  byKey.forEach(feature => feature.aliases.forEach(alias => {
+    aliasIndex.set(alias, [...(aliasIndex.get(alias) ?? []), feature]);
+  }));
+
+  errors.forEach(e => console.warn(`[GAZETTEER] Skipped ${e.file}: ${e.error}`));
+  if (byKey.size > 0) console.log(`[GAZETTEER] Loaded ${byKey.size} feature(s) from ${dir}`);
+
+  gazetteer = { dir, features: byKey, aliasIndex, errors };
+  return gazetteer;
+}
+
+/**
+ * Drop the loaded gazetteer so the next lookup re-reads GAZETTEER_DIR.
+ * @internal Exported for testing only
+ */
+export function _resetGazetteer(): void {
+  gazetteer = null;
+}
+
+export function getGazetteerFeature(key: string): GazetteerFeature | undefined {
+  return getGazetteer().features.get(key);
+}
+
+function bySpecificity(a: GazetteerFeature, b: GazetteerFeature): number {
+  return LEVEL_SPECIFICITY[b.level] - LEVEL_SPECIFICITY[a.level];
+}
+
+/**
+ * Features whose name or an alias is exactly `name`, most specific first.
+ * Ambiguous names ("Newport") return every match.
+ */
+export function findGazetteerFeatures(name: string): GazetteerFeature[] {
+  return (getGazetteer().aliasIndex.get(normalisePlaceName(name)) ?? []).slice().sort(bySpecificity);
+}
+
+/**
+ * Features named anywhere in free text ("Brighton, East Sussex"), matching
+ * whole words only. Keeps the most specific level found and, within it, the
+ * longest alias — so "West Sussex" wins over a feature called "Sussex".
+ */
+export function matchGazetteerFeatures(text: string): GazetteerFeature[] {
+  const padded = ` ${normalisePlaceName(text)} `;
+  let best: GazetteerFeature[] = [];
+  let bestSpecificity = -1;
+  let bestLength = 0;
+
+  for (const [alias, features] of Array.from(getGazetteer().aliasIndex.entries())) {
+    if (!padded.includes(` ${alias} `)) continue;
+    for (const feature of features) {
+      const specificity = LEVEL_SPECIFICITY[feature.level];
+      if (specificity > bestSpecificity || (specificity === bestSpecificity && alias.length > bestLength)) {
+        best = [feature];
+        bestSpecificity = specificity;
+        bestLength = alias.length;
+      } else if (specificity === bestSpecificity && alias.length === bestLength && !best.includes(feature)) {
+        best.push(feature);
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Whether a point lies inside a feature: its polygon, or within a Point feature's radius.
+ */
+export function featureContainsPoint(feature: GazetteerFeature, lat: number, lng: number): boolean {
+  if (feature.geometry.type === 'Point') {
+    return distanceToGeometryKm(lat, lng, feature.geometry) <= (feature.radiusKm ?? 0);
+  }
+  return pointInGeometry(lat, lng, feature.geometry);
+}
+
+/**
+ * Distance in km from a point to a feature: 0 inside it, otherwise to its
+ * polygon edge or the edge of a Point feature's radius.
+ */
+export function distanceToFeatureKm(feature: GazetteerFeature, lat: number, lng: number): number {
+  if (featureContainsPoint(feature, lat, lng)) return 0;
+  const distance = distanceToGeometryKm(lat, lng, feature.geometry);
+  return feature.geometry.type === 'Point' ? distance - (feature.radiusKm ?? 0) : distance;
+}
+
+export function getGazetteerStats(): { dir: string; features: number; byLevel: Record<GazetteerLevel, number>; errors: GazetteerLoadError[] } {
+  const { dir, features, errors } = getGazetteer();
+  const byLevel: Record<GazetteerLevel, number> = { country: 0, admin1: 0, admin2: 0, city: 0 };
+  features.forEach(f => { byLevel[f.level]++; });
+  return { dir, features: features.size, byLevel, errors };
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import {
   pointInBBox,
   resolveRegionKeys,
@@ -6,6 +6,7 @@ import {
   getRegion,
   type BBox,
 } from './geo-regions';
+import { _resetGazetteer } from './gazetteer';
 
 describe('pointInBBox', () => {
   const westSussexBBox: BBox = { north: 51.18, south: 50.72, east: -0.09, west: -0.96 };
@@ -69,7 +70,7 @@ describe('verifyLocationGeo', () => {
   it('verifies Crawley (West Sussex) as inside Sussex', () => {
     const result = verifyLocationGeo(51.1092, -0.1872, 'sussex', false);
     expect(result.status).toBe('VERIFIED_GEO');
-    expect(result.method).toBe('geo_bbox');
+    expect(result.method).toBe('geo_polygon');
     expect(result.regionKey).toBe('GB-WSX');
     expect(result.confidence).toBe('high');
   });
@@ -77,7 +78,7 @@ describe('verifyLocationGeo', () => {
   it('verifies Burgess Hill (West Sussex) as inside Sussex', () => {
     const result = verifyLocationGeo(50.9535, -0.1283, 'sussex', false);
     expect(result.status).toBe('VERIFIED_GEO');
-    expect(result.method).toBe('geo_bbox');
+    expect(result.method).toBe('geo_polygon');
   });
 
   it('verifies Haywards Heath (West Sussex) as inside Sussex', () => {
@@ -99,7 +100,7 @@ describe('verifyLocationGeo', () => {
   it('marks Manchester as OUT_OF_AREA for Sussex', () => {
     const result = verifyLocationGeo(53.4808, -2.2426, 'sussex', false);
     expect(result.status).toBe('OUT_OF_AREA');
-    expect(result.method).toBe('geo_bbox');
+    expect(result.method).toBe('geo_polygon');
     expect(result.confidence).toBe('high');
   });
 
@@ -143,6 +144,45 @@ describe('verifyLocationGeo', () => {
   });
 });
 
+describe('coastal and border towns', () => {
+  it.each([
+    ['Margate', 51.389, 1.383],
+    ['Herne Bay', 51.373, 1.127],
+    ['Whitstable', 51.361, 1.026],
+    ['Broadstairs', 51.359, 1.44],
+    ['Dover', 51.126, 1.313],
+    ['Sheerness', 51.441, 0.763],
+    ['Dartford', 51.446, 0.219],
+    ['Tunbridge Wells', 51.132, 0.263],
+  ])('verifies %s inside the Kent boundary', (_town, lat, lng) => {
+    expect(verifyLocationGeo(lat, lng, 'kent', true)).toMatchObject({
+      status: 'VERIFIED_GEO', method: 'geo_polygon', regionKey: 'GB-KEN', confidence: 'high',
+    });
+  });
+
+  it.each([
+    ['Bexley', 51.441, 0.15, 'london', 'GB-LDN'],
+    ['Farnborough', 51.293, -0.755, 'hampshire', 'GB-HAM'],
+    ['Camberley', 51.34, -0.742, 'surrey', 'GB-SRY'],
+    ['Selsey', 50.734, -0.789, 'west sussex', 'GB-WSX'],
+    ['Rye', 50.95, 0.733, 'east sussex', 'GB-ESX'],
+  ])('puts %s on the right side of its county border', (_town, lat, lng, county, key) => {
+    expect(verifyLocationGeo(lat, lng, county, true)).toMatchObject({ status: 'VERIFIED_GEO', method: 'geo_polygon', regionKey: key });
+  });
+
+  it('falls back to the rectangle at lower confidence when it disagrees with the polygon', () => {
+    // Rye is in East Sussex but inside the Kent rectangle
+    expect(verifyLocationGeo(50.95, 0.733, 'kent', true)).toMatchObject({
+      status: 'VERIFIED_GEO', method: 'geo_bbox', regionKey: 'GB-KEN', confidence: 'medium',
+    });
+  });
+
+  it('keeps a town outside both the polygon and the rectangle out of area', () => {
+    // Southend-on-Sea, across the Thames estuary
+    expect(verifyLocationGeo(51.537, 0.714, 'kent', true)).toMatchObject({ status: 'OUT_OF_AREA', method: 'geo_polygon', confidence: 'high' });
+  });
+});
+
 describe('region data integrity', () => {
   it('East Sussex and West Sussex have non-overlapping major bboxes', () => {
     const esx = getRegion('GB-ESX');
@@ -157,3 +197,18 @@ describe('region data integrity', () => {
     expect(keys).toEqual(expect.arrayContaining(['GB-ESX', 'GB-WSX']));
   });
 });
+
+describe('rectangle fallback', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    _resetGazetteer();
+  });
+
+  it('uses the county bounding boxes when no gazetteer data is loaded', () => {
+    vi.stubEnv('GAZETTEER_DIR', '/nonexistent-gazetteer');
+    _resetGazetteer();
+    const result = verifyLocationGeo(51.1092, -0.1872, 'sussex', false);
+    expect(result).toMatchObject({ status: 'VERIFIED_GEO', method: 'geo_bbox', regionKey: 'GB-WSX' });
+    expect(resolveRegionKeys('Brighton')).toEqual([]);
+  });
+});
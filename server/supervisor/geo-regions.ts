@@ -1,3 +1,22 @@
+/**
+ * Geo Regions
+ *
+ * Resolves a location name to region keys and checks lead coordinates against
+ * them. The gazetteer (./gazetteer — GeoJSON countries, admin regions and
+ * cities) is consulted first; the rectangles in REGIONS/COMPOSITES below are
+ * the fallback for names and keys it does not cover, and for points a
+ * rectangle covers but its county polygon does not.
+ */
+
+import {
+  distanceToFeatureKm,
+  featureContainsPoint,
+  findGazetteerFeatures,
+  getGazetteerFeature,
+  haversineKm,
+  matchGazetteerFeatures,
+} from './gazetteer';
+
 export interface BBox {
   north: number;
   south: number;
@@ -199,19 +218,35 @@ function buildAliasIndex(): void {
   }
 }
 
+/**
+ * Region keys for a location name. Exact names win over names found inside
+ * longer text ("Brighton, East Sussex"); at each stage the gazetteer is tried
+ * before the rectangles, and composites expand to their children.
+ */
 export function resolveRegionKeys(locationName: string): string[] {
   buildAliasIndex();
   const lower = locationName.toLowerCase().trim();
 
   const directKey = aliasIndex.get(lower);
+  const directComposite = directKey ? COMPOSITES[directKey] : undefined;
+  if (directComposite) {
+    return directComposite.children;
+  }
+
+  const gazetteerExact = findGazetteerFeatures(lower);
+  if (gazetteerExact.length > 0) {
+    return gazetteerExact.map(f => f.key);
+  }
+
   if (directKey) {
-    const composite = COMPOSITES[directKey];
-    if (composite) {
-      return composite.children;
-    }
     return [directKey];
   }
 
+  const gazetteerMatches = matchGazetteerFeatures(lower);
+  if (gazetteerMatches.length > 0) {
+    return gazetteerMatches.map(f => f.key);
+  }
+
   const entries = Array.from(aliasIndex.entries());
   for (const [alias, key] of entries) {
     if (lower.includes(alias) || alias.includes(lower)) {
@@ -224,15 +259,25 @@ export function resolveRegionKeys(locationName: string): string[] {
   return [];
 }
 
+/**
+ * A region by key: the rectangle when one is defined, else the gazetteer
+ * feature's bounding box.
+ */
 export function getRegion(key: string): RegionDefinition | undefined {
-  return REGIONS[key];
+  if (REGIONS[key]) return REGIONS[key];
+  const feature = getGazetteerFeature(key);
+  if (!feature) return undefined;
+  return { key: feature.key, name: feature.name, bbox: feature.bbox, aliases: feature.aliases };
 }
 
 export function getComposite(key: string): CompositeRegion | undefined {
   return COMPOSITES[key];
 }
 
-export type GeoVerificationMethod = 'geo_bbox' | 'search_bounded' | 'unknown';
+export type GeoVerificationMethod = 'geo_polygon' | 'geo_radius' | 'geo_bbox' | 'search_bounded' | 'unknown';
+
+/** Radius for "near <place>" when the constraint does not give one */
+export const DEFAULT_NEAR_KM = 10;
 
 export interface GeoVerificationResult {
   status: 'VERIFIED_GEO' | 'OUT_OF_AREA' | 'SEARCH_BOUNDED' | 'UNKNOWN';
@@ -243,6 +288,8 @@ export interface GeoVerificationResult {
   lng: number | null;
   confidence: 'high' | 'medium' | 'low';
   reason: string;
+  /** Distance from the region, for "near" checks */
+  distanceKm?: number;
 }
 
 export function pointInBBox(lat: number, lng: number, bbox: BBox): boolean {
@@ -320,9 +367,39 @@ export function verifyLocationGeo(
     };
   }
 
+  let outsideMethod: GeoVerificationMethod | null = null;
+  // A county polygon is drawn by hand and can clip a coastal or border town
+  // that its rectangle still covers; when the two disagree the rectangle wins,
+  // at lower confidence.
+  let bboxOnlyKey: string | null = null;
   for (const key of regionKeys) {
-    const region = getRegion(key);
+    const feature = getGazetteerFeature(key);
+    if (feature) {
+      const method: GeoVerificationMethod = feature.radiusKm !== null ? 'geo_radius' : 'geo_polygon';
+      outsideMethod = outsideMethod ?? method;
+      if (featureContainsPoint(feature, lat, lng)) {
+        return {
+          status: 'VERIFIED_GEO',
+          method,
+          regionKey: key,
+          regionName: feature.name,
+          lat,
+          lng,
+          confidence: 'high',
+          reason: method === 'geo_radius'
+            ? `Lead at (${lat.toFixed(4)}, ${lng.toFixed(4)}) is within ${feature.radiusKm} km of ${feature.name}`
+            : `Lead at (${lat.toFixed(4)}, ${lng.toFixed(4)}) is within the ${feature.name} boundary`,
+        };
+      }
+      if (bboxOnlyKey === null && REGIONS[key] && pointInBBox(lat, lng, REGIONS[key].bbox)) {
+        bboxOnlyKey = key;
+      }
+      continue;
+    }
+
+    const region = REGIONS[key];
     if (!region) continue;
+    outsideMethod = outsideMethod ?? 'geo_bbox';
     if (pointInBBox(lat, lng, region.bbox)) {
       return {
         status: 'VERIFIED_GEO',
@@ -337,10 +414,24 @@ export function verifyLocationGeo(
     }
   }
 
+  if (bboxOnlyKey !== null) {
+    const region = REGIONS[bboxOnlyKey];
+    return {
+      status: 'VERIFIED_GEO',
+      method: 'geo_bbox',
+      regionKey: bboxOnlyKey,
+      regionName: region.name,
+      lat,
+      lng,
+      confidence: 'medium',
+      reason: `Lead at (${lat.toFixed(4)}, ${lng.toFixed(4)}) is within ${region.name} bounding box but outside its drawn boundary`,
+    };
+  }
+
   const regionNames = regionKeys.map(k => getRegion(k)?.name ?? k).join(' / ');
 
-  // Bbox says out of area, but double-check with address string
-  // (bbox is for the county — the town might be at the edge)
+  // Geometry says out of area, but double-check with address string
+  // (the town might be at the edge of the county or the city radius)
   const locationLower = locationName.toLowerCase().trim();
   const addressLower = (leadAddress || '').toLowerCase();
   if (addressLower && addressLower.includes(locationLower)) {
@@ -352,19 +443,109 @@ export function verifyLocationGeo(
       lat,
       lng,
       confidence: 'medium',
-      reason: `Lead address contains "${locationName}" despite being outside ${regionNames} bbox (address override)`,
+      reason: `Lead address contains "${locationName}" despite being outside ${regionNames} (address override)`,
     };
   }
 
+  // A city radius is an approximation of its edge, so being just outside it is weaker evidence
+  const method = outsideMethod ?? 'geo_bbox';
   return {
     status: 'OUT_OF_AREA',
-    method: 'geo_bbox',
+    method,
     regionKey: regionKeys[0],
     regionName: regionNames,
     lat,
     lng,
+    confidence: method === 'geo_radius' ? 'medium' : 'high',
+    reason: `Lead at (${lat.toFixed(4)}, ${lng.toFixed(4)}) is outside ${regionNames} (${method})`,
+  };
+}
+
+/**
+ * Distance in km from a point to a region: to the gazetteer feature's edge,
+ * else to the nearest side of its rectangle. 0 when inside.
+ */
+function distanceToRegionKm(key: string, lat: number, lng: number): number | null {
+  const feature = getGazetteerFeature(key);
+  if (feature) return distanceToFeatureKm(feature, lat, lng);
+  const region = REGIONS[key];
+  if (!region) return null;
+  const { north, south, east, west } = region.bbox;
+  return haversineKm(lat, lng, Math.min(north, Math.max(south, lat)), Math.min(east, Math.max(west, lng)));
+}
+
+/**
+ * Check a lead against "near <place>" / "within N km of <place>": verified
+ * when it lies within `withinKm` of the place's boundary (or inside it).
+ */
+export function verifyLocationNear(
+  lat: number | null | undefined,
+  lng: number | null | undefined,
+  centerName: string,
+  withinKm: number,
+  isHardConstraint: boolean,
+  leadAddress?: string | null,
+): GeoVerificationResult {
+  const regionKeys = resolveRegionKeys(centerName);
+  const unverified = (reason: string): GeoVerificationResult => ({
+    status: isHardConstraint ? 'UNKNOWN' : 'SEARCH_BOUNDED',
+    method: isHardConstraint ? 'unknown' : 'search_bounded',
+    regionKey: regionKeys[0] ?? null,
+    regionName: regionKeys.length > 0 ? getRegion(regionKeys[0])?.name ?? null : null,
+    lat: lat ?? null,
+    lng: lng ?? null,
+    confidence: 'low',
+    reason,
+  });
+
+  if (regionKeys.length === 0) {
+    if (leadAddress && centerName && leadAddress.toLowerCase().includes(centerName.toLowerCase().trim())) {
+      return {
+        status: 'VERIFIED_GEO',
+        method: 'search_bounded',
+        regionKey: null,
+        regionName: centerName,
+        lat: lat ?? null,
+        lng: lng ?? null,
+        confidence: 'medium',
+        reason: `Lead address "${leadAddress}" contains "${centerName}" (address match)`,
+      };
+    }
+    return unverified(`No region boundary data for "${centerName}"; distance unverifiable`);
+  }
+
+  if (lat == null || lng == null) {
+    return unverified('Lead missing lat/lng; distance unverifiable');
+  }
+
+  let nearestKey = regionKeys[0];
+  let nearestKm = Infinity;
+  for (const key of regionKeys) {
+    const distance = distanceToRegionKm(key, lat, lng);
+    if (distance !== null && distance < nearestKm) {
+      nearestKey = key;
+      nearestKm = distance;
+    }
+  }
+  if (nearestKm === Infinity) {
+    return unverified(`No region boundary data for "${centerName}"; distance unverifiable`);
+  }
+
+  const regionName = getRegion(nearestKey)?.name ?? centerName;
+  const distanceKm = Math.round(nearestKm * 10) / 10;
+  const within = nearestKm <= withinKm;
+  return {
+    status: within ? 'VERIFIED_GEO' : 'OUT_OF_AREA',
+    method: 'geo_radius',
+    regionKey: nearestKey,
+    regionName,
+    lat,
+    lng,
     confidence: 'high',
-    reason: `Lead at (${lat.toFixed(4)}, ${lng.toFixed(4)}) is outside ${regionNames} bounding box(es)`,
+    reason: nearestKm === 0
+      ? `Lead at (${lat.toFixed(4)}, ${lng.toFixed(4)}) is within ${regionName}`
+      : `Lead at (${lat.toFixed(4)}, ${lng.toFixed(4)}) is ${distanceKm} km from ${regionName} (${within ? 'within' : 'beyond'} ${withinKm} km)`,
+    distanceKm,
   };
 }
 
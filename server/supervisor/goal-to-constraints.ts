@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { formatTemporalAnchorsForPrompt } from './current-context';
+import { callLLMJson } from './llm-json';
 
 export const DEFAULT_LEADS_TARGET = 20;
 
@@ -241,67 +242,20 @@ function buildUserPrompt(goal: string): string {
   return `Parse this goal into structured constraints:\n\n"${goal}"`;
 }
 
-async function callAnthropicForParsing(anthropicKey: string, userPrompt: string): Promise<Record<string, unknown>> {
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': anthropicKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model: 'claude-3-5-haiku-20241022',
-      max_tokens: 2000,
-      temperature: 0,
-      system: buildSystemPrompt(),
-      messages: [{ role: 'user', content: userPrompt + '\n\nReturn ONLY valid JSON.' }],
-    }),
-  });
-  const data = await response.json() as any;
-  if (!response.ok) throw new Error(`Anthropic API ${response.status}: ${JSON.stringify(data).substring(0, 200)}`);
-  const text = data.content?.[0]?.text || '{}';
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  return jsonMatch ? JSON.parse(jsonMatch[0]) : {};
-}
-
-async function callLLMForParsing(goal: string): Promise<Record<string, unknown>> {
-  const openaiKey = process.env.OPENAI_API_KEY;
-  const anthropicKey = process.env.ANTHROPIC_API_KEY;
-
-  const userPrompt = buildUserPrompt(goal);
+async function callLLMForParsing(goal: string): Promise<ParsedGoal> {
+  const schema = z.record(z.unknown())
+    .transform(raw => ({ ...raw, original_goal: goal }))
+    .pipe(ParsedGoalSchema);
 
   // Dev mode: prefer Anthropic Haiku 3.5 — saves OpenAI quota during dev/benchmarking
-  if (openaiKey && process.env.WYSHBONE_ENV !== 'dev') {
-    try {
-      const { default: OpenAI } = await import('openai');
-      const client = new OpenAI({ apiKey: openaiKey });
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        temperature: 0,
-        max_tokens: 2000,
-        response_format: { type: 'json_object' },
-        messages: [
-          { role: 'system', content: buildSystemPrompt() },
-          { role: 'user', content: userPrompt },
-        ],
-      });
-      const text = response.choices[0]?.message?.content || '{}';
-      return JSON.parse(text);
-    } catch (err: any) {
-      const is429 = err?.status === 429 || String(err?.message ?? '').includes('429');
-      if (is429 && anthropicKey) {
-        console.warn('[GOAL_PARSER] OpenAI 429 — falling back to Claude haiku');
-        return callAnthropicForParsing(anthropicKey, userPrompt);
-      }
-      throw err;
-    }
-  }
-
-  if (anthropicKey) {
-    return callAnthropicForParsing(anthropicKey, userPrompt);
-  }
-
-  throw new Error('No LLM API key configured');
+  const { data } = await callLLMJson(schema, buildSystemPrompt(), buildUserPrompt(goal), 'goal_parser', {
+    providerChain: process.env.WYSHBONE_ENV === 'dev' ? ['anthropic', 'openai'] : ['openai', 'anthropic'],
+    openaiModel: 'gpt-4o-mini',
+    anthropicModel: 'claude-3-5-haiku-20241022',
+    maxTokens: 2000,
+    temperature: 0,
+  });
+  return data;
 }
 
 const US_STATES = new Set([
@@ -399,11 +353,7 @@ function stripInstructionClauses(rawGoal: string): string {
 export async function parseGoalToConstraints(rawUserGoal: string): Promise<ParsedGoal> {
   const startMs = Date.now();
   try {
-    const raw = await callLLMForParsing(rawUserGoal);
-
-    raw.original_goal = rawUserGoal;
-
-    const parsed = ParsedGoalSchema.parse(raw);
+    const parsed = await callLLMForParsing(rawUserGoal);
 
     parsed.location = sanitiseLocationString(parsed.location);
 
@@ -8,8 +8,16 @@
  * Supports two query modes:
  *   TEXT_ONLY      — query phrasing only, no location bias params
  *   BIASED_STABLE  — adds locationBias circle (lat/lng + radius) and regionCode
+ *
+ * A caller that has already placed the search (the radius-expansion executor)
+ * can pass its own bias circle instead of the geocoded location and default radius.
  */
 
+import { cassetteApiKey, cassetteFetch } from './cassette';
+import { fetchCached } from './fetch-cache';
+import { recordApiUsage } from './cost-ledger';
+import { checkBudget, formatBudgetStopReason } from './budgets';
+
 export type GoogleQueryMode = 'TEXT_ONLY' | 'BIASED_STABLE';
 
 export interface PlaceResult {
@@ -36,6 +44,13 @@ export interface SearchPlacesDebug {
   bias_unavailable_fallback: boolean;
 }
 
+/** Explicit locationBias circle for BIASED_STABLE searches */
+export interface LocationBiasCircle {
+  lat: number;
+  lng: number;
+  radiusMeters: number;
+}
+
 export interface SearchPlacesResult {
   success: boolean;
   places: PlaceResult[];
@@ -55,45 +70,14 @@ const PLACES_V1_FIELD_MASK = [
   'places.websiteUri',
 ].join(',');
 
-// ---------------------------------------------------------------------------
-// In-memory place cache — keyed by place_id, stores resolved website/phone.
-// TODO: add TTL before production
-// ---------------------------------------------------------------------------
-const placeCache = new Map<string, {
+// Place details, geocodes and whole search results are cached in the shared
+// fetch cache (supervisor/fetch-cache), which persists across restarts.
+interface CachedPlaceDetails {
   website: string | null;
   phone: string | null;
   cachedAt: string;
   cacheVersion: '1.0';
-}>();
-
-// ---------------------------------------------------------------------------
-// In-memory geocode cache — keyed by "location::country"
-// ---------------------------------------------------------------------------
-const geocodeCache = new Map<string, { lat: number; lng: number } | null>();
-
-// ---------------------------------------------------------------------------
-// In-memory search results cache — keyed by query+location+country+mode
-// Prevents identical searches from hitting Google repeatedly (24h TTL)
-// ---------------------------------------------------------------------------
-interface SearchCacheEntry {
-  data: SearchPlacesResult;
-  expiresAt: number;
-  createdAt: number;
 }
-const searchResultsCache = new Map<string, SearchCacheEntry>();
-let cacheStats = { hits: 0, misses: 0 };
-
-// Periodic cleanup and stats logging
-setInterval(() => {
-  const now = Date.now();
-  let evicted = 0;
-  for (const [key, entry] of searchResultsCache) {
-    if (now > entry.expiresAt) { searchResultsCache.delete(key); evicted++; } // No-op in dev mode (Infinity TTL)
-  }
-  const total = cacheStats.hits + cacheStats.misses;
-  const hitRate = total > 0 ? Math.round((cacheStats.hits / total) * 100) : 0;
-  console.log(`📊 [GP CACHE] Hits: ${cacheStats.hits} | Misses: ${cacheStats.misses} | Rate: ${hitRate}% | Entries: ${searchResultsCache.size}${evicted ? ` | Evicted: ${evicted}` : ''}`);
-}, 10 * 60 * 1000); // Every 10 minutes
 
 const UK_COUNTRY_VARIANTS = new Set([
   'uk', 'united kingdom', 'gb', 'great britain', 'england', 'scotland', 'wales',
@@ -107,8 +91,18 @@ const DEFAULT_BIAS_RADIUS = 50000;
 
 async function geocodeLocation(location: string, country: string, apiKey: string): Promise<{ lat: number; lng: number } | null> {
   const cacheKey = `${location.toLowerCase().trim()}::${country.toLowerCase().trim()}`;
-  if (geocodeCache.has(cacheKey)) return geocodeCache.get(cacheKey)!;
+  // Only definitive answers are cached; HTTP errors and exceptions are retried next time
+  const geocoded = await fetchCached('geocode', cacheKey, () => geocodeLocationLive(location, country, apiKey), {
+    shouldCache: result => result.definitive,
+  });
+  return geocoded.location;
+}
 
+async function geocodeLocationLive(
+  location: string,
+  country: string,
+  apiKey: string,
+): Promise<{ location: { lat: number; lng: number } | null; definitive: boolean }> {
   try {
     const { resolveRegionKeys, getRegion } = await import('./geo-regions');
     const regionKeys = resolveRegionKeys(location);
@@ -125,21 +119,26 @@ async function geocodeLocation(location: string, country: string, apiKey: string
       if (count > 0) {
         const result = { lat: totalLat / count, lng: totalLng / count };
         console.log(`[GOOGLE_PLACES] Geocoded "${location}" via geo-regions → ${result.lat.toFixed(4)},${result.lng.toFixed(4)}`);
-        geocodeCache.set(cacheKey, result);
-        return result;
+        return { location: result, definitive: true };
       }
     }
 
+    const budget = await checkBudget();
+    if (!budget.allowed) {
+      console.warn(`[GOOGLE_PLACES] Skipping geocode for "${location}" — ${formatBudgetStopReason(budget)}`);
+      return { location: null, definitive: false };
+    }
+
     const url = new URL(GOOGLE_GEOCODING_URL);
     url.searchParams.set('address', `${location}, ${country}`);
     url.searchParams.set('key', apiKey);
 
-    const resp = await fetch(url.toString());
+    const resp = await cassetteFetch('google_geocode', url.toString());
     if (!resp.ok) {
       console.warn(`[GOOGLE_PLACES] Geocoding HTTP error ${resp.status} for "${location}"`);
-      geocodeCache.set(cacheKey, null);
-      return null;
+      return { location: null, definitive: false };
     }
+    recordApiUsage({ label: 'google_geocode', provider: 'google_geocode', unit: 'geocode' });
 
     const data = await resp.json() as {
       status: string;
@@ -150,39 +149,50 @@ async function geocodeLocation(location: string, country: string, apiKey: string
       const loc = data.results[0].geometry.location;
       const result = { lat: loc.lat, lng: loc.lng };
       console.log(`[GOOGLE_PLACES] Geocoded "${location}" via Geocoding API → ${result.lat.toFixed(4)},${result.lng.toFixed(4)}`);
-      geocodeCache.set(cacheKey, result);
-      return result;
+      return { location: result, definitive: true };
     }
 
     console.warn(`[GOOGLE_PLACES] Geocoding returned ${data.status} for "${location}"`);
-    geocodeCache.set(cacheKey, null);
-    return null;
+    return { location: null, definitive: data.status === 'ZERO_RESULTS' };
   } catch (err: any) {
     console.warn(`[GOOGLE_PLACES] Geocoding exception for "${location}": ${err.message}`);
-    geocodeCache.set(cacheKey, null);
-    return null;
+    return { location: null, definitive: false };
   }
 }
 
+/**
+ * Centre point for a search location: geo-regions first, then the Geocoding API.
+ * Returns null when the location cannot be placed.
+ */
+export async function geocodeSearchLocation(location: string, country: string): Promise<{ lat: number; lng: number } | null> {
+  return geocodeLocation(location, country, cassetteApiKey(process.env.GOOGLE_MAPS_API_KEY) ?? '');
+}
+
 export async function searchPlaces(
   query: string,
   location: string,
   country: string,
   maxResults: number = 20,
   mode: GoogleQueryMode = 'TEXT_ONLY',
+  bias?: LocationBiasCircle,
 ): Promise<SearchPlacesResult> {
-  // ─── SEARCH CACHE CHECK ───────────────────────────────────────
-  const cacheKey = `search:${query.toLowerCase().trim()}||${location.toLowerCase().trim()}||${country.toLowerCase().trim()}||${maxResults}||${mode}`;
-  const cachedSearch = searchResultsCache.get(cacheKey);
-  if (cachedSearch && Date.now() < cachedSearch.expiresAt) {
-    cacheStats.hits++;
-    const ageMin = Math.round((Date.now() - cachedSearch.createdAt) / 60000);
-    console.log(`⚡ [GP CACHE HIT] "${query}" in "${location}" (age: ${ageMin}m) — saved 1+ API call`);
-    return cachedSearch.data;
-  }
-  cacheStats.misses++;
+  // Identical searches are served from the fetch cache; failures are not cached
+  const biasKey = bias ? `||${bias.lat.toFixed(6)},${bias.lng.toFixed(6)},${bias.radiusMeters}` : '';
+  const cacheKey = `${query.toLowerCase().trim()}||${location.toLowerCase().trim()}||${country.toLowerCase().trim()}||${maxResults}||${mode}${biasKey}`;
+  return fetchCached('places_search', cacheKey, () => searchPlacesLive(query, location, country, maxResults, mode, bias), {
+    shouldCache: result => result.success,
+  });
+}
 
-  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+async function searchPlacesLive(
+  query: string,
+  location: string,
+  country: string,
+  maxResults: number,
+  mode: GoogleQueryMode,
+  bias?: LocationBiasCircle,
+): Promise<SearchPlacesResult> {
+  const apiKey = cassetteApiKey(process.env.GOOGLE_MAPS_API_KEY);
 
   if (!apiKey) {
     console.error('[GOOGLE_PLACES] GOOGLE_MAPS_API_KEY not set');
@@ -193,6 +203,16 @@ export async function searchPlaces(
     };
   }
 
+  const budget = await checkBudget();
+  if (!budget.allowed) {
+    console.warn(`[GOOGLE_PLACES] Skipping search "${query}" — ${formatBudgetStopReason(budget)}`);
+    return {
+      success: false,
+      places: [],
+      error: formatBudgetStopReason(budget),
+    };
+  }
+
   const requestedMode = mode;
   let usedMode = mode;
   let biasApplied = false;
@@ -205,7 +225,7 @@ export async function searchPlaces(
   let locationBias: { lat: number; lng: number } | null = null;
 
   if (usedMode === 'BIASED_STABLE') {
-    locationBias = await geocodeLocation(location, country, apiKey);
+    locationBias = bias ? { lat: bias.lat, lng: bias.lng } : await geocodeLocation(location, country, apiKey);
     if (!locationBias) {
       console.log(`[GOOGLE_PLACES] Bias unavailable for "${location}" — falling back to TEXT_ONLY`);
       usedMode = 'TEXT_ONLY';
@@ -219,7 +239,7 @@ export async function searchPlaces(
     searchQuery = `${query} ${country}`.trim();
     biasApplied = true;
     biasLocation = `${locationBias!.lat.toFixed(6)},${locationBias!.lng.toFixed(6)}`;
-    radiusUsed = DEFAULT_BIAS_RADIUS;
+    radiusUsed = bias?.radiusMeters ?? DEFAULT_BIAS_RADIUS;
     if (isUkCountry(country)) {
       regionUsed = 'uk';
     }
@@ -251,7 +271,7 @@ export async function searchPlaces(
 
     console.log(`[GOOGLE_PLACES] v1 Request: textQuery="${searchQuery}" maxResultCount=${requestedCount} bias=${biasApplied}`);
 
-    const response = await fetch(GOOGLE_PLACES_V1_URL, {
+    const response = await cassetteFetch('google_places', GOOGLE_PLACES_V1_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -273,6 +293,7 @@ export async function searchPlaces(
         debug: buildDebug(requestedMode, usedMode, searchQuery, regionUsed, biasApplied, biasLocation, radiusUsed, pagesFetched, 0, biasFallback),
       };
     }
+    recordApiUsage({ label: 'google_places_search', provider: 'google_places', unit: 'text_search' });
 
     const data = await response.json() as {
       places?: Array<{
@@ -301,37 +322,16 @@ export async function searchPlaces(
 
     let websitesFound = 0;
 
-    const places: PlaceResult[] = rawPlaces.slice(0, maxResults).map(raw => {
+    const places: PlaceResult[] = await Promise.all(rawPlaces.slice(0, maxResults).map(async raw => {
       const placeId = raw.id;
-
-      if (placeCache.has(placeId)) {
-        const cached = placeCache.get(placeId)!;
-        console.log(`[PLACES CACHE HIT] ${placeId} cached at ${cached.cachedAt}`);
-        return {
-          place_id: placeId,
-          name: raw.displayName?.text || 'Unknown',
-          formatted_address: raw.formattedAddress || '',
-          lat: raw.location?.latitude ?? 0,
-          lng: raw.location?.longitude ?? 0,
-          types: raw.types,
-          website: cached.website ?? undefined,
-          phone: cached.phone ?? undefined,
-        };
-      }
-
-      console.log(`[PLACES CACHE MISS] ${placeId} — fetching from API`);
-
-      const website = raw.websiteUri ?? null;
-      const phone: string | null = null;
-
-      placeCache.set(placeId, {
-        website,
-        phone,
+      const details = await fetchCached<CachedPlaceDetails>('places_details', placeId, async () => ({
+        website: raw.websiteUri ?? null,
+        phone: null,
         cachedAt: new Date().toISOString(),
         cacheVersion: '1.0',
-      });
+      }));
 
-      if (website) websitesFound++;
+      if (details.website) websitesFound++;
 
       return {
         place_id: placeId,
@@ -340,28 +340,19 @@ export async function searchPlaces(
         lat: raw.location?.latitude ?? 0,
         lng: raw.location?.longitude ?? 0,
         types: raw.types,
-        website: website ?? undefined,
-        phone: phone ?? undefined,
+        website: details.website ?? undefined,
+        phone: details.phone ?? undefined,
       };
-    });
+    }));
 
     console.log(`[GOOGLE_PLACES] places_websites_found=${websitesFound}/${places.length}`);
     console.log(`[GOOGLE_PLACES] Found ${places.length} places (requested up to ${maxResults})`);
 
-    // ─── CACHE THE RESULT ─────────────────────────────────────────
-    const resultToCache: SearchPlacesResult = {
+    return {
       success: true,
       places,
       debug: buildDebug(requestedMode, usedMode, searchQuery, regionUsed, biasApplied, biasLocation, radiusUsed, pagesFetched, places.length, biasFallback),
     };
-    searchResultsCache.set(cacheKey, {
-      data: resultToCache,
-      expiresAt: Infinity, // Never expires (dev mode)
-      createdAt: Date.now(),
-    });
-    console.log(`💾 [GP CACHE] Stored: "${query}" in "${location}" (${places.length} results, cached permanently (dev mode))`);
-
-    return resultToCache;
 
   } catch (error: any) {
     console.error('[GOOGLE_PLACES] Exception:', error.message);
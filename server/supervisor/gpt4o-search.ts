@@ -33,6 +33,8 @@ import {
   type PerConstraintVerification,
   type EvidenceVerificationStatus,
 } from './finalize-delivery';
+import { countWebSearchCalls, recordLLMUsage } from './cost-ledger';
+import { BUDGET_EXCEEDED_STOP_REASON, checkBudget, formatBudgetStopReason } from './budgets';
 
 const MAX_SEARCH_ROUNDS = 3;
 const LOW_RESULT_THRESHOLD = 5;
@@ -405,6 +407,11 @@ async function callGpt4oWebSearch(
     return { parsed: null, raw: '', error: 'OPENAI_API_KEY not configured' };
   }
 
+  const budget = await checkBudget();
+  if (!budget.allowed) {
+    return { parsed: null, raw: '', error: formatBudgetStopReason(budget) };
+  }
+
   try {
     const { default: OpenAI } = await import('openai');
     const openai = new OpenAI({ apiKey: openaiKey });
@@ -416,6 +423,7 @@ async function callGpt4oWebSearch(
       tools: [{ type: 'web_search_preview' }],
       input: prompt,
     });
+    recordLLMUsage({ label: 'gpt4o_search', provider: 'openai', model: primaryModel, usage: response.usage, webSearchCalls: countWebSearchCalls(response.output) });
 
     let rawText = '';
 
@@ -545,6 +553,7 @@ export async function executeGpt4oPrimaryPath(ctx: Gpt4oSearchContext): Promise<
   const coverageAssessments: string[] = [];
   let roundsPerformed = 0;
 
+  let budgetStopReason: string | null = null;
   for (let round = 0; round < MAX_SEARCH_ROUNDS; round++) {
     const angle = searchAngles[round] || `additional search for ${businessType} in ${location}`;
 
@@ -567,6 +576,7 @@ export async function executeGpt4oPrimaryPath(ctx: Gpt4oSearchContext): Promise<
 
     if (error || !parsed) {
       console.error(`[GPT4O_SEARCH] Round ${round + 1} failed: ${error}`);
+      if (error?.startsWith(BUDGET_EXCEEDED_STOP_REASON)) budgetStopReason = error;
       await createArtefact({
         runId,
         type: 'diagnostic',
@@ -1113,7 +1123,7 @@ export async function executeGpt4oPrimaryPath(ctx: Gpt4oSearchContext): Promise<
     leads: dsLeads,
     finalVerdict,
     finalAction,
-    stopReason: null,
+    stopReason: budgetStopReason,
     verificationPolicy,
     verificationPolicyReason,
   };
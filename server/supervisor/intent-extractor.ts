@@ -1,7 +1,7 @@
 import {
   type CanonicalIntent,
   type IntentValidationResult,
-  parseAndValidateIntentJSON,
+  validateCanonicalIntent,
   MISSION_TYPE_ENUM,
   ENTITY_KIND_ENUM,
   CONSTRAINT_TYPE_ENUM,
@@ -11,6 +11,8 @@ import {
   DEFAULT_COUNT_POLICY_ENUM,
   PLAN_TEMPLATE_HINT_ENUM,
 } from './canonical-intent';
+import { z } from 'zod';
+import { callLLMJson, isLLMJsonError } from './llm-json';
 
 const INTENT_EXTRACTOR_SYSTEM_PROMPT = `You are the Intent Extraction Contract for a B2B lead generation system.
 
@@ -238,6 +240,18 @@ export interface IntentExtractionResult {
   raw_response: string;
 }
 
+/**
+ * The intent validator's errors become repair issues for callLLMJson.
+ */
+const IntentResponseSchema = z.unknown().transform((raw, ctx): IntentValidationResult => {
+  const validation = validateCanonicalIntent(raw);
+  if (!validation.ok) {
+    for (const message of validation.errors) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    return z.NEVER;
+  }
+  return validation;
+});
+
 export async function extractCanonicalIntent(
   userMessage: string,
   conversationContext?: string,
@@ -252,11 +266,20 @@ export async function extractCanonicalIntent(
     userPrompt = `Extract the canonical intent from this user message:\n\n"${userMessage}"`;
   }
 
-  let rawResponse: string;
   try {
-    rawResponse = await callLLM(model, userPrompt);
+    const result = await callLLMJson(IntentResponseSchema, INTENT_EXTRACTOR_SYSTEM_PROMPT, userPrompt, 'intent_extractor', {
+      providerChain: model.startsWith('claude-') ? ['anthropic', 'openai'] : ['openai', 'anthropic'],
+      openaiModel: 'gpt-4o-mini',
+      anthropicModel: 'claude-3-5-haiku-20241022',
+      maxTokens: 2000,
+      temperature: 0,
+    });
+    return { validation: result.data, model: result.model ?? model, duration_ms: Date.now() - startMs, raw_response: result.raw };
   } catch (err: any) {
     const duration_ms = Date.now() - startMs;
+    if (isLLMJsonError(err)) {
+      return { validation: { ok: false, intent: null, errors: err.issues }, model, duration_ms, raw_response: err.raw };
+    }
     return {
       validation: { ok: false, intent: null, errors: [`LLM call failed: ${err.message}`] },
       model,
@@ -264,12 +287,6 @@ export async function extractCanonicalIntent(
       raw_response: '',
     };
   }
-
-  const duration_ms = Date.now() - startMs;
-  const cleaned = cleanJsonResponse(rawResponse);
-  const validation = parseAndValidateIntentJSON(cleaned);
-
-  return { validation, model, duration_ms, raw_response: rawResponse };
 }
 
 function selectModel(): string {
@@ -281,64 +298,3 @@ function selectModel(): string {
   if (process.env.ANTHROPIC_API_KEY) return 'claude-3-5-haiku-20241022';
   return 'none';
 }
-
-async function callLLM(model: string, userPrompt: string): Promise<string> {
-  if (model === 'gpt-4o-mini') {
-    return callOpenAI(userPrompt);
-  }
-  if (model.startsWith('claude-')) {
-    return callAnthropic(model, userPrompt);
-  }
-  throw new Error('No LLM API key available (OPENAI_API_KEY or ANTHROPIC_API_KEY required)');
-}
-
-async function callOpenAI(userPrompt: string): Promise<string> {
-  const { default: OpenAI } = await import('openai');
-  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0,
-    max_tokens: 2000,
-    response_format: { type: 'json_object' },
-    messages: [
-      { role: 'system', content: INTENT_EXTRACTOR_SYSTEM_PROMPT },
-      { role: 'user', content: userPrompt },
-    ],
-  });
-  return response.choices[0]?.message?.content || '';
-}
-
-async function callAnthropic(model: string, userPrompt: string): Promise<string> {
-  const resp = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': process.env.ANTHROPIC_API_KEY!,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 2000,
-      temperature: 0,
-      system: INTENT_EXTRACTOR_SYSTEM_PROMPT,
-      messages: [{ role: 'user', content: userPrompt }],
-    }),
-  });
-
-  if (!resp.ok) {
-    const body = await resp.text();
-    throw new Error(`Anthropic API ${resp.status}: ${body.substring(0, 200)}`);
-  }
-
-  const data = await resp.json() as { content: Array<{ type: string; text?: string }> };
-  const textBlock = data.content?.find((b) => b.type === 'text');
-  return textBlock?.text || '';
-}
-
-function cleanJsonResponse(raw: string): string {
-  let s = raw.trim();
-  if (s.startsWith('```json')) s = s.slice(7);
-  else if (s.startsWith('```')) s = s.slice(3);
-  if (s.endsWith('```')) s = s.slice(0, -3);
-  return s.trim();
-}
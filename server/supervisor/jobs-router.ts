@@ -3,12 +3,13 @@
  * 
  * Endpoints:
  * - POST /api/supervisor/jobs/start - Start a new job
+ * - GET /api/supervisor/jobs - List recent jobs (?status=&jobType=&userId=&limit=)
  * - GET /api/supervisor/jobs/:jobId - Get job status
  * - POST /api/supervisor/jobs/:jobId/cancel - Cancel a job
  */
 
 import { Router } from 'express';
-import { startJob, getJobStatus, cancelJob, type StartJobRequest } from './jobs';
+import { startJob, getJobStatus, cancelJob, listJobs, type JobStatus, type StartJobRequest } from './jobs';
 
 export const jobsRouter = Router();
 
@@ -59,6 +60,9 @@ jobsRouter.post('/start', async (req, res) => {
       userId: body.userId,
       clientRequestId: body.clientRequestId,
       executionPath,
+      priority: typeof body.priority === 'number' ? body.priority : undefined,
+      maxAttempts: typeof body.maxAttempts === 'number' ? body.maxAttempts : undefined,
+      delayMs: typeof body.delayMs === 'number' ? body.delayMs : undefined,
     });
     
     console.log(`[JOBS_API] Job started - jobId: ${jobId}`);
@@ -73,13 +77,33 @@ jobsRouter.post('/start', async (req, res) => {
   }
 });
 
+jobsRouter.get('/', async (req, res) => {
+  try {
+    const limit = parseInt(String(req.query.limit || '50'), 10);
+    const jobs = await listJobs({
+      status: req.query.status ? String(req.query.status) as JobStatus : undefined,
+      jobType: req.query.jobType ? String(req.query.jobType) : undefined,
+      userId: req.query.userId ? String(req.query.userId) : undefined,
+      limit: Number.isFinite(limit) ? Math.min(Math.max(limit, 1), 200) : 50,
+    });
+    
+    return res.status(200).json({ jobs });
+    
+  } catch (error: any) {
+    console.error('[JOBS_API] Error listing jobs:', error.message);
+    return res.status(500).json({
+      error: error.message || 'Internal server error'
+    });
+  }
+});
+
 jobsRouter.get('/:jobId', async (req, res) => {
   const { jobId } = req.params;
   
   console.log(`[JOBS_API] GET /${jobId} - Request received`);
   
   try {
-    const status = getJobStatus(jobId);
+    const status = await getJobStatus(jobId);
     
     if (!status) {
       console.log(`[JOBS_API] Job not found: ${jobId}`);
@@ -109,7 +133,7 @@ jobsRouter.post('/:jobId/cancel', async (req, res) => {
     const cancelled = await cancelJob(jobId);
     
     if (!cancelled) {
-      const status = getJobStatus(jobId);
+      const status = await getJobStatus(jobId);
       if (!status) {
         console.log(`[JOBS_API] Job not found: ${jobId}`);
         return res.status(404).json({
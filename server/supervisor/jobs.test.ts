@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('./afr-logger', () => ({ logAFREvent: vi.fn(async () => {}) }));
+vi.mock('../supabase', () => ({ supabase: null }));
+vi.mock('../storage', () => ({ storage: {} }));
+vi.mock('./jobs/handlers/nightly-maintenance', async () => {
+  const { recordApiUsage, _settleCostLedger } = await import('./cost-ledger');
+  const { checkBudget } = await import('./budgets');
+  return {
+    runNightlyMaintenance: vi.fn(async () => {
+      recordApiUsage({ label: 'hunter_domain_search', provider: 'hunter', unit: 'domain_search' });
+      await _settleCostLedger();
+      const budget = await checkBudget();
+      return { success: budget.allowed, durationMs: 0 };
+    }),
+  };
+});
+
+import { startJob, getJobStatus, stopJobWorker } from './jobs';
+import { JobQueue, InMemoryJobStore, setJobQueue } from './jobs/job-queue';
+import { InMemoryCostLedgerStore, setAccountLookup, setCostLedgerStore } from './cost-ledger';
+import { configureBudget, _resetBudgets } from './budgets';
+
+describe('job cost attribution', () => {
+  let costStore: InMemoryCostLedgerStore;
+
+  beforeEach(() => {
+    costStore = new InMemoryCostLedgerStore();
+    setCostLedgerStore(costStore);
+    setJobQueue(new JobQueue(new InMemoryJobStore()));
+    _resetBudgets();
+  });
+
+  afterEach(() => {
+    stopJobWorker();
+    setJobQueue(null);
+    setAccountLookup(null);
+  });
+
+  it("charges a job to the user's account so account budgets apply", async () => {
+    const lookup = vi.fn(async (userId: string) => (userId === 'u1' ? 'acct-1' : null));
+    setAccountLookup(lookup);
+    configureBudget('account', 'acct-1', { monthlyCalls: 1 });
+
+    const jobId = await startJob({ jobType: 'nightly-maintenance', payload: {}, requestedBy: 'test', userId: 'u1' });
+
+    await vi.waitFor(async () => {
+      expect((await getJobStatus(jobId))?.status).toBe('completed');
+    });
+    const status = await getJobStatus(jobId);
+    expect(status?.resultSummary.success).toBe(false);
+    expect(lookup).toHaveBeenCalledWith('u1');
+
+    const byAccount = await costStore.summarize('account', { runId: jobId, userId: 'u1' });
+    expect(byAccount).toMatchObject([{ key: 'acct-1', calls: 1 }]);
+  });
+
+  it('runs without an account when the lookup fails', async () => {
+    setAccountLookup(async () => { throw new Error('supabase down'); });
+    configureBudget('account', 'acct-1', { monthlyCalls: 1 });
+
+    const jobId = await startJob({ jobType: 'nightly-maintenance', payload: {}, requestedBy: 'test', userId: 'u2' });
+
+    await vi.waitFor(async () => {
+      expect((await getJobStatus(jobId))?.status).toBe('completed');
+    });
+    expect((await getJobStatus(jobId))?.resultSummary.success).toBe(true);
+    expect(await costStore.summarize('account', { runId: jobId })).toMatchObject([{ key: null, calls: 1 }]);
+  });
+});
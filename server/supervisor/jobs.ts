@@ -1,48 +1,44 @@
 /**
- * Jobs API - In-memory job store and runner
+ * Jobs API - Persistent job queue and worker
  * 
  * Provides job lifecycle management with AFR event logging.
- * Jobs run asynchronously in the background.
+ * Jobs are stored in supervisor_jobs (see jobs/job-queue.ts) and run by a
+ * polling worker that leases one job at a time per slot, so queued jobs and
+ * their status survive restarts. Failed attempts are retried with
+ * exponential backoff; jobs whose worker died are recovered once their
+ * lease expires.
  * 
  * Handler routing:
  * - "nightly-maintenance" -> real handler
  * - "xero-sync" -> real handler (safely no-ops if no Xero integrations)
+ * - "crm-sync" -> real handler (pushes a user's leads to HubSpot/Pipedrive; no-ops without an integration)
  * - "monitor-worker" -> real handler (checks monitors for issues, creates alerts)
  * - "monitor-executor" -> real handler (executes scheduled monitors, generates leads)
  * - "deep-research-poll" -> real handler (polls pending deep research runs)
  * - "deep_research" -> real handler (executes deep research: trigger → poll → artefact → events)
  * - other job types -> stub runner (2 second placeholder)
+ * 
+ * Configuration:
+ * - JOBS_POLL_INTERVAL_MS: worker poll interval (default: 2000)
+ * - JOBS_CONCURRENCY: jobs run at once per process (default: 2)
+ * - JOBS_MAX_ATTEMPTS: attempts per job before it is failed (default: 3)
  */
 
 import { randomUUID } from 'crypto';
 import { logAFREvent } from './afr-logger';
 import { supabase } from '../supabase';
 import { storage } from '../storage';
+import { resolveCostAttribution, withCostAttribution } from './cost-ledger';
+import { getJobQueue, type Job, type JobQueue, type JobStatus, type ListJobsFilter } from './jobs/job-queue';
 import { runNightlyMaintenance } from './jobs/handlers/nightly-maintenance';
 import { runXeroSync } from './jobs/handlers/xero-sync';
-import { runMonitorWorker, acquireMonitorWorkerLock, releaseMonitorWorkerLock, isMonitorWorkerRunning } from './jobs/handlers/monitor-worker';
-import { runMonitorExecutor, acquireMonitorExecutorLock, releaseMonitorExecutorLock, isMonitorExecutorRunning } from './jobs/handlers/monitor-executor';
-import { runDeepResearchPoll, acquireDeepResearchPollLock, releaseDeepResearchPollLock, isDeepResearchPollRunning } from './jobs/handlers/deep-research-poll';
+import { runCrmSync } from './jobs/handlers/crm-sync';
+import { runMonitorWorker } from './jobs/handlers/monitor-worker';
+import { runMonitorExecutor } from './jobs/handlers/monitor-executor';
+import { runDeepResearchPoll } from './jobs/handlers/deep-research-poll';
 import { runDeepResearchExecute } from './jobs/handlers/deep-research-execute';
 
-export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
-
-export interface Job {
-  jobId: string;
-  jobType: string;
-  status: JobStatus;
-  payload: any;
-  requestedBy: string;
-  sourceRunId?: string;
-  userId?: string;
-  clientRequestId?: string;
-  progress?: number;
-  message?: string;
-  startedAt?: string;
-  endedAt?: string;
-  resultSummary?: any;
-  createdAt: string;
-}
+export type { Job, JobStatus } from './jobs/job-queue';
 
 export interface StartJobRequest {
   jobType: string;
@@ -52,6 +48,12 @@ export interface StartJobRequest {
   userId?: string;
   clientRequestId?: string;
   executionPath?: string;
+  /** Higher runs first (default 0) */
+  priority?: number;
+  /** Overrides JOBS_MAX_ATTEMPTS for this job */
+  maxAttempts?: number;
+  /** Delay before the job becomes eligible to run */
+  delayMs?: number;
 }
 
 export interface JobStatusResponse {
@@ -63,9 +65,29 @@ export interface JobStatusResponse {
   startedAt?: string;
   endedAt?: string;
   resultSummary?: any;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
 }
 
-const jobStore: Map<string, Job> = new Map();
+type ProgressCallback = (progress: number, message: string) => Promise<void>;
+
+interface JobOutcome {
+  /** Defaults to 'completed' */
+  status?: 'completed' | 'failed';
+  message: string;
+  resultSummary: any;
+}
+
+interface JobHandler {
+  startMessage: string;
+  /** Lease-based lock held for the whole run; a second job is refused while it is held */
+  lockName?: string;
+  run(job: Job, onProgress: ProgressCallback): Promise<JobOutcome>;
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOBS_POLL_INTERVAL_MS || '2000', 10);
+const CONCURRENCY = parseInt(process.env.JOBS_CONCURRENCY || '2', 10);
 
 async function emitJobEvent(
   eventType: string,
@@ -96,10 +118,11 @@ async function emitJobEvent(
   console.log(`[JOBS] Event: ${eventType} | jobId: ${job.jobId} | status: ${job.status}`);
 }
 
-async function emitProgressEvent(job: Job, progress: number, message: string): Promise<void> {
+
+async function emitProgressEvent(queue: JobQueue, job: Job, progress: number, message: string): Promise<void> {
   job.progress = progress;
   job.message = message;
-  jobStore.set(job.jobId, job);
+  await queue.progress(job.jobId, progress, message);
   
   await logAFREvent({
     userId: job.userId || 'system',
@@ -121,438 +144,377 @@ async function emitProgressEvent(job: Job, progress: number, message: string): P
   console.log(`[JOBS] Progress: ${job.jobId} | ${progress}% | ${message}`);
 }
 
-async function runNightlyMaintenanceJob(job: Job): Promise<void> {
-  try {
-    job.status = 'running';
-    job.startedAt = new Date().toISOString();
-    job.message = 'Starting nightly maintenance...';
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_started', job);
-    
-    const result = await runNightlyMaintenance(job, async (progress, message) => {
-      const currentJob = jobStore.get(job.jobId);
-      if (currentJob?.status === 'cancelled') {
-        throw new Error('Job cancelled by user');
-      }
-      await emitProgressEvent(job, progress, message);
-    });
-    
-    const currentJob = jobStore.get(job.jobId);
-    if (currentJob?.status === 'cancelled') {
-      return;
+// ========================================
+// HANDLERS
+// ========================================
+
+const JOB_HANDLERS: Record<string, JobHandler> = {
+  'nightly-maintenance': {
+    startMessage: 'Starting nightly maintenance...',
+    async run(job, onProgress) {
+      const result = await runNightlyMaintenance(job, onProgress);
+      return {
+        message: 'Nightly maintenance completed successfully',
+        resultSummary: {
+          success: result.success,
+          jobType: job.jobType,
+          durationMs: result.durationMs,
+          memoryCleanup: result.memoryCleanup,
+          taskExecution: result.taskExecution
+        }
+      };
     }
-    
-    job.status = 'completed';
-    job.endedAt = new Date().toISOString();
-    job.progress = 100;
-    job.message = 'Nightly maintenance completed successfully';
-    job.resultSummary = {
-      success: result.success,
-      jobType: job.jobType,
-      durationMs: result.durationMs,
-      memoryCleanup: result.memoryCleanup,
-      taskExecution: result.taskExecution
-    };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_completed', job, { resultSummary: job.resultSummary });
-    
-  } catch (error: any) {
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = `Failed: ${error.message}`;
-    job.resultSummary = { success: false, error: error.message };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { error: error.message });
-  }
-}
-
-async function runStubJob(job: Job): Promise<void> {
-  try {
-    job.status = 'running';
-    job.startedAt = new Date().toISOString();
-    job.message = `Running ${job.jobType}...`;
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_started', job);
-    
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const currentJob = jobStore.get(job.jobId);
-    if (currentJob?.status === 'cancelled') {
-      return;
+  },
+
+  'xero-sync': {
+    startMessage: 'Starting Xero sync...',
+    async run(job, onProgress) {
+      const result = await runXeroSync(job, onProgress);
+      return {
+        message: result.usersWithXero === 0 
+          ? 'Xero sync completed (no integrations configured)'
+          : `Xero sync completed: ${result.usersSynced} users synced`,
+        resultSummary: {
+          success: result.success,
+          jobType: job.jobType,
+          durationMs: result.durationMs,
+          usersWithXero: result.usersWithXero,
+          usersSynced: result.usersSynced,
+          usersSkipped: result.usersSkipped,
+          usersFailed: result.usersFailed,
+          totalContactsSynced: result.totalContactsSynced,
+          totalInvoicesSynced: result.totalInvoicesSynced
+        }
+      };
     }
-    
-    job.status = 'completed';
-    job.endedAt = new Date().toISOString();
-    job.progress = 100;
-    job.message = `${job.jobType} completed successfully`;
-    job.resultSummary = {
-      success: true,
-      jobType: job.jobType,
-      durationMs: new Date(job.endedAt).getTime() - new Date(job.startedAt!).getTime()
-    };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_completed', job, { resultSummary: job.resultSummary });
-    
-  } catch (error: any) {
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = `Failed: ${error.message}`;
-    job.resultSummary = { success: false, error: error.message };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { error: error.message });
-  }
-}
+  },
+
+  'crm-sync': {
+    startMessage: 'Starting CRM sync...',
+    async run(job, onProgress) {
+      const result = await runCrmSync(job, onProgress);
+      return {
+        message: result.skippedReason
+          ? `CRM sync completed (${result.skippedReason})`
+          : `CRM sync completed: ${result.created} created, ${result.matched} matched, ${result.failed} failed`,
+        resultSummary: {
+          success: result.success,
+          jobType: job.jobType,
+          durationMs: result.durationMs,
+          provider: result.provider,
+          userId: result.userId,
+          skippedReason: result.skippedReason,
+          leadsFound: result.leadsFound,
+          created: result.created,
+          matched: result.matched,
+          alreadySynced: result.alreadySynced,
+          duplicatesInBatch: result.duplicatesInBatch,
+          failed: result.failed
+        }
+      };
+    }
+  },
+
+  'monitor-worker': {
+    startMessage: 'Starting monitor worker...',
+    lockName: 'monitor-worker',
+    async run(job, onProgress) {
+      const result = await runMonitorWorker(job, onProgress);
+      return {
+        message: result.issuesFound === 0
+          ? 'Monitor worker completed (no issues found)'
+          : `Monitor worker completed: ${result.issuesFound} issues found, ${result.alertsCreated} alerts created`,
+        resultSummary: {
+          success: result.success,
+          jobType: job.jobType,
+          durationMs: result.durationMs,
+          monitorsLoaded: result.monitorsLoaded,
+          monitorsChecked: result.monitorsChecked,
+          issuesFound: result.issuesFound,
+          alertsCreated: result.alertsCreated,
+          eventsByStatus: result.eventsByStatus
+        }
+      };
+    }
+  },
+
+  'monitor-executor': {
+    startMessage: 'Starting monitor executor...',
+    lockName: 'monitor-executor',
+    async run(job, onProgress) {
+      const result = await runMonitorExecutor(job, onProgress);
+      return {
+        message: result.monitorsExecuted === 0
+          ? 'Monitor executor completed (no monitors to execute)'
+          : `Monitor executor completed: ${result.plansSucceeded} succeeded, ${result.plansFailed} failed, ${result.leadsGenerated} leads`,
+        resultSummary: {
+          success: result.success,
+          jobType: job.jobType,
+          durationMs: result.durationMs,
+          monitorsLoaded: result.monitorsLoaded,
+          monitorsExecuted: result.monitorsExecuted,
+          plansCreated: result.plansCreated,
+          plansSucceeded: result.plansSucceeded,
+          plansFailed: result.plansFailed,
+          leadsGenerated: result.leadsGenerated
+        }
+      };
+    }
+  },
+
+  'deep-research-poll': {
+    startMessage: 'Starting deep research poll...',
+    lockName: 'deep-research-poll',
+    async run(job, onProgress) {
+      const result = await runDeepResearchPoll(job, onProgress);
+      return {
+        message: result.pendingFound === 0
+          ? 'Deep research poll completed (no pending runs)'
+          : `Deep research poll completed: ${result.processed} processed (${result.succeeded} succeeded, ${result.failed} failed)`,
+        resultSummary: {
+          success: result.success,
+          jobType: job.jobType,
+          durationMs: result.durationMs,
+          pendingFound: result.pendingFound,
+          processed: result.processed,
+          succeeded: result.succeeded,
+          failed: result.failed,
+          skipped: result.skipped
+        }
+      };
+    }
+  },
+
+  'deep_research': {
+    startMessage: 'Starting deep research execution...',
+    async run(job, onProgress) {
+      const result = await runDeepResearchExecute(job, onProgress);
+      return {
+        status: result.success ? 'completed' : 'failed',
+        message: result.success
+          ? `Deep research completed: artefact posted=${result.artefactPosted}`
+          : `Deep research ${result.status}: ${result.error || 'unknown error'}`,
+        resultSummary: {
+          success: result.success,
+          jobType: job.jobType,
+          durationMs: result.durationMs,
+          deepResearchRunId: result.deepResearchRunId,
+          artefactPosted: result.artefactPosted,
+          artefactId: result.artefactId,
+          status: result.status,
+          provider: result.provider,
+          tier: result.tier,
+          citations: result.citationSummary,
+          error: result.error,
+        }
+      };
+    }
+  },
+};
 
-async function runXeroSyncJob(job: Job): Promise<void> {
-  try {
-    job.status = 'running';
-    job.startedAt = new Date().toISOString();
-    job.message = 'Starting Xero sync...';
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_started', job);
-    
-    const result = await runXeroSync(job, async (progress, message) => {
-      const currentJob = jobStore.get(job.jobId);
-      if (currentJob?.status === 'cancelled') {
-        throw new Error('Job cancelled by user');
+const stubHandler: JobHandler = {
+  startMessage: '',
+  async run(job) {
+    const startedMs = Date.now();
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    return {
+      message: `${job.jobType} completed successfully`,
+      resultSummary: {
+        success: true,
+        jobType: job.jobType,
+        durationMs: Date.now() - startedMs
       }
-      await emitProgressEvent(job, progress, message);
-    });
-    
-    const currentJob = jobStore.get(job.jobId);
-    if (currentJob?.status === 'cancelled') {
-      return;
-    }
-    
-    job.status = 'completed';
-    job.endedAt = new Date().toISOString();
-    job.progress = 100;
-    job.message = result.usersWithXero === 0 
-      ? 'Xero sync completed (no integrations configured)'
-      : `Xero sync completed: ${result.usersSynced} users synced`;
-    job.resultSummary = {
-      success: result.success,
-      jobType: job.jobType,
-      durationMs: result.durationMs,
-      usersWithXero: result.usersWithXero,
-      usersSynced: result.usersSynced,
-      usersSkipped: result.usersSkipped,
-      usersFailed: result.usersFailed,
-      totalContactsSynced: result.totalContactsSynced,
-      totalInvoicesSynced: result.totalInvoicesSynced
     };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_completed', job, { resultSummary: job.resultSummary });
-    
-  } catch (error: any) {
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = `Failed: ${error.message}`;
-    job.resultSummary = { success: false, error: error.message };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { error: error.message });
   }
-}
+};
+
+// ========================================
+// RUNNER
+// ========================================
 
-async function runMonitorWorkerJob(job: Job): Promise<void> {
-  if (!acquireMonitorWorkerLock()) {
-    console.log(`[JOBS] monitor-worker job already running - refusing to start duplicate`);
+/**
+ * Run a job this worker has leased. The lease (and the handler lock, if any)
+ * is renewed while the handler runs; losing it is treated like a cancel.
+ */
+async function runClaimedJob(queue: JobQueue, job: Job): Promise<void> {
+  const handler = JOB_HANDLERS[job.jobType] || stubHandler;
+  const lockName = handler.lockName;
+
+  if (lockName && !(await queue.acquireLock(lockName))) {
+    console.log(`[JOBS] ${job.jobType} job already running - refusing to start duplicate`);
+    const error = `A ${job.jobType} job is already in progress`;
     job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = 'Job already running - refused to start duplicate';
-    job.resultSummary = { success: false, error: 'A monitor-worker job is already in progress' };
-    jobStore.set(job.jobId, job);
+    job.resultSummary = { success: false, error };
+    await queue.finish(job.jobId, {
+      status: 'failed',
+      message: 'Job already running - refused to start duplicate',
+      resultSummary: job.resultSummary,
+      error,
+    });
     
     await emitJobEvent('job_failed', job, { 
-      error: 'A monitor-worker job is already in progress',
+      error,
       reason: 'already_running'
     });
     return;
   }
 
+  let leaseLost = false;
+  const heartbeat = setInterval(() => {
+    queue.heartbeat(job.jobId)
+      .then(ok => { if (!ok) leaseLost = true; })
+      .then(() => lockName ? queue.renewLock(lockName) : undefined)
+      .catch(err => console.warn(`[JOBS] Heartbeat failed for ${job.jobId}: ${err.message}`));
+  }, Math.max(1000, Math.floor(queue.leaseMs / 3)));
+
+  const message = handler.startMessage || `Running ${job.jobType}...`;
+
   try {
-    job.status = 'running';
-    job.startedAt = new Date().toISOString();
-    job.message = 'Starting monitor worker...';
-    jobStore.set(job.jobId, job);
+    job.message = message;
+    await queue.progress(job.jobId, job.progress ?? 0, message);
     
-    await emitJobEvent('job_started', job);
+    await emitJobEvent('job_started', job, { attempt: job.attempts, maxAttempts: job.maxAttempts });
     
-    const result = await runMonitorWorker(job, async (progress, message) => {
-      const currentJob = jobStore.get(job.jobId);
-      if (currentJob?.status === 'cancelled') {
+    const costAttribution = await resolveCostAttribution({ runId: job.sourceRunId ?? job.jobId, userId: job.userId });
+    const outcome = await withCostAttribution(costAttribution, () => handler.run(job, async (progress, progressMessage) => {
+      if (leaseLost || await queue.isCancelled(job.jobId)) {
         throw new Error('Job cancelled by user');
       }
-      await emitProgressEvent(job, progress, message);
-    });
+      await emitProgressEvent(queue, job, progress, progressMessage);
+    }));
     
-    const currentJob = jobStore.get(job.jobId);
-    if (currentJob?.status === 'cancelled') {
+    if (leaseLost || await queue.isCancelled(job.jobId)) {
       return;
     }
     
-    job.status = 'completed';
-    job.endedAt = new Date().toISOString();
-    job.progress = 100;
-    job.message = result.issuesFound === 0
-      ? 'Monitor worker completed (no issues found)'
-      : `Monitor worker completed: ${result.issuesFound} issues found, ${result.alertsCreated} alerts created`;
-    job.resultSummary = {
-      success: result.success,
-      jobType: job.jobType,
-      durationMs: result.durationMs,
-      monitorsLoaded: result.monitorsLoaded,
-      monitorsChecked: result.monitorsChecked,
-      issuesFound: result.issuesFound,
-      alertsCreated: result.alertsCreated,
-      eventsByStatus: result.eventsByStatus
-    };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_completed', job, { resultSummary: job.resultSummary });
-    
-  } catch (error: any) {
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = `Failed: ${error.message}`;
-    job.resultSummary = { success: false, error: error.message };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { error: error.message });
-  } finally {
-    releaseMonitorWorkerLock();
-  }
-}
-
-async function runMonitorExecutorJob(job: Job): Promise<void> {
-  if (!acquireMonitorExecutorLock()) {
-    console.log(`[JOBS] monitor-executor job already running - refusing to start duplicate`);
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = 'Job already running - refused to start duplicate';
-    job.resultSummary = { success: false, error: 'A monitor-executor job is already in progress' };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { 
-      error: 'A monitor-executor job is already in progress',
-      reason: 'already_running'
-    });
-    return;
-  }
-
-  try {
-    job.status = 'running';
-    job.startedAt = new Date().toISOString();
-    job.message = 'Starting monitor executor...';
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_started', job);
-    
-    const result = await runMonitorExecutor(job, async (progress, message) => {
-      const currentJob = jobStore.get(job.jobId);
-      if (currentJob?.status === 'cancelled') {
-        throw new Error('Job cancelled by user');
-      }
-      await emitProgressEvent(job, progress, message);
+    const status = outcome.status || 'completed';
+    const finished = await queue.finish(job.jobId, {
+      status,
+      message: outcome.message,
+      resultSummary: outcome.resultSummary,
+      progress: 100,
+      error: status === 'failed' ? outcome.resultSummary?.error : undefined,
     });
-    
-    const currentJob = jobStore.get(job.jobId);
-    if (currentJob?.status === 'cancelled') {
+    if (!finished) {
       return;
     }
-    
-    job.status = 'completed';
-    job.endedAt = new Date().toISOString();
+
+    job.status = status;
     job.progress = 100;
-    job.message = result.monitorsExecuted === 0
-      ? 'Monitor executor completed (no monitors to execute)'
-      : `Monitor executor completed: ${result.plansSucceeded} succeeded, ${result.plansFailed} failed, ${result.leadsGenerated} leads`;
-    job.resultSummary = {
-      success: result.success,
-      jobType: job.jobType,
-      durationMs: result.durationMs,
-      monitorsLoaded: result.monitorsLoaded,
-      monitorsExecuted: result.monitorsExecuted,
-      plansCreated: result.plansCreated,
-      plansSucceeded: result.plansSucceeded,
-      plansFailed: result.plansFailed,
-      leadsGenerated: result.leadsGenerated
-    };
-    jobStore.set(job.jobId, job);
+    job.message = outcome.message;
+    job.resultSummary = outcome.resultSummary;
     
-    await emitJobEvent('job_completed', job, { resultSummary: job.resultSummary });
+    await emitJobEvent(status === 'completed' ? 'job_completed' : 'job_failed', job, { resultSummary: job.resultSummary });
     
   } catch (error: any) {
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = `Failed: ${error.message}`;
-    job.resultSummary = { success: false, error: error.message };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { error: error.message });
+    if (leaseLost || await queue.isCancelled(job.jobId).catch(() => false)) {
+      return;
+    }
+
+    const result = await queue.failAttempt(job, error.message);
+    if (result === 'retrying') {
+      job.status = 'queued';
+      await emitJobEvent('job_retry_scheduled', job, {
+        error: error.message,
+        attempt: job.attempts,
+        maxAttempts: job.maxAttempts
+      });
+    } else {
+      job.status = 'failed';
+      job.resultSummary = { success: false, error: error.message };
+      await emitJobEvent('job_failed', job, { error: error.message, attempts: job.attempts });
+    }
   } finally {
-    releaseMonitorExecutorLock();
+    clearInterval(heartbeat);
+    if (lockName) {
+      await queue.releaseLock(lockName).catch(err =>
+        console.warn(`[JOBS] Failed to release lock ${lockName}: ${err.message}`)
+      );
+    }
   }
 }
 
-async function runDeepResearchPollJob(job: Job): Promise<void> {
-  if (!acquireDeepResearchPollLock()) {
-    console.log(`[JOBS] deep-research-poll job already running - refusing to start duplicate`);
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = 'Job already running - refused to start duplicate';
-    job.resultSummary = { success: false, error: 'A deep-research-poll job is already in progress' };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { 
-      error: 'A deep-research-poll job is already in progress',
-      reason: 'already_running'
-    });
+// ========================================
+// WORKER
+// ========================================
+
+let workerInterval: NodeJS.Timeout | null = null;
+let tickInProgress = false;
+let tickRequested = false;
+let activeJobs = 0;
+
+/**
+ * One worker pass: recover expired leases, then claim jobs up to CONCURRENCY.
+ */
+async function workerTick(): Promise<void> {
+  if (tickInProgress) {
+    tickRequested = true;
     return;
   }
+  tickInProgress = true;
 
   try {
-    job.status = 'running';
-    job.startedAt = new Date().toISOString();
-    job.message = 'Starting deep research poll...';
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_started', job);
-    
-    const result = await runDeepResearchPoll(job, async (progress, message) => {
-      const currentJob = jobStore.get(job.jobId);
-      if (currentJob?.status === 'cancelled') {
-        throw new Error('Job cancelled by user');
-      }
-      await emitProgressEvent(job, progress, message);
-    });
-    
-    const currentJob = jobStore.get(job.jobId);
-    if (currentJob?.status === 'cancelled') {
-      return;
+    const queue = await getJobQueue();
+
+    const recovered = await queue.recoverExpiredLeases();
+    for (const job of recovered.requeued) {
+      console.log(`[JOBS] Recovered ${job.jobId} (${job.jobType}) after expired lease - requeued`);
+      await emitJobEvent('job_recovered', job, { previousOwner: job.leaseOwner, attempts: job.attempts });
+    }
+    for (const job of recovered.failed) {
+      console.log(`[JOBS] ${job.jobId} (${job.jobType}) lease expired with no attempts left - failed`);
+      await emitJobEvent('job_failed', job, { error: job.lastError, reason: 'lease_expired' });
+    }
+
+    while (activeJobs < CONCURRENCY) {
+      const job = await queue.claimNext();
+      if (!job) break;
+
+      activeJobs++;
+      runClaimedJob(queue, job)
+        .catch(err => console.error(`[JOBS] Unhandled error in job ${job.jobId}:`, err))
+        .finally(() => {
+          activeJobs--;
+          kickJobWorker();
+        });
     }
-    
-    job.status = 'completed';
-    job.endedAt = new Date().toISOString();
-    job.progress = 100;
-    job.message = result.pendingFound === 0
-      ? 'Deep research poll completed (no pending runs)'
-      : `Deep research poll completed: ${result.processed} processed (${result.succeeded} succeeded, ${result.failed} failed)`;
-    job.resultSummary = {
-      success: result.success,
-      jobType: job.jobType,
-      durationMs: result.durationMs,
-      pendingFound: result.pendingFound,
-      processed: result.processed,
-      succeeded: result.succeeded,
-      failed: result.failed,
-      skipped: result.skipped
-    };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_completed', job, { resultSummary: job.resultSummary });
-    
   } catch (error: any) {
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = `Failed: ${error.message}`;
-    job.resultSummary = { success: false, error: error.message };
-    jobStore.set(job.jobId, job);
-    
-    await emitJobEvent('job_failed', job, { error: error.message });
+    console.error(`[JOBS] Worker tick failed: ${error.message}`);
   } finally {
-    releaseDeepResearchPollLock();
+    tickInProgress = false;
+    if (tickRequested) {
+      tickRequested = false;
+      kickJobWorker();
+    }
   }
 }
 
-async function runDeepResearchExecuteJob(job: Job): Promise<void> {
-  try {
-    job.status = 'running';
-    job.startedAt = new Date().toISOString();
-    job.message = 'Starting deep research execution...';
-    jobStore.set(job.jobId, job);
-
-    await emitJobEvent('job_started', job);
-
-    const result = await runDeepResearchExecute(job, async (progress, message) => {
-      const currentJob = jobStore.get(job.jobId);
-      if (currentJob?.status === 'cancelled') {
-        throw new Error('Job cancelled by user');
-      }
-      await emitProgressEvent(job, progress, message);
-    });
-
-    const currentJob = jobStore.get(job.jobId);
-    if (currentJob?.status === 'cancelled') {
-      return;
-    }
-
-    job.status = result.success ? 'completed' : 'failed';
-    job.endedAt = new Date().toISOString();
-    job.progress = 100;
-    job.message = result.success
-      ? `Deep research completed: artefact posted=${result.artefactPosted}`
-      : `Deep research ${result.status}: ${result.error || 'unknown error'}`;
-    job.resultSummary = {
-      success: result.success,
-      jobType: job.jobType,
-      durationMs: result.durationMs,
-      deepResearchRunId: result.deepResearchRunId,
-      artefactPosted: result.artefactPosted,
-      artefactId: result.artefactId,
-      status: result.status,
-      error: result.error,
-    };
-    jobStore.set(job.jobId, job);
-
-    await emitJobEvent(result.success ? 'job_completed' : 'job_failed', job, { resultSummary: job.resultSummary });
-
-  } catch (error: any) {
-    job.status = 'failed';
-    job.endedAt = new Date().toISOString();
-    job.message = `Failed: ${error.message}`;
-    job.resultSummary = { success: false, error: error.message };
-    jobStore.set(job.jobId, job);
+/**
+ * Run a worker pass now instead of waiting for the next poll.
+ */
+function kickJobWorker(): void {
+  setImmediate(() => {
+    workerTick().catch(() => {});
+  });
+}
 
-    await emitJobEvent('job_failed', job, { error: error.message });
+/**
+ * Start polling the job queue. Safe to call more than once.
+ */
+export function startJobWorker(): void {
+  if (workerInterval) {
+    return;
   }
+  workerInterval = setInterval(kickJobWorker, POLL_INTERVAL_MS);
+  kickJobWorker();
+  console.log(`[JOBS] Job worker started (poll ${POLL_INTERVAL_MS}ms, concurrency ${CONCURRENCY})`);
 }
 
-async function runJobAsync(job: Job): Promise<void> {
-  if (job.jobType === 'nightly-maintenance') {
-    return runNightlyMaintenanceJob(job);
-  }
-  
-  if (job.jobType === 'xero-sync') {
-    return runXeroSyncJob(job);
-  }
-  
-  if (job.jobType === 'monitor-worker') {
-    return runMonitorWorkerJob(job);
-  }
-  
-  if (job.jobType === 'monitor-executor') {
-    return runMonitorExecutorJob(job);
-  }
-  
-  if (job.jobType === 'deep-research-poll') {
-    return runDeepResearchPollJob(job);
+export function stopJobWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
   }
-  
-  if (job.jobType === 'deep_research') {
-    return runDeepResearchExecuteJob(job);
-  }
-  
-  return runStubJob(job);
 }
 
 export function generateJobId(): string {
@@ -560,8 +522,22 @@ export function generateJobId(): string {
 }
 
 export async function startJob(request: StartJobRequest): Promise<string> {
+  const queue = await getJobQueue();
+
+  // Idempotent on clientRequestId: a retried request returns the original job
+  if (request.clientRequestId) {
+    const [existing] = await queue.list({
+      jobType: request.jobType,
+      clientRequestId: request.clientRequestId,
+      limit: 1
+    });
+    if (existing) {
+      console.log(`[JOBS] Duplicate start for clientRequestId=${request.clientRequestId} - returning ${existing.jobId}`);
+      return existing.jobId;
+    }
+  }
+
   const jobId = generateJobId();
-  const now = new Date().toISOString();
 
   if (request.jobType === 'deep_research') {
     const userText = String(request.payload?.topic || request.payload?.prompt || request.payload?.user_message || '');
@@ -637,7 +613,7 @@ export async function startJob(request: StartJobRequest): Promise<string> {
       }
     }
 
-    const job: Job = {
+    const { job } = await queue.enqueue({
       jobId,
       jobType: request.jobType,
       status: 'completed',
@@ -648,53 +624,47 @@ export async function startJob(request: StartJobRequest): Promise<string> {
       clientRequestId: request.clientRequestId,
       progress: 100,
       message: `Redirected to supervisor.`,
-      createdAt: now,
-      endedAt: now,
       resultSummary: {
         success: true,
         jobType: request.jobType,
         redirected: true,
       },
-    };
-    jobStore.set(jobId, job);
+    });
     await emitJobEvent('job_queued', job);
     await emitJobEvent('job_completed', job, { resultSummary: job.resultSummary });
-    return jobId;
+    return job.jobId;
   }
   
-  const job: Job = {
+  const { job, created } = await queue.enqueue({
     jobId,
     jobType: request.jobType,
-    status: 'queued',
     payload: request.payload,
     requestedBy: request.requestedBy,
     sourceRunId: request.sourceRunId,
     userId: request.userId,
     clientRequestId: request.clientRequestId,
-    progress: 0,
-    message: `Job ${request.jobType} queued`,
-    createdAt: now
-  };
+    priority: request.priority,
+    maxAttempts: request.maxAttempts,
+    delayMs: request.delayMs
+  });
   
-  jobStore.set(jobId, job);
+  if (!created) {
+    return job.jobId;
+  }
   
-  await emitJobEvent('job_queued', job);
+  await emitJobEvent('job_queued', job, { priority: job.priority, maxAttempts: job.maxAttempts });
   
-  setImmediate(() => {
-    runJobAsync(job).catch(err => {
-      console.error(`[JOBS] Unhandled error in job ${jobId}:`, err);
-    });
-  });
+  kickJobWorker();
   
   return jobId;
 }
 
-export function getJob(jobId: string): Job | undefined {
-  return jobStore.get(jobId);
+export async function getJob(jobId: string): Promise<Job | undefined> {
+  return (await getJobQueue()).get(jobId);
 }
 
-export function getJobStatus(jobId: string): JobStatusResponse | undefined {
-  const job = jobStore.get(jobId);
+export async function getJobStatus(jobId: string): Promise<JobStatusResponse | undefined> {
+  const job = await getJob(jobId);
   if (!job) return undefined;
   
   return {
@@ -705,28 +675,22 @@ export function getJobStatus(jobId: string): JobStatusResponse | undefined {
     message: job.message,
     startedAt: job.startedAt,
     endedAt: job.endedAt,
-    resultSummary: job.resultSummary
+    resultSummary: job.resultSummary,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError
   };
 }
 
 export async function cancelJob(jobId: string): Promise<boolean> {
-  const job = jobStore.get(jobId);
+  const job = await (await getJobQueue()).cancel(jobId);
   if (!job) return false;
   
-  if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
-    return false;
-  }
-  
-  job.status = 'cancelled';
-  job.endedAt = new Date().toISOString();
-  job.message = 'Job cancelled by user';
-  jobStore.set(jobId, job);
-  
   await emitJobEvent('job_cancelled', job);
   
   return true;
 }
 
-export function listJobs(): Job[] {
-  return Array.from(jobStore.values());
+export async function listJobs(filter: ListJobsFilter = {}): Promise<Job[]> {
+  return (await getJobQueue()).list(filter);
 }
@@ -0,0 +1,206 @@
+/**
+ * CRM Sync Job Handler
+ *
+ * Pushes a user's leads to their connected CRM (HubSpot or Pipedrive).
+ *
+ * Payload:
+ * - userId (required), provider: 'hubspot' | 'pipedrive' (required)
+ * - leadIds: optional subset of the user's suggested_leads
+ * - deliverySummary: optional DeliverySummaryPayload whose delivered entities are pushed too
+ * - force: push leads again even if already synced
+ *
+ * Behavior:
+ * - Reads the OAuth token from the Supabase integrations table (provider = payload.provider)
+ * - Safely no-ops if the user has no integration for the provider, or no leads
+ * - Dedupes by domain, then phone, within the batch and against the CRM
+ * - Writes per-lead sync state (crm_sync_state); failed leads are retried on the next run
+ *
+ * HUBSPOT_API_BASE_URL / PIPEDRIVE_API_BASE_URL override the API base URL
+ * (e.g. to point at a local stub).
+ */
+
+import { supabase } from '../../../supabase';
+import { storage } from '../../../storage';
+import type { Job } from '../../jobs';
+import type { DeliverySummaryPayload } from '../../delivery-summary';
+import {
+  createCrmConnector,
+  fromDeliverySummary,
+  fromSuggestedLead,
+  syncLeadsToCrm,
+  type CrmFieldMapping,
+  type CrmLead,
+  type CrmProvider,
+  type CrmSyncSummary,
+} from '../../../features/crmSync';
+
+export interface CrmSyncResult {
+  success: boolean;
+  provider: CrmProvider;
+  userId: string;
+  /** Why nothing was pushed, when the job no-oped */
+  skippedReason?: string;
+  leadsFound: number;
+  created: number;
+  matched: number;
+  alreadySynced: number;
+  duplicatesInBatch: number;
+  failed: number;
+  durationMs: number;
+}
+
+interface CrmIntegration {
+  id: string;
+  user_id: string;
+  provider: string;
+  access_token: string;
+  expires_at: number | null;
+  metadata: Record<string, any> | null;
+}
+
+export interface ProgressCallback {
+  (progress: number, message: string): Promise<void>;
+}
+
+const CRM_PROVIDERS: CrmProvider[] = ['hubspot', 'pipedrive'];
+
+function isTokenValid(integration: CrmIntegration): boolean {
+  if (!integration.expires_at) {
+    return true;
+  }
+  const bufferMs = 5 * 60 * 1000;
+  return integration.expires_at > (Date.now() + bufferMs);
+}
+
+function resolveBaseUrl(provider: CrmProvider, integration: CrmIntegration): string | undefined {
+  if (provider === 'hubspot') {
+    return process.env.HUBSPOT_API_BASE_URL || undefined;
+  }
+  if (process.env.PIPEDRIVE_API_BASE_URL) {
+    return process.env.PIPEDRIVE_API_BASE_URL;
+  }
+  // Pipedrive OAuth tokens are bound to the company domain returned at connect time
+  const apiDomain = integration.metadata?.api_domain;
+  return apiDomain ? `${String(apiDomain).replace(/\/$/, '')}/api/v1` : undefined;
+}
+
+async function loadLeads(userId: string, payload: Record<string, any>): Promise<CrmLead[]> {
+  const leadIds: string[] | undefined = Array.isArray(payload.leadIds) ? payload.leadIds : undefined;
+  const deliverySummary = payload.deliverySummary as DeliverySummaryPayload | undefined;
+
+  // Delivery-only pushes don't need the user's suggested leads
+  const leads: CrmLead[] = [];
+  if (!deliverySummary || leadIds) {
+    const rows = await storage.getSuggestedLeads(userId);
+    rows
+      .filter(row => !leadIds || leadIds.includes(row.id))
+      .forEach(row => leads.push(fromSuggestedLead(row)));
+  }
+  if (deliverySummary) {
+    leads.push(...fromDeliverySummary(deliverySummary));
+  }
+  return leads;
+}
+
+export async function runCrmSync(
+  job: Job,
+  onProgress: ProgressCallback
+): Promise<CrmSyncResult> {
+  const startTime = Date.now();
+  const payload = (job.payload ?? {}) as Record<string, any>;
+  const userId = String(payload.userId || job.userId || '');
+  const provider = payload.provider as CrmProvider;
+
+  console.log(`[CRM_SYNC] Starting CRM sync job ${job.jobId} (provider: ${provider}, user: ${userId})`);
+
+  const result: CrmSyncResult = {
+    success: false,
+    provider,
+    userId,
+    leadsFound: 0,
+    created: 0,
+    matched: 0,
+    alreadySynced: 0,
+    duplicatesInBatch: 0,
+    failed: 0,
+    durationMs: 0,
+  };
+
+  const noOp = async (reason: string): Promise<CrmSyncResult> => {
+    console.log(`[CRM_SYNC] ${reason} - nothing to sync`);
+    await onProgress(100, reason);
+    result.success = true;
+    result.skippedReason = reason;
+    result.durationMs = Date.now() - startTime;
+    return result;
+  };
+
+  if (!CRM_PROVIDERS.includes(provider)) {
+    throw new Error(`crm-sync payload.provider must be one of: ${CRM_PROVIDERS.join(', ')}`);
+  }
+  if (!userId) {
+    throw new Error('crm-sync payload.userId is required');
+  }
+
+  await onProgress(5, `Checking ${provider} integration...`);
+
+  if (!supabase) {
+    return noOp('Supabase not configured');
+  }
+
+  const { data: integrations, error } = await supabase
+    .from('integrations')
+    .select('*')
+    .eq('provider', provider)
+    .eq('user_id', userId)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to fetch ${provider} integration: ${error.message}`);
+  }
+
+  const integration = integrations?.[0] as CrmIntegration | undefined;
+  if (!integration) {
+    return noOp(`No ${provider} integration for user`);
+  }
+  if (!isTokenValid(integration)) {
+    return noOp(`${provider} token expired - reconnect required`);
+  }
+
+  await onProgress(15, 'Loading leads...');
+  const leads = await loadLeads(userId, payload);
+  result.leadsFound = leads.length;
+  if (leads.length === 0) {
+    return noOp('No leads to sync');
+  }
+
+  const connector = createCrmConnector(provider, {
+    accessToken: integration.access_token,
+    baseUrl: resolveBaseUrl(provider, integration),
+    fieldMapping: integration.metadata?.fieldMapping as CrmFieldMapping | undefined,
+  });
+
+  await onProgress(20, `Pushing ${leads.length} lead(s) to ${provider}...`);
+
+  const summary: CrmSyncSummary = await syncLeadsToCrm(connector, leads, {
+    userId,
+    force: payload.force === true,
+    onLeadSynced: async (_outcome, index, total) => {
+      if ((index + 1) % 10 === 0 || index + 1 === total) {
+        await onProgress(20 + Math.round(((index + 1) / total) * 75), `Synced ${index + 1}/${total} leads`);
+      }
+    },
+  });
+
+  result.created = summary.created;
+  result.matched = summary.matched;
+  result.alreadySynced = summary.alreadySynced;
+  result.duplicatesInBatch = summary.duplicatesInBatch;
+  result.failed = summary.failed;
+  result.success = true;
+  result.durationMs = Date.now() - startTime;
+
+  console.log(`[CRM_SYNC] ${provider} sync complete for ${userId}: ${summary.created} created, ${summary.matched} matched, ${summary.alreadySynced} already synced, ${summary.duplicatesInBatch} duplicates, ${summary.failed} failed (${result.durationMs}ms)`);
+
+  return result;
+}
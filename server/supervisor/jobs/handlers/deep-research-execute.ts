@@ -1,5 +1,6 @@
 import { logAFREvent, logToolCallStarted, logToolCallCompleted, logToolCallFailed, logRunCompleted } from '../../afr-logger';
-import { createResearchProvider } from '../../research-provider';
+import { selectResearchProvider } from '../../research-provider';
+import { appendCitationFlags, validateCitations, type CitationReport } from '../../research-citations';
 import type { Job } from '../../jobs';
 
 export interface DeepResearchExecuteResult {
@@ -10,6 +11,9 @@ export interface DeepResearchExecuteResult {
   durationMs: number;
   reportChars: number;
   sourcesCount: number;
+  provider?: string;
+  tier?: string;
+  citationSummary?: CitationReport['summary'];
   error?: string;
 }
 
@@ -142,10 +146,12 @@ export async function runDeepResearchExecute(
     runType: 'plan', metadata: { tool: 'DEEP_RESEARCH', topic, jobId: job.jobId },
   }).catch(() => {});
 
-  const provider = createResearchProvider();
-  const providerName = provider.name;
+  const provider = await selectResearchProvider({ provider: job.payload?.provider, tier: job.payload?.tier });
+  const { route } = provider;
+  let providerName = provider.name;
+  result.tier = route.tier;
 
-  console.log(`[DEEP_RESEARCH] uiRunId=${uiRunId} crid=${clientRequestId || 'none'} userId=${userId} provider=${providerName} status=started topic="${topic}"`);
+  console.log(`[DEEP_RESEARCH] uiRunId=${uiRunId} crid=${clientRequestId || 'none'} userId=${userId} provider=${providerName} tier=${route.tier} route=${route.reason} status=started topic="${topic}"`);
 
   await onProgress(5, `Starting deep research: "${topic}"`);
 
@@ -154,25 +160,37 @@ export async function runDeepResearchExecute(
   let researchError: string | undefined;
   let artefactTitle = '';
   let artefactSummary = '';
+  let citations: CitationReport | undefined;
 
   try {
-    logToolCallStarted(userId, uiRunId, 'DEEP_RESEARCH', { topic, prompt, provider: providerName }, undefined).catch(() => {});
+    logToolCallStarted(userId, uiRunId, 'DEEP_RESEARCH', { topic, prompt, provider: providerName, tier: route.tier }, undefined).catch(() => {});
 
     await onProgress(10, `Running research via ${providerName}...`);
 
     const researchResult = await provider.research(topic, prompt);
+    providerName = researchResult.provider;
     reportMarkdown = researchResult.report_markdown;
     sources = researchResult.sources;
     artefactTitle = researchResult.title;
     artefactSummary = researchResult.summary;
+
+    if (sources.length > 0) {
+      await onProgress(60, `Checking ${sources.length} cited source${sources.length === 1 ? '' : 's'}...`);
+      citations = await validateCitations(sources, reportMarkdown);
+      reportMarkdown = appendCitationFlags(reportMarkdown, citations);
+      result.citationSummary = citations.summary;
+    }
+
     result.reportChars = reportMarkdown.length;
     result.sourcesCount = sources.length;
 
     logToolCallCompleted(userId, uiRunId, 'DEEP_RESEARCH', {
       summary: `Deep research completed for "${topic}"`,
       provider: providerName,
+      tier: route.tier,
       reportChars: reportMarkdown.length,
       sourcesCount: sources.length,
+      ...(citations ? { citations: citations.summary } : {}),
     }, undefined).catch(() => {});
   } catch (err: any) {
     researchError = err.message || 'Deep research execution failed';
@@ -203,6 +221,14 @@ export async function runDeepResearchExecute(
       topic,
       tool: 'DEEP_RESEARCH',
       provider: providerName,
+      tier: route.tier,
+      routing: {
+        requested_provider: route.requestedProvider,
+        reason: route.reason,
+        remaining_usd: route.remainingUsd,
+        candidates: route.candidates,
+      },
+      ...(citations ? { citations: citations.checks, citation_summary: citations.summary } : {}),
       ...(researchError ? { error: researchError } : {}),
     },
     userId,
@@ -251,6 +277,7 @@ export async function runDeepResearchExecute(
   await onProgress(100, postResult.ok ? `Artefact posted (${status})` : `Artefact post failed (${status})`);
 
   result.success = !researchError;
+  result.provider = providerName;
   result.durationMs = Date.now() - startTime;
   if (researchError) result.error = researchError;
 
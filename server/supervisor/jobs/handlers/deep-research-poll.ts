@@ -21,6 +21,7 @@
 
 import { supabase } from '../../../supabase';
 import type { Job } from '../../jobs';
+import { acquireJobLock, releaseJobLock, isJobLockHeld } from '../job-queue';
 
 export interface DeepResearchPollResult {
   success: boolean;
@@ -38,23 +39,19 @@ export interface ProgressCallback {
   (progress: number, message: string): Promise<void>;
 }
 
-// Lock to prevent concurrent runs
-const runningJobs = new Set<string>();
+// Lease-based lock (supervisor_job_locks) so only one process runs deep-research-poll at a time
+const LOCK_NAME = 'deep-research-poll';
 
-export function isDeepResearchPollRunning(): boolean {
-  return runningJobs.has('deep-research-poll');
+export async function isDeepResearchPollRunning(): Promise<boolean> {
+  return isJobLockHeld(LOCK_NAME);
 }
 
-export function acquireDeepResearchPollLock(): boolean {
-  if (runningJobs.has('deep-research-poll')) {
-    return false;
-  }
-  runningJobs.add('deep-research-poll');
-  return true;
+export async function acquireDeepResearchPollLock(): Promise<boolean> {
+  return acquireJobLock(LOCK_NAME);
 }
 
-export function releaseDeepResearchPollLock(): void {
-  runningJobs.delete('deep-research-poll');
+export async function releaseDeepResearchPollLock(): Promise<void> {
+  await releaseJobLock(LOCK_NAME);
 }
 
 /**
@@ -294,7 +291,11 @@ export async function pollAllPendingRuns(): Promise<DeepResearchPollResult> {
     status: 'running',
     payload: {},
     requestedBy: 'scheduler',
-    createdAt: new Date().toISOString()
+    createdAt: new Date().toISOString(),
+    priority: 0,
+    attempts: 1,
+    maxAttempts: 1,
+    runAfter: new Date().toISOString()
   };
 
   // No-op progress callback for scheduler use
@@ -24,6 +24,7 @@ import { storage } from '../../../storage';
 import { planLeadGenerationWithHistory, type LeadGenGoal, type LeadGenContext } from '../../../types/lead-gen-plan';
 import { executeLeadGenerationPlan } from '../../../plan-executor';
 import type { Job } from '../../jobs';
+import { acquireJobLock, releaseJobLock, isJobLockHeld } from '../job-queue';
 
 export interface MonitorExecutorResult {
   success: boolean;
@@ -49,22 +50,19 @@ export interface ProgressCallback {
   (progress: number, message: string): Promise<void>;
 }
 
-const runningJobs = new Set<string>();
+// Lease-based lock (supervisor_job_locks) so only one process runs monitor-executor at a time
+const LOCK_NAME = 'monitor-executor';
 
-export function isMonitorExecutorRunning(): boolean {
-  return runningJobs.has('monitor-executor');
+export async function isMonitorExecutorRunning(): Promise<boolean> {
+  return isJobLockHeld(LOCK_NAME);
 }
 
-export function acquireMonitorExecutorLock(): boolean {
-  if (runningJobs.has('monitor-executor')) {
-    return false;
-  }
-  runningJobs.add('monitor-executor');
-  return true;
+export async function acquireMonitorExecutorLock(): Promise<boolean> {
+  return acquireJobLock(LOCK_NAME);
 }
 
-export function releaseMonitorExecutorLock(): void {
-  runningJobs.delete('monitor-executor');
+export async function releaseMonitorExecutorLock(): Promise<void> {
+  await releaseJobLock(LOCK_NAME);
 }
 
 export async function runMonitorExecutor(
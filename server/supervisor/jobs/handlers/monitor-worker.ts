@@ -22,6 +22,7 @@
 import { supabase } from '../../../supabase';
 import { monitorGoalsOnce, publishGoalMonitorEvents, type GoalMonitorEvent } from '../../../goal-monitoring';
 import type { Job } from '../../jobs';
+import { acquireJobLock, releaseJobLock, isJobLockHeld } from '../job-queue';
 
 export interface MonitorWorkerResult {
   success: boolean;
@@ -41,10 +42,11 @@ export interface ProgressCallback {
   (progress: number, message: string): Promise<void>;
 }
 
-const runningJobs = new Set<string>();
+// Lease-based lock (supervisor_job_locks) so only one process runs monitor-worker at a time
+const LOCK_NAME = 'monitor-worker';
 
-export function isMonitorWorkerRunning(): boolean {
-  return runningJobs.has('monitor-worker');
+export async function isMonitorWorkerRunning(): Promise<boolean> {
+  return isJobLockHeld(LOCK_NAME);
 }
 
 export async function runMonitorWorker(
@@ -164,14 +166,10 @@ export async function runMonitorWorker(
   }
 }
 
-export function acquireMonitorWorkerLock(): boolean {
-  if (runningJobs.has('monitor-worker')) {
-    return false;
-  }
-  runningJobs.add('monitor-worker');
-  return true;
+export async function acquireMonitorWorkerLock(): Promise<boolean> {
+  return acquireJobLock(LOCK_NAME);
 }
 
-export function releaseMonitorWorkerLock(): void {
-  runningJobs.delete('monitor-worker');
+export async function releaseMonitorWorkerLock(): Promise<void> {
+  await releaseJobLock(LOCK_NAME);
 }
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { JobQueue, InMemoryJobStore, computeJobRetryDelayMs } from './job-queue';
+
+function makeQueue(store = new InMemoryJobStore(), workerId = 'worker-a') {
+  return new JobQueue(store, { workerId, retryBaseDelayMs: 0, leaseMs: 60_000 });
+}
+
+function enqueueInput(jobId: string, overrides: Record<string, unknown> = {}) {
+  return { jobId, jobType: 'xero-sync', payload: {}, requestedBy: 'test', ...overrides };
+}
+
+describe('JobQueue enqueue', () => {
+  it('is idempotent on (jobType, clientRequestId)', async () => {
+    const queue = makeQueue();
+    const first = await queue.enqueue(enqueueInput('job_1', { clientRequestId: 'crid_1' }));
+    const second = await queue.enqueue(enqueueInput('job_2', { clientRequestId: 'crid_1' }));
+
+    expect(first.created).toBe(true);
+    expect(second.created).toBe(false);
+    expect(second.job.jobId).toBe('job_1');
+    expect(await queue.get('job_2')).toBeUndefined();
+  });
+
+  it('allows the same clientRequestId for a different job type', async () => {
+    const queue = makeQueue();
+    await queue.enqueue(enqueueInput('job_1', { clientRequestId: 'crid_1' }));
+    const other = await queue.enqueue(enqueueInput('job_2', { jobType: 'monitor-worker', clientRequestId: 'crid_1' }));
+    expect(other.created).toBe(true);
+  });
+});
+
+describe('JobQueue claimNext', () => {
+  it('claims the highest priority due job and leases it', async () => {
+    const queue = makeQueue();
+    await queue.enqueue(enqueueInput('job_low'));
+    await queue.enqueue(enqueueInput('job_high', { priority: 10 }));
+    await queue.enqueue(enqueueInput('job_later', { priority: 100, delayMs: 60_000 }));
+
+    const claimed = await queue.claimNext();
+    expect(claimed?.jobId).toBe('job_high');
+    expect(claimed?.status).toBe('running');
+    expect(claimed?.attempts).toBe(1);
+    expect(claimed?.leaseOwner).toBe('worker-a');
+
+    expect((await queue.claimNext())?.jobId).toBe('job_low');
+    expect(await queue.claimNext()).toBeNull();
+  });
+
+  it('does not hand the same job to two workers', async () => {
+    const store = new InMemoryJobStore();
+    const a = makeQueue(store, 'worker-a');
+    const b = makeQueue(store, 'worker-b');
+    await a.enqueue(enqueueInput('job_1'));
+
+    expect((await a.claimNext())?.jobId).toBe('job_1');
+    expect(await b.claimNext()).toBeNull();
+    expect(await b.heartbeat('job_1')).toBe(false);
+  });
+});
+
+describe('JobQueue retries', () => {
+  it('requeues a failed attempt and fails once attempts are exhausted', async () => {
+    const queue = makeQueue();
+    await queue.enqueue(enqueueInput('job_1', { maxAttempts: 2 }));
+
+    const first = (await queue.claimNext())!;
+    expect(await queue.failAttempt(first, 'boom')).toBe('retrying');
+    const requeued = await queue.get('job_1');
+    expect(requeued?.status).toBe('queued');
+    expect(requeued?.lastError).toBe('boom');
+    expect(requeued?.leaseOwner).toBeUndefined();
+
+    const second = (await queue.claimNext())!;
+    expect(second.attempts).toBe(2);
+    expect(await queue.failAttempt(second, 'boom again')).toBe('failed');
+    const failed = await queue.get('job_1');
+    expect(failed?.status).toBe('failed');
+    expect(failed?.endedAt).toBeDefined();
+  });
+
+  it('backs off exponentially up to the cap', () => {
+    expect(computeJobRetryDelayMs(1, { retryBaseDelayMs: 1000 })).toBe(1000);
+    expect(computeJobRetryDelayMs(3, { retryBaseDelayMs: 1000 })).toBe(4000);
+    expect(computeJobRetryDelayMs(30, { retryBaseDelayMs: 1000, retryMaxDelayMs: 60_000 })).toBe(60_000);
+  });
+});
+
+describe('JobQueue lease recovery', () => {
+  it('requeues running jobs whose lease expired', async () => {
+    const store = new InMemoryJobStore();
+    const crashed = new JobQueue(store, { workerId: 'crashed', leaseMs: -1000 });
+    const survivor = makeQueue(store, 'survivor');
+    await crashed.enqueue(enqueueInput('job_1'));
+    await crashed.claimNext();
+
+    const recovered = await survivor.recoverExpiredLeases();
+    expect(recovered.requeued.map(j => j.jobId)).toEqual(['job_1']);
+    expect((await survivor.claimNext())?.leaseOwner).toBe('survivor');
+  });
+
+  it('fails expired jobs with no attempts left', async () => {
+    const store = new InMemoryJobStore();
+    const crashed = new JobQueue(store, { workerId: 'crashed', leaseMs: -1000 });
+    await crashed.enqueue(enqueueInput('job_1', { maxAttempts: 1 }));
+    await crashed.claimNext();
+
+    const recovered = await makeQueue(store, 'survivor').recoverExpiredLeases();
+    expect(recovered.failed.map(j => j.jobId)).toEqual(['job_1']);
+    expect((await store.get('job_1'))?.status).toBe('failed');
+  });
+});
+
+describe('JobQueue cancel', () => {
+  it('cancels a running job and revokes the lease', async () => {
+    const queue = makeQueue();
+    await queue.enqueue(enqueueInput('job_1'));
+    await queue.claimNext();
+
+    expect(await queue.cancel('job_1')).toBeDefined();
+    expect(await queue.isCancelled('job_1')).toBe(true);
+    expect(await queue.finish('job_1', { status: 'completed', message: 'done' })).toBe(false);
+    expect(await queue.cancel('job_1')).toBeUndefined();
+  });
+});
+
+describe('JobQueue locks', () => {
+  it('lets only one worker hold a lock until it is released or expires', async () => {
+    const store = new InMemoryJobStore();
+    const a = makeQueue(store, 'worker-a');
+    const b = makeQueue(store, 'worker-b');
+
+    expect(await a.acquireLock('monitor-worker')).toBe(true);
+    expect(await b.acquireLock('monitor-worker')).toBe(false);
+    expect(await a.acquireLock('monitor-worker')).toBe(false);
+    expect(await b.renewLock('monitor-worker')).toBe(false);
+    expect(await a.isLocked('monitor-worker')).toBe(true);
+
+    await b.releaseLock('monitor-worker');
+    expect(await a.isLocked('monitor-worker')).toBe(true);
+
+    await a.releaseLock('monitor-worker');
+    expect(await b.acquireLock('monitor-worker')).toBe(true);
+  });
+
+  it('takes over an expired lock', async () => {
+    const store = new InMemoryJobStore();
+    const crashed = new JobQueue(store, { workerId: 'crashed', lockLeaseMs: -1000 });
+    expect(await crashed.acquireLock('monitor-executor')).toBe(true);
+    expect(await makeQueue(store, 'survivor').acquireLock('monitor-executor')).toBe(true);
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * Job Queue - persistent job queue with leasing, retries and lease locks
+ *
+ * The queue works against a JobStore:
+ * - PostgresJobStore (supervisor_jobs / supervisor_job_locks) in the server
+ * - InMemoryJobStore in tests
+ *
+ * Semantics:
+ * - enqueue is idempotent on (jobType, clientRequestId)
+ * - claimNext leases the highest-priority due job to this worker; the lease
+ *   must be renewed (heartbeat) while the handler runs
+ * - a failed attempt is requeued with exponential backoff until maxAttempts
+ * - a running job whose lease expired (worker died mid-run) is requeued by
+ *   recoverExpiredLeases, or failed if it has no attempts left
+ * - named locks (e.g. "monitor-worker") are leases too, so two processes can
+ *   never hold the same lock and a crashed holder's lock expires on its own
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  jobId: string;
+  jobType: string;
+  status: JobStatus;
+  payload: any;
+  requestedBy: string;
+  sourceRunId?: string;
+  userId?: string;
+  clientRequestId?: string;
+  progress?: number;
+  message?: string;
+  startedAt?: string;
+  endedAt?: string;
+  resultSummary?: any;
+  createdAt: string;
+  /** Higher runs first (default 0) */
+  priority: number;
+  /** Attempts started so far */
+  attempts: number;
+  maxAttempts: number;
+  /** ISO time the job becomes eligible to run (retry backoff / delayed start) */
+  runAfter: string;
+  leaseOwner?: string;
+  leaseUntil?: string;
+  lastError?: string;
+}
+
+export interface EnqueueJobInput {
+  jobId: string;
+  jobType: string;
+  payload: any;
+  requestedBy: string;
+  sourceRunId?: string;
+  userId?: string;
+  clientRequestId?: string;
+  priority?: number;
+  maxAttempts?: number;
+  delayMs?: number;
+  /** Insert directly in a terminal state (e.g. redirected deep_research jobs) */
+  status?: JobStatus;
+  progress?: number;
+  message?: string;
+  resultSummary?: any;
+}
+
+export interface ListJobsFilter {
+  status?: JobStatus;
+  jobType?: string;
+  userId?: string;
+  clientRequestId?: string;
+  limit?: number;
+}
+
+/**
+ * Persistence port for the job queue.
+ *
+ * claimNext and acquireLock must be atomic across processes.
+ */
+export interface JobStore {
+  /** Insert a job; returns the existing job instead if (jobType, clientRequestId) is taken */
+  insert(job: Job): Promise<{ job: Job; created: boolean }>;
+  get(jobId: string): Promise<Job | undefined>;
+  list(filter: ListJobsFilter): Promise<Job[]>;
+  /** Partial update; when expectedOwner is set the update only applies while that worker holds the lease */
+  update(jobId: string, updates: Partial<Job>, expectedOwner?: string): Promise<boolean>;
+  claimNext(params: { owner: string; now: string; leaseUntil: string; jobTypes?: string[] }): Promise<Job | null>;
+  /** Running jobs whose lease expired before `now` */
+  listExpiredLeases(now: string): Promise<Job[]>;
+  acquireLock(name: string, owner: string, leaseUntil: string, now: string): Promise<boolean>;
+  renewLock(name: string, owner: string, leaseUntil: string): Promise<boolean>;
+  releaseLock(name: string, owner: string): Promise<void>;
+  isLocked(name: string, now: string): Promise<boolean>;
+}
+
+export interface JobQueueConfig {
+  /** Identifies this process as lease owner (default host:pid:random) */
+  workerId?: string;
+  /** Job lease length; renewed by heartbeat (default 2 min) */
+  leaseMs?: number;
+  /** Lock lease length; renewed with the job heartbeat (default 5 min) */
+  lockLeaseMs?: number;
+  /** Default attempts per job (default 3) */
+  defaultMaxAttempts?: number;
+  /** Base retry delay (default 5s), doubled per attempt */
+  retryBaseDelayMs?: number;
+  /** Retry delay cap (default 10 min) */
+  retryMaxDelayMs?: number;
+}
+
+const DEFAULT_CONFIG: Required<Omit<JobQueueConfig, 'workerId'>> = {
+  leaseMs: 2 * 60 * 1000,
+  lockLeaseMs: 5 * 60 * 1000,
+  defaultMaxAttempts: 3,
+  retryBaseDelayMs: 5000,
+  retryMaxDelayMs: 10 * 60 * 1000,
+};
+
+export function generateWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomUUID().substring(0, 8)}`;
+}
+
+export function computeJobRetryDelayMs(
+  attempts: number,
+  config: Pick<JobQueueConfig, 'retryBaseDelayMs' | 'retryMaxDelayMs'> = {},
+): number {
+  const base = config.retryBaseDelayMs ?? DEFAULT_CONFIG.retryBaseDelayMs;
+  const max = config.retryMaxDelayMs ?? DEFAULT_CONFIG.retryMaxDelayMs;
+  return Math.min(base * Math.pow(2, Math.max(0, attempts - 1)), max);
+}
+
+export class JobQueue {
+  readonly workerId: string;
+  private config: Required<Omit<JobQueueConfig, 'workerId'>>;
+
+  constructor(private store: JobStore, config: JobQueueConfig = {}) {
+    this.workerId = config.workerId || generateWorkerId();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async enqueue(input: EnqueueJobInput): Promise<{ job: Job; created: boolean }> {
+    const now = Date.now();
+    const status = input.status ?? 'queued';
+    const isTerminal = status !== 'queued';
+    const job: Job = {
+      jobId: input.jobId,
+      jobType: input.jobType,
+      status,
+      payload: input.payload,
+      requestedBy: input.requestedBy,
+      sourceRunId: input.sourceRunId,
+      userId: input.userId,
+      clientRequestId: input.clientRequestId,
+      progress: input.progress ?? 0,
+      message: input.message ?? `Job ${input.jobType} queued`,
+      resultSummary: input.resultSummary,
+      createdAt: new Date(now).toISOString(),
+      endedAt: isTerminal ? new Date(now).toISOString() : undefined,
+      priority: input.priority ?? 0,
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? this.config.defaultMaxAttempts,
+      runAfter: new Date(now + (input.delayMs ?? 0)).toISOString(),
+    };
+    return this.store.insert(job);
+  }
+
+  async get(jobId: string): Promise<Job | undefined> {
+    return this.store.get(jobId);
+  }
+
+  async list(filter: ListJobsFilter = {}): Promise<Job[]> {
+    return this.store.list(filter);
+  }
+
+  /**
+   * Lease the next due job to this worker and count the attempt.
+   */
+  async claimNext(jobTypes?: string[]): Promise<Job | null> {
+    const now = Date.now();
+    return this.store.claimNext({
+      owner: this.workerId,
+      now: new Date(now).toISOString(),
+      leaseUntil: new Date(now + this.config.leaseMs).toISOString(),
+      jobTypes,
+    });
+  }
+
+  /**
+   * Extend this worker's lease on a running job.
+   * Returns false if the lease was lost (another worker recovered the job, or it was cancelled).
+   */
+  async heartbeat(jobId: string): Promise<boolean> {
+    return this.store.update(
+      jobId,
+      { leaseUntil: new Date(Date.now() + this.config.leaseMs).toISOString() },
+      this.workerId,
+    );
+  }
+
+  /**
+   * Record progress for a running job.
+   */
+  async progress(jobId: string, progress: number, message: string): Promise<void> {
+    await this.store.update(jobId, { progress, message }, this.workerId);
+  }
+
+  /**
+   * Finish a leased job (completed, or failed without retry).
+   */
+  async finish(
+    jobId: string,
+    outcome: { status: 'completed' | 'failed'; message: string; resultSummary?: any; progress?: number; error?: string },
+  ): Promise<boolean> {
+    return this.store.update(jobId, {
+      status: outcome.status,
+      message: outcome.message,
+      resultSummary: outcome.resultSummary,
+      progress: outcome.progress,
+      lastError: outcome.error,
+      endedAt: new Date().toISOString(),
+      leaseOwner: undefined,
+      leaseUntil: undefined,
+    }, this.workerId);
+  }
+
+  /**
+   * Record a failed attempt: requeue with backoff, or fail when attempts are exhausted.
+   */
+  async failAttempt(job: Job, error: string): Promise<'retrying' | 'failed'> {
+    if (job.attempts >= job.maxAttempts) {
+      await this.finish(job.jobId, {
+        status: 'failed',
+        message: `Failed: ${error}`,
+        resultSummary: { success: false, error, attempts: job.attempts },
+        error,
+      });
+      return 'failed';
+    }
+
+    const delayMs = computeJobRetryDelayMs(job.attempts, this.config);
+    await this.store.update(job.jobId, {
+      status: 'queued',
+      message: `Attempt ${job.attempts}/${job.maxAttempts} failed: ${error} — retrying in ${Math.round(delayMs / 1000)}s`,
+      lastError: error,
+      runAfter: new Date(Date.now() + delayMs).toISOString(),
+      leaseOwner: undefined,
+      leaseUntil: undefined,
+    }, this.workerId);
+    return 'retrying';
+  }
+
+  /**
+   * Cancel a queued or running job. The running handler notices via isCancelled.
+   */
+  async cancel(jobId: string): Promise<Job | undefined> {
+    const job = await this.store.get(jobId);
+    if (!job || job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+      return undefined;
+    }
+    await this.store.update(jobId, {
+      status: 'cancelled',
+      endedAt: new Date().toISOString(),
+      message: 'Job cancelled by user',
+      leaseOwner: undefined,
+      leaseUntil: undefined,
+    });
+    return this.store.get(jobId);
+  }
+
+  async isCancelled(jobId: string): Promise<boolean> {
+    const job = await this.store.get(jobId);
+    return job?.status === 'cancelled';
+  }
+
+  /**
+   * Requeue running jobs whose worker stopped renewing the lease.
+   * Jobs with no attempts left are failed instead.
+   */
+  async recoverExpiredLeases(): Promise<{ requeued: Job[]; failed: Job[] }> {
+    const expired = await this.store.listExpiredLeases(new Date().toISOString());
+    const requeued: Job[] = [];
+    const failed: Job[] = [];
+
+    for (const job of expired) {
+      const error = `Lease expired (worker ${job.leaseOwner || 'unknown'} stopped responding)`;
+      if (job.attempts >= job.maxAttempts) {
+        const applied = await this.store.update(job.jobId, {
+          status: 'failed',
+          message: `Failed: ${error}`,
+          lastError: error,
+          resultSummary: { success: false, error, attempts: job.attempts },
+          endedAt: new Date().toISOString(),
+          leaseOwner: undefined,
+          leaseUntil: undefined,
+        }, job.leaseOwner);
+        if (applied) failed.push({ ...job, status: 'failed', lastError: error });
+      } else {
+        const applied = await this.store.update(job.jobId, {
+          status: 'queued',
+          message: `Recovered after expired lease — requeued (attempt ${job.attempts}/${job.maxAttempts})`,
+          lastError: error,
+          runAfter: new Date().toISOString(),
+          leaseOwner: undefined,
+          leaseUntil: undefined,
+        }, job.leaseOwner);
+        if (applied) requeued.push({ ...job, status: 'queued', lastError: error });
+      }
+    }
+
+    return { requeued, failed };
+  }
+
+  async acquireLock(name: string): Promise<boolean> {
+    const now = Date.now();
+    return this.store.acquireLock(
+      name,
+      this.workerId,
+      new Date(now + this.config.lockLeaseMs).toISOString(),
+      new Date(now).toISOString(),
+    );
+  }
+
+  async renewLock(name: string): Promise<boolean> {
+    return this.store.renewLock(name, this.workerId, new Date(Date.now() + this.config.lockLeaseMs).toISOString());
+  }
+
+  async releaseLock(name: string): Promise<void> {
+    await this.store.releaseLock(name, this.workerId);
+  }
+
+  async isLocked(name: string): Promise<boolean> {
+    return this.store.isLocked(name, new Date().toISOString());
+  }
+
+  get leaseMs(): number {
+    return this.config.leaseMs;
+  }
+}
+
+// ========================================
+// IN-MEMORY STORE (tests / single process)
+// ========================================
+
+export class InMemoryJobStore implements JobStore {
+  private jobs: Map<string, Job> = new Map();
+  private locks: Map<string, { owner: string; leaseUntil: string }> = new Map();
+
+  async insert(job: Job): Promise<{ job: Job; created: boolean }> {
+    if (job.clientRequestId) {
+      const existing = Array.from(this.jobs.values())
+        .find(j => j.jobType === job.jobType && j.clientRequestId === job.clientRequestId);
+      if (existing) return { job: { ...existing }, created: false };
+    }
+    this.jobs.set(job.jobId, { ...job });
+    return { job: { ...job }, created: true };
+  }
+
+  async get(jobId: string): Promise<Job | undefined> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  async list(filter: ListJobsFilter): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(j => !filter.status || j.status === filter.status)
+      .filter(j => !filter.jobType || j.jobType === filter.jobType)
+      .filter(j => !filter.userId || j.userId === filter.userId)
+      .filter(j => !filter.clientRequestId || j.clientRequestId === filter.clientRequestId)
+      .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+      .slice(0, filter.limit ?? 100)
+      .map(j => ({ ...j }));
+  }
+
+  async update(jobId: string, updates: Partial<Job>, expectedOwner?: string): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job) return false;
+    if (expectedOwner !== undefined && job.leaseOwner !== expectedOwner) return false;
+    Object.assign(job, updates);
+    return true;
+  }
+
+  async claimNext(params: { owner: string; now: string; leaseUntil: string; jobTypes?: string[] }): Promise<Job | null> {
+    const nowMs = Date.parse(params.now);
+    const next = Array.from(this.jobs.values())
+      .filter(j => j.status === 'queued' && Date.parse(j.runAfter) <= nowMs)
+      .filter(j => !params.jobTypes || params.jobTypes.includes(j.jobType))
+      .sort((a, b) => (b.priority - a.priority) || (Date.parse(a.runAfter) - Date.parse(b.runAfter)))[0];
+    if (!next) return null;
+
+    next.status = 'running';
+    next.attempts += 1;
+    next.leaseOwner = params.owner;
+    next.leaseUntil = params.leaseUntil;
+    next.startedAt = next.startedAt || params.now;
+    return { ...next };
+  }
+
+  async listExpiredLeases(now: string): Promise<Job[]> {
+    const nowMs = Date.parse(now);
+    return Array.from(this.jobs.values())
+      .filter(j => j.status === 'running' && !!j.leaseUntil && Date.parse(j.leaseUntil) < nowMs)
+      .map(j => ({ ...j }));
+  }
+
+  async acquireLock(name: string, owner: string, leaseUntil: string, now: string): Promise<boolean> {
+    const existing = this.locks.get(name);
+    if (existing && Date.parse(existing.leaseUntil) > Date.parse(now)) {
+      return false;
+    }
+    this.locks.set(name, { owner, leaseUntil });
+    return true;
+  }
+
+  async renewLock(name: string, owner: string, leaseUntil: string): Promise<boolean> {
+    const existing = this.locks.get(name);
+    if (!existing || existing.owner !== owner) return false;
+    existing.leaseUntil = leaseUntil;
+    return true;
+  }
+
+  async releaseLock(name: string, owner: string): Promise<void> {
+    if (this.locks.get(name)?.owner === owner) {
+      this.locks.delete(name);
+    }
+  }
+
+  async isLocked(name: string, now: string): Promise<boolean> {
+    const existing = this.locks.get(name);
+    return !!existing && Date.parse(existing.leaseUntil) > Date.parse(now);
+  }
+}
+
+// ========================================
+// SHARED QUEUE INSTANCE
+// ========================================
+
+let sharedQueue: JobQueue | null = null;
+
+/**
+ * Get the process-wide job queue (Postgres-backed unless overridden).
+ */
+export async function getJobQueue(): Promise<JobQueue> {
+  if (!sharedQueue) {
+    const { PostgresJobStore } = await import('./postgres-job-store');
+    sharedQueue = new JobQueue(new PostgresJobStore(), {
+      defaultMaxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '3', 10),
+    });
+  }
+  return sharedQueue;
+}
+
+/**
+ * Override the shared queue (tests).
+ */
+export function setJobQueue(queue: JobQueue | null): void {
+  sharedQueue = queue;
+}
+
+/**
+ * Lease-based named lock used by the per-handler acquire…Lock functions.
+ */
+export async function acquireJobLock(name: string): Promise<boolean> {
+  return (await getJobQueue()).acquireLock(name);
+}
+
+export async function renewJobLock(name: string): Promise<boolean> {
+  return (await getJobQueue()).renewLock(name);
+}
+
+export async function releaseJobLock(name: string): Promise<void> {
+  await (await getJobQueue()).releaseLock(name);
+}
+
+export async function isJobLockHeld(name: string): Promise<boolean> {
+  return (await getJobQueue()).isLocked(name);
+}
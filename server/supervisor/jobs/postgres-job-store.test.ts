@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+const { set } = vi.hoisted(() => ({ set: vi.fn() }));
+vi.mock('../../db', () => ({
+  db: {
+    update: () => ({
+      set: (values: Record<string, unknown>) => {
+        set(values);
+        return { where: () => ({ returning: async () => [{ jobId: 'job_1' }] }) };
+      },
+    }),
+  },
+}));
+
+import { JobQueue } from './job-queue';
+import { PostgresJobStore } from './postgres-job-store';
+
+afterEach(() => {
+  set.mockReset();
+});
+
+describe('PostgresJobStore update', () => {
+  it('finishes a job without nulling NOT NULL columns', async () => {
+    const queue = new JobQueue(new PostgresJobStore(), { workerId: 'worker-a' });
+
+    expect(await queue.finish('job_1', { status: 'completed', message: 'Done', resultSummary: { ok: true } })).toBe(true);
+    const values = set.mock.calls[0][0];
+    expect(values).not.toHaveProperty('progress');
+    expect(values).toMatchObject({ status: 'completed', message: 'Done', resultSummary: { ok: true }, leaseOwner: null, leaseUntil: null, lastError: null });
+    expect(values.endedAt).toBeInstanceOf(Date);
+
+    await queue.finish('job_1', { status: 'failed', message: 'Failed: boom', progress: 40, error: 'boom' });
+    expect(set.mock.calls[1][0]).toMatchObject({ status: 'failed', progress: 40, lastError: 'boom' });
+  });
+});
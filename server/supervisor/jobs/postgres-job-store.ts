@@ -0,0 +1,267 @@
+/**
+ * Postgres Job Store
+ *
+ * JobStore for JobQueue backed by the supervisor_jobs and supervisor_job_locks
+ * tables (migrations/009_supervisor_jobs.sql).
+ *
+ * Loaded lazily by getJobQueue(): importing it opens the database connection.
+ */
+
+import { and, desc, eq, lt, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { supervisorJobs, supervisorJobLocks, type SupervisorJobRow } from '../../schema';
+import type { Job, JobStatus, JobStore, ListJobsFilter } from './job-queue';
+
+function toIso(value: Date | string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return value instanceof Date ? value.toISOString() : new Date(value).toISOString();
+}
+
+function toDate(value: string | undefined): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function rowToJob(row: SupervisorJobRow): Job {
+  return {
+    jobId: row.jobId,
+    jobType: row.jobType,
+    status: row.status as JobStatus,
+    payload: row.payload,
+    requestedBy: row.requestedBy,
+    sourceRunId: row.sourceRunId ?? undefined,
+    userId: row.userId ?? undefined,
+    clientRequestId: row.clientRequestId ?? undefined,
+    progress: row.progress,
+    message: row.message ?? undefined,
+    startedAt: toIso(row.startedAt),
+    endedAt: toIso(row.endedAt),
+    resultSummary: row.resultSummary ?? undefined,
+    createdAt: toIso(row.createdAt)!,
+    priority: row.priority,
+    attempts: row.attempts,
+    maxAttempts: row.maxAttempts,
+    runAfter: toIso(row.runAfter)!,
+    leaseOwner: row.leaseOwner ?? undefined,
+    leaseUntil: toIso(row.leaseUntil),
+    lastError: row.lastError ?? undefined,
+  };
+}
+
+/**
+ * Map a raw snake_case row returned by db.execute().
+ */
+function rawToJob(row: Record<string, any>): Job {
+  return rowToJob({
+    jobId: row.job_id,
+    jobType: row.job_type,
+    status: row.status,
+    payload: row.payload,
+    requestedBy: row.requested_by,
+    sourceRunId: row.source_run_id,
+    userId: row.user_id,
+    clientRequestId: row.client_request_id,
+    priority: Number(row.priority),
+    attempts: Number(row.attempts),
+    maxAttempts: Number(row.max_attempts),
+    runAfter: row.run_after,
+    leaseOwner: row.lease_owner,
+    leaseUntil: row.lease_until,
+    progress: Number(row.progress),
+    message: row.message,
+    resultSummary: row.result_summary,
+    lastError: row.last_error,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    createdAt: row.created_at,
+  });
+}
+
+const TIMESTAMP_FIELDS = new Set(['startedAt', 'endedAt', 'createdAt', 'runAfter', 'leaseUntil']);
+
+/** NOT NULL columns: an undefined value leaves them as they are */
+const REQUIRED_FIELDS = new Set(['jobType', 'status', 'requestedBy', 'priority', 'attempts', 'maxAttempts', 'runAfter', 'progress', 'createdAt']);
+
+/**
+ * Translate a Partial<Job> into column updates. Keys present with an
+ * undefined value are cleared (e.g. leaseOwner when a lease is released),
+ * except on NOT NULL columns, which are left untouched.
+ */
+function toColumnUpdates(updates: Partial<Job>): Record<string, unknown> {
+  const set: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (key === 'jobId') continue;
+    if (value === undefined && REQUIRED_FIELDS.has(key)) continue;
+    if (TIMESTAMP_FIELDS.has(key)) {
+      set[key] = toDate(value as string | undefined);
+    } else if (key === 'lastError' && typeof value === 'string') {
+      set[key] = value.slice(0, 2000);
+    } else {
+      set[key] = value ?? null;
+    }
+  }
+  return set;
+}
+
+/**
+ * Postgres implementation of JobStore.
+ */
+export class PostgresJobStore implements JobStore {
+  async insert(job: Job): Promise<{ job: Job; created: boolean }> {
+    const inserted = await db
+      .insert(supervisorJobs)
+      .values({
+        jobId: job.jobId,
+        jobType: job.jobType,
+        status: job.status,
+        payload: job.payload ?? null,
+        requestedBy: job.requestedBy,
+        sourceRunId: job.sourceRunId ?? null,
+        userId: job.userId ?? null,
+        clientRequestId: job.clientRequestId ?? null,
+        priority: job.priority,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        runAfter: new Date(job.runAfter),
+        progress: job.progress ?? 0,
+        message: job.message ?? null,
+        resultSummary: job.resultSummary ?? null,
+        endedAt: toDate(job.endedAt),
+        createdAt: new Date(job.createdAt),
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (inserted.length > 0) {
+      return { job: rowToJob(inserted[0]), created: true };
+    }
+
+    // Conflict on (job_type, client_request_id): return the original job
+    if (job.clientRequestId) {
+      const [existing] = await db
+        .select()
+        .from(supervisorJobs)
+        .where(and(
+          eq(supervisorJobs.jobType, job.jobType),
+          eq(supervisorJobs.clientRequestId, job.clientRequestId),
+        ))
+        .limit(1);
+      if (existing) return { job: rowToJob(existing), created: false };
+    }
+
+    throw new Error(`Failed to insert job ${job.jobId}`);
+  }
+
+  async get(jobId: string): Promise<Job | undefined> {
+    const [row] = await db.select().from(supervisorJobs).where(eq(supervisorJobs.jobId, jobId)).limit(1);
+    return row ? rowToJob(row) : undefined;
+  }
+
+  async list(filter: ListJobsFilter): Promise<Job[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(supervisorJobs.status, filter.status));
+    if (filter.jobType) conditions.push(eq(supervisorJobs.jobType, filter.jobType));
+    if (filter.userId) conditions.push(eq(supervisorJobs.userId, filter.userId));
+    if (filter.clientRequestId) conditions.push(eq(supervisorJobs.clientRequestId, filter.clientRequestId));
+
+    const rows = await db
+      .select()
+      .from(supervisorJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(supervisorJobs.createdAt))
+      .limit(filter.limit ?? 100);
+    return rows.map(rowToJob);
+  }
+
+  async update(jobId: string, updates: Partial<Job>, expectedOwner?: string): Promise<boolean> {
+    const updated = await db
+      .update(supervisorJobs)
+      .set(toColumnUpdates(updates))
+      .where(expectedOwner !== undefined
+        ? and(eq(supervisorJobs.jobId, jobId), eq(supervisorJobs.leaseOwner, expectedOwner))
+        : eq(supervisorJobs.jobId, jobId))
+      .returning({ jobId: supervisorJobs.jobId });
+    return updated.length > 0;
+  }
+
+  async claimNext(params: { owner: string; now: string; leaseUntil: string; jobTypes?: string[] }): Promise<Job | null> {
+    const { owner, now, leaseUntil, jobTypes } = params;
+    const typeFilter = jobTypes && jobTypes.length > 0
+      ? sql`AND job_type IN (${sql.join(jobTypes.map(t => sql`${t}`), sql`, `)})`
+      : sql``;
+
+    // SKIP LOCKED keeps concurrent workers from claiming the same job.
+    const claimed = await db.execute(sql`
+      UPDATE supervisor_jobs
+      SET status = 'running',
+          attempts = attempts + 1,
+          lease_owner = ${owner},
+          lease_until = ${leaseUntil}::timestamptz,
+          started_at = COALESCE(started_at, ${now}::timestamptz)
+      WHERE job_id = (
+        SELECT job_id FROM supervisor_jobs
+        WHERE status = 'queued'
+          AND run_after <= ${now}::timestamptz
+          ${typeFilter}
+        ORDER BY priority DESC, run_after
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `);
+
+    const row = (claimed.rows as Array<Record<string, any>>)[0];
+    return row ? rawToJob(row) : null;
+  }
+
+  async listExpiredLeases(now: string): Promise<Job[]> {
+    const rows = await db
+      .select()
+      .from(supervisorJobs)
+      .where(and(
+        eq(supervisorJobs.status, 'running'),
+        lt(supervisorJobs.leaseUntil, new Date(now)),
+      ))
+      .limit(100);
+    return rows.map(rowToJob);
+  }
+
+  async acquireLock(name: string, owner: string, leaseUntil: string, now: string): Promise<boolean> {
+    // Take the lock only if free or expired. Not re-entrant: a second caller in
+    // the same process (e.g. scheduler + job) must be refused too.
+    const acquired = await db.execute(sql`
+      INSERT INTO supervisor_job_locks (name, owner, lease_until)
+      VALUES (${name}, ${owner}, ${leaseUntil}::timestamptz)
+      ON CONFLICT (name) DO UPDATE
+        SET owner = EXCLUDED.owner,
+            lease_until = EXCLUDED.lease_until,
+            acquired_at = now()
+        WHERE supervisor_job_locks.lease_until <= ${now}::timestamptz
+      RETURNING name
+    `);
+    return acquired.rows.length > 0;
+  }
+
+  async renewLock(name: string, owner: string, leaseUntil: string): Promise<boolean> {
+    const renewed = await db
+      .update(supervisorJobLocks)
+      .set({ leaseUntil: new Date(leaseUntil) })
+      .where(and(eq(supervisorJobLocks.name, name), eq(supervisorJobLocks.owner, owner)))
+      .returning({ name: supervisorJobLocks.name });
+    return renewed.length > 0;
+  }
+
+  async releaseLock(name: string, owner: string): Promise<void> {
+    await db
+      .delete(supervisorJobLocks)
+      .where(and(eq(supervisorJobLocks.name, name), eq(supervisorJobLocks.owner, owner)));
+  }
+
+  async isLocked(name: string, now: string): Promise<boolean> {
+    const [row] = await db
+      .select({ leaseUntil: supervisorJobLocks.leaseUntil })
+      .from(supervisorJobLocks)
+      .where(eq(supervisorJobLocks.name, name))
+      .limit(1);
+    return !!row && row.leaseUntil.getTime() > Date.parse(now);
+  }
+}
@@ -1,16 +1,21 @@
 import { storage } from '../storage';
 import { createArtefact } from './artefacts';
 import { computeQueryShapeKey, deriveQueryShapeFromGoal, type QueryShapeInput } from './query-shape-key';
+import { GLOBAL_DEFAULT_BUNDLE, type RadiusPolicyV1 } from './learning-layer';
 
 export type VerificationLevel = 'minimal' | 'standard' | 'strict';
 export type RadiusEscalation = 'off' | 'allowed' | 'aggressive';
 
+/** The RadiusPolicyV1 numbers the radius-expansion executor runs on, learned per query shape */
+export type RadiusPolicyKnob = Pick<RadiusPolicyV1, 'default_steps_km' | 'max_cap_km' | 'min_new_eligible_to_continue'>;
+
 export interface LearningKnobs {
   default_result_count: number;
   verification_level: VerificationLevel;
   search_budget_pages: number;
   radius_escalation: RadiusEscalation;
   stop_if_underfilled: boolean;
+  radius_policy: RadiusPolicyKnob;
 }
 
 export interface FieldMetadataEntry {
@@ -26,11 +31,17 @@ export const BASELINE_DEFAULTS: LearningKnobs = {
   search_budget_pages: 3,
   radius_escalation: 'allowed',
   stop_if_underfilled: false,
+  radius_policy: {
+    default_steps_km: [...GLOBAL_DEFAULT_BUNDLE.policies.radius_policy_v1.default_steps_km],
+    max_cap_km: GLOBAL_DEFAULT_BUNDLE.policies.radius_policy_v1.max_cap_km,
+    min_new_eligible_to_continue: GLOBAL_DEFAULT_BUNDLE.policies.radius_policy_v1.min_new_eligible_to_continue,
+  },
 };
 
 const ACTIVE_KNOBS: Set<keyof LearningKnobs> = new Set([
   'default_result_count',
   'search_budget_pages',
+  'radius_policy',
 ]);
 
 export interface FinalPolicy {
@@ -77,6 +88,7 @@ export async function readLearningStore(queryShapeKey: string): Promise<{
       search_budget_pages: row.searchBudgetPages,
       radius_escalation: row.radiusEscalation as RadiusEscalation,
       stop_if_underfilled: row.stopIfUnderfilled === 1,
+      radius_policy: (row.radiusPolicy as RadiusPolicyKnob | null) ?? BASELINE_DEFAULTS.radius_policy,
     },
     fieldMetadata: (row.fieldMetadata as FieldMetadata) || {},
     exists: true,
@@ -96,6 +108,7 @@ export function mergePolicyKnobs(
     search_budget_pages: 'default',
     radius_escalation: 'default',
     stop_if_underfilled: 'default',
+    radius_policy: 'default',
   };
 
   if (learned) {
@@ -105,6 +118,7 @@ export function mergePolicyKnobs(
       'search_budget_pages',
       'radius_escalation',
       'stop_if_underfilled',
+      'radius_policy',
     ];
     for (const key of knobKeys) {
       if (learnedFieldMetadata[key]) {
@@ -220,6 +234,7 @@ export async function handleLearningUpdate(payload: LearningUpdatePayload): Prom
     if (updates.search_budget_pages !== undefined) updateFields.searchBudgetPages = updates.search_budget_pages;
     if (updates.radius_escalation !== undefined) updateFields.radiusEscalation = updates.radius_escalation;
     if (updates.stop_if_underfilled !== undefined) updateFields.stopIfUnderfilled = updates.stop_if_underfilled ? 1 : 0;
+    if (updates.radius_policy !== undefined) updateFields.radiusPolicy = updates.radius_policy;
     updateFields.fieldMetadata = newMeta;
 
     await storage.updateLearningStoreEntry(query_shape_key, updateFields);
@@ -231,6 +246,7 @@ export async function handleLearningUpdate(payload: LearningUpdatePayload): Prom
     if (updates.search_budget_pages !== undefined) baseline.search_budget_pages = updates.search_budget_pages;
     if (updates.radius_escalation !== undefined) baseline.radius_escalation = updates.radius_escalation;
     if (updates.stop_if_underfilled !== undefined) baseline.stop_if_underfilled = updates.stop_if_underfilled;
+    if (updates.radius_policy !== undefined) baseline.radius_policy = updates.radius_policy;
 
     await storage.createLearningStoreEntry({
       queryShapeKey: query_shape_key,
@@ -239,6 +255,7 @@ export async function handleLearningUpdate(payload: LearningUpdatePayload): Prom
       searchBudgetPages: baseline.search_budget_pages,
       radiusEscalation: baseline.radius_escalation,
       stopIfUnderfilled: baseline.stop_if_underfilled ? 1 : 0,
+      radiusPolicy: baseline.radius_policy,
       fieldMetadata: newMeta,
     });
     console.log(`[LEARNING_STORE] Created new entry for shape_key=${query_shape_key} fields=[${Object.keys(updates).join(',')}]`);
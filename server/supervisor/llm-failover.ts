@@ -1,11 +1,35 @@
 /**
  * LLM Failover Utility
  * 
- * Provider order: Groq (if key set) → Anthropic → OpenAI
- * If the preferred provider fails, falls over to the next available one.
+ * Provider order: Groq (if key set) → Anthropic → OpenAI, re-ranked by the
+ * health scoreboard (llm-health.ts) so providers cooling down after failures
+ * or 429s are skipped. If a provider fails, falls over to the next available
+ * one; with hedgeAfterMs set, a slow provider is raced against the next one.
+ * Calls go through the active cassette (cassette.ts), keyed on the prompt and
+ * sampling settings rather than the provider, so replays need no API keys.
+ * Each live call is recorded in the cost ledger (cost-ledger/) under its label
+ * and refused with BudgetExceededError once a user/account budget is spent.
  */
 
-type Provider = 'anthropic' | 'openai' | 'groq';
+import { cassetteApiKey, getActiveCassette, withCassette } from './cassette';
+import { readTokenUsage, recordLLMUsage, type TokenUsage } from './cost-ledger';
+import { assertWithinBudget } from './budgets';
+import { rankByHealth, recordHealthTelemetry, recordLLMOutcome, isLLMCoolingDown } from './llm-health';
+
+export type LLMProvider = 'anthropic' | 'openai' | 'groq';
+type Provider = LLMProvider;
+
+const PROVIDER_ORDER: Provider[] = ['groq', 'anthropic', 'openai'];
+
+/**
+ * Providers with an API key configured (all of them while a cassette
+ * replays), in default chain order.
+ */
+export function getConfiguredProviders(): LLMProvider[] {
+  return PROVIDER_ORDER.filter(p =>
+    !!cassetteApiKey(p === 'groq' ? process.env.GROQ_API_KEY : p === 'anthropic' ? process.env.ANTHROPIC_API_KEY : process.env.OPENAI_API_KEY)
+  );
+}
 
 export interface CallLLMOptions {
   system: string;
@@ -20,6 +44,17 @@ export interface CallLLMOptions {
   preferredProvider?: Provider;
   /** Custom provider chain in order of preference. Overrides default Groq→Anthropic→OpenAI. */
   providerChain?: Provider[];
+  /**
+   * Send a duplicate request to the next provider in the chain when the
+   * current one has not answered after this many ms; the first answer wins.
+   * Defaults to LLM_HEDGE_AFTER_MS (unset = no hedging).
+   */
+  hedgeAfterMs?: number;
+  /**
+   * Added to the cassette key for calls that repeat a prompt on purpose, such
+   * as callLLMJson's schema failover, so each attempt has its own recording.
+   */
+  cassetteAttempt?: string;
 }
 
 export interface CallLLMResult {
@@ -28,6 +63,18 @@ export interface CallLLMResult {
   failedOver: boolean;
   primaryError: string | null;
   durationMs: number;
+  /** True when the answer came from a hedged duplicate request */
+  hedged?: boolean;
+  /** Absent on results recorded before token accounting */
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+interface ProviderResponse {
+  text: string;
+  /** Raw provider usage object */
+  usage: unknown;
 }
 
 const DEFAULT_ANTHROPIC_MODEL = 'claude-haiku-4-5-20251001';
@@ -43,7 +90,7 @@ async function callAnthropic(
   maxTokens: number,
   temperature: number,
   signal: AbortSignal,
-): Promise<string> {
+): Promise<ProviderResponse> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
   if (!apiKey) throw new Error('ANTHROPIC_API_KEY not set');
 
@@ -71,9 +118,10 @@ async function callAnthropic(
 
   const data = (await resp.json()) as {
     content: Array<{ type: string; text?: string }>;
+    usage?: unknown;
   };
   const textBlock = data.content?.find((b) => b.type === 'text');
-  return textBlock?.text || '';
+  return { text: textBlock?.text || '', usage: data.usage };
 }
 
 async function callOpenAI(
@@ -83,7 +131,7 @@ async function callOpenAI(
   maxTokens: number,
   temperature: number,
   timeoutMs: number,
-): Promise<string> {
+): Promise<ProviderResponse> {
   const apiKey = process.env.OPENAI_API_KEY;
   if (!apiKey) throw new Error('OPENAI_API_KEY not set');
 
@@ -98,7 +146,7 @@ async function callOpenAI(
       { role: 'user', content: user },
     ],
   });
-  return response.choices[0]?.message?.content || '';
+  return { text: response.choices[0]?.message?.content || '', usage: response.usage };
 }
 
 async function callGroq(
@@ -108,7 +156,7 @@ async function callGroq(
   maxTokens: number,
   temperature: number,
   timeoutMs: number,
-): Promise<string> {
+): Promise<ProviderResponse> {
   const apiKey = process.env.GROQ_API_KEY;
   if (!apiKey) throw new Error('GROQ_API_KEY not set');
 
@@ -127,10 +175,22 @@ async function callGroq(
       { role: 'user', content: user },
     ],
   });
-  return response.choices[0]?.message?.content || '';
+  return { text: response.choices[0]?.message?.content || '', usage: response.usage };
 }
 
 export async function callLLM(options: CallLLMOptions): Promise<CallLLMResult> {
+  const request = {
+    label: options.label,
+    system: options.system,
+    user: options.user,
+    maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+    temperature: options.temperature ?? 0,
+    attempt: options.cassetteAttempt,
+  };
+  return withCassette('llm', request, () => callLLMLive(options));
+}
+
+async function callLLMLive(options: CallLLMOptions): Promise<CallLLMResult> {
   const {
     system,
     user,
@@ -151,6 +211,8 @@ export async function callLLM(options: CallLLMOptions): Promise<CallLLMResult> {
     throw new Error(`[LLM:${label}] No LLM API key configured (need GROQ_API_KEY, ANTHROPIC_API_KEY, or OPENAI_API_KEY)`);
   }
 
+  await assertWithinBudget(label);
+
   // Build the provider chain
   let chain: Provider[];
   if (options.providerChain && options.providerChain.length > 0) {
@@ -173,44 +235,106 @@ export async function callLLM(options: CallLLMOptions): Promise<CallLLMResult> {
     } else {
       preferred = 'openai';
     }
-    const allProviders: Provider[] = ['groq', 'anthropic', 'openai'];
-    const available = allProviders.filter(p =>
-      p === 'groq' ? hasGroq : p === 'anthropic' ? hasAnthropic : hasOpenAI
-    );
+    const available = getConfiguredProviders();
     chain = [preferred, ...available.filter(p => p !== preferred)];
   }
 
+  const modelFor = (provider: Provider) => provider === 'groq' ? groqModel : provider === 'anthropic' ? anthropicModel : openaiModel;
+  const ranked = rankByHealth(chain, modelFor);
+  if (ranked.join() !== chain.join()) {
+    console.log(`[LLM:${label}] Health-ranked chain: ${ranked.join(' → ')} (was ${chain.join(' → ')})`);
+  }
+  chain = ranked;
+
+  const hedgeAfterMs = options.hedgeAfterMs ?? (parseInt(process.env.LLM_HEDGE_AFTER_MS || '', 10) || 0);
   const startTime = Date.now();
   let lastError = '';
 
-  for (let i = 0; i < chain.length; i++) {
-    const provider = chain[i];
-    const isFirst = i === 0;
-
+  const attempt = async (provider: Provider): Promise<ProviderResponse> => {
+    const model = modelFor(provider);
+    const attemptStart = Date.now();
     try {
-      const text = await callProvider(provider, system, user, anthropicModel, openaiModel, groqModel, maxTokens, temperature, timeoutMs, label);
-      console.log(`[LLM:${label}] ${provider} succeeded in ${Date.now() - startTime}ms (model=${provider === 'groq' ? groqModel : provider === 'anthropic' ? anthropicModel : openaiModel})`);
-      if (!isFirst) {
-        console.log(`[LLM:${label}] Failover to ${provider} succeeded (total ${Date.now() - startTime}ms)`);
-      }
-      return {
-        text,
-        provider,
-        failedOver: !isFirst,
-        primaryError: isFirst ? null : lastError,
-        durationMs: Date.now() - startTime,
-      };
+      const response = await callProvider(provider, system, user, anthropicModel, openaiModel, groqModel, maxTokens, temperature, timeoutMs, label);
+      recordLLMOutcome({ provider, model, ok: true, latencyMs: Date.now() - attemptStart });
+      // Recorded for hedged duplicates too: they are billed whether or not they win
+      recordLLMUsage({ label, provider, model, usage: response.usage, promptText: system + user, completionText: response.text });
+      return response;
     } catch (err: any) {
-      lastError = err.name === 'AbortError'
+      const message = err.name === 'AbortError'
         ? `timeout after ${timeoutMs}ms`
         : err.message || String(err);
-
-      const nextProvider = chain[i + 1];
-      console.warn(`[LLM:${label}] ${provider} failed: ${lastError}${nextProvider ? ` — trying ${nextProvider}` : ' — no more providers'}`);
+      recordLLMOutcome({ provider, model, ok: false, latencyMs: Date.now() - attemptStart, error: message });
+      throw new Error(message);
     }
-  }
+  };
+
+  return new Promise<CallLLMResult>((resolve, reject) => {
+    let next = 0;
+    let inFlight = 0;
+    let settled = false;
+    let hedgeTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearHedge = () => {
+      if (hedgeTimer) clearTimeout(hedgeTimer);
+      hedgeTimer = null;
+    };
+
+    const launch = (hedge: boolean): boolean => {
+      if (next >= chain.length) return false;
+      const index = next++;
+      const provider = chain[index];
+      inFlight++;
+
+      clearHedge();
+      if (hedgeAfterMs > 0 && next < chain.length) {
+        hedgeTimer = setTimeout(() => {
+          if (settled) return;
+          console.log(`[LLM:${label}] ${provider} has not answered after ${hedgeAfterMs}ms — hedging with ${chain[next]}`);
+          recordHealthTelemetry('llm_hedge', { label, slow_provider: provider, slow_model: modelFor(provider), hedge_provider: chain[next], hedge_after_ms: hedgeAfterMs });
+          launch(true);
+        }, hedgeAfterMs);
+      }
+
+      attempt(provider).then(({ text, usage }) => {
+        inFlight--;
+        if (settled) return;
+        settled = true;
+        clearHedge();
+        const model = modelFor(provider);
+        const tokens: TokenUsage | null = readTokenUsage(usage);
+        const failedOver = index > 0;
+        console.log(`[LLM:${label}] ${provider} succeeded in ${Date.now() - startTime}ms (model=${model})`);
+        if (failedOver) {
+          console.log(`[LLM:${label}] ${hedge ? 'Hedge' : 'Failover'} to ${provider} succeeded (total ${Date.now() - startTime}ms)`);
+        }
+        resolve({
+          text,
+          provider,
+          failedOver,
+          primaryError: failedOver ? lastError || null : null,
+          durationMs: Date.now() - startTime,
+          hedged: hedge,
+          model,
+          inputTokens: tokens?.inputTokens,
+          outputTokens: tokens?.outputTokens,
+        });
+      }, (err: Error) => {
+        inFlight--;
+        lastError = err.message;
+        if (settled) return;
+        const nextProvider = chain[next];
+        console.warn(`[LLM:${label}] ${provider} failed: ${lastError}${nextProvider ? ` — trying ${nextProvider}` : inFlight > 0 ? ' — waiting on hedged request' : ' — no more providers'}`);
+        if (!launch(false) && inFlight === 0) {
+          settled = true;
+          clearHedge();
+          reject(new Error(`[LLM:${label}] All providers failed. Last error: ${lastError}`));
+        }
+      });
+      return true;
+    };
 
-  throw new Error(`[LLM:${label}] All providers failed. Last error: ${lastError}`);
+    launch(false);
+  });
 }
 
 async function callProvider(
@@ -224,7 +348,7 @@ async function callProvider(
   temperature: number,
   timeoutMs: number,
   label: string,
-): Promise<string> {
+): Promise<ProviderResponse> {
   if (provider === 'groq') {
     return await callGroq(system, user, groqModel, maxTokens, temperature, timeoutMs);
   } else if (provider === 'anthropic') {
@@ -266,7 +390,17 @@ export async function callLLMStream(
   const temperature = overrides?.temperature ?? 0.7;
   const timeoutMs = overrides?.timeoutMs || 30000;
 
-  if (process.env.GROQ_API_KEY) {
+  // Streams aren't recorded: with a cassette loaded, replay the full text as one chunk
+  if (getActiveCassette()) {
+    const text = await callLLMText(system, user, label, overrides);
+    onChunk(text, text);
+    return text;
+  }
+
+  await assertWithinBudget(label);
+
+  if (process.env.GROQ_API_KEY && !isLLMCoolingDown('groq', groqModel)) {
+    const streamStart = Date.now();
     try {
       const { default: OpenAI } = await import('openai');
       const client = new OpenAI({
@@ -280,6 +414,7 @@ export async function callLLMStream(
         temperature,
         max_tokens: maxTokens,
         stream: true,
+        stream_options: { include_usage: true },
         messages: [
           { role: 'system', content: system },
           { role: 'user', content: user },
@@ -287,7 +422,9 @@ export async function callLLMStream(
       });
 
       let accumulated = '';
+      let usage: unknown;
       for await (const chunk of stream) {
+        usage = chunk.usage ?? (chunk as { x_groq?: { usage?: unknown } }).x_groq?.usage ?? usage;
         const delta = chunk.choices[0]?.delta?.content || '';
         if (delta) {
           accumulated += delta;
@@ -295,9 +432,12 @@ export async function callLLMStream(
         }
       }
 
+      recordLLMOutcome({ provider: 'groq', model: groqModel, ok: true, latencyMs: Date.now() - streamStart });
+      recordLLMUsage({ label, provider: 'groq', model: groqModel, usage, promptText: system + user, completionText: accumulated });
       console.log(`[LLM_STREAM:${label}] Groq completed — ${accumulated.length} chars`);
       return accumulated;
     } catch (err: any) {
+      recordLLMOutcome({ provider: 'groq', model: groqModel, ok: false, latencyMs: Date.now() - streamStart, error: err.message });
       console.warn(`[LLM_STREAM:${label}] Groq stream failed (${err.message}) — falling back to Anthropic`);
     }
   }
@@ -343,6 +483,8 @@ export async function callLLMStream(
     const decoder = new TextDecoder();
     let accumulated = '';
     let buffer = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
 
     while (true) {
       const { done, value } = await reader.read();
@@ -359,7 +501,11 @@ export async function callLLMStream(
 
         try {
           const event = JSON.parse(data);
-          if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          if (event.type === 'message_start') {
+            inputTokens = event.message?.usage?.input_tokens;
+          } else if (event.type === 'message_delta') {
+            outputTokens = event.usage?.output_tokens ?? outputTokens;
+          } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
             const delta = event.delta.text || '';
             accumulated += delta;
             onChunk(accumulated, delta);
@@ -370,6 +516,14 @@ export async function callLLMStream(
       }
     }
 
+    recordLLMUsage({
+      label,
+      provider: 'anthropic',
+      model: anthropicModel,
+      usage: inputTokens !== undefined ? { input_tokens: inputTokens, output_tokens: outputTokens ?? 0 } : undefined,
+      promptText: system + user,
+      completionText: accumulated,
+    });
     console.log(`[LLM_STREAM:${label}] Anthropic completed — ${accumulated.length} chars`);
     return accumulated;
   } catch (err: any) {
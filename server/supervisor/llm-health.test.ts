@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const openaiCreate = vi.fn();
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: openaiCreate } };
+  },
+}));
+
+import { getLLMHealth, getLLMHealthScoreboard, isLLMCoolingDown, rankByHealth, recordLLMOutcome, _resetLLMHealth } from './llm-health';
+import { callLLM } from './llm-failover';
+
+function anthropicResponse(text: string): Response {
+  return new Response(JSON.stringify({ content: [{ type: 'text', text }], usage: { input_tokens: 10, output_tokens: 5 } }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+beforeEach(() => {
+  _resetLLMHealth();
+  openaiCreate.mockReset();
+  vi.stubEnv('GROQ_API_KEY', '');
+  vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant');
+  vi.stubEnv('OPENAI_API_KEY', 'sk-openai');
+  vi.stubEnv('LLM_HEDGE_AFTER_MS', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('LLM health scoreboard', () => {
+  it('tracks error rate, latency percentiles and 429s per provider/model', () => {
+    for (const latencyMs of [100, 200, 300, 400]) recordLLMOutcome({ provider: 'groq', model: 'llama', ok: true, latencyMs });
+    recordLLMOutcome({ provider: 'groq', model: 'llama', ok: false, latencyMs: 50, error: 'Groq 429: rate limit reached' });
+
+    expect(getLLMHealth('groq', 'llama')).toMatchObject({
+      calls: 5,
+      failures: 1,
+      rateLimited: 1,
+      errorRate: 0.2,
+      p50LatencyMs: 200,
+      p95LatencyMs: 400,
+      score: 0.8,
+      coolingDown: true,
+    });
+    expect(getLLMHealth('groq', 'other-model')).toMatchObject({ calls: 0, score: 1, coolingDown: false });
+    expect(getLLMHealthScoreboard().map(h => h.model)).toEqual(['llama']);
+  });
+
+  it('cools down after consecutive failures and ranks the chain by health', () => {
+    vi.useFakeTimers();
+    const modelFor = (p: string) => `${p}-model`;
+    recordLLMOutcome({ provider: 'anthropic', model: 'anthropic-model', ok: false, latencyMs: 10, error: 'Anthropic 500' });
+    recordLLMOutcome({ provider: 'anthropic', model: 'anthropic-model', ok: false, latencyMs: 10, error: 'Anthropic 500' });
+    expect(isLLMCoolingDown('anthropic', 'anthropic-model')).toBe(false);
+    recordLLMOutcome({ provider: 'anthropic', model: 'anthropic-model', ok: false, latencyMs: 10, error: 'Anthropic 500' });
+    expect(isLLMCoolingDown('anthropic', 'anthropic-model')).toBe(true);
+
+    expect(rankByHealth(['groq', 'anthropic', 'openai'], modelFor)).toEqual(['groq', 'openai']);
+    expect(rankByHealth(['anthropic'], modelFor)).toEqual(['anthropic']);
+
+    // Slow but error-free providers drop behind fast ones
+    for (let i = 0; i < 5; i++) recordLLMOutcome({ provider: 'groq', model: 'groq-model', ok: true, latencyMs: 20_000 });
+    expect(rankByHealth(['groq', 'openai'], modelFor)).toEqual(['openai', 'groq']);
+
+    vi.advanceTimersByTime(60_001);
+    expect(isLLMCoolingDown('anthropic', 'anthropic-model')).toBe(false);
+  });
+});
+
+describe('callLLM health routing', () => {
+  it('skips a provider that is cooling down', async () => {
+    recordLLMOutcome({ provider: 'anthropic', model: 'claude-haiku-4-5-20251001', ok: false, latencyMs: 10, error: 'Anthropic 429: rate_limit_error' });
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    openaiCreate.mockResolvedValue({ choices: [{ message: { content: 'from openai' } }], usage: { prompt_tokens: 3, completion_tokens: 2 } });
+
+    const result = await callLLM({ system: 's', user: 'u', label: 'health_test' });
+    expect(result).toMatchObject({ text: 'from openai', provider: 'openai', failedOver: false });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('hedges a slow provider with the next one and takes the first answer', async () => {
+    vi.stubGlobal('fetch', vi.fn(() => new Promise<Response>(resolve => setTimeout(() => resolve(anthropicResponse('slow anthropic')), 500))));
+    openaiCreate.mockResolvedValue({ choices: [{ message: { content: 'fast openai' } }], usage: { prompt_tokens: 3, completion_tokens: 2 } });
+
+    const result = await callLLM({ system: 's', user: 'u', label: 'hedge_test', providerChain: ['anthropic', 'openai'], hedgeAfterMs: 20 });
+    expect(result).toMatchObject({ text: 'fast openai', provider: 'openai', hedged: true, failedOver: true });
+
+    // The slow request still lands on the scoreboard once it completes
+    await new Promise(resolve => setTimeout(resolve, 600));
+    expect(getLLMHealth('anthropic', 'claude-haiku-4-5-20251001')).toMatchObject({ calls: 1, failures: 0 });
+  });
+});
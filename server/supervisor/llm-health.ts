@@ -0,0 +1,227 @@
+/**
+ * LLM Provider Health Scoreboard
+ *
+ * Rolling per-provider, per-model record of recent LLM calls (error rate,
+ * p95 latency, 429s) kept in process memory. llm-failover orders its provider
+ * chain by these scores and skips a provider/model while it is cooling down
+ * after repeated failures or a rate-limit response. Cooldowns and hedged
+ * requests are written to telemetry_events when the call belongs to a run.
+ */
+
+import { getCostAttribution } from './cost-ledger';
+
+export interface LLMCallOutcome {
+  provider: string;
+  model: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+interface HealthSample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+  rateLimited: boolean;
+}
+
+interface HealthEntry {
+  provider: string;
+  model: string;
+  samples: HealthSample[];
+  consecutiveFailures: number;
+  cooldownUntil: number | null;
+  lastError: string | null;
+}
+
+export interface LLMHealthSnapshot {
+  provider: string;
+  model: string;
+  calls: number;
+  failures: number;
+  rateLimited: number;
+  errorRate: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  consecutiveFailures: number;
+  /** 0-1; 1 for a provider with too few recent calls to judge */
+  score: number;
+  coolingDown: boolean;
+  cooldownUntil: string | null;
+  lastError: string | null;
+}
+
+const MAX_SAMPLES = 50;
+/** Below this many calls in the window a provider is assumed healthy */
+const MIN_SAMPLES = 5;
+const CONSECUTIVE_FAILURE_LIMIT = 3;
+const ERROR_RATE_LIMIT = 0.5;
+/** p95 latency at or under this counts as fully healthy */
+const TARGET_P95_MS = 5_000;
+
+function windowMs(): number {
+  return parseInt(process.env.LLM_HEALTH_WINDOW_MS || '', 10) || 10 * 60_000;
+}
+
+function cooldownMs(): number {
+  return parseInt(process.env.LLM_HEALTH_COOLDOWN_MS || '', 10) || 60_000;
+}
+
+const entries = new Map<string, HealthEntry>();
+
+function entryKey(provider: string, model: string): string {
+  return `${provider}/${model}`;
+}
+
+function getEntry(provider: string, model: string): HealthEntry {
+  const key = entryKey(provider, model);
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { provider, model, samples: [], consecutiveFailures: 0, cooldownUntil: null, lastError: null };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+function recentSamples(entry: HealthEntry, now: number): HealthSample[] {
+  const cutoff = now - windowMs();
+  return entry.samples.filter(s => s.at >= cutoff);
+}
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+export function isRateLimitedError(message: string): boolean {
+  return /\b429\b|rate.?limit|too many requests/i.test(message);
+}
+
+/**
+ * Record one live call. Opens a cooldown on a 429, after
+ * CONSECUTIVE_FAILURE_LIMIT failures in a row, or when the error rate over
+ * the window reaches ERROR_RATE_LIMIT.
+ */
+export function recordLLMOutcome(outcome: LLMCallOutcome): void {
+  const now = Date.now();
+  const entry = getEntry(outcome.provider, outcome.model);
+  const rateLimited = !outcome.ok && isRateLimitedError(outcome.error || '');
+  entry.samples.push({ at: now, ok: outcome.ok, latencyMs: outcome.latencyMs, rateLimited });
+  if (entry.samples.length > MAX_SAMPLES) entry.samples.splice(0, entry.samples.length - MAX_SAMPLES);
+
+  if (outcome.ok) {
+    entry.consecutiveFailures = 0;
+    return;
+  }
+
+  entry.consecutiveFailures++;
+  entry.lastError = (outcome.error || 'unknown error').substring(0, 300);
+
+  const recent = recentSamples(entry, now);
+  const errorRate = recent.filter(s => !s.ok).length / recent.length;
+  let reason: string | null = null;
+  if (rateLimited) reason = 'rate_limited';
+  else if (entry.consecutiveFailures >= CONSECUTIVE_FAILURE_LIMIT) reason = `${entry.consecutiveFailures}_consecutive_failures`;
+  else if (recent.length >= MIN_SAMPLES && errorRate >= ERROR_RATE_LIMIT) reason = 'error_rate';
+
+  if (reason && !(entry.cooldownUntil && entry.cooldownUntil > now)) {
+    entry.cooldownUntil = now + cooldownMs();
+    console.warn(`[LLM_HEALTH] ${entryKey(entry.provider, entry.model)} cooling down for ${cooldownMs()}ms (${reason}): ${entry.lastError}`);
+    recordHealthTelemetry('llm_provider_cooldown', { reason, ...snapshotEntry(entry, now) });
+  }
+}
+
+/**
+ * True while the provider/model is cooling down and should be skipped.
+ */
+export function isLLMCoolingDown(provider: string, model: string, now: number = Date.now()): boolean {
+  const entry = entries.get(entryKey(provider, model));
+  return !!entry?.cooldownUntil && entry.cooldownUntil > now;
+}
+
+function snapshotEntry(entry: HealthEntry, now: number): LLMHealthSnapshot {
+  const recent = recentSamples(entry, now);
+  const failures = recent.filter(s => !s.ok).length;
+  const latencies = recent.filter(s => s.ok).map(s => s.latencyMs).sort((a, b) => a - b);
+  const errorRate = recent.length > 0 ? failures / recent.length : 0;
+  const p95 = percentile(latencies, 0.95);
+  const latencyFactor = p95 === null ? 1 : Math.min(1, TARGET_P95_MS / Math.max(p95, 1));
+  const coolingDown = !!entry.cooldownUntil && entry.cooldownUntil > now;
+  return {
+    provider: entry.provider,
+    model: entry.model,
+    calls: recent.length,
+    failures,
+    rateLimited: recent.filter(s => s.rateLimited).length,
+    errorRate: Math.round(errorRate * 100) / 100,
+    p50LatencyMs: percentile(latencies, 0.5),
+    p95LatencyMs: p95,
+    consecutiveFailures: entry.consecutiveFailures,
+    score: recent.length < MIN_SAMPLES ? 1 : Math.round((1 - errorRate) * latencyFactor * 100) / 100,
+    coolingDown,
+    cooldownUntil: coolingDown ? new Date(entry.cooldownUntil!).toISOString() : null,
+    lastError: entry.lastError,
+  };
+}
+
+export function getLLMHealth(provider: string, model: string): LLMHealthSnapshot {
+  const entry = entries.get(entryKey(provider, model))
+    ?? { provider, model, samples: [], consecutiveFailures: 0, cooldownUntil: null, lastError: null };
+  return snapshotEntry(entry, Date.now());
+}
+
+/**
+ * Every provider/model seen by this process, healthiest first.
+ */
+export function getLLMHealthScoreboard(): LLMHealthSnapshot[] {
+  const now = Date.now();
+  return Array.from(entries.values())
+    .map(entry => snapshotEntry(entry, now))
+    .sort((a, b) => b.score - a.score || a.provider.localeCompare(b.provider));
+}
+
+/**
+ * Reorder a provider chain by health: providers cooling down are dropped
+ * (unless every one is, in which case the one recovering soonest is kept
+ * first), the rest are sorted by score in steps of 0.1 so small differences
+ * keep the caller's order.
+ */
+export function rankByHealth<P extends string>(chain: P[], modelFor: (provider: P) => string): P[] {
+  const now = Date.now();
+  const ranked = chain.map((provider, index) => {
+    const entry = entries.get(entryKey(provider, modelFor(provider)));
+    const snapshot = entry ? snapshotEntry(entry, now) : null;
+    return {
+      provider,
+      index,
+      band: snapshot ? Math.round(snapshot.score * 10) : 10,
+      coolingUntil: snapshot?.coolingDown ? entry!.cooldownUntil! : 0,
+    };
+  });
+
+  const healthy = ranked.filter(r => r.coolingUntil === 0);
+  if (healthy.length === 0) {
+    return ranked.sort((a, b) => a.coolingUntil - b.coolingUntil || a.index - b.index).map(r => r.provider);
+  }
+  return healthy.sort((a, b) => b.band - a.band || a.index - b.index).map(r => r.provider);
+}
+
+/**
+ * Write a health event to telemetry_events for the run the current call is
+ * attributed to; calls outside a run are only logged.
+ */
+export function recordHealthTelemetry(eventType: string, payload: Record<string, unknown>): void {
+  const { runId } = getCostAttribution();
+  if (!runId) return;
+  import('../storage')
+    .then(({ storage }) => storage.createTelemetryEvent({ runId, eventType, payload }))
+    .catch((err: any) => console.warn(`[LLM_HEALTH] Could not record ${eventType} telemetry: ${err?.message || err}`));
+}
+
+/**
+ * Forget all recorded calls
+ * @internal Exported for testing only
+ */
+export function _resetLLMHealth(): void {
+  entries.clear();
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { z } from 'zod';
+
+const openaiCreate = vi.fn();
+vi.mock('openai', () => ({
+  default: class {
+    chat = { completions: { create: openaiCreate } };
+  },
+}));
+
+import { callLLMJson, extractJson, getLLMJsonStats, isLLMJsonError, _resetLLMJsonStats } from './llm-json';
+import { _resetLLMHealth } from './llm-health';
+import { ejectCassette, useCassette } from './cassette';
+
+const Verdict = z.object({ match: z.boolean(), reason: z.string() });
+
+function openaiAnswer(content: string) {
+  return { choices: [{ message: { content } }], usage: { prompt_tokens: 3, completion_tokens: 2 } };
+}
+
+function anthropicResponse(text: string): Response {
+  return new Response(JSON.stringify({ content: [{ type: 'text', text }], usage: { input_tokens: 10, output_tokens: 5 } }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+beforeEach(() => {
+  _resetLLMJsonStats();
+  _resetLLMHealth();
+  openaiCreate.mockReset();
+  vi.stubEnv('GROQ_API_KEY', '');
+  vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant');
+  vi.stubEnv('OPENAI_API_KEY', 'sk-openai');
+  vi.stubEnv('LLM_HEDGE_AFTER_MS', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('extractJson', () => {
+  it('strips code fences and surrounding prose', () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Sure! Here it is: ["x", "y"] Hope that helps.')).toEqual(['x', 'y']);
+    expect(() => extractJson('no json here')).toThrow(SyntaxError);
+  });
+});
+
+describe('callLLMJson', () => {
+  it('returns the validated answer on the first try', async () => {
+    openaiCreate.mockResolvedValue(openaiAnswer('{"match": true, "reason": "menu lists cask ale"}'));
+
+    const result = await callLLMJson(Verdict, 's', 'u', 'json_test', { providerChain: ['openai'] });
+    expect(result).toMatchObject({ data: { match: true, reason: 'menu lists cask ale' }, provider: 'openai', repairs: 0, schemaFailover: false, inputTokens: 3 });
+    expect(getLLMJsonStats().json_test).toMatchObject({ calls: 1, valid: 1, repairCalls: 0 });
+  });
+
+  it('sends the validation errors back in a repair round-trip on the same provider', async () => {
+    openaiCreate
+      .mockResolvedValueOnce(openaiAnswer('{"match": "yes"}'))
+      .mockResolvedValueOnce(openaiAnswer('{"match": true, "reason": "fixed"}'));
+
+    const result = await callLLMJson(Verdict, 's', 'u', 'json_test', { providerChain: ['openai', 'anthropic'] });
+    expect(result).toMatchObject({ data: { match: true, reason: 'fixed' }, provider: 'openai', repairs: 1, schemaFailover: false });
+
+    const repairPrompt = openaiCreate.mock.calls[1][0].messages[1].content as string;
+    expect(repairPrompt).toContain('{"match": "yes"}');
+    expect(repairPrompt).toMatch(/- match: Expected boolean/);
+    expect(repairPrompt).toMatch(/- reason: Required/);
+    expect(getLLMJsonStats().json_test).toMatchObject({ calls: 1, repaired: 1, repairCalls: 1, schemaFailures: 1 });
+  });
+
+  it('fails over to another provider once repairs are spent', async () => {
+    openaiCreate.mockResolvedValue(openaiAnswer('I think it matches.'));
+    const fetchMock = vi.fn(async () => anthropicResponse('{"match": false, "reason": "from anthropic"}'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await callLLMJson(Verdict, 's', 'u', 'json_test', { providerChain: ['openai', 'anthropic'] });
+    expect(result).toMatchObject({ data: { reason: 'from anthropic' }, provider: 'anthropic', repairs: 1, schemaFailover: true });
+    expect(openaiCreate).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getLLMJsonStats().json_test).toMatchObject({ failedOver: 1, parseFailures: 2 });
+  });
+
+  it('throws LLMJsonError with the last issues when nothing validates', async () => {
+    openaiCreate.mockResolvedValue(openaiAnswer('{"match": true}'));
+
+    const err = await callLLMJson(Verdict, 's', 'u', 'json_test', { providerChain: ['openai'], maxRepairs: 2 }).catch(e => e);
+    expect(isLLMJsonError(err)).toBe(true);
+    expect(err).toMatchObject({ label: 'json_test', stage: 'schema', issues: ['reason: Required'], raw: '{"match": true}' });
+    expect(openaiCreate).toHaveBeenCalledTimes(3);
+    expect(getLLMJsonStats().json_test).toMatchObject({ calls: 1, failed: 1, repairCalls: 2, schemaFailures: 3 });
+  });
+
+  it('records the schema failover separately so it replays offline', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'llm-json-cassette-'));
+    try {
+      openaiCreate.mockResolvedValue(openaiAnswer('I think it matches.'));
+      vi.stubGlobal('fetch', vi.fn(async () => anthropicResponse('{"match": false, "reason": "from anthropic"}')));
+      useCassette('failover', { mode: 'record', dir });
+      await callLLMJson(Verdict, 's', 'u', 'json_test', { providerChain: ['openai', 'anthropic'] });
+      const recorded = JSON.parse(readFileSync(path.join(dir, 'failover.json'), 'utf8')).entries as Record<string, { request: { attempt?: string } }>;
+      expect(Object.values(recorded).map(e => e.request.attempt ?? null).sort()).toEqual([null, null, 'schema_failover:anthropic']);
+
+      openaiCreate.mockReset();
+      vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('network disabled'); }));
+      vi.stubEnv('ANTHROPIC_API_KEY', '');
+      vi.stubEnv('OPENAI_API_KEY', '');
+      useCassette('failover', { mode: 'replay', dir });
+      const replayed = await callLLMJson(Verdict, 's', 'u', 'json_test', { providerChain: ['openai', 'anthropic'] });
+      expect(replayed).toMatchObject({ data: { reason: 'from anthropic' }, provider: 'anthropic', schemaFailover: true });
+      expect(openaiCreate).not.toHaveBeenCalled();
+    } finally {
+      ejectCassette();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
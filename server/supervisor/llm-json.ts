@@ -0,0 +1,245 @@
+/**
+ * Structured LLM Output
+ *
+ * callLLMJson asks llm-failover for a JSON answer and validates it against a
+ * zod schema. An answer that does not parse or validate gets a bounded repair
+ * round-trip on the same provider, carrying the validation errors; if that
+ * still fails the prompt is retried once on a provider not yet tried. Outcomes
+ * are counted per label (getLLMJsonStats) so noisy prompts show up.
+ */
+
+import type { z } from 'zod';
+import { callLLM, getConfiguredProviders, type CallLLMOptions, type CallLLMResult, type LLMProvider } from './llm-failover';
+
+export interface CallLLMJsonOptions extends Partial<Omit<CallLLMOptions, 'system' | 'user' | 'label'>> {
+  /** Repair round-trips after an invalid answer (default 1) */
+  maxRepairs?: number;
+  /** Once repairs are spent, retry the prompt on a provider not yet tried (default true) */
+  failoverOnSchemaError?: boolean;
+}
+
+export interface CallLLMJsonResult<T> {
+  data: T;
+  /** Text of the answer that validated */
+  raw: string;
+  provider: LLMProvider;
+  model?: string;
+  /** Repair round-trips used */
+  repairs: number;
+  /** True when the answer came from another provider after a schema failure */
+  schemaFailover: boolean;
+  durationMs: number;
+  /** Token usage of the call that produced the valid answer */
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export type LLMJsonFailureStage = 'parse' | 'schema';
+
+/**
+ * The LLM answered, but never with JSON matching the schema.
+ */
+export class LLMJsonError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly stage: LLMJsonFailureStage,
+    public readonly issues: string[],
+    /** Last answer received */
+    public readonly raw: string,
+  ) {
+    super(`[LLM_JSON:${label}] ${stage === 'parse' ? 'invalid JSON' : 'schema validation failed'}: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'LLMJsonError';
+  }
+}
+
+export function isLLMJsonError(err: unknown): err is LLMJsonError {
+  return err instanceof LLMJsonError;
+}
+
+export interface LLMJsonStats {
+  calls: number;
+  /** Valid on the first answer */
+  valid: number;
+  /** Valid after one or more repair round-trips */
+  repaired: number;
+  /** Valid only after failing over to another provider */
+  failedOver: number;
+  /** Never valid */
+  failed: number;
+  repairCalls: number;
+  parseFailures: number;
+  schemaFailures: number;
+}
+
+const MAX_RAW_IN_REPAIR = 4_000;
+const MAX_ISSUES_IN_REPAIR = 15;
+
+const stats = new Map<string, LLMJsonStats>();
+
+function statsFor(label: string): LLMJsonStats {
+  let entry = stats.get(label);
+  if (!entry) {
+    entry = { calls: 0, valid: 0, repaired: 0, failedOver: 0, failed: 0, repairCalls: 0, parseFailures: 0, schemaFailures: 0 };
+    stats.set(label, entry);
+  }
+  return entry;
+}
+
+/**
+ * Parse the JSON in an LLM answer: code fences are stripped, and prose around
+ * a single object or array is ignored. Throws SyntaxError when there is none.
+ */
+export function extractJson(raw: string): unknown {
+  let text = raw.trim();
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fenced) text = fenced[1].trim();
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    const start = text.search(/[[{]/);
+    if (start === -1) throw err;
+    const end = text.lastIndexOf(text[start] === '{' ? '}' : ']');
+    if (end <= start) throw err;
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+type Validation<T> =
+  | { ok: true; data: T }
+  | { ok: false; stage: LLMJsonFailureStage; issues: string[] };
+
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: string): Validation<T> {
+  let value: unknown;
+  try {
+    value = extractJson(raw);
+  } catch (err: any) {
+    return { ok: false, stage: 'parse', issues: [`not valid JSON: ${err?.message || err}`] };
+  }
+  const result = schema.safeParse(value);
+  if (result.success) return { ok: true, data: result.data };
+  return {
+    ok: false,
+    stage: 'schema',
+    issues: result.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message),
+  };
+}
+
+function buildRepairPrompt(user: string, raw: string, issues: string[]): string {
+  const shown = issues.slice(0, MAX_ISSUES_IN_REPAIR);
+  const more = issues.length > shown.length ? `\n- …and ${issues.length - shown.length} more` : '';
+  return `${user}
+
+Your previous reply did not match the required JSON format:
+${raw.substring(0, MAX_RAW_IN_REPAIR)}
+
+Problems:
+${shown.map(issue => `- ${issue}`).join('\n')}${more}
+
+Reply again with only the corrected JSON — no commentary, no code fences.`;
+}
+
+/**
+ * Call the LLM for JSON matching `schema`. Throws LLMJsonError when no answer
+ * validates, and passes through callLLM errors (no provider answered at all).
+ */
+export async function callLLMJson<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  system: string,
+  user: string,
+  label: string,
+  options: CallLLMJsonOptions = {},
+): Promise<CallLLMJsonResult<T>> {
+  const { maxRepairs = 1, failoverOnSchemaError = true, ...llmOptions } = options;
+  const counters = statsFor(label);
+  counters.calls++;
+  const startTime = Date.now();
+  const tried = new Set<LLMProvider>();
+
+  const finish = (data: T, answer: CallLLMResult, repairs: number, schemaFailover: boolean): CallLLMJsonResult<T> => {
+    if (schemaFailover) counters.failedOver++;
+    else if (repairs > 0) counters.repaired++;
+    else counters.valid++;
+    if (repairs > 0 || schemaFailover) {
+      console.log(`[LLM_JSON:${label}] valid after ${repairs} repair(s)${schemaFailover ? ` and failover to ${answer.provider}` : ''}`);
+    }
+    return {
+      data,
+      raw: answer.text,
+      provider: answer.provider,
+      model: answer.model,
+      repairs,
+      schemaFailover,
+      durationMs: Date.now() - startTime,
+      inputTokens: answer.inputTokens,
+      outputTokens: answer.outputTokens,
+    };
+  };
+
+  const noteFailure = (failure: { stage: LLMJsonFailureStage; issues: string[] }, provider: LLMProvider) => {
+    if (failure.stage === 'parse') counters.parseFailures++;
+    else counters.schemaFailures++;
+    console.warn(`[LLM_JSON:${label}] ${provider} answer ${failure.stage === 'parse' ? 'is not JSON' : 'failed validation'}: ${failure.issues.slice(0, 3).join('; ')}`);
+  };
+
+  let result = await callLLM({ ...llmOptions, system, user, label });
+  tried.add(result.provider);
+  let raw = result.text;
+  let check = validate(schema, raw);
+  if (check.ok) return finish(check.data, result, 0, false);
+  noteFailure(check, result.provider);
+
+  let lastFailure = check;
+  let repairs = 0;
+  while (repairs < maxRepairs) {
+    repairs++;
+    counters.repairCalls++;
+    try {
+      result = await callLLM({ ...llmOptions, providerChain: [result.provider], system, user: buildRepairPrompt(user, raw, lastFailure.issues), label });
+    } catch (err: any) {
+      console.warn(`[LLM_JSON:${label}] repair call failed: ${err.message}`);
+      break;
+    }
+    raw = result.text;
+    check = validate(schema, raw);
+    if (check.ok) return finish(check.data, result, repairs, false);
+    noteFailure(check, result.provider);
+    lastFailure = check;
+  }
+
+  if (failoverOnSchemaError) {
+    const candidates = (llmOptions.providerChain && llmOptions.providerChain.length > 0 ? llmOptions.providerChain : getConfiguredProviders())
+      .filter(p => !tried.has(p) && getConfiguredProviders().includes(p));
+    if (candidates.length > 0) {
+      console.warn(`[LLM_JSON:${label}] retrying on ${candidates[0]} after schema failure`);
+      try {
+        const fallback = await callLLM({ ...llmOptions, providerChain: candidates, system, user, label, cassetteAttempt: `schema_failover:${candidates[0]}` });
+        const fallbackCheck = validate(schema, fallback.text);
+        if (fallbackCheck.ok) return finish(fallbackCheck.data, fallback, repairs, true);
+        noteFailure(fallbackCheck, fallback.provider);
+        lastFailure = fallbackCheck;
+        raw = fallback.text;
+      } catch (err: any) {
+        console.warn(`[LLM_JSON:${label}] failover call failed: ${err.message}`);
+      }
+    }
+  }
+
+  counters.failed++;
+  throw new LLMJsonError(label, lastFailure.stage, lastFailure.issues, raw);
+}
+
+/**
+ * Per-label counts of valid, repaired, failed-over and failed JSON calls.
+ */
+export function getLLMJsonStats(): Record<string, LLMJsonStats> {
+  const out: Record<string, LLMJsonStats> = {};
+  stats.forEach((value, label) => { out[label] = { ...value }; });
+  return out;
+}
+
+/**
+ * @internal Exported for testing only
+ */
+export function _resetLLMJsonStats(): void {
+  stats.clear();
+}
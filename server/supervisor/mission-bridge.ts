@@ -1,4 +1,4 @@
-import type { StructuredMission, MissionConstraint, MissionExtractionTrace, MissionFailureStage, ConstraintChecklist, ImplicitExpansionTrace } from './mission-schema';
+import type { StructuredMission, MissionConstraint, MissionExtractionTrace, MissionFailureStage, ConstraintChecklist, ImplicitExpansionTrace, Pass3Status } from './mission-schema';
 import type { ParsedGoal, StructuredConstraint, SuccessCriteria } from './goal-to-constraints';
 import { inferCountryFromLocation, isAttributeLikeConstraint } from './goal-to-constraints';
 import type { CanonicalIntent, CanonicalConstraint } from './canonical-intent';
@@ -59,6 +59,8 @@ export interface MissionDiagnosticPayload {
   timing: {
     pass1_ms: number;
     pass2_ms: number;
+    /** 'pending' when the diagnostic was built before Pass 3 landed */
+    pass3_status: Pass3Status;
     total_ms: number;
   };
   layers: {
@@ -115,6 +117,7 @@ export function buildMissionDiagnosticPayload(
     timing: {
       pass1_ms: trace.pass1_duration_ms,
       pass2_ms: trace.pass2_duration_ms,
+      pass3_status: trace.pass3_status,
       total_ms: trace.total_duration_ms,
     },
     layers: {
@@ -188,7 +191,7 @@ function buildCanonical(c: MissionConstraint) {
   };
 }
 
-function mapMissionConstraintToStructured(c: MissionConstraint, index: number): StructuredConstraint | null {
+export function mapMissionConstraintToStructured(c: MissionConstraint, index: number): StructuredConstraint | null {
   const canonical = buildCanonical(c);
 
   switch (c.type) {
@@ -46,12 +46,18 @@ import {
 import { logRunEvent } from './run-logger';
 import { emitProgressTick } from './protocol-logger';
 import { storage } from '../storage';
-import { sanitiseLocationString, inferCountryFromLocation } from './goal-to-constraints';
+import { sanitiseLocationString, inferCountryFromLocation, type StructuredConstraint } from './goal-to-constraints';
+import { mapMissionConstraintToStructured } from './mission-bridge';
+import { buildRegistryEvidence, getCompanyRegistryProvider, isRegistryCheckable, judgeRegistryConstraint, type CompanyRegistryProvider } from './company-registry';
+import { isToolEnabled } from './tool-registry';
 import { detectRelationshipPredicate, type RelationshipPredicateResult } from './relationship-predicate';
 import { RADIUS_LADDER_KM } from './shared-constants';
 import { executeGpt4oPrimaryPath, type Gpt4oSearchContext } from './gpt4o-search';
 import { computeQueryShapeKey, deriveQueryShapeFromGoal } from './query-shape-key';
-import { callLLMText } from './llm-failover';
+import { z } from 'zod';
+import { callLLMJson } from './llm-json';
+import { countWebSearchCalls, getCostAttribution, recordLLMUsage } from './cost-ledger';
+import { checkBudget, formatBudgetStopReason, peekBudget } from './budgets';
 
 const SUPERVISOR_NEUTRAL_MESSAGE = 'Run complete. Results are available.';
 const RUN_EXECUTION_TIMEOUT_MS_DEFAULT = 120_000;
@@ -73,12 +79,28 @@ export interface MissionExecutionContext {
   rawUserInput: string;
   missionTrace: MissionExtractionTrace;
   intentNarrative: IntentNarrative | null;
+  /** Pass 3 still in flight — see resolveIntentNarrative */
+  intentNarrativePending?: Promise<IntentNarrative | null>;
   queryId?: string | null;
   executionPath?: 'gp_cascade' | 'gpt4o_primary';
   checkpoint?: import('./reloop/types').ResumeCheckpoint | null;
   suppressDeliverySummary?: boolean;
 }
 
+/**
+ * Wait for a deferred Pass 3 narrative and fold it into the context. Runs that
+ * started on Pass 2's mission alone call this just before the narrative is
+ * first needed.
+ */
+export async function resolveIntentNarrative(ctx: MissionExecutionContext): Promise<IntentNarrative | null> {
+  if (ctx.intentNarrative || !ctx.intentNarrativePending) return ctx.intentNarrative;
+  const waitStart = Date.now();
+  ctx.intentNarrative = await ctx.intentNarrativePending.catch(() => null);
+  ctx.intentNarrativePending = undefined;
+  console.log(`[MISSION_EXEC] Intent narrative ${ctx.intentNarrative ? 'folded in' : 'unavailable'} after waiting ${Date.now() - waitStart}ms`);
+  return ctx.intentNarrative;
+}
+
 export interface MissionExecutionResult {
   response: string;
   leadIds: string[];
@@ -90,6 +112,8 @@ export interface MissionExecutionResult {
     phone: string | null;
     website: string | null;
     placeId: string;
+    lat?: number | null;
+    lng?: number | null;
   }>;
 }
 
@@ -436,6 +460,60 @@ function getRankingConstraints(mission: StructuredMission): MissionConstraint[]
   return mission.constraints.filter(c => c.type === 'ranking');
 }
 
+/** Identifies one lead × constraint check across evidence sources */
+function evidenceCheckKey(placeId: string, constraintType: string, constraintValue: string): string {
+  return `${placeId}::${constraintType}::${constraintValue}`;
+}
+
+/**
+ * Answer ownership, management, status and opening-date constraints from the
+ * company register for leads that resolve to a registered company. Checks the
+ * register cannot settle (no match, no listed parties, an old incorporation
+ * date against a new venue) produce no result and are left to web evidence.
+ */
+export async function gatherRegistryEvidence(
+  leads: Array<{ name: string; placeId: string; address?: string | null }>,
+  constraints: MissionConstraint[],
+  registry: CompanyRegistryProvider | null = getCompanyRegistryProvider(),
+): Promise<EvidenceResult[]> {
+  const checks = constraints
+    .map((constraint, i) => ({ constraint, structured: mapMissionConstraintToStructured(constraint, i) }))
+    .filter((c): c is { constraint: MissionConstraint; structured: StructuredConstraint } => !!c.structured && isRegistryCheckable(c.structured));
+  if (checks.length === 0 || leads.length === 0) return [];
+
+  const registryEvidence = await buildRegistryEvidence(leads, registry);
+  const results: EvidenceResult[] = [];
+  leads.forEach((lead, leadIndex) => {
+    const match = registryEvidence.get(lead.placeId);
+    if (!match) return;
+    for (const { constraint, structured } of checks) {
+      const judged = judgeRegistryConstraint(structured, match);
+      if (judged.verdict === 'unknown') continue;
+      // An older company can open a new venue, so only a firm "no" rules out an opening date
+      if (structured.type === 'TIME_CONSTRAINT' && judged.verdict === 'no' && judged.confidence !== 'high') continue;
+      const holds = judged.verdict === 'yes';
+      results.push({
+        leadIndex,
+        leadName: lead.name,
+        leadPlaceId: lead.placeId,
+        constraintField: constraint.field,
+        constraintValue: typeof constraint.value === 'string' ? constraint.value : String(constraint.value ?? ''),
+        constraintType: constraint.type,
+        evidenceFound: holds,
+        evidenceStrength: !holds ? 'none' : judged.confidence === 'high' ? 'strong' : 'weak',
+        isBotBlocked: false,
+        towerStatus: null,
+        towerConfidence: null,
+        towerReasoning: judged.reason,
+        sourceUrl: null,
+        snippets: [judged.snippet],
+        verdict: !holds ? 'no_evidence' : judged.confidence === 'high' ? 'verified' : 'plausible',
+      });
+    }
+  });
+  return results;
+}
+
 export interface HardEvidenceFilterInput {
   leadIndex: number;
   constraintField: string;
@@ -569,19 +647,34 @@ interface GeneratedQuery {
   rationale: string;
 }
 
+const JSON_ONLY_SYSTEM_PROMPT = 'You are a precise assistant for a B2B lead-generation pipeline. Respond with JSON only.';
+
+const GeneratedQueriesSchema = z.object({
+  queries: z.array(z.object({
+    query: z.string(),
+    rationale: z.string().default(''),
+  })).transform(queries => queries.filter(q => q.query.trim()))
+    .refine(queries => queries.length > 0, 'empty queries array'),
+});
+
+const ExclusionJudgementsSchema = z.array(z.object({
+  name: z.string().default(''),
+  decision: z.enum(['INCLUDE', 'EXCLUDE', 'UNCERTAIN']),
+  reason: z.string().default(''),
+}));
+
+const LocationVerdictsSchema = z.object({
+  results: z.array(z.object({
+    index: z.number().int(),
+    in_location: z.boolean(),
+    reasoning: z.string().default(''),
+  })),
+});
+
 async function generatePlacesQueries(
   intentNarrative: IntentNarrative,
   fallbackQuery: string,
 ): Promise<GeneratedQuery[]> {
-  const openaiKey = process.env.OPENAI_API_KEY;
-  if (!openaiKey) {
-    console.warn('[PLACES] OPENAI_API_KEY not set — using fallback query');
-    return [{ query: fallbackQuery, rationale: 'fallback — no API key' }];
-  }
-
-  const { default: OpenAI } = await import('openai');
-  const client = new OpenAI({ apiKey: openaiKey });
-
   const prompt = `You are a Google Places search expert. Generate 1-2 search queries that will find the best results in Google Places for this business type.
 
 Entity the user wants:
@@ -612,18 +705,13 @@ Respond with JSON only:
 }`;
 
   try {
-    const resp = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: prompt }],
+    const { data } = await callLLMJson(GeneratedQueriesSchema, JSON_ONLY_SYSTEM_PROMPT, prompt, 'places_query_generation', {
+      providerChain: ['openai', 'anthropic', 'groq'],
+      openaiModel: 'gpt-4o-mini',
       temperature: 0.2,
-      max_tokens: 512,
-      response_format: { type: 'json_object' },
+      maxTokens: 512,
     });
-    const raw = (resp.choices[0]?.message?.content ?? '').trim();
-    const parsed = JSON.parse(raw) as { queries: GeneratedQuery[] };
-    const queries = parsed.queries?.filter(q => typeof q.query === 'string' && q.query.trim()) ?? [];
-    if (queries.length === 0) throw new Error('empty queries array');
-    return queries.slice(0, 5);
+    return data.queries.slice(0, 5);
   } catch (err: any) {
     console.warn(`[PLACES] Query generation failed (non-fatal): ${err.message} — using fallback`);
     return [{ query: fallbackQuery, rationale: 'fallback — query generation failed' }];
@@ -643,15 +731,6 @@ async function filterByEntityExclusions(
     return { kept: leads, excluded: [] };
   }
 
-  const openaiKey = process.env.OPENAI_API_KEY;
-  if (!openaiKey) {
-    console.warn('[EXCL_FILTER] OPENAI_API_KEY not set — skipping exclusion filter');
-    return { kept: leads, excluded: [] };
-  }
-
-  const { default: OpenAI } = await import('openai');
-  const client = new OpenAI({ apiKey: openaiKey });
-
   const kept: DiscoveredLead[] = [];
   const excluded: Array<{ name: string; reason: string }> = [];
   const BATCH_SIZE = 20;
@@ -677,14 +756,12 @@ Respond with a JSON array only, no markdown fences:
 [{ "name": "...", "decision": "INCLUDE|EXCLUDE|UNCERTAIN", "reason": "..." }]`;
 
     try {
-      const resp = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
+      const { data: parsed } = await callLLMJson(ExclusionJudgementsSchema, JSON_ONLY_SYSTEM_PROMPT, prompt, 'exclusion_filter', {
+        providerChain: ['openai', 'anthropic', 'groq'],
+        openaiModel: 'gpt-4o-mini',
         temperature: 0,
-        max_tokens: 512,
+        maxTokens: 512,
       });
-      const raw = (resp.choices[0]?.message?.content ?? '').trim();
-      const parsed = JSON.parse(raw) as Array<{ name: string; decision: string; reason: string }>;
       for (let j = 0; j < batch.length; j++) {
         const lead = batch[j];
         const judgement = parsed[j] ?? { decision: 'UNCERTAIN', reason: 'no judgement returned' };
@@ -749,6 +826,7 @@ export async function executeMissionWithReloop(
         plan: ctx.plan,
         missionTrace: ctx.missionTrace,
         intentNarrative: ctx.intentNarrative,
+        intentNarrativePending: ctx.intentNarrativePending,
         queryId: ctx.queryId,
         executionPath: ctx.executionPath,
         checkpoint: ctx.checkpoint ?? null,
@@ -865,6 +943,7 @@ IMPORTANT:
       }
 
       const data = await resp.json();
+      recordLLMUsage({ label: 'gpt4o_verification', provider: 'openai', model, usage: data.usage, webSearchCalls: countWebSearchCalls(data.output) });
       let content = '';
       let sourceUrl = '';
 
@@ -1027,7 +1106,7 @@ IMPORTANT:
 export async function executeMissionDrivenPlan(
   ctx: MissionExecutionContext,
 ): Promise<MissionExecutionResult> {
-  const { mission, plan, runId, userId, conversationId, clientRequestId, rawUserInput, missionTrace, intentNarrative, queryId } = ctx;
+  const { mission, plan, runId, userId, conversationId, clientRequestId, rawUserInput, missionTrace, queryId } = ctx;
   console.log('[QID-TRACE]', 'step3:executeMissionDrivenPlan_destructured', queryId);
   const { businessType, location, country, requestedCount, searchBudget } = deriveSearchParams(mission);
 
@@ -1060,6 +1139,15 @@ export async function executeMissionDrivenPlan(
   let runDeadlineExceeded = false;
   let runDeadlineReason = '';
 
+  // Budgets degrade the run rather than fail it: once spent, checkDeadline()
+  // skips the paid stages and the delivery summary carries a budget_exceeded stop reason.
+  const budgetScope = { ...getCostAttribution(), runId, userId };
+  const initialBudget = await checkBudget(budgetScope);
+  let runBudgetStopReason: string | null = initialBudget.allowed ? null : formatBudgetStopReason(initialBudget);
+  if (runBudgetStopReason) {
+    console.warn(`[MISSION_EXEC] ${runBudgetStopReason} — paid tools will be skipped`);
+  }
+
   const checkDeadline = (): boolean => {
     const elapsed = Date.now() - runStartTime;
     if (elapsed > RUN_EXECUTION_TIMEOUT_MS) {
@@ -1072,6 +1160,13 @@ export async function executeMissionDrivenPlan(
       runDeadlineReason = `max_tool_calls: ${runToolCallCount} > ${MAX_TOOL_CALLS}`;
       return true;
     }
+    if (runBudgetStopReason) return true;
+    const budget = peekBudget(budgetScope);
+    if (!budget.allowed) {
+      runBudgetStopReason = formatBudgetStopReason(budget);
+      console.warn(`[MISSION_EXEC] ${runBudgetStopReason} — skipping remaining paid steps`);
+      return true;
+    }
     return false;
   };
 
@@ -1167,6 +1262,7 @@ export async function executeMissionDrivenPlan(
     });
   }
 
+  const intentNarrative = await resolveIntentNarrative(ctx);
   if (intentNarrative) {
     await createArtefact({
       runId,
@@ -1583,7 +1679,8 @@ A business listed as "London W1" is Central London, not West London.
 
 Respond with JSON only: {"results": [{"index": 1, "in_location": true/false, "reasoning": "brief reason"}]}`;
 
-      const batchResult = await callLLMText(
+      const { data: parsed } = await callLLMJson(
+        LocationVerdictsSchema,
         `${getCurrentDatePreamble()} You verify whether business addresses are within a specified geographic area. You have strong geographic knowledge and understand that counties contain many towns whose addresses may not mention the county name. Respond with JSON only.`,
         batchPrompt,
         'location_verify_batch',
@@ -1595,29 +1692,24 @@ Respond with JSON only: {"results": [{"index": 1, "in_location": true/false, "re
         },
       );
 
-      const cleaned = batchResult.replace(/```json\s*/gi, '').replace(/```\s*$/g, '').trim();
-      const parsed = JSON.parse(cleaned);
-
-      if (parsed.results && Array.isArray(parsed.results)) {
-        let excluded = 0;
-        for (const result of parsed.results) {
-          const idx = result.index - 1;
-          if (idx >= 0 && idx < leads.length && !result.in_location) {
-            locationExcludedLeads.push({
-              name: leads[idx].name,
-              address: leads[idx].address ?? null,
-              reason: result.reasoning,
-            });
-            (leads[idx] as any)._location_mismatch = true;
-            excluded++;
-            console.log(`[LOCATION_VERIFY] EXCLUDED "${leads[idx].name}" — ${result.reasoning}`);
-          }
-        }
-        console.log(`[LOCATION_VERIFY] Batch check: ${excluded}/${leads.length} excluded for location mismatch (required: "${locationValue}")`);
-        if (excluded > 0) {
-          leads = leads.filter(l => !(l as any)._location_mismatch);
+      let excluded = 0;
+      for (const result of parsed.results) {
+        const idx = result.index - 1;
+        if (idx >= 0 && idx < leads.length && !result.in_location) {
+          locationExcludedLeads.push({
+            name: leads[idx].name,
+            address: leads[idx].address ?? null,
+            reason: result.reasoning,
+          });
+          (leads[idx] as any)._location_mismatch = true;
+          excluded++;
+          console.log(`[LOCATION_VERIFY] EXCLUDED "${leads[idx].name}" — ${result.reasoning}`);
         }
       }
+      console.log(`[LOCATION_VERIFY] Batch check: ${excluded}/${leads.length} excluded for location mismatch (required: "${locationValue}")`);
+      if (excluded > 0) {
+        leads = leads.filter(l => !(l as any)._location_mismatch);
+      }
     } catch (locErr: any) {
       console.warn(`[LOCATION_VERIFY] Batch check failed (non-fatal, all leads included): ${locErr.message}`);
     }
@@ -1651,6 +1743,23 @@ Respond with JSON only: {"results": [{"index": 1, "in_location": true/false, "re
   const evidenceConstraints = getEvidenceConstraints(mission);
   const webVisitPages = new Map<number, any[]>();
 
+  // ── Company register ──────────────────────────────────────────────────────
+  // Ownership/management, trading status and incorporation dates are official
+  // record; the constraint gate skips its strategy question on the strength of
+  // this phase. Web evidence below only covers the checks the register could
+  // not settle.
+  const registryAnswered = new Set<string>();
+  const registryConstraints = [...relationshipConstraints, ...evidenceConstraints];
+  if (registryConstraints.length > 0 && leads.length > 0 && isToolEnabled('COMPANY_REGISTRY_LOOKUP') && !checkDeadline()) {
+    console.log(`[MISSION_EXEC] === Phase: COMPANY_REGISTRY ===`);
+    const registryResults = await gatherRegistryEvidence(leads.slice(0, effectiveEnrichBatch), registryConstraints);
+    for (const r of registryResults) {
+      registryAnswered.add(evidenceCheckKey(r.leadPlaceId, r.constraintType, r.constraintValue));
+    }
+    evidenceResults.push(...registryResults);
+    console.log(`[MISSION_EXEC] COMPANY_REGISTRY: ${registryResults.length} check(s) answered (${registryResults.filter(r => r.evidenceFound).length} hold)`);
+  }
+
   if (
     EVIDENCE_MODE === 'web_crawl_first' &&
     requiresWebVisit(plan) &&
@@ -1776,6 +1885,7 @@ Respond with JSON only: {"results": [{"index": 1, "in_location": true/false, "re
 
       for (const constraint of constraintsToVerify) {
         const constraintValue = typeof constraint.value === 'string' ? constraint.value : String(constraint.value ?? '');
+        if (registryAnswered.has(evidenceCheckKey(lead.placeId, constraint.type, constraintValue))) continue;
 
         const extraction: ConstraintLedExtractionResult = await extractConstraintLedEvidence(
           pages,
@@ -1989,7 +2099,8 @@ Respond with JSON only: {"results": [{"index": 1, "in_location": true/false, "re
     }
 
     // ── GPT-4o web search fallback for any candidate with no evidence found ──────
-    const candidatesWithNoEvidence = evidenceResults.filter(er => !er.evidenceFound);
+    const candidatesWithNoEvidence = evidenceResults.filter(er =>
+      !er.evidenceFound && !registryAnswered.has(evidenceCheckKey(er.leadPlaceId, er.constraintType, er.constraintValue)));
     if (candidatesWithNoEvidence.length > 0 && !checkDeadline()) {
       const openaiKey = process.env.OPENAI_API_KEY;
       if (!openaiKey) {
@@ -2064,6 +2175,7 @@ IMPORTANT:
             }
 
             const fbData = await fbResp.json();
+            recordLLMUsage({ label: 'gpt4o_fallback', provider: 'openai', model: fallbackModel, usage: fbData.usage, webSearchCalls: countWebSearchCalls(fbData.output) });
             let fbContent = '';
             let fbSourceUrl = '';
 
@@ -2220,6 +2332,7 @@ IMPORTANT:
             );
           } else {
             const cascadeData = await cascadeResp.json();
+            recordLLMUsage({ label: 'discovery_cascade', provider: 'openai', model: cascadeModel, usage: cascadeData.usage, webSearchCalls: countWebSearchCalls(cascadeData.output) });
             let cascadeContent = '';
             if (Array.isArray(cascadeData.output)) {
               for (const item of cascadeData.output) {
@@ -2438,7 +2551,7 @@ IMPORTANT:
         conversationId,
         clientRequestId,
       );
-      evidenceResults.push(...gpt4oResults);
+      evidenceResults.push(...gpt4oResults.filter(r => !registryAnswered.has(evidenceCheckKey(r.leadPlaceId, r.constraintType, r.constraintValue))));
     }
   }
 
@@ -3060,6 +3173,25 @@ IMPORTANT:
     }).catch(() => {});
   }
 
+  if (runBudgetStopReason) {
+    await createArtefact({
+      runId,
+      type: 'diagnostic',
+      title: 'Run stopped by budget',
+      summary: runBudgetStopReason,
+      payload: {
+        run_id: runId,
+        stop_reason: runBudgetStopReason,
+        windows: peekBudget(budgetScope).exceeded,
+        tool_calls: runToolCallCount,
+        leads_at_stop: finalLeads.length,
+        execution_source: 'mission',
+      },
+      userId,
+      conversationId,
+    }).catch(() => {});
+  }
+
   await storage.updateAgentRun(runId, {
     status: finalRunStatus,
     terminalState: finalTerminalState,
@@ -3072,6 +3204,7 @@ IMPORTANT:
       execution_source: 'mission',
       mission_strategy: plan.strategy,
       ...(runTimedOut ? { timed_out: true, timeout_reason: runDeadlineReason } : {}),
+      ...(runBudgetStopReason ? { budget_exceeded: true, stop_reason: runBudgetStopReason } : {}),
     },
   }).catch((e: any) => console.warn(`[MISSION_EXEC] agent_run completion update failed: ${e.message}`));
 
@@ -3149,7 +3282,7 @@ IMPORTANT:
     leads: dsLeads,
     finalVerdict,
     finalAction, // PHASE_3: pass Tower action to delivery summary
-    stopReason: null,
+    stopReason: runBudgetStopReason,
     relationshipContext: relationshipPredicate.requires_relationship_evidence
       ? {
           requires_relationship_evidence: true,
@@ -3231,6 +3364,8 @@ IMPORTANT:
       phone: l.phone,
       website: l.website,
       placeId: l.placeId,
+      lat: l.lat,
+      lng: l.lng,
     })),
   };
 }
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { callLLMJson } = vi.hoisted(() => ({ callLLMJson: vi.fn() }));
+vi.mock('./llm-json', async importOriginal => ({ ...(await importOriginal<typeof import('./llm-json')>()), callLLMJson }));
+
+import { buildExtractionTiming, extractStructuredMission } from './mission-extractor';
+import type { MissionExtractionTrace } from './mission-schema';
+
+type Pass = 'pass1' | 'pass2' | 'pass3';
+
+const PASS_MS: Record<Pass, number> = { pass1: 1_000, pass2: 3_000, pass3: 5_000 };
+
+const RESPONSES: Record<Pass, unknown> = {
+  pass1: { semantic_interpretation: 'Pubs in Lewes', constraint_checklist: null },
+  pass2: {
+    ok: true,
+    errors: [],
+    mission: { entity_category: 'pub', location_text: 'Lewes', requested_count: null, constraints: [], mission_mode: 'research_now' },
+  },
+  pass3: {
+    entity_description: 'Pubs in Lewes', entity_exclusions: [], commercial_context: '', key_discriminator: '',
+    findability: 'easy', findability_reason: '', suggested_approaches: [], scarcity_expectation: 'abundant', clarification_needed: false,
+  },
+};
+
+function passOf(userPrompt: string): Pass {
+  if (userPrompt.startsWith('Convert this semantic interpretation')) return 'pass2';
+  if (userPrompt.includes('Produce the intent narrative JSON')) return 'pass3';
+  return 'pass1';
+}
+
+let inFlight: Pass[] = [];
+let peakInFlight: Pass[] = [];
+let log: string[] = [];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubEnv('OPENAI_API_KEY', 'test-key');
+  inFlight = [];
+  peakInFlight = [];
+  log = [];
+  callLLMJson.mockImplementation((_schema: unknown, _system: string, userPrompt: string) => {
+    const pass = passOf(userPrompt);
+    inFlight.push(pass);
+    if (inFlight.length > peakInFlight.length) peakInFlight = [...inFlight];
+    log.push(`start ${pass}`);
+    return new Promise(resolve => setTimeout(() => {
+      inFlight = inFlight.filter(p => p !== pass);
+      log.push(`end ${pass}`);
+      resolve({ data: RESPONSES[pass], raw: JSON.stringify(RESPONSES[pass]) });
+    }, PASS_MS[pass]));
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  callLLMJson.mockReset();
+});
+
+describe('extractStructuredMission concurrency', () => {
+  it('runs Pass 2 and Pass 3 side by side after Pass 1, never more than two calls at once', async () => {
+    const extraction = extractStructuredMission('find pubs in Lewes');
+    await vi.runAllTimersAsync();
+    const result = await extraction;
+
+    expect(result.ok).toBe(true);
+    expect(log).toEqual(['start pass1', 'end pass1', 'start pass3', 'start pass2', 'end pass2', 'end pass3']);
+    expect(peakInFlight).toEqual(['pass3', 'pass2']);
+    expect(result.trace).toMatchObject({ pass1_duration_ms: 1_000, pass2_duration_ms: 3_000, pass3_duration_ms: 5_000, pass3_status: 'complete', total_duration_ms: 6_000 });
+    expect(buildExtractionTiming(result.trace, result.trace.total_duration_ms, PASS_MS.pass1)).toMatchObject({
+      pass3_start_offset_ms: 1_000,
+      wall_ms: 6_000,
+      parallel_saved_ms: 3_000,
+    });
+  });
+
+  it('returns on Pass 2 when the narrative is deferred and folds Pass 3 in when it lands', async () => {
+    const extraction = extractStructuredMission('find pubs in Lewes', undefined, undefined, { deferIntentNarrative: true });
+    await vi.advanceTimersByTimeAsync(PASS_MS.pass1 + PASS_MS.pass2);
+    const result = await extraction;
+
+    expect(result.mission?.entity_category).toBe('pub');
+    expect(result.intentNarrative).toBeNull();
+    expect(result.trace.pass3_status).toBe('pending');
+    expect(inFlight).toEqual(['pass3']);
+
+    await vi.advanceTimersByTimeAsync(PASS_MS.pass3);
+    expect(await result.intentNarrativePending).toMatchObject({ entity_description: 'Pubs in Lewes' });
+    expect(result.trace).toMatchObject({ pass3_status: 'complete', pass3_duration_ms: 5_000 });
+  });
+});
+
+describe('buildExtractionTiming', () => {
+  const trace = {
+    pass1_duration_ms: 1_200,
+    expansion_duration_ms: 5,
+    pass2_duration_ms: 2_500,
+    pass3_duration_ms: 4_000,
+    pass3_status: 'complete',
+  } as MissionExtractionTrace;
+
+  it('credits the overlap of Pass 2 and Pass 3 as time saved', () => {
+    expect(buildExtractionTiming(trace, 5_300, 1_200)).toEqual({
+      pass1_ms: 1_200,
+      expansion_ms: 5,
+      pass2_ms: 2_500,
+      pass3_ms: 4_000,
+      pass3_status: 'complete',
+      pass3_start_offset_ms: 1_200,
+      wall_ms: 5_300,
+      parallel_saved_ms: 2_405,
+    });
+  });
+
+  it('never reports negative savings', () => {
+    expect(buildExtractionTiming({ ...trace, pass3_duration_ms: 0, pass3_status: 'failed' }, 9_000, 1_200).parallel_saved_ms).toBe(0);
+  });
+});
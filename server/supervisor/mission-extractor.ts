@@ -7,7 +7,8 @@ import {
   type ConstraintChecklist,
   type ImplicitExpansionTrace,
   type IntentNarrative,
-  parseAndValidateMissionJSON,
+  type MissionExtractionTiming,
+  validateStructuredMission,
   MISSION_CONSTRAINT_TYPES,
   MISSION_MODES,
   TEXT_COMPARE_OPERATORS,
@@ -24,6 +25,10 @@ import {
   HARDNESS_VALUES,
 } from './mission-schema';
 import { expandImplicitConstraints, type ImplicitExpansionResult } from './implicit-constraint-expander';
+import { z } from 'zod';
+import { isCassetteReplaying } from './cassette';
+import { callLLMJson, isLLMJsonError, type CallLLMJsonResult } from './llm-json';
+import type { LLMProvider } from './llm-failover';
 
 const PASS1_SYSTEM_PROMPT = `You are a semantic interpreter for a business search system. Your job is to read a messy user message and restate what the user is actually asking for in clean, unambiguous language.
 
@@ -216,22 +221,10 @@ Output:
 
 Return ONLY valid JSON matching this structure. No markdown fences, no commentary.`;
 
-const PASS2_SYSTEM_PROMPT = `You are a schema mapper for a business search system. You receive a clean semantic interpretation of a user request and, when available, an INTENT ANALYSIS CONTEXT section produced by a prior intent analysis pass. Your job is to convert the semantic interpretation into a fixed JSON schema using ONLY the allowed types, operators, and values.
-
-WHEN INTENT ANALYSIS CONTEXT IS PROVIDED, follow these rules before extracting any constraint:
-
-- entity_description tells you what the user actually wants. It MAY contain definitional language describing what kind of entity it is (e.g. "pubs that serve drinks and have a bar area"). Such definitional language describes the entity type, not user-required constraints. Use entity_description to understand intent — NOT as a literal source of constraints.
-
-- entity_exclusions list things that look similar but are wrong. These are NOT constraints to verify — they are exclusion signals. NEVER create a constraint whose value matches or targets something in entity_exclusions.
-
-- key_discriminator may contain TWO distinct parts that you MUST separate:
-  1. ENTITY TYPE DEFINITION — sentences of the form "Is a [type] — [defining properties]. NOT a [different type]." This text exists for the evidence layer to verify entity type. It is DEFINITIONAL. It is NEVER a source of constraints. Do not turn definitional properties (like "serves drinks", "has a bar area", "cuts hair", "serves meals") into attribute_check, status_check, or any other constraint.
-  2. USER REQUIREMENT SIGNALS — any other text describing what the user specifically asked for beyond entity type. This part MAY inform constraint extraction.
-
-- commercial_context explains why the user wants this. Never a source of constraints.
+const PASS2_SYSTEM_PROMPT = `You are a schema mapper for a business search system. You receive a clean semantic interpretation of a user request. Your job is to convert the semantic interpretation into a fixed JSON schema using ONLY the allowed types, operators, and values.
 
 ANCHOR RULE (applies to every constraint you emit):
-Every constraint you emit MUST anchor to an explicit phrase in the Pass 1 semantic interpretation. Before emitting a constraint, ask: "Does the semantic interpretation contain a specific phrase that requires this?" If yes, emit it. If no — if you can only justify the constraint from key_discriminator's entity-type definition, from entity_description's definitional language, or from your own knowledge of what the entity type implies — DO NOT EMIT IT.
+Every constraint you emit MUST anchor to an explicit phrase in the Pass 1 semantic interpretation. Before emitting a constraint, ask: "Does the semantic interpretation contain a specific phrase that requires this?" If yes, emit it. If no — if you can only justify the constraint from your own knowledge of what the entity type is or implies — DO NOT EMIT IT.
 
 Examples of what NOT to do:
 - User: "find pubs in Arundel" → semantic interpretation contains no attribute requirements → emit only location_constraint. Do NOT emit attribute_check: "serves drinks". Do NOT emit attribute_check: "bar area". These are part of what a pub IS, not what the user specifically asked for.
@@ -245,16 +238,13 @@ Examples of what to do:
 Extract ONLY constraints that:
 1. Can be verified by visiting a business website or checking a directory
 2. Are anchored to an explicit phrase in the Pass 1 semantic interpretation — NOT inferred from entity type definitions
-3. Would genuinely distinguish a correct result from something in entity_exclusions
+3. Would genuinely distinguish a correct result from a similar-looking wrong one
 
 EXAMPLE — bottle shop query:
-- entity_description: independent retail shops stocking craft beer from multiple producers
-- entity_exclusions: ["breweries selling their own beer", "supermarkets and chain off-licences"]
-- key_discriminator: sells multiple brands of craft beer — not a single producer's own products
-- commercial_context: brewery owner seeking retail stockists for their product
+- semantic interpretation: the user runs a brewery and wants independent bottle shops that stock craft beer from multiple producers, as possible stockists for their beer
 → CORRECT constraint: website_evidence containing "craft beer" or "bottle shop" or "independent off-licence"
-→ WRONG constraint: relationship_check for "brewery" — brewery appears in entity_exclusions, NOT as a target
-→ WRONG constraint: any constraint derived from "sell my beer from my brewery" — this is commercial_context only
+→ WRONG constraint: relationship_check for "brewery" — the user's brewery is why they are searching, NOT a target
+→ WRONG constraint: any constraint derived from "sell my beer from my brewery" — that is the user's commercial context only
 
 If no constraint can be reliably verified from a website visit, return an empty constraints array. A clean entity_category with good discovery is always better than a wrong constraint.
 
@@ -805,13 +795,40 @@ function truncateContext(ctx: string | undefined): string | undefined {
 export interface MissionExtractionResult {
   trace: MissionExtractionTrace;
   mission: StructuredMission | null;
+  /** Null while Pass 3 is still running (deferIntentNarrative) */
   intentNarrative: IntentNarrative | null;
+  /** Settles with the Pass 3 narrative; already settled unless deferIntentNarrative was set */
+  intentNarrativePending?: Promise<IntentNarrative | null>;
   ok: boolean;
 }
 
+export interface MissionExtractionOptions {
+  /**
+   * Return as soon as Pass 2 is validated instead of waiting for Pass 3; the
+   * narrative arrives through intentNarrativePending and is folded into the
+   * trace when it does.
+   */
+  deferIntentNarrative?: boolean;
+}
+
+interface EarlyEmitTarget {
+  runId: string;
+  userId: string;
+  conversationId?: string;
+  watchdogFeedback?: string;
+}
+
+interface Pass3Outcome {
+  narrative: IntentNarrative | null;
+  raw: string;
+  durationMs: number;
+}
+
 function selectModel(): string {
   if (process.env.OPENAI_API_KEY) return 'gpt-4o-mini';
   if (process.env.ANTHROPIC_API_KEY) return 'claude-3-5-haiku-20241022';
+  // Replayed calls are keyed on the prompts only, so any model will do
+  if (isCassetteReplaying()) return 'gpt-4o-mini';
   return 'none';
 }
 
@@ -827,38 +844,30 @@ async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-async function callLLM(model: string, systemPrompt: string, userPrompt: string): Promise<string> {
+/**
+ * Run one extractor pass through callLLMJson. The selected model's provider
+ * goes first with the other as failover; when every provider is rate-limited
+ * the whole call is retried with exponential backoff.
+ */
+async function callExtractorJson<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, model: string, systemPrompt: string, userPrompt: string): Promise<CallLLMJsonResult<T>> {
   const MAX_RETRIES = 3;
   const BASE_BACKOFF_MS = 2_000;
+  const providerChain: LLMProvider[] = model.startsWith('claude-') ? ['anthropic', 'openai'] : ['openai', 'anthropic'];
 
   let lastErr: any = null;
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
     try {
-      if (model === 'gpt-4o-mini') {
-        return await callOpenAI(systemPrompt, userPrompt);
-      }
-      if (model.startsWith('claude-')) {
-        return await callAnthropic(model, systemPrompt, userPrompt);
-      }
-      throw new Error('No LLM API key available (OPENAI_API_KEY or ANTHROPIC_API_KEY required)');
+      return await callLLMJson(schema, systemPrompt, userPrompt, 'mission_extractor', {
+        providerChain,
+        openaiModel: 'gpt-4o-mini',
+        anthropicModel: model.startsWith('claude-') ? model : 'claude-3-5-haiku-20241022',
+        maxTokens: 2000,
+        temperature: 0,
+      });
     } catch (err: any) {
       lastErr = err;
-      const rateLimit = isRateLimitError(err);
-
-      // If OpenAI rate-limited and we have Anthropic, try the fallback immediately first
-      if (rateLimit && model === 'gpt-4o-mini' && process.env.ANTHROPIC_API_KEY && attempt === 0) {
-        console.warn(`[MISSION_EXTRACTOR] OpenAI rate-limited — trying Anthropic Haiku fallback`);
-        try {
-          return await callAnthropic('claude-3-5-haiku-20241022', systemPrompt, userPrompt);
-        } catch (fallbackErr: any) {
-          lastErr = fallbackErr;
-          if (!isRateLimitError(fallbackErr)) throw fallbackErr;
-          // Both rate-limited — fall through to backoff retry
-        }
-      }
-
-      if (!rateLimit) throw err; // non-rate-limit errors fail fast
+      if (isLLMJsonError(err) || !isRateLimitError(err)) throw err; // non-rate-limit errors fail fast
       if (attempt === MAX_RETRIES) break;
 
       const backoff = BASE_BACKOFF_MS * Math.pow(2, attempt); // 2s, 4s, 8s
@@ -867,49 +876,7 @@ async function callLLM(model: string, systemPrompt: string, userPrompt: string):
     }
   }
 
-  throw lastErr || new Error('callLLM exhausted retries');
-}
-
-async function callOpenAI(systemPrompt: string, userPrompt: string): Promise<string> {
-  const { default: OpenAI } = await import('openai');
-  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
-    temperature: 0,
-    max_tokens: 2000,
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userPrompt },
-    ],
-  });
-  return response.choices[0]?.message?.content || '';
-}
-
-async function callAnthropic(model: string, systemPrompt: string, userPrompt: string): Promise<string> {
-  const resp = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': process.env.ANTHROPIC_API_KEY!,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 2000,
-      temperature: 0,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
-    }),
-  });
-
-  if (!resp.ok) {
-    const body = await resp.text();
-    throw new Error(`Anthropic API ${resp.status}: ${body.substring(0, 200)}`);
-  }
-
-  const data = await resp.json() as { content: Array<{ type: string; text?: string }> };
-  const textBlock = data.content?.find((b) => b.type === 'text');
-  return textBlock?.text || '';
+  throw lastErr || new Error('callExtractorJson exhausted retries');
 }
 
 const EMPTY_CHECKLIST: ConstraintChecklist = {
@@ -928,32 +895,44 @@ const EMPTY_CHECKLIST: ConstraintChecklist = {
   has_monitoring_intent: false,
 };
 
-function parsePass1Response(raw: string): { semantic_interpretation: string; constraint_checklist: ConstraintChecklist | null } {
-  const cleaned = cleanJsonResponse(raw);
-  try {
-    const parsed = JSON.parse(cleaned);
-    if (parsed && typeof parsed === 'object' && typeof parsed.semantic_interpretation === 'string') {
-      const checklist: ConstraintChecklist = { ...EMPTY_CHECKLIST };
-      if (parsed.constraint_checklist && typeof parsed.constraint_checklist === 'object') {
-        for (const key of Object.keys(EMPTY_CHECKLIST) as (keyof ConstraintChecklist)[]) {
-          if (typeof parsed.constraint_checklist[key] === 'boolean') {
-            checklist[key] = parsed.constraint_checklist[key];
-          }
-        }
-      }
-      return { semantic_interpretation: parsed.semantic_interpretation, constraint_checklist: checklist };
-    }
-  } catch {}
-  return { semantic_interpretation: raw.trim(), constraint_checklist: null };
-}
-
-function cleanJsonResponse(raw: string): string {
-  let s = raw.trim();
-  if (s.startsWith('```json')) s = s.slice(7);
-  else if (s.startsWith('```')) s = s.slice(3);
-  if (s.endsWith('```')) s = s.slice(0, -3);
-  return s.trim();
-}
+const ChecklistFlag = z.unknown().transform(value => value === true);
+
+const Pass1ResponseSchema = z.object({
+  semantic_interpretation: z.string(),
+  constraint_checklist: z.object(
+    Object.fromEntries(Object.keys(EMPTY_CHECKLIST).map(key => [key, ChecklistFlag])) as Record<keyof ConstraintChecklist, typeof ChecklistFlag>,
+  ).nullish().transform((checklist): ConstraintChecklist => ({ ...EMPTY_CHECKLIST, ...checklist })),
+});
+
+const Pass3ResponseSchema = z.object({
+  entity_description: z.string(),
+  entity_exclusions: z.array(z.string()),
+  commercial_context: z.string(),
+  key_discriminator: z.string(),
+  findability: z.string().transform((findability): IntentNarrative['findability'] =>
+    (findability === 'easy' || findability === 'moderate' || findability === 'hard' || findability === 'very_hard') ? findability : 'moderate'),
+  findability_reason: z.string(),
+  suggested_approaches: z.array(z.string()),
+  fallback_intent: z.string(),
+  scarcity_expectation: z.string().transform((scarcity): IntentNarrative['scarcity_expectation'] =>
+    (scarcity === 'abundant' || scarcity === 'moderate' || scarcity === 'scarce' || scarcity === 'unknown') ? scarcity : 'unknown'),
+  clarification_needed: z.boolean(),
+  clarification_question: z.unknown().transform(question => typeof question === 'string' ? question : null),
+  ambiguity_flags: z.array(z.string()),
+});
+
+/**
+ * Pass 2 output: trimmed, then checked against StructuredMissionSchema and
+ * the per-constraint operator rules, whose errors become repair issues.
+ */
+const Pass2ResponseSchema = z.record(z.unknown()).transform((raw, ctx): MissionValidationResult => {
+  const validation = validateStructuredMission(cleanupMissionValues(raw));
+  if (!validation.ok) {
+    for (const message of validation.errors) ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    return z.NEVER;
+  }
+  return validation;
+});
 
 function cleanupMissionValues(mission: Record<string, unknown>): Record<string, unknown> {
   if (Array.isArray(mission.constraints)) {
@@ -974,15 +953,84 @@ function cleanupMissionValues(mission: Record<string, unknown>): Record<string,
   return mission;
 }
 
+/**
+ * Pass 3: intent narrative. Never throws — a failed or malformed narrative is
+ * non-fatal and resolves with narrative null.
+ */
+async function runPass3(
+  model: string,
+  userMessage: string,
+  pass1Result: string,
+  truncatedContext: string | undefined,
+  earlyEmit: EarlyEmitTarget | undefined,
+): Promise<Pass3Outcome> {
+  const pass3TodayStr = `${new Date().toISOString().split('T')[0]} (${new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })})`;
+  const pass3CutoffStr = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const pass3Prompt = `TODAY'S DATE: ${pass3TodayStr}. When generating key_discriminators for time constraints, use specific date references. For "opened in the last 12 months", the key_discriminator should reference "opened after ${pass3CutoffStr}" not just "opened recently."
+
+Original user message: "${userMessage}"
+
+Pass 1 semantic interpretation: "${pass1Result}"
+${truncatedContext ? `\nConversation context (prior turns):\n${truncatedContext}\n` : ''}
+Produce the intent narrative JSON for this search.`;
+
+  const pass3Start = Date.now();
+  try {
+    const pass3 = await callExtractorJson(Pass3ResponseSchema, model, `${getCurrentDatePreamble()}\n\n${PASS3_SYSTEM_PROMPT}`, pass3Prompt);
+    const narrative: IntentNarrative = pass3.data;
+    const durationMs = Date.now() - pass3Start;
+    console.log(`[MISSION] Pass 3 complete — entity: ${narrative.entity_description.substring(0, 100)}`);
+    console.log(`[MISSION_EXTRACTOR] Pass 3 — findability=${narrative.findability} scarcity=${narrative.scarcity_expectation} clarification_needed=${narrative.clarification_needed} exclusions=${narrative.entity_exclusions.length} duration=${durationMs}ms`);
+    if (earlyEmit) {
+      // Fire and forget — the artefact write never delays the pipeline
+      import('./artefacts').then(({ createArtefact }) => {
+        createArtefact({
+          runId: earlyEmit.runId,
+          type: 'intent_narrative',
+          title: 'Intent Narrative (Pass 3)',
+          summary: `entity="${narrative.entity_description.substring(0, 80)}" scarcity=${narrative.scarcity_expectation} exclusions=${narrative.entity_exclusions.length}`,
+          payload: narrative as unknown as Record<string, unknown>,
+          userId: earlyEmit.userId,
+          conversationId: earlyEmit.conversationId,
+        }).catch((e: any) => console.warn(`[MISSION_EXTRACTOR] early intent_narrative emit failed (non-fatal): ${e.message}`));
+      });
+      console.log(`[MISSION_EXTRACTOR] Early intent_narrative emitted to UI`);
+    }
+    return { narrative, raw: pass3.raw, durationMs };
+  } catch (err: any) {
+    const durationMs = Date.now() - pass3Start;
+    if (isLLMJsonError(err)) {
+      console.warn(`[MISSION_EXTRACTOR] Pass 3 returned unexpected shape — skipping (non-fatal), execution will run without a narrative`);
+      return { narrative: null, raw: err.raw, durationMs };
+    }
+    console.warn(`[MISSION_EXTRACTOR] Pass 3 failed (non-fatal): ${err.message} — execution will run without a narrative`);
+    return { narrative: null, raw: '', durationMs };
+  }
+}
+
+/**
+ * Per-pass timings once every pass has settled. parallel_saved_ms is how much
+ * longer the old Pass 1 → Pass 3 → Pass 2 sequence would have taken.
+ */
+export function buildExtractionTiming(trace: MissionExtractionTrace, wallMs: number, pass3StartOffsetMs: number): MissionExtractionTiming {
+  const sequentialMs = trace.pass1_duration_ms + trace.expansion_duration_ms + trace.pass2_duration_ms + trace.pass3_duration_ms;
+  return {
+    pass1_ms: trace.pass1_duration_ms,
+    expansion_ms: trace.expansion_duration_ms,
+    pass2_ms: trace.pass2_duration_ms,
+    pass3_ms: trace.pass3_duration_ms,
+    pass3_status: trace.pass3_status,
+    pass3_start_offset_ms: pass3StartOffsetMs,
+    wall_ms: wallMs,
+    parallel_saved_ms: Math.max(0, sequentialMs - wallMs),
+  };
+}
+
 export async function extractStructuredMission(
   userMessage: string,
   conversationContext?: string,
-  earlyEmit?: {
-    runId: string;
-    userId: string;
-    conversationId?: string;
-    watchdogFeedback?: string;
-  },
+  earlyEmit?: EarlyEmitTarget,
+  options: MissionExtractionOptions = {},
 ): Promise<MissionExtractionResult> {
   const model = selectModel();
   const timestamp = new Date().toISOString();
@@ -999,8 +1047,10 @@ export async function extractStructuredMission(
       pass3_intent_narrative: null,
       pass3_raw_json: '',
       pass3_duration_ms: 0,
+      pass3_status: 'skipped',
       model: 'none',
       pass1_duration_ms: 0,
+      expansion_duration_ms: 0,
       pass2_duration_ms: 0,
       total_duration_ms: 0,
       timestamp,
@@ -1018,44 +1068,61 @@ export async function extractStructuredMission(
     pass1Prompt = `Interpret the semantic meaning of this user message:\n\n"${userMessage}"`;
   }
 
-  let pass1RawResult = '';
+  let pass1Result: string;
+  let pass1Checklist: ConstraintChecklist | null;
   const pass1Start = Date.now();
   try {
-    pass1RawResult = await callLLM(model, `${getCurrentDatePreamble()}\n\n${PASS1_SYSTEM_PROMPT}`, pass1Prompt);
+    ({ data: { semantic_interpretation: pass1Result, constraint_checklist: pass1Checklist } } =
+      await callExtractorJson(Pass1ResponseSchema, model, `${getCurrentDatePreamble()}\n\n${PASS1_SYSTEM_PROMPT}`, pass1Prompt));
+    console.log(`[MISSION_EXTRACTOR] Pass 1 checklist: ${JSON.stringify(pass1Checklist)}`);
   } catch (err: any) {
-    const duration = Date.now() - pass1Start;
-    const trace: MissionExtractionTrace = {
-      raw_user_input: userMessage,
-      pass1_semantic_interpretation: '',
-      pass1_constraint_checklist: null,
-      implicit_expansion: null,
-      pass2_structured_mission: null,
-      pass2_raw_json: '',
-      validation_result: { ok: false, mission: null, errors: [`Pass 1 LLM call failed: ${err.message}`] },
-      pass3_intent_narrative: null,
-      pass3_raw_json: '',
-      pass3_duration_ms: 0,
-      model,
-      pass1_duration_ms: duration,
-      pass2_duration_ms: 0,
-      total_duration_ms: duration,
-      timestamp,
-      failure_stage: 'pass1_llm_call',
-    };
-    console.error(`[MISSION_EXTRACTOR] Pass 1 failed: ${err.message}`);
-    return { trace, mission: null, intentNarrative: null, ok: false };
+    if (isLLMJsonError(err)) {
+      // Prose answers are still an interpretation; a rejected JSON payload is
+      // not, so Pass 2 falls back to the user's own words
+      if (err.stage === 'parse') {
+        console.warn(`[MISSION_EXTRACTOR] Pass 1 returned non-JSON — checklist unavailable, falling back to raw text`);
+        pass1Result = err.raw.trim();
+      } else {
+        console.warn(`[MISSION_EXTRACTOR] Pass 1 JSON failed validation — checklist unavailable, falling back to the user message`);
+        pass1Result = userMessage;
+      }
+      pass1Checklist = null;
+    } else {
+      const duration = Date.now() - pass1Start;
+      const trace: MissionExtractionTrace = {
+        raw_user_input: userMessage,
+        pass1_semantic_interpretation: '',
+        pass1_constraint_checklist: null,
+        implicit_expansion: null,
+        pass2_structured_mission: null,
+        pass2_raw_json: '',
+        validation_result: { ok: false, mission: null, errors: [`Pass 1 LLM call failed: ${err.message}`] },
+        pass3_intent_narrative: null,
+        pass3_raw_json: '',
+        pass3_duration_ms: 0,
+        pass3_status: 'skipped',
+        model,
+        pass1_duration_ms: duration,
+        expansion_duration_ms: 0,
+        pass2_duration_ms: 0,
+        total_duration_ms: duration,
+        timestamp,
+        failure_stage: 'pass1_llm_call',
+      };
+      console.error(`[MISSION_EXTRACTOR] Pass 1 failed: ${err.message}`);
+      return { trace, mission: null, intentNarrative: null, ok: false };
+    }
   }
   const pass1Duration = Date.now() - pass1Start;
 
-  const { semantic_interpretation: pass1Result, constraint_checklist: pass1Checklist } = parsePass1Response(pass1RawResult);
-
-  if (pass1Checklist) {
-    console.log(`[MISSION_EXTRACTOR] Pass 1 checklist: ${JSON.stringify(pass1Checklist)}`);
-  } else {
-    console.warn(`[MISSION_EXTRACTOR] Pass 1 returned non-JSON — checklist unavailable, falling back to raw text`);
-  }
+  // Pass 3 only needs Pass 1's interpretation, so it runs alongside the
+  // expander and Pass 2 rather than after them.
+  const pass3Start = Date.now();
+  const pass3Promise = runPass3(model, userMessage, pass1Result, truncatedContext, earlyEmit);
 
+  const expansionStart = Date.now();
   const expansion = expandImplicitConstraints(userMessage, pass1Checklist, pass1Result);
+  const expansionDuration = Date.now() - expansionStart;
   const expansionTrace: ImplicitExpansionTrace = {
     explicit_constraints: expansion.explicit_constraints,
     inferred_constraints: expansion.inferred_constraints,
@@ -1076,176 +1143,44 @@ export async function extractStructuredMission(
     console.log(`[MISSION_EXTRACTOR] Pass 2 input enriched with addendum: "${expansion.semantic_addendum}"`);
   }
 
-  console.log(`[MISSION] Pass 1 complete`);
-
-  // === PASS 3: intent narrative — runs BEFORE Pass 2 to guide constraint extraction ===
-  let pass3IntentNarrative: IntentNarrative | null = null;
-  let pass3RawJson = '';
-  let pass3DurationMs = 0;
-
-  const pass3TodayStr = `${new Date().toISOString().split('T')[0]} (${new Date().toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })})`;
-  const pass3CutoffStr = new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-  const pass3Prompt = `TODAY'S DATE: ${pass3TodayStr}. When generating key_discriminators for time constraints, use specific date references. For "opened in the last 12 months", the key_discriminator should reference "opened after ${pass3CutoffStr}" not just "opened recently."
-
-Original user message: "${userMessage}"
-
-Pass 1 semantic interpretation: "${pass1Result}"
-${truncatedContext ? `\nConversation context (prior turns):\n${truncatedContext}\n` : ''}
-Produce the intent narrative JSON for this search.`;
-
-  const pass3Start = Date.now();
-  try {
-    pass3RawJson = await callLLM(model, `${getCurrentDatePreamble()}\n\n${PASS3_SYSTEM_PROMPT}`, pass3Prompt);
-    pass3DurationMs = Date.now() - pass3Start;
-    const pass3Cleaned = cleanJsonResponse(pass3RawJson);
-    const pass3Parsed = JSON.parse(pass3Cleaned);
-    if (
-      pass3Parsed &&
-      typeof pass3Parsed.entity_description === 'string' &&
-      Array.isArray(pass3Parsed.entity_exclusions) &&
-      typeof pass3Parsed.commercial_context === 'string' &&
-      typeof pass3Parsed.key_discriminator === 'string' &&
-      typeof pass3Parsed.findability === 'string' &&
-      typeof pass3Parsed.findability_reason === 'string' &&
-      Array.isArray(pass3Parsed.suggested_approaches) &&
-      typeof pass3Parsed.fallback_intent === 'string' &&
-      typeof pass3Parsed.scarcity_expectation === 'string' &&
-      typeof pass3Parsed.clarification_needed === 'boolean' &&
-      Array.isArray(pass3Parsed.ambiguity_flags)
-    ) {
-      const scarcity = pass3Parsed.scarcity_expectation;
-      const findability = pass3Parsed.findability;
-      pass3IntentNarrative = {
-        entity_description: pass3Parsed.entity_description,
-        entity_exclusions: pass3Parsed.entity_exclusions,
-        commercial_context: pass3Parsed.commercial_context,
-        key_discriminator: pass3Parsed.key_discriminator,
-        findability: (findability === 'easy' || findability === 'moderate' || findability === 'hard' || findability === 'very_hard') ? findability : 'moderate',
-        findability_reason: pass3Parsed.findability_reason,
-        suggested_approaches: pass3Parsed.suggested_approaches,
-        fallback_intent: pass3Parsed.fallback_intent,
-        scarcity_expectation: (scarcity === 'abundant' || scarcity === 'moderate' || scarcity === 'scarce' || scarcity === 'unknown') ? scarcity : 'unknown',
-        clarification_needed: pass3Parsed.clarification_needed,
-        clarification_question: typeof pass3Parsed.clarification_question === 'string' ? pass3Parsed.clarification_question : null,
-        ambiguity_flags: pass3Parsed.ambiguity_flags,
-      };
-      console.log(`[MISSION] Pass 3 complete — entity: ${pass3IntentNarrative.entity_description.substring(0, 100)}`);
-      console.log(`[MISSION_EXTRACTOR] Pass 3 — findability=${pass3IntentNarrative.findability} scarcity=${pass3IntentNarrative.scarcity_expectation} clarification_needed=${pass3IntentNarrative.clarification_needed} exclusions=${pass3IntentNarrative.entity_exclusions.length} duration=${pass3DurationMs}ms`);
-      if (earlyEmit && pass3IntentNarrative) {
-        // Fire and forget — don't block Pass 2 on the artefact write
-        import('./artefacts').then(({ createArtefact }) => {
-          createArtefact({
-            runId: earlyEmit.runId,
-            type: 'intent_narrative',
-            title: 'Intent Narrative (Pass 3)',
-            summary: `entity="${pass3IntentNarrative!.entity_description.substring(0, 80)}" scarcity=${pass3IntentNarrative!.scarcity_expectation} exclusions=${pass3IntentNarrative!.entity_exclusions.length}`,
-            payload: pass3IntentNarrative as unknown as Record<string, unknown>,
-            userId: earlyEmit.userId,
-            conversationId: earlyEmit.conversationId,
-          }).catch((e: any) => console.warn(`[MISSION_EXTRACTOR] early intent_narrative emit failed (non-fatal): ${e.message}`));
-        });
-        console.log(`[MISSION_EXTRACTOR] Early intent_narrative emitted to UI`);
-      }
-    } else {
-      console.warn(`[MISSION_EXTRACTOR] Pass 3 returned unexpected shape — skipping (non-fatal), Pass 2 will run without context`);
-    }
-  } catch (err: any) {
-    pass3DurationMs = Date.now() - pass3Start;
-    console.warn(`[MISSION_EXTRACTOR] Pass 3 failed (non-fatal): ${err.message} — Pass 2 will run without context`);
-  }
-
-  // === PASS 2: schema mapping — receives Pass 3 context when available ===
-  let pass2Prompt: string;
-  if (pass3IntentNarrative) {
-    pass2Prompt = `INTENT ANALYSIS CONTEXT (use this to guide constraint extraction):
-entity_description: ${pass3IntentNarrative.entity_description}
-entity_exclusions: ${JSON.stringify(pass3IntentNarrative.entity_exclusions)}
-commercial_context: ${pass3IntentNarrative.commercial_context}
-key_discriminator: ${pass3IntentNarrative.key_discriminator}
-suggested_approaches: ${JSON.stringify(pass3IntentNarrative.suggested_approaches)}
-
-Convert this semantic interpretation into the structured mission JSON schema:
+  console.log(`[MISSION] Pass 1 complete — Pass 3 in flight, starting Pass 2`);
 
-"${pass2Input}"`;
-  } else {
-    pass2Prompt = `Convert this semantic interpretation into the structured mission JSON schema:\n\n"${pass2Input}"`;
-  }
+  // === PASS 2: schema mapping ===
+  const pass2Prompt = `Convert this semantic interpretation into the structured mission JSON schema:\n\n"${pass2Input}"`;
 
   let pass2RawResponse = '';
+  let validation: MissionValidationResult;
+  let failureStage: MissionFailureStage = 'none';
   const pass2Start = Date.now();
   try {
     const pass2SystemPromptParts = PASS2_SYSTEM_PROMPT.split('\n\nrelationship_check:');
     const pass2SystemPromptFull = pass2SystemPromptParts.length === 2
       ? `${getCurrentDatePreamble()}\n\n${pass2SystemPromptParts[0]}${earlyEmit?.watchdogFeedback ? `\n\n${earlyEmit.watchdogFeedback}\n\n` : ''}\n\nrelationship_check:${pass2SystemPromptParts[1]}`
       : `${getCurrentDatePreamble()}\n\n${PASS2_SYSTEM_PROMPT}`;
-    pass2RawResponse = await callLLM(model, pass2SystemPromptFull, pass2Prompt);
+    const pass2 = await callExtractorJson(Pass2ResponseSchema, model, pass2SystemPromptFull, pass2Prompt);
+    pass2RawResponse = pass2.raw;
+    validation = pass2.data;
   } catch (err: any) {
-    const pass2Duration = Date.now() - pass2Start;
-    const totalDuration = pass1Duration + pass3DurationMs + pass2Duration;
-    const trace: MissionExtractionTrace = {
-      raw_user_input: userMessage,
-      pass1_semantic_interpretation: pass1Result,
-      pass1_constraint_checklist: pass1Checklist,
-      implicit_expansion: expansionTrace,
-      pass2_structured_mission: null,
-      pass2_raw_json: '',
-      validation_result: { ok: false, mission: null, errors: [`Pass 2 LLM call failed: ${err.message}`] },
-      pass3_intent_narrative: pass3IntentNarrative,
-      pass3_raw_json: pass3RawJson,
-      pass3_duration_ms: pass3DurationMs,
-      model,
-      pass1_duration_ms: pass1Duration,
-      pass2_duration_ms: pass2Duration,
-      total_duration_ms: totalDuration,
-      timestamp,
-      failure_stage: 'pass2_llm_call',
-    };
-    console.error(`[MISSION_EXTRACTOR] Pass 2 failed: ${err.message}`);
-    return { trace, mission: null, intentNarrative: pass3IntentNarrative, ok: false };
+    if (isLLMJsonError(err)) {
+      pass2RawResponse = err.raw;
+      if (err.stage === 'parse') {
+        failureStage = 'pass2_json_parse';
+        validation = { ok: false, mission: null, errors: [`Pass 2 returned invalid JSON: ${err.raw.trim().substring(0, 200)}`] };
+        console.error(`[MISSION_EXTRACTOR] Pass 2 JSON parse failed`);
+      } else {
+        failureStage = 'pass2_schema_validation';
+        validation = { ok: false, mission: null, errors: err.issues };
+      }
+    } else {
+      failureStage = 'pass2_llm_call';
+      validation = { ok: false, mission: null, errors: [`Pass 2 LLM call failed: ${err.message}`] };
+      console.error(`[MISSION_EXTRACTOR] Pass 2 failed: ${err.message}`);
+    }
   }
   const pass2Duration = Date.now() - pass2Start;
-  const totalDuration = pass1Duration + pass3DurationMs + pass2Duration;
-
-  const cleanedJson = cleanJsonResponse(pass2RawResponse);
-
-  let parsedRaw: Record<string, unknown>;
-  try {
-    parsedRaw = JSON.parse(cleanedJson);
-  } catch {
-    const validation: MissionValidationResult = {
-      ok: false,
-      mission: null,
-      errors: [`Pass 2 returned invalid JSON: ${cleanedJson.substring(0, 200)}`],
-    };
-    const trace: MissionExtractionTrace = {
-      raw_user_input: userMessage,
-      pass1_semantic_interpretation: pass1Result,
-      pass1_constraint_checklist: pass1Checklist,
-      implicit_expansion: expansionTrace,
-      pass2_structured_mission: null,
-      pass2_raw_json: pass2RawResponse,
-      validation_result: validation,
-      pass3_intent_narrative: pass3IntentNarrative,
-      pass3_raw_json: pass3RawJson,
-      pass3_duration_ms: pass3DurationMs,
-      model,
-      pass1_duration_ms: pass1Duration,
-      pass2_duration_ms: pass2Duration,
-      total_duration_ms: totalDuration,
-      timestamp,
-      failure_stage: 'pass2_json_parse',
-    };
-    console.error(`[MISSION_EXTRACTOR] Pass 2 JSON parse failed`);
-    return { trace, mission: null, intentNarrative: pass3IntentNarrative, ok: false };
-  }
-
-  const cleaned = cleanupMissionValues(parsedRaw);
-  const validation = parseAndValidateMissionJSON(JSON.stringify(cleaned));
-
-  const failureStage: MissionFailureStage = validation.ok ? 'none' : 'pass2_schema_validation';
 
   if (validation.ok && validation.mission) {
-    console.log(`[MISSION] Pass 2 complete — constraints derived from Pass 3: ${JSON.stringify(validation.mission.constraints)}`);
+    console.log(`[MISSION] Pass 2 complete — constraints: ${JSON.stringify(validation.mission.constraints)}`);
   }
 
   const trace: MissionExtractionTrace = {
@@ -1256,30 +1191,64 @@ Convert this semantic interpretation into the structured mission JSON schema:
     pass2_structured_mission: validation.mission,
     pass2_raw_json: pass2RawResponse,
     validation_result: validation,
-    pass3_intent_narrative: pass3IntentNarrative,
-    pass3_raw_json: pass3RawJson,
-    pass3_duration_ms: pass3DurationMs,
+    pass3_intent_narrative: null,
+    pass3_raw_json: '',
+    pass3_duration_ms: 0,
+    pass3_status: 'pending',
     model,
     pass1_duration_ms: pass1Duration,
+    expansion_duration_ms: expansionDuration,
     pass2_duration_ms: pass2Duration,
-    total_duration_ms: totalDuration,
+    total_duration_ms: 0,
     timestamp,
     failure_stage: failureStage,
   };
 
+  // Pass 3 folds into the trace whenever it lands — before this function
+  // returns, or later when the caller deferred the narrative.
+  const intentNarrativePending = pass3Promise.then(outcome => {
+    trace.pass3_intent_narrative = outcome.narrative;
+    trace.pass3_raw_json = outcome.raw;
+    trace.pass3_duration_ms = outcome.durationMs;
+    trace.pass3_status = outcome.narrative ? 'complete' : 'failed';
+    const timing = buildExtractionTiming(trace, Date.now() - pass1Start, pass3Start - pass1Start);
+    console.log(`[MISSION_EXTRACTOR] Timing — pass1=${timing.pass1_ms}ms pass2=${timing.pass2_ms}ms pass3=${timing.pass3_ms}ms (${timing.pass3_status}) wall=${timing.wall_ms}ms saved=${timing.parallel_saved_ms}ms`);
+    if (earlyEmit) {
+      import('./artefacts').then(({ createArtefact }) => createArtefact({
+        runId: earlyEmit.runId,
+        type: 'mission_extraction_timing',
+        title: 'Mission extraction timing',
+        summary: `pass1=${timing.pass1_ms}ms pass2=${timing.pass2_ms}ms pass3=${timing.pass3_ms}ms wall=${timing.wall_ms}ms`,
+        payload: timing as unknown as Record<string, unknown>,
+        userId: earlyEmit.userId,
+        conversationId: earlyEmit.conversationId,
+      })).catch((e: any) => console.warn(`[MISSION_EXTRACTOR] timing artefact failed (non-fatal): ${e.message}`));
+    }
+    return outcome.narrative;
+  });
+
+  if (!options.deferIntentNarrative) await intentNarrativePending;
+  trace.total_duration_ms = Date.now() - pass1Start;
+
   if (validation.ok) {
     console.log(
       `[MISSION_EXTRACTOR] Success — entity="${validation.mission!.entity_category}" ` +
       `location="${validation.mission!.location_text}" mode="${validation.mission!.mission_mode}" ` +
       `constraints=${validation.mission!.constraints.length} model=${model} ` +
-      `pass1=${pass1Duration}ms pass3=${pass3DurationMs}ms pass2=${pass2Duration}ms total=${totalDuration}ms`
+      `pass1=${pass1Duration}ms pass2=${pass2Duration}ms pass3=${trace.pass3_status === 'pending' ? 'pending' : `${trace.pass3_duration_ms}ms`} total=${trace.total_duration_ms}ms`
     );
   } else {
     console.warn(
       `[MISSION_EXTRACTOR] Validation failed — errors: ${validation.errors.join('; ')} ` +
-      `model=${model} total=${totalDuration}ms`
+      `model=${model} total=${trace.total_duration_ms}ms`
     );
   }
 
-  return { trace, mission: validation.mission, intentNarrative: pass3IntentNarrative, ok: validation.ok };
+  return {
+    trace,
+    mission: validation.mission,
+    intentNarrative: trace.pass3_intent_narrative,
+    intentNarrativePending,
+    ok: validation.ok,
+  };
 }
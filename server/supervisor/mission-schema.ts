@@ -329,10 +329,29 @@ export interface MissionExtractionTrace {
   pass3_intent_narrative: IntentNarrative | null;
   pass3_raw_json: string;
   pass3_duration_ms: number;
+  /** Pass 3 runs alongside Pass 2; 'pending' while the caller has moved on without it */
+  pass3_status: Pass3Status;
   model: string;
   pass1_duration_ms: number;
+  expansion_duration_ms: number;
   pass2_duration_ms: number;
+  /** Wall clock from Pass 1 until the extractor returned */
   total_duration_ms: number;
   timestamp: string;
   failure_stage: MissionFailureStage;
 }
+
+export type Pass3Status = 'complete' | 'failed' | 'pending' | 'skipped';
+
+export interface MissionExtractionTiming {
+  pass1_ms: number;
+  expansion_ms: number;
+  pass2_ms: number;
+  pass3_ms: number;
+  pass3_status: Pass3Status;
+  /** When Pass 3 started, relative to the start of Pass 1 */
+  pass3_start_offset_ms: number;
+  /** Pass 1 start until every pass had settled */
+  wall_ms: number;
+  parallel_saved_ms: number;
+}
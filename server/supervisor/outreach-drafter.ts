@@ -5,6 +5,9 @@
  * Uses: lead data, contact info, user context, intent narrative.
  */
 
+import { z } from 'zod';
+import { callLLMJson } from './llm-json';
+
 export interface DraftInput {
   leadName: string;
   leadAddress: string;
@@ -35,6 +38,13 @@ export interface DraftOutput {
   personalisationNotes: string;
 }
 
+const DraftResponseSchema = z.object({
+  subject: z.string().min(1),
+  body_text: z.string().min(1),
+  body_html: z.string().nullish(),
+  personalisation_notes: z.string().nullish(),
+});
+
 export async function draftOutreachEmail(input: DraftInput): Promise<DraftOutput> {
   if (process.env.WYSHBONE_ENV === 'dev') {
     console.log('[OUTREACH_DRAFTER] Dev mode — returning stub email, no LLM call');
@@ -47,14 +57,6 @@ export async function draftOutreachEmail(input: DraftInput): Promise<DraftOutput
     };
   }
 
-  const openaiKey = process.env.OPENAI_API_KEY;
-  if (!openaiKey) {
-    throw new Error('OPENAI_API_KEY not set — cannot draft outreach emails');
-  }
-
-  const { default: OpenAI } = await import('openai');
-  const client = new OpenAI({ apiKey: openaiKey });
-
   const contactLine = input.contactName
     ? `Contact: ${input.contactName}${input.contactRole ? ` (${input.contactRole})` : ''} at ${input.contactEmail || 'no email found'}`
     : input.contactEmail
@@ -111,25 +113,13 @@ Respond with JSON only, no markdown fences:
   const model = process.env.OUTREACH_DRAFT_MODEL || 'gpt-4o-mini';
 
   try {
-    const resp = await client.chat.completions.create({
-      model,
-      messages: [{ role: 'user', content: prompt }],
+    const result = await callLLMJson(DraftResponseSchema, 'You write short, personalised B2B outreach emails. Respond with JSON only.', prompt, 'outreach_drafter', {
+      providerChain: ['openai', 'anthropic'],
+      openaiModel: model,
       temperature: 0.7,
-      max_tokens: 1024,
-      response_format: { type: 'json_object' },
+      maxTokens: 1024,
     });
-
-    const raw = (resp.choices[0]?.message?.content ?? '').trim();
-    const parsed = JSON.parse(raw) as {
-      subject: string;
-      body_text: string;
-      body_html: string;
-      personalisation_notes: string;
-    };
-
-    if (!parsed.subject || !parsed.body_text) {
-      throw new Error('Draft response missing required fields');
-    }
+    const parsed = result.data;
 
     console.log(`[OUTREACH_DRAFTER] Drafted email for "${input.leadName}" — subject="${parsed.subject}" notes="${parsed.personalisation_notes?.substring(0, 100)}"`);
 
@@ -137,7 +127,7 @@ Respond with JSON only, no markdown fences:
       subject: parsed.subject,
       bodyText: parsed.body_text,
       bodyHtml: parsed.body_html || `<p>${parsed.body_text.replace(/\n/g, '<br>')}</p>`,
-      model,
+      model: result.model ?? model,
       personalisationNotes: parsed.personalisation_notes || '',
     };
   } catch (err: any) {
@@ -1,5 +1,6 @@
 import type { StructuredMission } from './mission-schema';
-import { callLLMText } from './llm-failover';
+import { z } from 'zod';
+import { callLLMJson, isLLMJsonError } from './llm-json';
 import { logAFREvent } from './afr-logger';
 
 export type WatchdogVerdict = 'pass' | 'retry' | 'block';
@@ -83,59 +84,17 @@ PASS 2 STRUCTURED MISSION:
 ${JSON.stringify(mission, null, 2)}`;
 }
 
-function stripJsonFences(text: string): string {
-  return text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```\s*$/i, '').trim();
-}
-
-function safeParseJson(text: string): { ok: boolean; parsed: any; error: string | null } {
-  try {
-    const cleaned = stripJsonFences(text);
-    return { ok: true, parsed: JSON.parse(cleaned), error: null };
-  } catch (e: any) {
-    return { ok: false, parsed: null, error: e.message };
-  }
-}
-
-function validateAndCoerce(raw: any): { result: Omit<WatchdogResult, 'latency_ms' | 'provider_used' | 'raw_response' | 'parse_ok' | 'failure_reason'>; error: string | null } {
-  const fallback = {
-    result: {
-      verdict: 'pass' as WatchdogVerdict,
-      ok: true,
-      dropped_concepts: [],
-      reasoning: 'watchdog output failed validation — defaulted to pass',
-    },
-    error: null as string | null,
-  };
-
-  if (!raw || typeof raw !== 'object') {
-    return { ...fallback, error: 'response not an object' };
-  }
-
-  const verdictRaw = raw.verdict;
-  const validVerdicts: WatchdogVerdict[] = ['pass', 'retry', 'block'];
-  if (!validVerdicts.includes(verdictRaw)) {
-    return { ...fallback, error: `invalid verdict: ${verdictRaw}` };
-  }
-
-  const droppedRaw = Array.isArray(raw.dropped_concepts) ? raw.dropped_concepts : [];
-  const dropped: WatchdogDroppedConcept[] = droppedRaw.map((d: any) => ({
+const WatchdogResponseSchema = z.object({
+  verdict: z.enum(['pass', 'retry', 'block']),
+  dropped_concepts: z.unknown().transform((value): WatchdogDroppedConcept[] => (Array.isArray(value) ? value : []).map((d: any) => ({
     category: typeof d?.category === 'string' ? d.category : 'other',
     matched_phrase: typeof d?.matched_phrase === 'string' ? d.matched_phrase : '',
     expected_constraint_type: typeof d?.expected_constraint_type === 'string' ? d.expected_constraint_type : 'unknown',
     severity: d?.severity === 'soft' ? 'soft' : 'hard',
     reasoning: typeof d?.reasoning === 'string' ? d.reasoning : '',
-  }));
-
-  return {
-    result: {
-      verdict: verdictRaw,
-      ok: verdictRaw === 'pass',
-      dropped_concepts: dropped,
-      reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : '',
-    },
-    error: null,
-  };
-}
+  }))),
+  reasoning: z.unknown().transform(value => (typeof value === 'string' ? value : '')),
+});
 
 export async function runPass2Watchdog(
   rawInput: string,
@@ -149,9 +108,11 @@ export async function runPass2Watchdog(
   let rawText = '';
   let providerUsed: string | null = null;
   let failureReason: string | null = null;
+  let parsed: z.infer<typeof WatchdogResponseSchema> | null = null;
 
   try {
-    rawText = await callLLMText(
+    const response = await callLLMJson(
+      WatchdogResponseSchema,
       WATCHDOG_SYSTEM_PROMPT,
       userPrompt,
       'pass2_watchdog',
@@ -162,23 +123,31 @@ export async function runPass2Watchdog(
         providerChain: ['groq', 'anthropic', 'openai'],
       }
     );
-    // We don't get provider back from callLLMText — leave as null. Switch to callLLM if needed for telemetry.
+    parsed = response.data;
+    rawText = response.raw;
+    providerUsed = response.provider;
   } catch (e: any) {
-    failureReason = `llm_call_failed: ${e.message}`;
+    if (isLLMJsonError(e)) {
+      rawText = e.raw;
+      failureReason = `${e.stage === 'parse' ? 'json_parse_failed' : 'schema_validation_failed'}: ${e.issues.slice(0, 3).join('; ')}`;
+    } else {
+      failureReason = `llm_call_failed: ${e.message}`;
+    }
   }
 
   const latencyMs = Date.now() - started;
 
-  if (failureReason) {
+  if (!parsed) {
+    const llmFailed = failureReason?.startsWith('llm_call_failed') ?? true;
     const fallbackResult: WatchdogResult = {
       verdict: 'pass',
       ok: true,
       dropped_concepts: [],
-      reasoning: 'watchdog LLM call failed — failing open',
+      reasoning: llmFailed ? 'watchdog LLM call failed — failing open' : 'watchdog output failed validation — failing open',
       latency_ms: latencyMs,
       provider_used: null,
       parse_ok: false,
-      raw_response: '',
+      raw_response: rawText.slice(0, 2000),
       failure_reason: failureReason,
     };
     logAFREvent({
@@ -187,47 +156,23 @@ export async function runPass2Watchdog(
       conversationId: ctx.conversationId,
       actionTaken: 'pass2_watchdog',
       status: 'failed',
-      taskGenerated: `Pass 2 watchdog failed — failing open. ${failureReason}`,
+      taskGenerated: llmFailed ? `Pass 2 watchdog failed — failing open. ${failureReason}` : `Pass 2 watchdog JSON invalid — failing open`,
       runType: 'plan',
       metadata: { verdict: 'pass', dropped_count: 0, parse_ok: false, latency_ms: latencyMs, failure_reason: failureReason },
     }).catch(() => {});
     return fallbackResult;
   }
 
-  const parse = safeParseJson(rawText);
-  if (!parse.ok) {
-    const fallbackResult: WatchdogResult = {
-      verdict: 'pass',
-      ok: true,
-      dropped_concepts: [],
-      reasoning: 'watchdog JSON parse failed — failing open',
-      latency_ms: latencyMs,
-      provider_used: providerUsed,
-      parse_ok: false,
-      raw_response: rawText.slice(0, 2000),
-      failure_reason: `json_parse_failed: ${parse.error}`,
-    };
-    logAFREvent({
-      userId: ctx.userId,
-      runId: ctx.runId,
-      conversationId: ctx.conversationId,
-      actionTaken: 'pass2_watchdog',
-      status: 'failed',
-      taskGenerated: `Pass 2 watchdog JSON parse failed — failing open`,
-      runType: 'plan',
-      metadata: { verdict: 'pass', dropped_count: 0, parse_ok: false, latency_ms: latencyMs, failure_reason: fallbackResult.failure_reason },
-    }).catch(() => {});
-    return fallbackResult;
-  }
-
-  const validated = validateAndCoerce(parse.parsed);
   const result: WatchdogResult = {
-    ...validated.result,
+    verdict: parsed.verdict,
+    ok: parsed.verdict === 'pass',
+    dropped_concepts: parsed.dropped_concepts,
+    reasoning: parsed.reasoning,
     latency_ms: latencyMs,
     provider_used: providerUsed,
     parse_ok: true,
     raw_response: rawText.slice(0, 2000),
-    failure_reason: validated.error,
+    failure_reason: null,
   };
 
   logAFREvent({
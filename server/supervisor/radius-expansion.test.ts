@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { expandRadius, learnRadiusPolicy, planRadiusSteps, radiusRelaxations, type RadiusRing } from './radius-expansion';
+import type { RadiusPolicyKnob } from './learning-store';
+
+interface Place {
+  id?: string;
+  name: string;
+  km: number;
+}
+
+const POLICY: RadiusPolicyKnob = { default_steps_km: [2, 5, 10], max_cap_km: 10, min_new_eligible_to_continue: 2 };
+
+/** A bias circle of r km returns every place within r km, nearest first */
+function ringSearch(places: Place[], searched: number[] = []) {
+  return async (radiusKm: number) => {
+    searched.push(radiusKm);
+    return { candidates: places.filter(p => p.km <= radiusKm).sort((a, b) => a.km - b.km) };
+  };
+}
+
+function expand(places: Place[], overrides: Partial<Parameters<typeof expandRadius<Place>>[0]> = {}) {
+  return expandRadius<Place>({
+    policy: POLICY,
+    targetCount: null,
+    maxSearches: 10,
+    keyOf: p => p.name,
+    knownKeys: [],
+    isEligible: (p, radiusKm) => p.km <= radiusKm,
+    searchRing: ringSearch(places),
+    ...overrides,
+  });
+}
+
+describe('planRadiusSteps', () => {
+  it('orders the steps and drops any past the cap', () => {
+    expect(planRadiusSteps({ ...POLICY, default_steps_km: [10, 2, 5, 2, 20] })).toEqual([2, 5, 10]);
+    expect(planRadiusSteps({ ...POLICY, default_steps_km: [20], max_cap_km: 10 })).toEqual([10]);
+  });
+});
+
+describe('expandRadius', () => {
+  it('stops when a widening step adds fewer than min_new_eligible_to_continue', async () => {
+    const searched: number[] = [];
+    const places = [{ name: 'a', km: 1 }, { name: 'b', km: 3 }, { name: 'c', km: 4 }, { name: 'd', km: 8 }];
+    const result = await expand(places, { searchRing: ringSearch(places, searched) });
+
+    expect(result.rings).toEqual([
+      { radius_km: 2, results: 1, new_eligible: 1 },
+      { radius_km: 5, results: 3, new_eligible: 2 },
+      { radius_km: 10, results: 4, new_eligible: 1 },
+    ]);
+    expect(result.stopReason).toBe('diminishing_returns');
+    expect(searched).toEqual([2, 5, 10]);
+    expect(result.eligible.map(e => `${e.candidate.name}@${e.radiusKm}`)).toEqual(['a@2', 'b@5', 'c@5', 'd@10']);
+
+    const tight = await expand(places, { policy: { ...POLICY, default_steps_km: [2, 5, 6, 10] } });
+    expect(tight.rings.map(r => r.radius_km)).toEqual([2, 5, 6]);
+  });
+
+  it('never stops on the base ring, and skips entities earlier loops found', async () => {
+    const places = [{ name: 'a', km: 4 }, { name: 'b', km: 4.5 }, { name: 'c', km: 9 }, { name: 'd', km: 9.5 }, { name: 'e', km: 9.8 }];
+    const result = await expand(places, { knownKeys: ['c'] });
+
+    expect(result.rings.map(r => r.new_eligible)).toEqual([0, 2, 2]);
+    expect(result.stopReason).toBe('cap_reached');
+    expect(result.eligible.map(e => e.candidate.name)).toEqual(['a', 'b', 'd', 'e']);
+  });
+
+  it('counts same-name branches separately when keyed by listing', async () => {
+    const places = [
+      { id: 'p1', name: 'Costa', km: 1 }, { id: 'p2', name: 'Costa', km: 1.5 },
+      { id: 'p3', name: 'Pret', km: 3 }, { id: 'p4', name: 'Costa', km: 4 }, { id: 'p5', name: 'Gail\'s', km: 4.5 },
+    ];
+    const result = await expand(places, { keyOf: p => p.id!, knownKeyOf: p => p.name, knownKeys: ['Pret'] });
+
+    expect(result.rings.map(r => r.new_eligible)).toEqual([2, 2, 0]);
+    expect(result.eligible.map(e => e.candidate.id)).toEqual(['p1', 'p2', 'p4', 'p5']);
+  });
+
+  it('stops on target, cap, budget and search failure', async () => {
+    const places = Array.from({ length: 12 }, (_, i) => ({ name: `p${i}`, km: i + 0.5 }));
+    expect((await expand(places, { targetCount: 4 })).stopReason).toBe('target_met');
+    expect((await expand(places)).stopReason).toBe('cap_reached');
+    expect((await expand(places, { maxSearches: 1 })).rings).toHaveLength(1);
+    expect((await expand(places, { maxSearches: 1 })).stopReason).toBe('budget_exhausted');
+
+    const failed = await expand(places, { searchRing: async () => ({ candidates: [], error: 'HTTP 500' }) });
+    expect(failed).toMatchObject({ rings: [], stopReason: 'search_failed', errors: ['2 km: HTTP 500'] });
+  });
+});
+
+describe('radiusRelaxations', () => {
+  it('reports one relaxation per widening step', () => {
+    const rings: RadiusRing[] = [
+      { radius_km: 2, results: 3, new_eligible: 3 },
+      { radius_km: 5, results: 8, new_eligible: 4 },
+      { radius_km: 10, results: 9, new_eligible: 1 },
+    ];
+    expect(radiusRelaxations(rings)).toEqual([
+      expect.objectContaining({ constraint: 'search_radius', from: '2 km', to: '5 km', plan_version: 2 }),
+      expect.objectContaining({ constraint: 'search_radius', from: '5 km', to: '10 km', plan_version: 3 }),
+    ]);
+    expect(radiusRelaxations(rings.slice(0, 1))).toEqual([]);
+  });
+});
+
+describe('learnRadiusPolicy', () => {
+  const ring = (radius_km: number, new_eligible: number): RadiusRing => ({ radius_km, results: new_eligible, new_eligible });
+
+  it('raises the cap when the run hit it underfilled and still finding leads', () => {
+    expect(learnRadiusPolicy(POLICY, { rings: [ring(2, 3), ring(5, 4), ring(10, 3)], stopReason: 'cap_reached', underfilled: true }))
+      .toEqual({ default_steps_km: [2, 5, 10, 20], max_cap_km: 20, min_new_eligible_to_continue: 2 });
+    expect(learnRadiusPolicy(POLICY, { rings: [ring(2, 3), ring(5, 4), ring(10, 3)], stopReason: 'cap_reached', underfilled: false }))
+      .toBeNull();
+  });
+
+  it('drops leading rings that found nothing', () => {
+    expect(learnRadiusPolicy(POLICY, { rings: [ring(2, 0), ring(5, 6)], stopReason: 'target_met', underfilled: false }))
+      .toEqual({ default_steps_km: [5, 10], max_cap_km: 10, min_new_eligible_to_continue: 2 });
+  });
+
+  it('lowers the threshold when a thin ring ended an underfilled run', () => {
+    expect(learnRadiusPolicy(POLICY, { rings: [ring(2, 3), ring(5, 1)], stopReason: 'diminishing_returns', underfilled: true }))
+      .toEqual({ default_steps_km: [2, 5, 10], max_cap_km: 10, min_new_eligible_to_continue: 1 });
+    expect(learnRadiusPolicy(POLICY, { rings: [ring(2, 3), ring(5, 0)], stopReason: 'diminishing_returns', underfilled: true }))
+      .toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Radius Expansion
+ *
+ * Executes RadiusPolicyV1: search concentric rings around a centre point,
+ * widening through default_steps_km (capped at max_cap_km) until the target
+ * count is met, the cap is reached, or a widening step adds fewer than
+ * min_new_eligible_to_continue eligible leads. The first ring is the base
+ * search, so it is never stopped on its own yield.
+ *
+ * The ring search is passed in, keeping this module free of Places calls;
+ * reloop/gp-radius-adapter.ts supplies a Google Places search biased to each
+ * ring. Outcomes feed back into the per-shape learning store through
+ * learnRadiusPolicy.
+ */
+
+import type { SoftRelaxation } from './delivery-summary';
+import type { RadiusPolicyKnob } from './learning-store';
+
+/** Upper bound on a learned max_cap_km, matching writeOutcomePolicyVersion */
+export const RADIUS_CAP_LIMIT_KM = 100;
+
+/** How far a learned max_cap_km grows after an underfilled run that was still finding leads */
+export const RADIUS_CAP_GROWTH_KM = 10;
+
+export type RadiusStopReason =
+  | 'target_met'
+  | 'diminishing_returns'
+  | 'cap_reached'
+  | 'budget_exhausted'
+  | 'search_failed';
+
+export interface RadiusRing {
+  radius_km: number;
+  /** Places returned for the ring, before dedupe and eligibility */
+  results: number;
+  new_eligible: number;
+}
+
+export interface RadiusExpansionParams<T> {
+  policy: RadiusPolicyKnob;
+  /** Stop once this many eligible leads are found; null runs to the cap */
+  targetCount: number | null;
+  maxSearches: number;
+  /** Identity used to dedupe across rings */
+  keyOf: (candidate: T) => string;
+  /** Key matched against knownKeys; defaults to keyOf */
+  knownKeyOf?: (candidate: T) => string;
+  /** Keys of entities earlier loops already found */
+  knownKeys: string[];
+  isEligible: (candidate: T, radiusKm: number) => boolean;
+  searchRing: (radiusKm: number) => Promise<{ candidates: T[]; error?: string }>;
+}
+
+export interface RadiusExpansionResult<T> {
+  rings: RadiusRing[];
+  eligible: Array<{ candidate: T; radiusKm: number }>;
+  stopReason: RadiusStopReason;
+  errors: string[];
+}
+
+/**
+ * Ring radii to search, smallest first: the policy's steps up to the cap, or
+ * the cap alone when no step fits under it.
+ */
+export function planRadiusSteps(policy: RadiusPolicyKnob): number[] {
+  const steps = Array.from(new Set(policy.default_steps_km))
+    .filter(km => km > 0 && km <= policy.max_cap_km)
+    .sort((a, b) => a - b);
+  return steps.length > 0 ? steps : [policy.max_cap_km];
+}
+
+export async function expandRadius<T>(params: RadiusExpansionParams<T>): Promise<RadiusExpansionResult<T>> {
+  const { policy, targetCount, maxSearches, keyOf, isEligible, searchRing } = params;
+  const steps = planRadiusSteps(policy);
+  const knownKeyOf = params.knownKeyOf ?? keyOf;
+  const known = new Set(params.knownKeys);
+  const seen = new Set<string>();
+  const result: RadiusExpansionResult<T> = { rings: [], eligible: [], stopReason: 'cap_reached', errors: [] };
+
+  for (let i = 0; i < steps.length; i++) {
+    if (i >= maxSearches) {
+      result.stopReason = 'budget_exhausted';
+      break;
+    }
+
+    const radiusKm = steps[i];
+    const { candidates, error } = await searchRing(radiusKm);
+    if (error) {
+      result.errors.push(`${radiusKm} km: ${error}`);
+      result.stopReason = 'search_failed';
+      break;
+    }
+
+    let newEligible = 0;
+    for (const candidate of candidates) {
+      const key = keyOf(candidate);
+      // A candidate outside this ring may still qualify for a wider one, so
+      // only eligible candidates are marked as seen
+      if (seen.has(key) || known.has(knownKeyOf(candidate)) || !isEligible(candidate, radiusKm)) continue;
+      seen.add(key);
+      result.eligible.push({ candidate, radiusKm });
+      newEligible++;
+    }
+    result.rings.push({ radius_km: radiusKm, results: candidates.length, new_eligible: newEligible });
+
+    if (targetCount !== null && result.eligible.length >= targetCount) {
+      result.stopReason = 'target_met';
+      break;
+    }
+    if (i > 0 && newEligible < policy.min_new_eligible_to_continue) {
+      result.stopReason = 'diminishing_returns';
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * One soft relaxation per widening step, for the delivery summary. Plan
+ * versions start after the base search (version 1).
+ */
+export function radiusRelaxations(rings: RadiusRing[], firstPlanVersion = 2): SoftRelaxation[] {
+  return rings.slice(1).map((ring, i) => ({
+    constraint: 'search_radius',
+    from: `${rings[i].radius_km} km`,
+    to: `${ring.radius_km} km`,
+    reason: `${rings[i].radius_km} km ring left the search short; ${ring.radius_km} km ring added ${ring.new_eligible} new eligible lead${ring.new_eligible === 1 ? '' : 's'}`,
+    plan_version: firstPlanVersion + i,
+  }));
+}
+
+/**
+ * Adjust a shape's radius numbers from one run's rings. Returns null when the
+ * run gives no reason to change them.
+ *
+ *   - Leading rings that found nothing, in a run where a later ring did, are
+ *     dropped so the next run starts wider.
+ *   - A run that reached the cap underfilled while its last ring still met
+ *     min_new_eligible_to_continue raises the cap and adds it as a step.
+ *   - A run stopped underfilled by a ring that found some leads, just fewer
+ *     than the threshold, lowers the threshold by one (never below 1).
+ */
+export function learnRadiusPolicy(
+  policy: RadiusPolicyKnob,
+  outcome: { rings: RadiusRing[]; stopReason: RadiusStopReason; underfilled: boolean },
+): RadiusPolicyKnob | null {
+  const { rings, stopReason, underfilled } = outcome;
+  if (rings.length === 0) return null;
+
+  let steps = planRadiusSteps(policy);
+  let maxCapKm = policy.max_cap_km;
+  let minNew = policy.min_new_eligible_to_continue;
+
+  const firstProductive = rings.findIndex(r => r.new_eligible > 0);
+  if (firstProductive > 0) {
+    const firstKm = rings[firstProductive].radius_km;
+    steps = steps.filter(km => km >= firstKm);
+  }
+
+  const lastRing = rings[rings.length - 1];
+  if (stopReason === 'cap_reached' && underfilled && lastRing.new_eligible >= minNew && maxCapKm < RADIUS_CAP_LIMIT_KM) {
+    maxCapKm = Math.min(maxCapKm + RADIUS_CAP_GROWTH_KM, RADIUS_CAP_LIMIT_KM);
+    steps = [...steps, maxCapKm];
+  }
+
+  if (stopReason === 'diminishing_returns' && underfilled && lastRing.new_eligible > 0 && minNew > 1) {
+    minNew -= 1;
+  }
+
+  const unchanged = maxCapKm === policy.max_cap_km
+    && minNew === policy.min_new_eligible_to_continue
+    && steps.join(',') === planRadiusSteps(policy).join(',');
+  if (unchanged) return null;
+
+  return { default_steps_km: steps, max_cap_km: maxCapKm, min_new_eligible_to_continue: minNew };
+}
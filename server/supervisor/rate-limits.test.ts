@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { tmpdir } from 'os';
+import {
+  acquireRateLimit,
+  configureBreaker,
+  configureRateLimit,
+  getBucketStatus,
+  getRateLimitPolicy,
+  getRateLimitStatus,
+  isRateLimitError,
+  reportCallFailure,
+  reportCallSuccess,
+  retryAfterMsFromHeaders,
+  withRateLimit,
+  _resetRateLimits,
+} from './rate-limits';
+import { ejectCassette, useCassette } from './cassette';
+import { BudgetExceededError } from './budgets';
+
+const T0 = new Date('2026-03-02T12:00:00Z').getTime();
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(T0);
+  vi.stubEnv('RATE_LIMITS_JSON', '');
+  vi.stubEnv('CIRCUIT_BREAKERS_JSON', '');
+  _resetRateLimits();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  ejectCassette();
+});
+
+describe('token buckets', () => {
+  it('refuses once the bucket is empty and refills over the window', async () => {
+    configureRateLimit('provider:brave', { limit: 2, windowMs: 60_000 });
+
+    expect((await acquireRateLimit({ provider: 'brave' })).allowed).toBe(true);
+    expect((await acquireRateLimit({ provider: 'brave' })).allowed).toBe(true);
+    const refused = await acquireRateLimit({ provider: 'brave' });
+    expect(refused).toMatchObject({ allowed: false, key: 'provider:brave', reason: 'rate_limited', retryAfterMs: 30_000 });
+
+    vi.setSystemTime(T0 + 30_000);
+    expect((await acquireRateLimit({ provider: 'brave' })).allowed).toBe(true);
+    expect(await getBucketStatus('provider:brave')).toEqual({ remaining: 0, resetIn: 60_000 });
+  });
+
+  it('layers configured, RATE_LIMITS_JSON, wildcard and default policies', () => {
+    vi.stubEnv('RATE_LIMITS_JSON', JSON.stringify({
+      'user:*': { limit: 30, windowMs: 60_000 },
+      'user:vip': { limit: 300, windowMs: 60_000, burst: 50 },
+      'route:chat': null,
+    }));
+
+    expect(getRateLimitPolicy('user:u1')).toEqual({ limit: 30, windowMs: 60_000 });
+    expect(getRateLimitPolicy('user:vip')).toEqual({ limit: 300, windowMs: 60_000, burst: 50 });
+    expect(getRateLimitPolicy('route:chat')).toBeNull();
+    expect(getRateLimitPolicy('route:rescue_llm')).toEqual({ limit: 20, windowMs: 300_000 });
+    expect(getRateLimitPolicy('provider:openai')).toBeNull();
+
+    configureRateLimit('user:*', { limit: 5, windowMs: 1_000 });
+    expect(getRateLimitPolicy('user:u1')).toEqual({ limit: 5, windowMs: 1_000 });
+    expect(getRateLimitPolicy('user:vip')).toEqual({ limit: 5, windowMs: 1_000 });
+  });
+});
+
+describe('circuit breakers', () => {
+  it('opens after consecutive failures, then admits a single half-open probe', async () => {
+    configureBreaker('provider:places', { failureThreshold: 2, cooldownMs: 10_000, probeTimeoutMs: 5_000 });
+    const request = { provider: 'places' };
+
+    await reportCallFailure(request, new Error('HTTP 503'));
+    expect((await acquireRateLimit(request)).allowed).toBe(true);
+    await reportCallFailure(request, new Error('HTTP 503'));
+    expect(await acquireRateLimit(request)).toMatchObject({ allowed: false, reason: 'circuit_open', retryAfterMs: 10_000 });
+
+    vi.setSystemTime(T0 + 10_000);
+    expect((await acquireRateLimit(request)).allowed).toBe(true);
+    expect(await acquireRateLimit(request)).toMatchObject({ allowed: false, reason: 'circuit_open' });
+
+    // A failed probe reopens the breaker for another cooldown
+    await reportCallFailure(request, new Error('HTTP 503'));
+    expect((await getRateLimitStatus()).breakers[0]).toMatchObject({ key: 'provider:places', state: 'open', openUntil: T0 + 20_000, lastError: 'HTTP 503' });
+
+    vi.setSystemTime(T0 + 20_000);
+    expect((await acquireRateLimit(request)).allowed).toBe(true);
+    await reportCallSuccess(request);
+    expect((await getRateLimitStatus()).breakers[0]).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect((await acquireRateLimit(request)).allowed).toBe(true);
+  });
+
+  it('trips immediately for tripMs, e.g. provider quota responses', async () => {
+    const headers = new Headers({ 'retry-after': '120' });
+    expect(retryAfterMsFromHeaders(headers, 60_000)).toBe(120_000);
+    expect(retryAfterMsFromHeaders(new Headers({ 'x-ratelimit-reset': '1, 86400' }), 60_000)).toBe(1_000);
+    expect(retryAfterMsFromHeaders(new Headers(), 60_000)).toBe(60_000);
+
+    await reportCallFailure({ provider: 'brave' }, 'Brave API returned 429', { tripMs: retryAfterMsFromHeaders(headers, 60_000) });
+    expect(await acquireRateLimit({ provider: 'brave', userId: 'u1' })).toMatchObject({ allowed: false, key: 'provider:brave', retryAfterMs: 120_000 });
+  });
+});
+
+describe('withRateLimit', () => {
+  it('throws RateLimitError when refused and counts thrown errors as failures', async () => {
+    configureRateLimit('route:chat', { limit: 1, windowMs: 60_000 });
+    configureBreaker('route:summary', { failureThreshold: 1 });
+
+    expect(await withRateLimit({ route: 'chat' }, async () => 'ok')).toBe('ok');
+    const err = await withRateLimit({ route: 'chat' }, async () => 'ok').catch(e => e);
+    expect(isRateLimitError(err)).toBe(true);
+    expect(err.decision).toMatchObject({ key: 'route:chat', reason: 'rate_limited' });
+
+    await expect(withRateLimit({ route: 'summary' }, async () => { throw new Error('timeout'); })).rejects.toThrow('timeout');
+    expect((await acquireRateLimit({ route: 'summary' })).reason).toBe('circuit_open');
+  });
+
+  it('does not count budget or rate-limit refusals as breaker failures', async () => {
+    configureBreaker('route:chat', { failureThreshold: 2 });
+    configureRateLimit('provider:brave', { limit: 1, windowMs: 60_000 });
+    const budgetCheck = { allowed: false, windows: [], exceeded: [], reason: 'user u1 daily spend $5.00 of $5.00' };
+
+    for (let i = 0; i < 5; i++) {
+      const err = await withRateLimit({ route: 'chat' }, async () => { throw new BudgetExceededError('gpt4o_search', budgetCheck); }).catch(e => e);
+      expect(err).toBeInstanceOf(BudgetExceededError);
+    }
+    await withRateLimit({ provider: 'brave' }, async () => 'ok');
+    for (let i = 0; i < 3; i++) {
+      const err = await withRateLimit({ route: 'chat' }, () => withRateLimit({ provider: 'brave' }, async () => 'ok')).catch(e => e);
+      expect(isRateLimitError(err)).toBe(true);
+    }
+
+    expect(await acquireRateLimit({ route: 'chat' })).toMatchObject({ allowed: true });
+    expect((await getRateLimitStatus()).breakers).toEqual([]);
+  });
+
+  it('neither limits nor records calls while replaying a cassette', async () => {
+    configureRateLimit('provider:brave', { limit: 1, windowMs: 60_000 });
+    useCassette('rate-limits-test', { mode: 'replay', dir: tmpdir() });
+
+    await reportCallFailure({ provider: 'brave' }, 'quota', { tripMs: 60_000 });
+    expect((await acquireRateLimit({ provider: 'brave' })).allowed).toBe(true);
+    expect((await acquireRateLimit({ provider: 'brave' })).allowed).toBe(true);
+    expect((await getRateLimitStatus()).breakers).toEqual([]);
+  });
+});
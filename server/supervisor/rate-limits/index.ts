@@ -0,0 +1,451 @@
+/**
+ * Rate Limits & Circuit Breakers
+ *
+ * One limiter for every outbound call and costly route. Each call names the
+ * provider, user and/or route it belongs to; each of those selects a token
+ * bucket (`provider:brave`, `user:<id>`, `route:chat`) when a limit is
+ * configured, and provider/route keys also select a circuit breaker.
+ *
+ * Limits come from built-in route defaults, RATE_LIMITS_JSON
+ * ({"provider:brave": {"limit": 1, "windowMs": 1000}, "user:*": {...}}; null
+ * disables a default) and configureRateLimit(). Breakers open after
+ * consecutive failures (CIRCUIT_BREAKERS_JSON / configureBreaker() tune them),
+ * refuse calls for a cooldown, then let a single half-open probe through:
+ * success closes the breaker, failure re-opens it. Quota responses can trip a
+ * breaker immediately for as long as the provider asks.
+ *
+ * State lives behind a RateLimitStore: the server installs the Postgres store
+ * at startup (usePostgresRateLimits, migrations/016_rate_limits.sql) so limits
+ * survive restarts and hold across instances; tests use the in-memory store
+ * that is active by default. The limiter fails open when its store is
+ * unreachable, and cassette replays are never limited or counted.
+ */
+
+import { isBudgetExceededError } from '../budgets';
+import { isCassetteReplaying } from '../cassette';
+import type {
+  BreakerPolicy,
+  BreakerRecord,
+  RateLimitDecision,
+  RateLimitRequest,
+  RateLimitStatus,
+  RateLimitStore,
+  TokenBucketPolicy,
+  TokenTakeResult,
+} from './types';
+
+export * from './types';
+
+const MINUTE_MS = 60_000;
+
+/** Process-local limits these routes had before the shared limiter */
+const DEFAULT_LIMITS: Record<string, TokenBucketPolicy> = {
+  'route:chat': { limit: 10, windowMs: 5 * MINUTE_MS },
+  'route:result_discussion': { limit: 10, windowMs: 5 * MINUTE_MS },
+  'route:smart_clarify': { limit: 20, windowMs: 5 * MINUTE_MS },
+  'route:rescue_llm': { limit: 20, windowMs: 5 * MINUTE_MS },
+  'route:claude_api': { limit: 5, windowMs: MINUTE_MS },
+};
+
+const DEFAULT_BREAKER: BreakerPolicy = {
+  failureThreshold: 5,
+  cooldownMs: MINUTE_MS,
+  probeTimeoutMs: 30_000,
+};
+
+/** Breaker reads are cached this long per process; writes update the cache */
+const BREAKER_CACHE_MS = 2_000;
+
+const ALLOWED: RateLimitDecision = { allowed: true, key: null, reason: null, retryAfterMs: 0 };
+
+export class RateLimitError extends Error {
+  constructor(public readonly decision: RateLimitDecision) {
+    super(`${decision.reason}: ${decision.key} (retry in ${Math.ceil(decision.retryAfterMs / 1000)}s)`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export function isRateLimitError(err: unknown): err is RateLimitError {
+  return err instanceof RateLimitError;
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+/**
+ * In-memory store: atomic within one process only.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  private breakers = new Map<string, BreakerRecord>();
+
+  async takeTokens(key: string, capacity: number, refillPerMs: number, cost: number, now: number): Promise<TokenTakeResult> {
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) : 0;
+    const tokens = bucket ? Math.min(capacity, bucket.tokens + elapsed * refillPerMs) : capacity;
+    const allowed = tokens >= cost;
+    const remaining = allowed ? tokens - cost : tokens;
+    this.buckets.set(key, { tokens: remaining, updatedAt: Math.max(now, bucket?.updatedAt ?? now) });
+    return { allowed, remaining, retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs) };
+  }
+
+  async getBreaker(key: string): Promise<BreakerRecord | undefined> {
+    const record = this.breakers.get(key);
+    return record ? { ...record } : undefined;
+  }
+
+  async listBreakers(): Promise<BreakerRecord[]> {
+    return Array.from(this.breakers.values()).map(record => ({ ...record }));
+  }
+
+  async acquireProbe(key: string, now: number, probeTimeoutMs: number): Promise<boolean> {
+    const record = this.breakers.get(key);
+    if (!record) return false;
+    const cooledDown = record.state === 'open' && (record.openUntil ?? 0) <= now;
+    const staleProbe = record.state === 'half_open' && (record.probeStartedAt ?? 0) <= now - probeTimeoutMs;
+    if (!cooledDown && !staleProbe) return false;
+    this.breakers.set(key, { ...record, state: 'half_open', probeStartedAt: now, updatedAt: now });
+    return true;
+  }
+
+  async recordSuccess(key: string, now: number): Promise<void> {
+    const record = this.breakers.get(key);
+    if (!record || (record.state === 'closed' && record.consecutiveFailures === 0)) return;
+    this.breakers.set(key, { ...record, state: 'closed', consecutiveFailures: 0, openUntil: null, probeStartedAt: null, updatedAt: now });
+  }
+
+  async recordFailure(key: string, now: number, policy: BreakerPolicy, error: string, tripMs?: number): Promise<BreakerRecord> {
+    const record = this.breakers.get(key) ?? {
+      key, state: 'closed', consecutiveFailures: 0, openUntil: null, probeStartedAt: null, lastError: null, updatedAt: now,
+    };
+    const failures = record.consecutiveFailures + 1;
+    const opens = tripMs !== undefined
+      || record.state === 'half_open'
+      || (record.state === 'closed' && failures >= policy.failureThreshold);
+    const next: BreakerRecord = {
+      ...record,
+      state: opens ? 'open' : record.state,
+      consecutiveFailures: failures,
+      openUntil: opens ? now + (tripMs ?? policy.cooldownMs) : record.openUntil,
+      probeStartedAt: null,
+      lastError: error,
+      updatedAt: now,
+    };
+    this.breakers.set(key, next);
+    return { ...next };
+  }
+
+  async clear(): Promise<void> {
+    this.buckets.clear();
+    this.breakers.clear();
+  }
+}
+
+// ============================================
+// STORE + POLICY CONFIGURATION
+// ============================================
+
+let store: RateLimitStore = new InMemoryRateLimitStore();
+const breakerCache = new Map<string, { record: BreakerRecord | undefined; readAt: number }>();
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+export function setRateLimitStore(newStore: RateLimitStore): void {
+  store = newStore;
+  breakerCache.clear();
+}
+
+/**
+ * Keep buckets and breakers in rate_limit_buckets / circuit_breakers.
+ * Imported lazily so tests never open a database connection.
+ */
+export async function usePostgresRateLimits(): Promise<void> {
+  const { PostgresRateLimitStore } = await import('./postgres-store');
+  setRateLimitStore(new PostgresRateLimitStore());
+  console.log('[RATE_LIMIT] Buckets and circuit breakers persisted to Postgres (rate_limit_buckets, circuit_breakers)');
+}
+
+const configuredLimits = new Map<string, TokenBucketPolicy | null>();
+const configuredBreakers = new Map<string, Partial<BreakerPolicy> | null>();
+
+const jsonCache: Record<string, { raw: string | undefined; value: Record<string, any> }> = {};
+
+function getJsonEnv(name: string): Record<string, any> {
+  const raw = process.env[name];
+  const cached = jsonCache[name];
+  if (cached && cached.raw === raw) return cached.value;
+  let value: Record<string, any> = {};
+  try {
+    value = raw ? JSON.parse(raw) : {};
+  } catch (err: any) {
+    console.warn(`[RATE_LIMIT] Ignoring invalid ${name}: ${err?.message || err}`);
+  }
+  jsonCache[name] = { raw, value };
+  return value;
+}
+
+function validPolicy(value: unknown): TokenBucketPolicy | null {
+  const policy = value as TokenBucketPolicy | null;
+  if (!policy || !(policy.limit > 0) || !(policy.windowMs > 0)) return null;
+  return policy.burst !== undefined && policy.burst > 0 ? policy : { limit: policy.limit, windowMs: policy.windowMs };
+}
+
+function wildcardOf(key: string): string {
+  return `${key.slice(0, key.indexOf(':'))}:*`;
+}
+
+/**
+ * Set (or with null, disable) the limit for a key such as "provider:brave", or
+ * for every key of a scope with "user:*". Wins over RATE_LIMITS_JSON and defaults.
+ */
+export function configureRateLimit(key: string, policy: TokenBucketPolicy | null): void {
+  configuredLimits.set(key, policy);
+}
+
+/**
+ * Effective bucket policy, most specific first: configureRateLimit(key) >
+ * configureRateLimit("<scope>:*") > RATE_LIMITS_JSON key > "<scope>:*" > defaults.
+ * Null when the key is unlimited.
+ */
+export function getRateLimitPolicy(key: string): TokenBucketPolicy | null {
+  const json = getJsonEnv('RATE_LIMITS_JSON');
+  const wildcard = wildcardOf(key);
+  if (configuredLimits.has(key)) return validPolicy(configuredLimits.get(key));
+  if (configuredLimits.has(wildcard)) return validPolicy(configuredLimits.get(wildcard));
+  if (key in json) return validPolicy(json[key]);
+  if (wildcard in json) return validPolicy(json[wildcard]);
+  return DEFAULT_LIMITS[key] ?? null;
+}
+
+/**
+ * Override breaker settings for a key (or "<scope>:*"); null clears the override.
+ */
+export function configureBreaker(key: string, policy: Partial<BreakerPolicy> | null): void {
+  configuredBreakers.set(key, policy);
+}
+
+export function getBreakerPolicy(key: string): BreakerPolicy {
+  const json = getJsonEnv('CIRCUIT_BREAKERS_JSON');
+  const wildcard = wildcardOf(key);
+  return {
+    ...DEFAULT_BREAKER,
+    ...(json[wildcard] || {}),
+    ...(json[key] || {}),
+    ...(configuredBreakers.get(wildcard) || {}),
+    ...(configuredBreakers.get(key) || {}),
+  };
+}
+
+function bucketKeys(request: RateLimitRequest): string[] {
+  const keys: string[] = [];
+  if (request.route) keys.push(`route:${request.route}`);
+  if (request.userId) keys.push(`user:${request.userId}`);
+  if (request.provider) keys.push(`provider:${request.provider}`);
+  return keys;
+}
+
+function breakerKeys(request: RateLimitRequest): string[] {
+  const keys: string[] = [];
+  if (request.route) keys.push(`route:${request.route}`);
+  if (request.provider) keys.push(`provider:${request.provider}`);
+  return keys;
+}
+
+async function readBreaker(key: string, now: number): Promise<BreakerRecord | undefined> {
+  const cached = breakerCache.get(key);
+  if (cached && now - cached.readAt < BREAKER_CACHE_MS) return cached.record;
+  const record = await store.getBreaker(key);
+  breakerCache.set(key, { record, readAt: now });
+  return record;
+}
+
+function cacheBreaker(key: string, record: BreakerRecord | undefined, now: number): void {
+  breakerCache.set(key, { record, readAt: now });
+}
+
+// ============================================
+// LIMITING
+// ============================================
+
+/**
+ * Admit or refuse one call. Breakers are checked first (so an open breaker
+ * costs no tokens), then a token is taken from every configured bucket, then
+ * any breaker whose cooldown has passed hands this caller its half-open probe.
+ */
+export async function acquireRateLimit(request: RateLimitRequest): Promise<RateLimitDecision> {
+  if (isCassetteReplaying()) return ALLOWED;
+  const now = Date.now();
+  try {
+    const probes: string[] = [];
+    for (const key of breakerKeys(request)) {
+      const record = await readBreaker(key, now);
+      if (!record || record.state === 'closed') continue;
+      const policy = getBreakerPolicy(key);
+      if (record.state === 'open' && (record.openUntil ?? 0) > now) {
+        return { allowed: false, key, reason: 'circuit_open', retryAfterMs: (record.openUntil ?? now) - now };
+      }
+      if (record.state === 'half_open' && (record.probeStartedAt ?? 0) > now - policy.probeTimeoutMs) {
+        return { allowed: false, key, reason: 'circuit_open', retryAfterMs: (record.probeStartedAt ?? now) + policy.probeTimeoutMs - now };
+      }
+      probes.push(key);
+    }
+
+    for (const key of bucketKeys(request)) {
+      const policy = getRateLimitPolicy(key);
+      if (!policy) continue;
+      const taken = await store.takeTokens(key, policy.burst ?? policy.limit, policy.limit / policy.windowMs, request.cost ?? 1, now);
+      if (!taken.allowed) return { allowed: false, key, reason: 'rate_limited', retryAfterMs: taken.retryAfterMs };
+    }
+
+    for (const key of probes) {
+      const policy = getBreakerPolicy(key);
+      if (!(await store.acquireProbe(key, now, policy.probeTimeoutMs))) {
+        breakerCache.delete(key);
+        return { allowed: false, key, reason: 'circuit_open', retryAfterMs: policy.probeTimeoutMs };
+      }
+      breakerCache.delete(key);
+      console.log(`[RATE_LIMIT] ${key} half-open — probing`);
+    }
+  } catch (err: any) {
+    console.warn(`[RATE_LIMIT] Store unavailable, allowing call: ${err?.message || err}`);
+  }
+  return ALLOWED;
+}
+
+/**
+ * Report a successful call: closes any half-open breaker and resets failure counts.
+ */
+export async function reportCallSuccess(request: RateLimitRequest): Promise<void> {
+  if (isCassetteReplaying()) return;
+  const now = Date.now();
+  for (const key of breakerKeys(request)) {
+    const cached = breakerCache.get(key);
+    if (cached && now - cached.readAt < BREAKER_CACHE_MS && (!cached.record || (cached.record.state === 'closed' && cached.record.consecutiveFailures === 0))) {
+      continue;
+    }
+    try {
+      const before = await store.getBreaker(key);
+      await store.recordSuccess(key, now);
+      if (before && before.state !== 'closed') console.log(`[RATE_LIMIT] ${key} closed after successful probe`);
+      breakerCache.delete(key);
+    } catch (err: any) {
+      console.warn(`[RATE_LIMIT] Could not record success for ${key}: ${err?.message || err}`);
+    }
+  }
+}
+
+/**
+ * Report a failed call. `tripMs` opens the breakers straight away for that
+ * long, e.g. when a provider says its quota is spent.
+ */
+export async function reportCallFailure(request: RateLimitRequest, error: unknown, options: { tripMs?: number } = {}): Promise<void> {
+  if (isCassetteReplaying()) return;
+  const now = Date.now();
+  const message = (error instanceof Error ? error.message : String(error)).substring(0, 500);
+  for (const key of breakerKeys(request)) {
+    try {
+      const record = await store.recordFailure(key, now, getBreakerPolicy(key), message, options.tripMs);
+      cacheBreaker(key, record, now);
+      if (record.state === 'open' && record.openUntil !== null) {
+        console.warn(`[RATE_LIMIT] ${key} open until ${new Date(record.openUntil).toISOString()} after ${record.consecutiveFailures} failure(s): ${message}`);
+      }
+    } catch (err: any) {
+      console.warn(`[RATE_LIMIT] Could not record failure for ${key}: ${err?.message || err}`);
+    }
+  }
+}
+
+/**
+ * Run `fn` under the limits and breakers for `request`. Throws RateLimitError
+ * when refused, unless the wait is within `waitMs`, in which case it waits and
+ * tries once more. Errors thrown by `fn` count as breaker failures, except
+ * budget and rate-limit refusals: those never reached the provider.
+ */
+export async function withRateLimit<T>(
+  request: RateLimitRequest,
+  fn: () => Promise<T>,
+  options: { waitMs?: number } = {},
+): Promise<T> {
+  let decision = await acquireRateLimit(request);
+  if (!decision.allowed && options.waitMs !== undefined && decision.retryAfterMs <= options.waitMs) {
+    console.log(`[RATE_LIMIT] ${decision.key} ${decision.reason}, waiting ${decision.retryAfterMs}ms`);
+    await new Promise(resolve => setTimeout(resolve, decision.retryAfterMs));
+    decision = await acquireRateLimit(request);
+  }
+  if (!decision.allowed) throw new RateLimitError(decision);
+
+  try {
+    const result = await fn();
+    await reportCallSuccess(request);
+    return result;
+  } catch (err) {
+    if (!isBudgetExceededError(err) && !isRateLimitError(err)) {
+      await reportCallFailure(request, err);
+    }
+    throw err;
+  }
+}
+
+/**
+ * How long a provider asked us to back off: Retry-After (seconds or HTTP date),
+ * else the first value of X-RateLimit-Reset (seconds), else `fallbackMs`.
+ */
+export function retryAfterMsFromHeaders(headers: Headers, fallbackMs: number): number {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (Number.isFinite(date)) return Math.max(0, date - Date.now());
+  }
+  const reset = Number(headers.get('x-ratelimit-reset')?.split(',')[0]?.trim());
+  if (Number.isFinite(reset) && reset > 0) return reset * 1000;
+  return fallbackMs;
+}
+
+/**
+ * Tokens currently left in a bucket (without taking any) and time until it is full.
+ */
+export async function getBucketStatus(key: string): Promise<{ remaining: number; resetIn: number } | null> {
+  const policy = getRateLimitPolicy(key);
+  if (!policy) return null;
+  const capacity = policy.burst ?? policy.limit;
+  const refillPerMs = policy.limit / policy.windowMs;
+  const { remaining } = await store.takeTokens(key, capacity, refillPerMs, 0, Date.now());
+  return { remaining: Math.floor(remaining), resetIn: Math.ceil((capacity - remaining) / refillPerMs) };
+}
+
+/**
+ * Breaker states and configured limits, for /api/system/mode.
+ */
+export async function getRateLimitStatus(): Promise<RateLimitStatus> {
+  const breakers = await store.listBreakers();
+  const json = getJsonEnv('RATE_LIMITS_JSON');
+  const keys = new Set<string>(Object.keys(DEFAULT_LIMITS).concat(Object.keys(json), Array.from(configuredLimits.keys())));
+  const limits: Record<string, TokenBucketPolicy> = {};
+  keys.forEach(key => {
+    const policy = getRateLimitPolicy(key);
+    if (policy) limits[key] = policy;
+  });
+  return {
+    store: store.name,
+    breakers: breakers
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map(record => ({ ...record, policy: getBreakerPolicy(record.key) })),
+    limits,
+  };
+}
+
+/**
+ * Fresh in-memory store and no overrides
+ * @internal Exported for testing only
+ */
+export function _resetRateLimits(): void {
+  setRateLimitStore(new InMemoryRateLimitStore());
+  configuredLimits.clear();
+  configuredBreakers.clear();
+}
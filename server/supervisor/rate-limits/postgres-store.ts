@@ -0,0 +1,125 @@
+/**
+ * Postgres Rate Limit Store
+ *
+ * RateLimitStore backed by rate_limit_buckets and circuit_breakers
+ * (migrations/016_rate_limits.sql). Every operation is a single statement, so
+ * concurrent instances never over-admit or race a half-open probe.
+ *
+ * Loaded lazily by usePostgresRateLimits(): importing it opens the database connection.
+ */
+
+import { and, eq, isNull, lte, ne, or, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { circuitBreakers, rateLimitBuckets, type CircuitBreakerRow } from '../../schema';
+import type { BreakerPolicy, BreakerRecord, BreakerState, RateLimitStore, TokenTakeResult } from './types';
+
+function rowToRecord(row: CircuitBreakerRow): BreakerRecord {
+  return {
+    key: row.key,
+    state: row.state as BreakerState,
+    consecutiveFailures: row.consecutiveFailures,
+    openUntil: row.openUntil ? row.openUntil.getTime() : null,
+    probeStartedAt: row.probeStartedAt ? row.probeStartedAt.getTime() : null,
+    lastError: row.lastError,
+    updatedAt: row.updatedAt.getTime(),
+  };
+}
+
+/**
+ * Postgres implementation of RateLimitStore.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres';
+
+  async takeTokens(key: string, capacity: number, refillPerMs: number, cost: number, now: number): Promise<TokenTakeResult> {
+    const refilled = sql`LEAST(${capacity}::real, b.tokens + GREATEST(${now}::bigint - b.updated_at_ms, 0) * ${refillPerMs}::double precision)`;
+    const firstGrant = capacity >= cost;
+    const taken = await db.execute(sql`
+      INSERT INTO rate_limit_buckets AS b (key, tokens, granted, updated_at_ms)
+      VALUES (${key}, ${firstGrant ? capacity - cost : capacity}, ${firstGrant}, ${now})
+      ON CONFLICT (key) DO UPDATE
+        SET tokens = CASE WHEN ${refilled} >= ${cost}::real THEN ${refilled} - ${cost}::real ELSE ${refilled} END,
+            granted = ${refilled} >= ${cost}::real,
+            updated_at_ms = GREATEST(${now}::bigint, b.updated_at_ms)
+      RETURNING tokens, granted
+    `);
+    const row = (taken.rows as Array<Record<string, any>>)[0];
+    const remaining = Number(row.tokens);
+    const allowed = row.granted === true;
+    return { allowed, remaining, retryAfterMs: allowed ? 0 : Math.ceil((cost - remaining) / refillPerMs) };
+  }
+
+  async getBreaker(key: string): Promise<BreakerRecord | undefined> {
+    const [row] = await db.select().from(circuitBreakers).where(eq(circuitBreakers.key, key)).limit(1);
+    return row ? rowToRecord(row) : undefined;
+  }
+
+  async listBreakers(): Promise<BreakerRecord[]> {
+    const rows = await db.select().from(circuitBreakers);
+    return rows.map(rowToRecord);
+  }
+
+  async acquireProbe(key: string, now: number, probeTimeoutMs: number): Promise<boolean> {
+    const at = new Date(now);
+    const won = await db
+      .update(circuitBreakers)
+      .set({ state: 'half_open', probeStartedAt: at, updatedAt: at })
+      .where(and(
+        eq(circuitBreakers.key, key),
+        or(
+          and(eq(circuitBreakers.state, 'open'), lte(circuitBreakers.openUntil, at)),
+          and(
+            eq(circuitBreakers.state, 'half_open'),
+            or(isNull(circuitBreakers.probeStartedAt), lte(circuitBreakers.probeStartedAt, new Date(now - probeTimeoutMs))),
+          ),
+        ),
+      ))
+      .returning({ key: circuitBreakers.key });
+    return won.length > 0;
+  }
+
+  async recordSuccess(key: string, now: number): Promise<void> {
+    await db
+      .update(circuitBreakers)
+      .set({ state: 'closed', consecutiveFailures: 0, openUntil: null, probeStartedAt: null, updatedAt: new Date(now) })
+      .where(and(
+        eq(circuitBreakers.key, key),
+        or(ne(circuitBreakers.state, 'closed'), ne(circuitBreakers.consecutiveFailures, 0)),
+      ));
+  }
+
+  async recordFailure(key: string, now: number, policy: BreakerPolicy, error: string, tripMs?: number): Promise<BreakerRecord> {
+    const at = new Date(now).toISOString();
+    const openUntil = new Date(now + (tripMs ?? policy.cooldownMs)).toISOString();
+    const tripped = tripMs !== undefined;
+    const opensFirst = tripped || policy.failureThreshold <= 1;
+    const opens = sql`(${tripped}::boolean OR c.state = 'half_open' OR (c.state = 'closed' AND c.consecutive_failures + 1 >= ${policy.failureThreshold}::integer))`;
+    const recorded = await db.execute(sql`
+      INSERT INTO circuit_breakers AS c (key, state, consecutive_failures, open_until, last_error, updated_at)
+      VALUES (${key}, ${opensFirst ? 'open' : 'closed'}, 1, ${opensFirst ? openUntil : null}::timestamptz, ${error}, ${at}::timestamptz)
+      ON CONFLICT (key) DO UPDATE
+        SET state = CASE WHEN ${opens} THEN 'open' ELSE c.state END,
+            open_until = CASE WHEN ${opens} THEN ${openUntil}::timestamptz ELSE c.open_until END,
+            consecutive_failures = c.consecutive_failures + 1,
+            probe_started_at = NULL,
+            last_error = EXCLUDED.last_error,
+            updated_at = EXCLUDED.updated_at
+      RETURNING *
+    `);
+    const row = (recorded.rows as Array<Record<string, any>>)[0];
+    return {
+      key: row.key,
+      state: row.state,
+      consecutiveFailures: Number(row.consecutive_failures),
+      openUntil: row.open_until ? new Date(row.open_until).getTime() : null,
+      probeStartedAt: row.probe_started_at ? new Date(row.probe_started_at).getTime() : null,
+      lastError: row.last_error,
+      updatedAt: new Date(row.updated_at).getTime(),
+    };
+  }
+
+  async clear(): Promise<void> {
+    await db.delete(rateLimitBuckets);
+    await db.delete(circuitBreakers);
+  }
+}
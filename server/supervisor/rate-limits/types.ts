@@ -0,0 +1,91 @@
+/**
+ * Rate Limit / Circuit Breaker Types
+ */
+
+export type RateLimitScope = 'provider' | 'user' | 'route';
+
+/** Token bucket refilled at `limit` tokens per `windowMs`, holding at most `burst` (default `limit`) */
+export interface TokenBucketPolicy {
+  limit: number;
+  windowMs: number;
+  burst?: number;
+}
+
+export interface BreakerPolicy {
+  /** Consecutive failures that open the breaker */
+  failureThreshold: number;
+  /** How long an open breaker refuses calls before letting one probe through */
+  cooldownMs: number;
+  /** A half-open probe that has not reported back after this long is abandoned */
+  probeTimeoutMs: number;
+}
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+/** Stored breaker state for one key, e.g. provider:brave */
+export interface BreakerRecord {
+  key: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  /** Epoch ms; set while open */
+  openUntil: number | null;
+  /** Epoch ms; set while a half-open probe is in flight */
+  probeStartedAt: number | null;
+  lastError: string | null;
+  updatedAt: number;
+}
+
+export interface TokenTakeResult {
+  allowed: boolean;
+  remaining: number;
+  /** 0 when allowed, otherwise time until enough tokens have refilled */
+  retryAfterMs: number;
+}
+
+/**
+ * Shared state behind the limiter. Every operation must be atomic per key so
+ * that several instances sharing one store never over-admit.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  /** Refill the bucket for elapsed time, then take `cost` tokens if available */
+  takeTokens(key: string, capacity: number, refillPerMs: number, cost: number, now: number): Promise<TokenTakeResult>;
+  getBreaker(key: string): Promise<BreakerRecord | undefined>;
+  listBreakers(): Promise<BreakerRecord[]>;
+  /**
+   * Move an open breaker whose cooldown has passed (or a half-open one whose
+   * probe went stale) to half_open. True only for the caller that won the probe.
+   */
+  acquireProbe(key: string, now: number, probeTimeoutMs: number): Promise<boolean>;
+  /** Close the breaker and reset its failure count */
+  recordSuccess(key: string, now: number): Promise<void>;
+  /**
+   * Count a failure. Opens the breaker for `cooldownMs` once the threshold is
+   * reached, when a half-open probe fails, or immediately when `tripMs` is given.
+   */
+  recordFailure(key: string, now: number, policy: BreakerPolicy, error: string, tripMs?: number): Promise<BreakerRecord>;
+  clear(): Promise<void>;
+}
+
+/** What a call is limited by; each present field selects a bucket and (for provider/route) a breaker */
+export interface RateLimitRequest {
+  provider?: string;
+  userId?: string;
+  route?: string;
+  /** Tokens to take from each bucket (default 1) */
+  cost?: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Bucket or breaker key that refused the call */
+  key: string | null;
+  reason: 'rate_limited' | 'circuit_open' | null;
+  retryAfterMs: number;
+}
+
+export interface RateLimitStatus {
+  store: string;
+  breakers: Array<BreakerRecord & { policy: BreakerPolicy }>;
+  limits: Record<string, TokenBucketPolicy>;
+}
@@ -7,6 +7,7 @@ import { executeWebVisit } from './web-visit';
 import { extractConstraintLedEvidence, getPageHintsForConstraint, type ConstraintContext, type ConstraintLedExtractionResult } from './constraint-led-extractor';
 import { extractStructuredMission } from './mission-extractor';
 import { batchGpt4oVerification } from './mission-executor';
+import { countWebSearchCalls, recordLLMUsage } from './cost-ledger';
 
 const EVIDENCE_MODE = (process.env.EVIDENCE_MODE || 'gpt4o_primary') as 'gpt4o_primary' | 'web_crawl_first';
 
@@ -339,6 +340,7 @@ async function liveRefineWithFetch(
           });
           if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
           const data = await resp.json();
+          recordLLMUsage({ label: 'refine_fallback', provider: 'openai', model: fallbackModel, usage: data.usage, webSearchCalls: countWebSearchCalls(data.output) });
           let content = '';
           if (Array.isArray(data.output)) {
             for (const item of data.output) {
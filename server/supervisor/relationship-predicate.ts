@@ -38,6 +38,15 @@ export const RELATIONSHIP_PREDICATES = [
   'part of',
 ] as const;
 
+/** Ownership and management predicates the company register can answer from officers and controllers */
+export const REGISTRY_RELATIONSHIP_PREDICATES: readonly string[] = [
+  'owned by',
+  'run by',
+  'operated by',
+  'managed by',
+  'part of',
+];
+
 export const RELATIONSHIP_ROLE_PATTERNS = [
   /\b(?:the\s+)?(?:landlord)(?:\s+(?:name|of|for))?\b/i,
   /\b(?:the\s+)?(?:owner)(?:\s+(?:name|of|for))?\b/i,
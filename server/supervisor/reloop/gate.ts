@@ -1,4 +1,5 @@
 import type { JudgeVerdict, GateDecision, ExecutorEntity, LoopRecord } from './types';
+import { resolveExecutorEntities } from '../entity-resolution';
 
 const MAX_LOOPS_DEFAULT = 3;
 
@@ -11,26 +12,6 @@ function getMaxLoops(): number {
   return MAX_LOOPS_DEFAULT;
 }
 
-function normaliseEntityName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/^the\s+/i, '')
-    .replace(/\b(ltd|limited|inc|plc|llc|llp|co|company|group|holdings)\b\.?/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-function deduplicateEntities(entities: ExecutorEntity[]): ExecutorEntity[] {
-  const seen = new Map<string, ExecutorEntity>();
-  for (const entity of entities) {
-    const key = normaliseEntityName(entity.name);
-    if (!seen.has(key)) {
-      seen.set(key, entity);
-    }
-  }
-  return Array.from(seen.values());
-}
-
 export function decide(params: {
   loopNumber: number;
   judgeVerdict: JudgeVerdict;
@@ -57,7 +38,7 @@ export function decide(params: {
 
   const MAX_LOOPS = getMaxLoops();
 
-  const newAccumulated = deduplicateEntities([...accumulatedEntities, ...currentLoopEntities]);
+  const newAccumulated = resolveExecutorEntities([...accumulatedEntities, ...currentLoopEntities]);
 
   const circuitBreakerFired = loopNumber >= MAX_LOOPS;
 
@@ -2,6 +2,7 @@ import {
   executeMissionDrivenPlan,
   type MissionExecutionContext,
 } from '../mission-executor';
+import type { IntentNarrative } from '../mission-schema';
 import type { ExecutorInput, ExecutorOutput, ExecutorEntity } from './types';
 
 export async function gpCascadeAdapter(input: ExecutorInput): Promise<ExecutorOutput> {
@@ -18,6 +19,7 @@ export async function gpCascadeAdapter(input: ExecutorInput): Promise<ExecutorOu
     rawUserInput: input.mission.rawUserInput,
     missionTrace: input.missionContext.missionTrace as any,
     intentNarrative: (input.missionContext.intentNarrative as any) ?? null,
+    intentNarrativePending: input.missionContext.intentNarrativePending as Promise<IntentNarrative | null> | undefined,
     queryId: (input.missionContext.queryId as string | null | undefined) ?? null,
     executionPath: 'gp_cascade',
     suppressDeliverySummary: true,
@@ -49,6 +51,8 @@ export async function gpCascadeAdapter(input: ExecutorInput): Promise<ExecutorOu
       phone: lead.phone,
       website: lead.website,
       placeId: lead.placeId,
+      lat: lead.lat ?? null,
+      lng: lead.lng ?? null,
       source: 'gp_cascade',
       verified: verifiedFlag,
       verificationStatus: dsLead?.match_valid === true ? 'verified' : (result.towerVerdict ?? 'unknown'),
@@ -0,0 +1,164 @@
+import { geocodeSearchLocation, searchPlaces, type PlaceResult } from '../google-places';
+import { haversineKm } from '../gazetteer';
+import { verifyLocationGeo } from '../geo-regions';
+import { BASELINE_DEFAULTS, type RadiusPolicyKnob } from '../learning-store';
+import { expandRadius, planRadiusSteps } from '../radius-expansion';
+import type { ExecutorInput, ExecutorOutput, ExecutorEntity } from './types';
+
+/** Constraint types a Places listing answers on its own once the location checks out */
+const LISTING_CONSTRAINT_TYPES = new Set(['entity_discovery', 'location_constraint']);
+
+function emptyOutput(startTime: number, errors: string[], rawResult: Record<string, unknown>): ExecutorOutput {
+  return {
+    executorType: 'gp_radius',
+    entities: [],
+    entitiesAttempted: 0,
+    executionMetadata: {
+      toolsUsed: ['google_geocode'],
+      apiCallsMade: 0,
+      timeMs: Date.now() - startTime,
+      errorsEncountered: errors,
+      rateLimitsHit: false,
+    },
+    coverageSignals: {
+      maxResultsHit: false,
+      searchQueriesExhausted: true,
+      estimatedUniverseSize: null,
+    },
+    rawResult,
+  };
+}
+
+export async function gpRadiusAdapter(input: ExecutorInput): Promise<ExecutorOutput> {
+  const startTime = Date.now();
+  const { businessType, location, country, queryText, requestedCount } = input.mission;
+  const policy = (input.missionContext.radiusPolicy as RadiusPolicyKnob | undefined) ?? BASELINE_DEFAULTS.radius_policy;
+  console.log(`[RELOOP_EXECUTOR] gp_radius adapter starting — entity="${businessType}" location="${location}" steps=[${planRadiusSteps(policy).join(',')}]km`);
+
+  const center = location ? await geocodeSearchLocation(location, country) : null;
+  if (!center) {
+    console.warn(`[RELOOP_EXECUTOR] gp_radius could not place "${location}" — no rings searched`);
+    return emptyOutput(startTime, [`Could not geocode location "${location}"`], { radius_rings: [], radius_stop_reason: 'search_failed' });
+  }
+
+  const query = businessType || queryText;
+  const distanceKm = (place: PlaceResult) => haversineKm(center.lat, center.lng, place.lat, place.lng);
+  const locationCheck = (place: PlaceResult) => verifyLocationGeo(place.lat, place.lng, location, true, place.formatted_address);
+
+  // Inside the named place counts wherever the ring reached; a place the
+  // gazetteer cannot bound falls back to the ring's own radius.
+  const isEligible = (place: PlaceResult, radiusKm: number): boolean => {
+    const geo = locationCheck(place);
+    if (geo.status === 'VERIFIED_GEO') return true;
+    if (geo.status === 'OUT_OF_AREA') return false;
+    return distanceKm(place) <= radiusKm;
+  };
+
+  const targetCount = requestedCount !== null ? Math.max(requestedCount - input.knownEntities.length, 1) : null;
+  const expansion = await expandRadius<PlaceResult>({
+    policy,
+    targetCount,
+    maxSearches: input.budget.maxApiCalls,
+    // Branches share a name, so rings dedupe on the listing; earlier loops only hand over names
+    keyOf: place => place.place_id,
+    knownKeyOf: place => place.name.toLowerCase().trim(),
+    knownKeys: input.knownEntities.map(name => name.toLowerCase().trim()),
+    isEligible,
+    searchRing: async radiusKm => {
+      const result = await searchPlaces(query, location, country, 20, 'BIASED_STABLE', {
+        lat: center.lat,
+        lng: center.lng,
+        radiusMeters: radiusKm * 1000,
+      });
+      return result.success ? { candidates: result.places } : { candidates: [], error: result.error ?? 'search failed' };
+    },
+  });
+
+  const listingAnswersConstraints = input.constraints.structuredConstraints
+    .filter(c => c.hardness === 'hard')
+    .every(c => LISTING_CONSTRAINT_TYPES.has(c.type));
+
+  const entities: ExecutorEntity[] = expansion.eligible.map(({ candidate: place, radiusKm }) => {
+    const geo = locationCheck(place);
+    const verified = listingAnswersConstraints && geo.status === 'VERIFIED_GEO';
+    return {
+      name: place.name,
+      address: place.formatted_address,
+      phone: place.phone ?? null,
+      website: place.website ?? null,
+      placeId: place.place_id,
+      lat: place.lat,
+      lng: place.lng,
+      source: 'gp_radius',
+      verified,
+      verificationStatus: verified ? 'verified' : 'unverified',
+      evidence: [{
+        source: 'google_places',
+        ring_km: radiusKm,
+        distance_km: Math.round(distanceKm(place) * 10) / 10,
+        geo_status: geo.status,
+        geo_method: geo.method,
+        reason: geo.reason,
+      }],
+    };
+  });
+
+  // Same lead shape as the loop's accumulator fallback, so the combined
+  // delivery merges these alongside other executors' summaries.
+  const toDeliveryLead = (entity: ExecutorEntity, index: number) => ({
+    index: index + 1,
+    entity_id: entity.placeId,
+    name: entity.name,
+    address: entity.address,
+    phone: entity.phone,
+    website: entity.website,
+    place_id: entity.placeId,
+    found_in_plan_version: 1,
+    match_level: entity.verified ? 'exact' : 'closest',
+    soft_violations: [],
+    match_valid: entity.verified,
+    match_summary: `Found within ${entity.evidence[0].ring_km} km of ${location}`,
+    match_basis: [{
+      constraint_type: 'location_constraint',
+      constraint_value: location,
+      valid: entity.verified,
+      reason: entity.evidence[0].reason,
+    }],
+    match_evidence: [],
+    supporting_evidence: [],
+    constraint_verdicts: [],
+    source: 'gp_radius',
+  });
+
+  const verifiedEntities = entities.filter(e => e.verified);
+  const timeMs = Date.now() - startTime;
+  console.log(`[RELOOP_EXECUTOR] gp_radius adapter complete — rings=[${expansion.rings.map(r => `${r.radius_km}km:+${r.new_eligible}`).join(', ')}] stop=${expansion.stopReason} entities=${entities.length} verified=${verifiedEntities.length} timeMs=${timeMs}`);
+
+  return {
+    executorType: 'gp_radius',
+    entities,
+    entitiesAttempted: expansion.rings.reduce((sum, r) => sum + r.results, 0),
+    executionMetadata: {
+      toolsUsed: ['google_geocode', 'google_places'],
+      apiCallsMade: expansion.rings.length + (expansion.stopReason === 'search_failed' ? 1 : 0),
+      timeMs,
+      errorsEncountered: expansion.errors,
+      rateLimitsHit: false,
+    },
+    coverageSignals: {
+      maxResultsHit: targetCount !== null && entities.length >= targetCount,
+      searchQueriesExhausted: expansion.stopReason === 'cap_reached' || expansion.stopReason === 'diminishing_returns',
+      estimatedUniverseSize: null,
+    },
+    rawResult: {
+      radius_center: center,
+      radius_rings: expansion.rings,
+      radius_stop_reason: expansion.stopReason,
+      radius_policy: policy,
+      deliverySummary: {
+        delivered_exact: verifiedEntities.map(toDeliveryLead),
+        delivered_closest: entities.filter(e => !e.verified).map(toDeliveryLead),
+      },
+    },
+  };
+}
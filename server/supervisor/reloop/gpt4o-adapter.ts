@@ -1,4 +1,5 @@
 import { executeGpt4oPrimaryPath, type Gpt4oSearchContext } from '../gpt4o-search';
+import type { IntentNarrative } from '../mission-schema';
 import type { ExecutorInput, ExecutorOutput, ExecutorEntity } from './types';
 
 export async function gpt4oAdapter(input: ExecutorInput): Promise<ExecutorOutput> {
@@ -34,6 +35,12 @@ export async function gpt4oAdapter(input: ExecutorInput): Promise<ExecutorOutput
   const verificationPolicy = plan?.verification_policy?.verification_policy ?? 'balanced';
   const verificationPolicyReason = plan?.verification_policy?.reason ?? 'default';
 
+  // GPT-4o builds its search prompt from the narrative, so wait for a
+  // deferred Pass 3 here rather than searching without it.
+  const pendingNarrative = input.missionContext.intentNarrativePending as Promise<IntentNarrative | null> | undefined;
+  const intentNarrative = (input.missionContext.intentNarrative as IntentNarrative | null | undefined)
+    ?? (pendingNarrative ? await pendingNarrative.catch(() => null) : null);
+
   const gpt4oCtx: Gpt4oSearchContext = {
     runId: input.missionContext.runId as string,
     userId: input.missionContext.userId as string,
@@ -48,7 +55,7 @@ export async function gpt4oAdapter(input: ExecutorInput): Promise<ExecutorOutput
     hardConstraints: input.constraints.hardConstraints,
     softConstraints: input.constraints.softConstraints,
     structuredConstraints: input.constraints.structuredConstraints,
-    intentNarrative: (input.missionContext.intentNarrative as any) ?? null,
+    intentNarrative,
     verificationPolicy,
     verificationPolicyReason,
     queryId: (input.missionContext.queryId as string | null | undefined) ?? null,
@@ -1,5 +1,6 @@
 import { registerExecutor } from './executor-registry';
 import { gpCascadeAdapter } from './gp-cascade-adapter';
+import { gpRadiusAdapter } from './gp-radius-adapter';
 import { gpt4oAdapter } from './gpt4o-adapter';
 import { outreachAdapter } from './outreach-adapter';
 import { gpt4oVerifiedAdapter } from './gpt4o-verified-adapter';
@@ -12,6 +13,14 @@ registerExecutor('gp_cascade', gpCascadeAdapter, {
   costTier: 'cheap',
 });
 
+registerExecutor('gp_radius', gpRadiusAdapter, {
+  description: 'Concentric-radius Google Places search. Geocodes the location, then searches ring by ring (the learned RadiusPolicyV1 steps, e.g. 2, 5, 10 km) with a Places location bias, stopping when a wider ring adds too few new eligible leads or the cap is reached.',
+  strengths: 'Recovers local businesses a single text search ranks out of its top 20. Cheap, structured data, and it stops itself once widening stops paying off. Leads are checked against the named place, so nothing outside it is delivered.',
+  limitations: 'Same index as GP cascade — no help for entities Google Places does not list. Only verifies location; leads for queries with other hard constraints come back unverified. Needs a location that can be geocoded.',
+  typicalUse: 'Re-loop after GP cascade underfills a location-based query, before paying for web search.',
+  costTier: 'cheap',
+});
+
 registerExecutor('gpt4o_search', gpt4oAdapter, {
   description: 'GPT-4o web search discovery. Uses OpenAI GPT-4o with web search to find entities across the open web, including directories, council websites, NHS listings, charity registers, and specialist databases.',
   strengths: 'Finds entities that Google Places misses — charities, CICs, housing associations, niche manufacturers, specialist service providers. Can reason about what to search for. Finds entities on council and government websites.',
@@ -3,6 +3,8 @@ import type { PlannerContext } from './planner';
 import { rulesPlan } from './planner';
 import { getAllExecutorMeta } from './executor-registry';
 import { createArtefact } from '../artefacts';
+import { z } from 'zod';
+import { callLLMJson } from '../llm-json';
 
 function buildSystemPrompt(context: PlannerContext): string {
   const { loopNumber, loopHistory, availableExecutors, circuitBreaker, mission, constraints, intentNarrative } = context;
@@ -123,52 +125,28 @@ export async function llmPlan(context: PlannerContext): Promise<PlannerDecision>
 
   const startMs = Date.now();
 
-  const { default: OpenAI } = await import('openai');
-  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-  const timeoutMs = 10_000;
-  const timeoutPromise = new Promise<never>((_, reject) =>
-    setTimeout(() => reject(new Error('LLM planner timed out after 10s')), timeoutMs)
-  );
+  const schema = z.object({
+    executor_type: z.string().refine(
+      executor => availableExecutors.includes(executor),
+      executor => ({ message: `"${executor}" is not an available executor. Available: ${availableExecutors.join(', ')}` }),
+    ),
+    reasoning: z.string().trim().min(1, 'reasoning must be a non-empty string'),
+  });
 
-  const completionPromise = client.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: [
-      { role: 'system', content: systemPrompt },
-      { role: 'user', content: userMessage },
-    ],
+  const result = await callLLMJson(schema, systemPrompt, userMessage, 'reloop_planner', {
+    providerChain: ['openai', 'anthropic'],
+    openaiModel: 'gpt-4o-mini',
     temperature: 0.2,
-    max_tokens: 256,
-    response_format: { type: 'json_object' },
+    maxTokens: 256,
+    timeoutMs: 10_000,
   });
 
-  const response = await Promise.race([completionPromise, timeoutPromise]);
-
   const latencyMs = Date.now() - startMs;
-  const rawContent = response.choices[0]?.message?.content ?? '';
-  const usage = response.usage;
-
-  console.log(`[RELOOP_LLM_PLANNER] Loop ${loopNumber}: raw response received (latency=${latencyMs}ms, tokens=${usage?.prompt_tokens ?? '?'}/${usage?.completion_tokens ?? '?'})`);
-
-  let parsed: { executor_type: string; reasoning: string };
-  try {
-    parsed = JSON.parse(rawContent);
-  } catch (parseErr: any) {
-    throw new Error(`Failed to parse LLM planner JSON response: ${parseErr.message}. Raw: ${rawContent}`);
-  }
-
-  const chosenExecutor = parsed.executor_type;
-  const reasoning = parsed.reasoning;
-
-  if (!chosenExecutor || !availableExecutors.includes(chosenExecutor)) {
-    throw new Error(`LLM planner returned invalid executor_type "${chosenExecutor}". Available: ${availableExecutors.join(', ')}`);
-  }
-
-  if (!reasoning || typeof reasoning !== 'string' || reasoning.trim().length === 0) {
-    throw new Error('LLM planner returned empty or missing reasoning field.');
-  }
+  const rawContent = result.raw;
+  const chosenExecutor = result.data.executor_type;
+  const reasoning = result.data.reasoning;
 
-  console.log(`[RELOOP_LLM_PLANNER] Loop ${loopNumber}: chose ${chosenExecutor} because ${reasoning} (latency=${latencyMs}ms, tokens=${usage?.prompt_tokens ?? '?'}/${usage?.completion_tokens ?? '?'})`);
+  console.log(`[RELOOP_LLM_PLANNER] Loop ${loopNumber}: chose ${chosenExecutor} because ${reasoning} (latency=${latencyMs}ms, tokens=${result.inputTokens ?? '?'}/${result.outputTokens ?? '?'})`);
 
   const runId = (context as any).runId as string | undefined;
   const userId = (context as any).userId as string | undefined;
@@ -187,8 +165,8 @@ export async function llmPlan(context: PlannerContext): Promise<PlannerDecision>
         raw_response: rawContent,
         parsed_decision: { executor_type: chosenExecutor, reasoning },
         latency_ms: latencyMs,
-        tokens_in: usage?.prompt_tokens ?? null,
-        tokens_out: usage?.completion_tokens ?? null,
+        tokens_in: result.inputTokens ?? null,
+        tokens_out: result.outputTokens ?? null,
       },
       userId,
       conversationId,
@@ -20,6 +20,9 @@ import {
 } from '../protocol-logger';
 import { emitDeliverySummary } from '../delivery-summary';
 import { supabase } from '../../supabase';
+import { getCostAttribution } from '../cost-ledger';
+import { checkBudget, formatBudgetStopReason } from '../budgets';
+import { isIndexablePlaceId, recordAreaSearch, recordEntitySightings, sightingsFromEntities } from '../entity-index';
 import { getExecutor, getAvailableExecutors } from './executor-registry';
 import { plan as plannerPlan } from './planner';
 import { evaluate as judgeEvaluate } from './judge-adapter';
@@ -34,16 +37,10 @@ import {
   emitPolicyAppliedArtefact,
   mergePolicyKnobs,
   BASELINE_DEFAULTS,
+  type LearningKnobs,
 } from '../learning-store';
-
-function normaliseEntityName(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/^the\s+/i, '')
-    .replace(/\b(ltd|limited|inc|plc|llc|llp|co|company|group|holdings)\b\.?/g, '')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
+import { learnRadiusPolicy, radiusRelaxations, type RadiusRing, type RadiusStopReason } from '../radius-expansion';
+import { clusterEntities, entityKey, findPipelineMatches, loadPipelineEntities } from '../entity-resolution';
 
 export async function runReloop(params: {
   runId: string;
@@ -55,14 +52,17 @@ export async function runReloop(params: {
   plan: MissionPlan;
   missionTrace: MissionExtractionTrace;
   intentNarrative: IntentNarrative | null;
+  /** Pass 3 still in flight; folded into the chain when it lands */
+  intentNarrativePending?: Promise<IntentNarrative | null>;
   queryId?: string | null;
   executionPath?: 'gp_cascade' | 'gpt4o_primary';
   checkpoint?: ResumeCheckpoint | null;
 }): Promise<MissionExecutionResult> {
   const {
     runId, userId, conversationId, clientRequestId, rawUserInput,
-    mission, plan, missionTrace, intentNarrative, queryId, executionPath,
+    mission, plan, missionTrace, queryId, executionPath,
   } = params;
+  let intentNarrative = params.intentNarrative;
 
   const chainId = params.checkpoint?.chainId ?? randomUUID();
   const availableExecutors = getAvailableExecutors();
@@ -155,6 +155,7 @@ export async function runReloop(params: {
     plan,
     missionTrace,
     intentNarrative,
+    intentNarrativePending: intentNarrative ? undefined : params.intentNarrativePending,
     runId,
     userId,
     conversationId,
@@ -165,6 +166,7 @@ export async function runReloop(params: {
     hardConstraints,
     softConstraints,
     structuredConstraints,
+    radiusPolicy: BASELINE_DEFAULTS.radius_policy,
   };
 
   const baseExecutorInput: ExecutorInput = {
@@ -193,6 +195,7 @@ export async function runReloop(params: {
   try {
     const learned = await readLearningStore(queryShapeKey);
     const policy = mergePolicyKnobs(BASELINE_DEFAULTS, learned.exists ? learned.knobs : null, learned.fieldMetadata);
+    missionContext.radiusPolicy = policy.knobs.radius_policy;
     const policyPayload = buildPolicyAppliedPayload(queryShapeKey, policy, learned.fieldMetadata, learned.exists);
 
     await emitPolicyAppliedArtefact({
@@ -206,14 +209,29 @@ export async function runReloop(params: {
     console.warn(`[LEARNING] Policy applied artefact failed (non-fatal): ${policyErr.message}`);
   }
 
-  if (intentNarrative) {
+  const announceIntent = (narrative: IntentNarrative) => {
     emitIntentResolved({
       ...protocolBase,
-      entityDescription: intentNarrative.entity_description,
-      scarcityExpectation: intentNarrative.scarcity_expectation,
-      keyDiscriminator: intentNarrative.key_discriminator,
-      findability: intentNarrative.findability,
-      exclusions: intentNarrative.entity_exclusions,
+      entityDescription: narrative.entity_description,
+      scarcityExpectation: narrative.scarcity_expectation,
+      keyDiscriminator: narrative.key_discriminator,
+      findability: narrative.findability,
+      exclusions: narrative.entity_exclusions,
+    }).catch(() => {});
+  };
+
+  if (intentNarrative) {
+    announceIntent(intentNarrative);
+  } else if (params.intentNarrativePending) {
+    // The first loop may already be running on Pass 2's mission; later loops
+    // and the planner pick the narrative up from here.
+    params.intentNarrativePending.then(narrative => {
+      missionContext.intentNarrativePending = undefined;
+      if (!narrative) return;
+      intentNarrative = narrative;
+      missionContext.intentNarrative = narrative;
+      console.log(`[RELOOP_SKELETON] Intent narrative arrived mid-chain — folded in`);
+      announceIntent(narrative);
     }).catch(() => {});
   }
 
@@ -240,6 +258,8 @@ export async function runReloop(params: {
     return false;
   };
 
+  let budgetStopReason: string | null = null;
+
   // ── Restore state from checkpoint if resuming ──
   const isResuming = !!params.checkpoint?.canResume;
 
@@ -248,7 +268,7 @@ export async function runReloop(params: {
     console.log(`[RELOOP_SKELETON] RESUMING from checkpoint: lastCompletedLoop=${cp.lastCompletedLoop} resumeFrom=${cp.resumeFrom} entities=${cp.accumulatedEntities.length}`);
 
     for (const entity of cp.accumulatedEntities) {
-      accumulatedEntityMap.set(normaliseEntityName(entity.name), entity);
+      accumulatedEntityMap.set(entityKey(entity), entity);
     }
 
     loopHistory.push(...cp.loopHistory);
@@ -299,7 +319,16 @@ export async function runReloop(params: {
     // This exits cleanly with whatever entities have been accumulated so far.
     const reloopDeadlineHit = isReloopDeadlineExceeded();
 
-    const circuitBreaker = loopNumber > maxLoops || reloopDeadlineHit;
+    // A spent user/account budget makes this the last loop, on the cheapest executor.
+    if (!budgetStopReason) {
+      const budget = await checkBudget({ ...getCostAttribution(), runId, userId });
+      if (!budget.allowed) {
+        budgetStopReason = formatBudgetStopReason(budget);
+        console.warn(`[RELOOP_BUDGET] runId=${runId} chainId=${chainId} — ${budgetStopReason} — forcing delivery`);
+      }
+    }
+
+    const circuitBreaker = loopNumber > maxLoops || reloopDeadlineHit || budgetStopReason !== null;
 
     console.log(`[RELOOP_SKELETON] ── Loop ${loopNumber} start ── chainId=${chainId} circuitBreaker=${circuitBreaker}`);
 
@@ -308,7 +337,7 @@ export async function runReloop(params: {
       && params.checkpoint?.resumeFrom === 'judge'
       && loopNumber === (params.checkpoint.lastCompletedLoop + 1);
 
-    const knownEntityNames = Array.from(accumulatedEntityMap.keys());
+    const knownEntityNames = Array.from(accumulatedEntityMap.values()).map(e => e.name);
     let plannerDecision: PlannerDecision;
     let executorOutput: ExecutorOutput;
 
@@ -326,6 +355,7 @@ export async function runReloop(params: {
         executionPath,
         availableExecutors,
         circuitBreaker,
+        budgetExceeded: budgetStopReason !== null,
         mission: baseExecutorInput.mission,
         constraints: {
           hardConstraints,
@@ -382,6 +412,8 @@ export async function runReloop(params: {
 
       try {
         executorOutput = await executorFn(executorInput);
+        // The area counts as searched even when nothing turned up
+        recordAreaSearch(location).catch(() => {});
       } catch (execErr: any) {
         console.error(`[RELOOP_SKELETON] Loop ${loopNumber}: executor "${plannerDecision.executorType}" threw: ${execErr.message}`);
         executorOutput = {
@@ -405,6 +437,7 @@ export async function runReloop(params: {
       }
 
       executorsTriedSoFar.push(plannerDecision.executorType);
+      recordEntitySightings(sightingsFromEntities(executorOutput.entities, executorOutput.executorType)).catch(() => {});
 
       console.log('[PROTOCOL_EMIT] logMilestoneReached:', {
         milestoneKey: `${plannerDecision.executorType}_complete`,
@@ -500,9 +533,11 @@ export async function runReloop(params: {
 
     lastGateDecision = gateDecision;
 
+    // The gate returns the whole accumulator with duplicates merged, so it
+    // replaces the map rather than adding to it
+    accumulatedEntityMap.clear();
     for (const entity of gateDecision.contextForward.accumulatedEntities) {
-      const key = normaliseEntityName(entity.name);
-      accumulatedEntityMap.set(key, entity);
+      accumulatedEntityMap.set(entityKey(entity), entity);
     }
 
     const loopCompletedAt = new Date().toISOString();
@@ -646,6 +681,7 @@ export async function runReloop(params: {
 
   const totalEntities = accumulatedEntityMap.size;
   const totalLoops = loopHistory.length;
+  const radiusLoops = loopHistory.filter(r => r.plannerDecision.executorType === 'gp_radius');
 
   try {
     const executorPerformance: Record<string, number> = {};
@@ -658,13 +694,25 @@ export async function runReloop(params: {
     const bestExecutor = Object.entries(executorPerformance)
       .sort(([, a], [, b]) => b - a)[0]?.[0] ?? 'gp_cascade';
 
+    const updates: Partial<LearningKnobs> = {
+      search_budget_pages: totalLoops,
+      default_result_count: totalEntities,
+    };
+    const lastRadiusLoop = radiusLoops[radiusLoops.length - 1];
+    if (lastRadiusLoop) {
+      const verifiedCount = Array.from(accumulatedEntityMap.values()).filter(e => e.verified).length;
+      const learnedRadius = learnRadiusPolicy(missionContext.radiusPolicy as LearningKnobs['radius_policy'], {
+        rings: (lastRadiusLoop.executorOutput.rawResult.radius_rings as RadiusRing[] | undefined) ?? [],
+        stopReason: lastRadiusLoop.executorOutput.rawResult.radius_stop_reason as RadiusStopReason,
+        underfilled: requestedCount !== null && verifiedCount < requestedCount,
+      });
+      if (learnedRadius) updates.radius_policy = learnedRadius;
+    }
+
     await handleLearningUpdate({
       query_shape_key: queryShapeKey,
       run_id: runId,
-      updates: {
-        search_budget_pages: totalLoops,
-        default_result_count: totalEntities,
-      },
+      updates,
     });
     console.log(`[LEARNING] Recorded outcome: shape=${queryShapeKey} bestExecutor=${bestExecutor} performance=${JSON.stringify(executorPerformance)}`);
   } catch (learnErr: any) {
@@ -777,28 +825,57 @@ export async function runReloop(params: {
 
   // Build merged delivered_exact from all loops' delivery summaries
   // Fix B: check multiple possible field names to handle format differences between executors
+  // Duplicates across loops and executors are resolved on name, postcode,
+  // phone, domain and place id; a lead kept as exact anywhere stays exact and
+  // the duplicates' evidence is merged into it
   const mergedExact: any[] = [];
   const mergedClosest: any[] = [];
-  const seenNames = new Set<string>();
+  const dsCandidates: Array<{ lead: any; exact: boolean }> = [];
   for (const ds of allDeliverySummaries) {
     const exactLeads = ds.delivered_exact || ds.leads || ds.results || [];
     const closestLeads = ds.delivered_closest || [];
     console.log(`[RELOOP_SKELETON] Merge: ds has delivered_exact=${(ds.delivered_exact || []).length} leads=${(ds.leads || []).length} results=${(ds.results || []).length} delivered_closest=${closestLeads.length}`);
     for (const lead of exactLeads) {
-      const key = (lead.name || '').toLowerCase().trim();
-      if (key && !seenNames.has(key)) {
-        seenNames.add(key);
-        mergedExact.push(lead);
-      }
+      if ((lead.name || '').trim()) dsCandidates.push({ lead, exact: true });
     }
     for (const lead of closestLeads) {
-      const key = (lead.name || '').toLowerCase().trim();
-      if (key && !seenNames.has(key)) {
-        seenNames.add(key);
-        mergedClosest.push(lead);
-      }
+      if ((lead.name || '').trim()) dsCandidates.push({ lead, exact: false });
     }
   }
+  // Delivered leads carry little beyond name and address; contact details and
+  // coordinates come from the accumulated entity with the same real place id
+  const accumulatedByPlaceId = new Map<string, ExecutorEntity>();
+  allEntities.forEach(e => {
+    if (isIndexablePlaceId(e.placeId)) accumulatedByPlaceId.set(e.placeId, e);
+  });
+  const dsClusters = clusterEntities(dsCandidates, ({ lead }) => {
+    const placeId = lead.entity_id || lead.place_id;
+    const known = isIndexablePlaceId(placeId) ? accumulatedByPlaceId.get(placeId) : undefined;
+    return {
+      name: lead.name,
+      address: lead.address || known?.address,
+      phone: lead.phone ?? known?.phone,
+      website: lead.website ?? known?.website,
+      placeId,
+      lat: lead.lat ?? known?.lat,
+      lng: lead.lng ?? known?.lng,
+    };
+  });
+  for (const cluster of dsClusters) {
+    const primary = cluster.find(c => c.exact) ?? cluster[0];
+    const others = cluster.filter(c => c !== primary).map(c => c.lead);
+    const lead = others.length === 0 ? primary.lead : {
+      ...primary.lead,
+      phone: primary.lead.phone || others.find(o => o.phone)?.phone || null,
+      website: primary.lead.website || others.find(o => o.website)?.website || null,
+      match_evidence: cluster.flatMap(c => c.lead.match_evidence || []),
+      supporting_evidence: cluster.flatMap(c => c.lead.supporting_evidence || []),
+    };
+    (primary.exact ? mergedExact : mergedClosest).push(lead);
+  }
+  if (dsClusters.length < dsCandidates.length) {
+    console.log(`[RELOOP_SKELETON] Merge: resolved ${dsCandidates.length} delivery leads into ${dsClusters.length} entities`);
+  }
 
   // Fix C: fallback — if merge produced nothing but we have verified entities, build from accumulator
   if (mergedExact.length === 0 && deliveredLeads.length > 0) {
@@ -1061,6 +1138,7 @@ export async function runReloop(params: {
   // the UI honestly shows "no verified matches" instead of stale state.
   if (verifiedMergedExact.length > 0 || combinedClosest.length > 0) {
     try {
+      const pipeline = await loadPipelineEntities(userId);
       const canonicalDsLeads = verifiedMergedExact.map((lead: any) => ({
         entity_id: lead.entity_id || lead.place_id || `lead:${lead.name}`,
         name: lead.name,
@@ -1071,15 +1149,31 @@ export async function runReloop(params: {
         match_basis: lead.match_basis || [],
         supporting_evidence: lead.supporting_evidence || [],
         match_evidence: lead.match_evidence || [],
+        pipeline_matches: findPipelineMatches({
+          name: lead.name,
+          address: lead.address,
+          phone: lead.phone,
+          website: lead.website,
+          placeId: lead.place_id,
+        }, pipeline),
       }));
+      const inPipelineCount = canonicalDsLeads.filter(l => l.pipeline_matches.length > 0).length;
+      if (inPipelineCount > 0) {
+        console.log(`[RELOOP_SKELETON] ${inPipelineCount}/${canonicalDsLeads.length} delivered leads are already in the user's pipeline (${pipeline.length} pipeline leads checked)`);
+      }
 
       // Verdict reflects verified count, not total candidates.
       // 0 verified === honest "stop" with stop_reason explaining why.
       const canonicalVerdict = verifiedDeliveredLeads.length > 0 ? 'pass' : (combinedTowerVerdict || 'stop');
       const canonicalAction = verifiedDeliveredLeads.length > 0 ? 'accept' : 'stop';
-      const canonicalStopReason = verifiedDeliveredLeads.length > 0
+      const canonicalStopReason = budgetStopReason ?? (verifiedDeliveredLeads.length > 0
         ? null
-        : `Found ${combinedClosest.length} candidate${combinedClosest.length === 1 ? '' : 's'} but none had verifiable evidence for the hard constraints.`;
+        : `Found ${combinedClosest.length} candidate${combinedClosest.length === 1 ? '' : 's'} but none had verifiable evidence for the hard constraints.`);
+
+      // Each widening ring of a gp_radius loop is reported as a search_radius
+      // relaxation on its own plan version after the base search
+      const radiusRings = radiusLoops.flatMap(r => (r.executorOutput.rawResult.radius_rings as RadiusRing[] | undefined) ?? []);
+      const softRelaxations = radiusRelaxations(radiusRings);
 
       await emitDeliverySummary({
         runId,
@@ -1089,8 +1183,11 @@ export async function runReloop(params: {
         requestedCount,
         hardConstraints,
         softConstraints,
-        planVersions: [{ version: 1, changes_made: ['Combined re-loop delivery'] }],
-        softRelaxations: [],
+        planVersions: [
+          { version: 1, changes_made: ['Combined re-loop delivery'] },
+          ...softRelaxations.map(r => ({ version: r.plan_version, changes_made: [`Search radius widened from ${r.from} to ${r.to}`] })),
+        ],
+        softRelaxations,
         leads: canonicalDsLeads,
         finalVerdict: canonicalVerdict,
         finalAction: canonicalAction,
@@ -10,6 +10,7 @@ import { executeContactExtract, type ContactExtractInput } from '../contact-extr
 import { executeWebVisit } from '../web-visit';
 import { draftOutreachEmail, type DraftInput } from '../outreach-drafter';
 import { buildFromAddress, buildReplyToAddress } from '../outreach-transport';
+import { countWebSearchCalls, recordLLMUsage } from '../cost-ledger';
 import { supabase } from '../../supabase';
 import { randomUUID } from 'crypto';
 
@@ -159,6 +160,7 @@ export async function outreachAdapter(input: ExecutorInput): Promise<ExecutorOut
         });
         if (!resp.ok) continue;
         const data = await resp.json();
+        recordLLMUsage({ label: 'outreach_email_finder', provider: 'openai', model: 'gpt-4o-mini', usage: data.usage, webSearchCalls: countWebSearchCalls(data.output) });
         let content = '';
         if (Array.isArray(data.output)) {
           for (const item of data.output) {
@@ -1,6 +1,7 @@
 import type { LoopRecord, PlannerDecision } from './types';
 import { readLearningStore } from '../learning-store';
 import { computeQueryShapeKey, deriveQueryShapeFromGoal } from '../query-shape-key';
+import { getExecutorMeta } from './executor-registry';
 
 export interface PlannerContext {
   loopNumber: number;
@@ -8,6 +9,8 @@ export interface PlannerContext {
   executionPath?: 'gp_cascade' | 'gpt4o_primary';
   availableExecutors: string[];
   circuitBreaker: boolean;
+  /** User/account budget is spent: plan without the LLM and use the cheapest executor */
+  budgetExceeded?: boolean;
   mission?: {
     queryText: string;
     rawUserInput: string;
@@ -33,11 +36,27 @@ export interface PlannerContext {
   conversationId?: string;
 }
 
+const COST_TIER_ORDER = { cheap: 0, moderate: 1, expensive: 2 } as const;
+
+/** Lowest cost tier among available executors; executors without metadata rank as moderate */
+function cheapestExecutor(availableExecutors: string[]): string {
+  const rank = (executor: string) => COST_TIER_ORDER[getExecutorMeta(executor)?.costTier ?? 'moderate'];
+  const sorted = availableExecutors.slice().sort((a, b) => rank(a) - rank(b));
+  return sorted[0] ?? 'gp_cascade';
+}
+
 export async function rulesPlan(context: PlannerContext): Promise<PlannerDecision> {
   const { loopNumber, loopHistory, executionPath, availableExecutors, circuitBreaker } = context;
 
   const executorsTriedSoFar = new Set(loopHistory.map(r => r.plannerDecision.executorType));
 
+  if (context.budgetExceeded) {
+    const cheapest = cheapestExecutor(availableExecutors);
+    const reason = `Budget exhausted — delivering with the cheapest executor (${cheapest}).`;
+    console.log(`[RELOOP_PLANNER] Loop ${loopNumber}: chose ${cheapest} because ${reason}`);
+    return { executorType: cheapest, reasoning: reason };
+  }
+
   if (circuitBreaker) {
     const fastest = availableExecutors[0] ?? 'gp_cascade';
     const reason = `Circuit breaker active — this is the last attempt. Using ${fastest}.`;
@@ -85,7 +104,13 @@ export async function rulesPlan(context: PlannerContext): Promise<PlannerDecisio
   const lastLoop = loopHistory[loopHistory.length - 1];
   const lastExecutor = lastLoop?.plannerDecision.executorType ?? '';
 
-  if (lastExecutor === 'gp_cascade' && availableExecutors.includes('gpt4o_search') && !executorsTriedSoFar.has('gpt4o_search')) {
+  if (lastExecutor === 'gp_cascade' && availableExecutors.includes('gp_radius') && !executorsTriedSoFar.has('gp_radius') && context.mission?.location) {
+    const reason = 'Re-loop after GP cascade — widening the Places search ring by ring around the location before trying web search.';
+    console.log(`[RELOOP_PLANNER] Loop ${loopNumber}: chose gp_radius because ${reason}`);
+    return { executorType: 'gp_radius', reasoning: reason };
+  }
+
+  if ((lastExecutor === 'gp_cascade' || lastExecutor === 'gp_radius') && availableExecutors.includes('gpt4o_search') && !executorsTriedSoFar.has('gpt4o_search')) {
     const reason = 'Re-loop after GP cascade exhaustion — switching to GPT-4o search for broader web coverage.';
     console.log(`[RELOOP_PLANNER] Loop ${loopNumber}: chose gpt4o_search because ${reason}`);
     return { executorType: 'gpt4o_search', reasoning: reason };
@@ -111,6 +136,7 @@ export async function rulesPlan(context: PlannerContext): Promise<PlannerDecisio
 }
 
 export async function plan(context: PlannerContext): Promise<PlannerDecision> {
+  if (context.budgetExceeded) return await rulesPlan(context);
   try {
     const { llmPlan } = await import('./llm-planner');
     const result = await llmPlan(context);
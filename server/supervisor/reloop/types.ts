@@ -53,6 +53,10 @@ export interface ExecutorEntity {
   verified: boolean;
   verificationStatus: string;
   evidence: Record<string, unknown>[];
+  lat?: number | null;
+  lng?: number | null;
+  /** Sources of the entities entity resolution merged into this one */
+  mergedSources?: string[];
 }
 
 // ── Judge → Gate ──
@@ -16,6 +16,9 @@
  */
 
 import { supabase } from '../supabase';
+import { z } from 'zod';
+import { callLLMJson } from './llm-json';
+import { acquireRateLimit } from './rate-limits';
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -69,25 +72,6 @@ interface RescueLogParams {
   partialExtraction?: any;
 }
 
-// ─── Circuit breaker — prevent runaway rescue calls ─────────────────────────
-
-const _rescueCallTimestamps: number[] = [];
-const CIRCUIT_BREAKER_WINDOW_MS = 5 * 60 * 1000; // 5 minutes
-const CIRCUIT_BREAKER_MAX_CALLS = 20;
-
-function isCircuitBroken(): boolean {
-  const cutoff = Date.now() - CIRCUIT_BREAKER_WINDOW_MS;
-  // Evict old entries
-  while (_rescueCallTimestamps.length > 0 && _rescueCallTimestamps[0] < cutoff) {
-    _rescueCallTimestamps.shift();
-  }
-  return _rescueCallTimestamps.length >= CIRCUIT_BREAKER_MAX_CALLS;
-}
-
-function recordRescueCall(): void {
-  _rescueCallTimestamps.push(Date.now());
-}
-
 // ─── Max 1 self-heal per conversation turn ──────────────────────────────────
 
 const _rescueAttemptsPerRun = new Map<string, number>();
@@ -107,41 +91,26 @@ setInterval(() => {
   }
 }, 10 * 60 * 1000);
 
-// ─── LLM call (Haiku — cheap + fast, only fires on failures) ───────────────
+// ─── Response schema ────────────────────────────────────────────────────────
 
-async function callAnthropicHaiku(systemPrompt: string, userPrompt: string): Promise<string> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not set — cannot call rescue LLM');
-  }
-
-  const model = process.env.RESCUE_LLM_MODEL || 'claude-haiku-4-5-20251001';
-
-  const resp = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 500,
-      temperature: 0,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
+const RescueResultSchema: z.ZodType<RescueResult, z.ZodTypeDef, unknown> = z.discriminatedUnion('outcome', [
+  z.object({
+    outcome: z.literal('self_healed'),
+    reasoning: z.string().default(''),
+    rewrittenMission: z.object({
+      business_type: z.string().min(1),
+      location: z.string().min(1),
+      criteria: z.string().optional(),
     }),
-  });
-
-  if (!resp.ok) {
-    const body = await resp.text();
-    throw new Error(`Anthropic API ${resp.status}: ${body.substring(0, 200)}`);
-  }
-
-  const data = await resp.json() as { content: Array<{ type: string; text?: string }> };
-  const textBlock = data.content?.find((b) => b.type === 'text');
-  return textBlock?.text || '';
-}
+    confidence: z.number().optional(),
+  }),
+  z.object({
+    outcome: z.literal('clarification_needed'),
+    reasoning: z.string().default(''),
+    clarificationQuestion: z.string().min(1),
+    missingFields: z.array(z.string()).default([]),
+  }),
+]);
 
 // ─── Learned patterns loader ────────────────────────────────────────────────
 
@@ -266,19 +235,19 @@ async function findSimilarRescuePattern(
 export async function attemptRescueLLM(params: RescueParams): Promise<RescueResult> {
   const startTime = Date.now();
 
-  // Circuit breaker check
-  if (isCircuitBroken()) {
-    console.error(`[RESCUE_LLM] Circuit breaker OPEN — ${CIRCUIT_BREAKER_MAX_CALLS} rescue calls in ${CIRCUIT_BREAKER_WINDOW_MS / 1000}s. Falling back to generic clarification.`);
-    return buildGenericClarification('Circuit breaker triggered — too many rescue calls');
-  }
-
   // Max 1 self-heal per run
   if (hasAlreadyRescued(params.jobId)) {
     console.warn(`[RESCUE_LLM] Already rescued runId=${params.jobId} — returning clarification instead of second self-heal`);
     return buildGenericClarification('Already attempted rescue for this conversation turn');
   }
 
-  recordRescueCall();
+  // Shared limit against runaway rescue calls (route:rescue_llm, default 20 per 5 minutes)
+  const limit = await acquireRateLimit({ route: 'rescue_llm', userId: params.userId });
+  if (!limit.allowed) {
+    console.error(`[RESCUE_LLM] ${limit.reason} on ${limit.key}. Falling back to generic clarification.`);
+    return buildGenericClarification('Circuit breaker triggered — too many rescue calls');
+  }
+
   recordRescueAttempt(params.jobId);
 
   // Load learned patterns from DB
@@ -353,34 +322,16 @@ ${conversationSnippet}
 Rescue this query — either self-heal or ask a specific clarification question.`;
 
   try {
-    const rawResponse = await callAnthropicHaiku(rescueSystemPrompt, rescueUserPrompt);
+    // Haiku — cheap + fast, only fires on failures
+    const { data } = await callLLMJson(RescueResultSchema, rescueSystemPrompt, rescueUserPrompt, 'rescue_llm', {
+      preferredProvider: 'anthropic',
+      anthropicModel: process.env.RESCUE_LLM_MODEL || 'claude-haiku-4-5-20251001',
+      maxTokens: 500,
+      temperature: 0,
+    });
     const duration = Date.now() - startTime;
     console.log(`[RESCUE_LLM] LLM call completed in ${duration}ms`);
-
-    // Parse JSON response
-    const cleaned = rawResponse.trim()
-      .replace(/^```json\s*/i, '')
-      .replace(/```\s*$/, '')
-      .trim();
-
-    const parsed = JSON.parse(cleaned) as RescueResult;
-
-    // Validate the response shape
-    if (parsed.outcome === 'self_healed') {
-      if (!parsed.rewrittenMission?.business_type || !parsed.rewrittenMission?.location) {
-        console.warn(`[RESCUE_LLM] Self-heal missing required fields — falling back to clarification`);
-        return buildGenericClarification('Self-heal response was incomplete');
-      }
-    } else if (parsed.outcome === 'clarification_needed') {
-      if (!parsed.clarificationQuestion) {
-        return buildGenericClarification('Clarification response was empty');
-      }
-    } else {
-      console.warn(`[RESCUE_LLM] Unknown outcome "${parsed.outcome}" — falling back to clarification`);
-      return buildGenericClarification('Unknown rescue outcome');
-    }
-
-    return parsed;
+    return data;
   } catch (err: any) {
     const duration = Date.now() - startTime;
     console.error(`[RESCUE_LLM] Rescue LLM call failed after ${duration}ms: ${err.message}`);
@@ -0,0 +1,208 @@
+/**
+ * Research Citation Validation
+ *
+ * Visits every source cited by a deep research report (through web-visit, so
+ * pages come from the shared fetch cache) and checks that the report sentences
+ * citing it are backed by the page text. Dead links and unsupported citations
+ * are flagged in the report artefact.
+ */
+
+import { visitPage } from './web-visit';
+import type { ResearchSource } from './research-provider';
+
+/**
+ * supported   — page reachable and mentions the key terms of the citing sentences
+ * live        — page reachable, but the report never cites it inline, so there is no claim to check
+ * unsupported — page reachable, but the citing sentences are not backed by its text
+ * dead        — page could not be fetched (HTTP error, DNS, timeout)
+ * unverified  — not checked: bot-blocked or over the per-report limit
+ */
+export type CitationStatus = 'supported' | 'live' | 'unsupported' | 'dead' | 'unverified';
+
+export interface CitationCheck {
+  title: string;
+  url: string;
+  status: CitationStatus;
+  httpStatus?: number;
+  /** Report sentences citing this source */
+  claims: string[];
+  /** Best share of a claim's key terms found on the page (0-1), null when not scored */
+  support: number | null;
+  note?: string;
+}
+
+export interface CitationSummary {
+  total: number;
+  supported: number;
+  live: number;
+  unsupported: number;
+  dead: number;
+  unverified: number;
+}
+
+export interface CitationReport {
+  checks: CitationCheck[];
+  summary: CitationSummary;
+}
+
+const MAX_CITATION_CHECKS = 25;
+const CHECK_CONCURRENCY = 4;
+/** Minimum share of a claim's key terms the page must contain */
+const SUPPORT_THRESHOLD = 0.3;
+/** Claims with fewer key terms than this are too vague to score */
+const MIN_CLAIM_TERMS = 3;
+
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'also', 'among', 'been', 'being', 'between', 'both', 'could', 'does',
+  'each', 'from', 'have', 'into', 'more', 'most', 'much', 'other', 'over', 'report', 'reports',
+  'said', 'same', 'since', 'some', 'such', 'than', 'that', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'through', 'under', 'very', 'were', 'what', 'when', 'where',
+  'which', 'while', 'will', 'with', 'within', 'would', 'your', 'source', 'according',
+]);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\s*\[\d+\]/g, '')
+    .replace(/[*_`#>|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Sentences of the report that cite `url`, either as a Markdown link or as a
+ * numbered marker `[n]` (Perplexity-style, n = position in the sources list).
+ */
+export function findCitingClaims(reportMarkdown: string, url: string, position: number): string[] {
+  const linkPattern = new RegExp(`\\]\\(${escapeRegExp(url)}\\)`);
+  const markerPattern = new RegExp(`\\[${position}\\](?!\\()`);
+  const claims: string[] = [];
+  for (const line of reportMarkdown.split('\n')) {
+    for (const sentence of line.split(/(?<=[.!?])\s+(?=[A-Z0-9*_\[])/)) {
+      if (!linkPattern.test(sentence) && !markerPattern.test(sentence)) continue;
+      const text = toPlainText(sentence);
+      if (text && !claims.includes(text)) claims.push(text);
+    }
+  }
+  return claims;
+}
+
+function keyTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9][a-z0-9'-]*/g) || [];
+  const terms = words.filter(w => (/\d/.test(w) ? w.length >= 2 : w.length >= 4) && !STOPWORDS.has(w));
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Share of the claim's key terms present in the page text, or null when the
+ * claim has too few terms to score.
+ */
+export function scoreClaimSupport(claim: string, pageText: string): number | null {
+  const terms = keyTerms(claim);
+  if (terms.length < MIN_CLAIM_TERMS) return null;
+  const haystack = pageText.toLowerCase();
+  const found = terms.filter(term => haystack.includes(term)).length;
+  return Math.round((found / terms.length) * 100) / 100;
+}
+
+async function checkSource(source: ResearchSource, position: number, reportMarkdown: string): Promise<CitationCheck> {
+  const claims = findCitingClaims(reportMarkdown, source.url, position);
+  const base = { title: source.title, url: source.url, claims, support: null };
+
+  let result;
+  try {
+    result = await visitPage(source.url);
+  } catch (err: any) {
+    return { ...base, status: 'dead', note: err?.message || String(err) };
+  }
+
+  if (!result.ok || !result.page) {
+    if (result.blocked) return { ...base, status: 'unverified', httpStatus: result.status, note: 'blocked by bot protection' };
+    return { ...base, status: 'dead', httpStatus: result.status, note: result.error };
+  }
+
+  const pageText = `${result.page.title} ${result.page.text}`;
+  const scores = claims
+    .map(claim => scoreClaimSupport(claim, pageText))
+    .filter((s): s is number => s !== null);
+  if (scores.length === 0) {
+    return { ...base, status: 'live', httpStatus: result.status, note: claims.length > 0 ? 'citing sentences too short to score' : 'not cited inline' };
+  }
+
+  const support = Math.max(...scores);
+  return {
+    ...base,
+    status: support >= SUPPORT_THRESHOLD ? 'supported' : 'unsupported',
+    httpStatus: result.status,
+    support,
+  };
+}
+
+export function summarizeCitations(checks: CitationCheck[]): CitationSummary {
+  const summary: CitationSummary = { total: checks.length, supported: 0, live: 0, unsupported: 0, dead: 0, unverified: 0 };
+  for (const check of checks) summary[check.status]++;
+  return summary;
+}
+
+/**
+ * Visit each source and grade the citations pointing at it. Never throws: a
+ * source that cannot be checked is reported as dead or unverified.
+ */
+export async function validateCitations(sources: ResearchSource[], reportMarkdown: string): Promise<CitationReport> {
+  const checks: CitationCheck[] = new Array(sources.length);
+  const toCheck = sources.slice(0, MAX_CITATION_CHECKS);
+
+  for (let i = 0; i < toCheck.length; i += CHECK_CONCURRENCY) {
+    const batch = toCheck.slice(i, i + CHECK_CONCURRENCY);
+    const results = await Promise.all(batch.map((source, j) => checkSource(source, i + j + 1, reportMarkdown)));
+    results.forEach((check, j) => { checks[i + j] = check; });
+  }
+  for (let i = toCheck.length; i < sources.length; i++) {
+    const source = sources[i];
+    checks[i] = {
+      title: source.title,
+      url: source.url,
+      status: 'unverified',
+      claims: findCitingClaims(reportMarkdown, source.url, i + 1),
+      support: null,
+      note: `not checked (limit of ${MAX_CITATION_CHECKS} sources per report)`,
+    };
+  }
+
+  const summary = summarizeCitations(checks);
+  console.log(`[CITATION_CHECK] total=${summary.total} supported=${summary.supported} live=${summary.live} unsupported=${summary.unsupported} dead=${summary.dead} unverified=${summary.unverified}`);
+  return { checks, summary };
+}
+
+/**
+ * Append a "Citation check" section to the report listing dead links and
+ * unsupported citations. Reports without sources are returned unchanged.
+ */
+export function appendCitationFlags(reportMarkdown: string, report: CitationReport): string {
+  const { summary } = report;
+  if (summary.total === 0) return reportMarkdown;
+
+  const lines = [
+    '',
+    '## Citation check',
+    '',
+    `${summary.total} source${summary.total === 1 ? '' : 's'} checked: ${summary.supported} supported, ${summary.live} reachable, ${summary.unsupported} unsupported, ${summary.dead} dead, ${summary.unverified} unverified.`,
+  ];
+  const flagged = report.checks.filter(c => c.status === 'dead' || c.status === 'unsupported');
+  if (flagged.length > 0) {
+    lines.push('');
+    for (const check of flagged) {
+      if (check.status === 'dead') {
+        lines.push(`- **Dead link:** [${check.title}](${check.url})${check.httpStatus ? ` (HTTP ${check.httpStatus})` : ''}`);
+      } else {
+        const claim = check.claims[0] ? ` — page does not back: "${check.claims[0].substring(0, 160)}"` : '';
+        lines.push(`- **Unsupported citation:** [${check.title}](${check.url})${claim}`);
+      }
+    }
+  }
+  return `${reportMarkdown.replace(/\s+$/, '')}\n${lines.join('\n')}\n`;
+}
@@ -0,0 +1,253 @@
+/**
+ * Research Report Export
+ *
+ * Renders a deep research report as Markdown, standalone HTML or PDF.
+ * PDF rendering prints the HTML with Playwright's Chromium (the same optional
+ * dependency web-visit uses); it fails with ResearchExportUnavailableError
+ * when the browser is not installed.
+ */
+
+import type { ResearchSource } from './research-provider';
+
+export type ResearchExportFormat = 'markdown' | 'html' | 'pdf';
+
+export const RESEARCH_EXPORT_FORMATS: ResearchExportFormat[] = ['markdown', 'html', 'pdf'];
+
+export interface ResearchReportDocument {
+  title: string;
+  report_markdown: string;
+  sources?: ResearchSource[];
+  provider?: string;
+}
+
+export interface ResearchExport {
+  format: ResearchExportFormat;
+  contentType: string;
+  filename: string;
+  body: string | Buffer;
+}
+
+export class ResearchExportUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResearchExportUnavailableError';
+  }
+}
+
+export function isResearchExportFormat(value: unknown): value is ResearchExportFormat {
+  return typeof value === 'string' && (RESEARCH_EXPORT_FORMATS as string[]).includes(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function safeHref(url: string): string | null {
+  return /^(https?:|mailto:)/i.test(url.trim()) ? url.trim() : null;
+}
+
+function renderInline(text: string): string {
+  const codeSpans: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_m, code: string) => {
+    codeSpans.push(`<code>${code}</code>`);
+    return `\u0000${codeSpans.length - 1}\u0000`;
+  });
+  html = html
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_m, label: string, url: string) => {
+      const href = safeHref(url);
+      return href ? `<a href="${href}">${label}</a>` : label;
+    })
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/__([^_]+)__/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+    .replace(/(^|[\s(])_([^_\s][^_]*)_/g, '$1<em>$2</em>');
+  return html.replace(/\u0000(\d+)\u0000/g, (_m, i: string) => codeSpans[Number(i)]);
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Minimal Markdown → HTML for research reports: headings, paragraphs, lists,
+ * tables, blockquotes, rules, fenced code, links and emphasis. Raw HTML in
+ * the report is escaped and only http(s)/mailto links are kept.
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const out: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) out.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) out.push(`<${list.tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${list.tag}>`);
+    list = null;
+  };
+  const flush = () => { flushParagraph(); flushList(); };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('```')) {
+      flush();
+      const code: string[] = [];
+      while (i + 1 < lines.length && !lines[i + 1].trim().startsWith('```')) code.push(lines[++i]);
+      i++;
+      out.push(`<pre><code>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+    if (!trimmed) { flush(); continue; }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      flush();
+      out.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      continue;
+    }
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flush();
+      out.push('<hr>');
+      continue;
+    }
+    if (trimmed.startsWith('>')) {
+      flush();
+      const quote: string[] = [trimmed.replace(/^>\s?/, '')];
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('>')) quote.push(lines[++i].trim().replace(/^>\s?/, ''));
+      out.push(`<blockquote>${renderInline(quote.join(' '))}</blockquote>`);
+      continue;
+    }
+    if (trimmed.startsWith('|') && i + 1 < lines.length && /^\|?\s*:?-{2,}/.test(lines[i + 1].trim())) {
+      flush();
+      const header = splitTableRow(trimmed);
+      const rows: string[][] = [];
+      i++;
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('|')) rows.push(splitTableRow(lines[++i]));
+      out.push(
+        `<table><thead><tr>${header.map(cell => `<th>${renderInline(cell)}</th>`).join('')}</tr></thead>` +
+        `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${renderInline(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`,
+      );
+      continue;
+    }
+
+    const bullet = trimmed.match(/^[-*+]\s+(.*)$/);
+    const numbered = trimmed.match(/^\d+[.)]\s+(.*)$/);
+    if (bullet || numbered) {
+      flushParagraph();
+      const tag = bullet ? 'ul' : 'ol';
+      if (list && list.tag !== tag) flushList();
+      if (!list) list = { tag, items: [] };
+      list.items.push((bullet || numbered)![1]);
+      continue;
+    }
+    if (list && /^\s{2,}/.test(line)) {
+      list.items[list.items.length - 1] += ` ${trimmed}`;
+      continue;
+    }
+
+    flushList();
+    paragraph.push(trimmed);
+  }
+  flush();
+  return out.join('\n');
+}
+
+/**
+ * The report as Markdown, with a Sources section appended when the report
+ * does not already list them.
+ */
+export function renderMarkdownReport(doc: ResearchReportDocument): string {
+  const markdown = doc.report_markdown.replace(/\s+$/, '');
+  const sources = doc.sources ?? [];
+  if (sources.length === 0 || /^##\s+(Sources|References)\b/im.test(markdown)) return `${markdown}\n`;
+  const list = sources.map((s, i) => `${i + 1}. [${s.title || s.url}](${s.url})`).join('\n');
+  return `${markdown}\n\n## Sources\n\n${list}\n`;
+}
+
+const REPORT_CSS = [
+  'body{font-family:-apple-system,"Segoe UI",Helvetica,Arial,sans-serif;line-height:1.55;color:#1f2328;max-width:820px;margin:2rem auto;padding:0 1.5rem}',
+  'h1,h2,h3{line-height:1.25}h2{border-bottom:1px solid #d0d7de;padding-bottom:.3em}',
+  'table{border-collapse:collapse;margin:1rem 0}th,td{border:1px solid #d0d7de;padding:.4em .7em;text-align:left}',
+  'blockquote{margin:0;padding:0 1em;color:#59636e;border-left:.25em solid #d0d7de}',
+  'pre{background:#f6f8fa;padding:1em;overflow:auto}code{font-family:ui-monospace,Menlo,monospace;font-size:90%}',
+  'a{color:#0969da}footer{margin-top:2rem;font-size:85%;color:#59636e}',
+].join('\n');
+
+/**
+ * The report as a standalone HTML document.
+ */
+export function renderHtmlReport(doc: ResearchReportDocument): string {
+  const footer = doc.provider ? `\n<footer>Generated by deep research (${escapeHtml(doc.provider)})</footer>` : '';
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(doc.title)}</title>`,
+    `<style>\n${REPORT_CSS}\n</style>`,
+    '</head>',
+    '<body>',
+    `<article>\n${markdownToHtml(renderMarkdownReport(doc))}\n</article>${footer}`,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * The report as an A4 PDF, printed from the HTML rendering.
+ */
+export async function renderPdfReport(doc: ResearchReportDocument): Promise<Buffer> {
+  let pw: any;
+  try {
+    pw = await import('playwright');
+  } catch {
+    throw new ResearchExportUnavailableError('PDF export needs the playwright package');
+  }
+
+  let browser: any = null;
+  try {
+    try {
+      browser = await pw.chromium.launch({
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage', '--disable-gpu'],
+      });
+    } catch {
+      throw new ResearchExportUnavailableError('PDF export needs Chromium — run `npx playwright install chromium`');
+    }
+    const page = await browser.newPage();
+    await page.setContent(renderHtmlReport(doc), { waitUntil: 'load' });
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '18mm', bottom: '18mm', left: '15mm', right: '15mm' },
+    });
+    return Buffer.from(pdf);
+  } finally {
+    if (browser) await browser.close().catch(() => {});
+  }
+}
+
+function slugify(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 80) || 'research-report';
+}
+
+export async function exportResearchReport(doc: ResearchReportDocument, format: ResearchExportFormat): Promise<ResearchExport> {
+  const base = slugify(doc.title);
+  switch (format) {
+    case 'markdown':
+      return { format, contentType: 'text/markdown; charset=utf-8', filename: `${base}.md`, body: renderMarkdownReport(doc) };
+    case 'html':
+      return { format, contentType: 'text/html; charset=utf-8', filename: `${base}.html`, body: renderHtmlReport(doc) };
+    case 'pdf':
+      return { format, contentType: 'application/pdf', filename: `${base}.pdf`, body: await renderPdfReport(doc) };
+  }
+}
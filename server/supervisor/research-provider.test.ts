@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { estimateResearchCostUsd, routeResearch, selectResearchProvider } from './research-provider';
+import { appendCitationFlags, findCitingClaims, validateCitations } from './research-citations';
+import { markdownToHtml, renderHtmlReport, renderMarkdownReport } from './research-export';
+import { configureBudget, _resetBudgets, type BudgetCheck } from './budgets';
+import { setCostLedgerStore, withCostAttribution, InMemoryCostLedgerStore } from './cost-ledger';
+import { setFetchCacheBackend, MemoryFetchCacheBackend } from './fetch-cache';
+
+function budgetWithRemaining(remainingUsd: number): BudgetCheck {
+  return {
+    allowed: true,
+    exceeded: [],
+    reason: null,
+    windows: [{
+      scope: 'user', subjectId: 'u1', period: 'day', periodStart: '', resetsAt: '',
+      spentUsd: 0, calls: 0, limitUsd: remainingUsd, limitCalls: null,
+      remainingUsd, remainingCalls: null, exceeded: false,
+    }],
+  };
+}
+
+beforeEach(() => {
+  vi.stubEnv('OPENAI_API_KEY', 'sk-openai');
+  vi.stubEnv('PERPLEXITY_API_KEY', 'pplx');
+  vi.stubEnv('ANTHROPIC_API_KEY', 'sk-ant');
+  vi.stubEnv('DEEP_RESEARCH_PROVIDER', '');
+  vi.stubEnv('DEEP_RESEARCH_TIER', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('routeResearch', () => {
+  it('ranks configured providers by quality for the tier, honouring a requested provider', () => {
+    expect(routeResearch().candidates.map(c => c.provider)).toEqual(['openai', 'perplexity', 'anthropic']);
+    expect(routeResearch({ tier: 'deep' }).candidates.map(c => c.model)).toEqual(['sonar-deep-research', 'o4-mini', 'claude-opus-4-5']);
+
+    const requested = routeResearch({ provider: 'anthropic', tier: 'fast' });
+    expect(requested).toMatchObject({ tier: 'fast', requestedProvider: 'anthropic', reason: 'requested' });
+    expect(requested.candidates[0]).toMatchObject({ provider: 'anthropic', model: 'claude-haiku-4-5' });
+
+    vi.stubEnv('OPENAI_API_KEY', '');
+    const invalid = routeResearch({ provider: 'bogus', tier: 'huge' });
+    expect(invalid).toMatchObject({ tier: 'standard', requestedProvider: null, reason: 'quality' });
+    expect(invalid.candidates.map(c => c.provider)).toEqual(['perplexity', 'anthropic']);
+  });
+
+  it('drops providers whose estimate exceeds the remaining budget', () => {
+    const openaiStandard = estimateResearchCostUsd('openai', 'standard');
+    const perplexityStandard = estimateResearchCostUsd('perplexity', 'standard');
+    expect(perplexityStandard).toBeLessThan(openaiStandard);
+
+    const downgraded = routeResearch({}, budgetWithRemaining(perplexityStandard));
+    expect(downgraded).toMatchObject({ reason: 'budget_downgrade', remainingUsd: perplexityStandard });
+    expect(downgraded.candidates.map(c => c.provider)).toEqual(['perplexity']);
+
+    const fastOnly = routeResearch({ tier: 'deep' }, budgetWithRemaining(0.01));
+    expect(fastOnly.candidates).toEqual([{ provider: 'perplexity', tier: 'fast', model: 'sonar', estimatedCostUsd: 0.009 }]);
+
+    expect(routeResearch({}, budgetWithRemaining(0))).toMatchObject({ candidates: [], reason: 'budget_exceeded' });
+  });
+
+  it('routes to the static fallback once the caller is over budget', async () => {
+    setCostLedgerStore(new InMemoryCostLedgerStore());
+    _resetBudgets();
+    configureBudget('user', 'u1', { dailyCalls: 0 });
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      const provider = await withCostAttribution({ userId: 'u1' }, () => selectResearchProvider({ provider: 'openai' }));
+      expect(provider.route.reason).toBe('budget_exceeded');
+      const result = await provider.research('craft beer in Leeds', 'craft beer in Leeds');
+      expect(result.provider).toBe('fallback');
+      expect(fetchMock).not.toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+      _resetBudgets();
+    }
+  });
+});
+
+describe('validateCitations', () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      if (req.url === '/stats') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html><head><title>Brewery stats</title></head><body><p>Leeds now has 42 independent breweries, up from 30 in 2019, according to the regional brewing survey.</p></body></html>');
+      } else if (req.url === '/recipes') {
+        res.writeHead(200, { 'Content-Type': 'text/html' });
+        res.end('<html><head><title>Bread recipes</title></head><body><p>Sourdough starters need flour, water and patience over several days.</p></body></html>');
+      } else {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('not found');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    setFetchCacheBackend(new MemoryFetchCacheBackend());
+  });
+
+  it('grades sources cited by link or numbered marker and flags dead and unsupported ones', async () => {
+    const report = [
+      '# Craft beer in Leeds',
+      '',
+      `Leeds has 42 independent breweries, up from 30 in 2019 ([Brewery stats](${base}/stats)).`,
+      'Taproom visits grew 15 percent across Yorkshire breweries during summer [2].',
+      'Several breweries closed after rising energy costs squeezed margins [3].',
+    ].join('\n');
+    const sources = [
+      { title: 'Brewery stats', url: `${base}/stats` },
+      { title: 'Bread recipes', url: `${base}/recipes` },
+      { title: 'Closures', url: `${base}/gone` },
+    ];
+    expect(findCitingClaims(report, sources[1].url, 2)).toEqual(['Taproom visits grew 15 percent across Yorkshire breweries during summer.']);
+
+    const citations = await validateCitations(sources, report);
+    expect(citations.checks.map(c => c.status)).toEqual(['supported', 'unsupported', 'dead']);
+    expect(citations.checks[2].httpStatus).toBe(404);
+    expect(citations.summary).toMatchObject({ total: 3, supported: 1, unsupported: 1, dead: 1 });
+
+    const flagged = appendCitationFlags(report, citations);
+    expect(flagged).toContain('## Citation check');
+    expect(flagged).toContain(`- **Dead link:** [Closures](${base}/gone) (HTTP 404)`);
+    expect(flagged).toContain(`- **Unsupported citation:** [Bread recipes](${base}/recipes)`);
+    expect(flagged).not.toContain('[Brewery stats](' + base + '/stats) (HTTP');
+  });
+});
+
+describe('research export', () => {
+  const doc = {
+    title: 'Craft beer in Leeds',
+    report_markdown: '# Craft beer in Leeds\n\nLeeds has **42** breweries ([stats](https://example.com/stats)).\n\n| City | Breweries |\n|---|---|\n| Leeds | 42 |\n\n- one\n- two\n',
+    sources: [{ title: 'Stats', url: 'https://example.com/stats' }],
+    provider: 'openai',
+  };
+
+  it('appends a sources list to the Markdown export', () => {
+    expect(renderMarkdownReport(doc)).toContain('## Sources\n\n1. [Stats](https://example.com/stats)\n');
+    expect(renderMarkdownReport({ ...doc, report_markdown: '# X\n\n## Sources\n\n- a' })).not.toMatch(/## Sources[\s\S]*## Sources/);
+  });
+
+  it('renders Markdown to safe HTML', () => {
+    const html = markdownToHtml(doc.report_markdown);
+    expect(html).toContain('<h1>Craft beer in Leeds</h1>');
+    expect(html).toContain('<strong>42</strong>');
+    expect(html).toContain('<a href="https://example.com/stats">stats</a>');
+    expect(html).toContain('<thead><tr><th>City</th><th>Breweries</th></tr></thead><tbody><tr><td>Leeds</td><td>42</td></tr></tbody>');
+    expect(html).toContain('<ul><li>one</li><li>two</li></ul>');
+    expect(markdownToHtml('<script>x</script> [bad](javascript:alert)')).toBe('<p>&lt;script&gt;x&lt;/script&gt; bad</p>');
+
+    const page = renderHtmlReport(doc);
+    expect(page).toMatch(/^<!DOCTYPE html>/);
+    expect(page).toContain('<title>Craft beer in Leeds</title>');
+  });
+});
@@ -1,3 +1,6 @@
+import { countWebSearchCalls, getTokenPrice, getUnitPrice, recordApiUsage, recordLLMUsage } from './cost-ledger';
+import { checkBudget, type BudgetCheck } from './budgets';
+
 export interface ResearchSource {
   title: string;
   url: string;
@@ -75,6 +78,7 @@ export class OpenAIResponsesProvider implements DeepResearchProvider {
     }
 
     const data = await resp.json();
+    recordLLMUsage({ label: 'deep_research', provider: 'openai', model: this.model, usage: data.usage, webSearchCalls: countWebSearchCalls(data.output) });
 
     let content = '';
     const sources: ResearchSource[] = [];
@@ -164,6 +168,8 @@ export class PerplexityResearchProvider implements DeepResearchProvider {
     }
 
     const data = await resp.json();
+    recordLLMUsage({ label: 'deep_research', provider: 'perplexity', model: this.model, usage: data.usage });
+    recordApiUsage({ label: 'deep_research', provider: 'perplexity', unit: 'request' });
     const content: string = data.choices?.[0]?.message?.content || '';
     const citations: string[] = data.citations || [];
 
@@ -225,6 +231,7 @@ export class AnthropicResearchProvider implements DeepResearchProvider {
     }
 
     const data = await resp.json();
+    recordLLMUsage({ label: 'deep_research', provider: 'anthropic', model: this.model, usage: data.usage });
     let content = '';
     if (Array.isArray(data.content)) {
       for (const block of data.content) {
@@ -321,3 +328,186 @@ export function createResearchProvider(): DeepResearchProvider {
 
   return provider;
 }
+
+// ---------------------------------------------------------------------------
+// Provider / tier routing
+// ---------------------------------------------------------------------------
+
+export type ResearchProviderName = 'openai' | 'perplexity' | 'anthropic';
+
+/** fast = cheap and quick, standard = the original defaults, deep = strongest models */
+export type ResearchTier = 'fast' | 'standard' | 'deep';
+
+export const RESEARCH_PROVIDERS: ResearchProviderName[] = ['openai', 'perplexity', 'anthropic'];
+export const RESEARCH_TIERS: ResearchTier[] = ['fast', 'standard', 'deep'];
+
+const TIER_MODELS: Record<ResearchProviderName, Record<ResearchTier, string>> = {
+  openai: { fast: 'gpt-4.1-mini', standard: 'gpt-4.1', deep: 'o4-mini' },
+  perplexity: { fast: 'sonar', standard: 'llama-3.1-sonar-large-128k-online', deep: 'sonar-deep-research' },
+  anthropic: { fast: 'claude-haiku-4-5', standard: 'claude-sonnet-4-20250514', deep: 'claude-opus-4-5' },
+};
+
+/** Best provider first. Anthropic has no live web search, so it always ranks last. */
+const TIER_QUALITY_ORDER: Record<ResearchTier, ResearchProviderName[]> = {
+  fast: ['perplexity', 'openai', 'anthropic'],
+  standard: ['openai', 'perplexity', 'anthropic'],
+  deep: ['perplexity', 'openai', 'anthropic'],
+};
+
+/** Typical usage of one report, used to estimate its cost before running it */
+const TIER_USAGE: Record<ResearchTier, { inputTokens: number; outputTokens: number; webSearches: number }> = {
+  fast: { inputTokens: 2_000, outputTokens: 2_000, webSearches: 2 },
+  standard: { inputTokens: 3_000, outputTokens: 4_000, webSearches: 5 },
+  deep: { inputTokens: 5_000, outputTokens: 12_000, webSearches: 12 },
+};
+
+export interface ResearchRouteRequest {
+  provider?: string;
+  tier?: string;
+}
+
+export interface ResearchCandidate {
+  provider: ResearchProviderName;
+  tier: ResearchTier;
+  model: string;
+  estimatedCostUsd: number;
+}
+
+export interface ResearchRoute {
+  tier: ResearchTier;
+  requestedProvider: ResearchProviderName | null;
+  /** Paid providers to try in order; empty means the static fallback report */
+  candidates: ResearchCandidate[];
+  /** Smallest remaining spend across the caller's budget windows, null when uncapped */
+  remainingUsd: number | null;
+  reason: 'requested' | 'quality' | 'budget_downgrade' | 'budget_exceeded' | 'no_provider';
+}
+
+export function isResearchProviderName(value: unknown): value is ResearchProviderName {
+  return typeof value === 'string' && (RESEARCH_PROVIDERS as string[]).includes(value);
+}
+
+export function isResearchTier(value: unknown): value is ResearchTier {
+  return typeof value === 'string' && (RESEARCH_TIERS as string[]).includes(value);
+}
+
+function getResearchApiKey(provider: ResearchProviderName): string | undefined {
+  switch (provider) {
+    case 'openai': return process.env.OPENAI_API_KEY;
+    case 'perplexity': return process.env.PERPLEXITY_API_KEY;
+    case 'anthropic': return process.env.ANTHROPIC_API_KEY;
+  }
+}
+
+/**
+ * Estimated USD cost of one report from `provider` at `tier`, from the cost ledger price table.
+ */
+export function estimateResearchCostUsd(provider: ResearchProviderName, tier: ResearchTier): number {
+  const usage = TIER_USAGE[tier];
+  const price = getTokenPrice(provider, TIER_MODELS[provider][tier]);
+  let cost = price
+    ? (usage.inputTokens * price.inputPerMTok + usage.outputTokens * price.outputPerMTok) / 1_000_000
+    : 0;
+  if (provider === 'openai') cost += usage.webSearches * (getUnitPrice('openai', 'web_search_call') ?? 0);
+  if (provider === 'perplexity') cost += getUnitPrice('perplexity', 'request') ?? 0;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+function toCandidate(provider: ResearchProviderName, tier: ResearchTier): ResearchCandidate {
+  return { provider, tier, model: TIER_MODELS[provider][tier], estimatedCostUsd: estimateResearchCostUsd(provider, tier) };
+}
+
+/**
+ * Rank the configured providers for a request. The requested provider (or
+ * DEEP_RESEARCH_PROVIDER) goes first, then the tier's quality order. With a
+ * budget in scope, providers whose estimate exceeds the remaining spend are
+ * dropped, falling back to the fast tier; an exhausted budget routes to the
+ * static fallback report.
+ */
+export function routeResearch(request: ResearchRouteRequest = {}, budget?: BudgetCheck): ResearchRoute {
+  const tier = [request.tier, process.env.DEEP_RESEARCH_TIER].find(isResearchTier) ?? 'standard';
+  const requestedProvider = [request.provider, process.env.DEEP_RESEARCH_PROVIDER].find(isResearchProviderName) ?? null;
+  const order = requestedProvider
+    ? [requestedProvider, ...TIER_QUALITY_ORDER[tier].filter(p => p !== requestedProvider)]
+    : TIER_QUALITY_ORDER[tier];
+  const available = order.filter(p => !!getResearchApiKey(p));
+
+  const remainingValues = (budget?.windows ?? [])
+    .map(w => w.remainingUsd)
+    .filter((v): v is number => v !== null);
+  const remainingUsd = remainingValues.length > 0 ? Math.min(...remainingValues) : null;
+  const route = { tier, requestedProvider, remainingUsd };
+
+  if (budget && !budget.allowed) return { ...route, candidates: [], reason: 'budget_exceeded' };
+  if (available.length === 0) return { ...route, candidates: [], reason: 'no_provider' };
+
+  const preferred = available.map(p => toCandidate(p, tier));
+  const fits = (c: ResearchCandidate) => remainingUsd === null || c.estimatedCostUsd <= remainingUsd;
+  let candidates = preferred.filter(fits);
+  if (candidates.length === 0 && tier !== 'fast') {
+    candidates = available
+      .map(p => toCandidate(p, 'fast'))
+      .filter(fits)
+      .sort((a, b) => a.estimatedCostUsd - b.estimatedCostUsd);
+  }
+  if (candidates.length === 0) return { ...route, candidates: [], reason: 'budget_exceeded' };
+
+  const first = candidates[0];
+  const reason = first !== preferred[0]
+    ? 'budget_downgrade'
+    : first.provider === requestedProvider ? 'requested' : 'quality';
+  return { ...route, candidates, reason };
+}
+
+function createCandidateProvider(candidate: ResearchCandidate): DeepResearchProvider {
+  const apiKey = getResearchApiKey(candidate.provider) || '';
+  switch (candidate.provider) {
+    case 'openai': return new OpenAIResponsesProvider(apiKey, candidate.model);
+    case 'perplexity': return new PerplexityResearchProvider(apiKey, candidate.model);
+    case 'anthropic': return new AnthropicResearchProvider(apiKey, candidate.model);
+  }
+}
+
+/**
+ * Runs a ResearchRoute: tries each candidate in order, moving to the next on
+ * failure unless the budget ran out meanwhile. Only an empty route produces
+ * the static fallback report; if every paid provider fails, the last error is thrown.
+ */
+export class RoutedResearchProvider implements DeepResearchProvider {
+  readonly name: string;
+  readonly route: ResearchRoute;
+
+  constructor(route: ResearchRoute) {
+    this.route = route;
+    this.name = route.candidates[0]?.provider ?? 'fallback';
+  }
+
+  async research(topic: string, prompt: string): Promise<ResearchResult> {
+    if (this.route.candidates.length === 0) {
+      return new FallbackResearchProvider().research(topic, prompt);
+    }
+
+    let lastError: Error | undefined;
+    for (const candidate of this.route.candidates) {
+      if (lastError && !(await checkBudget()).allowed) break;
+      try {
+        return await createCandidateProvider(candidate).research(topic, prompt);
+      } catch (err: any) {
+        lastError = err instanceof Error ? err : new Error(String(err));
+        console.warn(`[DEEP_RESEARCH_PROVIDER] ${candidate.provider}/${candidate.model} failed: ${lastError.message}`);
+      }
+    }
+    throw lastError;
+  }
+}
+
+/**
+ * Pick the provider for a deep_research job from its requested provider and
+ * tier and the caller's budget (read from the current cost attribution).
+ */
+export async function selectResearchProvider(request: ResearchRouteRequest = {}): Promise<RoutedResearchProvider> {
+  const route = routeResearch(request, await checkBudget());
+  const chain = route.candidates.map(c => `${c.provider}/${c.model}`).join(',') || 'fallback';
+  console.log(`[DEEP_RESEARCH_PROVIDER] tier=${route.tier} requested=${route.requestedProvider || 'none'} reason=${route.reason} remainingUsd=${route.remainingUsd ?? 'unlimited'} chain=${chain}`);
+  return new RoutedResearchProvider(route);
+}
@@ -10,6 +10,7 @@
 import { getConversationContext, resolveLeadReference } from './conversation-context';
 import { storage } from '../storage';
 import { callLLMText } from './llm-failover';
+import { isRateLimitError, withRateLimit } from './rate-limits';
 
 // ─── Public types ─────────────────────────────────────────────────────────────
 
@@ -27,24 +28,6 @@ export interface ResultDiscussionOutput {
   messageId: string;
 }
 
-// ─── Circuit breaker — max 10 discussion calls per 5 minutes ─────────────────
-
-const _discussionCallTimestamps: number[] = [];
-const CIRCUIT_BREAKER_WINDOW_MS = 5 * 60 * 1000;
-const CIRCUIT_BREAKER_MAX_CALLS = 10;
-
-function isCircuitBroken(): boolean {
-  const cutoff = Date.now() - CIRCUIT_BREAKER_WINDOW_MS;
-  while (_discussionCallTimestamps.length > 0 && _discussionCallTimestamps[0] < cutoff) {
-    _discussionCallTimestamps.shift();
-  }
-  return _discussionCallTimestamps.length >= CIRCUIT_BREAKER_MAX_CALLS;
-}
-
-function recordDiscussionCall(): void {
-  _discussionCallTimestamps.push(Date.now());
-}
-
 // ─── System prompt ────────────────────────────────────────────────────────────
 
 const DISCUSSION_SYSTEM_PROMPT = `You are Wyshbone's results assistant. The user has search results and is asking about them. Be helpful, concise, and factual.
@@ -153,24 +136,22 @@ export async function handleResultDiscussion(
 
   userPrompt += `USER MESSAGE: ${rawMessage}`;
 
-  // 6. Call LLM (with circuit breaker)
+  // 6. Call LLM under the shared limit (route:result_discussion) and breaker
   let response: string;
 
-  if (isCircuitBroken()) {
-    console.warn(`[RESULT_DISCUSSION] Circuit breaker OPEN — using fallback response`);
-    response = buildFallbackResponse(resolvedLead, ctx.leads.length);
-  } else {
-    try {
-      recordDiscussionCall();
-      response = await callLLMText(DISCUSSION_SYSTEM_PROMPT, userPrompt, 'discussion', {
-        anthropicModel: process.env.DISCUSSION_LLM_MODEL || process.env.RESCUE_LLM_MODEL || 'claude-3-5-haiku-20241022',
-        maxTokens: 400,
-        timeoutMs: 15_000,
-      });
-    } catch (err: any) {
+  try {
+    response = await withRateLimit({ route: 'result_discussion', userId }, () => callLLMText(DISCUSSION_SYSTEM_PROMPT, userPrompt, 'discussion', {
+      anthropicModel: process.env.DISCUSSION_LLM_MODEL || process.env.RESCUE_LLM_MODEL || 'claude-3-5-haiku-20241022',
+      maxTokens: 400,
+      timeoutMs: 15_000,
+    }));
+  } catch (err: any) {
+    if (isRateLimitError(err)) {
+      console.warn(`[RESULT_DISCUSSION] ${err.message} — using fallback response`);
+    } else {
       console.error(`[RESULT_DISCUSSION] LLM call failed: ${err.message}`);
-      response = buildFallbackResponse(resolvedLead, ctx.leads.length);
     }
+    response = buildFallbackResponse(resolvedLead, ctx.leads.length);
   }
 
   // 7. Save message to DB
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { getRuleRouterStats, recordShadowComparison, routeByRules, _resetRuleRouterStats, type RuleRouterInput } from './rule-router';
+import type { RouterDecision } from './conversation-router';
+
+function makeInput(overrides?: Partial<RuleRouterInput>): RuleRouterInput {
+  return {
+    currentMessage: '',
+    conversationHistory: [],
+    phase: 'idle',
+    previousResults: { exists: false, entityType: null, location: null },
+    lastDelivery: null,
+    accumulatedContext: {},
+    ...overrides,
+  };
+}
+
+function afterDelivery(currentMessage: string): RuleRouterInput {
+  return makeInput({
+    currentMessage,
+    phase: 'reviewing',
+    conversationHistory: [
+      { role: 'user', content: 'find pubs in Arundel' },
+      { role: 'assistant', content: 'I found 8 pubs in Arundel.' },
+    ],
+    previousResults: { exists: true, entityType: 'pubs', location: 'Arundel' },
+    lastDelivery: { runId: 'run-1', leadCount: 8, entityType: 'pubs', location: 'Arundel', missionConfig: null },
+  });
+}
+
+function llmDecision(route: RouterDecision['route'], fields: Partial<RouterDecision> = {}): RouterDecision {
+  return {
+    route, entity: null, location: null, constraints: [], clarify_question: null, chat_response: null,
+    iteration_change: null, referenced_result: null, confidence: 0.9, reasoning: '', ...fields,
+  };
+}
+
+beforeEach(() => {
+  _resetRuleRouterStats();
+  vi.stubEnv('RULE_ROUTER_MIN_CONFIDENCE', '');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('routeByRules', () => {
+  it('routes an explicit search confidently and splits qualifiers into constraints', () => {
+    const result = routeByRules(makeInput({ currentMessage: 'find web developers in Birmingham that also do app development' }));
+    expect(result.confident).toBe(true);
+    expect(result.decision).toMatchObject({
+      route: 'SEARCH',
+      entity: 'web developers',
+      location: 'Birmingham',
+      constraints: ['that also do app development'],
+      confidence: 0.9,
+    });
+  });
+
+  it('defers to the LLM for vague entities and when the user may be answering a question', () => {
+    expect(routeByRules(makeInput({ currentMessage: 'find companies in Kent' })).decision).toBeNull();
+
+    const answering = routeByRules(makeInput({
+      currentMessage: 'find bottle shops in Sussex',
+      conversationHistory: [{ role: 'assistant', content: 'Which area should I search?' }],
+    }));
+    expect(answering.decision).toMatchObject({ route: 'SEARCH', confidence: 0.8 });
+    expect(answering.confident).toBe(false);
+  });
+
+  it('uses search-iteration and the reviewing phase for follow-ups to a delivery', () => {
+    expect(routeByRules(afterDelivery('now try Brighton'))).toMatchObject({
+      confident: true,
+      decision: { route: 'ITERATE', entity: 'pubs', location: 'Brighton' },
+    });
+    expect(routeByRules(afterDelivery('tell me about the second one'))).toMatchObject({
+      confident: true,
+      decision: { route: 'DISCUSS', confidence: 0.9 },
+    });
+    // Loose single-field matches without iteration phrasing are left to the LLM
+    expect(routeByRules(afterDelivery('do you have their phone numbers')).decision?.route).not.toBe('ITERATE');
+  });
+
+  it('honours RULE_ROUTER_MIN_CONFIDENCE', () => {
+    vi.stubEnv('RULE_ROUTER_MIN_CONFIDENCE', '0.95');
+    expect(routeByRules(makeInput({ currentMessage: 'find pubs in Arundel' })).confident).toBe(false);
+  });
+});
+
+describe('recordShadowComparison', () => {
+  it('counts agreement per confidence band and names disagreeing route pairs', () => {
+    const search = routeByRules(makeInput({ currentMessage: 'find pubs in Arundel' }));
+    expect(recordShadowComparison(search, llmDecision('ITERATE', { entity: 'Pubs', location: 'Arundel, West Sussex' }), 'find pubs in Arundel')).toBe(true);
+
+    const discuss = routeByRules(afterDelivery('tell me about the first one'));
+    expect(recordShadowComparison(discuss, llmDecision('CHAT'), 'tell me about the first one')).toBe(false);
+
+    expect(getRuleRouterStats()).toMatchObject({
+      mode: 'shadow',
+      threshold: 0.85,
+      decided: 2,
+      compared: 2,
+      agreed: 1,
+      byBand: { '0.9': { compared: 2, agreed: 1 } },
+      disagreements: { 'DISCUSS→CHAT': 1 },
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Rule Router — deterministic first stage in front of the conversation router
+ *
+ * Combines the conversation phase, message-classifier and search-iteration
+ * signals into a RouterDecision with a confidence score. Above the threshold
+ * (RULE_ROUTER_MIN_CONFIDENCE) the decision stands on its own and the turn
+ * classifier + LLM router are skipped; below it, or when no rule fires, the
+ * LLM router decides as before.
+ *
+ * RULE_ROUTER_MODE:
+ *   off    — rules never run
+ *   shadow — rules run, the LLM router always decides, disagreements are logged
+ *   active — confident rule decisions short-circuit the LLM router
+ */
+
+import { classifyMessage } from './message-classifier';
+import { looksLikeIteration, looksLikeResultQuestion, type AccumulatedContext, type ConversationPhase, type LastDelivery } from './conversation-state';
+import { buildIteratedQuery } from './search-iteration';
+import type { Route, RouterDecision } from './conversation-router';
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type RuleRouterMode = 'off' | 'shadow' | 'active';
+
+export interface RuleRouterInput {
+  currentMessage: string;
+  conversationHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
+  phase: ConversationPhase;
+  previousResults: {
+    exists: boolean;
+    entityType: string | null;
+    location: string | null;
+  };
+  lastDelivery: LastDelivery | null;
+  accumulatedContext: AccumulatedContext;
+}
+
+export interface RuleRouterResult {
+  /** Null when no rule fired — the message needs the LLM router */
+  decision: RouterDecision | null;
+  /** decision.confidence reached the threshold */
+  confident: boolean;
+  signals: string[];
+}
+
+export interface RuleRouterStats {
+  decided: number;
+  undecided: number;
+  /** Active mode only: LLM router skipped */
+  shortCircuited: number;
+  /** Rule decision compared against the LLM router */
+  compared: number;
+  agreed: number;
+  /** Agreement per confidence band ("0.9" = 0.90-0.99), for tuning the threshold */
+  byBand: Record<string, { compared: number; agreed: number }>;
+  /** "RULE→LLM" route pairs that disagreed */
+  disagreements: Record<string, number>;
+}
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+export function getRuleRouterMode(): RuleRouterMode {
+  const raw = (process.env.RULE_ROUTER_MODE || 'shadow').toLowerCase().trim();
+  if (raw === 'off') return 'off';
+  if (raw === 'active') return 'active';
+  return 'shadow';
+}
+
+export function getRuleRouterThreshold(): number {
+  const parsed = parseFloat(process.env.RULE_ROUTER_MIN_CONFIDENCE || '');
+  return Number.isFinite(parsed) ? parsed : 0.85;
+}
+
+function emptyStats(): RuleRouterStats {
+  return { decided: 0, undecided: 0, shortCircuited: 0, compared: 0, agreed: 0, byBand: {}, disagreements: {} };
+}
+
+let stats: RuleRouterStats = emptyStats();
+
+// ─── Patterns ───────────────────────────────────────────────────────────────
+
+const EXPLICIT_SEARCH_PATTERN =
+  /^(?:please\s+)?(?:(?:can|could) you\s+)?(?:find|search for|look for|show me|get me)\s+(?:me\s+)?(?:some\s+)?(.+?)\s+(?:in|near|around)\s+([a-z][a-z\s,'-]*?)[\s.!?]*$/i;
+
+const LOCATION_QUALIFIER = /\s+(?:that|which|who|with|where)\s+/i;
+
+const VAGUE_ENTITIES = new Set([
+  'companies', 'company', 'businesses', 'business', 'things', 'stuff', 'leads',
+  'places', 'people', 'organisations', 'organizations', 'firms', 'shops', 'events',
+]);
+
+const ORDINAL_REFERENCE = /\b(?:the (?:first|second|third|fourth|fifth|last|\d+(?:st|nd|rd|th)))\b|#\d+|\bnumber \d+\b/i;
+
+const MAX_LOCATION_WORDS = 5;
+const MAX_ENTITY_WORDS = 6;
+
+// ─── Rules ──────────────────────────────────────────────────────────────────
+
+function decision(route: Route, confidence: number, signals: string[], fields: Partial<RouterDecision> = {}): RouterDecision {
+  return {
+    route,
+    entity: null,
+    location: null,
+    constraints: [],
+    clarify_question: null,
+    chat_response: null,
+    iteration_change: null,
+    referenced_result: null,
+    ...fields,
+    confidence: Math.round(Math.min(confidence, 0.99) * 100) / 100,
+    reasoning: `rule_router: ${signals.join(', ')}`,
+  };
+}
+
+function parseExplicitSearch(message: string): { entity: string; location: string; constraints: string[] } | null {
+  const match = EXPLICIT_SEARCH_PATTERN.exec(message);
+  if (!match) return null;
+
+  const entity = match[1].trim();
+  let location = match[2].trim().replace(/,$/, '');
+  const constraints: string[] = [];
+  const qualifier = LOCATION_QUALIFIER.exec(location);
+  if (qualifier) {
+    constraints.push(location.substring(qualifier.index).trim());
+    location = location.substring(0, qualifier.index).trim();
+  }
+
+  if (!entity || !location) return null;
+  if (entity.split(/\s+/).length > MAX_ENTITY_WORDS || location.split(/\s+/).length > MAX_LOCATION_WORDS) return null;
+  return { entity, location, constraints };
+}
+
+/**
+ * Route a message from deterministic signals alone. Never calls an LLM.
+ */
+export function routeByRules(input: RuleRouterInput): RuleRouterResult {
+  const message = input.currentMessage.trim();
+  const signals: string[] = [`phase:${input.phase}`];
+  const lastAssistant = input.conversationHistory.filter(m => m.role === 'assistant').pop();
+  const assistantAsked = !!lastAssistant && lastAssistant.content.trim().endsWith('?');
+  if (assistantAsked) signals.push('assistant_asked_question');
+
+  const result = (d: RouterDecision | null): RuleRouterResult => {
+    if (d) stats.decided++;
+    else stats.undecided++;
+    return { decision: d, confident: !!d && d.confidence >= getRuleRouterThreshold(), signals };
+  };
+
+  const classification = classifyMessage(message);
+  signals.push(`message_class:${classification.messageClass}`);
+  if (classification.messageClass === 'chat') {
+    return result(decision('CHAT', classification.confidence, signals));
+  }
+  if (classification.messageClass === 'outreach_request' || classification.messageClass === 'monitor_request') {
+    return result(null);
+  }
+
+  if (input.previousResults.exists && input.lastDelivery) {
+    const iterationPhrasing = looksLikeIteration(message);
+    if (iterationPhrasing) signals.push('iteration_phrasing');
+    const iteration = buildIteratedQuery(message, input.lastDelivery, input.accumulatedContext);
+    // search-iteration's single-field patterns are loose ("do you have…" reads
+    // as a location change), so only trust them alongside iteration phrasing.
+    if (iteration && iteration.entity && iteration.location && (iterationPhrasing || iteration.changeType === 'mixed')) {
+      signals.push(`search_iteration:${iteration.changeType}`);
+      let confidence = 0.8;
+      if (input.phase === 'reviewing' || input.phase === 'iterating') confidence += 0.05;
+      if (iterationPhrasing && iteration.changeType !== 'mixed') confidence += 0.05;
+      return result(decision('ITERATE', confidence, signals, {
+        entity: iteration.entity,
+        location: iteration.location,
+        iteration_change: iteration.changeDescription,
+      }));
+    }
+
+    if (looksLikeResultQuestion(message) && !iterationPhrasing) {
+      signals.push('result_question');
+      let confidence = 0.7;
+      if (input.phase === 'reviewing') confidence += 0.1;
+      if (ORDINAL_REFERENCE.test(message)) {
+        signals.push('ordinal_reference');
+        confidence += 0.1;
+      }
+      return result(decision('DISCUSS', confidence, signals, { referenced_result: message.substring(0, 120) }));
+    }
+  }
+
+  const search = parseExplicitSearch(message);
+  if (search) {
+    if (VAGUE_ENTITIES.has(search.entity.toLowerCase())) {
+      signals.push('vague_entity');
+      return result(null);
+    }
+    signals.push('explicit_search');
+    let confidence = 0.9;
+    // The user may be answering the assistant rather than starting afresh
+    if (assistantAsked || input.phase === 'clarifying') confidence -= 0.1;
+    return result(decision('SEARCH', confidence, signals, search));
+  }
+
+  return result(null);
+}
+
+// ─── Shadow comparison ──────────────────────────────────────────────────────
+
+function sameText(a: string | null, b: string | null): boolean {
+  const x = (a || '').toLowerCase().trim();
+  const y = (b || '').toLowerCase().trim();
+  return !!x && !!y && (x.includes(y) || y.includes(x));
+}
+
+/**
+ * SEARCH and ITERATE with the same target both end up as "find X in Y", so
+ * they count as agreeing.
+ */
+export function rulesAgreeWithLLM(rule: RouterDecision, llm: RouterDecision): boolean {
+  const searchLike = (r: Route) => r === 'SEARCH' || r === 'ITERATE';
+  if (searchLike(rule.route) && searchLike(llm.route)) {
+    return sameText(rule.entity, llm.entity) && sameText(rule.location, llm.location);
+  }
+  return rule.route === llm.route;
+}
+
+/**
+ * Record how a rule decision compared with the LLM router's. Returns whether
+ * they agreed; disagreements are logged for threshold tuning.
+ */
+export function recordShadowComparison(rule: RuleRouterResult, llm: RouterDecision, message: string): boolean {
+  if (!rule.decision) return true;
+  const agreed = rulesAgreeWithLLM(rule.decision, llm);
+  const band = (Math.floor(rule.decision.confidence * 10) / 10).toFixed(1);
+  const bandStats = stats.byBand[band] ?? (stats.byBand[band] = { compared: 0, agreed: 0 });
+  stats.compared++;
+  bandStats.compared++;
+  if (agreed) {
+    stats.agreed++;
+    bandStats.agreed++;
+  } else {
+    const pair = `${rule.decision.route}→${llm.route}`;
+    stats.disagreements[pair] = (stats.disagreements[pair] ?? 0) + 1;
+    console.warn(
+      `[RULE_ROUTER] disagreement rule=${rule.decision.route}(${rule.decision.confidence}) llm=${llm.route}(${llm.confidence}) ` +
+      `signals=[${rule.signals.join(', ')}] msg="${message.substring(0, 80)}"`,
+    );
+  }
+  return agreed;
+}
+
+export function recordShortCircuit(): void {
+  stats.shortCircuited++;
+}
+
+export function getRuleRouterStats(): RuleRouterStats & { mode: RuleRouterMode; threshold: number } {
+  return { ...stats, byBand: { ...stats.byBand }, disagreements: { ...stats.disagreements }, mode: getRuleRouterMode(), threshold: getRuleRouterThreshold() };
+}
+
+/**
+ * @internal Exported for testing only
+ */
+export function _resetRuleRouterStats(): void {
+  stats = emptyStats();
+}
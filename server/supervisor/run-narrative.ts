@@ -1,6 +1,7 @@
 import { storage } from '../storage';
 import { createArtefact } from './artefacts';
 import type { Artefact } from '../schema';
+import { recordLLMUsage, resolveCostAttribution, withCostAttribution } from './cost-ledger';
 
 export interface RunConfig {
   run_type: string;
@@ -409,6 +410,7 @@ async function callLLMForNarrative(factsBundle: RunFactsBundle): Promise<string>
         { role: 'user', content: userPrompt },
       ],
     });
+    recordLLMUsage({ label: 'run_narrative', provider: 'openai', model: 'gpt-4o-mini', usage: response.usage });
     return response.choices[0]?.message?.content || 'No response from model.';
   }
 
@@ -429,6 +431,7 @@ async function callLLMForNarrative(factsBundle: RunFactsBundle): Promise<string>
       }),
     });
     const data = await response.json() as any;
+    recordLLMUsage({ label: 'run_narrative', provider: 'anthropic', model: 'claude-3-5-haiku-20241022', usage: data.usage });
     return data.content?.[0]?.text || 'No response from model.';
   }
 
@@ -467,7 +470,8 @@ export async function generateRunNarrative(params: GenerateNarrativeParams): Pro
   });
   console.log(`${logPrefix} Facts bundle artefact written`);
 
-  const narrative = await callLLMForNarrative(factsBundle);
+  const costAttribution = await resolveCostAttribution({ runId, userId });
+  const narrative = await withCostAttribution(costAttribution, () => callLLMForNarrative(factsBundle));
   console.log(`${logPrefix} LLM narrative generated (${narrative.length} chars)`);
 
   await createArtefact({
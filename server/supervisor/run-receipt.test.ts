@@ -456,4 +456,18 @@ describe('buildRunReceiptFromArtefacts', () => {
     expect(bg.matched_count).toBe(0);
     expect(bg.unknown_count).toBe(1);
   });
+
+  it('reports the latest mission extraction timing', () => {
+    const timing = {
+      pass1_ms: 4200, expansion_ms: 1, pass2_ms: 9100, pass3_ms: 11800, pass3_status: 'complete',
+      pass3_start_offset_ms: 4201, wall_ms: 16100, parallel_saved_ms: 9001,
+    };
+    const artefacts = [
+      { id: 't1', type: 'mission_extraction_timing', title: 'Mission extraction timing', payloadJson: { ...timing, wall_ms: 99999 } },
+      { id: 't2', type: 'mission_extraction_timing', title: 'Mission extraction timing', payloadJson: timing },
+    ];
+
+    expect(buildRunReceiptFromArtefacts(makeInput(), artefacts).extraction_timing).toEqual(timing);
+    expect(buildRunReceiptFromArtefacts(makeInput(), []).extraction_timing).toBeUndefined();
+  });
 });
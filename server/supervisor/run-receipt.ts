@@ -1,5 +1,6 @@
 import { storage } from '../storage';
 import { createArtefact } from './artefacts';
+import type { MissionExtractionTiming } from './mission-schema';
 
 export interface DeliveredLeadRef {
   name: string;
@@ -52,6 +53,9 @@ export interface RunReceiptPayload {
 
   narrative_lines: string[];
 
+  /** Per-pass mission extraction timings, when the run recorded them */
+  extraction_timing?: MissionExtractionTiming;
+
   debug: {
     counting_method: string;
     artefact_ids_used: {
@@ -361,6 +365,11 @@ export function buildRunReceiptFromArtefacts(
 
   result.outcomes = { attributes: attributeOutcomes };
 
+  const timingArtefacts = allArtefacts.filter(a => a.type === 'mission_extraction_timing');
+  if (timingArtefacts.length > 0) {
+    result.extraction_timing = timingArtefacts[timingArtefacts.length - 1].payloadJson as MissionExtractionTiming;
+  }
+
   return result;
 }
 
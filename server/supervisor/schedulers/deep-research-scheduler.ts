@@ -48,13 +48,13 @@ let pollCount = 0;
  */
 async function executePollCycle(): Promise<void> {
   // Skip if already running (prevents overlap)
-  if (isDeepResearchPollRunning()) {
+  if (await isDeepResearchPollRunning()) {
     console.log('[DEEP_RESEARCH_SCHEDULER] Skipping - poll already in progress');
     return;
   }
 
   // Acquire lock
-  if (!acquireDeepResearchPollLock()) {
+  if (!(await acquireDeepResearchPollLock())) {
     console.log('[DEEP_RESEARCH_SCHEDULER] Failed to acquire lock - skipping cycle');
     return;
   }
@@ -73,7 +73,7 @@ async function executePollCycle(): Promise<void> {
   } catch (error: any) {
     console.error(`[DEEP_RESEARCH_SCHEDULER] Poll #${pollCount} failed:`, error.message);
   } finally {
-    releaseDeepResearchPollLock();
+    await releaseDeepResearchPollLock();
   }
 }
 
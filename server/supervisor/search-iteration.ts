@@ -16,12 +16,15 @@ export interface IterationResult {
   modifiedMessage: string;
   changeDescription: string;
   changeType: 'location' | 'entity' | 'constraint' | 'mixed';
+  /** Entity and location of the rewritten search; '' when not known */
+  entity: string;
+  location: string;
 }
 
 // ─── Pattern arrays ───────────────────────────────────────────────────────────
 
 const LOCATION_PATTERNS = [
-  /\b(?:now |same |do |try )(?:in |near |around )?([A-Z][a-zA-Z\s,]+)/i,
+  /\b(?:now |same |do |try )+(?:in |near |around )?([A-Z][a-zA-Z\s,]+)/i,
   /\b(?:what about|how about) ([A-Z][a-zA-Z\s,]+)/i,
   /\b(?:try|find|search|do) (?:in |near )([A-Z][a-zA-Z\s,]+)/i,
 ];
@@ -65,6 +68,8 @@ export function buildIteratedQuery(
       modifiedMessage,
       changeDescription: `Changed entity to "${newEntity}" and location to "${newLocation}"`,
       changeType: 'mixed',
+      entity: newEntity,
+      location: newLocation,
     };
   }
 
@@ -89,6 +94,8 @@ export function buildIteratedQuery(
         modifiedMessage,
         changeDescription: `Changed location from "${prevLocation}" to "${newLocation}"`,
         changeType: 'location',
+        entity: prevEntity,
+        location: newLocation,
       };
     }
   }
@@ -114,6 +121,8 @@ export function buildIteratedQuery(
         modifiedMessage,
         changeDescription: `Changed entity from "${prevEntity}" to "${newEntity}"`,
         changeType: 'entity',
+        entity: newEntity,
+        location: prevLocation,
       };
     }
   }
@@ -1,19 +1,16 @@
 import type { DeltaResult } from './types';
-
-function normalise(name: string): string {
-  return name.toLowerCase().replace(/^the\s+/i, '').trim();
-}
+import { normaliseEntityName } from '../entity-resolution';
 
 export function detectDelta(
   baselineNames: string[],
   currentNames: string[],
 ): DeltaResult {
-  const baselineSet = new Set(baselineNames.map(normalise));
-  const currentSet = new Set(currentNames.map(normalise));
+  const baselineSet = new Set(baselineNames.map(normaliseEntityName));
+  const currentSet = new Set(currentNames.map(normaliseEntityName));
 
-  const newEntities = currentNames.filter(n => !baselineSet.has(normalise(n)));
-  const removedEntities = baselineNames.filter(n => !currentSet.has(normalise(n)));
-  const unchangedCount = currentNames.filter(n => baselineSet.has(normalise(n))).length;
+  const newEntities = currentNames.filter(n => !baselineSet.has(normaliseEntityName(n)));
+  const removedEntities = baselineNames.filter(n => !currentSet.has(normaliseEntityName(n)));
+  const unchangedCount = currentNames.filter(n => baselineSet.has(normaliseEntityName(n))).length;
 
   return {
     newEntities,
@@ -1,4 +1,4 @@
 export { checkAndWakeGoals } from './wake-scheduler';
 export { executeWake } from './wake-executor';
 export { detectDelta } from './delta-detector';
-export type { SleepingGoal, WakeResult, DeltaResult } from './types';
+export type { SleepingGoal, WakeResult, DeltaResult, WakeAttemptStatus } from './types';
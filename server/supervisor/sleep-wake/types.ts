@@ -41,3 +41,16 @@ export interface DeltaResult {
   baselineCount: number;
   currentCount: number;
 }
+
+/**
+ * Outcome of one claimed wake, as recorded in sleep_wake_attempts.
+ * 'abandoned' marks a wake whose lease expired mid-run (the instance died).
+ */
+export type WakeAttemptStatus =
+  | 'running'
+  | 'succeeded'
+  | 'failed'
+  | 'lease_lost'
+  | 'quota_exceeded'
+  | 'gave_up'
+  | 'abandoned';
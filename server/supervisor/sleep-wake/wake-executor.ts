@@ -42,8 +42,10 @@ export async function executeWake(goal: SleepingGoal): Promise<WakeResult> {
       pass3_intent_narrative: null,
       pass3_raw_json: '',
       pass3_duration_ms: 0,
+      pass3_status: 'skipped' as const,
       model: 'wake_scan',
       pass1_duration_ms: 0,
+      expansion_duration_ms: 0,
       pass2_duration_ms: 0,
       total_duration_ms: 0,
       timestamp: new Date().toISOString(),
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+
+const { execute, where } = vi.hoisted(() => ({
+  execute: vi.fn(async (_query: unknown) => ({ rows: [] as Array<Record<string, unknown>> })),
+  where: vi.fn(),
+}));
+vi.mock('../../db', () => ({
+  db: {
+    execute,
+    update: () => ({
+      set: () => ({
+        where: (condition: unknown) => {
+          where(condition);
+          return { returning: async () => [] };
+        },
+      }),
+    }),
+  },
+}));
+
+import { completeMonitorWake, finishWakeAttempt, markAbandonedAttempts, renewMonitorLease } from './wake-leases';
+
+const dialect = new PgDialect();
+const sqlText = (query: unknown) => dialect.sqlToQuery(query as SQL).sql.replace(/\s+/g, ' ');
+
+afterEach(() => {
+  execute.mockClear();
+  where.mockReset();
+});
+
+describe('wake lease guards', () => {
+  it('completes a wake only under a live lease and while its attempt is running', async () => {
+    const completed = await completeMonitorWake('m1', 'worker-a', 'attempt_1', {
+      runId: 'run_1', nextWakeAt: new Date(), baselineEntityNames: ['The Lamb'], newEntities: 1, consecutiveEmptyWakes: 0,
+    });
+
+    expect(completed).toBe(false);
+    const text = sqlText(execute.mock.calls[0][0]);
+    expect(text).toContain('claimed_by = $2 AND lease_until > now()');
+    expect(text).toContain("status = 'running' AND EXISTS (SELECT 1 FROM monitor)");
+    expect(text).toContain('EXISTS (SELECT 1 FROM attempt)');
+  });
+
+  it('renews only a live lease', async () => {
+    expect(await renewMonitorLease('m1', 'worker-a', 'attempt_1', 30_000)).toBe(false);
+    expect(sqlText(execute.mock.calls[0][0])).toContain('claimed_by = $3 AND lease_until > now()');
+  });
+
+  it('finishes only a running attempt, so an abandoned one keeps its status', async () => {
+    expect(await finishWakeAttempt('attempt_1', { status: 'succeeded' })).toBe(false);
+    expect(sqlText(where.mock.calls[0][0])).toContain('"sleep_wake_attempts"."status" = $2');
+    expect(dialect.sqlToQuery(where.mock.calls[0][0] as SQL).params).toEqual(['attempt_1', 'running']);
+  });
+
+  it('refunds the quota of each abandoned attempt on the day it started', async () => {
+    execute.mockResolvedValueOnce({ rows: [{ user_id: 'u1', started_at: '2026-03-01T23:50:00Z' }] });
+
+    expect(await markAbandonedAttempts(new Date('2026-03-02T00:10:00Z'))).toBe(1);
+    const refunds = execute.mock.calls.slice(1).map(call => dialect.sqlToQuery(call[0] as SQL).params);
+    expect(refunds).toEqual([['*', '2026-03-01'], ['u1', '2026-03-01']]);
+  });
+});
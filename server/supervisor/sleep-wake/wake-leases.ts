@@ -0,0 +1,250 @@
+/**
+ * Sleep-Wake Leases
+ *
+ * Row-level claims on scheduled_monitors, durable daily wake quotas and the
+ * sleep_wake_attempts audit (migrations/017_sleep_wake_leases.sql). A monitor
+ * is claimed with FOR UPDATE SKIP LOCKED, so concurrent instances never wake
+ * the same goal twice; a wake that dies mid-run leaves next_wake_at untouched
+ * and is claimed again once its lease expires.
+ *
+ * Loaded lazily by the wake scheduler: importing it opens the database connection.
+ */
+
+import { randomUUID } from 'crypto';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { db } from '../../db';
+import { sleepWakeAttempts, type SleepWakeAttemptRow } from '../../schema';
+import type { WakeAttemptStatus } from './types';
+
+/** Quota key shared by every user, for the instance-wide SLEEP_WAKE_MAX_DAILY cap */
+export const GLOBAL_QUOTA_KEY = '*';
+
+function utcDay(now: Date): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Claim up to `limit` due monitors that nobody holds a live lease on. Each
+ * claim bumps wake_attempts, which only resets when a wake completes. Every
+ * claimed lease starts ticking now, so claim only what is about to be woken.
+ */
+export async function claimDueMonitors(owner: string, leaseMs: number, limit: number): Promise<Array<Record<string, any>>> {
+  const now = new Date();
+  const leaseUntil = new Date(now.getTime() + leaseMs).toISOString();
+  const claimed = await db.execute(sql`
+    UPDATE scheduled_monitors
+    SET claimed_by = ${owner},
+        lease_until = ${leaseUntil}::timestamptz,
+        wake_attempts = wake_attempts + 1
+    WHERE id IN (
+      SELECT id FROM scheduled_monitors
+      WHERE is_active = 1
+        AND next_wake_at <= ${now.toISOString()}::timestamptz
+        AND (lease_until IS NULL OR lease_until <= ${now.toISOString()}::timestamptz)
+      ORDER BY next_wake_at ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `);
+  return claimed.rows as Array<Record<string, any>>;
+}
+
+/**
+ * Extend the lease on a monitor (and its running attempt). Returns false when
+ * the lease has expired or been lost to another instance.
+ */
+export async function renewMonitorLease(monitorId: string, owner: string, attemptId: string, leaseMs: number): Promise<boolean> {
+  const leaseUntil = new Date(Date.now() + leaseMs);
+  const renewed = await db.execute(sql`
+    UPDATE scheduled_monitors
+    SET lease_until = ${leaseUntil.toISOString()}::timestamptz
+    WHERE id = ${monitorId} AND claimed_by = ${owner} AND lease_until > now()
+    RETURNING id
+  `);
+  if (renewed.rows.length === 0) return false;
+  await db.update(sleepWakeAttempts).set({ leaseUntil }).where(eq(sleepWakeAttempts.id, attemptId));
+  return true;
+}
+
+export interface CompletedWake {
+  runId: string;
+  nextWakeAt: Date;
+  baselineEntityNames: string[];
+  newEntities: number;
+  consecutiveEmptyWakes: number;
+}
+
+/**
+ * Record a finished wake, mark its attempt succeeded and release the claim,
+ * all in one statement. Returns false, writing nothing, when the lease has
+ * expired or the attempt is no longer running (markAbandonedAttempts closed
+ * it and gave its quota back).
+ */
+export async function completeMonitorWake(monitorId: string, owner: string, attemptId: string, wake: CompletedWake): Promise<boolean> {
+  const completed = await db.execute(sql`
+    WITH monitor AS (
+      SELECT id FROM scheduled_monitors
+      WHERE id = ${monitorId} AND claimed_by = ${owner} AND lease_until > now()
+      FOR UPDATE
+    ), attempt AS (
+      UPDATE sleep_wake_attempts
+      SET status = 'succeeded',
+          run_id = ${wake.runId},
+          entities_found = ${wake.baselineEntityNames.length},
+          new_entities = ${wake.newEntities},
+          error = NULL,
+          ended_at = now()
+      WHERE id = ${attemptId} AND status = 'running' AND EXISTS (SELECT 1 FROM monitor)
+      RETURNING id
+    )
+    UPDATE scheduled_monitors
+    SET last_run_at = now(),
+        last_run_id = ${wake.runId},
+        next_wake_at = ${wake.nextWakeAt.toISOString()}::timestamptz,
+        baseline_entity_names = ${JSON.stringify(wake.baselineEntityNames)}::jsonb,
+        consecutive_empty_wakes = ${wake.consecutiveEmptyWakes},
+        claimed_by = NULL,
+        lease_until = NULL,
+        wake_attempts = 0
+    WHERE id IN (SELECT id FROM monitor) AND EXISTS (SELECT 1 FROM attempt)
+    RETURNING id
+  `);
+  return completed.rows.length > 0;
+}
+
+/**
+ * Release a claim without completing the wake, moving next_wake_at (retry
+ * backoff, quota deferral). `resetAttempts` starts the retry count afresh.
+ */
+export async function releaseMonitor(monitorId: string, owner: string, nextWakeAt: Date, resetAttempts = false): Promise<void> {
+  await db.execute(sql`
+    UPDATE scheduled_monitors
+    SET next_wake_at = ${nextWakeAt.toISOString()}::timestamptz,
+        claimed_by = NULL,
+        lease_until = NULL,
+        wake_attempts = CASE WHEN ${resetAttempts}::boolean THEN 0 ELSE wake_attempts END
+    WHERE id = ${monitorId} AND claimed_by = ${owner}
+  `);
+}
+
+/**
+ * Take one wake from a daily quota. Returns false (and takes nothing) once
+ * `max` wakes have been taken for the key today.
+ */
+export async function takeDailyQuota(key: string, max: number, now = new Date()): Promise<boolean> {
+  if (max <= 0) return false;
+  const taken = await db.execute(sql`
+    INSERT INTO sleep_wake_daily_quota AS q (quota_key, day, wakes, updated_at)
+    VALUES (${key}, ${utcDay(now)}::date, 1, now())
+    ON CONFLICT (quota_key, day) DO UPDATE
+      SET wakes = q.wakes + 1, updated_at = now()
+      WHERE q.wakes < ${max}::integer
+    RETURNING wakes
+  `);
+  return taken.rows.length > 0;
+}
+
+/**
+ * Give back a wake taken with takeDailyQuota, on the day it was taken (the
+ * wake never ran, failed, or was discarded after losing its lease).
+ */
+export async function refundDailyQuota(key: string, now = new Date()): Promise<void> {
+  await db.execute(sql`
+    UPDATE sleep_wake_daily_quota
+    SET wakes = GREATEST(wakes - 1, 0), updated_at = now()
+    WHERE quota_key = ${key} AND day = ${utcDay(now)}::date
+  `);
+}
+
+export async function getDailyQuotaUsed(key: string, now = new Date()): Promise<number> {
+  const used = await db.execute(sql`
+    SELECT wakes FROM sleep_wake_daily_quota WHERE quota_key = ${key} AND day = ${utcDay(now)}::date
+  `);
+  const row = (used.rows as Array<Record<string, any>>)[0];
+  return row ? Number(row.wakes) : 0;
+}
+
+export interface WakeAttemptStart {
+  monitorId: string;
+  userId: string;
+  owner: string;
+  attempt: number;
+  leaseUntil: Date;
+  /** Terminal status for attempts that never run (quota, gave up) */
+  status?: WakeAttemptStatus;
+  error?: string;
+}
+
+export async function recordWakeAttempt(start: WakeAttemptStart): Promise<string> {
+  const id = randomUUID();
+  const terminal = start.status !== undefined && start.status !== 'running';
+  await db.insert(sleepWakeAttempts).values({
+    id,
+    monitorId: start.monitorId,
+    userId: start.userId,
+    owner: start.owner,
+    attempt: start.attempt,
+    status: start.status ?? 'running',
+    leaseUntil: start.leaseUntil,
+    error: start.error ?? null,
+    endedAt: terminal ? new Date() : null,
+  });
+  return id;
+}
+
+export interface WakeAttemptEnd {
+  status: Exclude<WakeAttemptStatus, 'running'>;
+  runId?: string;
+  entitiesFound?: number;
+  newEntities?: number;
+  error?: string;
+}
+
+/**
+ * Close a running attempt. Returns false, leaving the row alone, when it has
+ * already been closed — e.g. marked abandoned, with its quota given back.
+ */
+export async function finishWakeAttempt(attemptId: string, end: WakeAttemptEnd): Promise<boolean> {
+  const finished = await db
+    .update(sleepWakeAttempts)
+    .set({
+      status: end.status,
+      runId: end.runId ?? null,
+      entitiesFound: end.entitiesFound ?? null,
+      newEntities: end.newEntities ?? null,
+      error: end.error ?? null,
+      endedAt: new Date(),
+    })
+    .where(and(eq(sleepWakeAttempts.id, attemptId), eq(sleepWakeAttempts.status, 'running')))
+    .returning({ id: sleepWakeAttempts.id });
+  return finished.length > 0;
+}
+
+/**
+ * Close out attempts whose lease ran out while still 'running' — the instance
+ * died mid-wake. Their monitors are claimable again and the quota they took
+ * is given back. Returns how many.
+ */
+export async function markAbandonedAttempts(now = new Date()): Promise<number> {
+  const abandoned = await db.execute(sql`
+    UPDATE sleep_wake_attempts
+    SET status = 'abandoned', ended_at = ${now.toISOString()}::timestamptz, error = 'lease expired before the wake finished'
+    WHERE status = 'running' AND lease_until < ${now.toISOString()}::timestamptz
+    RETURNING user_id, started_at
+  `);
+  for (const row of abandoned.rows as Array<Record<string, any>>) {
+    const startedAt = new Date(row.started_at);
+    await refundDailyQuota(GLOBAL_QUOTA_KEY, startedAt);
+    await refundDailyQuota(row.user_id, startedAt);
+  }
+  return abandoned.rows.length;
+}
+
+export async function listWakeAttempts(monitorId?: string, limit = 50): Promise<SleepWakeAttemptRow[]> {
+  const query = db.select().from(sleepWakeAttempts);
+  if (monitorId) {
+    return query.where(eq(sleepWakeAttempts.monitorId, monitorId)).orderBy(desc(sleepWakeAttempts.startedAt)).limit(limit);
+  }
+  return query.orderBy(desc(sleepWakeAttempts.startedAt)).limit(limit);
+}
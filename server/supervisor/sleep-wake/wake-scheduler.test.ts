@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+/**
+ * In-memory stand-in for wake-leases with the same guards as its SQL: claims
+ * skip live leases, renewal and completion need a live lease, completion and
+ * finishing need a running attempt, and abandoning gives the quota back.
+ */
+const { fake, executeWake, insertMessage } = vi.hoisted(() => {
+  type Monitor = Record<string, any>;
+  type Attempt = { id: string; monitorId: string; userId: string; status: string; leaseUntil: number; startedAt: number; runId?: string };
+  const state = {
+    monitors: new Map<string, Monitor>(),
+    attempts: [] as Attempt[],
+    quota: new Map<string, number>(),
+  };
+  const now = () => Date.now();
+  const leased = (m: Monitor, owner: string) => m.claimed_by === owner && m.lease_until !== null && m.lease_until > now();
+  const fake = {
+    state,
+    GLOBAL_QUOTA_KEY: '*',
+    claimDueMonitors: vi.fn(async (owner: string, leaseMs: number, limit: number) => {
+      const due = Array.from(state.monitors.values())
+        .filter(m => m.is_active === 1 && m.next_wake_at <= now() && (m.lease_until === null || m.lease_until <= now()))
+        .sort((a, b) => a.next_wake_at - b.next_wake_at)
+        .slice(0, limit);
+      due.forEach(m => Object.assign(m, { claimed_by: owner, lease_until: now() + leaseMs, wake_attempts: m.wake_attempts + 1 }));
+      return due.map(m => ({ ...m, lease_until: new Date(m.lease_until).toISOString() }));
+    }),
+    renewMonitorLease: vi.fn(async (monitorId: string, owner: string, attemptId: string, leaseMs: number) => {
+      const monitor = state.monitors.get(monitorId)!;
+      if (!leased(monitor, owner)) return false;
+      monitor.lease_until = now() + leaseMs;
+      state.attempts.find(a => a.id === attemptId)!.leaseUntil = monitor.lease_until;
+      return true;
+    }),
+    completeMonitorWake: vi.fn(async (monitorId: string, owner: string, attemptId: string, wake: Record<string, any>) => {
+      const monitor = state.monitors.get(monitorId)!;
+      const attempt = state.attempts.find(a => a.id === attemptId)!;
+      if (!leased(monitor, owner) || attempt.status !== 'running') return false;
+      Object.assign(attempt, { status: 'succeeded', runId: wake.runId });
+      Object.assign(monitor, {
+        last_run_id: wake.runId, next_wake_at: wake.nextWakeAt.getTime(), baseline_entity_names: wake.baselineEntityNames,
+        claimed_by: null, lease_until: null, wake_attempts: 0,
+      });
+      return true;
+    }),
+    releaseMonitor: vi.fn(async (monitorId: string, owner: string, nextWakeAt: Date, resetAttempts = false) => {
+      const monitor = state.monitors.get(monitorId)!;
+      if (monitor.claimed_by !== owner) return;
+      Object.assign(monitor, { next_wake_at: nextWakeAt.getTime(), claimed_by: null, lease_until: null });
+      if (resetAttempts) monitor.wake_attempts = 0;
+    }),
+    takeDailyQuota: vi.fn(async (key: string, max: number) => {
+      const used = state.quota.get(key) ?? 0;
+      if (used >= max) return false;
+      state.quota.set(key, used + 1);
+      return true;
+    }),
+    refundDailyQuota: vi.fn(async (key: string) => {
+      state.quota.set(key, Math.max((state.quota.get(key) ?? 0) - 1, 0));
+    }),
+    getDailyQuotaUsed: vi.fn(async (key: string) => state.quota.get(key) ?? 0),
+    recordWakeAttempt: vi.fn(async (start: Record<string, any>) => {
+      const id = `attempt_${state.attempts.length + 1}`;
+      state.attempts.push({ id, monitorId: start.monitorId, userId: start.userId, status: start.status ?? 'running', leaseUntil: start.leaseUntil.getTime(), startedAt: now() });
+      return id;
+    }),
+    finishWakeAttempt: vi.fn(async (attemptId: string, end: Record<string, any>) => {
+      const attempt = state.attempts.find(a => a.id === attemptId)!;
+      if (attempt.status !== 'running') return false;
+      Object.assign(attempt, { status: end.status, runId: end.runId });
+      return true;
+    }),
+    markAbandonedAttempts: vi.fn(async () => {
+      const abandoned = state.attempts.filter(a => a.status === 'running' && a.leaseUntil < now());
+      for (const attempt of abandoned) {
+        attempt.status = 'abandoned';
+        await fake.refundDailyQuota('*');
+        await fake.refundDailyQuota(attempt.userId);
+      }
+      return abandoned.length;
+    }),
+  };
+  return { fake, executeWake: vi.fn(), insertMessage: vi.fn(async () => ({ error: null })) };
+});
+
+vi.mock('./wake-leases', () => fake);
+vi.mock('./wake-executor', () => ({ executeWake }));
+vi.mock('../jobs/job-queue', () => ({ generateWorkerId: () => 'worker-a' }));
+vi.mock('../../supabase', () => ({ supabase: { from: () => ({ insert: insertMessage }) } }));
+vi.mock('../artefacts', () => ({ createArtefact: vi.fn() }));
+vi.mock('../afr-logger', () => ({ logAFREvent: vi.fn() }));
+
+import { checkAndWakeGoals } from './wake-scheduler';
+
+const T0 = new Date('2026-03-02T12:00:00Z').getTime();
+const LEASE_MS = 30_000;
+
+function addMonitor(id: string, overrides: Record<string, any> = {}): Record<string, any> {
+  const monitor = {
+    id, user_id: 'u1', conversation_id: null, label: `Goal ${id}`, schedule: 'daily', monitor_type: 'lead_search',
+    config: {}, baseline_entity_names: [], consecutive_empty_wakes: 0, is_active: 1,
+    next_wake_at: T0 - 60_000, claimed_by: null, lease_until: null, wake_attempts: 0, last_run_id: null,
+    ...overrides,
+  };
+  fake.state.monitors.set(id, monitor);
+  return monitor;
+}
+
+function wakeResult(goalId: string, overrides: Record<string, any> = {}) {
+  return { goalId, runId: `run_${goalId}`, entitiesFound: ['The Lamb'], newEntities: [], removedEntities: [], deltaCount: 0, succeeded: true, ...overrides };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(T0);
+  vi.stubEnv('SLEEP_WAKE_ENABLED', 'true');
+  vi.stubEnv('SLEEP_WAKE_LEASE_MS', String(LEASE_MS));
+  vi.stubEnv('SLEEP_WAKE_MAX_DAILY', '5');
+  fake.state.monitors.clear();
+  fake.state.attempts.length = 0;
+  fake.state.quota.clear();
+  executeWake.mockImplementation(async (goal: { id: string }) => wakeResult(goal.id));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.clearAllMocks();
+});
+
+describe('checkAndWakeGoals', () => {
+  it('claims due goals one at a time and counts completed wakes against the quota', async () => {
+    addMonitor('1');
+    addMonitor('2', { next_wake_at: T0 - 30_000 });
+    addMonitor('3', { next_wake_at: T0 + 60_000 });
+
+    await checkAndWakeGoals();
+
+    expect(fake.claimDueMonitors.mock.calls.map(call => call[2])).toEqual([1, 1, 1]);
+    expect(executeWake.mock.calls.map(call => call[0].id)).toEqual(['1', '2']);
+    expect(fake.state.attempts.map(a => a.status)).toEqual(['succeeded', 'succeeded']);
+    expect(fake.state.monitors.get('1')).toMatchObject({ claimed_by: null, last_run_id: 'run_1', next_wake_at: T0 + 86_400_000 });
+    expect(fake.state.monitors.get('3')).toMatchObject({ claimed_by: null, last_run_id: null });
+    expect(fake.state.quota.get('*')).toBe(2);
+    expect(fake.state.quota.get('u1')).toBe(2);
+  });
+
+  it('renews the lease while a wake outlives it', async () => {
+    addMonitor('1');
+    executeWake.mockImplementation(async (goal: { id: string }) => {
+      await vi.advanceTimersByTimeAsync(LEASE_MS * 3);
+      return wakeResult(goal.id);
+    });
+
+    await checkAndWakeGoals();
+
+    expect(fake.renewMonitorLease).toHaveBeenCalledTimes(9);
+    expect(fake.state.attempts[0].status).toBe('succeeded');
+    expect(fake.state.monitors.get('1')!.last_run_id).toBe('run_1');
+  });
+
+  it('gives the quota back when a wake fails and retries after a backoff', async () => {
+    addMonitor('1');
+    executeWake.mockResolvedValue(wakeResult('1', { succeeded: false, runId: '', error: 'places timeout' }));
+
+    await checkAndWakeGoals();
+
+    expect(fake.state.attempts[0].status).toBe('failed');
+    expect(fake.state.monitors.get('1')).toMatchObject({ claimed_by: null, wake_attempts: 1, next_wake_at: T0 + 5 * 60_000 });
+    expect(fake.state.quota.get('*')).toBe(0);
+    expect(fake.state.quota.get('u1')).toBe(0);
+  });
+
+  it('closes abandoned attempts, refunds them and wakes their goals again', async () => {
+    addMonitor('1', { claimed_by: 'worker-dead', lease_until: T0 - 1_000, wake_attempts: 1 });
+    fake.state.attempts.push({ id: 'attempt_dead', monitorId: '1', userId: 'u1', status: 'running', leaseUntil: T0 - 1_000, startedAt: T0 - LEASE_MS });
+    fake.state.quota.set('*', 1);
+    fake.state.quota.set('u1', 1);
+
+    await checkAndWakeGoals();
+
+    expect(fake.state.attempts.map(a => [a.id, a.status])).toEqual([['attempt_dead', 'abandoned'], ['attempt_2', 'succeeded']]);
+    expect(fake.state.monitors.get('1')).toMatchObject({ claimed_by: null, last_run_id: 'run_1', wake_attempts: 0 });
+    expect(fake.state.quota.get('*')).toBe(1);
+    expect(fake.state.quota.get('u1')).toBe(1);
+  });
+
+  it('discards a wake whose attempt was abandoned mid-run without overwriting it or refunding twice', async () => {
+    addMonitor('1', { conversation_id: 'conv_1' });
+    fake.state.quota.set('*', 3);
+    fake.state.quota.set('u1', 3);
+    executeWake.mockImplementationOnce(async (goal: { id: string }) => {
+      // The heartbeat stalls, the lease runs out and another instance sweeps the attempt
+      const monitor = fake.state.monitors.get(goal.id)!;
+      monitor.lease_until = Date.now() - 1;
+      fake.state.attempts[0].leaseUntil = Date.now() - 1;
+      await fake.markAbandonedAttempts();
+      return wakeResult(goal.id, { newEntities: ['The Swan'], deltaCount: 1 });
+    });
+
+    await checkAndWakeGoals();
+
+    // The expired goal is claimed again and woken once more; only that wake counts
+    expect(fake.state.attempts.map(a => a.status)).toEqual(['abandoned', 'succeeded']);
+    expect(fake.state.quota.get('*')).toBe(4);
+    expect(fake.state.quota.get('u1')).toBe(4);
+    expect(insertMessage).not.toHaveBeenCalled();
+  });
+
+  it('discards a wake whose lease ran out before it completed', async () => {
+    addMonitor('1');
+    executeWake.mockImplementationOnce(async (goal: { id: string }) => {
+      fake.state.monitors.get(goal.id)!.lease_until = Date.now() - 1;
+      return wakeResult(goal.id, { runId: 'run_stale' });
+    });
+
+    await checkAndWakeGoals();
+
+    expect(fake.state.attempts.map(a => [a.status, a.runId])).toEqual([['lease_lost', 'run_stale'], ['succeeded', 'run_1']]);
+    expect(fake.state.monitors.get('1')!.last_run_id).toBe('run_1');
+    expect(fake.state.quota.get('*')).toBe(1);
+  });
+});
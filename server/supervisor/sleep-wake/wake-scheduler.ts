@@ -4,9 +4,10 @@ import { logAFREvent } from '../afr-logger';
 import type { SleepingGoal, WakeResult } from './types';
 import { executeWake } from './wake-executor';
 
+// In-process re-entrancy guard only; claims on scheduled_monitors keep
+// instances apart (wake-leases)
 let isWaking = false;
-let dailyWakeCount = 0;
-let dailyWakeResetDate = '';
+let workerId: string | null = null;
 
 const INTERVAL_MS: Record<string, number> = {
   hourly: 3_600_000,
@@ -14,73 +15,160 @@ const INTERVAL_MS: Record<string, number> = {
   weekly: 604_800_000,
 };
 
+const RETRY_BACKOFF_MS = 5 * 60_000;
+const CLAIM_BATCH = 5;
+
+function envInt(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function nextUtcMidnight(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+}
+
+function toGoal(monitor: Record<string, any>): SleepingGoal {
+  return {
+    id: monitor.id.toString(),
+    userId: monitor.user_id,
+    conversationId: monitor.conversation_id ?? null,
+    label: monitor.label,
+    description: monitor.description ?? '',
+    scheduleType: monitor.schedule ?? 'daily',
+    monitorType: monitor.monitor_type ?? 'lead_search',
+    config: monitor.config ?? {},
+    baselineEntityNames: monitor.baseline_entity_names ?? [],
+    consecutiveEmptyWakes: monitor.consecutive_empty_wakes ?? 0,
+    lastRunAt: monitor.last_run_at,
+    lastRunId: monitor.last_run_id,
+    nextWakeAt: monitor.next_wake_at,
+    createdAt: monitor.created_at,
+  };
+}
+
+/**
+ * Wake due goals. Safe to run on every instance at once: each monitor is
+ * claimed with a lease before it is woken, and daily quotas are durable
+ * (SLEEP_WAKE_MAX_DAILY across all users, SLEEP_WAKE_MAX_DAILY_PER_USER each)
+ * and only count wakes that complete. A wake that fails is retried after a
+ * backoff up to SLEEP_WAKE_MAX_ATTEMPTS times; one whose instance dies is
+ * re-queued when its lease expires.
+ */
 export async function checkAndWakeGoals(): Promise<void> {
   if (!supabase || process.env.SLEEP_WAKE_ENABLED !== 'true') return;
   if (isWaking) return;
 
-  const today = new Date().toISOString().slice(0, 10);
-  if (today !== dailyWakeResetDate) {
-    dailyWakeCount = 0;
-    dailyWakeResetDate = today;
-  }
-  const maxDaily = parseInt(process.env.SLEEP_WAKE_MAX_DAILY || '5', 10);
-  if (dailyWakeCount >= maxDaily) return;
-
   isWaking = true;
   try {
-    const now = new Date().toISOString();
-    const { data: dueMonitors, error } = await supabase
-      .from('scheduled_monitors')
-      .select('*')
-      .eq('is_active', 1)
-      .lte('next_wake_at', now)
-      .order('next_wake_at', { ascending: true })
-      .limit(5);
-
-    if (error) {
-      console.error(`[SLEEP_WAKE] Failed to query due monitors: ${error.message}`);
-      return;
+    const leases = await import('./wake-leases');
+    const maxDaily = envInt('SLEEP_WAKE_MAX_DAILY', 5);
+    const maxDailyPerUser = envInt('SLEEP_WAKE_MAX_DAILY_PER_USER', maxDaily);
+    const maxAttempts = envInt('SLEEP_WAKE_MAX_ATTEMPTS', 3);
+    const leaseMs = envInt('SLEEP_WAKE_LEASE_MS', 15 * 60_000);
+    if (!workerId) {
+      const { generateWorkerId } = await import('../jobs/job-queue');
+      workerId = generateWorkerId();
+    }
+    const owner = workerId;
+
+    const abandoned = await leases.markAbandonedAttempts();
+    if (abandoned > 0) {
+      console.warn(`[SLEEP_WAKE] ${abandoned} wake(s) lost their lease mid-run; their goals are due again`);
     }
 
-    if (!dueMonitors || dueMonitors.length === 0) return;
-
-    console.log(`[SLEEP_WAKE] ${dueMonitors.length} goal(s) due for wake`);
-
-    for (const monitor of dueMonitors) {
-      const goal: SleepingGoal = {
-        id: monitor.id.toString(),
-        userId: monitor.user_id,
-        conversationId: monitor.conversation_id ?? null,
-        label: monitor.label,
-        description: monitor.description ?? '',
-        scheduleType: monitor.schedule ?? 'daily',
-        monitorType: monitor.monitor_type ?? 'lead_search',
-        config: monitor.config ?? {},
-        baselineEntityNames: monitor.baseline_entity_names ?? [],
-        consecutiveEmptyWakes: monitor.consecutive_empty_wakes ?? 0,
-        lastRunAt: monitor.last_run_at,
-        lastRunId: monitor.last_run_id,
-        nextWakeAt: monitor.next_wake_at,
-        createdAt: monitor.created_at,
+    if (await leases.getDailyQuotaUsed(leases.GLOBAL_QUOTA_KEY) >= maxDaily) return;
+
+    for (let claimed = 0; claimed < CLAIM_BATCH; claimed++) {
+      // Claim one goal at a time: its lease only has to outlive its own wake,
+      // which the heartbeat below keeps renewing
+      const [monitor] = await leases.claimDueMonitors(owner, leaseMs, 1);
+      if (!monitor) break;
+
+      const goal = toGoal(monitor);
+      const attempt = Number(monitor.wake_attempts ?? 1);
+      const leaseUntil = new Date(monitor.lease_until);
+      const intervalMs = INTERVAL_MS[goal.scheduleType] ?? INTERVAL_MS.daily;
+
+      if (attempt > maxAttempts) {
+        // Give up on this occurrence; the goal wakes again at its next interval
+        await leases.releaseMonitor(goal.id, owner, new Date(Date.now() + intervalMs), true);
+        await leases.recordWakeAttempt({
+          monitorId: goal.id, userId: goal.userId, owner, attempt, leaseUntil,
+          status: 'gave_up', error: `${attempt - 1} failed attempt(s)`,
+        });
+        console.warn(`[SLEEP_WAKE] Goal ${goal.id} failed ${attempt - 1} time(s); skipping until its next ${goal.scheduleType} wake`);
+        continue;
+      }
+
+      // Quotas count completed wakes: anything taken here is given back if the wake fails or is discarded
+      const quotaDay = new Date();
+      const refundQuota = async () => {
+        await leases.refundDailyQuota(leases.GLOBAL_QUOTA_KEY, quotaDay);
+        await leases.refundDailyQuota(goal.userId, quotaDay);
       };
+      const quotaError = !(await leases.takeDailyQuota(leases.GLOBAL_QUOTA_KEY, maxDaily, quotaDay))
+        ? 'daily wake cap reached'
+        : !(await leases.takeDailyQuota(goal.userId, maxDailyPerUser, quotaDay))
+          ? 'per-user daily wake quota reached'
+          : null;
+      if (quotaError) {
+        if (quotaError !== 'daily wake cap reached') await leases.refundDailyQuota(leases.GLOBAL_QUOTA_KEY, quotaDay);
+        await leases.releaseMonitor(goal.id, owner, nextUtcMidnight(new Date()), true);
+        await leases.recordWakeAttempt({
+          monitorId: goal.id, userId: goal.userId, owner, attempt, leaseUntil,
+          status: 'quota_exceeded', error: quotaError,
+        });
+        console.log(`[SLEEP_WAKE] Goal ${goal.id} deferred to tomorrow: ${quotaError}`);
+        continue;
+      }
+
+      console.log(`[SLEEP_WAKE] Claimed goal ${goal.id} for wake attempt ${attempt} (owner=${owner})`);
+
+      const attemptId = await leases.recordWakeAttempt({ monitorId: goal.id, userId: goal.userId, owner, attempt, leaseUntil });
+      let leaseLost = false;
+      const heartbeat = setInterval(() => {
+        leases.renewMonitorLease(goal.id, owner, attemptId, leaseMs)
+          .then(held => { if (!held) leaseLost = true; })
+          .catch(err => console.warn(`[SLEEP_WAKE] Lease renewal failed for goal ${goal.id}: ${err.message}`));
+      }, Math.max(1_000, Math.floor(leaseMs / 3)));
 
       let wakeResult: WakeResult;
       try {
         wakeResult = await executeWake(goal);
       } catch (err: any) {
-        console.error(`[SLEEP_WAKE] Uncaught error waking goal ${goal.id}: ${err.message}`);
-        continue;
+        wakeResult = { goalId: goal.id, runId: '', entitiesFound: [], newEntities: [], removedEntities: [], deltaCount: 0, succeeded: false, error: err.message };
+      } finally {
+        clearInterval(heartbeat);
       }
 
-      const intervalMs = INTERVAL_MS[goal.scheduleType] ?? INTERVAL_MS.daily;
+      if (!wakeResult.succeeded) {
+        console.error(`[SLEEP_WAKE] Wake attempt ${attempt}/${maxAttempts} failed for goal ${goal.id}: ${wakeResult.error}`);
+        await leases.releaseMonitor(goal.id, owner, new Date(Date.now() + RETRY_BACKOFF_MS * attempt));
+        // An attempt already marked abandoned had its quota given back then
+        const closed = await leases.finishWakeAttempt(attemptId, { status: 'failed', runId: wakeResult.runId || undefined, error: wakeResult.error });
+        if (closed) await refundQuota();
+        continue;
+      }
 
-      await supabase.from('scheduled_monitors').update({
-        last_run_at: new Date().toISOString(),
-        last_run_id: wakeResult.runId,
-        next_wake_at: new Date(Date.now() + intervalMs).toISOString(),
-        baseline_entity_names: JSON.stringify(wakeResult.entitiesFound),
-        consecutive_empty_wakes: wakeResult.deltaCount > 0 ? 0 : (goal.consecutiveEmptyWakes + 1),
-      }).eq('id', monitor.id);
+      const completed = !leaseLost && await leases.completeMonitorWake(goal.id, owner, attemptId, {
+        runId: wakeResult.runId,
+        nextWakeAt: new Date(Date.now() + intervalMs),
+        baselineEntityNames: wakeResult.entitiesFound,
+        newEntities: wakeResult.deltaCount,
+        consecutiveEmptyWakes: wakeResult.deltaCount > 0 ? 0 : (goal.consecutiveEmptyWakes + 1),
+      });
+      if (!completed) {
+        // Another instance holds the goal now and will wake it itself; don't nudge twice
+        const closed = await leases.finishWakeAttempt(attemptId, {
+          status: 'lease_lost',
+          runId: wakeResult.runId,
+          entitiesFound: wakeResult.entitiesFound.length,
+          newEntities: wakeResult.deltaCount,
+        });
+        if (closed) await refundQuota();
+        console.warn(`[SLEEP_WAKE] Lost the lease on goal ${goal.id} during its wake; discarding run ${wakeResult.runId}`);
+        continue;
+      }
 
       if (wakeResult.deltaCount > 0 && goal.conversationId) {
         const entityList = wakeResult.newEntities.slice(0, 5).join(', ');
@@ -132,7 +220,6 @@ export async function checkAndWakeGoals(): Promise<void> {
       }
 
       console.log(`[SLEEP_WAKE] Goal "${goal.label}" wake complete: ${wakeResult.entitiesFound.length} total, ${wakeResult.deltaCount} new`);
-      dailyWakeCount++;
     }
   } finally {
     isWaking = false;
@@ -9,6 +9,10 @@
  * Uses the existing pending contract system — no new state management.
  */
 
+import { z } from 'zod';
+import { callLLMJson } from './llm-json';
+import { acquireRateLimit } from './rate-limits';
+
 // ─── Types ──────────────────────────────────────────────────────────────────
 
 export interface SmartClarifyInput {
@@ -41,59 +45,21 @@ export interface SmartClarifyResult {
   proposed_query?: string;
 }
 
-// ─── Circuit breaker — prevent runaway calls ─────────────────────────────────
-
-const _smartClarifyTimestamps: number[] = [];
-const CIRCUIT_BREAKER_WINDOW_MS = 5 * 60 * 1000;
-const CIRCUIT_BREAKER_MAX_CALLS = 20;
-
-function isCircuitBroken(): boolean {
-  const cutoff = Date.now() - CIRCUIT_BREAKER_WINDOW_MS;
-  while (_smartClarifyTimestamps.length > 0 && _smartClarifyTimestamps[0] < cutoff) {
-    _smartClarifyTimestamps.shift();
-  }
-  return _smartClarifyTimestamps.length >= CIRCUIT_BREAKER_MAX_CALLS;
-}
-
-function recordCall(): void {
-  _smartClarifyTimestamps.push(Date.now());
-}
-
-// ─── LLM call (reuses same pattern as rescue-llm.ts) ────────────────────────
-
-async function callAnthropicHaiku(systemPrompt: string, userPrompt: string): Promise<string> {
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not set — cannot call smart clarification LLM');
-  }
-
-  const model = process.env.RESCUE_LLM_MODEL || 'claude-3-5-haiku-20241022';
-
-  const resp = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
-      model,
-      max_tokens: 500,
-      temperature: 0,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: userPrompt }],
-    }),
-  });
+// ─── Response schema ────────────────────────────────────────────────────────
 
-  if (!resp.ok) {
-    const body = await resp.text();
-    throw new Error(`Anthropic API ${resp.status}: ${body.substring(0, 200)}`);
-  }
+const optionalStrings = z.array(z.string()).nullish().transform(v => v ?? undefined);
 
-  const data = await resp.json() as { content: Array<{ type: string; text?: string }> };
-  const textBlock = data.content?.find((b) => b.type === 'text');
-  return textBlock?.text || '';
-}
+const SmartClarifyResultSchema: z.ZodType<SmartClarifyResult, z.ZodTypeDef, unknown> = z.object({
+  clarification_message: z.string().min(1),
+  inferred_context: z.object({
+    product_description: z.string().nullish().transform(v => v ?? undefined),
+    suggested_sectors: optionalStrings,
+    suggested_locations: optionalStrings,
+  }).nullish().transform(v => v ?? {}),
+  still_missing: z.array(z.string()).default([]),
+  can_proceed_without: z.boolean().default(false),
+  proposed_query: z.string().nullish().transform(v => v ?? undefined),
+});
 
 // ─── Core function ───────────────────────────────────────────────────────────
 
@@ -102,12 +68,12 @@ export async function generateSmartClarification(input: SmartClarifyInput): Prom
     throw new Error('Smart clarification disabled');
   }
 
-  if (isCircuitBroken()) {
-    throw new Error(`Smart clarify circuit breaker OPEN — ${CIRCUIT_BREAKER_MAX_CALLS} calls in ${CIRCUIT_BREAKER_WINDOW_MS / 1000}s`);
+  // Shared limit against runaway calls (route:smart_clarify, default 20 per 5 minutes)
+  const limit = await acquireRateLimit({ route: 'smart_clarify' });
+  if (!limit.allowed) {
+    throw new Error(`Smart clarify ${limit.reason} — retry in ${Math.ceil(limit.retryAfterMs / 1000)}s`);
   }
 
-  recordCall();
-
   const systemPrompt = `You are a clarification assistant for Wyshbone, a business lead finder. A user has asked to find businesses but their request is incomplete. Your job is to:
 
 1. Read any URL content or conversation context to understand what the user's product/service does
@@ -152,18 +118,12 @@ WHAT'S MISSING: ${input.missingFields.join(', ')}
 ${input.userProfile?.companyName ? `USER'S COMPANY: ${input.userProfile.companyName}` : ''}
 ${input.userProfile?.inferredIndustry ? `USER'S INDUSTRY: ${input.userProfile.inferredIndustry}` : ''}`;
 
-  const rawResponse = await callAnthropicHaiku(systemPrompt, userPrompt);
-
-  const cleaned = rawResponse.trim()
-    .replace(/^```json\s*/i, '')
-    .replace(/```\s*$/, '')
-    .trim();
-
-  const result = JSON.parse(cleaned) as SmartClarifyResult;
-
-  if (!result.clarification_message) {
-    throw new Error('Smart clarify response missing required clarification_message field');
-  }
+  const { data: result } = await callLLMJson(SmartClarifyResultSchema, systemPrompt, userPrompt, 'smart_clarify', {
+    preferredProvider: 'anthropic',
+    anthropicModel: process.env.RESCUE_LLM_MODEL || 'claude-3-5-haiku-20241022',
+    maxTokens: 500,
+    temperature: 0,
+  });
 
   console.log(`[SMART_CLARIFY] Generated: "${result.clarification_message.slice(0, 80)}" missing=[${result.still_missing}] inferred=${!!result.inferred_context?.product_description}`);
 
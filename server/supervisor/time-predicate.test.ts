@@ -1,4 +1,4 @@
-import { describe, it } from 'node:test';
+import { describe, it, before, after } from 'node:test';
 import assert from 'node:assert';
 import {
   detectTimePredicate,
@@ -221,8 +221,14 @@ describe('Time Predicate — proxy resolution', () => {
     assert.strictEqual(resolved.verifiability, 'unverifiable');
   });
 
-  it('user chooses unsupported proxy → can_execute=false with explanation', () => {
+  it('user chooses "new_listing" → can_execute=true', () => {
     const resolved = resolveProxyChoice(baseContract(), 'new_listing');
+    assert.strictEqual(resolved.can_execute, true);
+    assert.strictEqual(resolved.chosen_proxy, 'new_listing');
+  });
+
+  it('user chooses unsupported proxy → can_execute=false with explanation', () => {
+    const resolved = resolveProxyChoice(baseContract(), 'companies_house_incorp');
     assert.strictEqual(resolved.can_execute, false);
     assert.ok(resolved.why_blocked!.includes('not supported'));
   });
@@ -287,7 +293,7 @@ describe('Time Predicate — supported proxy IDs', () => {
     const ids = getSupportedProxyIds();
     assert.ok(ids.includes('recent_reviews'));
     assert.ok(ids.includes('news_mention'));
-    assert.ok(!ids.includes('new_listing'));
+    assert.ok(ids.includes('new_listing'));
     assert.ok(!ids.includes('companies_house_incorp'));
   });
 });
@@ -349,12 +355,13 @@ describe('Time Predicate — acceptance scenarios', () => {
     assert.ok(honesty!.includes("can't be guaranteed"));
   });
 
-  it('Scenario E variant: user clarifies "use new_listing" (unsupported) → still blocked', () => {
+  it('Scenario E variant: user clarifies "use new_listing" without a window → still blocked on the window', () => {
     const contract = buildTimePredicateContract('find pubs opened recently in Bristol');
     assert.ok(contract !== null);
     const resolved = resolveProxyChoice(contract!, 'new_listing');
     assert.strictEqual(resolved.can_execute, false);
-    assert.ok(resolved.why_blocked!.includes('not supported'));
+    assert.strictEqual(resolved.chosen_proxy, 'new_listing');
+    assert.ok(resolved.why_blocked!.includes('Time window is ambiguous'));
   });
 });
 
@@ -410,3 +417,36 @@ describe('Time Predicate — realignment: Supervisor as sole authority', () => {
     }
   });
 });
+
+describe('Time Predicate — Companies House proxy', () => {
+  let previous: string | undefined;
+  before(() => {
+    previous = process.env.COMPANY_REGISTRY_PROVIDER;
+    process.env.COMPANY_REGISTRY_PROVIDER = 'fixture';
+  });
+  after(() => {
+    if (previous === undefined) delete process.env.COMPANY_REGISTRY_PROVIDER;
+    else process.env.COMPANY_REGISTRY_PROVIDER = previous;
+  });
+
+  it('is supported once a company registry is configured', () => {
+    assert.ok(getSupportedProxyIds().includes('companies_house_incorp'));
+    const contract = buildTimePredicateContract('find pubs in Leeds opened in the last 12 months')!;
+    const proxy = contract.proxy_options.find(p => p.id === 'companies_house_incorp')!;
+    assert.strictEqual(proxy.supported, true);
+    assert.ok(!proxy.description.includes('not currently available'));
+  });
+
+  it('user chooses companies_house_incorp with a registry → can_execute=true', () => {
+    const contract = buildTimePredicateContract('find pubs in Leeds opened in the last 12 months')!;
+    const resolved = resolveProxyChoice(contract, 'companies_house_incorp');
+    assert.strictEqual(resolved.can_execute, true);
+    assert.strictEqual(resolved.chosen_proxy, 'companies_house_incorp');
+  });
+
+  it('is not offered when the registry is switched off', () => {
+    process.env.COMPANY_REGISTRY_PROVIDER = 'off';
+    assert.ok(!getSupportedProxyIds().includes('companies_house_incorp'));
+    process.env.COMPANY_REGISTRY_PROVIDER = 'fixture';
+  });
+});
@@ -1,6 +1,8 @@
 // Supervisor is the sole authority for constraint interpretation and verifiability.
 // UI and Tower must not invent or infer time predicate fields — they consume this contract as-is.
 
+import { isCompanyRegistryConfigured } from './company-registry';
+
 export type TimePredicateVerb = 'opened' | 'closed' | 'renovated' | 'new_listing' | 'recent_reviews' | 'news_mention';
 export type Verifiability = 'verifiable' | 'proxy' | 'unverifiable';
 export type Hardness = 'hard' | 'soft';
@@ -45,17 +47,28 @@ const PROXY_OPTIONS: ProxyOption[] = [
   {
     id: 'new_listing',
     label: 'New listing date',
-    description: 'First-seen listing date from our index (not currently available)',
-    supported: false,
+    description: 'Venues first seen in our listing index within the specified window (only where we were already searching before it)',
+    supported: true,
   },
   {
     id: 'companies_house_incorp',
     label: 'Companies House incorporation',
-    description: 'Companies House incorporation date — only applies to registered companies, not venues (not currently available)',
+    description: 'Companies House incorporation date — only applies to registered companies, not venues',
     supported: false,
   },
 ];
 
+/** The proxy options, with Companies House supported only when a registry provider is configured */
+function getProxyOptions(): ProxyOption[] {
+  const registryConfigured = isCompanyRegistryConfigured();
+  return PROXY_OPTIONS.map(p => {
+    if (p.id !== 'companies_house_incorp') return p;
+    return registryConfigured
+      ? { ...p, supported: true }
+      : { ...p, description: `${p.description} (not currently available)` };
+  });
+}
+
 const TIME_PHRASES: { pattern: RegExp; predicate: TimePredicateVerb; extractWindow: (match: RegExpMatchArray) => { window: string | null; window_days: number | null } }[] = [
   {
     pattern: /\b(?:opened|started|founded|established|launched)\s+(?:in\s+(?:the\s+)?)?(?:last|past)\s+(\d+)\s+(months?|years?|weeks?|days?)\b/i,
@@ -134,6 +147,16 @@ function unitToDays(n: number, unit: string): number {
   }
 }
 
+/**
+ * Parse a window such as "6 months" or "2 weeks" into days. Returns null for
+ * anything vaguer ("recent", "this year").
+ */
+export function parseWindowDays(value: string): number | null {
+  const match = value.trim().match(/^(\d+)\s*(days?|weeks?|months?|years?)$/i);
+  if (!match) return null;
+  return unitToDays(parseInt(match[1], 10), match[2].toLowerCase().replace(/s$/, ''));
+}
+
 export function detectTimePredicate(msg: string): { predicate: TimePredicateVerb; window: string | null; window_days: number | null } | null {
   for (const entry of TIME_PHRASES) {
     const match = msg.match(entry.pattern);
@@ -158,8 +181,8 @@ export function buildTimePredicateContract(
 
   const hardness = inferHardness(msg);
 
-  const supportedProxies = PROXY_OPTIONS.filter(p => p.supported);
-  const allProxies = [...PROXY_OPTIONS];
+  const allProxies = getProxyOptions();
+  const supportedProxies = allProxies.filter(p => p.supported);
 
   const effectiveWindow = overrides?.window ?? detected.window;
   const effectiveWindowDays = overrides?.window_days ?? detected.window_days;
@@ -287,5 +310,5 @@ export function buildHonestyLine(contract: TimePredicateContract): string | null
 }
 
 export function getSupportedProxyIds(): string[] {
-  return PROXY_OPTIONS.filter(p => p.supported).map(p => p.id);
+  return getProxyOptions().filter(p => p.supported).map(p => p.id);
 }
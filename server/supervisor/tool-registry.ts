@@ -17,8 +17,13 @@
  *      intent is pubs / bars / breweries / hospitality.
  *   3. Execution guard: if the planner still picks it despite both gates, the
  *      action-executor rejects the call and replans via SEARCH_PLACES.
+ *
+ * COMPANY_REGISTRY_LOOKUP is enabled at boot only when a registry provider is
+ * configured (COMPANIES_HOUSE_API_KEY or COMPANY_REGISTRY_FIXTURE).
  */
 
+import { isCompanyRegistryConfigured } from './company-registry';
+
 export interface ToolParamSchema {
   type: string;
   description?: string;
@@ -192,6 +197,16 @@ const TOOL_DEFINITIONS: ToolDefinition[] = [
       visit_budget: { type: 'number', description: 'Max website visits allowed (0-5)', default: 3 },
     },
   },
+  {
+    id: 'COMPANY_REGISTRY_LOOKUP',
+    label: 'Company Registry Lookup',
+    description: 'Resolve a lead to its registered company (Companies House): status, incorporation date, SIC codes, directors and persons with significant control. Official evidence for ownership, closure and opening-date checks.',
+    enabled: false,
+    category: 'enrich',
+    paramsSchema: {
+      lead: { type: 'object', description: 'Lead object with business_name and address (postcode helps disambiguate)', required: true },
+    },
+  },
 ];
 
 const registry = new Map<string, ToolDefinition>();
@@ -202,6 +217,14 @@ for (const tool of TOOL_DEFINITIONS) {
 applyEnvOverrides();
 
 function applyEnvOverrides(): void {
+  const registryTool = registry.get('COMPANY_REGISTRY_LOOKUP');
+  if (registryTool) {
+    registryTool.enabled = isCompanyRegistryConfigured();
+    if (registryTool.enabled) {
+      console.log('[TOOL_REGISTRY] Company registry provider configured — COMPANY_REGISTRY_LOOKUP enabled');
+    }
+  }
+
   const dbTool = registry.get('SEARCH_WYSHBONE_DB');
   if (!dbTool) return;
 
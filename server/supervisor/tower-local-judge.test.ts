@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  localJudgeArtefact,
+  localEvaluate,
+  localSemanticVerify,
+  startLocalTower,
+  type LocalTowerHandle,
+} from './tower-local-judge';
+import { callTowerEvaluate, LEADGEN_SUCCESS_DEFAULTS, type TowerSnapshot } from './tower-judgement';
+import type { ArtefactJudgementRequest, ArtefactJudgementResponse } from './tower-artefact-judge';
+import type { TowerSemanticRequest } from './tower-semantic-verify';
+import { buildDeliverySummaryPayload, type DeliverySummaryInput } from './delivery-summary';
+
+function finalDelivery(opts: {
+  delivered: number;
+  verifiedExact?: number;
+  requested?: number | null;
+  unverifiable?: string[];
+  planVersion?: number;
+}): ArtefactJudgementRequest {
+  const verification: Record<string, unknown> = opts.verifiedExact === undefined ? {} : {
+    verification_summary: {
+      verified_exact_count: opts.verifiedExact,
+      unverifiable_hard_constraints: (opts.unverifiable ?? []).map((value, i) => ({ constraint_id: `c${i}`, value })),
+    },
+  };
+  return {
+    runId: 'run-1',
+    artefactId: 'art-1',
+    goal: 'find pubs in Brighton',
+    artefactType: 'final_delivery',
+    successCriteria: {
+      requested_count_user: opts.requested === null ? 'implicit' : 'explicit',
+      requested_count_value: opts.requested ?? null,
+      max_replan_versions: 3,
+    },
+    artefact_payload: {
+      payload_json: {
+        delivered_count: opts.delivered,
+        plan_version: opts.planVersion ?? 1,
+        ...verification,
+      },
+    },
+  };
+}
+
+function snapshot(overrides: Partial<TowerSnapshot> = {}): TowerSnapshot {
+  return {
+    steps_completed: 1,
+    leads_found: 1,
+    leads_new_last_window: 1,
+    failures_count: 0,
+    total_cost_gbp: 0.25,
+    avg_quality_score: 1,
+    ...overrides,
+  };
+}
+
+function semanticRequest(overrides: Partial<TowerSemanticRequest> = {}): TowerSemanticRequest {
+  return {
+    run_id: 'run-1',
+    original_user_goal: 'pubs with a beer garden in Brighton',
+    lead_name: 'The Hop Inn',
+    lead_place_id: 'p1',
+    constraint_to_check: 'beer garden',
+    source_url: 'https://hopinn.example',
+    evidence_text: '',
+    extracted_quotes: [],
+    page_title: null,
+    ...overrides,
+  };
+}
+
+function deliverySummaryFor(judgement: ArtefactJudgementResponse, exact: number, overrides: Partial<DeliverySummaryInput> = {}) {
+  const leads = Array.from({ length: 3 }, (_, i) => ({ entity_id: `p${i}`, place_id: `p${i}`, name: `Pub ${i}`, address: `${i} High St` }));
+  return buildDeliverySummaryPayload({
+    runId: 'run-1',
+    userId: 'user-1',
+    originalUserGoal: 'find pubs in Brighton',
+    requestedCount: 3,
+    hardConstraints: [],
+    softConstraints: [],
+    planVersions: [{ version: 1, changes_made: [] }],
+    softRelaxations: [],
+    leads,
+    finalVerdict: judgement.verdict,
+    finalAction: judgement.action,
+    cvlVerifiedExactCount: exact,
+    cvlLeadVerifications: leads.map((l, i) => ({
+      lead_place_id: l.place_id,
+      lead_name: l.name,
+      verified_exact: i < exact,
+      all_hard_satisfied: i < exact,
+      location_confidence: 'verified_geo',
+    })),
+    ...overrides,
+  });
+}
+
+describe('localJudgeArtefact', () => {
+  it('passes when verified exact meets the requested count', () => {
+    const result = localJudgeArtefact(finalDelivery({ delivered: 3, verifiedExact: 3, requested: 3 }));
+    expect(result.verdict).toBe('pass');
+    expect(result.action).toBe('continue');
+    expect(result.metrics).toMatchObject({ requested_count: 3, verified_exact_count: 3, shortfall: 0 });
+  });
+
+  it('returns partial with a shortfall gap when fewer are verified than requested', () => {
+    const result = localJudgeArtefact(finalDelivery({ delivered: 3, verifiedExact: 1, requested: 3 }));
+    expect(result.verdict).toBe('partial');
+    expect(result.gaps).toEqual([expect.objectContaining({ type: 'shortfall' })]);
+  });
+
+  it('ignores the search budget when the count is implicit', () => {
+    const result = localJudgeArtefact(finalDelivery({ delivered: 3, verifiedExact: 1, requested: null }));
+    expect(result.verdict).toBe('pass');
+    expect(result.metrics.requested_count).toBeNull();
+  });
+
+  it('accepts with unverified when hard constraints cannot be verified', () => {
+    const result = localJudgeArtefact(finalDelivery({ delivered: 3, verifiedExact: 3, requested: 3, unverifiable: ['live music'] }));
+    expect(result.verdict).toBe('accept_with_unverified');
+    expect(result.gaps).toEqual([expect.objectContaining({ type: 'hard_constraint_unverifiable', detail: 'live music' })]);
+  });
+
+  it('asks for a new plan when nothing verified, and stops once replans are used up', () => {
+    expect(localJudgeArtefact(finalDelivery({ delivered: 3, verifiedExact: 0, requested: 3 })).action).toBe('change_plan');
+    const last = localJudgeArtefact(finalDelivery({ delivered: 3, verifiedExact: 0, requested: 3, planVersion: 3 }));
+    expect(last.verdict).toBe('fail');
+    expect(last.action).toBe('stop');
+    expect(localJudgeArtefact(finalDelivery({ delivered: 0 })).verdict).toBe('fail');
+  });
+
+  it('passes intermediate artefacts without CVL counts', () => {
+    const result = localJudgeArtefact(finalDelivery({ delivered: 2 }));
+    expect(result.verdict).toBe('pass');
+  });
+
+  it('reads counts from a CVL verification_summary artefact', () => {
+    const result = localJudgeArtefact({
+      runId: 'run-1',
+      artefactId: 'art-2',
+      goal: 'find pubs',
+      artefactType: 'verification_summary',
+      artefact_payload: { payload_json: { requested_count_user: 5, verified_exact_count: 2, verified_total_count: 4, unverifiable_hard_constraints: [] } },
+    });
+    expect(result.verdict).toBe('partial');
+    expect(result.metrics).toMatchObject({ requested_count: 5, delivered_count: 4, shortfall: 3 });
+  });
+});
+
+describe('local judge → CanonicalVerdict', () => {
+  it('maps each local verdict through the delivery summary', () => {
+    const judge = (exact: number, unverifiable: string[] = []) =>
+      localJudgeArtefact(finalDelivery({ delivered: 3, verifiedExact: exact, requested: 3, unverifiable }));
+
+    expect(deliverySummaryFor(judge(3), 3).status).toBe('PASS');
+    expect(deliverySummaryFor(judge(1), 1).status).toBe('PARTIAL');
+    expect(deliverySummaryFor(judge(3, ['live music']), 3, { cvlHardUnverifiable: ['live music'] }).status).toBe('PARTIAL');
+    expect(deliverySummaryFor(judge(0), 0).status).toBe('CHANGE_PLAN');
+  });
+});
+
+describe('localEvaluate', () => {
+  const success = LEADGEN_SUCCESS_DEFAULTS;
+  const evaluate = (overrides: Partial<TowerSnapshot>) =>
+    localEvaluate({ run_id: 'run-1', mission_type: 'leadgen', success, snapshot: snapshot(overrides) }, new Date('2026-01-01T00:00:00Z'));
+
+  it('derives verdicts from the thresholds', () => {
+    expect(evaluate({}).verdict).toBe('CONTINUE');
+    expect(evaluate({ failures_count: 3 }).reason_code).toBe('MAX_FAILURES');
+    expect(evaluate({ total_cost_gbp: 2.5, leads_found: 10 }).reason_code).toBe('BUDGET_EXCEEDED');
+    expect(evaluate({ leads_found: 5, total_cost_gbp: 1 }).reason_code).toBe('TARGET_REACHED');
+    expect(evaluate({ leads_found: 5, total_cost_gbp: 1, avg_quality_score: 0.2 }).verdict).toBe('CHANGE_PLAN');
+    expect(evaluate({ leads_found: 1, total_cost_gbp: 1 }).reason_code).toBe('COST_PER_LEAD_EXCEEDED');
+    expect(evaluate({ steps_completed: 3, leads_found: 4, leads_new_last_window: 0 }).reason_code).toBe('STALLED');
+    expect(evaluate({}).evaluated_at).toBe('2026-01-01T00:00:00.000Z');
+  });
+});
+
+describe('localSemanticVerify', () => {
+  it('verifies phrases in quotes or page text', () => {
+    const quoted = localSemanticVerify(semanticRequest({ extracted_quotes: ['Large beer garden out back'] }));
+    expect(quoted.status).toBe('verified');
+    expect(quoted.matched_snippets).toEqual(['Large beer garden out back']);
+
+    const inText = localSemanticVerify(semanticRequest({ evidence_text: 'Open daily. Our Beer Garden seats 80.' }));
+    expect(inText.status).toBe('verified');
+    expect(inText.confidence).toBeLessThan(quoted.confidence);
+  });
+
+  it('grades partial, missing and thin evidence', () => {
+    expect(localSemanticVerify(semanticRequest({ evidence_text: 'A garden terrace with seating' })).status).toBe('weak_match');
+    expect(localSemanticVerify(semanticRequest({ evidence_text: 'x'.repeat(20) })).status).toBe('insufficient_evidence');
+    expect(localSemanticVerify(semanticRequest({ evidence_text: 'Traditional pub serving real ale and food. '.repeat(5) })).status).toBe('no_evidence');
+  });
+});
+
+describe('local Tower HTTP server', () => {
+  let tower: LocalTowerHandle;
+  const previousTowerUrl = process.env.TOWER_URL;
+
+  beforeAll(async () => {
+    tower = await startLocalTower(0);
+    process.env.TOWER_URL = tower.url;
+  });
+
+  afterAll(async () => {
+    if (previousTowerUrl === undefined) delete process.env.TOWER_URL;
+    else process.env.TOWER_URL = previousTowerUrl;
+    await tower.close();
+  });
+
+  const post = (path: string, body: unknown) => fetch(`${tower.url}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  it('serves judge-artefact', async () => {
+    const res = await post('/api/tower/judge-artefact', finalDelivery({ delivered: 3, verifiedExact: 1, requested: 3 }));
+    expect(res.status).toBe(200);
+    const body = await res.json() as ArtefactJudgementResponse;
+    expect(body.verdict).toBe('partial');
+    expect(body.action).toBe('continue');
+  });
+
+  it('serves evaluate through the Tower client', async () => {
+    const verdict = await callTowerEvaluate({
+      run_id: 'run-1',
+      mission_type: 'leadgen',
+      success: LEADGEN_SUCCESS_DEFAULTS,
+      snapshot: snapshot({ leads_found: 5, total_cost_gbp: 1 }),
+    });
+    expect(verdict.verdict).toBe('STOP');
+    expect(verdict.reason_code).toBe('TARGET_REACHED');
+  });
+
+  it('serves semantic-verify', async () => {
+    const res = await post('/api/tower/semantic-verify', semanticRequest({ extracted_quotes: ['Beer garden open all summer'] }));
+    expect((await res.json()).status).toBe('verified');
+  });
+
+  it('rejects malformed requests and bad API keys', async () => {
+    expect((await post('/api/tower/evaluate', { run_id: 'run-1' })).status).toBe(400);
+
+    const secured = await startLocalTower(0, '127.0.0.1', { apiKey: 'secret' });
+    try {
+      const res = await fetch(`${secured.url}/api/tower/semantic-verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-TOWER-API-KEY': 'wrong' },
+        body: JSON.stringify(semanticRequest()),
+      });
+      expect(res.status).toBe(401);
+    } finally {
+      await secured.close();
+    }
+  });
+});
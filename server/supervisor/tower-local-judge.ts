@@ -0,0 +1,373 @@
+/**
+ * Local Tower Judge
+ *
+ * Tower-compatible stand-in for offline and dev runs. Implements the request/response
+ * contracts of the three Tower endpoints the supervisor calls:
+ *
+ *   POST /api/tower/judge-artefact   (tower-artefact-judge.ts)
+ *   POST /api/tower/evaluate         (tower-judgement.ts)
+ *   POST /api/tower/semantic-verify  (tower-semantic-verify.ts)
+ *
+ * Unlike TOWER_ARTEFACT_JUDGE_STUB (always PASS), verdicts are derived deterministically
+ * from the CVL counts, the requested count and unverifiable hard constraints in the
+ * payload, so the full pipeline — CanonicalVerdict included — can be exercised without
+ * the real Tower service.
+ *
+ * Run as a separate process with `npm run tower:local`, then point
+ * TOWER_BASE_URL / TOWER_URL at it.
+ */
+
+import express, { type Express, type Request, type Response, type NextFunction } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { ArtefactJudgementRequest, ArtefactJudgementResponse } from './tower-artefact-judge';
+import type { TowerEvaluateRequest, TowerEvaluateResponse } from './tower-judgement';
+import type { TowerSemanticRequest, TowerSemanticResponse } from './tower-semantic-verify';
+
+// ---------------------------------------------------------------------------
+// judge-artefact
+// ---------------------------------------------------------------------------
+
+type Gap = { type: string; severity?: string; detail?: string };
+
+function asRecord(value: unknown): Record<string, any> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, any> : null;
+}
+
+function asCount(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Counts the local judge reads from a judge-artefact request.
+ * Accepts both the final_delivery payload (verification_summary nested) and
+ * CVL verification_summary artefacts (counts at the top level).
+ */
+export interface ArtefactJudgeInputs {
+  requestedCount: number | null;
+  deliveredCount: number | null;
+  verifiedExactCount: number | null;
+  hardUnverifiable: string[];
+  planVersion: number;
+  maxPlanVersions: number | null;
+}
+
+export function extractArtefactJudgeInputs(request: ArtefactJudgementRequest): ArtefactJudgeInputs {
+  const payload = asRecord(request.artefact_payload?.payload_json) ?? {};
+  const criteria = asRecord(request.successCriteria) ?? {};
+  const verification = asRecord(payload.verification_summary) ?? payload;
+  const planConstraints = asRecord(criteria.plan_constraints) ?? {};
+
+  // An implicit count (requested_count_value = null) is the search budget, not a user requirement
+  const implicitCount = criteria.requested_count_user === 'implicit';
+  const requestedCount = implicitCount
+    ? null
+    : asCount(criteria.requested_count_value)
+      ?? asCount(verification.requested_count_user)
+      ?? asCount(planConstraints.requested_count)
+      ?? asCount(criteria.target_count)
+      ?? asCount(payload.target_count);
+
+  const deliveredCount = asCount(payload.delivered_count)
+    ?? (Array.isArray(payload.leads) ? payload.leads.length : null)
+    ?? asCount(payload.verified_total_count);
+
+  const rawUnverifiable = verification.unverifiable_hard_constraints ?? payload.cvl_hard_unverifiable ?? [];
+  const hardUnverifiable = Array.isArray(rawUnverifiable)
+    ? rawUnverifiable.map((u: any) => typeof u === 'string' ? u : String(u?.value ?? u?.constraint_id ?? '')).filter(Boolean)
+    : [];
+
+  return {
+    requestedCount,
+    deliveredCount,
+    verifiedExactCount: asCount(verification.verified_exact_count),
+    hardUnverifiable,
+    planVersion: asCount(payload.plan_version) ?? asCount(criteria.plan_version) ?? 1,
+    maxPlanVersions: asCount(criteria.max_replan_versions),
+  };
+}
+
+/**
+ * Judge an artefact deterministically.
+ *
+ * Rules, in order:
+ *   nothing delivered                      → fail + change_plan (stop once replans are used up)
+ *   no CVL counts (intermediate artefact)  → pass
+ *   hard constraint(s) unverifiable        → accept_with_unverified
+ *   CVL verified none                      → fail + change_plan (stop once replans are used up)
+ *   verified fewer than requested          → partial
+ *   otherwise                              → pass
+ */
+export function localJudgeArtefact(request: ArtefactJudgementRequest): ArtefactJudgementResponse {
+  const inputs = extractArtefactJudgeInputs(request);
+  const { requestedCount, deliveredCount, verifiedExactCount, hardUnverifiable } = inputs;
+  const canReplan = inputs.maxPlanVersions === null || inputs.planVersion < inputs.maxPlanVersions;
+  const shortfall = requestedCount !== null && verifiedExactCount !== null
+    ? Math.max(0, requestedCount - verifiedExactCount)
+    : 0;
+
+  const metrics: Record<string, unknown> = {
+    requested_count: requestedCount,
+    delivered_count: deliveredCount,
+    verified_exact_count: verifiedExactCount,
+    hard_unverifiable_count: hardUnverifiable.length,
+    shortfall,
+    plan_version: inputs.planVersion,
+    judge: 'local',
+  };
+  const gaps: Gap[] = [];
+  if (shortfall > 0) {
+    gaps.push({ type: 'shortfall', severity: 'medium', detail: `${verifiedExactCount} of ${requestedCount} requested verified` });
+  }
+  hardUnverifiable.forEach(value => {
+    gaps.push({ type: 'hard_constraint_unverifiable', severity: 'high', detail: value });
+  });
+
+  const respond = (verdict: string, action: ArtefactJudgementResponse['action'], reason: string): ArtefactJudgementResponse => ({
+    verdict,
+    reasons: [reason],
+    metrics,
+    action,
+    ...(gaps.length > 0 ? { gaps } : {}),
+  });
+
+  if (deliveredCount === 0) {
+    return respond('fail', canReplan ? 'change_plan' : 'stop', 'No leads delivered');
+  }
+  if (verifiedExactCount === null) {
+    return respond('pass', 'continue', deliveredCount === null
+      ? `No CVL counts on ${request.artefactType} artefact`
+      : `${deliveredCount} lead(s) delivered; no CVL counts to judge`);
+  }
+  if (hardUnverifiable.length > 0) {
+    return respond('accept_with_unverified', 'continue',
+      `${hardUnverifiable.length} hard constraint(s) cannot be verified: ${hardUnverifiable.join(', ')}`);
+  }
+  if (verifiedExactCount === 0) {
+    return respond('fail', canReplan ? 'change_plan' : 'stop', `None of ${deliveredCount ?? 'the'} delivered lead(s) verified against hard constraints`);
+  }
+  if (shortfall > 0) {
+    return respond('partial', 'continue', `Verified ${verifiedExactCount} of ${requestedCount} requested`);
+  }
+  return respond('pass', 'continue', requestedCount === null
+    ? `Verified ${verifiedExactCount} lead(s)`
+    : `Verified ${verifiedExactCount} of ${requestedCount} requested`);
+}
+
+// ---------------------------------------------------------------------------
+// evaluate
+// ---------------------------------------------------------------------------
+
+/**
+ * Evaluate a step snapshot against the success thresholds.
+ * Checked in order: failures, budget, target, cost per lead, step limit, stall.
+ */
+export function localEvaluate(request: TowerEvaluateRequest, now: Date = new Date()): TowerEvaluateResponse {
+  const { success, snapshot } = request;
+  const respond = (verdict: TowerEvaluateResponse['verdict'], reason_code: string, explanation: string): TowerEvaluateResponse => ({
+    verdict,
+    reason_code,
+    explanation,
+    evaluated_at: now.toISOString(),
+  });
+
+  if (snapshot.failures_count >= success.max_failures) {
+    return respond('STOP', 'MAX_FAILURES', `${snapshot.failures_count} failed step(s) (limit ${success.max_failures})`);
+  }
+  if (snapshot.total_cost_gbp > success.max_cost_gbp) {
+    return respond('STOP', 'BUDGET_EXCEEDED', `Spent £${snapshot.total_cost_gbp.toFixed(2)} of £${success.max_cost_gbp.toFixed(2)} budget`);
+  }
+  if (snapshot.leads_found >= success.target_leads) {
+    if (snapshot.avg_quality_score < success.min_quality_score) {
+      return respond('CHANGE_PLAN', 'LOW_QUALITY', `Target reached but average quality ${snapshot.avg_quality_score} is below ${success.min_quality_score}`);
+    }
+    return respond('STOP', 'TARGET_REACHED', `Found ${snapshot.leads_found} of ${success.target_leads} target leads`);
+  }
+  if (snapshot.leads_found > 0 && snapshot.total_cost_gbp / snapshot.leads_found > success.max_cost_per_lead_gbp) {
+    const perLead = snapshot.total_cost_gbp / snapshot.leads_found;
+    return respond('CHANGE_PLAN', 'COST_PER_LEAD_EXCEEDED', `£${perLead.toFixed(2)} per lead (limit £${success.max_cost_per_lead_gbp.toFixed(2)})`);
+  }
+  if (snapshot.steps_completed >= success.max_steps) {
+    return respond('STOP', 'MAX_STEPS', `${snapshot.steps_completed} step(s) completed (limit ${success.max_steps})`);
+  }
+  if (snapshot.steps_completed >= success.stall_window_steps && snapshot.leads_new_last_window < success.stall_min_delta_leads) {
+    return respond('CHANGE_PLAN', 'STALLED', `${snapshot.leads_new_last_window} new lead(s) in the last ${success.stall_window_steps} step(s)`);
+  }
+  return respond('CONTINUE', 'ON_TRACK', `Found ${snapshot.leads_found} of ${success.target_leads} target leads after ${snapshot.steps_completed} step(s)`);
+}
+
+// ---------------------------------------------------------------------------
+// semantic-verify
+// ---------------------------------------------------------------------------
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'the', 'of', 'in', 'on', 'at', 'for', 'to', 'with', 'has', 'have', 'is', 'are', 'that', 'which']);
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 80);
+  return text.substring(start, index + length + 80).trim();
+}
+
+/**
+ * Verify a constraint against page evidence by phrase and keyword matching:
+ *   phrase in an extracted quote  → verified (0.9)
+ *   phrase in the evidence text   → verified (0.75)
+ *   most keywords present         → weak_match (0.4)
+ *   too little evidence to judge  → insufficient_evidence (0.1)
+ *   otherwise                     → no_evidence (0.8)
+ */
+export function localSemanticVerify(request: TowerSemanticRequest): TowerSemanticResponse {
+  const constraint = request.constraint_to_check.trim();
+  const phrase = constraint.toLowerCase();
+  const quotes = request.extracted_quotes ?? [];
+  const evidence = request.evidence_text ?? '';
+  const subject = `"${constraint}" for "${request.lead_name}"`;
+
+  const quoteMatches = quotes.filter(q => q.toLowerCase().includes(phrase));
+  if (phrase && quoteMatches.length > 0) {
+    return {
+      status: 'verified',
+      confidence: 0.9,
+      reasoning: `Local judge: ${subject} stated in ${quoteMatches.length} extracted quote(s).`,
+      matched_snippets: quoteMatches.slice(0, 3),
+    };
+  }
+
+  const phraseIndex = phrase ? evidence.toLowerCase().indexOf(phrase) : -1;
+  if (phraseIndex >= 0) {
+    return {
+      status: 'verified',
+      confidence: 0.75,
+      reasoning: `Local judge: ${subject} found in page text.`,
+      matched_snippets: [snippetAround(evidence, phraseIndex, phrase.length)],
+    };
+  }
+
+  const keywords = Array.from(new Set(tokenize(constraint)));
+  const haystack = new Set(tokenize(`${quotes.join(' ')} ${evidence} ${request.page_title ?? ''}`));
+  const present = keywords.filter(k => haystack.has(k));
+  if (keywords.length > 0 && present.length * 2 >= keywords.length) {
+    return {
+      status: 'weak_match',
+      confidence: 0.4,
+      reasoning: `Local judge: ${present.length}/${keywords.length} keyword(s) of ${subject} present (${present.join(', ')}) but not the full phrase.`,
+    };
+  }
+
+  if (quotes.length === 0 && evidence.length < 100) {
+    return {
+      status: 'insufficient_evidence',
+      confidence: 0.1,
+      reasoning: `Local judge: insufficient evidence to check ${subject}.`,
+    };
+  }
+
+  return {
+    status: 'no_evidence',
+    confidence: 0.8,
+    reasoning: `Local judge: no mention of ${subject} in ${evidence.length} chars of evidence.`,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HTTP server
+// ---------------------------------------------------------------------------
+
+export interface LocalTowerOptions {
+  /** When set, requests must send a matching X-TOWER-API-KEY header */
+  apiKey?: string;
+  /** Log each judgement to the console */
+  verbose?: boolean;
+}
+
+function missingFields(body: Record<string, any>, fields: string[]): string[] {
+  return fields.filter(field => body[field] === undefined || body[field] === null);
+}
+
+/**
+ * Express app exposing the three Tower endpoints.
+ */
+export function createLocalTowerApp(options: LocalTowerOptions = {}): Express {
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (options.apiKey && req.header('X-TOWER-API-KEY') !== options.apiKey) {
+      res.status(401).json({ error: 'Invalid or missing X-TOWER-API-KEY' });
+      return;
+    }
+    next();
+  });
+
+  const route = <TReq, TRes>(path: string, required: string[], judge: (body: TReq) => TRes, describe: (result: TRes) => string) => {
+    app.post(path, (req: Request, res: Response) => {
+      const body = asRecord(req.body) ?? {};
+      const missing = missingFields(body, required);
+      if (missing.length > 0) {
+        res.status(400).json({ error: `Missing required field(s): ${missing.join(', ')}` });
+        return;
+      }
+      const result = judge(body as TReq);
+      if (options.verbose) {
+        console.log(`[LOCAL_TOWER] ${path} → ${describe(result)}`);
+      }
+      res.json(result);
+    });
+  };
+
+  route<ArtefactJudgementRequest, ArtefactJudgementResponse>(
+    '/api/tower/judge-artefact',
+    ['runId', 'artefactId', 'artefactType'],
+    localJudgeArtefact,
+    r => `${r.verdict}/${r.action}: ${r.reasons[0]}`,
+  );
+  route<TowerEvaluateRequest, TowerEvaluateResponse>(
+    '/api/tower/evaluate',
+    ['run_id', 'success', 'snapshot'],
+    body => localEvaluate(body),
+    r => `${r.verdict} (${r.reason_code})`,
+  );
+  route<TowerSemanticRequest, TowerSemanticResponse>(
+    '/api/tower/semantic-verify',
+    ['lead_name', 'constraint_to_check'],
+    localSemanticVerify,
+    r => `${r.status} (${r.confidence})`,
+  );
+
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({ ok: true, judge: 'local' });
+  });
+
+  return app;
+}
+
+export interface LocalTowerHandle {
+  server: Server;
+  /** Base URL to use as TOWER_BASE_URL / TOWER_URL */
+  url: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Start the local judge. Port 0 picks a free port (used by tests).
+ */
+export async function startLocalTower(
+  port: number,
+  host = '127.0.0.1',
+  options: LocalTowerOptions = {}
+): Promise<LocalTowerHandle> {
+  const app = createLocalTowerApp(options);
+  const server = await new Promise<Server>((resolve, reject) => {
+    const s = app.listen(port, host, () => resolve(s));
+    s.on('error', reject);
+  });
+  const address = server.address() as AddressInfo;
+  return {
+    server,
+    url: `http://${host}:${address.port}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -1,5 +1,11 @@
 import { buildToolResult, buildToolError } from "@shared/tool-result-helpers";
 import type { ToolResultEnvelope, EvidenceItem } from "@shared/tool-result";
+import { cassetteApiKey, cassetteFetch } from "./cassette";
+import { fetchCached } from "./fetch-cache";
+import { recordApiUsage } from "./cost-ledger";
+import { normaliseDomain, recordEntitySightings, type EntitySighting } from "./entity-index";
+import { checkBudget, formatBudgetStopReason } from "./budgets";
+import { acquireRateLimit, reportCallFailure, reportCallSuccess, retryAfterMsFromHeaders } from "./rate-limits";
 
 const TOOL_NAME = "WEB_SEARCH";
 const TOOL_VERSION = "1.0";
@@ -38,11 +44,15 @@ type MatchSignal =
 
 const BRAVE_SEARCH_URL = "https://api.search.brave.com/res/v1/web/search";
 
-async function fetchBraveResults(
-  query: string,
-  limit: number,
-): Promise<{ results: RawSearchHit[]; error?: string; empty_results?: boolean; quota_exceeded?: boolean }> {
-  const apiKey = process.env.BRAVE_SEARCH_API_KEY;
+interface BraveResultPage {
+  results: RawSearchHit[];
+  error?: string;
+  empty_results?: boolean;
+  quota_exceeded?: boolean;
+}
+
+async function fetchBraveResults(query: string, limit: number): Promise<BraveResultPage> {
+  const apiKey = cassetteApiKey(process.env.BRAVE_SEARCH_API_KEY);
   if (!apiKey) {
     return {
       results: [],
@@ -50,16 +60,37 @@ async function fetchBraveResults(
     };
   }
 
+  const count = Math.min(limit, 20);
+  return fetchCached("brave", `${query.trim().toLowerCase()}||${count}`, () => fetchBraveResultPage(query, count, apiKey), {
+    shouldCache: (page) => !page.error,
+  });
+}
+
+async function fetchBraveResultPage(query: string, count: number, apiKey: string): Promise<BraveResultPage> {
+  const budget = await checkBudget();
+  if (!budget.allowed) {
+    return { results: [], error: formatBudgetStopReason(budget) };
+  }
+
+  const limit = await acquireRateLimit({ provider: "brave" });
+  if (!limit.allowed) {
+    return {
+      results: [],
+      error: `Brave search paused (${limit.reason} on ${limit.key}), retry in ${Math.ceil(limit.retryAfterMs / 1000)}s`,
+      quota_exceeded: true,
+    };
+  }
+
   const url = new URL(BRAVE_SEARCH_URL);
   url.searchParams.set("q", query);
-  url.searchParams.set("count", String(Math.min(limit, 20)));
+  url.searchParams.set("count", String(count));
   url.searchParams.set("safesearch", "off");
 
   try {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
 
-    const response = await fetch(url.toString(), {
+    const response = await cassetteFetch("brave", url.toString(), {
       headers: {
         Accept: "application/json",
         "Accept-Encoding": "gzip",
@@ -73,12 +104,23 @@ async function fetchBraveResults(
     if (!response.ok) {
       const body = await response.text().catch(() => "");
       const isQuotaExceeded = response.status === 402 || response.status === 429;
+      const error = `Brave API returned ${response.status}: ${body.substring(0, 200)}`;
+      // Quota responses open the shared breaker straight away: 402 (plan quota spent)
+      // for an hour, 429 for as long as Brave asks. Other 4xx are our fault, not Brave's.
+      if (isQuotaExceeded) {
+        const tripMs = response.status === 402 ? 60 * 60_000 : retryAfterMsFromHeaders(response.headers, 60_000);
+        await reportCallFailure({ provider: "brave" }, error, { tripMs });
+      } else if (response.status >= 500) {
+        await reportCallFailure({ provider: "brave" }, error);
+      }
       return {
         results: [],
-        error: `Brave API returned ${response.status}: ${body.substring(0, 200)}`,
+        error,
         quota_exceeded: isQuotaExceeded,
       };
     }
+    recordApiUsage({ label: "brave_search", provider: "brave", unit: "search" });
+    await reportCallSuccess({ provider: "brave" });
 
     const data = await response.json();
     const webResults = data?.web?.results ?? [];
@@ -101,6 +143,7 @@ async function fetchBraveResults(
     };
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
+    await reportCallFailure({ provider: "brave" }, err);
     return { results: [], error: `Brave search failed: ${msg}` };
   }
 }
@@ -297,6 +340,13 @@ export async function executeWebSearch(
 
   const disambiguation = disambiguateOfficialUrl(results, input.entity_name);
 
+  const sightings: EntitySighting[] = [];
+  for (const result of results) {
+    const domain = normaliseDomain(result.url);
+    if (domain) sightings.push({ kind: "domain", key: domain, name: result.title, source: "brave" });
+  }
+  recordEntitySightings(sightings).catch(() => {});
+
   if (disambiguation.best_guess_official_url) {
     evidence.push({
       source_type: "search_result",
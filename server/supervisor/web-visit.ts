@@ -1,7 +1,10 @@
 import * as cheerio from "cheerio";
 import { buildToolResult, buildToolError } from "@shared/tool-result-helpers";
 import type { ToolResultEnvelope, EvidenceItem } from "@shared/tool-result";
-import { callLLMText } from "./llm-failover";
+import { z } from "zod";
+import { callLLMJson } from "./llm-json";
+import { cassetteFetch, withCassette } from "./cassette";
+import { fetchCached } from "./fetch-cache";
 
 const TOOL_NAME = "WEB_VISIT";
 const TOOL_VERSION = "1.0";
@@ -57,15 +60,17 @@ const PAGE_HINT_PATHS: Record<string, string[]> = {
 
 const VALID_HINTS = Object.keys(PAGE_HINT_PATHS);
 
-const _pageHintCache = new Map<string, string[]>();
-
 async function getLLMPageHints(constraintValue: string, entityType: string): Promise<string[]> {
   const cacheKey = `${entityType}::${constraintValue}`.toLowerCase();
-  if (_pageHintCache.has(cacheKey)) {
-    return _pageHintCache.get(cacheKey)!;
-  }
+  return fetchCached("page_hints", cacheKey, () => suggestPageHints(constraintValue, entityType), {
+    shouldCache: (hints) => hints.length > 0,
+  });
+}
+
+async function suggestPageHints(constraintValue: string, entityType: string): Promise<string[]> {
   try {
-    const raw = await callLLMText(
+    const { data: hints } = await callLLMJson(
+      z.array(z.string()),
       `A user is looking for businesses with a specific attribute. Suggest 5-8 URL path slugs where this information would most likely appear on a business's website. Return ONLY a JSON array of strings starting with "/". No explanation.
 
 Example for "cask ale" on a "pub" website:
@@ -74,14 +79,8 @@ Example for "cask ale" on a "pub" website:
       'page_hints',
       { maxTokens: 200, timeoutMs: 5000 },
     );
-    let cleaned = raw.trim();
-    if (cleaned.startsWith('```')) cleaned = cleaned.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
-    const parsed = JSON.parse(cleaned);
-    if (Array.isArray(parsed) && parsed.every(s => typeof s === 'string')) {
-      _pageHintCache.set(cacheKey, parsed);
-      console.log(`[WEB_VISIT] LLM page hints for "${constraintValue}" on "${entityType}": ${parsed.join(', ')}`);
-      return parsed;
-    }
+    console.log(`[WEB_VISIT] LLM page hints for "${constraintValue}" on "${entityType}": ${hints.join(', ')}`);
+    return hints;
   } catch (err: any) {
     console.warn(`[WEB_VISIT] LLM page hints failed for "${constraintValue}": ${err?.message || err}`);
   }
@@ -153,6 +152,16 @@ interface FetchResult {
   };
 }
 
+/** Cleaned page text, cached per URL in the fetch cache (web_page) */
+export interface CleanedPage {
+  title: string;
+  text: string;
+  links: string[];
+  lang: string;
+}
+
+export type VisitResult = Omit<FetchResult, "html"> & { page?: CleanedPage };
+
 function normalizeUrl(raw: string): string {
   let u = raw.trim();
   if (!/^https?:\/\//i.test(u)) u = "https://" + u;
@@ -291,7 +300,7 @@ async function fetchPage(url: string): Promise<FetchResult> {
   let fetchStatus: number | undefined;
 
   try {
-    const res = await fetch(url, {
+    const res = await cassetteFetch("web_visit", url, {
       signal: controller.signal,
       headers: REALISTIC_HEADERS,
       redirect: "follow",
@@ -378,6 +387,17 @@ async function fetchPage(url: string): Promise<FetchResult> {
 
   console.log(`[WEB_VISIT] Fetch failed for ${url} (${fetchStage.reason}), attempting Playwright fallback…`);
 
+  return withCassette("web_visit_playwright", { url, fetchStage, fetchStatus }, () =>
+    playwrightFallback(url, fetchStage, fetchStatus, isBotBlock),
+  );
+}
+
+async function playwrightFallback(
+  url: string,
+  fetchStage: FetchStageDetails,
+  fetchStatus: number | undefined,
+  isBotBlock: boolean,
+): Promise<FetchResult> {
   let pw: any = null;
   try {
     pw = await import("playwright");
@@ -531,6 +551,21 @@ async function runPlaywright(
   }
 }
 
+/**
+ * Fetch and clean a page. Successful visits are cached without the raw HTML,
+ * so a restart doesn't re-fetch the same sites.
+ */
+export async function visitPage(url: string): Promise<VisitResult> {
+  return fetchCached<VisitResult>("web_page", url, async () => {
+    const { html, ...result } = await fetchPage(url);
+    if (!result.ok || html === undefined) return result;
+    const cleaned = cleanHtml(html, result.redirectedUrl || url);
+    return { ...result, page: { ...cleaned, text: cleaned.text.substring(0, 50_000) } };
+  }, {
+    shouldCache: (result) => result.ok && !!result.page,
+  });
+}
+
 export async function executeWebVisit(
   input: WebVisitInput,
   runId: string,
@@ -591,9 +626,9 @@ export async function executeWebVisit(
 
     console.log(`[WEB_VISIT] Fetching ${normalized} (page ${pages.length + 1}/${maxPages})`);
 
-    const result = await fetchPage(targetUrl);
+    const result = await visitPage(targetUrl);
 
-    if (!result.ok) {
+    if (!result.ok || !result.page) {
       httpFailures++;
       if (result.blocked) wasBlocked = true;
       if (result.retryable) isRetryable = true;
@@ -622,15 +657,16 @@ export async function executeWebVisit(
     const fetchMethod = result.method || "fetch";
     const crossDomain = !isSameDomain(baseUrl, actualUrl);
 
+    const cleaned = result.page;
+
     if (crossDomain && sameDomainOnly) {
-      const cleaned = cleanHtml(result.html!, actualUrl);
       if (pages.length === 0) siteLang = cleaned.lang;
       const pageType = classifyPage(actualUrl, hintType);
       pages.push({
         url: actualUrl + " [CROSS-DOMAIN]",
         page_type: pageType,
         title: cleaned.title,
-        text_clean: cleaned.text.substring(0, 50_000),
+        text_clean: cleaned.text,
         extracted_links: [],
       });
       evidence.push({
@@ -643,7 +679,6 @@ export async function executeWebVisit(
       return;
     }
 
-    const cleaned = cleanHtml(result.html!, actualUrl);
     if (pages.length === 0) siteLang = cleaned.lang;
 
     const pageType = classifyPage(actualUrl, hintType);
@@ -651,7 +686,7 @@ export async function executeWebVisit(
       url: actualUrl + (crossDomain ? " [CROSS-DOMAIN]" : ""),
       page_type: pageType,
       title: cleaned.title,
-      text_clean: cleaned.text.substring(0, 50_000),
+      text_clean: cleaned.text,
       extracted_links: cleaned.links.slice(0, 100),
     };
 
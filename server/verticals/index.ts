@@ -2,6 +2,8 @@
  * Verticals - Barrel Export
  * 
  * Re-exports all vertical packs.
+ * Data-declared packs live in ./packs (JSON/YAML) and are loaded by
+ * loadVerticalPacks() at startup.
  * SUP-14: BreweryVerticalPack (pipeline, scripts, queries)
  */
 
@@ -22,5 +24,8 @@ export {
   listVerticalPacks,
   listVerticalIds,
   hasVerticalPack,
+  isRegisteredVerticalId,
+  loadVerticalPacks,
   VerticalPackNotFoundError,
+  VerticalPackValidationError,
 } from '../core/verticals';
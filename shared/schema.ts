@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, real, integer, index, bigint, numeric, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, real, integer, index, uniqueIndex, bigint, numeric, uuid, boolean, primaryKey, date } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -366,6 +366,7 @@ export const learningStore = pgTable("learning_store", {
   searchBudgetPages: integer("search_budget_pages").notNull().default(3),
   radiusEscalation: text("radius_escalation").notNull().default("allowed"),
   stopIfUnderfilled: integer("stop_if_underfilled").notNull().default(0),
+  radiusPolicy: jsonb("radius_policy"),
   fieldMetadata: jsonb("field_metadata"),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -381,3 +382,299 @@ export const insertLearningStoreSchema = createInsertSchema(learningStore).omit(
 
 export type InsertLearningStore = z.infer<typeof insertLearningStoreSchema>;
 export type LearningStore = typeof learningStore.$inferSelect;
+
+// Durable event bus (DurableEventBus / PostgresEventStore)
+export const supervisorEvents = pgTable("supervisor_events", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  event: jsonb("event").notNull(),
+  deliveryMode: text("delivery_mode").notNull().default("at_least_once"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  typeIdx: index("idx_supervisor_events_type").on(table.type),
+  createdAtIdx: index("idx_supervisor_events_created_at").on(table.createdAt),
+}));
+
+export const supervisorEventSubscribers = pgTable("supervisor_event_subscribers", {
+  subscriberId: text("subscriber_id").primaryKey(),
+  pattern: text("pattern").notNull(),
+  registeredAt: timestamp("registered_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const supervisorEventDeliveries = pgTable("supervisor_event_deliveries", {
+  id: text("id").primaryKey(),
+  eventId: text("event_id").notNull(),
+  subscriberId: text("subscriber_id").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending' | 'delivered' (in flight) | 'acknowledged' | 'failed' (dead letter)
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }).defaultNow().notNull(),
+  leaseUntil: timestamp("lease_until", { withTimezone: true }),
+  lastError: text("last_error"),
+  acknowledgedAt: timestamp("acknowledged_at", { withTimezone: true }),
+  deadLetteredAt: timestamp("dead_lettered_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  eventSubscriberIdx: uniqueIndex("idx_supervisor_event_deliveries_event_subscriber").on(table.eventId, table.subscriberId),
+  dueIdx: index("idx_supervisor_event_deliveries_due").on(table.status, table.nextAttemptAt),
+}));
+
+export type SupervisorEventRow = typeof supervisorEvents.$inferSelect;
+export type SupervisorEventSubscriberRow = typeof supervisorEventSubscribers.$inferSelect;
+export type SupervisorEventDeliveryRow = typeof supervisorEventDeliveries.$inferSelect;
+
+// Persistent job queue (JobQueue / PostgresJobStore)
+export const supervisorJobs = pgTable("supervisor_jobs", {
+  jobId: text("job_id").primaryKey(),
+  jobType: text("job_type").notNull(),
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  payload: jsonb("payload"),
+  requestedBy: text("requested_by").notNull(),
+  sourceRunId: text("source_run_id"),
+  userId: text("user_id"),
+  clientRequestId: text("client_request_id"),
+  priority: integer("priority").notNull().default(0),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAfter: timestamp("run_after", { withTimezone: true }).defaultNow().notNull(),
+  leaseOwner: text("lease_owner"),
+  leaseUntil: timestamp("lease_until", { withTimezone: true }),
+  progress: integer("progress").notNull().default(0),
+  message: text("message"),
+  resultSummary: jsonb("result_summary"),
+  lastError: text("last_error"),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  endedAt: timestamp("ended_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  clientRequestIdx: uniqueIndex("idx_supervisor_jobs_client_request")
+    .on(table.jobType, table.clientRequestId)
+    .where(sql`client_request_id IS NOT NULL`),
+  dueIdx: index("idx_supervisor_jobs_due").on(table.status, table.priority, table.runAfter),
+  userIdx: index("idx_supervisor_jobs_user").on(table.userId),
+}));
+
+export const supervisorJobLocks = pgTable("supervisor_job_locks", {
+  name: text("name").primaryKey(),
+  owner: text("owner").notNull(),
+  leaseUntil: timestamp("lease_until", { withTimezone: true }).notNull(),
+  acquiredAt: timestamp("acquired_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export type SupervisorJobRow = typeof supervisorJobs.$inferSelect;
+export type SupervisorJobLockRow = typeof supervisorJobLocks.$inferSelect;
+
+// Durable scheduler (DurableScheduler / PostgresTaskStore)
+export const supervisorScheduledTasks = pgTable("supervisor_scheduled_tasks", {
+  id: text("id").primaryKey(),
+  type: text("type").notNull(),
+  payload: jsonb("payload"),
+  priority: text("priority"), // TaskPriority: 'low' | 'normal' | 'high' | 'critical'
+  priorityRank: integer("priority_rank").notNull().default(1),
+  metadata: jsonb("metadata"),
+  status: text("status").notNull().default("pending"), // 'pending' | 'claimed'
+  runAt: timestamp("run_at", { withTimezone: true }).defaultNow().notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }),
+  intervalMs: bigint("interval_ms", { mode: "number" }),
+  attempts: integer("attempts").notNull().default(0),
+  leaseOwner: text("lease_owner"),
+  leaseUntil: timestamp("lease_until", { withTimezone: true }),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  dueIdx: index("idx_supervisor_scheduled_tasks_due").on(table.status, table.runAt),
+  typeIdx: index("idx_supervisor_scheduled_tasks_type").on(table.type),
+}));
+
+export type SupervisorScheduledTaskRow = typeof supervisorScheduledTasks.$inferSelect;
+
+// Saved leads (saveLead feature / PostgresSavedLeadStore)
+export const savedLeads = pgTable("saved_leads", {
+  id: text("id").primaryKey(),
+  ownerUserId: text("owner_user_id").notNull(),
+  businessName: text("business_name").notNull(),
+  address: text("address").notNull(),
+  placeId: text("place_id"),
+  website: text("website"),
+  phone: text("phone"),
+  lat: real("lat"),
+  lng: real("lng"),
+  source: text("source").notNull(), // LeadSource: 'google' | 'database' | 'manual'
+  pipelineStage: text("pipeline_stage"),
+  pipelineStageChangedAt: timestamp("pipeline_stage_changed_at", { withTimezone: true }),
+  notes: text("notes"),
+  tags: text("tags").array().notNull().default(sql`'{}'`),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  ownerPlaceIdx: uniqueIndex("idx_saved_leads_owner_place")
+    .on(table.ownerUserId, table.placeId)
+    .where(sql`place_id IS NOT NULL`),
+  ownerStageIdx: index("idx_saved_leads_owner_stage").on(table.ownerUserId, table.pipelineStage),
+}));
+
+export type SavedLeadRow = typeof savedLeads.$inferSelect;
+
+// Pipeline stage history for suggested leads (one row per stage transition)
+export const leadStageHistory = pgTable("lead_stage_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leadId: varchar("lead_id").notNull(),
+  accountId: varchar("account_id"),
+  userId: varchar("user_id"),
+  verticalId: text("vertical_id").notNull(),
+  fromStage: text("from_stage"),
+  toStage: text("to_stage").notNull(),
+  actor: text("actor").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  leadIdx: index("idx_lead_stage_history_lead").on(table.leadId, table.createdAt),
+}));
+
+export const insertLeadStageHistorySchema = createInsertSchema(leadStageHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLeadStageHistory = z.infer<typeof insertLeadStageHistorySchema>;
+export type LeadStageHistory = typeof leadStageHistory.$inferSelect;
+
+// CRM sync state (crmSync feature): one row per lead per CRM provider
+export const crmSyncState = pgTable("crm_sync_state", {
+  id: text("id").primaryKey(),
+  provider: text("provider").notNull(), // CrmProvider: 'hubspot' | 'pipedrive'
+  leadId: text("lead_id").notNull(),
+  userId: text("user_id"),
+  status: text("status").notNull(), // CrmSyncStatus: 'created' | 'matched' | 'failed'
+  externalId: text("external_id"),
+  dedupeKey: text("dedupe_key"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  syncedAt: timestamp("synced_at", { withTimezone: true }),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  providerLeadIdx: uniqueIndex("idx_crm_sync_state_provider_lead").on(table.provider, table.leadId),
+  userIdx: index("idx_crm_sync_state_user").on(table.userId, table.provider),
+}));
+
+export type CrmSyncStateRow = typeof crmSyncState.$inferSelect;
+
+// Shared fetch cache (supervisor/fetch-cache): Places, geocode, Brave and web-visit responses
+export const fetchCache = pgTable("fetch_cache", {
+  id: text("id").primaryKey(), // `${source}:${cache_key}`
+  source: text("source").notNull(), // FetchCacheSource
+  cacheKey: text("cache_key").notNull(),
+  value: jsonb("value"),
+  storedAt: timestamp("stored_at", { withTimezone: true }).defaultNow().notNull(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  staleUntil: timestamp("stale_until", { withTimezone: true }).notNull(),
+  sizeBytes: integer("size_bytes").notNull().default(0),
+}, (table) => ({
+  sourceKeyIdx: uniqueIndex("idx_fetch_cache_source_key").on(table.source, table.cacheKey),
+  sourceStoredIdx: index("idx_fetch_cache_source_stored").on(table.source, table.storedAt),
+}));
+
+export type FetchCacheRow = typeof fetchCache.$inferSelect;
+
+// Cost ledger (supervisor/cost-ledger): one row per LLM or paid-API call
+export const costRecords = pgTable("cost_records", {
+  id: text("id").primaryKey(),
+  runId: text("run_id"),
+  userId: text("user_id"),
+  accountId: text("account_id"),
+  label: text("label").notNull(),
+  provider: text("provider").notNull(), // CostProvider
+  model: text("model"),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  units: integer("units").notNull().default(0),
+  unit: text("unit"),
+  costUsd: numeric("cost_usd", { precision: 14, scale: 6 }).notNull().default("0"),
+  estimated: boolean("estimated").notNull().default(false),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  runIdx: index("idx_cost_records_run").on(table.runId),
+  userCreatedIdx: index("idx_cost_records_user_created").on(table.userId, table.createdAt),
+  accountCreatedIdx: index("idx_cost_records_account_created").on(table.accountId, table.createdAt),
+  createdIdx: index("idx_cost_records_created").on(table.createdAt),
+}));
+
+export type CostRecordRow = typeof costRecords.$inferSelect;
+
+// Rate limiter (supervisor/rate-limits): one token bucket per provider/user/route key
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(), // e.g. provider:brave, user:<id>, route:chat
+  tokens: real("tokens").notNull(),
+  granted: boolean("granted").notNull().default(true), // outcome of the last take
+  updatedAtMs: bigint("updated_at_ms", { mode: "number" }).notNull(),
+});
+
+// Circuit breakers (supervisor/rate-limits), shared across instances
+export const circuitBreakers = pgTable("circuit_breakers", {
+  key: text("key").primaryKey(), // e.g. provider:brave, route:chat
+  state: text("state").notNull().default("closed"), // BreakerState
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  openUntil: timestamp("open_until", { withTimezone: true }),
+  probeStartedAt: timestamp("probe_started_at", { withTimezone: true }),
+  lastError: text("last_error"),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export type CircuitBreakerRow = typeof circuitBreakers.$inferSelect;
+
+// Sleep-wake daily quotas (supervisor/sleep-wake): wakes per user, or '*' for all users, per UTC day
+export const sleepWakeDailyQuota = pgTable("sleep_wake_daily_quota", {
+  quotaKey: text("quota_key").notNull(), // user id, or '*'
+  day: date("day").notNull(), // UTC day
+  wakes: integer("wakes").notNull().default(0),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.quotaKey, table.day] }),
+}));
+
+// Sleep-wake attempt audit: one row per claimed wake of a scheduled_monitors row
+export const sleepWakeAttempts = pgTable("sleep_wake_attempts", {
+  id: text("id").primaryKey(),
+  monitorId: text("monitor_id").notNull(),
+  userId: text("user_id").notNull(),
+  owner: text("owner").notNull(), // instance that claimed the monitor
+  attempt: integer("attempt").notNull().default(1),
+  status: text("status").notNull().default("running"), // WakeAttemptStatus
+  runId: text("run_id"),
+  leaseUntil: timestamp("lease_until", { withTimezone: true }),
+  entitiesFound: integer("entities_found"),
+  newEntities: integer("new_entities"),
+  error: text("error"),
+  startedAt: timestamp("started_at", { withTimezone: true }).defaultNow().notNull(),
+  endedAt: timestamp("ended_at", { withTimezone: true }),
+}, (table) => ({
+  monitorIdx: index("idx_sleep_wake_attempts_monitor").on(table.monitorId, table.startedAt),
+}));
+
+export type SleepWakeAttemptRow = typeof sleepWakeAttempts.$inferSelect;
+
+// Entity index (supervisor/entity-index): first/last sighting of every place_id and domain
+export const entityIndex = pgTable("entity_index", {
+  id: text("id").primaryKey(), // `${kind}:${entity_key}`
+  kind: text("kind").notNull(), // EntityKeyKind
+  entityKey: text("entity_key").notNull(),
+  name: text("name"),
+  firstSeenAt: timestamp("first_seen_at", { withTimezone: true }).notNull(),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).notNull(),
+  firstSource: text("first_source").notNull(),
+  lastSource: text("last_source").notNull(),
+  sightings: integer("sightings").notNull().default(1),
+}, (table) => ({
+  kindKeyIdx: uniqueIndex("idx_entity_index_kind_key").on(table.kind, table.entityKey),
+  firstSeenIdx: index("idx_entity_index_first_seen").on(table.firstSeenAt),
+}));
+
+export type EntityIndexRow = typeof entityIndex.$inferSelect;
+
+// When each area (normalised search location) was first searched, for first-seen judgements
+export const entityIndexCoverage = pgTable("entity_index_coverage", {
+  area: text("area").primaryKey(),
+  firstSearchedAt: timestamp("first_searched_at", { withTimezone: true }).notNull(),
+  lastSearchedAt: timestamp("last_searched_at", { withTimezone: true }).notNull(),
+  searches: integer("searches").notNull().default(1),
+});